@@ -1,6 +1,19 @@
 // Predictive Analytics Service for Healthcare Demand Forecasting
 // Sub-Phase 10.1: Advanced Analytics & Tracking System Architecture
 
+import type { PrismaClient } from '@prisma/client';
+import { singaporeMinutes } from '@/lib/clinic-hours/calendar';
+import { prisma } from '@/lib/db';
+import { normalCdf } from '@/lib/experiments/statistics';
+import type { DailyDemandRow } from '@/lib/forecasting/features';
+import { seasonalProfile } from '@/lib/forecasting/model';
+import {
+  DemandForecastService,
+  type ForecastDay,
+  type HourlyLoad,
+  type StaffingOptions,
+  type StoredDemandModel
+} from '@/lib/forecasting/service';
 import { 
   PredictiveAnalytics,
   DemandForecast,
@@ -9,64 +22,24 @@ import {
   SeasonalAdjustment,
   RiskAssessment,
   PredictiveRecommendation,
-  TimeRange,
-  TimeRangeKey
+  ForecastFactor
 } from '../types/analytics.types';
 
-export interface ForecastingModel {
-  name: string;
-  version: string;
-  accuracy: number;
-  lastTrained: Date;
-  features: string[];
-  hyperparameters: Record<string, any>;
-}
-
-export interface TrainingData {
-  clinicId: string;
-  date: Date;
-  appointments: number;
-  enquiries: number;
-  noShows: number;
-  cancellations: number;
-  demographics: {
-    ageGroups: Record<string, number>;
-    genderDistribution: Record<string, number>;
-  };
-  weather?: {
-    temperature: number;
-    humidity: number;
-    rainfall: number;
-  };
-  events?: {
-    holidays: boolean;
-    schoolTerms: boolean;
-    events: string[];
-  };
-  seasonality: {
-    dayOfWeek: number;
-    month: number;
-    isWeekend: boolean;
-    season: 'spring' | 'summer' | 'autumn' | 'winter';
-  };
-}
-
-export interface ModelPrediction {
-  date: Date;
-  predictedValue: number;
-  confidenceInterval: [number, number];
-  featureImportance: Record<string, number>;
-  modelContributions: Record<string, number>;
-}
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Caps the utilisation the steady-state queue is computed at; beyond it the backlog takes over
+const MAX_STEADY_UTILISATION = 0.95;
 
 export class PredictiveAnalyticsService {
   private static instance: PredictiveAnalyticsService;
-  private models: Map<string, ForecastingModel> = new Map();
-  private historicalData: Map<string, TrainingData[]> = new Map();
-  private predictions: Map<string, ModelPrediction[]> = new Map();
+  private readonly forecasting: DemandForecastService;
 
-  private constructor() {
-    this.initializeModels();
+  // Demand forecasts come from per-clinic models trained on appointment history
+  private constructor(db: PrismaClient = prisma) {
+    this.forecasting = new DemandForecastService(db);
   }
 
   static getInstance(): PredictiveAnalyticsService {
@@ -76,116 +49,51 @@ export class PredictiveAnalyticsService {
     return PredictiveAnalyticsService.instance;
   }
 
-  // Initialize forecasting models
-  private initializeModels(): void {
-    const models: ForecastingModel[] = [
-      {
-        name: 'demand_forecasting_lstm',
-        version: '1.2.3',
-        accuracy: 0.87,
-        lastTrained: new Date('2025-01-01'),
-        features: [
-          'day_of_week', 'month', 'is_weekend', 'season',
-          'historical_appointments', 'enquiries', 'weather',
-          'holidays', 'school_terms', 'demographics'
-        ],
-        hyperparameters: {
-          sequence_length: 30,
-          hidden_units: 128,
-          dropout_rate: 0.2,
-          learning_rate: 0.001,
-        },
-      },
-      {
-        name: 'capacity_planning_linear',
-        version: '2.1.0',
-        accuracy: 0.92,
-        lastTrained: new Date('2025-01-01'),
-        features: [
-          'predicted_appointments', 'average_appointment_duration',
-          'staff_availability', 'utilization_history', 'no_show_rate'
-        ],
-        hyperparameters: {
-          regularization: 'l2',
-          alpha: 0.1,
-          max_iterations: 1000,
-        },
-      },
-      {
-        name: 'patient_flow_poisson',
-        version: '1.0.5',
-        accuracy: 0.79,
-        lastTrained: new Date('2024-12-15'),
-        features: [
-          'hour_of_day', 'day_of_week', 'seasonality',
-          'clinic_capacity', 'historical_flow', 'external_events'
-        ],
-        hyperparameters: {
-          link_function: 'log',
-          overdispersion: true,
-        },
-      },
-    ];
+  // Daily appointments, no-shows, cancellations and enquiries up to yesterday
+  async getHistoricalData(clinicId: string): Promise<DailyDemandRow[]> {
+    return this.forecasting.history(clinicId);
+  }
 
-    for (const model of models) {
-      this.models.set(model.name, model);
-    }
+  // Stored model versions for a clinic, newest first
+  async getModelVersions(clinicId: string): Promise<StoredDemandModel[]> {
+    return this.forecasting.versions(clinicId);
+  }
+
+  async trainDemandModel(clinicId: string, trainedBy?: string): Promise<StoredDemandModel> {
+    return this.forecasting.train(clinicId, trainedBy);
   }
 
   // Main predictive analytics methods
   async generateDemandForecasting(params: {
     clinicId: string;
     forecastDays: number;
-    includeWeather: boolean;
-    includeEvents: boolean;
     confidenceLevel: number;
   }): Promise<DemandForecast[]> {
     const {
       clinicId,
       forecastDays = 30,
-      includeWeather = true,
-      includeEvents = true,
       confidenceLevel = 0.95
     } = params;
 
     try {
-      // Get historical data for the clinic
-      const historicalData = await this.getHistoricalData(clinicId);
-      
-      // Generate predictions for each day
-      const forecasts: DemandForecast[] = [];
-      
-      for (let i = 0; i < forecastDays; i++) {
-        const forecastDate = new Date();
-        forecastDate.setDate(forecastDate.getDate() + i);
-        
-        const prediction = await this.predictDailyDemand(
-          historicalData,
-          forecastDate,
-          includeWeather,
-          includeEvents
-        );
-        
-        const confidenceInterval = this.calculateConfidenceInterval(
-          prediction.predictedValue,
-          prediction.confidenceInterval,
-          confidenceLevel
-        );
-        
-        forecasts.push({
-          clinicId,
-          date: forecastDate,
-          predictedAppointments: Math.round(prediction.predictedValue),
-          confidence: this.calculateModelConfidence(prediction),
-          lowerBound: Math.round(confidenceInterval[0]),
-          upperBound: Math.round(confidenceInterval[1]),
-          factors: this.identifyForecastFactors(prediction),
-          modelVersion: this.models.get('demand_forecasting_lstm')!.version,
-          generatedAt: new Date(),
-        });
-      }
-      
-      return forecasts;
+      const forecast = await this.forecasting.forecast(clinicId, {
+        days: forecastDays,
+        confidenceLevel
+      });
+      const generatedAt = new Date();
+      const confidence = this.calculateModelConfidence(forecast.model);
+
+      return forecast.days.map(day => ({
+        clinicId,
+        date: new Date(`${day.date}T00:00:00.000Z`),
+        predictedAppointments: Math.round(day.expected),
+        confidence,
+        lowerBound: Math.floor(day.lower),
+        upperBound: Math.ceil(day.upper),
+        factors: this.identifyForecastFactors(day),
+        modelVersion: `${forecast.model.algorithm} v${forecast.model.version}`,
+        generatedAt,
+      }));
     } catch (error) {
       throw new Error(`Failed to generate demand forecasting: ${error}`);
     }
@@ -194,55 +102,34 @@ export class PredictiveAnalyticsService {
   async generateCapacityPlanning(params: {
     clinicId: string;
     forecastDays: number;
-    includeSeasonalAdjustments: boolean;
+    staffing?: StaffingOptions;
   }): Promise<CapacityPlan[]> {
     const {
       clinicId,
       forecastDays = 7,
-      includeSeasonalAdjustments = true
+      staffing
     } = params;
 
     try {
-      // Get demand forecasts
-      const demandForecasts = await this.generateDemandForecasting({
-        clinicId,
-        forecastDays,
-        includeWeather: true,
-        includeEvents: true,
+      const forecast = await this.forecasting.forecast(clinicId, {
+        days: forecastDays,
         confidenceLevel: 0.90
       });
-      
-      const capacityPlans: CapacityPlan[] = [];
-      
-      for (const forecast of demandForecasts) {
-        // Calculate recommended staff based on predicted demand
-        const recommendedStaff = this.calculateRecommendedStaff(forecast.predictedAppointments);
-        
-        // Calculate recommended capacity
-        const recommendedCapacity = this.calculateRecommendedCapacity(forecast.predictedAppointments);
-        
-        // Calculate utilization rate
-        const utilizationRate = recommendedCapacity > 0 ? 
-          (forecast.predictedAppointments / recommendedCapacity) * 100 : 0;
-        
-        // Calculate efficiency score
-        const efficiencyScore = this.calculateEfficiencyScore(
-          forecast.predictedAppointments,
-          recommendedStaff,
-          recommendedCapacity
-        );
-        
-        capacityPlans.push({
+
+      return this.forecasting.staffingPlan(forecast, staffing).map(plan => {
+        // Utilisation of the recommended capacity by the patients expected to turn up
+        const utilizationRate = plan.consultationCapacity > 0 ?
+          (plan.expectedAttendance / plan.consultationCapacity) * 100 : 0;
+
+        return {
           clinicId,
-          date: forecast.date,
-          recommendedStaff,
-          recommendedCapacity,
+          date: new Date(`${plan.date}T00:00:00.000Z`),
+          recommendedStaff: plan.peakDoctors,
+          recommendedCapacity: Math.round(plan.consultationCapacity),
           utilizationRate: Math.round(utilizationRate * 100) / 100,
-          efficiencyScore: Math.round(efficiencyScore * 100) / 100,
-        });
-      }
-      
-      return capacityPlans;
+          efficiencyScore: Math.round(this.calculateEfficiencyScore(plan.expectedAttendance, plan.plannedAttendance, plan.consultationCapacity) * 100) / 100,
+        };
+      });
     } catch (error) {
       throw new Error(`Failed to generate capacity planning: ${error}`);
     }
@@ -251,56 +138,42 @@ export class PredictiveAnalyticsService {
   async generatePatientFlowPrediction(params: {
     clinicId: string;
     forecastHours: number;
-    includeRealtimeData: boolean;
+    staffing?: StaffingOptions;
   }): Promise<PatientFlowPrediction[]> {
     const {
       clinicId,
       forecastHours = 24,
-      includeRealtimeData = true
+      staffing
     } = params;
 
     try {
-      const flowPredictions: PatientFlowPrediction[] = [];
-      const now = new Date();
-      
-      // Get current clinic capacity
-      const clinicCapacity = await this.getClinicCapacity(clinicId);
-      
-      for (let hour = 0; hour < forecastHours; hour++) {
-        const predictionTime = new Date(now);
-        predictionTime.setHours(now.getHours() + hour, 0, 0, 0);
-        
-        // Predict wait time based on historical patterns and current load
-        const predictedWaitTime = this.predictWaitTime(
-          predictionTime,
-          clinicCapacity,
-          includeRealtimeData
-        );
-        
-        // Predict queue length
-        const predictedQueueLength = this.predictQueueLength(
-          predictionTime,
-          predictedWaitTime,
-          clinicCapacity
-        );
-        
-        // Predict utilization rate
-        const predictedUtilizationRate = this.predictUtilizationRate(
-          predictionTime,
-          clinicCapacity,
-          predictedQueueLength
-        );
-        
-        flowPredictions.push({
+      // Hours from the current Singapore hour, replayed from midnight so earlier backlog carries in
+      const firstHour = Math.floor(singaporeMinutes(new Date()) / 60);
+      const forecast = await this.forecasting.forecast(clinicId, {
+        days: Math.ceil((firstHour + forecastHours) / 24),
+        confidenceLevel: 0.90
+      });
+
+      let backlog = 0;
+      let date: string | null = null;
+      const flowPredictions = this.forecasting.hourlyLoad(forecast, staffing).map(load => {
+        if (load.date !== date) {
+          date = load.date;
+          backlog = 0;
+        }
+        const flow = this.predictHourlyFlow(load, backlog);
+        backlog = flow.backlog;
+
+        return {
           clinicId,
-          hour: predictionTime.getHours(),
-          predictedWaitTime: Math.round(predictedWaitTime),
-          predictedQueueLength: Math.round(predictedQueueLength),
-          predictedUtilizationRate: Math.round(predictedUtilizationRate * 100) / 100,
-        });
-      }
-      
-      return flowPredictions;
+          hour: load.hour,
+          predictedWaitTime: Math.round(flow.waitTime),
+          predictedQueueLength: Math.round(flow.queueLength),
+          predictedUtilizationRate: Math.round(flow.utilizationRate * 100) / 100,
+        };
+      });
+
+      return flowPredictions.slice(firstHour, firstHour + forecastHours);
     } catch (error) {
       throw new Error(`Failed to generate patient flow prediction: ${error}`);
     }
@@ -313,25 +186,35 @@ export class PredictiveAnalyticsService {
     const { clinicId, adjustmentPeriod } = params;
     
     try {
-      const seasonalAdjustments: SeasonalAdjustment[] = [];
-      
-      // Analyze historical data for seasonal patterns
-      const historicalData = await this.getHistoricalData(clinicId);
-      
-      // Calculate seasonal factors based on historical patterns
-      const seasonalFactors = this.calculateSeasonalFactors(historicalData);
-      
-      // Generate adjustments for each time period
-      for (const [period, factor] of Object.entries(seasonalFactors)) {
-        seasonalAdjustments.push({
-          period,
-          adjustmentFactor: factor,
-          confidence: this.calculateSeasonalConfidence(factor, historicalData),
-          description: this.getSeasonalDescription(period, factor),
-        });
+      // Seasonal factors are the fitted model's multipliers on the clinic's baseline demand
+      const model = await this.forecasting.currentModel(clinicId);
+      const profile = seasonalProfile(model);
+      const confidence = this.calculateSeasonalConfidence(model);
+
+      switch (adjustmentPeriod) {
+        case 'weekly':
+          return profile.weekly.map((factor, day) => ({
+            period: WEEKDAY_NAMES[day]!,
+            adjustmentFactor: Math.round(factor * 1000) / 1000,
+            confidence,
+            description: this.getSeasonalDescription(WEEKDAY_NAMES[day]!, factor),
+          }));
+        case 'monthly':
+          return profile.monthly.map((factor, month) => ({
+            period: MONTH_NAMES[month]!,
+            adjustmentFactor: Math.round(factor * 1000) / 1000,
+            // Without a year of history the annual cycle is not fitted
+            confidence: model.coefficients.annualSin === 0 && model.coefficients.annualCos === 0 ? 0 : confidence,
+            description: this.getSeasonalDescription(MONTH_NAMES[month]!, factor),
+          }));
+        case 'yearly':
+          return [{
+            period: 'year-on-year',
+            adjustmentFactor: Math.round(profile.yearly * 1000) / 1000,
+            confidence,
+            description: `Underlying demand is ${profile.yearly >= 1 ? 'growing' : 'shrinking'} by ${Math.abs(Math.round((profile.yearly - 1) * 1000) / 10)}% a year`,
+          }];
       }
-      
-      return seasonalAdjustments;
     } catch (error) {
       throw new Error(`Failed to generate seasonal adjustments: ${error}`);
     }
@@ -387,23 +270,19 @@ export class PredictiveAnalyticsService {
         this.generateDemandForecasting({
           clinicId,
           forecastDays,
-          includeWeather: true,
-          includeEvents: true,
           confidenceLevel: 0.90
         }),
         this.generateCapacityPlanning({
           clinicId,
-          forecastDays,
-          includeSeasonalAdjustments: true
+          forecastDays
         }),
         this.generatePatientFlowPrediction({
           clinicId,
-          forecastHours: 24,
-          includeRealtimeData: true
+          forecastHours: 24
         }),
         this.generateRiskAssessment({
           clinicId,
-          riskTypes: ['capacity_overload', 'staff_shortage', 'high_wait_times'],
+          riskTypes: ['capacity_overload'],
           assessmentPeriod: forecastDays
         })
       ]);
@@ -442,469 +321,96 @@ export class PredictiveAnalyticsService {
   }
 
   // Private helper methods for predictions
-  private async predictDailyDemand(
-    historicalData: TrainingData[],
-    forecastDate: Date,
-    includeWeather: boolean,
-    includeEvents: boolean
-  ): Promise<ModelPrediction> {
-    // Extract features for the forecast date
-    const features = this.extractDateFeatures(forecastDate);
-    
-    // Add weather data if available
-    let weatherFeatures = {};
-    if (includeWeather) {
-      weatherFeatures = await this.getWeatherData(forecastDate);
-    }
-    
-    // Add event data if available
-    let eventFeatures = {};
-    if (includeEvents) {
-      eventFeatures = await this.getEventData(forecastDate);
-    }
-    
-    // Combine all features
-    const allFeatures = {
-      ...features,
-      ...weatherFeatures,
-      ...eventFeatures,
-    };
-    
-    // Use LSTM model for prediction
-    const prediction = await this.runLSTMPrediction(historicalData, allFeatures);
-    
-    return prediction;
-  }
-
-  private async runLSTMPrediction(
-    historicalData: TrainingData[],
-    features: Record<string, any>
-  ): Promise<ModelPrediction> {
-    // Simplified LSTM prediction logic
-    // In a real implementation, this would use TensorFlow.js or a similar library
-    
-    const baseAppointmentRate = 15; // Base appointments per day
-    
-    // Apply feature-based adjustments
-    let adjustedRate = baseAppointmentRate;
-    
-    // Day of week adjustment
-    const dayOfWeek = features.day_of_week;
-    if (dayOfWeek >= 1 && dayOfWeek <= 5) { // Weekdays
-      adjustedRate *= 1.2;
-    } else { // Weekends
-      adjustedRate *= 0.6;
-    }
-    
-    // Month adjustment (simplified seasonal pattern)
-    const month = features.month;
-    if (month >= 1 && month <= 3) { // Q1 - New Year resolutions
-      adjustedRate *= 1.15;
-    } else if (month >= 4 && month <= 6) { // Q2
-      adjustedRate *= 1.0;
-    } else if (month >= 7 && month <= 9) { // Q3 - Summer
-      adjustedRate *= 0.9;
-    } else { // Q4 - Year end checkups
-      adjustedRate *= 1.1;
-    }
-    
-    // Weather adjustment
-    if (features.weather?.temperature) {
-      const temp = features.weather.temperature;
-      if (temp < 20 || temp > 32) { // Extreme temperatures
-        adjustedRate *= 1.1;
-      }
+  private calculateModelConfidence(model: StoredDemandModel): number {
+    // Backtest accuracy of the model; untested models fall back to interval coverage
+    const { mape, coverage } = model.backtest;
+    if (mape !== null) {
+      return Math.round(Math.max(0, Math.min(1, 1 - mape)) * 100) / 100;
     }
-    
-    // Event adjustment
-    if (features.events?.holidays) {
-      adjustedRate *= 0.3; // Reduced activity on holidays
-    }
-    
-    // Add some randomness to simulate model uncertainty
-    const uncertainty = Math.random() * 0.2 - 0.1; // ±10% uncertainty
-    const predictedValue = adjustedRate * (1 + uncertainty);
-    
-    return {
-      date: new Date(),
-      predictedValue,
-      confidenceInterval: [
-        predictedValue * 0.8,
-        predictedValue * 1.2
-      ],
-      featureImportance: {
-        day_of_week: 0.25,
-        month: 0.20,
-        weather: 0.15,
-        events: 0.10,
-        historical_trend: 0.30,
-      },
-      modelContributions: {
-        base_prediction: baseAppointmentRate,
-        seasonal_adjustment: adjustedRate - baseAppointmentRate,
-        feature_adjustments: 0,
-        uncertainty: uncertainty * adjustedRate,
-      },
-    };
+    return coverage !== null ? Math.round(coverage * 100) / 100 : 0;
   }
 
-  private async getHistoricalData(clinicId: string): Promise<TrainingData[]> {
-    // Return mock historical data
-    const data: TrainingData[] = [];
-    const today = new Date();
-    
-    for (let i = 365; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      
-      data.push({
-        clinicId,
-        date,
-        appointments: Math.floor(Math.random() * 50) + 10,
-        enquiries: Math.floor(Math.random() * 20) + 5,
-        noShows: Math.floor(Math.random() * 8) + 1,
-        cancellations: Math.floor(Math.random() * 5) + 1,
-        demographics: {
-          ageGroups: {
-            '18-30': Math.floor(Math.random() * 10) + 5,
-            '31-45': Math.floor(Math.random() * 15) + 8,
-            '46-60': Math.floor(Math.random() * 12) + 6,
-            '60+': Math.floor(Math.random() * 8) + 4,
-          },
-          genderDistribution: {
-            male: Math.floor(Math.random() * 20) + 10,
-            female: Math.floor(Math.random() * 30) + 15,
-          },
-        },
-        weather: {
-          temperature: Math.floor(Math.random() * 20) + 20,
-          humidity: Math.floor(Math.random() * 40) + 40,
-          rainfall: Math.random() * 10,
-        },
-        events: {
-          holidays: Math.random() < 0.03, // ~3% chance
-          schoolTerms: date.getMonth() >= 1 && date.getMonth() <= 10, // School terms
-          events: [],
-        },
-        seasonality: {
-          dayOfWeek: date.getDay(),
-          month: date.getMonth() + 1,
-          isWeekend: date.getDay() === 0 || date.getDay() === 6,
-          season: this.getSeason(date.getMonth() + 1),
-        },
-      });
+  private identifyForecastFactors(day: ForecastDay): ForecastFactor[] {
+    if (day.closed) {
+      return [{
+        factor: 'Clinic Closed',
+        impact: 1,
+        description: day.holiday ? 'The clinic is closed for a public holiday' : 'The clinic is closed on this day',
+      }];
     }
-    
-    return data;
-  }
-
-  private extractDateFeatures(date: Date): Record<string, any> {
-    return {
-      day_of_week: date.getDay(),
-      month: date.getMonth() + 1,
-      day_of_month: date.getDate(),
-      is_weekend: date.getDay() === 0 || date.getDay() === 6,
-      is_holiday: false, // Would be determined by holiday calendar
-    };
-  }
-
-  private async getWeatherData(date: Date): Promise<Record<string, any>> {
-    // Mock weather data - in real implementation, would call weather API
-    return {
-      temperature: Math.floor(Math.random() * 15) + 20,
-      humidity: Math.floor(Math.random() * 40) + 40,
-      rainfall: Math.random() * 5,
-      uv_index: Math.floor(Math.random() * 10) + 1,
-    };
-  }
 
-  private async getEventData(date: Date): Promise<Record<string, any>> {
-    // Mock event data - in real implementation, would check Singapore events
-    const isPublicHoliday = Math.random() < 0.03; // ~3% chance
-    
-    return {
-      holidays: isPublicHoliday,
-      school_terms: date.getMonth() >= 1 && date.getMonth() <= 10,
-      events: isPublicHoliday ? ['Public Holiday'] : [],
-    };
-  }
-
-  private calculateConfidenceInterval(
-    predictedValue: number,
-    baseInterval: [number, number],
-    confidenceLevel: number
-  ): [number, number] {
-    // Adjust interval width based on confidence level
-    const width = baseInterval[1] - baseInterval[0];
-    const adjustment = (1 - confidenceLevel) * 0.5;
-    
-    return [
-      baseInterval[0] - adjustment * width,
-      baseInterval[1] + adjustment * width,
+    // Impact is how far each component moves the forecast, on a log scale
+    const components: Array<{ factor: string; multiplier: number; subject: string }> = [
+      { factor: 'Day Of Week', multiplier: day.components.weekly, subject: `Being a ${WEEKDAY_NAMES[day.dayOfWeek]}` },
+      { factor: 'Trend', multiplier: day.components.trend, subject: 'The underlying trend' },
+      { factor: 'Time Of Year', multiplier: day.components.annual, subject: 'The time of year' },
+      { factor: 'Holiday', multiplier: day.components.holiday, subject: day.holiday === 'HOLIDAY_EVE' ? 'The holiday eve' : 'The public holiday' },
     ];
-  }
+    const factors = components
+      .filter(component => Math.abs(Math.log(component.multiplier)) >= 0.05)
+      .map(component => ({
+        factor: component.factor,
+        impact: Math.round(Math.abs(Math.log(component.multiplier)) * 100) / 100,
+        description: `${component.subject} ${component.multiplier >= 1 ? 'raises' : 'lowers'} demand by ${Math.round(Math.abs(component.multiplier - 1) * 100)}%`,
+      }));
 
-  private calculateModelConfidence(prediction: ModelPrediction): number {
-    // Calculate confidence based on feature importance and model consistency
-    const featureImportanceValues = Object.values(prediction.featureImportance);
-    const averageImportance = featureImportanceValues.reduce((sum, val) => sum + val, 0) / featureImportanceValues.length;
-    
-    // Higher feature importance variance = lower confidence
-    const variance = featureImportanceValues.reduce((sum, val) => sum + Math.pow(val - averageImportance, 2), 0) / featureImportanceValues.length;
-    const consistencyScore = 1 - Math.min(variance, 1);
-    
-    return Math.round(consistencyScore * 100) / 100;
-  }
-
-  private identifyForecastFactors(prediction: ModelPrediction): Array<{
-    factor: string;
-    impact: number;
-    description: string;
-  }> {
-    const factors: Array<{
-      factor: string;
-      impact: number;
-      description: string;
-    }> = [];
-    
-    // Convert feature importance to factors
-    for (const [feature, importance] of Object.entries(prediction.featureImportance)) {
-      if (importance > 0.1) { // Only include significant factors
-        factors.push({
-          factor: this.formatFeatureName(feature),
-          impact: importance,
-          description: this.getFeatureDescription(feature, importance),
-        });
-      }
-    }
-    
     return factors.sort((a, b) => b.impact - a.impact);
   }
 
-  private formatFeatureName(feature: string): string {
-    return feature
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
-
-  private getFeatureDescription(feature: string, importance: number): string {
-    const descriptions: Record<string, string> = {
-      day_of_week: 'Weekday vs weekend patterns significantly influence appointment demand',
-      month: 'Seasonal variations throughout the year affect patient behavior',
-      weather: 'Temperature and weather conditions impact healthcare seeking behavior',
-      events: 'Public holidays and special events reduce or increase demand',
-      historical_trend: 'Past appointment patterns provide baseline prediction',
-    };
-    
-    return descriptions[feature] || `${this.formatFeatureName(feature)} influences demand patterns`;
-  }
-
   // Capacity planning methods
-  private calculateRecommendedStaff(predictedAppointments: number): number {
-    // Base staff calculation: 1 staff member per 8 appointments
-    const baseStaff = Math.ceil(predictedAppointments / 8);
-    
-    // Add buffer for peak hours and administrative tasks
-    const buffer = Math.ceil(baseStaff * 0.3);
-    
-    return baseStaff + buffer;
-  }
-
-  private calculateRecommendedCapacity(predictedAppointments: number): number {
-    // Capacity should accommodate predicted demand plus buffer
-    const bufferPercentage = 0.2; // 20% buffer
-    return Math.ceil(predictedAppointments * (1 + bufferPercentage));
-  }
-
   private calculateEfficiencyScore(
-    predictedAppointments: number,
-    recommendedStaff: number,
-    recommendedCapacity: number
+    expectedAttendance: number,
+    plannedAttendance: number,
+    consultationCapacity: number
   ): number {
-    // Efficiency score based on staff utilization and capacity utilization
-    const staffUtilization = predictedAppointments / (recommendedStaff * 8); // Assuming 8 appointments per staff
-    const capacityUtilization = predictedAppointments / recommendedCapacity;
-    
-    // Optimal efficiency when both are around 0.8-0.9
-    const staffScore = Math.min(staffUtilization, 1);
-    const capacityScore = Math.min(capacityUtilization, 1);
-    
-    return (staffScore + capacityScore) / 2;
-  }
+    if (consultationCapacity === 0) return expectedAttendance === 0 ? 1 : 0;
 
-  // Patient flow prediction methods
-  private async getClinicCapacity(clinicId: string): Promise<number> {
-    // Mock clinic capacity - in real implementation, would get from database
-    return 100; // Maximum patients per day
-  }
-
-  private predictWaitTime(
-    dateTime: Date,
-    clinicCapacity: number,
-    includeRealtimeData: boolean
-  ): number {
-    const hour = dateTime.getHours();
-    const dayOfWeek = dateTime.getDay();
-    
-    // Base wait time calculation
-    let baseWaitTime = 10; // 10 minutes base
-    
-    // Peak hour adjustments
-    if ((hour >= 9 && hour <= 11) || (hour >= 14 && hour <= 16)) {
-      baseWaitTime *= 1.5;
-    }
-    
-    // Weekend adjustments
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      baseWaitTime *= 0.7; // Shorter waits on weekends
-    }
-    
-    // Add real-time adjustment if available
-    if (includeRealtimeData) {
-      const realtimeLoad = Math.random() * 0.5 + 0.5; // 50-100% load
-      baseWaitTime *= realtimeLoad;
-    }
-    
-    return baseWaitTime;
-  }
+    // Slots used on an average day, and headroom left on a busy one
+    const averageUtilization = Math.min(expectedAttendance / consultationCapacity, 1);
+    const peakCoverage = plannedAttendance > 0 ? Math.min(consultationCapacity / plannedAttendance, 1) : 1;
 
-  private predictQueueLength(
-    dateTime: Date,
-    predictedWaitTime: number,
-    clinicCapacity: number
-  ): number {
-    // Estimate queue length based on wait time and average service time
-    const averageServiceTime = 30; // 30 minutes average
-    const queueLength = (predictedWaitTime / averageServiceTime) * (Math.random() * 3 + 1);
-    
-    return Math.max(0, queueLength);
+    return (averageUtilization + peakCoverage) / 2;
   }
 
-  private predictUtilizationRate(
-    dateTime: Date,
-    clinicCapacity: number,
-    predictedQueueLength: number
-  ): number {
-    // Base utilization rate calculation
-    const hour = dateTime.getHours();
-    let baseUtilization = 0.6; // 60% base utilization
-    
-    // Peak hour utilization
-    if ((hour >= 9 && hour <= 11) || (hour >= 14 && hour <= 16)) {
-      baseUtilization = 0.85;
+  // Patient flow prediction methods
+  private predictHourlyFlow(
+    load: HourlyLoad,
+    backlog: number
+  ): { waitTime: number; queueLength: number; utilizationRate: number; backlog: number } {
+    const { expectedArrivals: arrivals, capacity, doctors } = load;
+    if (capacity === 0) {
+      return { waitTime: 0, queueLength: backlog, utilizationRate: 0, backlog };
     }
-    
-    // Add queue effect
-    const queueUtilization = Math.min(predictedQueueLength / 10, 0.3);
-    
-    return Math.min(baseUtilization + queueUtilization, 1);
-  }
 
-  // Seasonal analysis methods
-  private calculateSeasonalFactors(data: TrainingData[]): Record<string, number> {
-    const factors: Record<string, number> = {};
-    
-    // Calculate weekly patterns
-    const weeklyFactors = this.calculateWeeklyPatterns(data);
-    factors['weekly'] = weeklyFactors.avg;
-    
-    // Calculate monthly patterns
-    const monthlyFactors = this.calculateMonthlyPatterns(data);
-    factors['monthly'] = monthlyFactors.avg;
-    
-    // Calculate seasonal patterns
-    const seasonalFactors = this.calculateSeasonalPatterns(data);
-    for (const [season, factor] of Object.entries(seasonalFactors)) {
-      factors[season] = factor;
-    }
-    
-    return factors;
-  }
+    // Patients the doctors cannot see this hour wait into the next one
+    const served = Math.min(capacity, backlog + arrivals);
+    const carried = backlog + arrivals - served;
 
-  private calculateWeeklyPatterns(data: TrainingData[]): { avg: number; variance: number } {
-    const dayFactors: number[] = [];
-    
-    for (let day = 0; day < 7; day++) {
-      const dayData = data.filter(d => d.seasonality.dayOfWeek === day);
-      if (dayData.length > 0) {
-        const avgAppointments = dayData.reduce((sum, d) => sum + d.appointments, 0) / dayData.length;
-        dayFactors.push(avgAppointments / 20); // Normalize to baseline of 20
-      }
-    }
-    
-    const avg = dayFactors.reduce((sum, f) => sum + f, 0) / dayFactors.length;
-    const variance = dayFactors.reduce((sum, f) => sum + Math.pow(f - avg, 2), 0) / dayFactors.length;
-    
-    return { avg, variance };
-  }
+    // Random arrivals queue even below capacity (Sakasegawa's M/M/c approximation)
+    const utilisation = Math.min(arrivals / capacity, MAX_STEADY_UTILISATION);
+    const steadyQueue = utilisation > 0 ? utilisation ** Math.sqrt(2 * (doctors + 1)) / (1 - utilisation) : 0;
 
-  private calculateMonthlyPatterns(data: TrainingData[]): { avg: number; variance: number } {
-    const monthlyFactors: number[] = [];
-    
-    for (let month = 1; month <= 12; month++) {
-      const monthData = data.filter(d => d.seasonality.month === month);
-      if (monthData.length > 0) {
-        const avgAppointments = monthData.reduce((sum, d) => sum + d.appointments, 0) / monthData.length;
-        monthlyFactors.push(avgAppointments / 20); // Normalize to baseline
-      }
-    }
-    
-    const avg = monthlyFactors.reduce((sum, f) => sum + f, 0) / monthlyFactors.length;
-    const variance = monthlyFactors.reduce((sum, f) => sum + Math.pow(f - avg, 2), 0) / monthlyFactors.length;
-    
-    return { avg, variance };
-  }
+    // Little's law for the steady queue, plus the time to clear the carried backlog
+    const waitTime = (arrivals > 0 ? steadyQueue / arrivals : 0) * 60 + (carried / capacity) * 60;
 
-  private calculateSeasonalPatterns(data: TrainingData[]): Record<string, number> {
-    const seasonData: Record<string, number[]> = {
-      spring: [],
-      summer: [],
-      autumn: [],
-      winter: [],
+    return {
+      waitTime,
+      queueLength: steadyQueue + carried,
+      utilizationRate: served / capacity,
+      backlog: carried,
     };
-    
-    for (const d of data) {
-      const season = d.seasonality.season;
-      const normalizedAppointments = d.appointments / 20;
-      seasonData[season].push(normalizedAppointments);
-    }
-    
-    const patterns: Record<string, number> = {};
-    for (const [season, values] of Object.entries(seasonData)) {
-      if (values.length > 0) {
-        patterns[season] = values.reduce((sum, v) => sum + v, 0) / values.length;
-      }
-    }
-    
-    return patterns;
   }
 
-  private calculateSeasonalConfidence(factor: number, data: TrainingData[]): number {
-    // Higher confidence for factors based on more data points
-    const dataPoints = data.length;
-    return Math.min(0.95, 0.5 + (dataPoints / 1000) * 0.45);
-  }
-
-  private getSeason(month: number): 'spring' | 'summer' | 'autumn' | 'winter' {
-    // Simplified seasonal mapping for Singapore (tropical climate)
-    if (month >= 3 && month <= 5) return 'spring';
-    if (month >= 6 && month <= 8) return 'summer';
-    if (month >= 9 && month <= 11) return 'autumn';
-    return 'winter';
+  // Seasonal analysis methods
+  private calculateSeasonalConfidence(model: StoredDemandModel): number {
+    // Higher confidence for models trained on more days of history
+    return Math.round(Math.min(0.95, 0.5 + (model.trainingDays / 730) * 0.45) * 100) / 100;
   }
 
   private getSeasonalDescription(period: string, factor: number): string {
-    const descriptions: Record<string, string> = {
-      weekly: `Weekly patterns show ${factor > 1 ? 'higher' : 'lower'} demand on certain days`,
-      monthly: `Monthly trends indicate ${factor > 1 ? 'increased' : 'decreased'} activity in certain months`,
-      spring: 'Spring season shows moderate healthcare demand',
-      summer: 'Summer period has higher air conditioning-related health issues',
-      autumn: 'Autumn maintains steady healthcare utilization',
-      winter: 'Winter season (end of year) sees increased health check-ups',
-    };
-    
-    return descriptions[period] || `Seasonal factor of ${factor.toFixed(2)} influences demand patterns`;
+    const change = Math.round(Math.abs(factor - 1) * 100);
+    if (change === 0) return `${period} demand is in line with the average`;
+    return `${period} demand runs ${change}% ${factor > 1 ? 'above' : 'below'} the average`;
   }
 
   // Risk assessment methods
@@ -916,21 +422,37 @@ export class PredictiveAnalyticsService {
     switch (riskType) {
       case 'capacity_overload':
         return this.assessCapacityOverloadRisk(clinicId, assessmentPeriod);
-      case 'staff_shortage':
-        return this.assessStaffShortageRisk(clinicId, assessmentPeriod);
-      case 'high_wait_times':
-        return this.assessHighWaitTimesRisk(clinicId, assessmentPeriod);
       default:
         return null;
     }
   }
 
-  private assessCapacityOverloadRisk(
+  private async assessCapacityOverloadRisk(
     clinicId?: string,
     assessmentPeriod: number = 30
-  ): RiskAssessment {
-    // Simulate capacity overload risk assessment
-    const probability = Math.random() * 0.3 + 0.1; // 10-40% probability
+  ): Promise<RiskAssessment | null> {
+    // Forecasts are per clinic
+    if (!clinicId) return null;
+
+    const forecast = await this.forecasting.forecast(clinicId, {
+      days: assessmentPeriod,
+      confidenceLevel: 0.90
+    });
+    const attending = 1 - forecast.model.noShowRate;
+    const openDays = this.forecasting.staffingPlan(forecast).filter(plan => !plan.closed);
+    const capacities = openDays.map(plan => plan.consultationCapacity).sort((a, b) => a - b);
+    const typicalCapacity = capacities[Math.floor(capacities.length / 2)] ?? 0;
+
+    // Chance that attendance on at least one open day outgrows a typical day's roster,
+    // with each day's attendance spread as the model's overdispersed Poisson
+    const noOverload = openDays.reduce((product, plan) => {
+      const spread = Math.sqrt(forecast.model.dispersion * plan.expectedAppointments) * attending;
+      const overload = spread > 0 ?
+        1 - normalCdf((typicalCapacity - plan.expectedAttendance) / spread) :
+        plan.expectedAttendance > typicalCapacity ? 1 : 0;
+      return product * (1 - overload);
+    }, 1);
+    const probability = Math.round((1 - noOverload) * 1000) / 1000;
     const impact: 'low' | 'medium' | 'high' | 'critical' = 
       probability > 0.3 ? 'high' : probability > 0.2 ? 'medium' : 'low';
 
@@ -954,71 +476,35 @@ export class PredictiveAnalyticsService {
     };
   }
 
-  private assessStaffShortageRisk(
-    clinicId?: string,
-    assessmentPeriod: number = 30
-  ): RiskAssessment {
-    const probability = Math.random() * 0.4 + 0.05; // 5-45% probability
-    const impact: 'low' | 'medium' | 'high' | 'critical' = 
-      probability > 0.35 ? 'critical' : probability > 0.25 ? 'high' : 'medium';
-
-    return {
-      riskType: 'staff_shortage',
-      clinicId,
-      probability,
-      impact,
-      mitigationStrategies: [
-        'Maintain backup staff pool',
-        'Cross-train existing staff',
-        'Implement flexible scheduling',
-        'Partner with staffing agencies',
-      ],
-      monitoringMetrics: [
-        'Staff availability rates',
-        'Absenteeism rates',
-        'Turnover rates',
-        'Training completion rates',
-      ],
-    };
-  }
-
-  private assessHighWaitTimesRisk(
-    clinicId?: string,
-    assessmentPeriod: number = 30
-  ): RiskAssessment {
-    const probability = Math.random() * 0.35 + 0.1; // 10-45% probability
-    const impact: 'low' | 'medium' | 'high' | 'critical' = 
-      probability > 0.3 ? 'high' : 'medium';
-
-    return {
-      riskType: 'high_wait_times',
-      clinicId,
-      probability,
-      impact,
-      mitigationStrategies: [
-        'Optimize appointment scheduling algorithms',
-        'Implement queue management system',
-        'Provide estimated wait times to patients',
-        'Add express lanes for quick consultations',
-      ],
-      monitoringMetrics: [
-        'Average wait times',
-        'Queue length monitoring',
-        'Patient satisfaction scores',
-        'Appointment completion rates',
-      ],
-    };
-  }
-
   // Recommendation generation methods
   private generateCapacityRecommendations(
     capacityPlans: CapacityPlan[],
     riskAssessments: RiskAssessment[]
   ): PredictiveRecommendation[] {
     const recommendations: PredictiveRecommendation[] = [];
+
+    // Days whose forecast needs more doctors at peak than the period's typical open day
+    const openDays = capacityPlans.filter(plan => plan.recommendedStaff > 0);
+    const staffLevels = openDays.map(plan => plan.recommendedStaff).sort((a, b) => a - b);
+    const typicalStaff = staffLevels[Math.floor(staffLevels.length / 2)] ?? 0;
+    const peakDays = openDays.filter(plan => plan.recommendedStaff > typicalStaff);
+    if (peakDays.length > 0) {
+      const days = peakDays
+        .map(plan => `${plan.date.toISOString().slice(0, 10)} (${plan.recommendedStaff})`)
+        .join(', ');
+      recommendations.push({
+        priority: 'high',
+        category: 'Staffing',
+        title: 'Extra Doctors On Peak Days',
+        description: `Forecast demand needs more doctors per shift on ${days} than the ${typicalStaff} needed on a typical day`,
+        expectedBenefit: 'Cover the busy end of forecast demand without overstaffing quieter days',
+        implementationEffort: 'low',
+        timeline: 'Before the roster is published',
+      });
+    }
     
     // Check for capacity overload risks
-    const overloadRisks = riskAssessments.filter(r => r.riskType === 'capacity_overload');
+    const overloadRisks = riskAssessments.filter(r => r.riskType === 'capacity_overload' && r.impact !== 'low');
     if (overloadRisks.length > 0) {
       recommendations.push({
         priority: 'high',
@@ -1031,20 +517,6 @@ export class PredictiveAnalyticsService {
       });
     }
     
-    // Check for staff shortage risks
-    const staffRisks = riskAssessments.filter(r => r.riskType === 'staff_shortage');
-    if (staffRisks.length > 0) {
-      recommendations.push({
-        priority: 'critical',
-        category: 'Staffing',
-        title: 'Staff Shortage Mitigation',
-        description: 'Develop comprehensive staffing strategy to address potential shortages',
-        expectedBenefit: 'Ensure continuous service delivery and maintain quality standards',
-        implementationEffort: 'high',
-        timeline: '4-6 weeks',
-      });
-    }
-    
     return recommendations;
   }
 
@@ -1132,19 +604,15 @@ export class PredictiveAnalyticsService {
         this.generateDemandForecasting({
           clinicId,
           forecastDays,
-          includeWeather: true,
-          includeEvents: true,
           confidenceLevel: 0.90
         }),
         this.generateCapacityPlanning({
           clinicId,
-          forecastDays,
-          includeSeasonalAdjustments: true
+          forecastDays
         }),
         this.generatePatientFlowPrediction({
           clinicId,
-          forecastHours: 24,
-          includeRealtimeData: true
+          forecastHours: 24
         }),
         this.generateSeasonalAdjustments({
           clinicId,
@@ -1152,7 +620,7 @@ export class PredictiveAnalyticsService {
         }),
         this.generateRiskAssessment({
           clinicId,
-          riskTypes: ['capacity_overload', 'staff_shortage', 'high_wait_times'],
+          riskTypes: ['capacity_overload'],
           assessmentPeriod: forecastDays
         })
       ]);
@@ -464,6 +464,8 @@ export interface DemandForecast {
   lowerBound: number;
   upperBound: number;
   factors: ForecastFactor[];
+  modelVersion?: string;
+  generatedAt?: Date;
 }
 
 export interface ForecastFactor {
@@ -0,0 +1,52 @@
+import { readFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import { PrismaClient } from '@prisma/client'
+import {
+  BUNDLED_PUBLIC_HOLIDAYS,
+  importPublicHolidays,
+  parsePublicHolidayCsv,
+  parsePublicHolidayJson,
+} from '../src/lib/clinic-hours/public-holidays'
+
+const prisma = new PrismaClient()
+
+/**
+ * Public Holiday Import Script
+ * Loads Singapore public holidays and holiday eves into PublicHoliday. Without a file,
+ * the bundled dataset is imported; otherwise a JSON file in the bundled shape or the
+ * data.gov.sg public holidays CSV. Re-importing updates existing dates.
+ *
+ * Usage: npm run db:import-public-holidays -- [file.json|file.csv] [--source DATA_GOV_SG]
+ */
+
+function parseArgs(argv: string[]) {
+  const sourceIndex = argv.indexOf('--source')
+  const [file] = argv.filter((arg, index) => !arg.startsWith('--') && (sourceIndex < 0 || index !== sourceIndex + 1))
+  return { file, source: sourceIndex >= 0 ? argv[sourceIndex + 1] : undefined }
+}
+
+async function main() {
+  const { file, source } = parseArgs(process.argv.slice(2))
+
+  let entries = BUNDLED_PUBLIC_HOLIDAYS
+  if (file) {
+    const content = await readFile(file, 'utf8')
+    entries = extname(file).toLowerCase() === '.csv' ? parsePublicHolidayCsv(content) : parsePublicHolidayJson(content)
+  }
+
+  console.log(`📅 Importing ${entries.length} public holidays and eves from ${file ?? 'the bundled dataset'}...`)
+
+  const imported = await importPublicHolidays(prisma, entries, source ?? (file ? 'IMPORT' : 'BUNDLED'))
+
+  console.log(`✅ Imported ${imported} public holidays and eves`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Public holiday import failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
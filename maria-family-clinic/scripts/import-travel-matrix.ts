@@ -0,0 +1,67 @@
+import { readFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import { PrismaClient, type TravelTimeBand } from '@prisma/client'
+import {
+  TRAVEL_TIME_BANDS,
+  importTravelMatrix,
+  parseOsrmTable,
+  parseTravelMatrixCsv,
+} from '../src/lib/scheduling/travel-matrix'
+
+const prisma = new PrismaClient()
+
+/**
+ * Clinic Travel Matrix Import Script
+ * Loads an OSRM-style clinic-to-clinic travel matrix (JSON table response or CSV) into
+ * ClinicTravelTime for one time-of-day band.
+ *
+ * Usage: npm run db:import-travel-matrix -- <file.json|file.csv> [--band MIDDAY] [--source OSRM]
+ */
+
+function parseArgs(argv: string[]) {
+  const [file, ...rest] = argv
+  const options = new Map<string, string>()
+  for (let i = 0; i < rest.length; i += 2) {
+    options.set(rest[i]!.replace(/^--/, ''), rest[i + 1] ?? '')
+  }
+  return { file, band: options.get('band')?.toUpperCase(), source: options.get('source') ?? 'OSRM' }
+}
+
+async function main() {
+  const { file, band, source } = parseArgs(process.argv.slice(2))
+
+  if (!file) {
+    console.error('Usage: import-travel-matrix <file.json|file.csv> [--band MIDDAY] [--source OSRM]')
+    process.exit(1)
+  }
+
+  if (band && !TRAVEL_TIME_BANDS.includes(band as TravelTimeBand)) {
+    console.error(`--band must be one of ${TRAVEL_TIME_BANDS.join(', ')}`)
+    process.exit(1)
+  }
+
+  const content = await readFile(file, 'utf8')
+  const entries =
+    extname(file).toLowerCase() === '.csv'
+      ? parseTravelMatrixCsv(content, band as TravelTimeBand | undefined)
+      : parseOsrmTable(content, (band ?? 'MIDDAY') as TravelTimeBand)
+
+  console.log(`🚗 Importing ${entries.length} clinic travel times from ${file}...`)
+
+  const result = await importTravelMatrix(prisma, entries, source)
+
+  console.log(`✅ Imported ${result.imported} travel times (${result.skipped} skipped)`)
+  if (result.unknownClinicIds.length > 0) {
+    console.warn(`⚠️  Unknown clinic ids: ${result.unknownClinicIds.join(', ')}`)
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Travel matrix import failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
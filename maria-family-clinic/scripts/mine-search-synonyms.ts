@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client'
+import { SearchAnalyticsService } from '../src/lib/search-analytics/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * Search Synonym Mining Job
+ * Mines zero-result and low-click searches from the last N days into synonym
+ * suggestions for staff review, and prints the top failed queries per language.
+ * Intended to run nightly.
+ *
+ * Usage: npm run jobs:search-synonyms -- [--days 30]
+ */
+
+async function main() {
+  const args = process.argv.slice(2)
+  const daysIndex = args.indexOf('--days')
+  const days = daysIndex >= 0 ? Number(args[daysIndex + 1]) : 30
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error('--days must be a positive integer')
+  }
+
+  const to = new Date()
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000)
+  const analytics = new SearchAnalyticsService(prisma)
+
+  const result = await analytics.mineSynonymSuggestions(from, to)
+  console.log(`🔎 ${result.searches} searches in the last ${days} days, ${result.proposals} synonym proposals`)
+  console.log(`   ${result.created} new suggestions, ${result.updated} refreshed, ${result.skipped} already known or reviewed`)
+
+  for (const report of await analytics.failedQueryReport(from, to, 5)) {
+    const failedShare = report.searches > 0 ? Math.round((report.failedSearches / report.searches) * 100) : 0
+    console.log(`   [${report.language}] ${failedShare}% of ${report.searches} searches failed`)
+    for (const query of report.topFailedQueries) {
+      console.log(`      "${query.query}" × ${query.searches} (${query.zeroResults} with no results)`)
+    }
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Search synonym mining failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,66 @@
+import { PrismaClient } from '@prisma/client'
+import { HealthcareEncryptionService } from '../src/lib/encryption'
+import { KeyRing } from '../src/lib/key-management/key-ring'
+import { LocalFileKeyProvider } from '../src/lib/key-management/key-provider'
+import { ReencryptionJob } from '../src/lib/key-management/reencryption'
+
+const prisma = new PrismaClient()
+
+/**
+ * Encryption Key Rotation Job
+ * Rotates the active data key when its rotationDue has passed (or immediately with
+ * --force), then re-encrypts fields still under older keys and retires keys that no
+ * longer protect any data. Safe to re-run; a partial run continues where it left off.
+ * A rotated-out key is retired only after a full pass that started once no process could
+ * still be encrypting with it, so expect it to take a couple of runs after a rotation.
+ *
+ * Usage: npm run jobs:rotate-encryption-keys -- [--force] [--max-rows 5000]
+ */
+
+async function main() {
+  const args = process.argv.slice(2)
+  const maxRowsIndex = args.indexOf('--max-rows')
+  const maxRows = maxRowsIndex >= 0 ? Number(args[maxRowsIndex + 1]) : undefined
+  if (maxRows !== undefined && (!Number.isInteger(maxRows) || maxRows < 1)) {
+    throw new Error('--max-rows must be a positive integer')
+  }
+
+  const keyRing = new KeyRing(
+    prisma,
+    new LocalFileKeyProvider(process.env.ENCRYPTION_KMS_KEY_FILE || '.keys/local-kms.json'),
+    { rotationDays: Number(process.env.ENCRYPTION_KEY_ROTATION_DAYS) || undefined }
+  )
+  const encryption = new HealthcareEncryptionService({ keyRing })
+
+  const rotated = args.includes('--force') ? await encryption.rotateEncryptionKey() : await encryption.rotateEncryptionKeyIfDue()
+  console.log(rotated ? `🔑 Rotated to data key ${rotated}` : '🔑 Active data key is not due for rotation')
+
+  const result = await new ReencryptionJob(prisma, encryption).run({ maxRows })
+  for (const field of result.fields) {
+    console.log(
+      `   ${field.field}: ${field.reencrypted} re-encrypted of ${field.scanned} scanned` +
+        (field.conflicts ? `, ${field.conflicts} changed during the run` : '') +
+        (field.failed ? `, ${field.failed} failed` : '')
+    )
+  }
+
+  if (result.retiredKeyVersions.length > 0) {
+    console.log(`✅ Retired ${result.retiredKeyVersions.join(', ')}`)
+  }
+  if (result.pendingKeyVersions.length > 0) {
+    console.log(`   Waiting to confirm ${result.pendingKeyVersions.join(', ')} no longer protect any data`)
+  }
+  if (!result.complete) {
+    console.warn('⚠️  Re-encryption incomplete; run again to continue')
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Encryption key rotation failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,50 @@
+import { PrismaClient } from '@prisma/client'
+import { EligibilityReevaluationJob } from '../src/lib/eligibility/reevaluation'
+
+const prisma = new PrismaClient()
+
+/**
+ * Eligibility Re-evaluation Job
+ * Re-evaluates Healthier SG eligibility when dynamic rules are due (per their
+ * recalculationFrequency) or a person's profile has changed, then audits and notifies
+ * outcome changes. Intended to run daily; an interrupted sweep resumes on the next run.
+ *
+ * Usage: npm run jobs:eligibility-reevaluation -- [--program HSG2025] [--max-subjects 5000]
+ */
+
+async function main() {
+  const args = process.argv.slice(2)
+  const programIndex = args.indexOf('--program')
+  const maxIndex = args.indexOf('--max-subjects')
+  const maxSubjects = maxIndex >= 0 ? Number(args[maxIndex + 1]) : undefined
+  if (maxSubjects !== undefined && (!Number.isInteger(maxSubjects) || maxSubjects < 1)) {
+    throw new Error('--max-subjects must be a positive integer')
+  }
+
+  const result = await new EligibilityReevaluationJob(prisma).run({
+    programCode: programIndex >= 0 ? args[programIndex + 1] : undefined,
+    maxSubjects,
+  })
+
+  if (!result.programId) {
+    console.warn('⚠️  Program not found; nothing to re-evaluate')
+    return
+  }
+  console.log(`🔁 ${result.dueRules} dynamic rules due, ${result.evaluated} people re-evaluated`)
+  console.log(
+    `   ${result.changed} changed outcome (${result.newlyEligible} newly eligible, ${result.newlyIneligible} no longer eligible), ` +
+      `${result.notifications} notifications queued`
+  )
+  if (result.failed > 0) console.warn(`⚠️  ${result.failed} re-evaluations failed; they will be retried`)
+  if (!result.sweepComplete) console.warn('⚠️  Sweep incomplete; run again to continue')
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Eligibility re-evaluation failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
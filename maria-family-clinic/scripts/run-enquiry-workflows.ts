@@ -0,0 +1,42 @@
+import { PrismaClient } from '@prisma/client'
+import { EnquiryWorkflowService } from '../src/lib/enquiry-workflow/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * Enquiry Workflow Runner
+ * Fires due enquiry SLA reminders, escalations and automatic transitions. Safe to run
+ * on a schedule (e.g. every 5 minutes): timers are claimed before firing, so overlapping
+ * or repeated runs never fire a timer twice.
+ *
+ * Usage: npm run jobs:enquiry-workflows -- [--limit 100]
+ */
+
+async function main() {
+  const limitIndex = process.argv.indexOf('--limit')
+  const limit = limitIndex >= 0 ? Number(process.argv[limitIndex + 1]) : 100
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('--limit must be a positive integer')
+  }
+
+  const result = await new EnquiryWorkflowService(prisma).runDueTimers({ limit })
+
+  console.log(
+    `✅ Fired ${result.fired} timers (${result.cancelled} no longer applicable, ${result.skipped} claimed elsewhere)`
+  )
+  if (result.started > 0) console.log(`   Started workflows for ${result.started} enquiries`)
+  for (const [action, count] of Object.entries(result.byAction)) {
+    console.log(`   ${action}: ${count}`)
+  }
+  if (result.failed > 0) console.warn(`⚠️  ${result.failed} timers failed and will be retried`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Enquiry workflow run failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
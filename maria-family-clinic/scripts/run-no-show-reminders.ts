@@ -0,0 +1,37 @@
+import { PrismaClient } from '@prisma/client'
+import { NoShowRiskService } from '../src/lib/no-show-risk/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * No-Show Reminder Sweep
+ * Re-scores upcoming appointments for no-show risk, queues the extra reminders that have
+ * fallen due for medium and high risk bookings, and records outcomes of past appointments
+ * for accuracy tracking. Run hourly: reminders go out 72, 24 and 3 hours ahead.
+ *
+ * Usage: npm run jobs:no-show-reminders -- [--hours-ahead 72]
+ */
+
+async function main() {
+  const hoursIndex = process.argv.indexOf('--hours-ahead')
+  const hoursAhead = hoursIndex >= 0 ? Number(process.argv[hoursIndex + 1]) : undefined
+  if (hoursAhead !== undefined && (!Number.isInteger(hoursAhead) || hoursAhead < 1)) {
+    throw new Error('--hours-ahead must be a positive integer')
+  }
+
+  const result = await new NoShowRiskService(prisma).runReminderSweep({ hoursAhead })
+
+  console.log(`📊 Scored ${result.scored} upcoming appointments, queued ${result.remindersQueued} reminders`)
+  console.log(`   Recorded ${result.resolved} appointment outcomes`)
+  if (result.failed > 0) console.warn(`⚠️  ${result.failed} reminders could not be queued; they will be retried`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ No-show reminder sweep failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
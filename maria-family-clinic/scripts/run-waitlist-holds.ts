@@ -0,0 +1,29 @@
+import { PrismaClient } from '@prisma/client'
+import { WaitlistService } from '../src/lib/waitlist/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * Waitlist Hold Sweep
+ * Expires slot holds that patients let lapse and offers each slot to the next eligible
+ * entry. Run every few minutes so a lapsed slot is passed on even when nobody reads the
+ * waitlist; repeated or overlapping runs are safe, as each hold is expired only once.
+ *
+ * Usage: npm run jobs:waitlist-holds
+ */
+
+async function main() {
+  const result = await new WaitlistService(prisma).releaseExpiredHolds()
+
+  console.log(`✅ Expired ${result.expired} waitlist holds, re-offered ${result.reoffered.length} slots`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Waitlist hold sweep failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,36 @@
+import { PrismaClient } from '@prisma/client'
+import { EligibilityRuleService, HEALTHIER_SG_PROGRAM_CODE } from '../src/lib/eligibility/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * Eligibility Rule Seeding
+ * Stores version 1 of the built-in Healthier SG eligibility rules for a program. Rules
+ * the program already has are left untouched; later changes are published as new
+ * versions through the eligibility router.
+ *
+ * Usage: npm run db:seed-eligibility-rules -- [--program HSG2025]
+ */
+
+async function main() {
+  const args = process.argv.slice(2)
+  const programIndex = args.indexOf('--program')
+  const programCode = programIndex >= 0 ? args[programIndex + 1]! : HEALTHIER_SG_PROGRAM_CODE
+
+  const created = await new EligibilityRuleService(prisma).seedDefaultRules(programCode)
+  console.log(
+    created.length > 0
+      ? `✅ Seeded ${created.length} eligibility rules for ${programCode}: ${created.join(', ')}`
+      : `✅ ${programCode} already has all built-in eligibility rules`
+  )
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Eligibility rule seeding failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
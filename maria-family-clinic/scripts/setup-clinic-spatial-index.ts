@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client'
+import { ensureClinicSpatialIndex } from '../src/lib/proximity/service'
+
+const prisma = new PrismaClient()
+
+/**
+ * Clinic Spatial Index Setup
+ * Enables PostGIS, installs the trigger that keeps clinics.location in step with
+ * latitude/longitude, backfills existing clinics and creates the GiST index used by
+ * clinic proximity search. Safe to re-run.
+ *
+ * Usage: npm run db:setup-spatial-index
+ */
+
+async function main() {
+  const backfilled = await ensureClinicSpatialIndex(prisma)
+  console.log(`✅ Clinic spatial index ready (${backfilled} clinic locations backfilled)`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Clinic spatial index setup failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
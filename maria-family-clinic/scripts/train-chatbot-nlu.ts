@@ -0,0 +1,67 @@
+import { writeFileSync } from 'fs'
+import { join } from 'path'
+import { PrismaClient } from '@prisma/client'
+import { MedicalKnowledgeBase } from '../src/lib/chatbot-service'
+import { trainIntentModel, type ServiceSource } from '../src/lib/chatbot/training-data'
+
+const prisma = new PrismaClient()
+
+/**
+ * Chatbot NLU Training
+ * Retrains the offline intent, language and FAQ model bundled with the chatbot from the
+ * FAQ and the active service catalogue, and writes it to src/lib/chatbot/intent-model.json.
+ * Run after adding services or FAQ entries, then commit the updated model.
+ * With --no-db only the built-in knowledge base is used.
+ *
+ * Usage: npm run jobs:train-chatbot-nlu -- [--no-db]
+ */
+
+const MODEL_PATH = join(__dirname, '../src/lib/chatbot/intent-model.json')
+
+async function loadCatalogue(): Promise<ServiceSource[]> {
+  const services = await prisma.service.findMany({
+    where: { isActive: true },
+    select: { name: true, translations: true, category: { select: { displayName: true } } },
+  })
+
+  return services.map(service => ({
+    name: service.name,
+    category: service.category.displayName,
+    translations: translatedNames(service.translations),
+  }))
+}
+
+// Service.translations: { zh: { name, description }, ms: { ... } }
+function translatedNames(json: unknown): Record<string, string> {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return {}
+  const names: Record<string, string> = {}
+  for (const [language, value] of Object.entries(json)) {
+    const name = value && typeof value === 'object' ? (value as { name?: unknown }).name : undefined
+    if (typeof name === 'string' && name.trim()) names[language] = name.trim()
+  }
+  return names
+}
+
+async function main() {
+  const knowledge = new MedicalKnowledgeBase()
+  const services: ServiceSource[] = knowledge.getServices().map(service => ({ name: service.name, category: service.category }))
+  if (!process.argv.includes('--no-db')) {
+    services.push(...(await loadCatalogue()))
+  }
+
+  const model = trainIntentModel({ faq: knowledge.getFAQ(), services })
+  writeFileSync(MODEL_PATH, `${JSON.stringify(model)}\n`)
+
+  console.log(`🤖 Trained on ${knowledge.getFAQ().length} FAQ entries and ${services.length} services`)
+  console.log(`   ${model.intents.labels.length} intents, ${Object.keys(model.intents.likelihoods).length} terms → ${MODEL_PATH}`)
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error('❌ Chatbot NLU training failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
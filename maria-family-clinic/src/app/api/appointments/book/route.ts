@@ -1,190 +1,275 @@
 /**
  * Appointment Booking API Endpoint
  * Sub-Phase 7.5: Doctor Availability & Scheduling Integration
- * 
+ *
  * Handles appointment booking with conflict detection, waitlist integration,
- * and real-time confirmation system
+ * and real-time confirmation system.
+ * Thin REST adapter over the BookingService shared with the `appointment` tRPC router,
+ * so bookings made here show up in getMyAppointments and getDailySchedule.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { DoctorAppointmentStatus } from '@/types/doctor';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/server/auth';
+import { isStaffRole } from '@/server/api/trpc';
+import { prisma } from '@/lib/db';
+import { BookingService, BookingError } from '@/lib/booking/service';
+import { combineDateAndTime } from '@/lib/booking/overlap';
+import { addDaysToKey, atSingaporeTime, fromMinutes, singaporeMinutes } from '@/lib/clinic-hours/calendar';
+import { WaitlistService } from '@/lib/waitlist/service';
+
+const ERROR_STATUS: Record<BookingError['code'], number> = {
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  BAD_REQUEST: 400,
+  FORBIDDEN: 403
+};
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/); // "HH:mm"
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/); // Singapore date, "yyyy-MM-dd"
+
+const bookingSchema = z
+  .object({
+    doctorId: z.string().min(1),
+    availabilityId: z.string().min(1).optional(),
+    clinicId: z.string().min(1).optional(),
+    serviceId: z.string().min(1).optional(),
+    appointmentDate: z.coerce.date().optional(),
+    patientId: z.string().min(1).optional(),
+    urgencyLevel: z.enum(['ROUTINE', 'URGENT', 'EMERGENCY', 'SAME_DAY']).default('ROUTINE'),
+    symptoms: z.string().optional(),
+    notes: z.string().optional(),
+    preferredSlotTime: timeSchema.optional(),
+    specialRequirements: z.string().optional(),
+    idempotencyKey: z.string().min(8).max(128).optional()
+  })
+  .refine(booking => booking.availabilityId || booking.appointmentDate, {
+    message: 'Provide availabilityId or appointmentDate',
+    path: ['appointmentDate']
+  });
+
+const listSchema = z.object({
+  doctorId: z.string().min(1).optional(),
+  patientId: z.string().min(1).optional(),
+  status: z.enum(['PENDING', 'CONFIRMED', 'COMPLETED', 'CANCELLED', 'NO_SHOW']).optional(),
+  date: dateKeySchema.optional(),
+  limit: z.coerce.number().int().min(0).default(50)
+});
+
+const cancelSchema = z.object({
+  appointmentId: z.string().min(1),
+  reason: z.string().optional()
+});
+
+const appointmentSelect = {
+  id: true,
+  clinicId: true,
+  doctorId: true,
+  serviceId: true,
+  patientId: true,
+  appointmentDate: true,
+  status: true,
+  notes: true,
+  symptoms: true,
+  isUrgent: true,
+  createdAt: true,
+  updatedAt: true,
+  service: {
+    select: {
+      name: true,
+      duration: true
+    }
+  }
+};
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
+
+function invalidRequest(error: z.ZodError) {
+  return NextResponse.json(
+    { success: false, error: 'Invalid request', details: error.flatten() },
+    { status: 400 }
+  );
+}
 
-// Mock database
-const mockAppointments: any[] = [];
-const mockWaitlist: any[] = [];
-const mockNotifications: any[] = [];
+function bookingErrorResponse(error: BookingError) {
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status: ERROR_STATUS[error.code] }
+  );
+}
+
+// Bookings made without a service use the first of the doctor's primary services at the clinic
+async function defaultServiceId(doctorId: string, clinicId: string) {
+  const membership = await prisma.doctorClinic.findFirst({
+    where: { doctorId, clinicId },
+    select: { primaryServices: true }
+  });
+  if (!membership || membership.primaryServices.length === 0) return undefined;
+
+  const services = await prisma.service.findMany({
+    where: {
+      name: { in: membership.primaryServices },
+      clinics: { some: { clinicId, isAvailable: true } }
+    },
+    select: { id: true, name: true }
+  });
+  const byName = new Map(services.map(service => [service.name, service.id]));
+  return membership.primaryServices.map(name => byName.get(name)).find(Boolean);
+}
+
+// Short code patients quote to the front desk
+function confirmationCode(appointmentId: string) {
+  return `MFC${appointmentId.slice(-6).toUpperCase()}`;
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
     const body = await request.json();
+    const parsed = bookingSchema.safeParse({
+      ...body,
+      idempotencyKey: request.headers.get('Idempotency-Key') ?? body?.idempotencyKey
+    });
+    if (!parsed.success) return invalidRequest(parsed.error);
+
     const {
       doctorId,
       availabilityId,
-      patientId,
-      patientName,
-      patientPhone,
-      patientEmail,
-      appointmentType,
-      urgencyLevel = 'ROUTINE',
+      clinicId: requestedClinicId,
+      serviceId: requestedServiceId,
+      appointmentDate: requestedDate,
+      patientId: requestedPatientId,
+      urgencyLevel,
+      symptoms,
       notes,
       preferredSlotTime,
       specialRequirements,
-      isNewPatient = false
-    } = body;
+      idempotencyKey
+    } = parsed.data;
+
+    // Staff book on behalf of patients; patients can only book for themselves
+    const isStaff = isStaffRole(session.user.role);
+    const patientId = isStaff && requestedPatientId ? requestedPatientId : session.user.id;
+
+    // Resolve the slot from the published availability window
+    let clinicId: string | undefined = requestedClinicId;
+    let appointmentDate: Date | undefined = requestedDate;
+
+    if (availabilityId) {
+      const availability = await prisma.doctorAvailability.findFirst({
+        where: { id: availabilityId, doctorId }
+      });
+
+      if (!availability) {
+        return NextResponse.json(
+          { success: false, error: 'Availability slot not found' },
+          { status: 404 }
+        );
+      }
+
+      clinicId = clinicId ?? availability.clinicId ?? undefined;
+      appointmentDate = combineDateAndTime(availability.date, preferredSlotTime ?? availability.startTime);
+    }
 
-    // Validation
-    if (!doctorId || !availabilityId) {
+    if (!clinicId || !appointmentDate || Number.isNaN(appointmentDate.getTime())) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Missing required fields',
-          required: ['doctorId', 'availabilityId']
+        {
+          success: false,
+          error: 'Clinic and a valid appointment time are required',
+          required: ['clinicId', 'appointmentDate']
         },
         { status: 400 }
       );
     }
 
-    if (!patientName || !patientPhone) {
+    const serviceId = requestedServiceId ?? await defaultServiceId(doctorId, clinicId);
+    if (!serviceId) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Patient information is required',
-          required: ['patientName', 'patientPhone']
+        {
+          success: false,
+          error: 'No default service is set up for this doctor at the clinic; choose a service',
+          required: ['serviceId']
         },
         { status: 400 }
       );
     }
 
-    // Find the availability slot
-    const availabilitySlot = {
-      id: availabilityId,
+    const bookingRequest = {
+      clinicId,
       doctorId,
-      date: new Date(),
-      startTime: '14:00',
-      endTime: '15:00',
-      isAvailable: true,
-      availableSlots: 1,
-      maxAppointments: 1,
-      bookedAppointments: 0,
-      isEmergency: urgencyLevel === 'EMERGENCY',
-      slotDuration: 60
+      serviceId,
+      patientId,
+      appointmentDate,
+      symptoms,
+      notes: [notes, specialRequirements].filter(Boolean).join('\n') || undefined,
+      isUrgent: urgencyLevel !== 'ROUTINE',
+      idempotencyKey
     };
 
-    // Check availability
-    if (!availabilitySlot.isAvailable || availabilitySlot.availableSlots <= 0) {
-      // Check waitlist for alternatives
-      const alternativeSlots = mockAppointments
-        .filter(apt => apt.doctorId === doctorId && apt.status === 'SCHEDULED')
-        .slice(0, 3);
+    const service = new BookingService(prisma);
 
-      const waitlistPosition = mockWaitlist.filter(w => w.doctorId === doctorId).length + 1;
+    try {
+      const booking = await service.book(bookingRequest);
+      const appointment = await prisma.appointment.findUnique({
+        where: { id: booking.appointmentId },
+        select: appointmentSelect
+      });
 
       return NextResponse.json({
-        success: false,
-        error: 'No slots available for selected time',
-        alternativeSlots,
-        waitlistPosition,
-        estimatedWaitTime: `${waitlistPosition * 2} hours`,
-        message: 'This time slot is fully booked. Please check alternatives or join waitlist.'
-      }, { status: 409 });
-    }
+        success: true,
+        data: {
+          appointmentId: booking.appointmentId,
+          confirmationCode: confirmationCode(booking.appointmentId),
+          appointment,
+          slotReleased: false,
+          conflictDetected: false
+        },
+        message: booking.replayed ? 'Appointment already booked' : 'Appointment booked successfully'
+      }, { status: booking.replayed ? 200 : 201 });
+    } catch (error) {
+      if (!(error instanceof BookingError) || error.code !== 'CONFLICT' || error.conflicts.length === 0) {
+        throw error;
+      }
 
-    // Check for conflicts
-    const conflictingAppointment = mockAppointments.find(apt => 
-      apt.doctorId === doctorId &&
-      apt.status === 'SCHEDULED' &&
-      apt.appointmentDate.toDateString() === availabilitySlot.date.toDateString() &&
-      (
-        (availabilitySlot.startTime >= apt.startTime && availabilitySlot.startTime < apt.endTime) ||
-        (availabilitySlot.endTime > apt.startTime && availabilitySlot.endTime <= apt.endTime)
-      )
-    );
+      // Slot is taken: suggest other times and where the patient would sit on the waitlist
+      const [alternativeSlots, waitlist] = await Promise.all([
+        service.suggestAlternativeSlots(bookingRequest),
+        new WaitlistService(prisma).projectedPosition(doctorId, urgencyLevel)
+      ]);
+      const [conflict] = error.conflicts;
 
-    if (conflictingAppointment) {
       return NextResponse.json({
         success: false,
         error: 'Scheduling conflict detected',
         conflictDetected: true,
         conflict: {
-          appointmentId: conflictingAppointment.id,
-          time: `${conflictingAppointment.startTime} - ${conflictingAppointment.endTime}`
+          appointmentId: conflict!.reason === 'APPOINTMENT' ? conflict!.referenceId : undefined,
+          reason: conflict!.reason,
+          time: `${fromMinutes(singaporeMinutes(conflict!.start))} - ${fromMinutes(singaporeMinutes(conflict!.end))}`
         },
-        alternativeSlots: mockAppointments
-          .filter(apt => apt.doctorId === doctorId && apt.status === 'SCHEDULED')
-          .slice(0, 5),
-        message: 'This slot conflicts with an existing appointment.'
+        alternativeSlots,
+        waitlistPosition: waitlist.position,
+        estimatedWaitTime: waitlist.estimatedWaitTime,
+        message: alternativeSlots.length > 0
+          ? `${error.message}. Please choose an alternative slot or join the waitlist.`
+          : `${error.message}. Please join the waitlist to be offered the next free slot.`
       }, { status: 409 });
     }
 
-    // Create appointment
-    const appointment = {
-      id: `apt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      doctorId,
-      availabilityId,
-      appointmentDate: availabilitySlot.date,
-      startTime: availabilitySlot.startTime,
-      endTime: availabilitySlot.endTime,
-      patientId,
-      patientName,
-      patientPhone,
-      patientEmail,
-      appointmentType,
-      urgencyLevel,
-      status: DoctorAppointmentStatus.CONFIRMED,
-      wasCompleted: false,
-      isCancelled: false,
-      isRescheduled: false,
-      reminderSent: false,
-      confirmationRequired: true,
-      isPaid: false,
-      notes,
-      specialRequirements,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-
-    mockAppointments.push(appointment);
-
-    // Generate confirmation code
-    const confirmationCode = `MFC${Date.now().toString().slice(-6)}`;
-
-    // Create notification
-    const notification = {
-      id: `notif-${Date.now()}`,
-      type: 'booking_confirmed',
-      title: 'Appointment Confirmed',
-      message: `${patientName} confirmed appointment for ${availabilitySlot.date.toDateString()} at ${availabilitySlot.startTime}`,
-      timestamp: new Date(),
-      channels: ['in_app', 'sms', 'email'],
-      data: { appointmentId: appointment.id, confirmationCode }
-    };
-
-    mockNotifications.push(notification);
-
-    // Broadcast real-time update
-    console.log('Appointment booked:', {
-      appointmentId: appointment.id,
-      doctorId,
-      confirmationCode
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        appointmentId: appointment.id,
-        confirmationCode,
-        appointment,
-        slotReleased: false,
-        conflictDetected: false
-      },
-      message: 'Appointment booked successfully'
-    }, { status: 201 });
-
   } catch (error) {
+    if (error instanceof BookingError) return bookingErrorResponse(error);
     console.error('Error booking appointment:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to book appointment',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -195,55 +280,41 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const doctorId = searchParams.get('doctorId');
-    const patientId = searchParams.get('patientId');
-    const status = searchParams.get('status');
-    const date = searchParams.get('date');
-    const limit = parseInt(searchParams.get('limit') || '50');
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
 
-    let filteredAppointments = [...mockAppointments];
-
-    // Apply filters
-    if (doctorId) {
-      filteredAppointments = filteredAppointments.filter(apt => apt.doctorId === doctorId);
-    }
+    const { searchParams } = new URL(request.url);
+    const parsed = listSchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) return invalidRequest(parsed.error);
 
-    if (patientId) {
-      filteredAppointments = filteredAppointments.filter(apt => apt.patientId === patientId);
-    }
+    const { doctorId, patientId: requestedPatientId, status, date, limit } = parsed.data;
 
-    if (status) {
-      filteredAppointments = filteredAppointments.filter(apt => apt.status === status);
-    }
+    // Patients only ever see their own appointments
+    const patientId = isStaffRole(session.user.role) ? requestedPatientId : session.user.id;
 
-    if (date) {
-      const targetDate = new Date(date);
-      filteredAppointments = filteredAppointments.filter(apt => 
-        apt.appointmentDate.toDateString() === targetDate.toDateString()
-      );
-    }
+    // The whole Singapore calendar day
+    const appointmentDate = date
+      ? { gte: atSingaporeTime(date), lt: atSingaporeTime(addDaysToKey(date, 1)) }
+      : undefined;
 
-    // Sort by date and time
-    filteredAppointments.sort((a, b) => {
-      const dateCompare = a.appointmentDate.getTime() - b.appointmentDate.getTime();
-      if (dateCompare === 0) {
-        return a.startTime.localeCompare(b.startTime);
-      }
-      return dateCompare;
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        ...(doctorId && { doctorId }),
+        ...(patientId && { patientId }),
+        ...(status && { status }),
+        ...(appointmentDate && { appointmentDate })
+      },
+      select: appointmentSelect,
+      orderBy: { appointmentDate: 'asc' },
+      ...(limit > 0 && { take: limit })
     });
 
-    // Limit results
-    if (limit > 0) {
-      filteredAppointments = filteredAppointments.slice(0, limit);
-    }
-
     return NextResponse.json({
       success: true,
-      data: filteredAppointments,
-      count: filteredAppointments.length,
+      data: appointments,
+      count: appointments.length,
       meta: {
-        total: filteredAppointments.length,
+        total: appointments.length,
         filters: { doctorId, patientId, status, date }
       }
     });
@@ -251,8 +322,8 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Error fetching appointments:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to fetch appointments',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -264,82 +335,43 @@ export async function GET(request: NextRequest) {
 // Handle appointment cancellation
 export async function DELETE(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const appointmentId = searchParams.get('appointmentId');
-    const reason = searchParams.get('reason');
-
-    if (!appointmentId) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Missing appointmentId parameter'
-        },
-        { status: 400 }
-      );
-    }
-
-    const appointmentIndex = mockAppointments.findIndex(apt => apt.id === appointmentId);
-
-    if (appointmentIndex === -1) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Appointment not found'
-        },
-        { status: 404 }
-      );
-    }
-
-    const appointment = mockAppointments[appointmentIndex];
-
-    // Update appointment status
-    appointment.status = DoctorAppointmentStatus.CANCELLED;
-    appointment.isCancelled = true;
-    appointment.cancelledAt = new Date();
-    appointment.cancellationReason = reason || 'Not specified';
-    appointment.updatedAt = new Date();
-
-    // Create notification
-    const notification = {
-      id: `notif-${Date.now()}`,
-      type: 'appointment_cancelled',
-      title: 'Appointment Cancelled',
-      message: `Appointment cancelled for ${appointment.patientName} at ${appointment.startTime}`,
-      timestamp: new Date(),
-      channels: ['in_app', 'sms'],
-      data: { appointmentId }
-    };
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
 
-    mockNotifications.push(notification);
+    const { searchParams } = new URL(request.url);
+    const parsed = cancelSchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) return invalidRequest(parsed.error);
 
-    // Notify waitlist patients
-    const waitlistCandidates = mockWaitlist
-      .filter(w => w.doctorId === appointment.doctorId && w.status === 'WAITING')
-      .slice(0, 3);
+    const { appointmentId, reason } = parsed.data;
 
-    // Broadcast real-time update
-    console.log('Appointment cancelled:', {
+    const { waitlistOfferId } = await new BookingService(prisma).cancel(
       appointmentId,
-      doctorId: appointment.doctorId,
-      waitlistCandidates: waitlistCandidates.length
+      { userId: session.user.id, role: session.user.role },
+      reason
+    );
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      select: appointmentSelect
     });
 
     return NextResponse.json({
       success: true,
       data: appointment,
       message: 'Appointment cancelled successfully',
-      waitlistNotified: waitlistCandidates.length
+      waitlistNotified: waitlistOfferId ? 1 : 0
     });
 
   } catch (error) {
+    if (error instanceof BookingError) return bookingErrorResponse(error);
     console.error('Error cancelling appointment:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to cancel appointment',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
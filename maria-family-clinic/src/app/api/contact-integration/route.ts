@@ -3,7 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
 import { ContactMethod, ContactType, IntegrationType } from '@/lib/types/contact-system'
+import { RedactionService } from '@/lib/redaction/service'
 
 // ============================================================================
 // CONTACT INTEGRATION API ROUTE
@@ -272,23 +274,31 @@ export async function POST(request: NextRequest) {
     })
     const referenceNumber = `CF${dateString}${String(count + 1).padStart(4, '0')}`
 
+    // Free text is redacted before it is stored, as on the contact form router
+    const redaction = new RedactionService(prisma)
+    const redactedForm = await redaction.prepareFormData('formData', formData)
+
     // Create contact form
-    const contactForm = await prisma.contactForm.create({
-      data: {
-        referenceNumber,
-        categoryId,
-        contactInfo,
-        formData,
-        consent,
-        userId: session.user.id,
-        clinicId: context?.clinicId,
-        doctorId: context?.doctorId,
-        status: 'SUBMITTED',
-        priority: 'NORMAL',
-        channel: 'WEB_FORM',
-        submittedAt: new Date(),
-        isActive: true,
-      },
+    const contactForm = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.contactForm.create({
+        data: {
+          referenceNumber,
+          categoryId,
+          contactInfo,
+          formData: redactedForm.data,
+          consent,
+          userId: session.user.id,
+          clinicId: context?.clinicId,
+          doctorId: context?.doctorId,
+          status: 'SUBMITTED',
+          priority: 'NORMAL',
+          channel: 'WEB_FORM',
+          submittedAt: new Date(),
+          isActive: true,
+        },
+      })
+      await redaction.record(tx, { sourceType: 'CONTACT_FORM', sourceId: created.id }, redactedForm.prepared, session.user.id)
+      return created
     })
 
     // Create integration mapping if context is provided
@@ -334,12 +344,12 @@ export async function POST(request: NextRequest) {
       data: {
         userId: session.user.id,
         contactFormId: contactForm.id,
-        contactType: formData.subject?.includes('appointment') ? ContactType.APPOINTMENT_RELATED : ContactType.GENERAL_INQUIRY,
-        contactCategory: formData.category || 'general',
-        purpose: formData.subject || 'Contact form submission',
+        contactType: redactedForm.data.subject?.includes('appointment') ? ContactType.APPOINTMENT_RELATED : ContactType.GENERAL_INQUIRY,
+        contactCategory: redactedForm.data.category || 'general',
+        purpose: redactedForm.data.subject || 'Contact form submission',
         method: contactInfo.preferredContactMethod,
-        subject: formData.subject,
-        summary: formData.message?.substring(0, 200),
+        subject: redactedForm.data.subject,
+        summary: redactedForm.data.message?.substring(0, 200),
         status: 'ACTIVE',
         resolved: false,
         createdAt: new Date(),
@@ -1,20 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/server/auth'
+import { isStaffRole } from '@/server/api/trpc'
 import { prisma } from '@/lib/db'
-
-interface OptimizationParams {
-  priority: 'efficiency' | 'patient-satisfaction' | 'utilization' | 'distance'
-  constraints: {
-    maxTravelTime?: number
-    minBreakTime?: number
-    preferredClinics?: string[]
-    avoidClinics?: string[]
-  }
-  objectives: Array<{
-    metric: string
-    weight: number
-    target?: number
-  }>
-}
+import {
+  ScheduleOptimizationService,
+  type RosterDiffEntry,
+  type RosterOptimization,
+} from '@/lib/scheduling/service'
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/) // "HH:mm"
+
+const optimizationParamsSchema = z.object({
+  priority: z.enum(['efficiency', 'patient-satisfaction', 'utilization', 'distance']).default('efficiency'),
+  constraints: z
+    .object({
+      maxTravelTime: z.number().min(0).optional(),
+      minBreakTime: z.number().min(0).optional(),
+      preferredClinics: z.array(z.string()).optional(),
+      avoidClinics: z.array(z.string()).optional(),
+      maxWeeklyHours: z.number().positive().optional(),
+    })
+    .default({}),
+  objectives: z
+    .array(
+      z.object({
+        metric: z.string(),
+        weight: z.number(),
+        target: z.number().optional(),
+      })
+    )
+    .default([]),
+  weekStart: z.coerce.date().optional(),
+  clinicIds: z.array(z.string()).optional(),
+  shifts: z
+    .array(z.object({ id: z.string(), startTime: timeSchema, endTime: timeSchema }))
+    .min(1)
+    .optional(),
+})
 
 interface ScheduleOptimization {
   optimizationScore: number
@@ -40,213 +64,47 @@ interface ScheduleOptimization {
       timeline: string
     }>
   }
+  roster: RosterOptimization
 }
 
+/**
+ * Optimise next week's doctor roster across clinics. Nothing is written: the response
+ * carries a diff whose entries staff apply through `doctorSchedule.upsertSchedule`.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const params: OptimizationParams = await request.json()
-
-    // Get all doctors with their schedules
-    const doctors = await prisma.doctor.findMany({
-      where: { isActive: true },
-      include: {
-        clinics: {
-          include: {
-            clinic: true,
-            schedules: {
-              where: { isActive: true }
-            }
-          }
-        },
-        availabilities: {
-          where: {
-            isAvailable: true,
-            date: {
-              gte: new Date(),
-              lte: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-            }
-          }
-        }
-      }
-    })
-
-    let optimizationScore = 0
-    const improvements: Array<{
-      metric: string
-      current: number
-      optimized: number
-      impact: string
-    }> = []
-    const recommendations: ScheduleOptimization['recommendations'] = []
-    const implementationChanges: Array<{
-      doctorId: string
-      clinicId: string
-      action: string
-      timeline: string
-    }> = []
-
-    // Analyze current state
-    let totalUtilization = 0
-    let totalConflicts = 0
-    let totalDistance = 0
-    let totalScheduleEfficiency = 0
-
-    for (const doctor of doctors) {
-      for (const doctorClinic of doctor.clinics) {
-        const schedules = doctorClinic.schedules
-        const availabilities = doctor.availabilities.filter(a => a.clinicId === doctorClinic.clinicId)
-        
-        // Calculate utilization
-        const weeklyHours = schedules.reduce((total, schedule) => {
-          const start = new Date(`2000-01-01 ${schedule.startTime}`)
-          const end = new Date(`2000-01-01 ${schedule.endTime}`)
-          return total + (end.getTime() - start.getTime()) / (1000 * 60 * 60)
-        }, 0)
-        
-        const utilizationRate = Math.min((weeklyHours / 40) * 100, 100) // Assuming 40-hour week
-        totalUtilization += utilizationRate
-
-        // Calculate schedule efficiency
-        const efficiency = availabilities.length > 0 ? 
-          Math.min((availabilities.length / 20) * 100, 100) : 0
-        totalScheduleEfficiency += efficiency
-
-        // Count conflicts (simplified)
-        const conflicts = Math.floor(Math.random() * 3) // Placeholder
-        totalConflicts += conflicts
-
-        // Distance optimization
-        if (doctor.clinics.length > 1) {
-          totalDistance += doctor.clinics.length * 15 // Average 15km between clinics
-        }
-      }
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
-
-    const averageUtilization = doctors.length > 0 ? totalUtilization / (doctors.length * doctor.clinics.length || 1) : 0
-    const averageEfficiency = doctors.length > 0 ? totalScheduleEfficiency / doctors.length : 0
-
-    // Generate optimization recommendations based on priority
-    switch (params.priority) {
-      case 'efficiency':
-        if (averageUtilization < 70) {
-          improvements.push({
-            metric: 'Schedule Utilization',
-            current: Math.round(averageUtilization),
-            optimized: Math.round(Math.min(averageUtilization * 1.2, 95)),
-            impact: 'Better resource utilization'
-          })
-          
-          recommendations.push({
-            type: 'schedule',
-            priority: 'high',
-            description: 'Increase doctor availability during peak hours',
-            implementation: 'Add 2-3 additional time slots per day',
-            expectedBenefit: '20% increase in patient capacity'
-          })
-
-          implementationChanges.push({
-            doctorId: 'all',
-            clinicId: 'all',
-            action: 'extend_schedules',
-            timeline: '2 weeks'
-          })
-        }
-        
-        if (totalConflicts > 0) {
-          recommendations.push({
-            type: 'coverage',
-            priority: 'high',
-            description: 'Resolve scheduling conflicts through better coordination',
-            implementation: 'Implement conflict detection system',
-            expectedBenefit: 'Eliminate double-booking issues'
-          })
-        }
-        break
-
-      case 'patient-satisfaction':
-        if (averageEfficiency < 80) {
-          improvements.push({
-            metric: 'Patient Access',
-            current: Math.round(averageEfficiency),
-            optimized: Math.round(Math.min(averageEfficiency * 1.15, 98)),
-            impact: 'Reduced wait times'
-          })
-          
-          recommendations.push({
-            type: 'schedule',
-            priority: 'high',
-            description: 'Optimize appointment slots for better patient flow',
-            implementation: 'Adjust slot duration and buffer times',
-            expectedBenefit: '15% reduction in wait times'
-          })
-        }
-        break
-
-      case 'utilization':
-        if (averageUtilization < 85) {
-          improvements.push({
-            metric: 'Overall Utilization',
-            current: Math.round(averageUtilization),
-            optimized: Math.round(Math.min(averageUtilization * 1.25, 95)),
-            impact: 'Better resource allocation'
-          })
-          
-          recommendations.push({
-            type: 'coverage',
-            priority: 'high',
-            description: 'Balance workload across all doctors and clinics',
-            implementation: 'Redistribute appointments based on capacity',
-            expectedBenefit: '25% improvement in resource utilization'
-          })
-        }
-        break
-
-      case 'distance':
-        if (totalDistance > 100) {
-          improvements.push({
-            metric: 'Travel Distance',
-            current: Math.round(totalDistance),
-            optimized: Math.round(totalDistance * 0.7),
-            impact: 'Reduced travel time and costs'
-          })
-          
-          recommendations.push({
-            type: 'route',
-            priority: 'medium',
-            description: 'Optimize clinic assignments to minimize travel',
-            implementation: 'Group nearby clinics for same doctors',
-            expectedBenefit: '30% reduction in travel time'
-          })
-        }
-        break
+    if (!isStaffRole(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // Partnership recommendations
-    recommendations.push({
-      type: 'partnership',
-      priority: 'medium',
-      description: 'Establish referral partnerships for better coverage',
-      implementation: 'Create formal partnership agreements',
-      expectedBenefit: 'Improved patient care continuity'
-    })
+    const parsed = optimizationParamsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid optimization parameters', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
 
-    // Calculate overall optimization score
-    optimizationScore = (
-      (averageUtilization * 0.3) +
-      (averageEfficiency * 0.25) +
-      ((100 - totalConflicts) * 0.2) +
-      (Math.max(0, 100 - totalDistance) * 0.15) +
-      (90 * 0.1) // Partnership score
-    )
+    const roster = await new ScheduleOptimizationService(prisma).optimize(parsed.data)
 
     const scheduleOptimization: ScheduleOptimization = {
-      optimizationScore: Math.round(optimizationScore * 100) / 100,
-      improvements,
-      recommendations,
+      optimizationScore: optimizationScore(roster),
+      improvements: improvements(roster),
+      recommendations: recommendations(roster),
       implementationPlan: {
         phase: 1,
-        changes: implementationChanges
-      }
+        changes: roster.diff.map(entry => ({
+          doctorId: entry.doctorId,
+          clinicId: (entry.toClinicId ?? entry.fromClinicId)!,
+          action: describeChange(entry),
+          timeline: `${entry.date} ${entry.startTime}-${entry.endTime}`,
+        })),
+      },
+      roster,
     }
 
     return NextResponse.json(scheduleOptimization)
@@ -258,4 +116,80 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Share of the current roster's weighted cost removed by the optimiser (0-100)
+function optimizationScore({ before, after }: RosterOptimization): number {
+  if (before.score <= 0) return 100
+  return Math.round(Math.max(0, (1 - after.score / before.score) * 100) * 100) / 100
+}
+
+function improvements({ before, after }: RosterOptimization): ScheduleOptimization['improvements'] {
+  const metrics = [
+    { metric: 'Shift Coverage (%)', current: before.coverageRate, optimized: after.coverageRate, impact: 'Fewer clinic sessions without a doctor' },
+    { metric: 'Travel Time (minutes)', current: before.travelMinutes, optimized: after.travelMinutes, impact: 'Less time between clinics' },
+    { metric: 'Workload Spread (hours std dev)', current: before.hoursStdDev, optimized: after.hoursStdDev, impact: 'More even workload across doctors' },
+    { metric: 'Non-preferred Clinic Shifts', current: before.nonPreferredShifts, optimized: after.nonPreferredShifts, impact: 'More shifts at preferred clinics' },
+  ]
+
+  return metrics.filter(metric => metric.current !== metric.optimized)
+}
+
+function recommendations({ after, diff }: RosterOptimization): ScheduleOptimization['recommendations'] {
+  const result: ScheduleOptimization['recommendations'] = []
+  const applicable = diff.filter(entry => entry.applicable)
+  const manual = diff.length - applicable.length
+
+  if (applicable.length > 0) {
+    result.push({
+      type: 'schedule',
+      priority: 'high',
+      description: `Apply ${applicable.length} roster change${applicable.length === 1 ? '' : 's'}`,
+      implementation: 'Review each diff entry and apply its upsert payload through doctorSchedule.upsertSchedule',
+      expectedBenefit: `${after.coverageRate}% shift coverage with ${after.travelMinutes} minutes of travel`,
+    })
+  }
+
+  if (manual > 0) {
+    result.push({
+      type: 'schedule',
+      priority: 'medium',
+      description: `${manual} change${manual === 1 ? '' : 's'} touch schedules spanning several shifts`,
+      implementation: 'Split those schedules into per-shift schedules, then re-run the optimisation',
+      expectedBenefit: 'All changes can be applied automatically',
+    })
+  }
+
+  if (after.uncovered > 0) {
+    result.push({
+      type: 'coverage',
+      priority: 'high',
+      description: `${after.uncovered} clinic shift${after.uncovered === 1 ? '' : 's'} cannot be covered by affiliated doctors`,
+      implementation: 'Arrange locum cover or affiliate more doctors with the affected clinics',
+      expectedBenefit: 'Full coverage during leave periods',
+    })
+  }
+
+  if (diff.some(entry => entry.action === 'MOVE')) {
+    result.push({
+      type: 'route',
+      priority: 'medium',
+      description: 'Notify doctors whose shifts move between clinics',
+      implementation: 'Send the updated roster to affected doctors before the week starts',
+      expectedBenefit: 'No missed sessions after the change',
+    })
+  }
+
+  return result
+}
+
+function describeChange(entry: RosterDiffEntry): string {
+  switch (entry.action) {
+    case 'ADD':
+      return `add_${entry.shiftId.toLowerCase()}_shift`
+    case 'REMOVE':
+      return `remove_${entry.shiftId.toLowerCase()}_shift`
+    case 'MOVE':
+      return `move_${entry.shiftId.toLowerCase()}_shift_from_${entry.fromClinicId}`
+  }
+}
@@ -1,51 +1,63 @@
 /**
  * Waitlist Management API Endpoint
  * Sub-Phase 7.5: Doctor Availability & Scheduling Integration
- * 
- * Handles patient waitlist management with real-time notifications and position tracking
+ *
+ * Handles patient waitlist management with real-time notifications and position tracking.
+ * Backed by the persistent WaitlistService shared with the `waitlist` tRPC router.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock waitlist data
-const mockWaitlist: Array<{
-  id: string;
-  doctorId: string;
-  patientId?: string;
-  patientName: string;
-  patientPhone: string;
-  patientEmail?: string;
-  appointmentType: string;
-  urgencyLevel: string;
-  joinedAt: Date;
-  estimatedWaitTime?: string;
-  preferredSlots: Array<{
-    date: string;
-    startTime: string;
-    endTime: string;
-  }>;
-  status: 'WAITING' | 'NOTIFIED' | 'CONFIRMED' | 'EXPIRED' | 'CANCELLED';
-  position?: number;
-  notificationSent?: boolean;
-  lastNotified?: Date;
-  notes?: string;
-}> = [];
-
-const mockStats = {
-  totalWaiting: 0,
-  averageWaitTime: 7,
-  oldestEntry: new Date(Date.now() - 24 * 60 * 60 * 1000),
-  notificationsSent: 0,
-  autoPromotionRate: 85
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/server/auth';
+import { isStaffRole } from '@/server/api/trpc';
+import { prisma } from '@/lib/db';
+import { WaitlistService, WaitlistError } from '@/lib/waitlist/service';
+
+const WAITLIST_STATUSES = ['WAITING', 'NOTIFIED', 'CONFIRMED', 'EXPIRED', 'CANCELLED'] as const;
+type WaitlistStatusParam = typeof WAITLIST_STATUSES[number];
+
+// Actions that move other patients through the queue are for the front desk only
+const STAFF_ACTIONS = ['notify', 'promote', 'expire'];
+
+const ERROR_STATUS: Record<WaitlistError['code'], number> = {
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  BAD_REQUEST: 400
 };
 
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
+
+function forbidden() {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden' },
+    { status: 403 }
+  );
+}
+
+function waitlistErrorResponse(error: WaitlistError) {
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status: ERROR_STATUS[error.code] }
+  );
+}
+
 // Join waitlist
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
     const body = await request.json();
     const {
       doctorId,
-      patientId,
+      clinicId,
+      serviceId,
+      patientId: requestedPatientId,
       patientName,
       patientPhone,
       patientEmail,
@@ -59,8 +71,8 @@ export async function POST(request: NextRequest) {
     // Validation
     if (!doctorId || !patientName || !patientPhone) {
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           error: 'Missing required fields',
           required: ['doctorId', 'patientName', 'patientPhone']
         },
@@ -68,21 +80,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if already on waitlist
-    const existingEntry = mockWaitlist.find(w => 
-      w.doctorId === doctorId && 
-      w.patientPhone === patientPhone && 
-      w.status === 'WAITING'
-    );
+    // Staff add patients from the front desk; patients can only join for themselves
+    const patientId = isStaffRole(session.user.role) ? requestedPatientId : session.user.id;
+
+    const service = new WaitlistService(prisma);
+
+    const existingEntry = await prisma.waitlistEntry.findFirst({
+      where: {
+        doctorId,
+        patientPhone,
+        status: { in: ['WAITING', 'NOTIFIED'] }
+      }
+    });
 
     if (existingEntry) {
+      const { position } = await service.getPosition(existingEntry.id);
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           error: 'Already on waitlist for this doctor',
           existingEntry: {
             id: existingEntry.id,
-            position: existingEntry.position,
+            position,
             joinedAt: existingEntry.joinedAt
           }
         },
@@ -90,75 +109,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate waitlist position
-    const currentPosition = mockWaitlist
-      .filter(w => w.doctorId === doctorId && w.status === 'WAITING')
-      .length + 1;
-
-    // Estimate wait time
-    const estimatedWaitDays = Math.ceil(currentPosition / 3); // Assuming 3 appointments per day
-    const estimatedWaitTime = `${estimatedWaitDays} day${estimatedWaitDays > 1 ? 's' : ''}`;
-
-    // Create waitlist entry
-    const waitlistEntry = {
-      id: `wait-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const { entry, position, estimatedWaitTime } = await service.join({
       doctorId,
+      clinicId,
+      serviceId,
       patientId,
       patientName,
       patientPhone,
       patientEmail,
       appointmentType,
       urgencyLevel,
-      joinedAt: new Date(),
-      estimatedWaitTime,
-      preferredSlots: preferredSlots || (preferredSlot ? [preferredSlot] : []),
-      status: 'WAITING' as const,
-      position: currentPosition,
-      notificationSent: false,
-      lastNotified: undefined,
-      notes
-    };
-
-    mockWaitlist.push(waitlistEntry);
-    mockStats.totalWaiting = mockWaitlist.filter(w => w.status === 'WAITING').length;
-
-    // Generate waitlist notification
-    const notification = {
-      id: `notif-${Date.now()}`,
-      type: 'waitlist_joined',
-      title: 'Added to Waitlist',
-      message: `${patientName} added to waitlist for Dr. (Position: #${currentPosition})`,
-      timestamp: new Date(),
-      channels: ['in_app', 'sms'],
-      data: { 
-        waitlistId: waitlistEntry.id,
-        position: currentPosition,
-        estimatedWaitTime
-      }
-    };
-
-    console.log('Patient added to waitlist:', {
-      waitlistId: waitlistEntry.id,
-      doctorId,
-      position: currentPosition
+      notes,
+      preferredSlots: preferredSlots || (preferredSlot ? [preferredSlot] : [])
     });
 
     return NextResponse.json({
       success: true,
       data: {
-        waitlistId: waitlistEntry.id,
-        position: currentPosition,
+        waitlistId: entry.id,
+        position,
         estimatedWaitTime,
-        waitlistEntry
+        waitlistEntry: { ...entry, position, estimatedWaitTime }
       },
       message: 'Successfully added to waitlist'
     }, { status: 201 });
 
   } catch (error) {
+    if (error instanceof WaitlistError) return waitlistErrorResponse(error);
     console.error('Error joining waitlist:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to join waitlist',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -170,58 +151,85 @@ export async function POST(request: NextRequest) {
 // Get waitlist for a doctor
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+    if (!isStaffRole(session.user.role)) return forbidden();
+
     const { searchParams } = new URL(request.url);
     const doctorId = searchParams.get('doctorId');
-    const status = searchParams.get('status') || 'WAITING';
+    const clinicId = searchParams.get('clinicId');
+    const status = (searchParams.get('status') || 'WAITING') as WaitlistStatusParam;
     const limit = parseInt(searchParams.get('limit') || '50');
 
-    let filteredWaitlist = [...mockWaitlist];
-
-    // Filter by doctor
-    if (doctorId) {
-      filteredWaitlist = filteredWaitlist.filter(w => w.doctorId === doctorId);
-    }
-
-    // Filter by status
-    if (status) {
-      filteredWaitlist = filteredWaitlist.filter(w => w.status === status);
+    if (!WAITLIST_STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid status',
+          validStatuses: WAITLIST_STATUSES
+        },
+        { status: 400 }
+      );
     }
 
-    // Sort by joined date and position
-    filteredWaitlist.sort((a, b) => {
-      if (a.position !== b.position) {
-        return (a.position || 0) - (b.position || 0);
-      }
-      return a.joinedAt.getTime() - b.joinedAt.getTime();
+    const service = new WaitlistService(prisma);
+    const entries = await service.list({
+      doctorId: doctorId ?? undefined,
+      clinicId: clinicId ?? undefined,
+      status,
+      limit: limit > 0 ? limit : undefined
     });
 
-    // Limit results
-    if (limit > 0) {
-      filteredWaitlist = filteredWaitlist.slice(0, limit);
-    }
+    const scope = {
+      ...(doctorId && { doctorId }),
+      ...(clinicId && { clinicId })
+    };
+
+    const [totalWaiting, oldestEntry, notificationsSent, confirmed, closed] = await Promise.all([
+      prisma.waitlistEntry.count({ where: { ...scope, status: 'WAITING' } }),
+      prisma.waitlistEntry.findFirst({
+        where: { ...scope, status: 'WAITING' },
+        orderBy: { joinedAt: 'asc' },
+        select: { joinedAt: true }
+      }),
+      prisma.waitlistEntry.count({ where: { ...scope, lastNotifiedAt: { not: null } } }),
+      prisma.waitlistEntry.count({ where: { ...scope, status: 'CONFIRMED' } }),
+      prisma.waitlistEntry.count({ where: { ...scope, status: { in: ['CONFIRMED', 'EXPIRED', 'CANCELLED'] } } })
+    ]);
+
+    const stats = {
+      totalWaiting,
+      averageWaitTime: Math.max(1, Math.ceil(totalWaiting / 3)),
+      oldestEntry: oldestEntry?.joinedAt ?? null,
+      notificationsSent,
+      autoPromotionRate: closed > 0 ? Math.round((confirmed / closed) * 100) : 0
+    };
 
-    // Update stats
-    mockStats.totalWaiting = mockWaitlist.filter(w => w.status === 'WAITING').length;
-    mockStats.notificationsSent = mockWaitlist.filter(w => w.notificationSent).length;
+    const data = entries.map((entry, index) => ({
+      ...entry,
+      position: entry.status === 'WAITING' ? index + 1 : undefined,
+      notificationSent: entry.lastNotifiedAt !== null,
+      lastNotified: entry.lastNotifiedAt ?? undefined
+    }));
 
     return NextResponse.json({
       success: true,
       data: {
-        entries: filteredWaitlist,
-        stats: mockStats
+        entries: data,
+        stats
       },
-      count: filteredWaitlist.length,
+      count: data.length,
       meta: {
-        total: filteredWaitlist.length,
-        filters: { doctorId, status }
+        total: data.length,
+        filters: { doctorId, clinicId, status }
       }
     });
 
   } catch (error) {
     console.error('Error fetching waitlist:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to fetch waitlist',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -233,13 +241,16 @@ export async function GET(request: NextRequest) {
 // Update waitlist entry
 export async function PUT(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
     const body = await request.json();
     const { waitlistId, updates, action } = body;
 
     if (!waitlistId || !action) {
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           error: 'Missing required fields',
           required: ['waitlistId', 'action']
         },
@@ -247,71 +258,54 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const waitlistIndex = mockWaitlist.findIndex(w => w.id === waitlistId);
+    const existing = await prisma.waitlistEntry.findUnique({ where: { id: waitlistId } });
 
-    if (waitlistIndex === -1) {
+    if (!existing) {
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           error: 'Waitlist entry not found'
         },
         { status: 404 }
       );
     }
 
-    const entry = mockWaitlist[waitlistIndex];
+    const isStaff = isStaffRole(session.user.role);
+    if (!isStaff && (STAFF_ACTIONS.includes(action) || existing.patientId !== session.user.id)) {
+      return forbidden();
+    }
+
+    const service = new WaitlistService(prisma);
 
     switch (action) {
       case 'notify':
-        // Send notification to patient
-        entry.status = 'NOTIFIED';
-        entry.notificationSent = true;
-        entry.lastNotified = new Date();
-        
-        console.log('Waitlist notification sent:', {
-          waitlistId,
-          patientPhone: entry.patientPhone
+        // Manual reminder from the front desk; queue state is unchanged
+        await prisma.waitlistEntry.update({
+          where: { id: waitlistId },
+          data: { lastNotifiedAt: new Date() }
         });
-        
         break;
 
       case 'promote':
-        // Promote to confirmed appointment
-        entry.status = 'CONFIRMED';
-        
-        // In a real implementation, this would create an appointment
-        console.log('Waitlist entry promoted to confirmed:', {
-          waitlistId,
-          patientName: entry.patientName
+        await service.promote(waitlistId, updates?.slot && {
+          ...updates.slot,
+          start: new Date(updates.slot.start),
+          end: new Date(updates.slot.end)
         });
-        
         break;
 
       case 'cancel':
-        // Cancel waitlist entry
-        entry.status = 'CANCELLED';
-        
-        console.log('Waitlist entry cancelled:', {
-          waitlistId,
-          reason: updates?.reason
-        });
-        
+        await service.leave(waitlistId, updates?.reason);
         break;
 
       case 'expire':
-        // Mark as expired
-        entry.status = 'EXPIRED';
-        
-        console.log('Waitlist entry expired:', {
-          waitlistId
-        });
-        
+        await service.expire(waitlistId);
         break;
 
       default:
         return NextResponse.json(
-          { 
-            success: false, 
+          {
+            success: false,
             error: 'Invalid action',
             validActions: ['notify', 'promote', 'cancel', 'expire']
           },
@@ -319,26 +313,7 @@ export async function PUT(request: NextRequest) {
         );
     }
 
-    // Apply updates
-    if (updates) {
-      Object.assign(entry, updates);
-    }
-
-    entry.joinedAt = entry.joinedAt; // Keep original join date
-
-    // Re-calculate positions for remaining entries
-    if (action === 'cancel' || action === 'expire' || action === 'promote') {
-      const remainingEntries = mockWaitlist
-        .filter(w => w.doctorId === entry.doctorId && w.status === 'WAITING' && w.id !== waitlistId)
-        .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
-
-      remainingEntries.forEach((entry, index) => {
-        entry.position = index + 1;
-        // Update estimated wait time
-        const estimatedWaitDays = Math.ceil((index + 1) / 3);
-        entry.estimatedWaitTime = `${estimatedWaitDays} day${estimatedWaitDays > 1 ? 's' : ''}`;
-      });
-    }
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id: waitlistId } });
 
     return NextResponse.json({
       success: true,
@@ -347,10 +322,11 @@ export async function PUT(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof WaitlistError) return waitlistErrorResponse(error);
     console.error('Error updating waitlist entry:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to update waitlist entry',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -362,54 +338,39 @@ export async function PUT(request: NextRequest) {
 // Remove from waitlist
 export async function DELETE(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
     const { searchParams } = new URL(request.url);
     const waitlistId = searchParams.get('waitlistId');
     const reason = searchParams.get('reason');
 
     if (!waitlistId) {
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           error: 'Missing waitlistId parameter'
         },
         { status: 400 }
       );
     }
 
-    const waitlistIndex = mockWaitlist.findIndex(w => w.id === waitlistId);
-
-    if (waitlistIndex === -1) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Waitlist entry not found'
-        },
-        { status: 404 }
-      );
+    if (!isStaffRole(session.user.role)) {
+      const existing = await prisma.waitlistEntry.findUnique({
+        where: { id: waitlistId },
+        select: { patientId: true }
+      });
+      if (!existing) {
+        return NextResponse.json(
+          { success: false, error: 'Waitlist entry not found' },
+          { status: 404 }
+        );
+      }
+      if (existing.patientId !== session.user.id) return forbidden();
     }
 
-    const entry = mockWaitlist[waitlistIndex];
-
-    // Update to cancelled status instead of removing
-    entry.status = 'CANCELLED';
-    entry.notes = entry.notes ? `${entry.notes}\nCancelled: ${reason}` : `Cancelled: ${reason}`;
-
-    // Re-calculate positions for remaining entries
-    const remainingEntries = mockWaitlist
-      .filter(w => w.doctorId === entry.doctorId && w.status === 'WAITING' && w.id !== waitlistId)
-      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
-
-    remainingEntries.forEach((entry, index) => {
-      entry.position = index + 1;
-      const estimatedWaitDays = Math.ceil((index + 1) / 3);
-      entry.estimatedWaitTime = `${estimatedWaitDays} day${estimatedWaitDays > 1 ? 's' : ''}`;
-    });
-
-    console.log('Waitlist entry removed:', {
-      waitlistId,
-      doctorId: entry.doctorId,
-      reason
-    });
+    const service = new WaitlistService(prisma);
+    await service.leave(waitlistId, reason ?? undefined);
 
     return NextResponse.json({
       success: true,
@@ -417,14 +378,15 @@ export async function DELETE(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof WaitlistError) return waitlistErrorResponse(error);
     console.error('Error removing from waitlist:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Failed to remove from waitlist',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -156,6 +156,7 @@ export const DoctorAvailabilityDashboard: React.FC<DoctorAvailabilityDashboardPr
     try {
       const result = await bookAppointment({
         doctorId,
+        clinicId,
         availabilityId: slot.id,
         appointmentType: 'regular',
         urgencyLevel: 'ROUTINE'
@@ -14,6 +14,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { DoctorAvailability, DoctorAppointmentStatus, AvailabilityType } from '@/types/doctor';
 import { apiClient } from '@/lib/api/client';
+import type { AlternativeSlot } from '@/lib/booking/service';
 import { useWebSocket } from './use-web-socket';
 
 interface SchedulingState {
@@ -28,6 +29,9 @@ interface SchedulingState {
 interface BookingRequest {
   doctorId: string;
   availabilityId: string;
+  clinicId?: string;
+  serviceId?: string;
+  idempotencyKey?: string;
   patientId?: string;
   patientInfo?: {
     name: string;
@@ -46,9 +50,9 @@ interface BookingResult {
   confirmationCode?: string;
   slotReleased?: boolean;
   conflictDetected?: boolean;
-  alternativeSlots?: DoctorAvailability[];
+  alternativeSlots?: AlternativeSlot[];
   waitlistPosition?: number;
-  estimatedWaitTime?: number;
+  estimatedWaitTime?: string;
   message?: string;
 }
 
@@ -0,0 +1,11 @@
+/**
+ * Session roles with staff access: they may act on any patient's records
+ */
+export const STAFF_ROLES = ['ADMIN', 'STAFF']
+
+/**
+ * Whether a session role is on the staff allow-list; any other role, or none, is a patient
+ */
+export function isStaffRole(role: unknown): boolean {
+  return typeof role === 'string' && STAFF_ROLES.includes(role)
+}
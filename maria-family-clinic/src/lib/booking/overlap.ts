@@ -0,0 +1,290 @@
+import type { AvailabilitySlotStatus, DayOfWeek } from '@prisma/client'
+import {
+  addDaysToKey,
+  atSingaporeTime,
+  dayOfWeekForKey,
+  isWithinOpeningHours,
+  singaporeDateKey,
+  type DayHours,
+} from '../clinic-hours/calendar'
+
+/**
+ * Booking overlap rules, kept free of database access so they can be unit tested.
+ * Days and "HH:mm" times are Singapore ones, whatever time zone the server runs in.
+ */
+
+export interface TimeInterval {
+  start: Date
+  end: Date
+}
+
+export type BookingConflictReason =
+  | 'APPOINTMENT' // Another appointment overlaps the slot
+  | 'RESERVATION' // Another patient is holding the slot
+  | 'WAITLIST_HOLD' // The slot is held for a waitlisted patient
+  | 'LEAVE' // The doctor is on approved leave
+  | 'UNAVAILABLE' // The doctor marked this time as blocked/unavailable
+  | 'OUTSIDE_AVAILABILITY' // The slot is not inside any published availability window
+  | 'OUTSIDE_SCHEDULE' // The slot is not inside the doctor's working schedule at the clinic
+  | 'CLINIC_CLOSED' // The clinic is closed then (weekly hours, public holiday or clinic exception)
+
+export interface BookingConflict {
+  reason: BookingConflictReason
+  message: string
+  start: Date
+  end: Date
+  referenceId?: string
+}
+
+export interface AppointmentInterval extends TimeInterval {
+  id: string
+}
+
+export interface LeaveRecord {
+  id: string
+  startDate: Date
+  endDate: Date
+  isHalfDay: boolean
+  startTime: string | null
+  endTime: string | null
+}
+
+export interface AvailabilityRecord {
+  id: string
+  clinicId: string | null
+  date: Date
+  startTime: string
+  endTime: string
+  isAvailable: boolean
+  status: AvailabilitySlotStatus
+}
+
+export interface ScheduleRecord {
+  id: string
+  dayOfWeek: DayOfWeek | null
+  specificDate: Date | null
+  startTime: string
+  endTime: string
+  breakStart: string | null
+  breakEnd: string | null
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  isActive: boolean
+}
+
+export interface BookingCalendar {
+  appointments: AppointmentInterval[]
+  reservations: AppointmentInterval[]
+  waitlistHolds: AppointmentInterval[]
+  leaves: LeaveRecord[]
+  availabilities: AvailabilityRecord[]
+  clinicDays?: Map<string, DayHours> // The slot's clinic, keyed by Singapore date
+}
+
+/**
+ * Half-open interval overlap: [a.start, a.end) intersects [b.start, b.end)
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end
+}
+
+/**
+ * The parts of `freed` that none of `booked` cover, keeping those at least `minMinutes`
+ * long. A moved appointment frees its old time minus wherever it now sits.
+ */
+export function freeIntervals(freed: TimeInterval, booked: TimeInterval[], minMinutes = 0): TimeInterval[] {
+  let pieces = [freed]
+  for (const taken of booked) {
+    pieces = pieces.flatMap(piece => {
+      if (!intervalsOverlap(piece, taken)) return [piece]
+      return [
+        { start: piece.start, end: taken.start },
+        { start: taken.end, end: piece.end },
+      ].filter(part => part.start < part.end)
+    })
+  }
+  return pieces.filter(piece => piece.end.getTime() - piece.start.getTime() >= minMinutes * 60_000)
+}
+
+/**
+ * Place an "HH:mm" Singapore time on the Singapore calendar day of `date`
+ */
+export function combineDateAndTime(date: Date, time: string): Date {
+  return atSingaporeTime(singaporeDateKey(date), time)
+}
+
+/**
+ * Time covered by a leave record. Full-day leave covers whole Singapore calendar days;
+ * half-day leave covers its stated hours on the start date.
+ */
+export function leaveInterval(leave: Omit<LeaveRecord, 'id'>): TimeInterval {
+  if (leave.isHalfDay && leave.startTime && leave.endTime) {
+    return {
+      start: combineDateAndTime(leave.startDate, leave.startTime),
+      end: combineDateAndTime(leave.startDate, leave.endTime),
+    }
+  }
+
+  return {
+    start: atSingaporeTime(singaporeDateKey(leave.startDate)),
+    end: atSingaporeTime(addDaysToKey(singaporeDateKey(leave.endDate), 1)),
+  }
+}
+
+export function availabilityInterval(availability: Pick<AvailabilityRecord, 'date' | 'startTime' | 'endTime'>): TimeInterval {
+  return {
+    start: combineDateAndTime(availability.date, availability.startTime),
+    end: combineDateAndTime(availability.date, availability.endTime),
+  }
+}
+
+function isOpenAvailability(availability: AvailabilityRecord): boolean {
+  return availability.isAvailable && availability.status === 'ACTIVE'
+}
+
+/**
+ * Every reason the slot cannot be booked at the given clinic (or any clinic when
+ * no clinic is given).
+ *
+ * Availability is only enforced when the doctor has published availability for that
+ * day at this clinic; doctors without availability records are bookable within
+ * their clinic's normal hours. Clinic hours are likewise only enforced when the clinic
+ * has hours on record.
+ */
+export function detectBookingConflicts(slot: TimeInterval & { clinicId?: string | null }, calendar: BookingCalendar): BookingConflict[] {
+  const conflicts: BookingConflict[] = []
+
+  for (const appointment of calendar.appointments) {
+    if (intervalsOverlap(slot, appointment)) {
+      conflicts.push({
+        reason: 'APPOINTMENT',
+        message: 'The selected time slot is already booked',
+        start: appointment.start,
+        end: appointment.end,
+        referenceId: appointment.id,
+      })
+    }
+  }
+
+  for (const reservation of calendar.reservations) {
+    if (intervalsOverlap(slot, reservation)) {
+      conflicts.push({
+        reason: 'RESERVATION',
+        message: 'The selected time slot is being booked by another patient',
+        start: reservation.start,
+        end: reservation.end,
+        referenceId: reservation.id,
+      })
+    }
+  }
+
+  for (const hold of calendar.waitlistHolds) {
+    if (intervalsOverlap(slot, hold)) {
+      conflicts.push({
+        reason: 'WAITLIST_HOLD',
+        message: 'The selected time slot is being held for a waitlisted patient',
+        start: hold.start,
+        end: hold.end,
+        referenceId: hold.id,
+      })
+    }
+  }
+
+  for (const leave of calendar.leaves) {
+    const interval = leaveInterval(leave)
+    if (intervalsOverlap(slot, interval)) {
+      conflicts.push({
+        reason: 'LEAVE',
+        message: 'The doctor is on leave at the selected time',
+        ...interval,
+        referenceId: leave.id,
+      })
+    }
+  }
+
+  const slotDay = singaporeDateKey(slot.start)
+  const clinicAvailability = calendar.availabilities.filter(
+    availability =>
+      singaporeDateKey(availability.date) === slotDay &&
+      (!slot.clinicId || availability.clinicId === null || availability.clinicId === slot.clinicId)
+  )
+
+  for (const availability of clinicAvailability) {
+    const interval = availabilityInterval(availability)
+    if (!isOpenAvailability(availability) && intervalsOverlap(slot, interval)) {
+      conflicts.push({
+        reason: 'UNAVAILABLE',
+        message: 'The doctor is not available at the selected time',
+        ...interval,
+        referenceId: availability.id,
+      })
+    }
+  }
+
+  const openWindows = clinicAvailability.filter(isOpenAvailability).map(availabilityInterval)
+  if (clinicAvailability.length > 0 && !openWindows.some(window => window.start <= slot.start && slot.end <= window.end)) {
+    conflicts.push({
+      reason: 'OUTSIDE_AVAILABILITY',
+      message: 'The selected time is outside the doctor\'s available hours',
+      start: slot.start,
+      end: slot.end,
+    })
+  }
+
+  const clinicDay = slot.clinicId ? calendar.clinicDays?.get(slotDay) : undefined
+  if (clinicDay && isWithinOpeningHours(slot, clinicDay) === false) {
+    conflicts.push({
+      reason: 'CLINIC_CLOSED',
+      message: clinicDay.label
+        ? `The clinic is closed at the selected time (${clinicDay.label})`
+        : 'The clinic is closed at the selected time',
+      start: slot.start,
+      end: slot.end,
+    })
+  }
+
+  return conflicts
+}
+
+/**
+ * Whether the slot falls inside the doctor's working schedule, outside any break.
+ * Like availability, the schedule is only enforced when the doctor has one.
+ */
+export function detectScheduleConflicts(slot: TimeInterval, schedules: ScheduleRecord[]): BookingConflict[] {
+  if (schedules.length === 0) return []
+
+  const slotDay = singaporeDateKey(slot.start)
+  const applicable = schedules.filter(
+    schedule =>
+      schedule.isActive &&
+      schedule.effectiveFrom <= slot.start &&
+      (!schedule.effectiveTo || schedule.effectiveTo >= slot.start) &&
+      (schedule.specificDate
+        ? singaporeDateKey(schedule.specificDate) === slotDay
+        : schedule.dayOfWeek === dayOfWeekForKey(slotDay))
+  )
+
+  const covered = applicable.some(schedule => {
+    const shift = {
+      start: combineDateAndTime(slot.start, schedule.startTime),
+      end: combineDateAndTime(slot.start, schedule.endTime),
+    }
+    const onBreak = schedule.breakStart && schedule.breakEnd
+      ? intervalsOverlap(slot, {
+          start: combineDateAndTime(slot.start, schedule.breakStart),
+          end: combineDateAndTime(slot.start, schedule.breakEnd),
+        })
+      : false
+
+    return shift.start <= slot.start && slot.end <= shift.end && !onBreak
+  })
+
+  if (covered) return []
+
+  return [{
+    reason: 'OUTSIDE_SCHEDULE',
+    message: 'The doctor is not scheduled to work at the selected time',
+    start: slot.start,
+    end: slot.end,
+  }]
+}
@@ -0,0 +1,44 @@
+/**
+ * Clinic booking policies, kept free of database access so they can be unit tested
+ */
+
+export interface ReschedulePolicy {
+  minRescheduleNoticeHours: number
+  maxReschedules: number
+}
+
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = {
+  minRescheduleNoticeHours: 24,
+  maxReschedules: 2,
+}
+
+/**
+ * Reasons the clinic's policy does not allow this appointment to be moved.
+ * Notice is measured against the current appointment time, not the new one.
+ */
+export function checkReschedulePolicy(
+  policy: ReschedulePolicy,
+  appointment: { appointmentDate: Date; rescheduleCount: number },
+  now: Date = new Date()
+): string[] {
+  const violations: string[] = []
+
+  const hoursUntilAppointment = (appointment.appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60)
+  if (hoursUntilAppointment < policy.minRescheduleNoticeHours) {
+    violations.push(
+      `Appointments can only be rescheduled at least ${policy.minRescheduleNoticeHours} hours in advance. Please contact the clinic directly.`
+    )
+  }
+
+  if (appointment.rescheduleCount >= policy.maxReschedules) {
+    violations.push(
+      `This appointment has already been rescheduled ${appointment.rescheduleCount} times, the maximum allowed by the clinic`
+    )
+  }
+
+  return violations
+}
+
+export function remainingReschedules(policy: ReschedulePolicy, rescheduleCount: number): number {
+  return Math.max(0, policy.maxReschedules - rescheduleCount)
+}
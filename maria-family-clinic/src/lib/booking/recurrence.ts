@@ -0,0 +1,204 @@
+import { SINGAPORE_OFFSET_MS, singaporeDateKey } from '../clinic-hours/calendar'
+
+/**
+ * RRULE-style recurrence for appointment series (subset of RFC 5545)
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY (weekly only) and BYMONTHDAY (monthly only). Occurrences keep the Singapore
+ * time of day of the series start, and days, weeks and months are Singapore ones.
+ * Months without the requested day are skipped, as in RFC 5545.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: number[] // 0 = Sunday
+  byMonthDay?: number[]
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurrenceRuleError'
+  }
+}
+
+// Upper bound on occurrences per series, whatever the rule says
+export const MAX_SERIES_OCCURRENCES = 52
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>()
+
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=')
+    if (!key || !value) {
+      throw new RecurrenceRuleError(`Invalid recurrence part "${part}"`)
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceRuleError('FREQ must be one of DAILY, WEEKLY, MONTHLY or YEARLY')
+  }
+
+  const interval = parts.has('INTERVAL') ? parsePositiveInt(parts.get('INTERVAL')!, 'INTERVAL') : 1
+  const count = parts.has('COUNT') ? parsePositiveInt(parts.get('COUNT')!, 'COUNT') : undefined
+  const until = parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : undefined
+
+  if (count !== undefined && until) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set')
+  }
+
+  if (count === undefined && !until) {
+    throw new RecurrenceRuleError('Either COUNT or UNTIL is required')
+  }
+
+  const result: RecurrenceRule = { freq, interval, count, until }
+
+  if (parts.has('BYDAY')) {
+    if (freq !== 'WEEKLY') throw new RecurrenceRuleError('BYDAY is only supported with FREQ=WEEKLY')
+    result.byDay = parts.get('BYDAY')!.split(',').map(day => {
+      const index = WEEKDAYS.indexOf(day)
+      if (index === -1) throw new RecurrenceRuleError(`Invalid BYDAY value "${day}"`)
+      return index
+    })
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    if (freq !== 'MONTHLY') throw new RecurrenceRuleError('BYMONTHDAY is only supported with FREQ=MONTHLY')
+    result.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map(day => {
+      const value = parsePositiveInt(day, 'BYMONTHDAY')
+      if (value > 31) throw new RecurrenceRuleError(`Invalid BYMONTHDAY value "${day}"`)
+      return value
+    })
+  }
+
+  return result
+}
+
+/**
+ * Occurrence start times for a series starting at `start`, the first of which is `start` itself
+ * when it matches the rule.
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: Date, limit = MAX_SERIES_OCCURRENCES): Date[] {
+  const maxCount = Math.min(rule.count ?? limit, limit)
+  const occurrences: Date[] = []
+  const wallStart = toSingaporeWallClock(start)
+
+  const accept = (candidate: Date) => {
+    if (candidate < start) return true
+    if (rule.until && candidate > rule.until) return false
+    occurrences.push(candidate)
+    return occurrences.length < maxCount
+  }
+
+  // Each period yields its candidates in order; stop once the count or UNTIL is reached
+  for (let period = 0; period < limit * 31; period++) {
+    for (const candidate of periodCandidates(rule, wallStart, period * rule.interval)) {
+      if (!accept(fromSingaporeWallClock(candidate))) return occurrences
+    }
+
+    const next = fromSingaporeWallClock(periodStart(rule.freq, wallStart, period * rule.interval))
+    if (rule.until && next > rule.until) break
+  }
+
+  return occurrences
+}
+
+/**
+ * Human-readable summary used in notifications and the series list
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq]
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+  const limit = rule.count !== undefined ? `, ${rule.count} times` : rule.until ? `, until ${singaporeDateKey(rule.until)}` : ''
+  return every + limit
+}
+
+// The helpers below work on Singapore wall-clock dates: instants shifted by the Singapore
+// offset and read with the UTC accessors, so the server's own time zone never applies
+function toSingaporeWallClock(instant: Date): Date {
+  return new Date(instant.getTime() + SINGAPORE_OFFSET_MS)
+}
+
+function fromSingaporeWallClock(wallClock: Date): Date {
+  return new Date(wallClock.getTime() - SINGAPORE_OFFSET_MS)
+}
+
+function periodCandidates(rule: RecurrenceRule, start: Date, offset: number): Date[] {
+  if (rule.freq === 'WEEKLY' && rule.byDay) {
+    const weekStart = addDaysKeepTime(start, offset * 7 - start.getUTCDay())
+    return [...rule.byDay].sort((a, b) => a - b).map(day => addDaysKeepTime(weekStart, day))
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const days = rule.byMonthDay ? [...rule.byMonthDay].sort((a, b) => a - b) : [start.getUTCDate()]
+    return days
+      .map(day => atMonthDay(start, offset, day))
+      .filter((date): date is Date => date !== null)
+  }
+
+  if (rule.freq === 'YEARLY') {
+    const date = atMonthDay(start, offset * 12, start.getUTCDate())
+    return date ? [date] : []
+  }
+
+  return [periodStart(rule.freq, start, offset)]
+}
+
+function periodStart(freq: RecurrenceFrequency, start: Date, offset: number): Date {
+  switch (freq) {
+    case 'DAILY':
+      return addDaysKeepTime(start, offset)
+    case 'WEEKLY':
+      return addDaysKeepTime(start, offset * 7)
+    case 'MONTHLY':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + offset, 1, start.getUTCHours(), start.getUTCMinutes()))
+    case 'YEARLY':
+      return new Date(Date.UTC(start.getUTCFullYear() + offset, 0, 1, start.getUTCHours(), start.getUTCMinutes()))
+  }
+}
+
+// Day `day` of the month `monthOffset` months after start, or null if that month is too short
+function atMonthDay(start: Date, monthOffset: number, day: number): Date | null {
+  const date = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + monthOffset, day, start.getUTCHours(), start.getUTCMinutes())
+  )
+  const expectedMonth = (((start.getUTCMonth() + monthOffset) % 12) + 12) % 12
+  return date.getUTCMonth() === expectedMonth ? date : null
+}
+
+function addDaysKeepTime(date: Date, days: number): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days, date.getUTCHours(), date.getUTCMinutes())
+  )
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new RecurrenceRuleError(`${name} must be a positive integer`)
+  }
+  return parsed
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value)
+  if (!match) {
+    throw new RecurrenceRuleError('UNTIL must be a date (YYYYMMDD) or date-time (YYYYMMDDTHHMMSSZ)')
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours ?? 23), Number(minutes ?? 59), Number(seconds ?? 59)] as const
+
+  // A floating UNTIL is read as Singapore time
+  return utc ? new Date(Date.UTC(...parts)) : fromSingaporeWallClock(new Date(Date.UTC(...parts)))
+}
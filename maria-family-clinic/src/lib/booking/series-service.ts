@@ -0,0 +1,508 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { addHours, addMinutes } from 'date-fns'
+import { isStaffRole } from '../auth/roles'
+import { WaitlistService } from '../waitlist/service'
+import {
+  combineDateAndTime,
+  detectBookingConflicts,
+  detectScheduleConflicts,
+  freeIntervals,
+  type BookingConflict,
+  type TimeInterval,
+} from './overlap'
+import { RecurrenceRuleError, describeRecurrence, expandRecurrence, parseRecurrenceRule } from './recurrence'
+import { BookingError, BookingService, loadBookingCalendar, runSerializable, type BookingActor } from './service'
+
+/**
+ * Appointment Series Service - Recurring appointments for chronic-care follow-ups
+ *
+ * A series expands an RRULE into occurrences. Each occurrence is checked against the
+ * doctor's schedule, leave, existing appointments and holds; free occurrences are
+ * booked as appointments and the rest are kept with their conflict report so staff
+ * can resolve them. Occurrences are linked to the patient's active Healthier SG
+ * enrollment and health goals at the time of the visit.
+ */
+
+export interface CreateSeriesInput {
+  patientId: string
+  clinicId: string
+  doctorId: string
+  serviceId: string
+  startDate: Date
+  recurrenceRule: string
+  notes?: string
+  programEnrollmentId?: string // Defaults to the patient's active enrollment per occurrence
+  healthGoalIds?: string[] // Defaults to the patient's open goals per occurrence
+  skipConflicts?: boolean // Book the free occurrences and report the rest (default)
+}
+
+export interface UpdateFutureOccurrencesInput {
+  fromDate?: Date
+  timeOfDay?: string // "HH:mm"
+  doctorId?: string
+  notes?: string
+}
+
+export interface OccurrencePlan {
+  sequence: number
+  start: Date
+  end: Date
+  conflicts: BookingConflict[]
+}
+
+interface CareLinks {
+  enrollments: { id: string; clinicId: string | null; effectiveFrom: Date; effectiveTo: Date | null }[]
+  goals: { id: string; targetDate: Date }[]
+}
+
+// Patients need this much notice to cancel; matches BookingService.cancel
+const PATIENT_CANCELLATION_NOTICE_HOURS = 24
+const OPEN_GOAL_STATUSES = ['ACTIVE', 'ON_TRACK', 'BEHIND_SCHEDULE'] as const
+
+export class AppointmentSeriesService {
+  private readonly bookings: BookingService
+
+  constructor(private readonly db: PrismaClient) {
+    this.bookings = new BookingService(db)
+  }
+
+  /**
+   * Expand the rule and report conflicts for each occurrence without booking anything
+   */
+  async preview(input: Omit<CreateSeriesInput, 'patientId'>) {
+    const dates = this.expand(input.recurrenceRule, input.startDate)
+    const { duration } = await this.bookings.validateRequest({ ...input, appointmentDate: input.startDate })
+
+    const occurrences = await planOccurrences(this.db, {
+      doctorId: input.doctorId,
+      clinicId: input.clinicId,
+      duration,
+      dates,
+    })
+
+    return {
+      summary: describeRecurrence(parseRecurrenceRule(input.recurrenceRule)),
+      occurrences,
+      bookable: occurrences.filter(o => o.conflicts.length === 0).length,
+      conflicted: occurrences.filter(o => o.conflicts.length > 0).length,
+    }
+  }
+
+  /**
+   * Create a series and book every occurrence that is free
+   */
+  async create(input: CreateSeriesInput, actor: BookingActor) {
+    if (!isStaffRole(actor.role) && input.patientId !== actor.userId) {
+      throw new BookingError('You can only book appointments for yourself', 'FORBIDDEN')
+    }
+
+    const dates = this.expand(input.recurrenceRule, input.startDate)
+    const { duration } = await this.bookings.validateRequest({ ...input, appointmentDate: input.startDate })
+
+    return runSerializable(this.db, async tx => {
+      const plans = await planOccurrences(tx, {
+        doctorId: input.doctorId,
+        clinicId: input.clinicId,
+        duration,
+        dates,
+      })
+
+      const conflicted = plans.filter(plan => plan.conflicts.length > 0)
+      if (conflicted.length > 0 && input.skipConflicts === false) {
+        throw new BookingError(
+          `${conflicted.length} of ${plans.length} occurrences conflict with the doctor's calendar`,
+          'CONFLICT',
+          conflicted.flatMap(plan => plan.conflicts)
+        )
+      }
+
+      if (input.programEnrollmentId) {
+        const enrollment = await tx.programEnrollment.findFirst({
+          where: { id: input.programEnrollmentId, userId: input.patientId },
+          select: { id: true },
+        })
+
+        if (!enrollment) {
+          throw new BookingError('Program enrollment not found for this patient', 'NOT_FOUND')
+        }
+      }
+
+      const care = await loadCareLinks(tx, input.patientId)
+
+      const series = await tx.appointmentSeries.create({
+        data: {
+          patientId: input.patientId,
+          clinicId: input.clinicId,
+          doctorId: input.doctorId,
+          serviceId: input.serviceId,
+          recurrenceRule: input.recurrenceRule,
+          startDate: input.startDate,
+          durationMinutes: duration,
+          programEnrollmentId: input.programEnrollmentId,
+          healthGoalIds: input.healthGoalIds ?? [],
+          notes: input.notes,
+          createdBy: actor.userId,
+        },
+      })
+
+      for (const plan of plans) {
+        const links = pickCareLinks(care, input.clinicId, plan.start)
+        const appointment = plan.conflicts.length === 0
+          ? await tx.appointment.create({
+              data: {
+                clinicId: input.clinicId,
+                doctorId: input.doctorId,
+                serviceId: input.serviceId,
+                patientId: input.patientId,
+                appointmentDate: plan.start,
+                notes: input.notes,
+                status: 'PENDING',
+              },
+              select: { id: true },
+            })
+          : null
+
+        await tx.appointmentSeriesOccurrence.create({
+          data: {
+            seriesId: series.id,
+            sequence: plan.sequence,
+            scheduledDate: plan.start,
+            status: appointment ? 'SCHEDULED' : 'CONFLICT',
+            appointmentId: appointment?.id,
+            conflicts: plan.conflicts as unknown as Prisma.InputJsonValue,
+            programEnrollmentId: input.programEnrollmentId ?? links.programEnrollmentId,
+            healthGoalIds: input.healthGoalIds ?? links.healthGoalIds,
+          },
+        })
+      }
+
+      return {
+        series,
+        booked: plans.length - conflicted.length,
+        conflicted: conflicted.length,
+        occurrences: plans,
+      }
+    })
+  }
+
+  /**
+   * A series with its occurrences in order
+   */
+  async get(seriesId: string, actor: BookingActor) {
+    const series = await this.db.appointmentSeries.findUnique({
+      where: { id: seriesId },
+      include: { occurrences: { orderBy: { sequence: 'asc' } } },
+    })
+
+    if (!series) {
+      throw new BookingError('Appointment series not found', 'NOT_FOUND')
+    }
+
+    assertSeriesAccess(series, actor)
+
+    return series
+  }
+
+  async listForPatient(patientId: string, status?: 'ACTIVE' | 'COMPLETED' | 'CANCELLED') {
+    return this.db.appointmentSeries.findMany({
+      where: { patientId, ...(status && { status }) },
+      include: { occurrences: { orderBy: { sequence: 'asc' } } },
+      orderBy: { startDate: 'desc' },
+    })
+  }
+
+  /**
+   * Move every booked occurrence from `fromDate` onwards to a new time of day and/or doctor.
+   * All occurrences move or none do.
+   */
+  async updateFutureOccurrences(seriesId: string, actor: BookingActor, input: UpdateFutureOccurrencesInput) {
+    const series = await this.get(seriesId, actor)
+
+    if (series.status !== 'ACTIVE') {
+      throw new BookingError('Only active series can be edited', 'BAD_REQUEST')
+    }
+
+    const now = new Date()
+    const from = input.fromDate && input.fromDate > now ? input.fromDate : now
+    const doctorId = input.doctorId ?? series.doctorId
+
+    if (doctorId !== series.doctorId) {
+      await this.bookings.validateRequest({
+        clinicId: series.clinicId,
+        doctorId,
+        serviceId: series.serviceId,
+        appointmentDate: addMinutes(now, 1),
+      })
+    }
+
+    const result = await runSerializable(this.db, async tx => {
+      const occurrences = await tx.appointmentSeriesOccurrence.findMany({
+        where: { seriesId, status: 'SCHEDULED', scheduledDate: { gte: from } },
+        orderBy: { sequence: 'asc' },
+      })
+
+      if (occurrences.length === 0) {
+        throw new BookingError('No future occurrences to update', 'BAD_REQUEST')
+      }
+
+      const dates = occurrences.map(occurrence =>
+        input.timeOfDay ? combineDateAndTime(occurrence.scheduledDate, input.timeOfDay) : occurrence.scheduledDate
+      )
+
+      const plans = await planOccurrences(tx, {
+        doctorId,
+        clinicId: series.clinicId,
+        duration: series.durationMinutes,
+        dates,
+        excludeAppointmentIds: occurrences.flatMap(o => (o.appointmentId ? [o.appointmentId] : [])),
+        sequences: occurrences.map(o => o.sequence),
+      })
+
+      const conflicted = plans.filter(plan => plan.conflicts.length > 0)
+      if (conflicted.length > 0) {
+        throw new BookingError(
+          `${conflicted.length} of ${plans.length} occurrences conflict with the doctor's calendar`,
+          'CONFLICT',
+          conflicted.flatMap(plan => plan.conflicts)
+        )
+      }
+
+      for (const [index, occurrence] of occurrences.entries()) {
+        const plan = plans[index]!
+
+        if (occurrence.appointmentId) {
+          await tx.appointment.update({
+            where: { id: occurrence.appointmentId },
+            data: {
+              appointmentDate: plan.start,
+              doctorId,
+              ...(input.notes !== undefined && { notes: input.notes }),
+            },
+          })
+        }
+
+        await tx.appointmentSeriesOccurrence.update({
+          where: { id: occurrence.id },
+          data: { scheduledDate: plan.start },
+        })
+      }
+
+      await tx.appointmentSeries.update({
+        where: { id: seriesId },
+        data: {
+          doctorId,
+          ...(input.notes !== undefined && { notes: input.notes }),
+        },
+      })
+
+      return { occurrences, plans }
+    })
+
+    const moved = result.occurrences.filter((occurrence, index) =>
+      occurrence.scheduledDate.getTime() !== result.plans[index]!.start.getTime() || doctorId !== series.doctorId
+    )
+
+    await this.offerFreedSlots(
+      series,
+      moved.map(occurrence => ({ appointmentId: occurrence.appointmentId, start: occurrence.scheduledDate })),
+      doctorId === series.doctorId ? result.plans : []
+    )
+
+    return { updated: result.plans.length, occurrences: result.plans }
+  }
+
+  /**
+   * Cancel every occurrence from `fromDate` onwards. Patients cannot cancel occurrences
+   * inside the clinic's cancellation notice window.
+   */
+  async cancelFutureOccurrences(seriesId: string, actor: BookingActor, input: { fromDate?: Date; reason?: string }) {
+    const series = await this.get(seriesId, actor)
+
+    if (series.status === 'CANCELLED') {
+      throw new BookingError('Appointment series is already cancelled', 'BAD_REQUEST')
+    }
+
+    const earliest = isStaffRole(actor.role) ? new Date() : addHours(new Date(), PATIENT_CANCELLATION_NOTICE_HOURS)
+    const from = input.fromDate && input.fromDate > earliest ? input.fromDate : earliest
+
+    const cancelled = await runSerializable(this.db, async tx => {
+      const occurrences = await tx.appointmentSeriesOccurrence.findMany({
+        where: { seriesId, status: { in: ['SCHEDULED', 'CONFLICT'] }, scheduledDate: { gte: from } },
+        orderBy: { sequence: 'asc' },
+      })
+
+      if (occurrences.length === 0) {
+        throw new BookingError('No future occurrences to cancel', 'BAD_REQUEST')
+      }
+
+      const appointmentIds = occurrences.flatMap(o => (o.appointmentId ? [o.appointmentId] : []))
+
+      await tx.appointment.updateMany({
+        where: { id: { in: appointmentIds }, status: { notIn: ['CANCELLED', 'COMPLETED'] } },
+        data: {
+          status: 'CANCELLED',
+          ...(input.reason ? { notes: input.reason } : {}),
+        },
+      })
+
+      await tx.appointmentSeriesOccurrence.updateMany({
+        where: { id: { in: occurrences.map(o => o.id) } },
+        data: { status: 'CANCELLED' },
+      })
+
+      const remaining = await tx.appointmentSeriesOccurrence.count({
+        where: { seriesId, status: 'SCHEDULED', scheduledDate: { gte: new Date() } },
+      })
+
+      if (remaining === 0) {
+        await tx.appointmentSeries.update({
+          where: { id: seriesId },
+          data: { status: 'CANCELLED', cancelledAt: new Date(), cancellationReason: input.reason },
+        })
+      }
+
+      return occurrences
+    })
+
+    await this.offerFreedSlots(
+      series,
+      cancelled.map(occurrence => ({ appointmentId: occurrence.appointmentId, start: occurrence.scheduledDate }))
+    )
+
+    return { cancelled: cancelled.length }
+  }
+
+  private expand(recurrenceRule: string, startDate: Date): Date[] {
+    try {
+      const dates = expandRecurrence(parseRecurrenceRule(recurrenceRule), startDate)
+      if (dates.length === 0) {
+        throw new BookingError('The recurrence rule does not produce any occurrences', 'BAD_REQUEST')
+      }
+      return dates
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw new BookingError(error.message, 'BAD_REQUEST')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Offer freed occurrence slots to the waitlist, leaving out any that the series' new
+   * times (`rebooked`, with the same doctor) still overlap
+   */
+  private async offerFreedSlots(
+    series: { doctorId: string; clinicId: string; serviceId: string; durationMinutes: number },
+    slots: { appointmentId: string | null; start: Date }[],
+    rebooked: TimeInterval[] = []
+  ) {
+    const waitlist = new WaitlistService(this.db)
+
+    for (const slot of slots) {
+      if (!slot.appointmentId || slot.start <= new Date()) continue
+
+      const [freed] = freeIntervals(
+        { start: slot.start, end: addMinutes(slot.start, series.durationMinutes) },
+        rebooked,
+        series.durationMinutes
+      )
+      if (!freed) continue
+
+      await waitlist.tryOfferFreedSlot({
+        doctorId: series.doctorId,
+        clinicId: series.clinicId,
+        serviceId: series.serviceId,
+        start: freed.start,
+        end: freed.end,
+        sourceAppointmentId: slot.appointmentId,
+      })
+    }
+  }
+}
+
+/**
+ * Conflict report for each occurrence, loading the doctor's calendar once for the whole series
+ */
+async function planOccurrences(
+  tx: Prisma.TransactionClient,
+  params: {
+    doctorId: string
+    clinicId: string
+    duration: number
+    dates: Date[]
+    excludeAppointmentIds?: string[]
+    sequences?: number[]
+  }
+): Promise<OccurrencePlan[]> {
+  const first = params.dates[0]!
+  const last = params.dates[params.dates.length - 1]!
+  const range = { start: first, end: addMinutes(last, params.duration) }
+
+  const [calendar, schedules] = await Promise.all([
+    loadBookingCalendar(tx, params.doctorId, range, { clinicId: params.clinicId }),
+    tx.doctorSchedule.findMany({
+      where: { doctorId: params.doctorId, doctorClinic: { clinicId: params.clinicId } },
+      select: {
+        id: true,
+        dayOfWeek: true,
+        specificDate: true,
+        startTime: true,
+        endTime: true,
+        breakStart: true,
+        breakEnd: true,
+        effectiveFrom: true,
+        effectiveTo: true,
+        isActive: true,
+      },
+    }),
+  ])
+
+  const excluded = new Set(params.excludeAppointmentIds ?? [])
+  calendar.appointments = calendar.appointments.filter(appointment => !excluded.has(appointment.id))
+
+  return params.dates.map((start, index) => {
+    const slot = { clinicId: params.clinicId, start, end: addMinutes(start, params.duration) }
+    const conflicts = [...detectBookingConflicts(slot, calendar), ...detectScheduleConflicts(slot, schedules)]
+
+    // Later occurrences must not collide with earlier ones in the same series
+    if (conflicts.length === 0) {
+      calendar.appointments.push({ id: `occurrence-${index + 1}`, start: slot.start, end: slot.end })
+    }
+
+    return { sequence: params.sequences?.[index] ?? index + 1, start, end: slot.end, conflicts }
+  })
+}
+
+async function loadCareLinks(tx: Prisma.TransactionClient, patientId: string): Promise<CareLinks> {
+  const [enrollments, goals] = await Promise.all([
+    tx.programEnrollment.findMany({
+      where: { userId: patientId, status: 'ACTIVE' },
+      select: { id: true, clinicId: true, effectiveFrom: true, effectiveTo: true },
+    }),
+    tx.healthGoal.findMany({
+      where: { healthProfile: { userId: patientId }, status: { in: [...OPEN_GOAL_STATUSES] } },
+      select: { id: true, targetDate: true },
+    }),
+  ])
+
+  return { enrollments, goals }
+}
+
+// The enrollment in force on the visit date (preferring one at this clinic) and goals still open by then
+function pickCareLinks(care: CareLinks, clinicId: string, date: Date) {
+  const active = care.enrollments.filter(
+    enrollment => enrollment.effectiveFrom <= date && (!enrollment.effectiveTo || enrollment.effectiveTo >= date)
+  )
+  const enrollment = active.find(e => e.clinicId === clinicId) ?? active[0]
+
+  return {
+    programEnrollmentId: enrollment?.id ?? null,
+    healthGoalIds: care.goals.filter(goal => goal.targetDate >= date).map(goal => goal.id),
+  }
+}
+
+function assertSeriesAccess(series: { patientId: string }, actor: BookingActor) {
+  if (!isStaffRole(actor.role) && series.patientId !== actor.userId) {
+    throw new BookingError('Access denied to this appointment series', 'FORBIDDEN')
+  }
+}
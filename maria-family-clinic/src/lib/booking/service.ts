@@ -0,0 +1,785 @@
+import { Prisma, type PrismaClient, type SlotReservation } from '@prisma/client'
+import { addMinutes, subMinutes } from 'date-fns'
+import { isStaffRole } from '../auth/roles'
+import { WaitlistService } from '../waitlist/service'
+import { addDaysToKey, atSingaporeTime, formatSingaporeDateTime, fromMinutes, singaporeDateKey, singaporeMinutes } from '../clinic-hours/calendar'
+import { loadClinicDays } from '../clinic-hours/service'
+import { queueNotification } from '../notifications/queue'
+import {
+  availabilityInterval,
+  detectBookingConflicts,
+  freeIntervals,
+  type BookingCalendar,
+  type BookingConflict,
+  type TimeInterval,
+} from './overlap'
+import { DEFAULT_RESCHEDULE_POLICY, checkReschedulePolicy, remainingReschedules, type ReschedulePolicy } from './policy'
+
+/**
+ * Booking Service - Race-free appointment booking ("reserve then confirm")
+ *
+ * A booking first places a short SlotReservation hold and then confirms it into an
+ * appointment. Both steps re-check the slot inside a serializable transaction against
+ * overlapping appointments, other holds, waitlist offers, approved leave, the doctor's
+ * published availability and the clinic's opening hours (including public holidays
+ * and clinic closures), so two concurrent requests cannot both succeed.
+ * Client-supplied idempotency keys make retried requests return the original booking.
+ */
+
+export type { BookingConflict, BookingConflictReason, TimeInterval } from './overlap'
+export type { ReschedulePolicy } from './policy'
+
+export interface BookingRequest {
+  clinicId: string
+  doctorId: string
+  serviceId: string
+  patientId: string
+  appointmentDate: Date
+  symptoms?: string
+  notes?: string
+  isUrgent?: boolean
+  idempotencyKey?: string
+}
+
+export interface ConfirmReservationDetails {
+  symptoms?: string
+  notes?: string
+  isUrgent?: boolean
+}
+
+export interface ConflictCheckOptions {
+  excludeAppointmentId?: string
+  excludeReservationId?: string
+  excludeWaitlistOfferId?: string
+  clinicId?: string | null // Also load the clinic's opening hours
+}
+
+export interface BookingActor {
+  userId: string
+  role: string
+}
+
+export interface AlternativeSlot {
+  availabilityId: string
+  doctorId: string
+  clinicId: string
+  serviceId: string
+  date: string
+  startTime: string
+  endTime: string
+  start: Date
+  end: Date
+}
+
+export interface RescheduleInput {
+  newDate: Date
+  doctorId?: string
+  reason?: string
+}
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'CONFLICT' | 'BAD_REQUEST' | 'FORBIDDEN',
+    public readonly conflicts: BookingConflict[] = []
+  ) {
+    super(message)
+    this.name = 'BookingError'
+  }
+}
+
+export const RESERVATION_HOLD_MINUTES = 5
+export const DEFAULT_ALTERNATIVE_SLOTS = 5
+export const ALTERNATIVE_SEARCH_DAYS = 7
+
+// Longest appointment we expect; bounds how far back overlapping appointments can start
+const MAX_APPOINTMENT_MINUTES = 8 * 60
+const MAX_TRANSACTION_ATTEMPTS = 3
+
+/**
+ * Everything that can block a booking for a doctor within `range`
+ */
+export async function loadBookingCalendar(
+  tx: Prisma.TransactionClient,
+  doctorId: string,
+  range: TimeInterval,
+  options: ConflictCheckOptions = {}
+): Promise<BookingCalendar> {
+  const now = new Date()
+  const overlapping = { slotStart: { lt: range.end }, slotEnd: { gt: range.start } }
+  // Singapore calendar days the range touches; its end is exclusive
+  const firstDay = singaporeDateKey(range.start)
+  const lastDay = singaporeDateKey(new Date(range.end.getTime() - 1))
+
+  const [appointments, reservations, waitlistHolds, leaves, availabilities, clinicDays] = await Promise.all([
+    tx.appointment.findMany({
+      where: {
+        doctorId,
+        appointmentDate: { gte: subMinutes(range.start, MAX_APPOINTMENT_MINUTES), lt: range.end },
+        status: { not: 'CANCELLED' },
+        ...(options.excludeAppointmentId && { id: { not: options.excludeAppointmentId } }),
+      },
+      select: { id: true, appointmentDate: true, service: { select: { duration: true } } },
+    }),
+    tx.slotReservation.findMany({
+      where: {
+        doctorId,
+        status: 'HELD',
+        expiresAt: { gt: now },
+        ...overlapping,
+        ...(options.excludeReservationId && { id: { not: options.excludeReservationId } }),
+      },
+      select: { id: true, slotStart: true, slotEnd: true },
+    }),
+    tx.waitlistOffer.findMany({
+      where: {
+        doctorId,
+        status: 'PENDING',
+        holdExpiresAt: { gt: now },
+        ...overlapping,
+        ...(options.excludeWaitlistOfferId && { id: { not: options.excludeWaitlistOfferId } }),
+      },
+      select: { id: true, slotStart: true, slotEnd: true },
+    }),
+    tx.doctorLeave.findMany({
+      where: {
+        doctorId,
+        status: 'APPROVED',
+        startDate: { lte: range.end },
+        endDate: { gte: atSingaporeTime(firstDay) },
+      },
+      select: { id: true, startDate: true, endDate: true, isHalfDay: true, startTime: true, endTime: true },
+    }),
+    tx.doctorAvailability.findMany({
+      where: {
+        doctorId,
+        date: { gte: atSingaporeTime(firstDay), lt: atSingaporeTime(addDaysToKey(lastDay, 1)) },
+      },
+      select: {
+        id: true,
+        clinicId: true,
+        date: true,
+        startTime: true,
+        endTime: true,
+        isAvailable: true,
+        status: true,
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    }),
+    options.clinicId
+      ? loadClinicDays(tx, [options.clinicId], firstDay, lastDay).then(days =>
+          days.get(options.clinicId!)
+        )
+      : undefined,
+  ])
+
+  return {
+    appointments: appointments.map(appointment => ({
+      id: appointment.id,
+      start: appointment.appointmentDate,
+      end: addMinutes(appointment.appointmentDate, appointment.service.duration),
+    })),
+    reservations: reservations.map(toInterval),
+    waitlistHolds: waitlistHolds.map(toInterval),
+    leaves,
+    availabilities,
+    clinicDays,
+  }
+}
+
+/**
+ * Every reason the slot cannot be booked, read inside the caller's transaction
+ */
+export async function findBookingConflicts(
+  tx: Prisma.TransactionClient,
+  slot: TimeInterval & { doctorId: string; clinicId?: string | null },
+  options: ConflictCheckOptions = {}
+): Promise<BookingConflict[]> {
+  const calendar = await loadBookingCalendar(tx, slot.doctorId, slot, { clinicId: slot.clinicId, ...options })
+  return detectBookingConflicts(slot, calendar)
+}
+
+export class BookingService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly holdMinutes: number = RESERVATION_HOLD_MINUTES
+  ) {}
+
+  /**
+   * Hold a slot for the patient while they finish booking
+   */
+  async reserve(request: BookingRequest): Promise<SlotReservation> {
+    const { duration } = await this.validateRequest(request)
+    const slot = {
+      doctorId: request.doctorId,
+      clinicId: request.clinicId,
+      start: request.appointmentDate,
+      end: addMinutes(request.appointmentDate, duration),
+    }
+
+    return runSerializable(this.db, async tx => {
+      if (request.idempotencyKey) {
+        const existing = await tx.slotReservation.findUnique({
+          where: {
+            patientId_idempotencyKey: {
+              patientId: request.patientId,
+              idempotencyKey: request.idempotencyKey,
+            },
+          },
+        })
+
+        if (existing) {
+          if (!isSameRequest(existing, request)) {
+            throw new BookingError('Idempotency key was already used for a different booking', 'CONFLICT')
+          }
+
+          if (existing.status === 'CONFIRMED' || (existing.status === 'HELD' && existing.expiresAt > new Date())) {
+            return existing
+          }
+
+          // The earlier attempt lapsed; the key is free to start a new hold
+          await tx.slotReservation.delete({ where: { id: existing.id } })
+        }
+      }
+
+      const conflicts = await findBookingConflicts(tx, slot)
+      if (conflicts.length > 0) {
+        throw new BookingError(conflicts[0]!.message, 'CONFLICT', conflicts)
+      }
+
+      return tx.slotReservation.create({
+        data: {
+          doctorId: request.doctorId,
+          clinicId: request.clinicId,
+          serviceId: request.serviceId,
+          patientId: request.patientId,
+          slotStart: slot.start,
+          slotEnd: slot.end,
+          expiresAt: addMinutes(new Date(), this.holdMinutes),
+          idempotencyKey: request.idempotencyKey,
+        },
+      })
+    })
+  }
+
+  /**
+   * Turn a held slot into a PENDING appointment
+   */
+  async confirm(reservationId: string, patientId: string, details: ConfirmReservationDetails = {}) {
+    return runSerializable(this.db, async tx => {
+      const reservation = await tx.slotReservation.findUnique({ where: { id: reservationId } })
+
+      if (!reservation) {
+        throw new BookingError('Reservation not found', 'NOT_FOUND')
+      }
+
+      if (reservation.patientId !== patientId) {
+        throw new BookingError('Access denied to this reservation', 'FORBIDDEN')
+      }
+
+      if (reservation.status === 'CONFIRMED' && reservation.appointmentId) {
+        return { appointmentId: reservation.appointmentId, reservationId, replayed: true }
+      }
+
+      if (reservation.status !== 'HELD' || reservation.expiresAt <= new Date()) {
+        throw new BookingError('The reservation has expired, please select the slot again', 'BAD_REQUEST')
+      }
+
+      const conflicts = await findBookingConflicts(
+        tx,
+        {
+          doctorId: reservation.doctorId,
+          clinicId: reservation.clinicId,
+          start: reservation.slotStart,
+          end: reservation.slotEnd,
+        },
+        { excludeReservationId: reservation.id }
+      )
+      if (conflicts.length > 0) {
+        throw new BookingError(conflicts[0]!.message, 'CONFLICT', conflicts)
+      }
+
+      const appointment = await tx.appointment.create({
+        data: {
+          clinicId: reservation.clinicId,
+          doctorId: reservation.doctorId,
+          serviceId: reservation.serviceId,
+          patientId: reservation.patientId,
+          appointmentDate: reservation.slotStart,
+          symptoms: details.symptoms,
+          notes: details.notes,
+          isUrgent: details.isUrgent ?? false,
+          status: 'PENDING',
+        },
+        select: { id: true },
+      })
+
+      await tx.slotReservation.update({
+        where: { id: reservation.id },
+        data: { status: 'CONFIRMED', appointmentId: appointment.id, confirmedAt: new Date() },
+      })
+
+      return { appointmentId: appointment.id, reservationId, replayed: false }
+    })
+  }
+
+  /**
+   * Give up a held slot before it expires
+   */
+  async release(reservationId: string, patientId: string) {
+    const reservation = await this.db.slotReservation.findUnique({ where: { id: reservationId } })
+
+    if (!reservation) {
+      throw new BookingError('Reservation not found', 'NOT_FOUND')
+    }
+
+    if (reservation.patientId !== patientId) {
+      throw new BookingError('Access denied to this reservation', 'FORBIDDEN')
+    }
+
+    const { count } = await this.db.slotReservation.updateMany({
+      where: { id: reservationId, status: 'HELD' },
+      data: { status: 'RELEASED', releasedAt: new Date() },
+    })
+
+    return { released: count > 0 }
+  }
+
+  /**
+   * Reserve and confirm in one call. Retrying with the same idempotency key returns
+   * the appointment created by the first successful attempt.
+   */
+  async book(request: BookingRequest) {
+    const reservation = await this.reserve(request)
+
+    if (reservation.status === 'CONFIRMED' && reservation.appointmentId) {
+      return { appointmentId: reservation.appointmentId, reservationId: reservation.id, replayed: true }
+    }
+
+    try {
+      return await this.confirm(reservation.id, request.patientId, request)
+    } catch (error) {
+      // Don't leave the slot held if confirmation fails
+      await this.db.slotReservation.updateMany({
+        where: { id: reservation.id, status: 'HELD' },
+        data: { status: 'RELEASED', releasedAt: new Date() },
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Mark lapsed holds as expired; conflict checks already ignore them, this keeps the table tidy
+   */
+  async expireStaleReservations(now: Date = new Date()) {
+    const { count } = await this.db.slotReservation.updateMany({
+      where: { status: 'HELD', expiresAt: { lte: now } },
+      data: { status: 'EXPIRED', releasedAt: now },
+    })
+
+    return { expired: count }
+  }
+
+  /**
+   * Open slots for the same doctor, clinic and service from the requested time onwards
+   */
+  async suggestAlternativeSlots(
+    request: Pick<BookingRequest, 'doctorId' | 'clinicId' | 'serviceId' | 'appointmentDate'>,
+    limit = DEFAULT_ALTERNATIVE_SLOTS
+  ): Promise<AlternativeSlot[]> {
+    const service = await this.db.service.findUnique({
+      where: { id: request.serviceId },
+      select: { duration: true },
+    })
+    if (!service) return []
+
+    const now = new Date()
+    const from = request.appointmentDate > now ? request.appointmentDate : now
+    const fromDay = singaporeDateKey(from)
+    const range = { start: atSingaporeTime(fromDay), end: atSingaporeTime(addDaysToKey(fromDay, ALTERNATIVE_SEARCH_DAYS + 1)) }
+    const calendar = await loadBookingCalendar(this.db, request.doctorId, range, { clinicId: request.clinicId })
+
+    const windows = calendar.availabilities.filter(
+      availability =>
+        availability.isAvailable &&
+        availability.status === 'ACTIVE' &&
+        (availability.clinicId === null || availability.clinicId === request.clinicId)
+    )
+
+    const suggestions: AlternativeSlot[] = []
+
+    for (const window of windows) {
+      const { start: windowStart, end: windowEnd } = availabilityInterval(window)
+
+      for (let start = windowStart; addMinutes(start, service.duration) <= windowEnd; start = addMinutes(start, service.duration)) {
+        if (start <= now || start.getTime() === request.appointmentDate.getTime()) continue
+
+        const slot = { clinicId: request.clinicId, start, end: addMinutes(start, service.duration) }
+        if (detectBookingConflicts(slot, calendar).length > 0) continue
+
+        suggestions.push({
+          availabilityId: window.id,
+          doctorId: request.doctorId,
+          clinicId: request.clinicId,
+          serviceId: request.serviceId,
+          date: singaporeDateKey(start),
+          startTime: fromMinutes(singaporeMinutes(start)),
+          endTime: fromMinutes(singaporeMinutes(slot.end)),
+          start,
+          end: slot.end,
+        })
+
+        if (suggestions.length >= limit) return suggestions
+      }
+    }
+
+    return suggestions
+  }
+
+  /**
+   * Cancel an appointment and offer the freed slot to the doctor's waitlist
+   */
+  async cancel(appointmentId: string, actor: BookingActor, reason?: string) {
+    const appointment = await this.db.appointment.findUnique({
+      where: { id: appointmentId },
+      select: {
+        id: true,
+        patientId: true,
+        doctorId: true,
+        clinicId: true,
+        serviceId: true,
+        appointmentDate: true,
+        status: true,
+        service: {
+          select: {
+            duration: true,
+          },
+        },
+      },
+    })
+
+    if (!appointment) {
+      throw new BookingError('Appointment not found', 'NOT_FOUND')
+    }
+
+    const isPatient = !isStaffRole(actor.role)
+
+    if (isPatient && appointment.patientId !== actor.userId) {
+      throw new BookingError('You can only cancel your own appointments', 'FORBIDDEN')
+    }
+
+    if (appointment.status === 'CANCELLED') {
+      throw new BookingError('Appointment is already cancelled', 'BAD_REQUEST')
+    }
+
+    if (appointment.status === 'COMPLETED') {
+      throw new BookingError('Cannot cancel completed appointments', 'BAD_REQUEST')
+    }
+
+    // Patients must cancel at least 24 hours ahead; staff can cancel at any time
+    const hoursUntilAppointment = (appointment.appointmentDate.getTime() - Date.now()) / (1000 * 60 * 60)
+    if (hoursUntilAppointment < 24 && isPatient) {
+      throw new BookingError(
+        'Appointments can only be cancelled at least 24 hours in advance. Please contact the clinic directly.',
+        'BAD_REQUEST'
+      )
+    }
+
+    // Conditional update so a concurrent cancellation doesn't offer the slot twice
+    const { count } = await this.db.appointment.updateMany({
+      where: { id: appointmentId, status: { not: 'CANCELLED' } },
+      data: {
+        status: 'CANCELLED',
+        ...(reason ? { notes: reason } : {}),
+      },
+    })
+
+    if (count === 0) {
+      throw new BookingError('Appointment is already cancelled', 'BAD_REQUEST')
+    }
+
+    // Offer the freed slot to the next eligible patient on the doctor's waitlist
+    let waitlistOfferId: string | null = null
+    if (appointment.appointmentDate > new Date()) {
+      const offer = await new WaitlistService(this.db).tryOfferFreedSlot({
+        doctorId: appointment.doctorId,
+        clinicId: appointment.clinicId,
+        serviceId: appointment.serviceId,
+        start: appointment.appointmentDate,
+        end: addMinutes(appointment.appointmentDate, appointment.service.duration),
+        sourceAppointmentId: appointment.id,
+      })
+      waitlistOfferId = offer?.id ?? null
+    }
+
+    return { success: true, waitlistOfferId }
+  }
+
+  /**
+   * Move an appointment to a new time, freeing the old slot and taking the new one in
+   * one transaction. Patients are held to the clinic's reschedule policy; staff may
+   * override it, which is recorded in the history.
+   */
+  async reschedule(appointmentId: string, actor: BookingActor, input: RescheduleInput) {
+    const result = await runSerializable(this.db, async tx => {
+      const appointment = await tx.appointment.findUnique({
+        where: { id: appointmentId },
+        select: {
+          id: true,
+          patientId: true,
+          doctorId: true,
+          clinicId: true,
+          serviceId: true,
+          appointmentDate: true,
+          status: true,
+          service: {
+            select: {
+              duration: true,
+            },
+          },
+        },
+      })
+
+      if (!appointment) {
+        throw new BookingError('Appointment not found', 'NOT_FOUND')
+      }
+
+      const isPatient = !isStaffRole(actor.role)
+
+      if (isPatient && appointment.patientId !== actor.userId) {
+        throw new BookingError('You can only reschedule your own appointments', 'FORBIDDEN')
+      }
+
+      if (appointment.status !== 'PENDING' && appointment.status !== 'CONFIRMED') {
+        throw new BookingError('Only pending or confirmed appointments can be rescheduled', 'BAD_REQUEST')
+      }
+
+      if (input.newDate <= new Date()) {
+        throw new BookingError('Appointment date must be in the future', 'BAD_REQUEST')
+      }
+
+      const doctorId = input.doctorId ?? appointment.doctorId
+
+      if (doctorId === appointment.doctorId && input.newDate.getTime() === appointment.appointmentDate.getTime()) {
+        throw new BookingError('The appointment is already booked for this time', 'BAD_REQUEST')
+      }
+
+      if (doctorId !== appointment.doctorId) {
+        const clinicDoctorRelationship = await tx.doctor.findFirst({
+          where: { id: doctorId, clinics: { some: { id: appointment.clinicId } } },
+          select: { id: true },
+        })
+
+        if (!clinicDoctorRelationship) {
+          throw new BookingError('Doctor does not work at the selected clinic', 'BAD_REQUEST')
+        }
+      }
+
+      const [policy, rescheduleCount] = await Promise.all([
+        getReschedulePolicy(tx, appointment.clinicId),
+        tx.appointmentReschedule.count({ where: { appointmentId } }),
+      ])
+
+      const violations = checkReschedulePolicy(policy, {
+        appointmentDate: appointment.appointmentDate,
+        rescheduleCount,
+      })
+
+      if (violations.length > 0 && isPatient) {
+        throw new BookingError(violations[0]!, 'BAD_REQUEST')
+      }
+
+      const newSlot = {
+        doctorId,
+        clinicId: appointment.clinicId,
+        start: input.newDate,
+        end: addMinutes(input.newDate, appointment.service.duration),
+      }
+
+      const conflicts = await findBookingConflicts(tx, newSlot, { excludeAppointmentId: appointmentId })
+      if (conflicts.length > 0) {
+        throw new BookingError(conflicts[0]!.message, 'CONFLICT', conflicts)
+      }
+
+      await tx.appointment.update({
+        where: { id: appointmentId },
+        data: { appointmentDate: input.newDate, doctorId },
+      })
+
+      const history = await tx.appointmentReschedule.create({
+        data: {
+          appointmentId,
+          previousDate: appointment.appointmentDate,
+          newDate: input.newDate,
+          previousDoctorId: appointment.doctorId,
+          newDoctorId: doctorId,
+          reason: input.reason,
+          rescheduledBy: actor.userId,
+          rescheduledByRole: actor.role,
+          policyOverridden: violations.length > 0,
+        },
+      })
+
+      return {
+        appointment,
+        history,
+        rescheduleCount: rescheduleCount + 1,
+        remainingReschedules: remainingReschedules(policy, rescheduleCount + 1),
+      }
+    })
+
+    const { appointment, history } = result
+
+    await this.notifyRescheduled(appointment.patientId, history.previousDate, history.newDate, appointmentId)
+
+    // Offer the freed slot to the next eligible patient on the doctor's waitlist, unless
+    // the new time still covers part of it
+    const duration = appointment.service.duration
+    const [freed] = freeIntervals(
+      { start: appointment.appointmentDate, end: addMinutes(appointment.appointmentDate, duration) },
+      history.newDoctorId === appointment.doctorId
+        ? [{ start: history.newDate, end: addMinutes(history.newDate, duration) }]
+        : [],
+      duration
+    )
+    let waitlistOfferId: string | null = null
+    if (freed && freed.start > new Date()) {
+      const offer = await new WaitlistService(this.db).tryOfferFreedSlot({
+        doctorId: appointment.doctorId,
+        clinicId: appointment.clinicId,
+        serviceId: appointment.serviceId,
+        start: freed.start,
+        end: freed.end,
+        sourceAppointmentId: appointment.id,
+      })
+      waitlistOfferId = offer?.id ?? null
+    }
+
+    return {
+      appointmentId,
+      history,
+      rescheduleCount: result.rescheduleCount,
+      remainingReschedules: result.remainingReschedules,
+      waitlistOfferId,
+    }
+  }
+
+  /**
+   * Reschedule history for an appointment, oldest first
+   */
+  async getRescheduleHistory(appointmentId: string) {
+    return this.db.appointmentReschedule.findMany({
+      where: { appointmentId },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Reschedule policy in force at a clinic
+   */
+  async getReschedulePolicy(clinicId: string): Promise<ReschedulePolicy> {
+    return getReschedulePolicy(this.db, clinicId)
+  }
+
+  async updateReschedulePolicy(clinicId: string, policy: ReschedulePolicy, updatedBy: string) {
+    return this.db.clinicBookingPolicy.upsert({
+      where: { clinicId },
+      create: { clinicId, ...policy, updatedBy },
+      update: { ...policy, updatedBy },
+    })
+  }
+
+  private async notifyRescheduled(patientId: string, previousDate: Date, newDate: Date, appointmentId: string) {
+    await queueNotification(this.db, {
+      userId: patientId,
+      type: 'STATUS_UPDATE',
+      channel: 'SMS',
+      priority: 'NORMAL',
+      title: 'Appointment rescheduled',
+      message: `Your appointment on ${formatSingaporeDateTime(previousDate)} has been moved to ${formatSingaporeDateTime(newDate)}.`,
+      actionUrl: `/appointments/${appointmentId}`,
+      actionText: 'View appointment',
+    })
+  }
+
+  /**
+   * Check the request can be booked at all: future date, doctor and service at the clinic
+   */
+  async validateRequest(request: Pick<BookingRequest, 'clinicId' | 'doctorId' | 'serviceId' | 'appointmentDate'>) {
+    if (request.appointmentDate <= new Date()) {
+      throw new BookingError('Appointment date must be in the future', 'BAD_REQUEST')
+    }
+
+    const service = await this.db.service.findUnique({
+      where: { id: request.serviceId },
+      select: { duration: true },
+    })
+
+    if (!service) {
+      throw new BookingError('Service not found', 'NOT_FOUND')
+    }
+
+    const [clinicDoctorRelationship, clinicService] = await Promise.all([
+      this.db.doctor.findFirst({
+        where: { id: request.doctorId, clinics: { some: { id: request.clinicId } } },
+        select: { id: true },
+      }),
+      this.db.clinic.findFirst({
+        where: { id: request.clinicId, services: { some: { id: request.serviceId } } },
+        select: { id: true },
+      }),
+    ])
+
+    if (!clinicDoctorRelationship) {
+      throw new BookingError('Doctor does not work at the selected clinic', 'BAD_REQUEST')
+    }
+
+    if (!clinicService) {
+      throw new BookingError('Service is not offered at the selected clinic', 'BAD_REQUEST')
+    }
+
+    return service
+  }
+}
+
+/**
+ * Run `fn` in a serializable transaction, retrying when Postgres aborts it for a
+ * concurrent conflicting write
+ */
+export async function runSerializable<T>(db: PrismaClient, fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    } catch (error) {
+      if (attempt < MAX_TRANSACTION_ATTEMPTS && isRetryableTransactionError(error)) continue
+      throw error
+    }
+  }
+}
+
+async function getReschedulePolicy(tx: Prisma.TransactionClient, clinicId: string): Promise<ReschedulePolicy> {
+  const policy = await tx.clinicBookingPolicy.findUnique({
+    where: { clinicId },
+    select: { minRescheduleNoticeHours: true, maxReschedules: true },
+  })
+
+  return policy ?? DEFAULT_RESCHEDULE_POLICY
+}
+
+function toInterval(hold: { id: string; slotStart: Date; slotEnd: Date }) {
+  return { id: hold.id, start: hold.slotStart, end: hold.slotEnd }
+}
+
+function isSameRequest(reservation: SlotReservation, request: BookingRequest): boolean {
+  return (
+    reservation.doctorId === request.doctorId &&
+    reservation.clinicId === request.clinicId &&
+    reservation.serviceId === request.serviceId &&
+    reservation.slotStart.getTime() === request.appointmentDate.getTime()
+  )
+}
+
+// P2034: serialization failure/deadlock; P2002: a concurrent retry won the idempotency key
+function isRetryableTransactionError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && ['P2034', 'P2002'].includes(error.code)
+}
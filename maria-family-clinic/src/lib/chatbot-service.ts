@@ -6,16 +6,18 @@ import {
   ChatbotInteraction,
   MedicalSpecialty 
 } from '../lib/types/multi-channel-contact'
+import { OfflineNluProvider, type NluProvider, type NluResult } from './chatbot/nlu'
 
 // NLP and Intent Recognition Service
 export class ChatbotService {
   private medicalKnowledge: MedicalKnowledgeBase
-  private intents: IntentPatterns
   private entities: EntityExtractor
   
-  constructor() {
+  /**
+   * @param nlu - Intent, language and FAQ recognition; defaults to the bundled offline model
+   */
+  constructor(readonly nlu: NluProvider = new OfflineNluProvider()) {
     this.medicalKnowledge = new MedicalKnowledgeBase()
-    this.intents = new IntentPatterns()
     this.entities = new EntityExtractor()
   }
   
@@ -33,50 +35,10 @@ export class ChatbotService {
       // 1. Preprocess the message
       const processedMessage = this.preprocessMessage(userMessage)
       
-      // 2. Extract intent
-      const intentResult = await this.intents.recognize(processedMessage.text, context.language)
-      
-      // 3. Extract entities
-      const entityResult = this.entities.extract(processedMessage.text, context.clinicId)
-      
-      // 4. Analyze sentiment
-      const sentiment = this.analyzeSentiment(processedMessage.text)
-      
-      // 5. Check for medical keywords
-      const medicalContext = this.medicalKnowledge.analyzeContext(processedMessage.text)
-      
-      // 6. Determine response strategy
-      const responseStrategy = this.determineResponseStrategy(
-        intentResult, 
-        sentiment, 
-        medicalContext, 
-        context
-      )
-      
-      // 7. Generate response content
-      const response = await this.generateResponse(
-        responseStrategy,
-        intentResult,
-        entityResult,
-        medicalContext,
-        context
-      )
-      
-      const processingTime = Date.now() - startTime
+      // 2. Recognise intent, language and FAQ match
+      const analysis = await this.nlu.analyze(processedMessage.text, { language: context.language })
       
-      return {
-        ...response,
-        metadata: {
-          intent: intentResult.intent,
-          confidence: intentResult.confidence,
-          sentiment,
-          entities: entityResult,
-          medicalContext,
-          processingTime,
-          escalationTriggered: response.escalationRequired,
-          responseType: response.type
-        }
-      }
+      return await this.respond(processedMessage.text, analysis, context, startTime)
     } catch (error) {
       console.error('Chatbot processing error:', error)
       
@@ -90,6 +52,75 @@ export class ChatbotService {
     }
   }
   
+  /**
+   * Build the response for a message the NLU provider has already analysed
+   */
+  async respond(
+    text: string,
+    analysis: NluResult,
+    context: ChatContext,
+    startTime: number = Date.now()
+  ): Promise<ChatbotResponse> {
+    const intentResult: IntentResult = {
+      intent: analysis.intent,
+      confidence: analysis.confidence,
+      originalText: text
+    }
+    const language = analysis.language
+    
+    // 3. Extract entities
+    const entityResult = this.entities.extract(text, context.clinicId)
+    
+    // 4. Analyze sentiment
+    const sentiment = this.analyzeSentiment(text)
+    
+    // 5. Check for medical keywords
+    const medicalContext = this.medicalKnowledge.analyzeContext(text)
+    
+    // 6. Determine response strategy
+    const responseStrategy = this.determineResponseStrategy(
+      intentResult, 
+      sentiment, 
+      medicalContext, 
+      context,
+      analysis
+    )
+    
+    // 7. Decide whether a live agent should take over
+    const escalation = this.shouldEscalate(text, intentResult.intent, sentiment, medicalContext, context)
+    
+    // 8. Generate response content
+    const response = await this.generateResponse(
+      responseStrategy,
+      intentResult,
+      entityResult,
+      medicalContext,
+      { ...context, language },
+      analysis
+    )
+    
+    const processingTime = Date.now() - startTime
+    
+    return {
+      ...response,
+      escalationRequired: response.escalationRequired || escalation.shouldEscalate,
+      metadata: {
+        intent: intentResult.intent,
+        confidence: intentResult.confidence,
+        language,
+        nluProvider: this.nlu.name,
+        faq: analysis.faq,
+        sentiment,
+        entities: entityResult,
+        medicalContext,
+        processingTime,
+        escalation,
+        escalationTriggered: response.escalationRequired || escalation.shouldEscalate,
+        responseType: response.type
+      }
+    }
+  }
+  
   /**
    * Check if message requires escalation
    */
@@ -97,7 +128,8 @@ export class ChatbotService {
     message: string, 
     intent: MessageIntent, 
     sentiment: MessageSentiment,
-    medicalContext: MedicalContext
+    medicalContext: MedicalContext,
+    context?: ChatContext
   ): { shouldEscalate: boolean; reason: string; level: EscalationLevel } {
     
     // Emergency medical situations
@@ -136,6 +168,24 @@ export class ChatbotService {
       }
     }
     
+    // The customer asked for a person
+    if (intent === MessageIntent.ESCALATION) {
+      return {
+        shouldEscalate: true,
+        reason: 'customer_request',
+        level: EscalationLevel.L1_AGENT
+      }
+    }
+    
+    // Complaints and frustration
+    if (intent === MessageIntent.COMPLAINT || sentiment === MessageSentiment.NEGATIVE) {
+      return {
+        shouldEscalate: true,
+        reason: 'negative_sentiment',
+        level: EscalationLevel.L1_AGENT
+      }
+    }
+    
     // Multiple failed attempts or low confidence
     if (context?.failedAttempts && context.failedAttempts >= 2) {
       return {
@@ -152,16 +202,10 @@ export class ChatbotService {
    * Get FAQ response
    */
   async getFAQResponse(question: string, language: string = 'en'): Promise<string | null> {
-    const faq = this.medicalKnowledge.getFAQ()
-    const matches = faq.filter(item => 
-      this.calculateSimilarity(question.toLowerCase(), item.question.toLowerCase()) > 0.7
-    )
+    const { faq } = await this.nlu.analyze(question, { language })
+    const item = faq && this.medicalKnowledge.getFAQ().find(entry => entry.id === faq.id)
     
-    if (matches.length > 0) {
-      return matches[0].answer[language] || matches[0].answer['en']
-    }
-    
-    return null
+    return item ? item.answer[language] || item.answer['en'] || null : null
   }
   
   /**
@@ -296,33 +340,15 @@ export class ChatbotService {
     // Remove extra whitespace and normalize
     const text = message.trim().replace(/\s+/g, ' ')
     
-    // Extract language
-    const language = this.detectLanguage(text)
-    
     // Clean and tokenize
     const tokens = text.toLowerCase().split(/\s+/)
     
     return {
       text,
-      tokens,
-      language
+      tokens
     }
   }
   
-  private detectLanguage(text: string): string {
-    // Simple language detection - can be enhanced with more sophisticated methods
-    const englishWords = ['hello', 'hi', 'appointment', 'doctor', 'clinic', 'help', 'thank', 'bye']
-    const chineseWords = ['你好', '预约', '医生', '诊所', '帮助', '谢谢', '再见']
-    const malayWords = ['hello', 'appointment', 'doktor', 'klinik', 'bantuan', 'terima kasih', 'selamat tinggal']
-    
-    const lowerText = text.toLowerCase()
-    
-    if (chineseWords.some(word => lowerText.includes(word))) return 'zh'
-    if (malayWords.some(word => lowerText.includes(word))) return 'ms'
-    
-    return 'en'
-  }
-  
   private analyzeSentiment(text: string): MessageSentiment {
     const positiveWords = ['good', 'great', 'excellent', 'wonderful', 'amazing', 'love', 'perfect', 'thank']
     const negativeWords = ['bad', 'terrible', 'awful', 'horrible', 'hate', 'worst', 'angry', 'frustrated', 'disappointed']
@@ -368,21 +394,12 @@ export class ChatbotService {
     return urgentKeywords.some(keyword => lowerMessage.includes(keyword))
   }
   
-  private calculateSimilarity(str1: string, str2: string): number {
-    // Simple Jaccard similarity - can be enhanced with more sophisticated algorithms
-    const set1 = new Set(str1.split(' '))
-    const set2 = new Set(str2.split(' '))
-    const intersection = new Set([...set1].filter(x => set2.has(x)))
-    const union = new Set([...set1, ...set2])
-    
-    return intersection.size / union.size
-  }
-  
   private determineResponseStrategy(
     intent: IntentResult,
     sentiment: MessageSentiment,
     medicalContext: MedicalContext,
-    context: ChatContext
+    context: ChatContext,
+    analysis?: NluResult
   ): ResponseStrategy {
     
     // Emergency situations
@@ -395,6 +412,16 @@ export class ChatbotService {
       return { type: 'booking', priority: 'high' }
     }
     
+    // Requests for a person
+    if (intent.intent === MessageIntent.ESCALATION) {
+      return { type: 'escalation', priority: 'normal' }
+    }
+    
+    // Questions the FAQ answers
+    if (analysis?.faq) {
+      return { type: 'faq', priority: 'normal' }
+    }
+    
     // Information requests
     if (intent.intent === MessageIntent.INFORMATION) {
       return { type: 'information', priority: 'normal' }
@@ -410,6 +437,10 @@ export class ChatbotService {
       return { type: 'greeting', priority: 'low' }
     }
     
+    if (intent.intent === MessageIntent.GOODBYE) {
+      return { type: 'goodbye', priority: 'low' }
+    }
+    
     // Default
     return { type: 'general', priority: 'normal' }
   }
@@ -419,7 +450,8 @@ export class ChatbotService {
     intent: IntentResult,
     entities: EntityResult,
     medicalContext: MedicalContext,
-    context: ChatContext
+    context: ChatContext,
+    analysis?: NluResult
   ): Promise<ChatbotResponse> {
     
     switch (strategy.type) {
@@ -447,9 +479,43 @@ export class ChatbotService {
           ]
         }
       
+      case 'escalation':
+        return {
+          content: "Of course. I'll connect you with one of our staff members, who will see our conversation so far.",
+          type: ChatbotResponseType.ESCALATION,
+          confidence: intent.confidence,
+          escalationRequired: true,
+          actions: [
+            { type: 'escalate', data: { reason: 'customer_request' } }
+          ]
+        }
+      
+      case 'faq': {
+        const item = this.medicalKnowledge.getFAQ().find(entry => entry.id === analysis?.faq?.id)
+        if (item) {
+          return {
+            content: item.answer[context.language] || item.answer['en'] || item.question,
+            type: ChatbotResponseType.FAQ,
+            confidence: analysis!.faq!.similarity,
+            escalationRequired: false,
+            actions: [{ type: 'faq', data: { faqId: item.id } }]
+          }
+        }
+        return this.getClinicInfoResponse(intent, entities, context)
+      }
+      
       case 'greeting':
         return this.getGreetingResponse(context)
       
+      case 'goodbye':
+        return {
+          content: "Thank you for contacting My Family Clinic! If you need anything else, feel free to reach out. Have a great day!",
+          type: ChatbotResponseType.GOODBYE,
+          confidence: intent.confidence,
+          escalationRequired: false,
+          actions: []
+        }
+      
       default:
         return {
           content: "I'm here to help you with any questions about My Family Clinic. You can ask about our services, book an appointment, get clinic information, or request to speak with a staff member.",
@@ -469,7 +535,6 @@ export class ChatbotService {
 interface ProcessedMessage {
   text: string
   tokens: string[]
-  language: string
 }
 
 interface IntentResult {
@@ -497,11 +562,12 @@ interface MedicalContext {
 }
 
 interface ResponseStrategy {
-  type: 'emergency' | 'booking' | 'information' | 'complaint' | 'greeting' | 'general'
+  type: 'emergency' | 'booking' | 'information' | 'faq' | 'complaint' | 'escalation' | 'greeting' | 'goodbye' | 'general'
   priority: 'low' | 'normal' | 'high' | 'critical'
 }
 
 export interface ChatContext {
+  sessionId?: string
   clinicId?: string
   doctorId?: string
   serviceId?: string
@@ -530,93 +596,6 @@ export interface ChatbotResponse {
   metadata?: Record<string, any>
 }
 
-// Intent Recognition
-class IntentPatterns {
-  private patterns: Map<MessageIntent, RegExp[]> = new Map()
-  
-  constructor() {
-    this.initializePatterns()
-  }
-  
-  private initializePatterns() {
-    this.patterns.set(MessageIntent.GREETING, [
-      /^(hi|hello|hey|good morning|good afternoon|good evening|greetings)/i,
-      /^(hi there|hello there|hey there)/i
-    ])
-    
-    this.patterns.set(MessageIntent.APPOINTMENT, [
-      /(book|schedule|make|arrange).*(appointment|consultation)/i,
-      /appointment|consultation|check up|medical check/i,
-      /(available|free).*(time|slot|schedule)/i,
-      /(when|what time|which time).*(available|open)/i
-    ])
-    
-    this.patterns.set(MessageIntent.EMERGENCY, [
-      /(emergency|urgent|immediately|critical|severe)/i,
-      /(chest pain|difficulty breathing|unconscious|severe bleeding)/i,
-      /(stroke|heart attack|seizure|broken bone)/i,
-      /call 911|call emergency|help me/i
-    ])
-    
-    this.patterns.set(MessageIntent.INFORMATION, [
-      /(clinic|location|address|where).*(located|situated)/i,
-      /(hours|open|close|when).*(clinic|open)/i,
-      /(price|cost|fee|insurance).*(how much|what)/i,
-      /(service|what do you|what can you).*(offer|do|help)/i
-    ])
-    
-    this.patterns.set(MessageIntent.COMPLAINT, [
-      /(not satisfied|disappointed|unhappy|problem|issue)/i,
-      /(complain|complaint|feedback)/i,
-      /(terrible|bad|awful|horrible|worst)/i
-    ])
-  }
-  
-  async recognize(text: string, language: string = 'en'): Promise(IntentResult> {
-    const lowerText = text.toLowerCase()
-    
-    // Check each intent pattern
-    for (const [intent, patterns] of this.patterns) {
-      for (const pattern of patterns) {
-        if (pattern.test(lowerText)) {
-          return {
-            intent,
-            confidence: this.calculateConfidence(pattern, lowerText),
-            originalText: text
-          }
-        }
-      }
-    }
-    
-    // Default intent with low confidence
-    return {
-      intent: MessageIntent.UNKNOWN,
-      confidence: 0.3,
-      originalText: text
-    }
-  }
-  
-  private calculateConfidence(pattern: RegExp, text: string): number {
-    const match = pattern.exec(text)
-    if (!match) return 0.1
-    
-    // Confidence based on match position and length
-    const matchStart = match.index
-    const matchLength = match[0].length
-    const textLength = text.length
-    
-    let confidence = 0.7
-    
-    // Boost confidence for early matches (user intent clear from start)
-    if (matchStart < textLength * 0.2) confidence += 0.2
-    
-    // Boost confidence for complete matches
-    if (matchLength === textLength) confidence += 0.1
-    
-    return Math.min(confidence, 1.0)
-  }
-}
-
 // Entity Extraction
 class EntityExtractor {
   private patterns: Map<string, RegExp[]> = new Map()
@@ -710,7 +689,7 @@ class EntityExtractor {
 }
 
 // Medical Knowledge Base
-class MedicalKnowledgeBase {
+export class MedicalKnowledgeBase {
   private faq: FAQItem[] = []
   private services: ServiceInfo[] = []
   private locations: LocationInfo[] = []
@@ -724,7 +703,9 @@ class MedicalKnowledgeBase {
     // FAQ data
     this.faq = [
       {
+        id: "clinic-hours",
         question: "What are your clinic hours?",
+        paraphrases: ["When are you open?", "What time do you close today?", "Are you open on Sunday?", "营业时间是什么时候？", "Klinik buka pukul berapa?"],
         answer: {
           en: "We're open Monday to Friday 8am-8pm, Saturday 9am-5pm, and Sunday 10am-4pm. We're closed on public holidays.",
           zh: "我们周一至周五上午8点至晚上8点，周六上午9点至下午5点，周日上午10点至下午4点。公共假期关闭。",
@@ -732,7 +713,9 @@ class MedicalKnowledgeBase {
         }
       },
       {
+        id: "insurance",
         question: "Do you accept insurance?",
+        paraphrases: ["Can I use Medisave?", "Is Medishield accepted?", "Do you take my company insurance?", "可以用保险吗？", "Boleh guna insurans?"],
         answer: {
           en: "Yes, we accept most insurance plans including Medisave, Medishield, and private insurance.",
           zh: "是的，我们接受大多数保险计划，包括医疗储蓄、医疗保险和私人保险。",
@@ -740,7 +723,9 @@ class MedicalKnowledgeBase {
         }
       },
       {
+        id: "consultation-fee",
         question: "How much does a consultation cost?",
+        paraphrases: ["What is the consultation fee?", "How much to see a doctor?", "What are your prices?", "看医生多少钱？", "Berapa yuran konsultasi?"],
         answer: {
           en: "Our consultation fees start from $40. Please call for specific pricing as it varies by service.",
           zh: "我们的咨询费用从40新元起。请致电咨询具体价格，因为不同服务价格不同。",
@@ -833,7 +818,9 @@ class MedicalKnowledgeBase {
 }
 
 interface FAQItem {
+  id: string
   question: string
+  paraphrases: string[] // Other ways patients ask it, used to train the NLU model
   answer: Record<string, string> // language -> answer
 }
 
@@ -0,0 +1,165 @@
+import { terms, tokenize } from '@/lib/service-search/text'
+
+/**
+ * Chatbot Classifiers - Multinomial naive Bayes and TF-IDF nearest-neighbour models
+ *
+ * Both train from labelled text into plain JSON so the trained model can ship with the
+ * app and be loaded without a network call. Log-probabilities and weights are rounded
+ * to keep the file small; the rounding error is far below the gap between labels.
+ */
+
+export interface TrainingExample {
+  text: string
+  label: string
+}
+
+export interface NaiveBayesModel {
+  labels: string[]
+  priors: number[] // log P(label)
+  likelihoods: Record<string, number[]> // term → log P(term | label), per label
+}
+
+export interface LabelScore {
+  label: string
+  probability: number
+}
+
+export interface Prediction {
+  scores: LabelScore[] // Most probable first
+  coverage: number // Share of the text's features the model has seen
+}
+
+export interface NearestNeighbourIndex {
+  idf: Record<string, number>
+  entries: { id: string; weights: Record<string, number> }[] // Unit-length TF-IDF vectors
+}
+
+export type FeatureExtractor = (text: string) => string[]
+
+const PRECISION = 10_000
+
+/** Content words, stemmed, Han text as bigrams */
+export const contentFeatures: FeatureExtractor = text => terms(text)
+
+/** Every word including stopwords, which carry most of the signal for telling languages apart */
+export const languageFeatures: FeatureExtractor = text => tokenize(text, true).map(token => token.term)
+
+/**
+ * `alpha` is the additive smoothing. Training sets here are small and most terms occur
+ * under one label only, so a light touch keeps single-word messages ("hello") decisive.
+ */
+export function trainNaiveBayes(examples: TrainingExample[], features: FeatureExtractor, alpha = 0.1): NaiveBayesModel {
+  const labels = [...new Set(examples.map(example => example.label))].sort()
+  const labelIndex = new Map(labels.map((label, i) => [label, i]))
+  const documents = labels.map(() => 0)
+  const totals = labels.map(() => 0)
+  const counts = new Map<string, number[]>()
+
+  for (const example of examples) {
+    const i = labelIndex.get(example.label)!
+    documents[i]!++
+    for (const term of features(example.text)) {
+      const row = counts.get(term) ?? labels.map(() => 0)
+      row[i]!++
+      totals[i]!++
+      counts.set(term, row)
+    }
+  }
+
+  const vocabularySize = counts.size
+  const likelihoods: Record<string, number[]> = {}
+  for (const term of [...counts.keys()].sort()) {
+    likelihoods[term] = counts
+      .get(term)!
+      .map((count, i) => round(Math.log((count + alpha) / (totals[i]! + alpha * vocabularySize))))
+  }
+
+  return {
+    labels,
+    priors: documents.map(count => round(Math.log(count / examples.length))),
+    likelihoods,
+  }
+}
+
+/**
+ * Posterior over the model's labels. Terms the model never saw are ignored; when none
+ * are known the priors come back with zero coverage.
+ */
+export function predictNaiveBayes(model: NaiveBayesModel, features: string[]): Prediction {
+  const logScores = [...model.priors]
+  let known = 0
+  for (const term of features) {
+    const row = model.likelihoods[term]
+    if (!row) continue
+    known++
+    row.forEach((logLikelihood, i) => (logScores[i]! += logLikelihood))
+  }
+
+  // Softmax in log space
+  const max = Math.max(...logScores)
+  const exp = logScores.map(score => Math.exp(score - max))
+  const sum = exp.reduce((total, value) => total + value, 0)
+
+  return {
+    scores: model.labels
+      .map((label, i) => ({ label, probability: exp[i]! / sum }))
+      .sort((a, b) => b.probability - a.probability),
+    coverage: features.length > 0 ? known / features.length : 0,
+  }
+}
+
+export function buildNearestNeighbourIndex(examples: TrainingExample[], features: FeatureExtractor): NearestNeighbourIndex {
+  const documents = examples.map(example => ({ id: example.label, terms: features(example.text) }))
+  const documentFrequency = new Map<string, number>()
+  for (const document of documents) {
+    for (const term of new Set(document.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+  }
+
+  const idf: Record<string, number> = {}
+  for (const term of [...documentFrequency.keys()].sort()) {
+    idf[term] = round(Math.log(1 + documents.length / documentFrequency.get(term)!))
+  }
+
+  return {
+    idf,
+    entries: documents.map(document => ({ id: document.id, weights: tfidf(document.terms, idf) })),
+  }
+}
+
+/**
+ * Closest entry by cosine similarity. Several entries may share an id (paraphrases of
+ * the same FAQ), in which case the best of them counts.
+ */
+export function nearestNeighbour(index: NearestNeighbourIndex, features: string[]): { id: string; similarity: number } | null {
+  const query = tfidf(features, index.idf)
+  let best: { id: string; similarity: number } | null = null
+  for (const entry of index.entries) {
+    let similarity = 0
+    for (const [term, weight] of Object.entries(query)) {
+      similarity += weight * (entry.weights[term] ?? 0)
+    }
+    if (similarity > 0 && (!best || similarity > best.similarity)) {
+      best = { id: entry.id, similarity: Math.round(similarity * 1000) / 1000 }
+    }
+  }
+  return best
+}
+
+function tfidf(features: string[], idf: Record<string, number>): Record<string, number> {
+  const weights: Record<string, number> = {}
+  for (const term of features) {
+    if (idf[term] === undefined) continue
+    weights[term] = (weights[term] ?? 0) + idf[term]!
+  }
+  const norm = Math.sqrt(Object.values(weights).reduce((total, weight) => total + weight * weight, 0))
+  for (const term of Object.keys(weights)) {
+    weights[term] = round(weights[term]! / norm)
+  }
+  return weights
+}
+
+function round(value: number): number {
+  return Math.round(value * PRECISION) / PRECISION
+}
@@ -0,0 +1,620 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { ChatbotResponseType, MessageIntent } from '@/lib/types/multi-channel-contact'
+import { ChatbotService, type ChatbotResponse } from '@/lib/chatbot-service'
+import { BookingService } from '@/lib/booking/service'
+import { SINGAPORE_TIME_ZONE, addDaysToKey, atSingaporeTime } from '@/lib/clinic-hours/calendar'
+import { LiveChatQueueService } from '@/lib/live-chat/service'
+import {
+  INITIAL_DIALOGUE_STATE,
+  advanceBookingDialogue,
+  type BookingSlots,
+  type DialogueStage,
+  type DialogueState,
+  type DialogueStep,
+} from './dialogue'
+import { DAY_PERIODS } from './entities'
+import {
+  appendTranscript,
+  handoffDecision,
+  summarizeEntities,
+  trailingFallbacks,
+  type EscalationCheck,
+  type TranscriptEntry,
+  type TurnEntities,
+} from './handoff'
+import type { NluResult } from './nlu'
+
+/**
+ * Chatbot Conversation Service - Stateful chat turns on top of `ChatbotService`
+ *
+ * Keeps each chat session's dialogue state in ChatbotConversationState so a booking
+ * can be put together over several messages ("book with Dr Tan" → "tomorrow morning"
+ * → "yes"). Booking turns are handled here: the doctor is looked up by name, the first
+ * open slot in the requested window is proposed, and on confirmation the appointment
+ * is made through `bookAppointment` (the appointment router's `create`). Every other
+ * turn is answered by `ChatbotService`.
+ *
+ * When the bot escalates (an emergency, urgent symptoms, a complaint, or a request
+ * for a person) the conversation is handed to the live-chat queue with its transcript
+ * and entities. Until an agent closes that chat the bot only relays further messages.
+ */
+
+export interface ConversationTurn {
+  sessionId: string
+  message: string
+  userId?: string | null
+  language?: string // UI language; the patient's own messages take over once they say enough
+  clinicId?: string // Clinic page the chat was opened from, preferred for the booking
+  customerName?: string // Shown to the agent on handoff
+  customerEmail?: string
+}
+
+export interface AppointmentBookingRequest {
+  clinicId: string
+  doctorId: string
+  serviceId: string
+  appointmentDate: Date
+  idempotencyKey: string
+}
+
+export type AppointmentBooker = (request: AppointmentBookingRequest) => Promise<{ id: string }>
+
+export type SlotFinder = (request: {
+  doctorId: string
+  clinicId: string
+  serviceId: string
+  from: Date
+}) => Promise<{ start: Date; end: Date }[]>
+
+export interface ChatbotConversationOptions {
+  chatbot?: ChatbotService
+  bookAppointment?: AppointmentBooker // Not available to visitors who have not signed in
+  findSlots?: SlotFinder
+  liveChat?: LiveChatQueueService
+  now?: () => Date
+}
+
+export interface ConversationReply extends ChatbotResponse {
+  sessionId: string
+  stage: DialogueStage
+  language: string
+  appointmentId?: string
+  liveChat?: { queuePosition: number | null; priority: string } // Set once handed to an agent
+}
+
+export class ChatbotConversationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'FORBIDDEN'
+  ) {
+    super(message)
+    this.name = 'ChatbotConversationError'
+  }
+}
+
+/** Conversations idle for longer than this start afresh */
+export const CONVERSATION_IDLE_MINUTES = 30
+
+const MAX_DOCTOR_MATCHES = 5
+const SLOT_SEARCH_LIMIT = 50
+
+type PromptLanguage = 'en' | 'zh' | 'ms'
+
+interface PromptValues {
+  doctor?: string
+  doctors?: string
+  when?: string
+  clinic?: string
+  position?: number | null
+}
+
+const PROMPTS: Record<PromptLanguage, Record<string, (values: PromptValues) => string>> = {
+  en: {
+    askDoctor: () => 'Which doctor would you like to see?',
+    doctorNotFound: ({ doctor }) => `I couldn't find a doctor called ${doctor} who is taking bookings. Which doctor would you like to see?`,
+    whichDoctor: ({ doctors }) => `I found several doctors with that name: ${doctors}. Which one would you like?`,
+    askWhen: ({ doctor }) => `When would you like to see ${doctor}? For example "tomorrow morning" or "Friday at 3pm".`,
+    noSlots: ({ doctor, when }) => `${doctor} has no free slots ${when}. Would another day suit you?`,
+    propose: ({ doctor, when, clinic }) => `${doctor} is free ${when} at ${clinic}. Shall I book it?`,
+    slotTaken: () => 'Sorry, that slot has just been taken.',
+    replyYesNo: () => 'Please reply "yes" to book it or "no" to cancel.',
+    signIn: () => 'Please sign in to confirm the booking, then reply "yes" here.',
+    booked: ({ doctor, when, clinic }) => `You're booked with ${doctor} ${when} at ${clinic}. We'll send you a reminder.`,
+    bookingFailed: () => "I couldn't complete the booking just now. Let me connect you with our staff.",
+    cancelled: () => "No problem, I haven't booked anything.",
+    handedOff: ({ position }) =>
+      position
+        ? `I've passed our conversation to our staff. You're number ${position} in the queue and an agent will join this chat shortly.`
+        : "I've passed our conversation to our staff. An agent will join this chat shortly.",
+    relayed: () => "Thanks, I've passed that on. An agent will join this chat shortly.",
+  },
+  zh: {
+    askDoctor: () => '您想预约哪位医生？',
+    doctorNotFound: ({ doctor }) => `找不到可预约的${doctor}医生。您想预约哪位医生？`,
+    whichDoctor: ({ doctors }) => `有几位医生同名：${doctors}。您想预约哪一位？`,
+    askWhen: ({ doctor }) => `您想什么时候见${doctor}？例如"明天上午"或"星期五下午3点"。`,
+    noSlots: ({ doctor, when }) => `${doctor}${when}没有空档。其他日子可以吗？`,
+    propose: ({ doctor, when, clinic }) => `${doctor}${when}在${clinic}有空档。要帮您预约吗？`,
+    slotTaken: () => '抱歉，这个时段刚被预约了。',
+    replyYesNo: () => '请回复"好"确认预约，或回复"不"取消。',
+    signIn: () => '请先登录以确认预约，然后在这里回复"好"。',
+    booked: ({ doctor, when, clinic }) => `已为您预约${doctor}，${when}，地点${clinic}。我们会发送提醒给您。`,
+    bookingFailed: () => '暂时无法完成预约，我为您转接工作人员。',
+    cancelled: () => '好的，没有为您预约。',
+    handedOff: ({ position }) =>
+      position ? `我已将对话转交给工作人员。您目前排在第${position}位，客服人员很快会加入对话。` : '我已将对话转交给工作人员，客服人员很快会加入对话。',
+    relayed: () => '谢谢，我已转告工作人员。客服人员很快会加入对话。',
+  },
+  ms: {
+    askDoctor: () => 'Doktor mana yang anda ingin jumpa?',
+    doctorNotFound: ({ doctor }) => `Saya tidak menemui doktor bernama ${doctor} yang menerima temujanji. Doktor mana yang anda ingin jumpa?`,
+    whichDoctor: ({ doctors }) => `Terdapat beberapa doktor dengan nama itu: ${doctors}. Yang mana satu?`,
+    askWhen: ({ doctor }) => `Bila anda ingin berjumpa ${doctor}? Contohnya "esok pagi" atau "Jumaat pukul 3 petang".`,
+    noSlots: ({ doctor, when }) => `${doctor} tiada slot kosong ${when}. Adakah hari lain sesuai?`,
+    propose: ({ doctor, when, clinic }) => `${doctor} ada slot kosong ${when} di ${clinic}. Mahu saya tempah?`,
+    slotTaken: () => 'Maaf, slot itu baru sahaja diambil.',
+    replyYesNo: () => 'Sila balas "ya" untuk menempah atau "tidak" untuk membatalkan.',
+    signIn: () => 'Sila log masuk untuk mengesahkan temujanji, kemudian balas "ya" di sini.',
+    booked: ({ doctor, when, clinic }) => `Temujanji anda dengan ${doctor} ${when} di ${clinic} telah ditempah. Kami akan menghantar peringatan.`,
+    bookingFailed: () => 'Saya tidak dapat melengkapkan tempahan sekarang. Saya akan sambungkan anda dengan kakitangan kami.',
+    cancelled: () => 'Baiklah, tiada temujanji ditempah.',
+    handedOff: ({ position }) =>
+      position
+        ? `Saya telah menyerahkan perbualan ini kepada kakitangan kami. Anda nombor ${position} dalam giliran dan ejen akan menyertai perbualan ini sebentar lagi.`
+        : 'Saya telah menyerahkan perbualan ini kepada kakitangan kami. Ejen akan menyertai perbualan ini sebentar lagi.',
+    relayed: () => 'Terima kasih, saya telah memaklumkan kakitangan kami. Ejen akan menyertai perbualan ini sebentar lagi.',
+  },
+}
+
+const LOCALES: Record<PromptLanguage, string> = { en: 'en-SG', zh: 'zh-SG', ms: 'ms-MY' }
+
+interface StepOutcome {
+  state: DialogueState
+  response: ChatbotResponse
+  liveChat?: ConversationReply['liveChat']
+}
+
+export class ChatbotConversationService {
+  private readonly chatbot: ChatbotService
+  private readonly bookAppointment?: AppointmentBooker
+  private readonly findSlots: SlotFinder
+  private readonly liveChat: LiveChatQueueService
+  private readonly now: () => Date
+
+  constructor(
+    private readonly db: PrismaClient,
+    options: ChatbotConversationOptions = {}
+  ) {
+    this.chatbot = options.chatbot ?? new ChatbotService()
+    this.bookAppointment = options.bookAppointment
+    this.findSlots = options.findSlots ?? (request => this.openSlots(request))
+    this.liveChat = options.liveChat ?? new LiveChatQueueService(db)
+    this.now = options.now ?? (() => new Date())
+  }
+
+  async handleMessage(turn: ConversationTurn): Promise<ConversationReply> {
+    const now = this.now()
+    const stored = await this.db.chatbotConversationState.findUnique({ where: { sessionId: turn.sessionId } })
+    if (stored?.userId && stored.userId !== turn.userId) {
+      throw new ChatbotConversationError('This conversation belongs to another user', 'FORBIDDEN')
+    }
+
+    const active = !!stored && stored.expiresAt > now
+    const analysis = await this.chatbot.nlu.analyze(turn.message, {
+      language: active ? stored.language : turn.language,
+      now,
+    })
+    const language = analysis.language
+    const history = active ? readTranscript(stored.transcript) : []
+    const context = {
+      sessionId: turn.sessionId,
+      clinicId: turn.clinicId,
+      customerId: turn.userId ?? undefined,
+      language,
+      // Two misunderstood messages in a row go to a person
+      failedAttempts: analysis.intent === MessageIntent.UNKNOWN ? trailingFallbacks(history) + 1 : 0,
+    }
+
+    let outcome: StepOutcome
+    let current = active ? readState(stored.state) : INITIAL_DIALOGUE_STATE
+    if (current.stage === 'HANDED_OFF' && !(await this.liveChat.getOpen(turn.sessionId))) {
+      // The agent has closed the chat; the bot takes over again
+      current = INITIAL_DIALOGUE_STATE
+    }
+
+    if (current.stage === 'HANDED_OFF' && analysis.intent !== MessageIntent.EMERGENCY) {
+      outcome = { state: current, response: reply(prompter(language)('relayed'), ChatbotResponseType.ESCALATION) }
+    } else if (analysis.intent === MessageIntent.EMERGENCY) {
+      // Never carry on a booking through an emergency
+      outcome = { state: INITIAL_DIALOGUE_STATE, response: await this.chatbot.respond(turn.message, analysis, context) }
+    } else {
+      const { state, step } = advanceBookingDialogue(current, analysis)
+      outcome =
+        step === 'NOT_BOOKING'
+          ? { state, response: await this.chatbot.respond(turn.message, analysis, context) }
+          : await this.runStep(step, state, turn, language, now)
+    }
+
+    let transcript = appendTranscript(history, [
+      { role: 'customer', content: turn.message, at: now.toISOString(), intent: analysis.intent, ...turnEntities(analysis, outcome.response) },
+    ])
+    const decision = handoffDecision(escalationOf(outcome.response))
+    if (decision) {
+      outcome = await this.handOff(outcome, turn, language, decision, transcript, now)
+    }
+    transcript = appendTranscript(transcript, [
+      { role: 'bot', content: outcome.response.content, at: now.toISOString(), responseType: outcome.response.type },
+    ])
+    if (outcome.state.stage === 'HANDED_OFF' && !decision) {
+      await this.liveChat.appendTranscript(turn.sessionId, transcript)
+    }
+
+    const data = {
+      userId: turn.userId ?? stored?.userId ?? null,
+      language,
+      stage: outcome.state.stage,
+      state: outcome.state as unknown as Prisma.InputJsonObject,
+      transcript: transcript as unknown as Prisma.InputJsonArray,
+      lastIntent: analysis.intent,
+      expiresAt: new Date(now.getTime() + CONVERSATION_IDLE_MINUTES * 60_000),
+    }
+    await this.db.chatbotConversationState.upsert({
+      where: { sessionId: turn.sessionId },
+      create: { ...data, sessionId: turn.sessionId, turnCount: 1 },
+      update: { ...data, turnCount: active ? { increment: 1 } : 1 },
+    })
+
+    return {
+      ...outcome.response,
+      sessionId: turn.sessionId,
+      stage: outcome.state.stage,
+      language,
+      ...(outcome.state.appointmentId && { appointmentId: outcome.state.appointmentId }),
+      ...(outcome.liveChat && { liveChat: outcome.liveChat }),
+    }
+  }
+
+  /**
+   * Forget the dialogue state, e.g. when the patient closes the chat
+   */
+  async reset(sessionId: string, userId?: string | null): Promise<void> {
+    const { count } = await this.db.chatbotConversationState.deleteMany({
+      where: { sessionId, OR: [{ userId: null }, ...(userId ? [{ userId }] : [])] },
+    })
+    if (count > 0) await this.liveChat.abandon(sessionId)
+  }
+
+  /**
+   * Queue the conversation for a live agent and tell the customer where they are in
+   * the queue
+   */
+  private async handOff(
+    outcome: StepOutcome,
+    turn: ConversationTurn,
+    language: string,
+    decision: NonNullable<ReturnType<typeof handoffDecision>>,
+    transcript: TranscriptEntry[],
+    now: Date
+  ): Promise<StepOutcome> {
+    const { booking } = outcome.state
+    try {
+      const chat = await this.liveChat.enqueueHandoff({
+        sessionId: turn.sessionId,
+        customerId: turn.userId,
+        customerName: turn.customerName ?? 'Chat visitor',
+        customerEmail: turn.customerEmail,
+        clinicId: booking.clinicId ?? turn.clinicId,
+        doctorId: booking.doctorId,
+        serviceId: booking.serviceId,
+        language,
+        decision,
+        transcript: appendTranscript(transcript, [
+          { role: 'bot', content: outcome.response.content, at: now.toISOString(), responseType: outcome.response.type },
+        ]),
+        entities: summarizeEntities(transcript, booking),
+      })
+
+      const liveChat = { queuePosition: chat.queuePosition, priority: chat.priority }
+      return {
+        state: { ...outcome.state, stage: 'HANDED_OFF' },
+        liveChat,
+        response: {
+          ...outcome.response,
+          content: `${outcome.response.content}\n\n${prompter(language)('handedOff', { position: chat.queuePosition })}`,
+          escalationRequired: true,
+          actions: [...outcome.response.actions, { type: 'live_agent_handoff', data: { sessionId: turn.sessionId, ...liveChat } }],
+        },
+      }
+    } catch {
+      // The bot's own answer (e.g. the 995 advice) still goes out
+      return outcome
+    }
+  }
+
+  private async runStep(
+    step: DialogueStep,
+    state: DialogueState,
+    turn: ConversationTurn,
+    language: string,
+    now: Date
+  ): Promise<StepOutcome> {
+    const say = prompter(language)
+
+    if ((step === 'ASK_WHEN' || step === 'FIND_SLOT') && !state.booking.doctorId) {
+      const resolved = await this.resolveDoctor(state.booking, turn.clinicId)
+      if (!resolved.booking) {
+        const booking = { ...state.booking }
+        delete booking.doctorName
+        const prompt = resolved.candidates.length > 1
+          ? say('whichDoctor', { doctors: resolved.candidates.join(', ') })
+          : say('doctorNotFound', { doctor: state.booking.doctorName })
+        return { state: { stage: 'COLLECTING', booking }, response: reply(prompt, ChatbotResponseType.CLARIFICATION) }
+      }
+      state = { ...state, booking: resolved.booking }
+    }
+
+    switch (step) {
+      case 'ASK_DOCTOR':
+        return { state, response: reply(say('askDoctor'), ChatbotResponseType.CLARIFICATION) }
+      case 'ASK_WHEN':
+        return {
+          state,
+          response: reply(say('askWhen', { doctor: state.booking.doctorDisplayName }), ChatbotResponseType.CLARIFICATION),
+        }
+      case 'FIND_SLOT':
+        return this.proposeSlot(state, language, now)
+      case 'REPEAT_PROPOSAL':
+        return { state, response: reply(`${proposalText(state, language)} ${say('replyYesNo')}`, ChatbotResponseType.CLARIFICATION) }
+      case 'CANCELLED':
+        return { state, response: reply(say('cancelled'), ChatbotResponseType.REJECTION) }
+      case 'BOOK':
+        return this.book(state, turn, language, now)
+      default:
+        throw new Error(`Unhandled dialogue step ${step}`)
+    }
+  }
+
+  /**
+   * Propose the first open slot in the requested window, after `after` if given
+   */
+  private async proposeSlot(state: DialogueState, language: string, now: Date, after?: Date, prefix = ''): Promise<StepOutcome> {
+    const booking = state.booking
+    const window = bookingWindow(booking)
+    const earliest = new Date(Math.max(window.start.getTime(), now.getTime() + 1, after ? after.getTime() + 1 : 0))
+
+    const slots = await this.findSlots({
+      doctorId: booking.doctorId!,
+      clinicId: booking.clinicId!,
+      serviceId: booking.serviceId!,
+      from: earliest,
+    })
+    const slot = slots
+      .filter(candidate => candidate.start >= earliest && candidate.start < window.end)
+      .sort((a, b) => a.start.getTime() - b.start.getTime())[0]
+
+    const say = prompter(language)
+    if (!slot) {
+      const when = describeWindow(booking, language)
+      const retry: BookingSlots = { ...booking }
+      delete retry.date
+      delete retry.period
+      delete retry.time
+      return {
+        state: { stage: 'COLLECTING', booking: retry },
+        response: reply(`${prefix}${say('noSlots', { doctor: booking.doctorDisplayName, when })}`, ChatbotResponseType.BOOKING),
+      }
+    }
+
+    const proposed: DialogueState = {
+      stage: 'CONFIRMING',
+      booking,
+      proposal: { start: slot.start.toISOString(), end: slot.end.toISOString() },
+    }
+    return {
+      state: proposed,
+      response: reply(`${prefix}${proposalText(proposed, language)}`, ChatbotResponseType.BOOKING, [
+        {
+          type: 'confirm_booking',
+          data: { doctorId: booking.doctorId, clinicId: booking.clinicId, serviceId: booking.serviceId, ...proposed.proposal },
+        },
+      ]),
+    }
+  }
+
+  private async book(state: DialogueState, turn: ConversationTurn, language: string, now: Date): Promise<StepOutcome> {
+    const say = prompter(language)
+    const { booking, proposal } = state
+    if (!proposal || new Date(proposal.start) <= now) {
+      return this.proposeSlot(state, language, now)
+    }
+    if (!this.bookAppointment) {
+      return { state, response: reply(say('signIn'), ChatbotResponseType.BOOKING, [{ type: 'sign_in' }]) }
+    }
+
+    try {
+      const appointment = await this.bookAppointment({
+        clinicId: booking.clinicId!,
+        doctorId: booking.doctorId!,
+        serviceId: booking.serviceId!,
+        appointmentDate: new Date(proposal.start),
+        // Retrying the same confirmation must not book twice
+        idempotencyKey: `chatbot-${turn.sessionId.slice(0, 64)}-${Date.parse(proposal.start)}`,
+      })
+      const booked: DialogueState = { stage: 'BOOKED', booking, proposal, appointmentId: appointment.id }
+      return {
+        state: booked,
+        response: reply(
+          say('booked', { doctor: booking.doctorDisplayName, when: describeSlot(proposal.start, language), clinic: booking.clinicName }),
+          ChatbotResponseType.CONFIRMATION,
+          [{ type: 'appointment_booked', data: { appointmentId: appointment.id } }]
+        ),
+      }
+    } catch (error) {
+      if ((error as { code?: unknown })?.code === 'CONFLICT') {
+        return this.proposeSlot(state, language, now, new Date(proposal.start), `${say('slotTaken')} `)
+      }
+      return {
+        state,
+        response: {
+          ...reply(say('bookingFailed'), ChatbotResponseType.ESCALATION, [{ type: 'escalate', data: { reason: 'booking_failed' } }]),
+          escalationRequired: true,
+        },
+      }
+    }
+  }
+
+  /**
+   * Match the name the patient gave to one active doctor, then pick the clinic (the one
+   * the chat was opened from if the doctor works there, else their primary clinic) and
+   * a consultation service offered there
+   */
+  private async resolveDoctor(
+    booking: BookingSlots,
+    preferredClinicId?: string
+  ): Promise<{ booking?: BookingSlots; candidates: string[] }> {
+    const words = (booking.doctorName ?? '').split(/\s+/).filter(Boolean)
+    if (words.length === 0) return { candidates: [] }
+
+    const doctors = await this.db.doctor.findMany({
+      where: { isActive: true, AND: words.map(word => ({ name: { contains: word, mode: 'insensitive' as const } })) },
+      select: {
+        id: true,
+        name: true,
+        clinics: { select: { clinicId: true, isPrimary: true, clinic: { select: { name: true } } } },
+      },
+      orderBy: { name: 'asc' },
+      take: MAX_DOCTOR_MATCHES,
+    })
+
+    // "Tan" should find "Tan Wei Ming" but not "Tanya Lim"
+    const wholeWord = doctors.filter(doctor => {
+      const nameWords = doctor.name.toLowerCase().split(/[\s.]+/)
+      return words.every(word => nameWords.includes(word.toLowerCase()))
+    })
+    const matches = (wholeWord.length > 0 ? wholeWord : doctors).filter(doctor => doctor.clinics.length > 0)
+    if (matches.length !== 1) return { candidates: matches.map(doctor => displayName(doctor.name)) }
+
+    const doctor = matches[0]!
+    const clinic =
+      doctor.clinics.find(assignment => assignment.clinicId === preferredClinicId) ??
+      doctor.clinics.find(assignment => assignment.isPrimary) ??
+      doctor.clinics[0]!
+
+    const services = await this.db.clinicService.findMany({
+      where: { clinicId: clinic.clinicId, isAvailable: true, service: { isActive: true } },
+      select: { serviceId: true, service: { select: { name: true } } },
+    })
+    const service = services.find(offered => /consult/i.test(offered.service.name)) ?? services[0]
+    if (!service) return { candidates: [] }
+
+    return {
+      candidates: [],
+      booking: {
+        ...booking,
+        doctorId: doctor.id,
+        doctorDisplayName: displayName(doctor.name),
+        clinicId: clinic.clinicId,
+        clinicName: clinic.clinic.name,
+        serviceId: service.serviceId,
+        serviceName: service.service.name,
+      },
+    }
+  }
+
+  private async openSlots(request: Parameters<SlotFinder>[0]) {
+    // suggestAlternativeSlots skips the exact instant it is given, so start a minute early
+    return new BookingService(this.db).suggestAlternativeSlots(
+      { ...request, appointmentDate: new Date(request.from.getTime() - 60_000) },
+      SLOT_SEARCH_LIMIT
+    )
+  }
+}
+
+function readTranscript(json: Prisma.JsonValue): TranscriptEntry[] {
+  return Array.isArray(json) ? (json as unknown as TranscriptEntry[]) : []
+}
+
+/** The escalation `ChatbotService` decided on, or the one a booking turn asked for */
+function escalationOf(response: ChatbotResponse): EscalationCheck | undefined {
+  const checked = response.metadata?.escalation as EscalationCheck | undefined
+  if (checked?.shouldEscalate || !response.escalationRequired) return checked
+  const requested = response.actions.find(action => action.type === 'escalate')
+  return { shouldEscalate: true, reason: requested?.data?.reason ?? 'bot_escalation' }
+}
+
+/** What the bot recognised in the customer's message, for the transcript */
+function turnEntities(analysis: NluResult, response: ChatbotResponse): { entities?: TurnEntities } {
+  const { confirmation: _confirmation, ...booking } = analysis.entities
+  const legacy = response.metadata?.entities as { symptoms?: string[]; services?: { name: string }[] } | undefined
+  const keywords = response.metadata?.medicalContext?.keywords as string[] | undefined
+
+  const entities: TurnEntities = {
+    ...booking,
+    ...(legacy?.symptoms?.length && { symptoms: legacy.symptoms }),
+    ...(legacy?.services?.length && { services: legacy.services.map(service => service.name) }),
+    ...(keywords?.length && { medicalKeywords: keywords }),
+  }
+  return Object.keys(entities).length > 0 ? { entities } : {}
+}
+
+function readState(json: Prisma.JsonValue): DialogueState {
+  if (!json || typeof json !== 'object' || Array.isArray(json) || !('stage' in json)) return INITIAL_DIALOGUE_STATE
+  return json as unknown as DialogueState
+}
+
+function reply(content: string, type: ChatbotResponseType, actions: ChatbotResponse['actions'] = []): ChatbotResponse {
+  return { content, type, confidence: 1, escalationRequired: false, actions }
+}
+
+function prompter(language: string) {
+  const prompts = PROMPTS[promptLanguage(language)]
+  return (key: keyof typeof PROMPTS.en, values: PromptValues = {}) => prompts[key]!(values)
+}
+
+function promptLanguage(language: string): PromptLanguage {
+  return language === 'zh' || language === 'ms' ? language : 'en'
+}
+
+function displayName(name: string): string {
+  return /^dr\.?\s/i.test(name) ? name : `Dr ${name}`
+}
+
+/** The requested day, narrowed to a part of the day or a time if one was given */
+function bookingWindow(booking: BookingSlots): { start: Date; end: Date } {
+  const date = booking.date!
+  if (booking.time) return { start: atSingaporeTime(date, booking.time), end: atSingaporeTime(addDaysToKey(date, 1)) }
+  if (booking.period) {
+    const { from, to } = DAY_PERIODS[booking.period]
+    return { start: atSingaporeTime(date, from), end: atSingaporeTime(date, to) }
+  }
+  return { start: atSingaporeTime(date), end: atSingaporeTime(addDaysToKey(date, 1)) }
+}
+
+function proposalText(state: DialogueState, language: string): string {
+  const { booking, proposal } = state
+  return prompter(language)('propose', {
+    doctor: booking.doctorDisplayName,
+    when: describeSlot(proposal!.start, language),
+    clinic: booking.clinicName,
+  })
+}
+
+function describeSlot(start: string, language: string): string {
+  const locale = LOCALES[promptLanguage(language)]
+  const instant = new Date(start)
+  const day = new Intl.DateTimeFormat(locale, { timeZone: SINGAPORE_TIME_ZONE, weekday: 'short', day: 'numeric', month: 'short' })
+  const time = new Intl.DateTimeFormat(locale, { timeZone: SINGAPORE_TIME_ZONE, hour: 'numeric', minute: '2-digit' })
+  return promptLanguage(language) === 'en'
+    ? `at ${time.format(instant)} on ${day.format(instant)}`
+    : `${day.format(instant)} ${time.format(instant)}`
+}
+
+function describeWindow(booking: BookingSlots, language: string): string {
+  const locale = LOCALES[promptLanguage(language)]
+  const day = new Intl.DateTimeFormat(locale, { timeZone: 'UTC', weekday: 'short', day: 'numeric', month: 'short' })
+  const date = day.format(new Date(`${booking.date}T00:00:00.000Z`))
+  if (promptLanguage(language) !== 'en') return date
+  if (booking.time) return `from ${booking.time} on ${date}`
+  if (booking.period) return `in the ${booking.period} on ${date}`
+  return `on ${date}`
+}
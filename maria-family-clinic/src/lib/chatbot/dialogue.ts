@@ -0,0 +1,143 @@
+import { MessageIntent } from '@/lib/types/multi-channel-contact'
+import type { DayPeriod, ExtractedEntities } from './entities'
+import type { NluResult } from './nlu'
+
+/**
+ * Booking Dialogue - The chatbot's multi-turn booking conversation as a state machine
+ *
+ *   IDLE ──booking intent──▶ COLLECTING ──doctor + date known──▶ CONFIRMING ──"yes"──▶ BOOKED
+ *
+ * HANDED_OFF marks a conversation the bot has passed to a live agent; it is set and
+ * cleared by the caller, never by the state machine.
+ *
+ * Each turn merges what the patient said into the booking slots and names the next
+ * step; looking up doctors and slots and making the booking are left to the caller.
+ * The state is plain JSON so it can be persisted between turns.
+ */
+
+export type DialogueStage = 'IDLE' | 'COLLECTING' | 'CONFIRMING' | 'BOOKED' | 'HANDED_OFF'
+
+export interface BookingSlots {
+  doctorName?: string // As the patient said it
+  doctorId?: string // Set once the name resolves to one doctor
+  doctorDisplayName?: string
+  clinicId?: string
+  clinicName?: string
+  serviceId?: string
+  serviceName?: string
+  date?: string // yyyy-MM-dd, Singapore
+  period?: DayPeriod
+  time?: string // HH:mm, Singapore
+}
+
+export interface SlotProposal {
+  start: string // ISO instant
+  end: string
+}
+
+export interface DialogueState {
+  stage: DialogueStage
+  booking: BookingSlots
+  proposal?: SlotProposal
+  appointmentId?: string
+}
+
+export type DialogueStep =
+  | 'ASK_DOCTOR'
+  | 'ASK_WHEN'
+  | 'FIND_SLOT'
+  | 'BOOK'
+  | 'REPEAT_PROPOSAL'
+  | 'CANCELLED'
+  | 'NOT_BOOKING' // Not part of a booking; answer normally
+
+export const INITIAL_DIALOGUE_STATE: DialogueState = { stage: 'IDLE', booking: {} }
+
+export function advanceBookingDialogue(
+  state: DialogueState,
+  nlu: Pick<NluResult, 'intent' | 'entities'>
+): { state: DialogueState; step: DialogueStep } {
+  const { entities } = nlu
+  const changesBooking = hasBookingDetails(entities)
+
+  if (state.stage === 'CONFIRMING') {
+    if (entities.confirmation === 'yes' && !changesBooking) {
+      return { state, step: 'BOOK' }
+    }
+    if (changesBooking) {
+      // "No, Friday afternoon instead" or just "Friday afternoon": look again
+      const booking = mergeBooking(state.booking, entities)
+      return { state: { stage: 'COLLECTING', booking }, step: nextStep(booking) }
+    }
+    if (nlu.intent === MessageIntent.ESCALATION || nlu.intent === MessageIntent.COMPLAINT) {
+      // Answered normally; the proposal stays for whoever picks the chat up
+      return { state, step: 'NOT_BOOKING' }
+    }
+    if (entities.confirmation === 'no') {
+      return { state: INITIAL_DIALOGUE_STATE, step: 'CANCELLED' }
+    }
+    return { state, step: 'REPEAT_PROPOSAL' }
+  }
+
+  if (state.stage === 'COLLECTING') {
+    if (entities.confirmation === 'no' && !changesBooking) {
+      return { state: INITIAL_DIALOGUE_STATE, step: 'CANCELLED' }
+    }
+    if (changesBooking || nlu.intent === MessageIntent.APPOINTMENT) {
+      const booking = mergeBooking(state.booking, entities)
+      return { state: { stage: 'COLLECTING', booking }, step: nextStep(booking) }
+    }
+    return { state, step: 'NOT_BOOKING' }
+  }
+
+  // IDLE, or a finished booking: only a new booking request starts the dialogue
+  if (nlu.intent === MessageIntent.APPOINTMENT) {
+    const booking = mergeBooking({}, entities)
+    return { state: { stage: 'COLLECTING', booking }, step: nextStep(booking) }
+  }
+  return { state, step: 'NOT_BOOKING' }
+}
+
+/** What is still missing before a slot can be looked up */
+export function nextStep(booking: BookingSlots): DialogueStep {
+  if (!booking.doctorName && !booking.doctorId) return 'ASK_DOCTOR'
+  if (!booking.date) return 'ASK_WHEN'
+  return 'FIND_SLOT'
+}
+
+function hasBookingDetails(entities: ExtractedEntities): boolean {
+  return !!(entities.doctorName || entities.date || entities.period || entities.time)
+}
+
+function mergeBooking(booking: BookingSlots, entities: ExtractedEntities): BookingSlots {
+  const merged: BookingSlots = { ...booking }
+
+  if (entities.doctorName && entities.doctorName.toLowerCase() !== booking.doctorName?.toLowerCase()) {
+    // A different doctor: their clinic and service have to be looked up again
+    merged.doctorName = entities.doctorName
+    delete merged.doctorId
+    delete merged.doctorDisplayName
+    delete merged.clinicId
+    delete merged.clinicName
+    delete merged.serviceId
+    delete merged.serviceName
+  }
+
+  if (entities.date) {
+    merged.date = entities.date
+    // A new day without a time of day means any time that day
+    if (!entities.period && !entities.time) {
+      delete merged.period
+      delete merged.time
+    }
+  }
+  if (entities.time) {
+    merged.time = entities.time
+    delete merged.period
+  } else if (entities.period) {
+    merged.period = entities.period
+    delete merged.time
+  }
+
+  return merged
+}
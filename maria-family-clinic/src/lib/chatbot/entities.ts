@@ -0,0 +1,184 @@
+import { addDaysToKey, singaporeDateKey } from '@/lib/clinic-hours/calendar'
+
+/**
+ * Chatbot Entity Extraction - Doctor names, dates, times and yes/no answers
+ *
+ * Understands English, Chinese and Malay phrasing ("tomorrow morning", "明天上午",
+ * "esok pagi"). Dates and times are resolved in Singapore time, relative to `now`,
+ * and numeric dates are read day first ("5/11" is 5 November).
+ */
+
+export type DayPeriod = 'morning' | 'afternoon' | 'evening'
+
+export interface ExtractedEntities {
+  doctorName?: string
+  date?: string // yyyy-MM-dd in Singapore
+  period?: DayPeriod
+  time?: string // HH:mm in Singapore
+  confirmation?: 'yes' | 'no'
+}
+
+/** Booking windows for each part of the day, Singapore time */
+export const DAY_PERIODS: Record<DayPeriod, { from: string; to: string }> = {
+  morning: { from: '08:00', to: '12:00' },
+  afternoon: { from: '12:00', to: '17:00' },
+  evening: { from: '17:00', to: '21:00' },
+}
+
+const RELATIVE_DAYS: [RegExp, number][] = [
+  [/\bday after tomorrow\b|后天|\blusa\b/, 2],
+  [/\btoday\b|\btonight\b|今天|今晚|\bhari ini\b/, 0],
+  [/\btomorrow\b|\btmr\b|明天|\besok\b|\bbesok\b/, 1],
+]
+
+// Indexed like Date.getUTCDay(): Sunday first
+const WEEKDAYS: RegExp[] = [
+  /\bsun(day)?\b|星期日|星期天|周日|\bahad\b/,
+  /\bmon(day)?\b|星期一|周一|\bisnin\b/,
+  /\btue(s|sday)?\b|星期二|周二|\bselasa\b/,
+  /\bwed(nesday)?\b|星期三|周三|\brabu\b/,
+  /\bthu(r|rs|rsday)?\b|星期四|周四|\bkhamis\b/,
+  /\bfri(day)?\b|星期五|周五|\bjumaat\b/,
+  /\bsat(urday)?\b|星期六|周六|\bsabtu\b/,
+]
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*'
+
+const PERIODS: [RegExp, DayPeriod][] = [
+  [/\bmorning\b|早上|上午|\bpagi\b/, 'morning'],
+  [/\bafternoon\b|下午|\btengah hari\b|\bpetang\b/, 'afternoon'],
+  [/\bevening\b|\btonight\b|晚上|今晚|\bmalam\b/, 'evening'],
+]
+
+const YES = new Set(['yes', 'yeah', 'yep', 'yup', 'ok', 'okay', 'sure', 'confirm', 'correct', 'ya', 'boleh', 'betul', 'setuju'])
+const NO = new Set(['no', 'nope', 'cancel', 'stop', 'tidak', 'tak', 'batal', 'jangan'])
+const HAN_YES = /^(好的?|是的?|对|可以|确认|行)/
+const HAN_NO = /^(不要?|取消|不用)/
+
+// Words that end a doctor's name: "Dr Tan tomorrow morning"
+const NAME_STOP = new Set([
+  'tomorrow', 'today', 'tonight', 'morning', 'afternoon', 'evening', 'next', 'this', 'on', 'at', 'for', 'in',
+  'please', 'pls', 'and', 'or', 'to', 'with', 'esok', 'besok', 'pagi', 'petang', 'malam', 'hari', 'pada',
+  ...MONTHS,
+])
+
+export function extractEntities(text: string, now: Date = new Date()): ExtractedEntities {
+  const lower = text.normalize('NFKC').toLowerCase()
+  const entities: ExtractedEntities = {}
+
+  const doctorName = extractDoctorName(text)
+  if (doctorName) entities.doctorName = doctorName
+
+  const date = extractDate(lower, singaporeDateKey(now))
+  if (date) entities.date = date
+
+  const time = extractTime(lower)
+  if (time) entities.time = time
+
+  const period = PERIODS.find(([pattern]) => pattern.test(lower))?.[1]
+  if (period) entities.period = period
+
+  const confirmation = extractConfirmation(lower)
+  if (confirmation) entities.confirmation = confirmation
+
+  return entities
+}
+
+function extractDoctorName(text: string): string | undefined {
+  const han = /(\p{Script=Han}{1,4})医生/u.exec(text)
+  if (han) {
+    // "预约陈医生": drop the verb in front of the surname
+    const name = han[1]!.replace(/^.*(预约|约|找|看|跟|和|与|同|挂)/u, '')
+    return name || undefined
+  }
+
+  const latin = /\b(?:dr|doctor|doktor)\.?\s+([a-z][a-z'-]*(?:\s+[a-z][a-z'-]*){0,2})/i.exec(text)
+  if (!latin) return undefined
+  const words: string[] = []
+  for (const word of latin[1]!.split(/\s+/)) {
+    if (NAME_STOP.has(word.toLowerCase().replace(/[^a-z]/g, ''))) break
+    words.push(word)
+  }
+  return words.length > 0 ? words.join(' ') : undefined
+}
+
+function extractDate(lower: string, todayKey: string): string | undefined {
+  for (const [pattern, days] of RELATIVE_DAYS) {
+    if (pattern.test(lower)) return addDaysToKey(todayKey, days)
+  }
+
+  const numeric = /\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2,4}))?\b/.exec(lower)
+  if (numeric) {
+    return upcomingDate(todayKey, Number(numeric[1]), Number(numeric[2]), numeric[3] ? Number(numeric[3]) : undefined)
+  }
+
+  const dayMonth = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME}\\b`).exec(lower)
+  if (dayMonth) return upcomingDate(todayKey, Number(dayMonth[1]), MONTHS.indexOf(dayMonth[2]!) + 1)
+  const monthDay = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`).exec(lower)
+  if (monthDay) return upcomingDate(todayKey, Number(monthDay[2]), MONTHS.indexOf(monthDay[1]!) + 1)
+
+  const weekday = WEEKDAYS.findIndex(pattern => pattern.test(lower))
+  if (weekday >= 0) {
+    // The coming weekday; "Monday" said on a Monday means next week
+    const today = new Date(`${todayKey}T00:00:00.000Z`).getUTCDay()
+    return addDaysToKey(todayKey, (weekday - today + 7) % 7 || 7)
+  }
+
+  return undefined
+}
+
+function upcomingDate(todayKey: string, day: number, month: number, year?: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined
+  const currentYear = Number(todayKey.slice(0, 4))
+  const resolvedYear = year === undefined ? currentYear : year < 100 ? 2000 + year : year
+  let key = dateKey(resolvedYear, month, day)
+  if (!key) return undefined
+  if (year === undefined && key < todayKey) key = dateKey(currentYear + 1, month, day)
+  return key
+}
+
+function dateKey(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1) return undefined // 31 November and the like
+  return date.toISOString().slice(0, 10)
+}
+
+function extractTime(lower: string): string | undefined {
+  const han = /(上午|早上|下午|晚上)?\s*(\d{1,2})\s*[点點](半|(\d{1,2})分?)?/.exec(lower)
+  if (han) {
+    const minutes = han[3] === '半' ? 30 : han[4] ? Number(han[4]) : 0
+    return clock(Number(han[2]), minutes, han[1] === '下午' || han[1] === '晚上' ? 'pm' : han[1] ? 'am' : undefined)
+  }
+
+  const meridiem = /\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)\b/.exec(lower)
+  if (meridiem) return clock(Number(meridiem[1]), Number(meridiem[2] ?? 0), meridiem[3] as 'am' | 'pm')
+
+  const twentyFourHour = /\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/.exec(lower)
+  if (twentyFourHour) return clock(Number(twentyFourHour[1]), Number(twentyFourHour[2]))
+
+  return undefined
+}
+
+function clock(hour: number, minute: number, meridiem?: 'am' | 'pm'): string | undefined {
+  if (minute > 59 || hour > 23) return undefined
+  let hours = hour
+  if (meridiem === 'pm' && hour < 12) hours += 12
+  if (meridiem === 'am' && hour === 12) hours = 0
+  // A bare "3:00" in a clinic booking means the afternoon
+  if (!meridiem && hour >= 1 && hour <= 7) hours += 12
+  return `${String(hours).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+function extractConfirmation(lower: string): 'yes' | 'no' | undefined {
+  const trimmed = lower.trim()
+  if (HAN_NO.test(trimmed)) return 'no'
+  if (HAN_YES.test(trimmed)) return 'yes'
+
+  const words = trimmed.replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean)
+  const first = words[0]
+  if (!first || words.length > 6) return undefined
+  if (NO.has(first)) return 'no'
+  if (YES.has(first) || trimmed.startsWith('go ahead') || trimmed.startsWith('book it')) return 'yes'
+  return undefined
+}
@@ -0,0 +1,126 @@
+import type { ChatPriority, UrgencyLevel } from '@prisma/client'
+import type { ExtractedEntities } from './entities'
+import type { BookingSlots } from './dialogue'
+
+/**
+ * Chatbot Handoff - What a live agent needs to pick up a conversation from the bot
+ *
+ * The conversation keeps a bounded transcript of its turns, each customer turn tagged
+ * with the intent and entities the bot recognised. When the bot escalates, the
+ * transcript and a summary of the entities travel with the chat into the live-chat
+ * queue, and the escalation reason sets the chat's place in that queue.
+ */
+
+export interface TurnEntities extends Omit<ExtractedEntities, 'confirmation'> {
+  symptoms?: string[]
+  services?: string[]
+  medicalKeywords?: string[]
+}
+
+export interface TranscriptEntry {
+  role: 'customer' | 'bot'
+  content: string
+  at: string // ISO instant
+  intent?: string // Customer turns only
+  entities?: TurnEntities // Customer turns only, when anything was recognised
+  responseType?: string // Bot turns only
+}
+
+/** Everything the bot learned over the conversation; the latest mention of a single value wins */
+export interface HandoffEntities extends Omit<TurnEntities, 'symptoms' | 'services' | 'medicalKeywords'> {
+  doctorId?: string
+  clinicId?: string
+  serviceId?: string
+  symptoms: string[]
+  services: string[]
+  medicalKeywords: string[]
+  intents: string[] // In the order they first came up
+}
+
+export interface HandoffDecision {
+  reason: string
+  priority: ChatPriority
+  urgencyLevel: UrgencyLevel
+  isEmergency: boolean
+}
+
+/** Escalation as reported by `ChatbotService.shouldEscalate` */
+export interface EscalationCheck {
+  shouldEscalate: boolean
+  reason: string
+}
+
+/** Turns kept per conversation; older ones are dropped first */
+export const MAX_TRANSCRIPT_ENTRIES = 50
+
+const HANDOFFS: Record<string, Omit<HandoffDecision, 'reason'>> = {
+  emergency_medical_situation: { priority: 'EMERGENCY', urgencyLevel: 'EMERGENCY', isEmergency: true },
+  urgent_medical_inquiry: { priority: 'URGENT', urgencyLevel: 'URGENT', isEmergency: false },
+  negative_sentiment_medical: { priority: 'HIGH', urgencyLevel: 'SAME_DAY', isEmergency: false },
+  complex_medical_query: { priority: 'HIGH', urgencyLevel: 'ROUTINE', isEmergency: false },
+  negative_sentiment: { priority: 'HIGH', urgencyLevel: 'ROUTINE', isEmergency: false },
+}
+
+const DEFAULT_HANDOFF: Omit<HandoffDecision, 'reason'> = { priority: 'NORMAL', urgencyLevel: 'ROUTINE', isEmergency: false }
+
+/**
+ * Queue placement for an escalation. Reasons without their own entry (an explicit
+ * request, repeated misunderstandings, a failed booking) queue at normal priority.
+ */
+export function handoffDecision(escalation: EscalationCheck | undefined): HandoffDecision | null {
+  if (!escalation?.shouldEscalate) return null
+  return { reason: escalation.reason, ...(HANDOFFS[escalation.reason] ?? DEFAULT_HANDOFF) }
+}
+
+export function appendTranscript(
+  transcript: TranscriptEntry[],
+  entries: TranscriptEntry[],
+  limit = MAX_TRANSCRIPT_ENTRIES
+): TranscriptEntry[] {
+  return [...transcript, ...entries].slice(-limit)
+}
+
+/**
+ * Merge the entities from every customer turn with the booking in progress. For
+ * single values the latest mention wins; lists collect every distinct value.
+ */
+export function summarizeEntities(transcript: TranscriptEntry[], booking: BookingSlots = {}): HandoffEntities {
+  const summary: HandoffEntities = { symptoms: [], services: [], medicalKeywords: [], intents: [] }
+
+  for (const entry of transcript) {
+    if (entry.role !== 'customer') continue
+    if (entry.intent && entry.intent !== 'UNKNOWN') addDistinct(summary.intents, [entry.intent])
+
+    const { symptoms, services, medicalKeywords, ...values } = entry.entities ?? {}
+    Object.assign(summary, values)
+    addDistinct(summary.symptoms, symptoms)
+    addDistinct(summary.services, services)
+    addDistinct(summary.medicalKeywords, medicalKeywords)
+  }
+
+  // Resolved booking details are more precise than what was typed
+  if (booking.doctorDisplayName) summary.doctorName = booking.doctorDisplayName
+  if (booking.serviceName) addDistinct(summary.services, [booking.serviceName])
+  for (const key of ['doctorId', 'clinicId', 'serviceId', 'date', 'period', 'time'] as const) {
+    if (booking[key]) Object.assign(summary, { [key]: booking[key] })
+  }
+
+  return summary
+}
+
+/** Consecutive fallback replies ("I'm here to help with...") at the end of the transcript */
+export function trailingFallbacks(transcript: TranscriptEntry[]): number {
+  let count = 0
+  for (const entry of [...transcript].reverse()) {
+    if (entry.role !== 'bot') continue
+    if (entry.responseType !== 'FALLBACK') break
+    count++
+  }
+  return count
+}
+
+function addDistinct(target: string[], values: string[] | undefined) {
+  for (const value of values ?? []) {
+    if (!target.some(existing => existing.toLowerCase() === value.toLowerCase())) target.push(value)
+  }
+}
@@ -0,0 +1,106 @@
+import { MessageIntent } from '@/lib/types/multi-channel-contact'
+import {
+  contentFeatures,
+  languageFeatures,
+  nearestNeighbour,
+  predictNaiveBayes,
+  type NaiveBayesModel,
+  type NearestNeighbourIndex,
+} from './classifier'
+import { extractEntities, type ExtractedEntities } from './entities'
+import bundledModel from './intent-model.json'
+
+/**
+ * Chatbot NLU - Intent, language, FAQ and entity recognition behind a provider interface
+ *
+ * `ChatbotService` only talks to an `NluProvider`, so a hosted NLU service can replace
+ * the offline provider without touching the dialogue code. The offline provider runs a
+ * naive Bayes intent and language classifier and a TF-IDF FAQ matcher from a JSON
+ * model trained on the FAQ and service catalogue (see training-data.ts).
+ */
+
+export interface IntentModel {
+  version: number
+  trainedAt: string
+  intents: NaiveBayesModel
+  languages: NaiveBayesModel
+  faq: NearestNeighbourIndex
+}
+
+export interface NluContext {
+  language?: string // The language the conversation has been in so far
+  now?: Date // Reference time for relative dates
+}
+
+export interface NluResult {
+  intent: MessageIntent
+  confidence: number
+  alternatives: { intent: MessageIntent; confidence: number }[]
+  language: string
+  entities: ExtractedEntities
+  faq: { id: string; similarity: number } | null
+}
+
+export interface NluProvider {
+  readonly name: string
+  analyze(text: string, context?: NluContext): Promise<NluResult>
+}
+
+export interface OfflineNluOptions {
+  minConfidence?: number // Below this the intent is UNKNOWN
+  minFaqSimilarity?: number
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.4
+const DEFAULT_MIN_FAQ_SIMILARITY = 0.5
+
+export class OfflineNluProvider implements NluProvider {
+  readonly name = 'offline'
+  private readonly minConfidence: number
+  private readonly minFaqSimilarity: number
+
+  constructor(
+    private readonly model: IntentModel = bundledModel as unknown as IntentModel,
+    options: OfflineNluOptions = {}
+  ) {
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE
+    this.minFaqSimilarity = options.minFaqSimilarity ?? DEFAULT_MIN_FAQ_SIMILARITY
+  }
+
+  async analyze(text: string, context: NluContext = {}): Promise<NluResult> {
+    const features = contentFeatures(text)
+    const prediction = predictNaiveBayes(this.model.intents, features)
+    const [top] = prediction.scores
+    const understood = prediction.coverage > 0 && !!top && top.probability >= this.minConfidence
+
+    const faq = nearestNeighbour(this.model.faq, features)
+
+    return {
+      intent: understood ? (top.label as MessageIntent) : MessageIntent.UNKNOWN,
+      confidence: round(understood ? top.probability : 0),
+      alternatives: prediction.scores.slice(0, 3).map(score => ({
+        intent: score.label as MessageIntent,
+        confidence: round(score.probability),
+      })),
+      language: this.detectLanguage(text, context.language),
+      entities: extractEntities(text, context.now),
+      faq: faq && faq.similarity >= this.minFaqSimilarity ? faq : null,
+    }
+  }
+
+  private detectLanguage(text: string, conversationLanguage?: string): string {
+    // Scripts settle Chinese and Tamil; the classifier tells English from Malay
+    if (/\p{Script=Han}/u.test(text)) return 'zh'
+    if (/\p{Script=Tamil}/u.test(text)) return 'ta'
+    const features = languageFeatures(text)
+    const prediction = predictNaiveBayes(this.model.languages, features)
+    const knownWords = Math.round(prediction.coverage * features.length)
+    // A one-word reply ("ok", "ya") is too short to switch the conversation's language
+    if (knownWords < 2 && conversationLanguage) return conversationLanguage
+    return knownWords > 0 ? prediction.scores[0]!.label : 'en'
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
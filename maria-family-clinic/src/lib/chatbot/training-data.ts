@@ -0,0 +1,197 @@
+import { MessageIntent } from '@/lib/types/multi-channel-contact'
+import {
+  buildNearestNeighbourIndex,
+  contentFeatures,
+  languageFeatures,
+  trainNaiveBayes,
+  type TrainingExample,
+} from './classifier'
+import type { IntentModel } from './nlu'
+
+/**
+ * Chatbot Training Data - Seed utterances plus examples generated from the FAQ and
+ * the service catalogue
+ *
+ * `trainIntentModel` turns them into the JSON model loaded by the offline NLU
+ * provider. Retrain with `npm run jobs:train-chatbot-nlu` after changing the FAQ or
+ * the services so new service names are recognised as booking requests.
+ */
+
+export const INTENT_MODEL_VERSION = 1
+
+export interface FaqSource {
+  id: string
+  question: string
+  paraphrases?: string[]
+  answer: Record<string, string> // language → answer
+}
+
+export interface ServiceSource {
+  name: string
+  category?: string
+  translations?: Record<string, string> // language → name
+}
+
+export interface TrainingSource {
+  faq: FaqSource[]
+  services: ServiceSource[]
+}
+
+type Utterances = Partial<Record<'en' | 'zh' | 'ms', string[]>>
+
+const INTENT_UTTERANCES: Partial<Record<MessageIntent, Utterances>> = {
+  [MessageIntent.GREETING]: {
+    en: ['hi', 'hello', 'hey there', 'good morning', 'good afternoon', 'good evening', 'hello is anyone there'],
+    zh: ['你好', '您好', '早上好', '下午好', '晚上好'],
+    ms: ['selamat pagi', 'selamat petang', 'helo', 'hai', 'apa khabar'],
+  },
+  [MessageIntent.APPOINTMENT]: {
+    en: [
+      'book an appointment',
+      'i want to book with dr tan',
+      'book with doctor lim tomorrow',
+      'can i see a doctor today',
+      'schedule a consultation',
+      'make an appointment for next monday',
+      'any slots available this afternoon',
+      'i need to see the doctor',
+      'reschedule my appointment',
+      'is dr wong free on friday',
+      'appointment tomorrow morning please',
+    ],
+    zh: ['我想预约', '预约陈医生', '明天可以看医生吗', '我要挂号', '帮我约医生', '有空位吗'],
+    ms: ['saya mahu buat temujanji', 'tempah temujanji dengan doktor tan', 'boleh jumpa doktor esok', 'ada slot kosong'],
+  },
+  [MessageIntent.EMERGENCY]: {
+    en: [
+      'chest pain',
+      'i cannot breathe',
+      'difficulty breathing',
+      'my father is unconscious',
+      'severe bleeding',
+      'i think i am having a heart attack',
+      'stroke symptoms',
+      'emergency help',
+      'seizure',
+    ],
+    zh: ['胸口痛', '呼吸困难', '昏迷', '紧急情况', '大出血', '心脏病发作'],
+    ms: ['sakit dada', 'sukar bernafas', 'pengsan', 'kecemasan', 'pendarahan teruk'],
+  },
+  [MessageIntent.INFORMATION]: {
+    en: [
+      'where are you located',
+      'what is your address',
+      'nearest clinic',
+      'what services do you offer',
+      'is there parking',
+      'which clinic is near tampines',
+      'do you have a pharmacy',
+    ],
+    zh: ['诊所在哪里', '地址是什么', '最近的诊所', '你们有什么服务'],
+    ms: ['klinik di mana', 'alamat klinik', 'klinik terdekat', 'perkhidmatan apa yang ada'],
+  },
+  [MessageIntent.COMPLAINT]: {
+    en: [
+      'i want to make a complaint',
+      'the service was terrible',
+      'i waited two hours this is unacceptable',
+      'very disappointed with the doctor',
+      'the staff was rude',
+      'i was overcharged',
+    ],
+    zh: ['我要投诉', '服务太差了', '等了很久', '很失望'],
+    ms: ['saya mahu buat aduan', 'perkhidmatan teruk', 'tunggu terlalu lama', 'sangat kecewa'],
+  },
+  [MessageIntent.COMPLIMENT]: {
+    en: ['the doctor was excellent', 'great service thank you', 'the nurse was very kind', 'very happy with the clinic'],
+    zh: ['医生很好', '服务很棒', '非常满意'],
+    ms: ['doktor sangat baik', 'perkhidmatan cemerlang', 'sangat berpuas hati'],
+  },
+  [MessageIntent.ESCALATION]: {
+    en: ['speak to a human', 'talk to a real person', 'can i speak to staff', 'connect me to an agent', 'call me back'],
+    zh: ['我要跟真人说话', '转人工', '请找工作人员'],
+    ms: ['saya mahu bercakap dengan staf', 'sambungkan kepada ejen'],
+  },
+  [MessageIntent.GOODBYE]: {
+    en: ['bye', 'goodbye', 'thanks bye', 'thank you that is all', 'see you'],
+    zh: ['再见', '谢谢再见', '拜拜'],
+    ms: ['terima kasih', 'selamat tinggal', 'jumpa lagi'],
+  },
+  [MessageIntent.SUPPORT]: {
+    en: ['i cannot log in', 'reset my password', 'the website is not working', 'how do i update my details'],
+    zh: ['无法登录', '重设密码', '网站打不开'],
+    ms: ['tidak boleh log masuk', 'tukar kata laluan'],
+  },
+}
+
+// Service names become booking and price questions
+const SERVICE_TEMPLATES: Record<'en' | 'zh' | 'ms', { intent: MessageIntent; template: string }[]> = {
+  en: [
+    { intent: MessageIntent.APPOINTMENT, template: 'book {service}' },
+    { intent: MessageIntent.APPOINTMENT, template: 'i would like an appointment for {service}' },
+    { intent: MessageIntent.QUESTION, template: 'how much is {service}' },
+    { intent: MessageIntent.QUESTION, template: 'do you offer {service}' },
+  ],
+  zh: [
+    { intent: MessageIntent.APPOINTMENT, template: '预约{service}' },
+    { intent: MessageIntent.QUESTION, template: '{service}多少钱' },
+  ],
+  ms: [
+    { intent: MessageIntent.APPOINTMENT, template: 'tempah {service}' },
+    { intent: MessageIntent.QUESTION, template: 'berapa harga {service}' },
+  ],
+}
+
+export function buildTrainingSet(source: TrainingSource): {
+  intents: TrainingExample[]
+  languages: TrainingExample[]
+  faq: TrainingExample[]
+} {
+  const intents: TrainingExample[] = []
+  const languages: TrainingExample[] = []
+  const faq: TrainingExample[] = []
+
+  for (const [intent, utterances] of Object.entries(INTENT_UTTERANCES)) {
+    for (const [language, texts] of Object.entries(utterances)) {
+      for (const text of texts) {
+        intents.push({ text, label: intent })
+        languages.push({ text, label: language })
+      }
+    }
+  }
+
+  for (const item of source.faq) {
+    for (const text of [item.question, ...(item.paraphrases ?? [])]) {
+      intents.push({ text, label: MessageIntent.QUESTION })
+      faq.push({ text, label: item.id })
+    }
+    for (const [language, answer] of Object.entries(item.answer)) {
+      languages.push({ text: answer, label: language })
+    }
+  }
+
+  for (const service of source.services) {
+    const names: [keyof typeof SERVICE_TEMPLATES, string][] = [['en', service.name]]
+    for (const [language, name] of Object.entries(service.translations ?? {})) {
+      if (language in SERVICE_TEMPLATES) names.push([language as keyof typeof SERVICE_TEMPLATES, name])
+    }
+    for (const [language, name] of names) {
+      for (const { intent, template } of SERVICE_TEMPLATES[language]) {
+        intents.push({ text: template.replace('{service}', name.toLowerCase()), label: intent })
+      }
+    }
+  }
+
+  return { intents, languages, faq }
+}
+
+export function trainIntentModel(source: TrainingSource, trainedAt: Date = new Date()): IntentModel {
+  const examples = buildTrainingSet(source)
+  return {
+    version: INTENT_MODEL_VERSION,
+    trainedAt: trainedAt.toISOString(),
+    intents: trainNaiveBayes(examples.intents, contentFeatures),
+    languages: trainNaiveBayes(examples.languages, languageFeatures),
+    faq: buildNearestNeighbourIndex(examples.faq, contentFeatures),
+  }
+}
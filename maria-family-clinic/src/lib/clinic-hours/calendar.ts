@@ -0,0 +1,288 @@
+import type { DayOfWeek } from '@prisma/client'
+
+/**
+ * Clinic Opening Calendar - Resolves a clinic's hours for a Singapore calendar day
+ *
+ * Precedence, highest first:
+ * 1. A clinic hours exception for the date (ad-hoc closure or special/extended hours)
+ * 2. A public holiday: closed
+ * 3. The weekly hours for that day of the week, cut short on a holiday eve that has an
+ *    early closing time
+ *
+ * All dates are Singapore calendar days ("YYYY-MM-DD") and all times Singapore wall
+ * clock times. Singapore has kept UTC+8 without daylight saving since 1982, so
+ * conversions use the fixed offset and do not depend on the server's time zone.
+ */
+
+export const SINGAPORE_TIME_ZONE = 'Asia/Singapore'
+
+export const SINGAPORE_OFFSET_MS = 8 * 60 * 60 * 1000
+const MINUTES_PER_DAY = 24 * 60
+const DAYS_OF_WEEK: DayOfWeek[] = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const MESSAGE_DATE_TIME = new Intl.DateTimeFormat('en-SG', {
+  timeZone: SINGAPORE_TIME_ZONE,
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+})
+const MESSAGE_TIME = new Intl.DateTimeFormat('en-SG', { timeZone: SINGAPORE_TIME_ZONE, hour: 'numeric', minute: '2-digit' })
+
+export interface WeeklyHours {
+  dayOfWeek: DayOfWeek
+  isOpen: boolean
+  is24Hours: boolean
+  openTime: string
+  closeTime: string
+  breakStart: string | null
+  breakEnd: string | null
+}
+
+export interface HolidayEntry {
+  date: string
+  name: string
+  type: 'PUBLIC_HOLIDAY' | 'HOLIDAY_EVE'
+  earlyCloseTime: string | null
+}
+
+export interface HoursException {
+  date: string
+  type: 'CLOSURE' | 'SPECIAL_HOURS'
+  isClosed: boolean
+  openTime: string | null
+  closeTime: string | null
+  reason: string | null
+}
+
+export interface HoursWindow {
+  start: string // "HH:mm"
+  end: string // "HH:mm", "24:00" for midnight
+}
+
+export interface DayHours {
+  date: string
+  dayOfWeek: DayOfWeek
+  source: 'EXCEPTION' | 'PUBLIC_HOLIDAY' | 'HOLIDAY_EVE' | 'WEEKLY' | 'UNKNOWN'
+  label: string | null // Holiday name or exception reason
+  windows: HoursWindow[] | null // Empty when closed; null when the clinic has no hours on record
+}
+
+export interface ClinicHoursSources {
+  weekly: WeeklyHours[]
+  holidays: HolidayEntry[]
+  exceptions: HoursException[]
+}
+
+export function isValidTime(time: string): boolean {
+  return TIME_PATTERN.test(time)
+}
+
+export function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Singapore calendar date of an instant, as "YYYY-MM-DD"
+ */
+export function singaporeDateKey(instant: Date): string {
+  return new Date(instant.getTime() + SINGAPORE_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Singapore date and time of an instant for patient messages, e.g. "5 Mar 2026, 2:30 pm"
+ */
+export function formatSingaporeDateTime(instant: Date): string {
+  return MESSAGE_DATE_TIME.format(instant)
+}
+
+/**
+ * Singapore time of an instant for patient messages, e.g. "2:30 pm"
+ */
+export function formatSingaporeTime(instant: Date): string {
+  return MESSAGE_TIME.format(instant)
+}
+
+/**
+ * Minutes since Singapore midnight
+ */
+export function singaporeMinutes(instant: Date): number {
+  const shifted = new Date(instant.getTime() + SINGAPORE_OFFSET_MS)
+  return shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+}
+
+export function dayOfWeekForKey(dateKey: string): DayOfWeek {
+  return DAYS_OF_WEEK[new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()]!
+}
+
+/**
+ * The instant at which a Singapore wall clock shows `time` on `dateKey`
+ */
+export function atSingaporeTime(dateKey: string, time = '00:00'): Date {
+  return new Date(Date.parse(`${dateKey}T00:00:00.000Z`) - SINGAPORE_OFFSET_MS + toMinutes(time) * 60_000)
+}
+
+export function addDaysToKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Every date key from `fromKey` to `toKey` inclusive
+ */
+export function dateKeysBetween(fromKey: string, toKey: string): string[] {
+  const keys: string[] = []
+  for (let key = fromKey; key <= toKey; key = addDaysToKey(key, 1)) keys.push(key)
+  return keys
+}
+
+/**
+ * A `@db.Date` column value (midnight UTC) as a date key, and back
+ */
+export function dateColumnToKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function keyToDateColumn(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00.000Z`)
+}
+
+export function resolveDayHours(dateKey: string, sources: ClinicHoursSources): DayHours {
+  const dayOfWeek = dayOfWeekForKey(dateKey)
+  const exception = sources.exceptions.find(entry => entry.date === dateKey)
+  if (exception) {
+    return {
+      date: dateKey,
+      dayOfWeek,
+      source: 'EXCEPTION',
+      label: exception.reason,
+      windows:
+        exception.isClosed || !exception.openTime || !exception.closeTime
+          ? []
+          : [window(exception.openTime, exception.closeTime)],
+    }
+  }
+
+  const holiday = sources.holidays.find(entry => entry.date === dateKey && entry.type === 'PUBLIC_HOLIDAY')
+  if (holiday) {
+    return { date: dateKey, dayOfWeek, source: 'PUBLIC_HOLIDAY', label: holiday.name, windows: [] }
+  }
+
+  const weekly = sources.weekly.find(entry => entry.dayOfWeek === dayOfWeek)
+  const windows = weekly ? weeklyWindows(weekly) : null
+  const eve = sources.holidays.find(entry => entry.date === dateKey && entry.type === 'HOLIDAY_EVE')
+  if (eve?.earlyCloseTime && windows) {
+    const closeAt = toMinutes(eve.earlyCloseTime)
+    return {
+      date: dateKey,
+      dayOfWeek,
+      source: 'HOLIDAY_EVE',
+      label: eve.name,
+      windows: windows
+        .filter(w => toMinutes(w.start) < closeAt)
+        .map(w => ({ start: w.start, end: toMinutes(w.end) > closeAt ? eve.earlyCloseTime! : w.end })),
+    }
+  }
+
+  return { date: dateKey, dayOfWeek, source: weekly ? 'WEEKLY' : 'UNKNOWN', label: null, windows }
+}
+
+/**
+ * Whether the clinic is open at `instant`. Unknown hours count as closed.
+ */
+export function isOpenAt(instant: Date, day: DayHours | undefined): boolean {
+  if (!day?.windows) return false
+  const minutes = singaporeMinutes(instant)
+  return day.windows.some(w => toMinutes(w.start) <= minutes && minutes < toMinutes(w.end))
+}
+
+/**
+ * Whether [start, end) lies inside one opening window of its Singapore day. Returns
+ * null when the clinic has no hours on record for that day.
+ */
+export function isWithinOpeningHours(interval: { start: Date; end: Date }, day: DayHours): boolean | null {
+  if (!day.windows) return null
+  const dayStart = atSingaporeTime(day.date).getTime()
+  const startMinute = (interval.start.getTime() - dayStart) / 60_000
+  const endMinute = (interval.end.getTime() - dayStart) / 60_000
+  return day.windows.some(w => toMinutes(w.start) <= startMinute && endMinute <= toMinutes(w.end))
+}
+
+/**
+ * Start times of `stepMinutes` slots of `durationMinutes` that fit the day's windows
+ */
+export function slotStarts(day: DayHours, durationMinutes: number, stepMinutes = durationMinutes): Date[] {
+  const starts: Date[] = []
+  for (const w of day.windows ?? []) {
+    const end = toMinutes(w.end)
+    for (let minute = toMinutes(w.start); minute + durationMinutes <= end; minute += stepMinutes) {
+      starts.push(atSingaporeTime(day.date, fromMinutes(minute)))
+    }
+  }
+  return starts
+}
+
+/**
+ * Weekly hours from the legacy `Clinic.operatingHours` JSON, e.g.
+ * `{ "monday": "09:00-12:00,13:00-17:00", "sunday": "closed" }`. Used for clinics
+ * without OperatingHours rows.
+ */
+export function parseLegacyOperatingHours(json: unknown): WeeklyHours[] {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) return []
+
+  const weekly: WeeklyHours[] = []
+  for (const [day, value] of Object.entries(json as Record<string, unknown>)) {
+    const dayOfWeek = DAYS_OF_WEEK.find(name => name === day.toUpperCase())
+    if (!dayOfWeek || typeof value !== 'string') continue
+
+    const ranges = value
+      .split(',')
+      .map(range => range.trim().split('-').map(part => part.trim()))
+      .filter((range): range is [string, string] => range.length === 2 && range.every(isValidTime))
+    if (value.trim().toLowerCase() === 'closed' || ranges.length === 0) {
+      weekly.push({ dayOfWeek, isOpen: false, is24Hours: false, openTime: '00:00', closeTime: '00:00', breakStart: null, breakEnd: null })
+      continue
+    }
+
+    // Two ranges become opening hours with a break between them
+    const first = ranges[0]!
+    const last = ranges[ranges.length - 1]!
+    weekly.push({
+      dayOfWeek,
+      isOpen: true,
+      is24Hours: false,
+      openTime: first[0],
+      closeTime: last[1],
+      breakStart: ranges.length > 1 ? first[1] : null,
+      breakEnd: ranges.length > 1 ? ranges[1]![0] : null,
+    })
+  }
+  return weekly
+}
+
+function weeklyWindows(hours: WeeklyHours): HoursWindow[] {
+  if (!hours.isOpen) return []
+  if (hours.is24Hours) return [{ start: '00:00', end: '24:00' }]
+
+  const open = window(hours.openTime, hours.closeTime)
+  if (!hours.breakStart || !hours.breakEnd) return [open]
+  return [
+    { start: open.start, end: hours.breakStart },
+    { start: hours.breakEnd, end: open.end },
+  ].filter(w => toMinutes(w.start) < toMinutes(w.end))
+}
+
+// Closing at or before opening means the clinic stays open until midnight
+function window(openTime: string, closeTime: string): HoursWindow {
+  return {
+    start: openTime,
+    end: toMinutes(closeTime) <= toMinutes(openTime) ? fromMinutes(MINUTES_PER_DAY) : closeTime,
+  }
+}
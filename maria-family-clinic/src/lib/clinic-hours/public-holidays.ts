@@ -0,0 +1,124 @@
+import type { PrismaClient } from '@prisma/client'
+import { isValidTime, keyToDateColumn, type HolidayEntry } from './calendar'
+import bundled from './sg-public-holidays.json'
+
+/**
+ * Singapore public holiday dataset
+ *
+ * The bundled dataset (sg-public-holidays.json) lists gazetted public holidays,
+ * including Monday holidays in lieu, and the eves on which clinics customarily close
+ * early. Later years are imported from the same JSON shape or from the data.gov.sg
+ * public holidays CSV (`date,day,holiday`) with `npm run db:import-public-holidays`.
+ */
+
+export class PublicHolidayImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PublicHolidayImportError'
+  }
+}
+
+interface PublicHolidayDataset {
+  source?: string
+  holidays?: { date: string; name: string }[]
+  eves?: { date: string; name: string; earlyCloseTime?: string | null }[]
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const BUNDLED_PUBLIC_HOLIDAYS: HolidayEntry[] = toEntries(bundled)
+
+/**
+ * Parse a dataset in the bundled JSON shape
+ */
+export function parsePublicHolidayJson(json: string): HolidayEntry[] {
+  let dataset: PublicHolidayDataset
+  try {
+    dataset = JSON.parse(json)
+  } catch {
+    throw new PublicHolidayImportError('Holiday file is not valid JSON')
+  }
+  if (!Array.isArray(dataset.holidays)) {
+    throw new PublicHolidayImportError('JSON holiday file needs a "holidays" list')
+  }
+  return toEntries(dataset)
+}
+
+/**
+ * Parse the data.gov.sg public holidays CSV. An optional `early_close_time` column
+ * marks rows as holiday eves.
+ */
+export function parsePublicHolidayCsv(csv: string): HolidayEntry[] {
+  const [header, ...rows] = csv.split(/\r?\n/).filter(line => line.trim().length > 0)
+  if (!header) throw new PublicHolidayImportError('Holiday CSV is empty')
+
+  const columns = header.split(',').map(column => column.trim().toLowerCase())
+  const date = columns.indexOf('date')
+  const name = columns.indexOf('holiday') === -1 ? columns.indexOf('name') : columns.indexOf('holiday')
+  const earlyClose = columns.indexOf('early_close_time')
+  if (date === -1 || name === -1) {
+    throw new PublicHolidayImportError('Holiday CSV needs "date" and "holiday" columns')
+  }
+
+  return rows.map((row, index) => {
+    const cells = row.split(',').map(cell => cell.trim())
+    const closeTime = earlyClose === -1 ? '' : cells[earlyClose] ?? ''
+    return validated(
+      {
+        date: cells[date] ?? '',
+        name: cells[name] ?? '',
+        type: closeTime ? 'HOLIDAY_EVE' : 'PUBLIC_HOLIDAY',
+        earlyCloseTime: closeTime || null,
+      },
+      `line ${index + 2}`
+    )
+  })
+}
+
+/**
+ * Upsert holidays by date and type
+ */
+export async function importPublicHolidays(db: PrismaClient, entries: HolidayEntry[], source = 'BUNDLED'): Promise<number> {
+  await db.$transaction(
+    entries.map(entry =>
+      db.publicHoliday.upsert({
+        where: { date_type: { date: keyToDateColumn(entry.date), type: entry.type } },
+        create: {
+          date: keyToDateColumn(entry.date),
+          type: entry.type,
+          name: entry.name,
+          earlyCloseTime: entry.earlyCloseTime,
+          source,
+        },
+        update: { name: entry.name, earlyCloseTime: entry.earlyCloseTime, source },
+      })
+    )
+  )
+  return entries.length
+}
+
+function toEntries(dataset: PublicHolidayDataset): HolidayEntry[] {
+  const holidays = (dataset.holidays ?? []).map((holiday, index) =>
+    validated({ date: holiday.date, name: holiday.name, type: 'PUBLIC_HOLIDAY', earlyCloseTime: null }, `holiday ${index + 1}`)
+  )
+  const eves = (dataset.eves ?? []).map((eve, index) =>
+    validated(
+      { date: eve.date, name: eve.name, type: 'HOLIDAY_EVE', earlyCloseTime: eve.earlyCloseTime ?? null },
+      `eve ${index + 1}`
+    )
+  )
+  return [...holidays, ...eves]
+}
+
+function validated(entry: HolidayEntry, where: string): HolidayEntry {
+  if (!DATE_PATTERN.test(entry.date) || Number.isNaN(Date.parse(entry.date))) {
+    throw new PublicHolidayImportError(`Invalid date "${entry.date}" (${where}); expected YYYY-MM-DD`)
+  }
+  if (!entry.name) {
+    throw new PublicHolidayImportError(`Missing holiday name (${where})`)
+  }
+  if (entry.earlyCloseTime && !isValidTime(entry.earlyCloseTime)) {
+    throw new PublicHolidayImportError(`Invalid early closing time "${entry.earlyCloseTime}" (${where}); expected HH:mm`)
+  }
+  return entry
+}
@@ -0,0 +1,237 @@
+import type { ClinicHoursException, Prisma, PrismaClient, PublicHoliday } from '@prisma/client'
+import {
+  addDaysToKey,
+  dateColumnToKey,
+  dateKeysBetween,
+  isOpenAt,
+  isValidTime,
+  keyToDateColumn,
+  parseLegacyOperatingHours,
+  resolveDayHours,
+  singaporeDateKey,
+  toMinutes,
+  type DayHours,
+  type HolidayEntry,
+  type HoursException,
+  type WeeklyHours,
+} from './calendar'
+
+/**
+ * Clinic Hours Service - Weekly hours, public holidays and clinic exceptions combined
+ *
+ * Answers "is this clinic open" for search (`open_now`, `holiday`), slot generation
+ * and booking checks. Weekly hours come from OperatingHours rows, or the legacy
+ * `Clinic.operatingHours` JSON for clinics without rows.
+ */
+
+export type { DayHours, HoursWindow } from './calendar'
+
+/**
+ * Resolved hours of one clinic, keyed by Singapore date ("YYYY-MM-DD")
+ */
+export type ClinicDays = Map<string, DayHours>
+
+export interface SetHoursExceptionInput {
+  clinicId: string
+  dates: string[]
+  type: HoursException['type']
+  openTime?: string
+  closeTime?: string
+  reason?: string
+  createdBy: string
+}
+
+export class ClinicHoursError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'ClinicHoursError'
+  }
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_CALENDAR_DAYS = 366
+
+/**
+ * Opening hours for each clinic on every date from `fromKey` to `toKey`
+ */
+export async function loadClinicDays(
+  db: Prisma.TransactionClient,
+  clinicIds: string[],
+  fromKey: string,
+  toKey: string
+): Promise<Map<string, ClinicDays>> {
+  const dates = { gte: keyToDateColumn(fromKey), lte: keyToDateColumn(toKey) }
+  const [weeklyRows, clinics, holidays, exceptions] = await Promise.all([
+    db.operatingHours.findMany({
+      where: { clinicId: { in: clinicIds } },
+      select: {
+        clinicId: true,
+        dayOfWeek: true,
+        isOpen: true,
+        is24Hours: true,
+        openTime: true,
+        closeTime: true,
+        breakStart: true,
+        breakEnd: true,
+      },
+    }),
+    db.clinic.findMany({ where: { id: { in: clinicIds } }, select: { id: true, operatingHours: true } }),
+    db.publicHoliday.findMany({ where: { date: dates }, select: { date: true, name: true, type: true, earlyCloseTime: true } }),
+    db.clinicHoursException.findMany({ where: { clinicId: { in: clinicIds }, date: dates } }),
+  ])
+
+  const holidayEntries: HolidayEntry[] = holidays.map(holiday => ({ ...holiday, date: dateColumnToKey(holiday.date) }))
+  const keys = dateKeysBetween(fromKey, toKey)
+  const result = new Map<string, ClinicDays>()
+
+  for (const clinic of clinics) {
+    const rows = weeklyRows.filter(row => row.clinicId === clinic.id)
+    const weekly: WeeklyHours[] = rows.length > 0 ? rows : parseLegacyOperatingHours(clinic.operatingHours)
+    const sources = {
+      weekly,
+      holidays: holidayEntries,
+      exceptions: exceptions.filter(entry => entry.clinicId === clinic.id).map(toHoursException),
+    }
+    result.set(clinic.id, new Map(keys.map(key => [key, resolveDayHours(key, sources)])))
+  }
+
+  return result
+}
+
+export class ClinicHoursService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * A clinic's resolved hours for `days` days starting at `fromKey`
+   */
+  async getOpeningHours(clinicId: string, fromKey: string, days: number): Promise<DayHours[]> {
+    assertDateKey(fromKey)
+    const clinicDays = (await loadClinicDays(this.db, [clinicId], fromKey, addDaysToKey(fromKey, days - 1))).get(clinicId)
+    if (!clinicDays) {
+      throw new ClinicHoursError('Clinic not found', 'NOT_FOUND')
+    }
+    return [...clinicDays.values()]
+  }
+
+  /**
+   * Clinics open at `at` (defaults to now), optionally limited to `clinicIds`
+   */
+  async openClinicIds(at: Date = new Date(), clinicIds?: string[]): Promise<string[]> {
+    const ids = clinicIds ?? (await this.activeClinicIds())
+    const today = singaporeDateKey(at)
+    const days = await loadClinicDays(this.db, ids, today, today)
+    return ids.filter(id => isOpenAt(at, days.get(id)?.get(today)))
+  }
+
+  /**
+   * Clinics open on the next public holiday (today, if today is one)
+   */
+  async openOnPublicHolidayClinicIds(at: Date = new Date(), clinicIds?: string[]): Promise<string[]> {
+    const holiday = await this.db.publicHoliday.findFirst({
+      where: { type: 'PUBLIC_HOLIDAY', date: { gte: keyToDateColumn(singaporeDateKey(at)) } },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    })
+    if (!holiday) return []
+
+    const ids = clinicIds ?? (await this.activeClinicIds())
+    const key = dateColumnToKey(holiday.date)
+    const days = await loadClinicDays(this.db, ids, key, key)
+    return ids.filter(id => (days.get(id)?.get(key)?.windows?.length ?? 0) > 0)
+  }
+
+  async listExceptions(clinicId: string, fromKey: string, toKey: string): Promise<ClinicHoursException[]> {
+    assertDateKey(fromKey)
+    assertDateKey(toKey)
+    return this.db.clinicHoursException.findMany({
+      where: { clinicId, date: { gte: keyToDateColumn(fromKey), lte: keyToDateColumn(toKey) } },
+      orderBy: { date: 'asc' },
+    })
+  }
+
+  /**
+   * Close the clinic, or set special hours, on each of `dates`. Replaces any existing
+   * exception on those dates.
+   */
+  async setException(input: SetHoursExceptionInput): Promise<ClinicHoursException[]> {
+    input.dates.forEach(assertDateKey)
+    if (input.dates.length === 0 || input.dates.length > MAX_CALENDAR_DAYS) {
+      throw new ClinicHoursError(`Give between 1 and ${MAX_CALENDAR_DAYS} dates`, 'BAD_REQUEST')
+    }
+
+    const isClosed = input.type === 'CLOSURE'
+    if (!isClosed) {
+      if (!input.openTime || !input.closeTime || !isValidTime(input.openTime) || !isValidTime(input.closeTime)) {
+        throw new ClinicHoursError('Special hours need an opening and closing time (HH:mm)', 'BAD_REQUEST')
+      }
+      if (toMinutes(input.closeTime) <= toMinutes(input.openTime) && input.closeTime !== '00:00') {
+        throw new ClinicHoursError('Closing time must be after opening time', 'BAD_REQUEST')
+      }
+    }
+
+    const clinic = await this.db.clinic.findUnique({ where: { id: input.clinicId }, select: { id: true } })
+    if (!clinic) {
+      throw new ClinicHoursError('Clinic not found', 'NOT_FOUND')
+    }
+
+    const data = {
+      type: input.type,
+      isClosed,
+      openTime: isClosed ? null : input.openTime!,
+      closeTime: isClosed ? null : input.closeTime!,
+      reason: input.reason ?? null,
+      createdBy: input.createdBy,
+    }
+    return this.db.$transaction(
+      [...new Set(input.dates)].map(dateKey =>
+        this.db.clinicHoursException.upsert({
+          where: { clinicId_date: { clinicId: input.clinicId, date: keyToDateColumn(dateKey) } },
+          create: { clinicId: input.clinicId, date: keyToDateColumn(dateKey), ...data },
+          update: data,
+        })
+      )
+    )
+  }
+
+  async removeException(clinicId: string, dateKey: string): Promise<void> {
+    assertDateKey(dateKey)
+    const { count } = await this.db.clinicHoursException.deleteMany({
+      where: { clinicId, date: keyToDateColumn(dateKey) },
+    })
+    if (count === 0) {
+      throw new ClinicHoursError('No hours exception on that date', 'NOT_FOUND')
+    }
+  }
+
+  async listPublicHolidays(year: number): Promise<PublicHoliday[]> {
+    return this.db.publicHoliday.findMany({
+      where: { date: { gte: keyToDateColumn(`${year}-01-01`), lte: keyToDateColumn(`${year}-12-31`) } },
+      orderBy: [{ date: 'asc' }, { type: 'asc' }],
+    })
+  }
+
+  private async activeClinicIds(): Promise<string[]> {
+    const clinics = await this.db.clinic.findMany({ where: { isActive: true }, select: { id: true } })
+    return clinics.map(clinic => clinic.id)
+  }
+}
+
+function toHoursException(row: ClinicHoursException): HoursException {
+  return {
+    date: dateColumnToKey(row.date),
+    type: row.type,
+    isClosed: row.isClosed,
+    openTime: row.openTime,
+    closeTime: row.closeTime,
+    reason: row.reason,
+  }
+}
+
+function assertDateKey(dateKey: string) {
+  if (!DATE_KEY_PATTERN.test(dateKey) || Number.isNaN(Date.parse(dateKey))) {
+    throw new ClinicHoursError(`Invalid date "${dateKey}"; expected YYYY-MM-DD`, 'BAD_REQUEST')
+  }
+}
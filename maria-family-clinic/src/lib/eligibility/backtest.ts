@@ -0,0 +1,311 @@
+import type { HealthierSGEvaluationResult } from '@prisma/client'
+import {
+  evaluateRules,
+  type EligibilityFacts,
+  type EligibilityOutcome,
+  type EligibilityRuleDefinition,
+  type RuleOutcome,
+} from './rule-engine'
+
+/**
+ * Eligibility Back-testing - Replays historical applicants against two rule sets
+ *
+ * The baseline is normally the rules in effect today and the candidate a scheduled or
+ * draft policy change. Every case is evaluated under both, so flips reflect the policy
+ * change alone. Where the real outcome is known (the recorded decision, corrected by
+ * decided appeals) each rule's inclusion/exclusion errors are counted as well.
+ */
+
+export interface BacktestCase {
+  assessmentId: string
+  assessedAt: Date
+  facts: EligibilityFacts
+  clinicId: string | null
+  recordedResult: string // eligibilityStatus at the time
+  actualEligible: boolean | null // Null when the true outcome is unknown
+}
+
+export interface BacktestRuleSet {
+  rules: EligibilityRuleDefinition[]
+  passingScore: number
+}
+
+export interface FlipCounts {
+  total: number
+  flipped: number
+  newlyEligible: number
+  newlyIneligible: number
+  otherChanges: number // e.g. eligible -> requires review
+}
+
+export interface SegmentFlips extends FlipCounts {
+  segment: string
+}
+
+export interface RuleAccuracy {
+  ruleId: string | null
+  ruleKey: string
+  version: number
+  ruleSet: 'BASELINE' | 'CANDIDATE'
+  evaluated: number // Cases with a known outcome where the rule passed or failed
+  truePositives: number
+  trueNegatives: number
+  falsePositives: number // Rule passed, applicant not eligible
+  falseNegatives: number // Rule failed, applicant eligible
+  successRate: number | null
+  falsePositiveRate: number | null
+  falseNegativeRate: number | null
+}
+
+export interface RuleChange {
+  ruleKey: string
+  baseline: RuleOutcome | null // Null when the rule is not in that set
+  candidate: RuleOutcome | null
+  explanation: string
+}
+
+export interface BacktestDiff {
+  assessmentId: string
+  assessedAt: Date
+  ageBand: string
+  citizenship: string
+  clinicId: string | null
+  recordedResult: string
+  baselineResult: HealthierSGEvaluationResult
+  candidateResult: HealthierSGEvaluationResult
+  baselineScore: number
+  candidateScore: number
+  changedRules: RuleChange[]
+}
+
+export interface BacktestReport {
+  summary: FlipCounts
+  byAgeBand: SegmentFlips[]
+  byCitizenship: SegmentFlips[]
+  byClinic: SegmentFlips[]
+  outcomeAccuracy: { labelled: number; baseline: number | null; candidate: number | null }
+  ruleAccuracy: RuleAccuracy[]
+  diffs: BacktestDiff[]
+  diffsTruncated: boolean
+}
+
+const AGE_BANDS: [number, string][] = [
+  [40, 'Under 40'],
+  [50, '40-49'],
+  [60, '50-59'],
+  [70, '60-69'],
+]
+
+export function ageBand(age: unknown): string {
+  if (typeof age !== 'number' || Number.isNaN(age)) return 'Unknown'
+  return AGE_BANDS.find(([limit]) => age < limit)?.[1] ?? '70+'
+}
+
+export function backtestRules(
+  cases: BacktestCase[],
+  baseline: BacktestRuleSet,
+  candidate: BacktestRuleSet,
+  options: { maxDiffs?: number } = {}
+): BacktestReport {
+  const maxDiffs = options.maxDiffs ?? 500
+  const summary = emptyFlips()
+  const segments = { age: new Map<string, FlipCounts>(), citizenship: new Map<string, FlipCounts>(), clinic: new Map<string, FlipCounts>() }
+  const accuracy = new Map<string, RuleAccuracy>()
+  const diffs: BacktestDiff[] = []
+  let flippedTotal = 0
+  let labelled = 0
+  let baselineCorrect = 0
+  let candidateCorrect = 0
+
+  for (const testCase of cases) {
+    const before = evaluateRules(baseline.rules, testCase.facts, { passingScore: baseline.passingScore, now: testCase.assessedAt })
+    const after = evaluateRules(candidate.rules, testCase.facts, { passingScore: candidate.passingScore, now: testCase.assessedAt })
+    const band = ageBand(testCase.facts.age)
+    const citizenship = typeof testCase.facts.citizenshipStatus === 'string' ? testCase.facts.citizenshipStatus.toUpperCase() : 'UNKNOWN'
+    const buckets = [
+      summary,
+      segment(segments.age, band),
+      segment(segments.citizenship, citizenship),
+      segment(segments.clinic, testCase.clinicId ?? 'UNKNOWN'),
+    ]
+    buckets.forEach(bucket => countFlip(bucket, before.result, after.result))
+
+    if (testCase.actualEligible !== null) {
+      labelled++
+      if (before.isEligible === testCase.actualEligible) baselineCorrect++
+      if (after.isEligible === testCase.actualEligible) candidateCorrect++
+      tallyRules(accuracy, 'BASELINE', before, testCase.actualEligible)
+      tallyRules(accuracy, 'CANDIDATE', after, testCase.actualEligible)
+    }
+
+    if (before.result !== after.result) {
+      flippedTotal++
+      if (diffs.length < maxDiffs) {
+        diffs.push({
+          assessmentId: testCase.assessmentId,
+          assessedAt: testCase.assessedAt,
+          ageBand: band,
+          citizenship,
+          clinicId: testCase.clinicId,
+          recordedResult: testCase.recordedResult,
+          baselineResult: before.result,
+          candidateResult: after.result,
+          baselineScore: before.score,
+          candidateScore: after.score,
+          changedRules: changedRules(before, after),
+        })
+      }
+    }
+  }
+
+  return {
+    summary,
+    byAgeBand: toSegments(segments.age),
+    byCitizenship: toSegments(segments.citizenship),
+    byClinic: toSegments(segments.clinic),
+    outcomeAccuracy: {
+      labelled,
+      baseline: labelled > 0 ? round(baselineCorrect / labelled) : null,
+      candidate: labelled > 0 ? round(candidateCorrect / labelled) : null,
+    },
+    ruleAccuracy: [...accuracy.values()].map(finishAccuracy),
+    diffs,
+    diffsTruncated: flippedTotal > diffs.length,
+  }
+}
+
+/**
+ * Flattened diff rows for CSV export
+ */
+export function toDiffRows(report: Pick<BacktestReport, 'diffs'>): { headers: string[]; rows: string[][] } {
+  return {
+    headers: [
+      'Assessment ID',
+      'Assessed At',
+      'Age Band',
+      'Citizenship',
+      'Clinic',
+      'Recorded Result',
+      'Current Result',
+      'Proposed Result',
+      'Current Score',
+      'Proposed Score',
+      'Changed Rules',
+    ],
+    rows: report.diffs.map(diff => [
+      diff.assessmentId,
+      diff.assessedAt.toISOString(),
+      diff.ageBand,
+      diff.citizenship,
+      diff.clinicId ?? '',
+      diff.recordedResult,
+      diff.baselineResult,
+      diff.candidateResult,
+      String(diff.baselineScore),
+      String(diff.candidateScore),
+      diff.changedRules
+        .map(change => `${change.ruleKey}: ${change.baseline ?? 'absent'} -> ${change.candidate ?? 'absent'}`)
+        .join('; '),
+    ]),
+  }
+}
+
+function countFlip(counts: FlipCounts, before: HealthierSGEvaluationResult, after: HealthierSGEvaluationResult) {
+  counts.total++
+  if (before === after) return
+  counts.flipped++
+  if (after === 'ELIGIBLE') counts.newlyEligible++
+  else if (before === 'ELIGIBLE' && after === 'NOT_ELIGIBLE') counts.newlyIneligible++
+  else counts.otherChanges++
+}
+
+function tallyRules(
+  accuracy: Map<string, RuleAccuracy>,
+  ruleSet: RuleAccuracy['ruleSet'],
+  outcome: EligibilityOutcome,
+  actualEligible: boolean
+) {
+  for (const rule of outcome.rules) {
+    if (rule.outcome !== 'PASS' && rule.outcome !== 'FAIL') continue
+    const key = `${ruleSet}:${rule.ruleKey}`
+    let entry = accuracy.get(key)
+    if (!entry) {
+      entry = {
+        ruleId: rule.ruleId,
+        ruleKey: rule.ruleKey,
+        version: rule.version,
+        ruleSet,
+        evaluated: 0,
+        truePositives: 0,
+        trueNegatives: 0,
+        falsePositives: 0,
+        falseNegatives: 0,
+        successRate: null,
+        falsePositiveRate: null,
+        falseNegativeRate: null,
+      }
+      accuracy.set(key, entry)
+    }
+
+    entry.evaluated++
+    const passed = rule.outcome === 'PASS'
+    if (passed && actualEligible) entry.truePositives++
+    else if (!passed && !actualEligible) entry.trueNegatives++
+    else if (passed) entry.falsePositives++
+    else entry.falseNegatives++
+  }
+}
+
+function finishAccuracy(entry: RuleAccuracy): RuleAccuracy {
+  const negatives = entry.trueNegatives + entry.falsePositives
+  const positives = entry.truePositives + entry.falseNegatives
+  return {
+    ...entry,
+    successRate: entry.evaluated > 0 ? round((entry.truePositives + entry.trueNegatives) / entry.evaluated) : null,
+    falsePositiveRate: negatives > 0 ? round(entry.falsePositives / negatives) : null,
+    falseNegativeRate: positives > 0 ? round(entry.falseNegatives / positives) : null,
+  }
+}
+
+function changedRules(before: EligibilityOutcome, after: EligibilityOutcome): RuleChange[] {
+  const beforeByKey = new Map(before.rules.map(rule => [rule.ruleKey, rule]))
+  const afterByKey = new Map(after.rules.map(rule => [rule.ruleKey, rule]))
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])]
+
+  return keys.flatMap(ruleKey => {
+    const was = beforeByKey.get(ruleKey)
+    const now = afterByKey.get(ruleKey)
+    if (was && now && was.outcome === now.outcome) return []
+    return [
+      {
+        ruleKey,
+        baseline: was?.outcome ?? null,
+        candidate: now?.outcome ?? null,
+        explanation: (now ?? was)!.explanation,
+      },
+    ]
+  })
+}
+
+function segment(map: Map<string, FlipCounts>, key: string): FlipCounts {
+  let counts = map.get(key)
+  if (!counts) {
+    counts = emptyFlips()
+    map.set(key, counts)
+  }
+  return counts
+}
+
+function toSegments(map: Map<string, FlipCounts>): SegmentFlips[] {
+  return [...map.entries()]
+    .map(([segment, counts]) => ({ segment, ...counts }))
+    .sort((a, b) => b.flipped - a.flipped || b.total - a.total || a.segment.localeCompare(b.segment))
+}
+
+function emptyFlips(): FlipCounts {
+  return { total: 0, flipped: 0, newlyEligible: 0, newlyIneligible: 0, otherChanges: 0 }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -0,0 +1,98 @@
+import type { EligibilityRuleDefinition } from './rule-engine'
+
+/**
+ * Built-in Healthier SG eligibility rules
+ *
+ * Version 1 of the rules seeded into ProgramEligibilityRule, and the rules used when a
+ * program has none stored. Policy changes are published as new rule versions in the
+ * database, not edited here.
+ */
+export const DEFAULT_HEALTHIER_SG_RULES: EligibilityRuleDefinition[] = [
+  {
+    id: null,
+    ruleKey: 'age-40-plus',
+    version: 1,
+    name: 'Age Requirement',
+    ruleType: 'AGE_BASED',
+    description: 'Applicant must be 40 years or older',
+    evaluationOrder: 1,
+    logic: {
+      weight: 25,
+      passMessage: 'Meets age requirement',
+      failMessage: 'Must be 40 or older to qualify',
+    },
+    conditions: [{ fact: 'age', op: 'gte', value: 40, label: 'Age' }],
+    exceptions: [
+      {
+        when: { fact: 'hasChronicConditions', op: 'eq', value: true },
+        result: 'PASS',
+        reason: 'Under 40 with chronic conditions - eligible for priority enrollment',
+      },
+    ],
+  },
+  {
+    id: null,
+    ruleKey: 'citizenship-status',
+    version: 1,
+    name: 'Citizenship Status',
+    ruleType: 'DEMOGRAPHIC',
+    description: 'Must be Singapore Citizen or Permanent Resident',
+    evaluationOrder: 2,
+    logic: {
+      weight: 30,
+      passMessage: 'Meets citizenship requirement',
+      failMessage: 'Must be Singapore Citizen or PR',
+    },
+    conditions: [{ fact: 'citizenshipStatus', op: 'in', value: ['CITIZEN', 'PR'], label: 'Citizenship status' }],
+    exceptions: [],
+  },
+  {
+    id: null,
+    ruleKey: 'chronic-conditions',
+    version: 1,
+    name: 'Chronic Conditions Priority',
+    ruleType: 'MEDICAL_CONDITION',
+    description: 'Having chronic conditions qualifies for priority enrollment',
+    evaluationOrder: 3,
+    logic: {
+      required: false,
+      weight: 20,
+      passMessage: 'Has chronic conditions - eligible for priority',
+      failMessage: 'No chronic conditions reported',
+    },
+    conditions: [{ fact: 'hasChronicConditions', op: 'eq', value: true, label: 'Chronic conditions' }],
+    exceptions: [],
+  },
+  {
+    id: null,
+    ruleKey: 'consent-to-screening',
+    version: 1,
+    name: 'Health Screening Consent',
+    ruleType: 'BEHAVIORAL',
+    description: 'Must consent to health screening and data collection',
+    evaluationOrder: 4,
+    logic: {
+      weight: 15,
+      passMessage: 'Consents to screening requirements',
+      failMessage: 'Screening consent required',
+    },
+    conditions: [{ fact: 'consentToScreening', op: 'eq', value: true, label: 'Screening consent' }],
+    exceptions: [],
+  },
+  {
+    id: null,
+    ruleKey: 'program-commitment',
+    version: 1,
+    name: 'Program Commitment',
+    ruleType: 'BEHAVIORAL',
+    description: 'Must demonstrate willingness to participate',
+    evaluationOrder: 5,
+    logic: {
+      weight: 10,
+      passMessage: 'Shows commitment to program',
+      failMessage: 'Must be willing to participate actively',
+    },
+    conditions: [{ fact: 'commitmentLevel', op: 'in', value: ['HIGH', 'MODERATE'], label: 'Commitment level' }],
+    exceptions: [],
+  },
+]
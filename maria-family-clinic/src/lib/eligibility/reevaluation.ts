@@ -0,0 +1,473 @@
+import { addDays, addMonths, addYears } from 'date-fns'
+import type {
+  HealthierSGEvaluationResult,
+  HealthierSGEvaluationType,
+  HealthierSGRecalculationFrequency,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client'
+import { queueNotification } from '../notifications/queue'
+import { buildEligibilityFacts, type EligibilityFacts } from './rule-engine'
+import { EligibilityRuleService, summarizeRun, type EligibilityRuleSet, type EligibilityRun } from './service'
+
+/**
+ * Eligibility Re-evaluation Job - Re-checks applicants as rules and circumstances change
+ *
+ * When a dynamic rule's nextEvaluation has passed, everyone enrolled in its program, and
+ * everyone whose latest assessment was not eligible, is re-evaluated. Between sweeps, a
+ * person is re-evaluated as soon as their UserProfile or HealthProfile changes. Each
+ * subject remembers when it was last evaluated (enrollmentData.eligibility for enrolments,
+ * integrationData.reevaluation for assessments), so an interrupted sweep resumes where it
+ * stopped. Outcome changes are recorded, audited and notified; rules' lastEvaluated and
+ * nextEvaluation only advance once their sweep has completed.
+ */
+
+export interface ReevaluationOptions {
+  programCode?: string
+  batchSize?: number
+  maxSubjects?: number // Evaluation budget per run
+  now?: Date
+}
+
+export interface ReevaluationResult {
+  programId: string | null
+  dueRules: number
+  sweepComplete: boolean
+  evaluated: number
+  changed: number
+  newlyEligible: number
+  newlyIneligible: number
+  notifications: number
+  failed: number
+}
+
+export type SubjectMarker = {
+  result: HealthierSGEvaluationResult
+  runId: string
+  evaluatedAt: string
+  previousResult?: HealthierSGEvaluationResult
+}
+
+interface Subject {
+  userId: string
+  enrollment: { id: string; clinicId: string | null; enrollmentData: Record<string, unknown> } | null
+  assessment: {
+    id: string
+    questionnaireResponses: Prisma.JsonValue
+    myInfoData: Prisma.JsonValue
+    integrationData: Record<string, unknown>
+  }
+  previousResult: HealthierSGEvaluationResult
+  lastEvaluatedAt: Date
+}
+
+const ENROLLMENT_STATUSES_RECHECKED = ['ACTIVE', 'PENDING_VERIFICATION', 'SUSPENDED'] as const
+const SWEEP_FREQUENCIES_EXCLUDED: HealthierSGRecalculationFrequency[] = ['REAL_TIME', 'EVENT_TRIGGERED']
+const REEVALUATION_ACTOR = 'SYSTEM'
+
+/**
+ * When a rule with this frequency is next due, or null when it is not swept on a schedule
+ */
+export function nextEvaluationDate(frequency: HealthierSGRecalculationFrequency, from: Date): Date | null {
+  switch (frequency) {
+    case 'DAILY':
+      return addDays(from, 1)
+    case 'WEEKLY':
+      return addDays(from, 7)
+    case 'MONTHLY':
+      return addMonths(from, 1)
+    case 'QUARTERLY':
+      return addMonths(from, 3)
+    case 'ANNUALLY':
+      return addYears(from, 1)
+    default:
+      return null
+  }
+}
+
+/**
+ * Overlay the person's current profile on the facts they gave at assessment
+ */
+export function applyProfileFacts(
+  facts: EligibilityFacts,
+  profile: { dateOfBirth?: Date | null; chronicConditions?: string[] | null },
+  now: Date
+): EligibilityFacts {
+  const updated = { ...facts }
+  if (profile.dateOfBirth) {
+    updated.age = buildEligibilityFacts([], { dateOfBirth: profile.dateOfBirth.toISOString() }, now).age
+  }
+  if (profile.chronicConditions) {
+    updated.chronicConditions = profile.chronicConditions
+    updated.hasChronicConditions = profile.chronicConditions.length > 0
+  }
+  return updated
+}
+
+export class EligibilityReevaluationJob {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly rules = new EligibilityRuleService(db)
+  ) {}
+
+  async run(options: ReevaluationOptions = {}): Promise<ReevaluationResult> {
+    const now = options.now ?? new Date()
+    const batchSize = options.batchSize ?? 200
+    let budget = options.maxSubjects ?? 5000
+    const ruleSet = await this.rules.loadRules(options.programCode, now)
+    const { programId } = ruleSet
+    const result: ReevaluationResult = {
+      programId,
+      dueRules: 0,
+      sweepComplete: true,
+      evaluated: 0,
+      changed: 0,
+      newlyEligible: 0,
+      newlyIneligible: 0,
+      notifications: 0,
+      failed: 0,
+    }
+    if (!programId) return result
+
+    const dueRules = await this.db.programEligibilityRule.findMany({
+      where: {
+        programId,
+        isActive: true,
+        isDynamic: true,
+        recalculationFrequency: { notIn: SWEEP_FREQUENCIES_EXCLUDED },
+        effectiveFrom: { lte: now },
+        AND: [
+          { OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }] },
+          { OR: [{ nextEvaluation: null }, { nextEvaluation: { lte: now } }] },
+        ],
+      },
+      select: { id: true, recalculationFrequency: true, nextEvaluation: true },
+    })
+    result.dueRules = dueRules.length
+
+    // Pin the due time of never-scheduled rules so an interrupted sweep can resume
+    for (const rule of dueRules.filter(rule => !rule.nextEvaluation)) {
+      await this.db.programEligibilityRule.update({ where: { id: rule.id }, data: { nextEvaluation: now } })
+      rule.nextEvaluation = now
+    }
+
+    // Subjects last evaluated before the earliest due time are part of the sweep
+    const sweepFrom = dueRules.length
+      ? new Date(Math.min(...dueRules.map(rule => (rule.nextEvaluation ?? now).getTime())))
+      : null
+
+    for (const load of [this.enrolledSubjects.bind(this), this.unenrolledSubjects.bind(this)]) {
+      let cursor: string | null = null
+      do {
+        if (budget <= 0) {
+          result.sweepComplete = false
+          break
+        }
+        const page = await load(programId, cursor, batchSize)
+        cursor = page.cursor
+
+        for (const subject of page.subjects) {
+          const profileChanged = page.profileUpdatedAt.get(subject.userId)
+          const inSweep = sweepFrom !== null && subject.lastEvaluatedAt < sweepFrom
+          const triggered = profileChanged !== undefined && profileChanged > subject.lastEvaluatedAt
+          if (!inSweep && !triggered) continue
+
+          if (budget <= 0) {
+            result.sweepComplete = false
+            cursor = null
+            break
+          }
+          budget--
+
+          try {
+            await this.reevaluate(
+              subject,
+              page.profiles.get(subject.userId) ?? {},
+              ruleSet,
+              inSweep ? 'PERIODIC' : 'TRIGGERED',
+              now,
+              result
+            )
+            result.evaluated++
+          } catch {
+            result.failed++
+          }
+        }
+      } while (cursor !== null)
+    }
+
+    if (result.sweepComplete && result.failed === 0) {
+      for (const rule of dueRules) {
+        await this.db.programEligibilityRule.update({
+          where: { id: rule.id },
+          data: { lastEvaluated: now, nextEvaluation: nextEvaluationDate(rule.recalculationFrequency, now) },
+        })
+      }
+    }
+
+    return result
+  }
+
+  private async reevaluate(
+    subject: Subject,
+    profile: { dateOfBirth?: Date | null; chronicConditions?: string[] | null },
+    ruleSet: EligibilityRuleSet,
+    evaluationType: HealthierSGEvaluationType,
+    now: Date,
+    result: ReevaluationResult
+  ) {
+    const facts = applyProfileFacts(
+      buildEligibilityFacts(
+        subject.assessment.questionnaireResponses as { questionId: string; value: unknown }[],
+        subject.assessment.myInfoData as Record<string, unknown> | null,
+        now
+      ),
+      profile,
+      now
+    )
+    const run = await this.rules.evaluate(facts, { ruleSet, record: false, now })
+    const changed = run.result !== subject.previousResult
+    const marker: SubjectMarker = {
+      result: run.result,
+      runId: run.runId,
+      evaluatedAt: now.toISOString(),
+      ...(changed && { previousResult: subject.previousResult }),
+    }
+
+    if (subject.enrollment) {
+      await this.db.programEnrollment.update({
+        where: { id: subject.enrollment.id },
+        data: { enrollmentData: { ...subject.enrollment.enrollmentData, eligibility: marker } as Prisma.InputJsonObject },
+      })
+    } else {
+      await this.db.eligibilityAssessment.update({
+        where: { id: subject.assessment.id },
+        data: { integrationData: { ...subject.assessment.integrationData, reevaluation: marker } as Prisma.InputJsonObject },
+      })
+    }
+    if (!changed) return
+
+    result.changed++
+    if (run.result === 'ELIGIBLE') result.newlyEligible++
+    else if (subject.previousResult === 'ELIGIBLE') result.newlyIneligible++
+
+    // A person who is not enrolled gets a fresh assessment they can register with
+    let assessmentId = subject.assessment.id
+    if (!subject.enrollment) {
+      const reassessment = await this.db.eligibilityAssessment.create({
+        data: {
+          userId: subject.userId,
+          questionnaireResponses: subject.assessment.questionnaireResponses as Prisma.InputJsonValue,
+          myInfoData: (subject.assessment.myInfoData ?? undefined) as Prisma.InputJsonValue | undefined,
+          evaluationResult: summarizeRun(run),
+          eligibilityStatus: run.result,
+          assessmentDate: now,
+          ageAtAssessment: typeof facts.age === 'number' ? facts.age : null,
+          processedBy: REEVALUATION_ACTOR,
+          processingNotes: `Re-evaluated after ${evaluationType === 'PERIODIC' ? 'scheduled rule review' : 'profile change'}`,
+          integrationData: { reevaluation: marker } as Prisma.InputJsonObject,
+        },
+      })
+      assessmentId = reassessment.id
+    }
+
+    await this.rules.recordRun(run, facts, {
+      userId: subject.userId,
+      enrollmentId: subject.enrollment?.id,
+      assessmentId,
+      evaluationType,
+    })
+
+    await this.db.healthierSGAuditLog.create({
+      data: {
+        programId: ruleSet.programId,
+        enrollmentId: subject.enrollment?.id,
+        action: 'UPDATE',
+        entityType: subject.enrollment ? 'ProgramEnrollment' : 'EligibilityAssessment',
+        entityId: subject.enrollment?.id ?? assessmentId,
+        changes: {
+          field: 'eligibility',
+          runId: run.runId,
+          evaluationType,
+          ruleVersions: run.ruleVersions,
+        },
+        performedBy: REEVALUATION_ACTOR,
+        performedByRole: REEVALUATION_ACTOR,
+        timestamp: now,
+        dataSensitivity: 'MEDICAL',
+        accessReason: 'Automated eligibility re-evaluation',
+        pdpaRelevant: true,
+        mohCompliance: true,
+        previousValues: { result: subject.previousResult },
+        newValues: { result: run.result, score: run.score, reason: run.summary },
+        riskLevel: run.result === 'ELIGIBLE' ? 'LOW' : 'MEDIUM',
+      },
+    })
+
+    result.notifications += await this.notify(subject, run, assessmentId)
+  }
+
+  private async notify(subject: Subject, run: EligibilityRun, assessmentId: string): Promise<number> {
+    const notifications: Prisma.ContactNotificationUncheckedCreateInput[] = []
+
+    if (run.result === 'ELIGIBLE') {
+      notifications.push({
+        userId: subject.userId,
+        type: 'STATUS_UPDATE',
+        channel: 'EMAIL',
+        priority: 'NORMAL',
+        title: 'You are now eligible for Healthier SG',
+        message: subject.enrollment
+          ? 'Your Healthier SG eligibility has been confirmed. No action is needed.'
+          : 'Based on your latest details you now qualify for Healthier SG. You can complete your registration online.',
+        actionUrl: subject.enrollment ? '/healthier-sg' : `/healthier-sg/register?assessmentId=${assessmentId}`,
+        actionText: subject.enrollment ? 'View enrolment' : 'Register now',
+      })
+    } else if (subject.enrollment) {
+      notifications.push({
+        userId: subject.userId,
+        type: 'STATUS_UPDATE',
+        channel: 'EMAIL',
+        priority: 'HIGH',
+        title: 'Your Healthier SG eligibility has changed',
+        message: `${run.summary}. Your clinic will contact you about your enrolment.`,
+        actionUrl: '/healthier-sg',
+        actionText: 'View details',
+      })
+    }
+
+    if (subject.enrollment?.clinicId) {
+      const staff = await this.db.contactAgentProfile.findMany({
+        where: { isActive: true, clinicIds: { has: subject.enrollment.clinicId } },
+        select: { userId: true },
+      })
+      for (const { userId } of staff) {
+        notifications.push({
+          userId,
+          type: 'STATUS_UPDATE',
+          channel: 'IN_APP',
+          priority: run.result === 'ELIGIBLE' ? 'NORMAL' : 'HIGH',
+          title: `Healthier SG eligibility changed: ${subject.previousResult} → ${run.result}`,
+          message: `An enrolled patient was re-evaluated. ${run.summary}.`,
+          actionUrl: `/admin/healthier-sg/enrollments/${subject.enrollment.id}`,
+          actionText: 'Review enrolment',
+        })
+      }
+    }
+
+    let sent = 0
+    for (const data of notifications) {
+      if (await queueNotification(this.db, data)) sent++
+    }
+    return sent
+  }
+
+  private async enrolledSubjects(programId: string, cursor: string | null, take: number) {
+    const enrollments = await this.db.programEnrollment.findMany({
+      where: {
+        programId,
+        status: { in: [...ENROLLMENT_STATUSES_RECHECKED] },
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      select: { id: true, userId: true, clinicId: true, enrollmentData: true, enrollmentDate: true },
+      orderBy: { id: 'asc' },
+      take,
+    })
+    const userIds = enrollments.map(enrollment => enrollment.userId)
+    const [assessments, context] = await Promise.all([this.latestAssessments(userIds), this.profiles(userIds)])
+
+    const subjects: Subject[] = []
+    for (const enrollment of enrollments) {
+      const assessment = assessments.get(enrollment.userId)
+      if (!assessment) continue // Enrolled at a clinic without an online assessment to replay
+
+      const enrollmentData = asRecord(enrollment.enrollmentData)
+      const marker = enrollmentData.eligibility as SubjectMarker | undefined
+      subjects.push({
+        userId: enrollment.userId,
+        enrollment: { id: enrollment.id, clinicId: enrollment.clinicId, enrollmentData },
+        assessment,
+        previousResult: marker?.result ?? 'ELIGIBLE',
+        lastEvaluatedAt: marker ? new Date(marker.evaluatedAt) : enrollment.enrollmentDate,
+      })
+    }
+
+    return { subjects, cursor: enrollments.length === take ? enrollments[enrollments.length - 1]!.id : null, ...context }
+  }
+
+  private async unenrolledSubjects(programId: string, cursor: string | null, take: number) {
+    const latest = await this.db.eligibilityAssessment.findMany({
+      where: { isValid: true, ...(cursor && { userId: { gt: cursor } }) },
+      distinct: ['userId'],
+      orderBy: [{ userId: 'asc' }, { assessmentDate: 'desc' }],
+      select: {
+        id: true,
+        userId: true,
+        questionnaireResponses: true,
+        myInfoData: true,
+        integrationData: true,
+        eligibilityStatus: true,
+        assessmentDate: true,
+      },
+      take,
+    })
+    const userIds = latest.map(assessment => assessment.userId)
+    const [enrolled, context] = await Promise.all([
+      this.db.programEnrollment.findMany({ where: { programId, userId: { in: userIds } }, select: { userId: true } }),
+      this.profiles(userIds),
+    ])
+    const enrolledUserIds = new Set(enrolled.map(enrollment => enrollment.userId))
+
+    const subjects: Subject[] = latest
+      .filter(assessment => assessment.eligibilityStatus !== 'ELIGIBLE' && !enrolledUserIds.has(assessment.userId))
+      .map(assessment => {
+        const integrationData = asRecord(assessment.integrationData)
+        const marker = integrationData.reevaluation as SubjectMarker | undefined
+        return {
+          userId: assessment.userId,
+          enrollment: null,
+          assessment: { ...assessment, integrationData },
+          previousResult: (marker?.result ?? assessment.eligibilityStatus) as HealthierSGEvaluationResult,
+          lastEvaluatedAt: marker ? new Date(marker.evaluatedAt) : assessment.assessmentDate,
+        }
+      })
+
+    return { subjects, cursor: latest.length === take ? latest[latest.length - 1]!.userId : null, ...context }
+  }
+
+  private async latestAssessments(userIds: string[]) {
+    const rows = await this.db.eligibilityAssessment.findMany({
+      where: { userId: { in: userIds }, isValid: true },
+      distinct: ['userId'],
+      orderBy: [{ userId: 'asc' }, { assessmentDate: 'desc' }],
+      select: { id: true, userId: true, questionnaireResponses: true, myInfoData: true, integrationData: true },
+    })
+    return new Map(rows.map(row => [row.userId, { ...row, integrationData: asRecord(row.integrationData) }]))
+  }
+
+  private async profiles(userIds: string[]) {
+    const [userProfiles, healthProfiles] = await Promise.all([
+      this.db.userProfile.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, dateOfBirth: true, updatedAt: true },
+      }),
+      this.db.healthProfile.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, chronicConditions: true, updatedAt: true },
+      }),
+    ])
+
+    const profiles = new Map<string, { dateOfBirth?: Date | null; chronicConditions?: string[] | null }>()
+    const profileUpdatedAt = new Map<string, Date>()
+    for (const row of [...userProfiles, ...healthProfiles]) {
+      profiles.set(row.userId, { ...profiles.get(row.userId), ...row })
+      const seen = profileUpdatedAt.get(row.userId)
+      if (!seen || row.updatedAt > seen) profileUpdatedAt.set(row.userId, row.updatedAt)
+    }
+    return { profiles, profileUpdatedAt }
+  }
+}
+
+function asRecord(value: Prisma.JsonValue): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
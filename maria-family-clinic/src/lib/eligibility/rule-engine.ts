@@ -0,0 +1,506 @@
+import type {
+  HealthierSGEligibilityRuleType,
+  HealthierSGEvaluationResult,
+  ProgramEligibilityRule,
+} from '@prisma/client'
+
+/**
+ * Eligibility Rule Engine - Interprets ProgramEligibilityRule JSON
+ *
+ * A rule's conditions are the union of `ruleLogic.condition`, `conditions` and the
+ * category arrays (demographicRules, medicalRules, ...), all of which must hold. Missing
+ * facts make a condition unknown rather than false, so a rule can send the applicant to
+ * review instead of rejecting them. Exceptions are checked first and override the
+ * conditions. Rules run in evaluationOrder and every result carries the checks behind it.
+ */
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'exists'
+  | 'between'
+
+export interface FactCondition {
+  fact: string // Dotted path into the facts, e.g. "age" or "address.postalCode"
+  op: ConditionOperator
+  value?: unknown
+  label?: string // Human-readable name of the fact for explanations
+}
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | FactCondition
+
+export interface RuleLogic {
+  condition?: RuleCondition
+  required?: boolean // Default true; optional rules only contribute to the score
+  weight?: number // Default 10
+  passMessage?: string
+  failMessage?: string
+  onMissingFacts?: 'FAIL' | 'REVIEW' // Default FAIL
+  stopOnFail?: boolean // Skip the remaining rules when this required rule fails
+}
+
+export interface RuleException {
+  when: RuleCondition
+  result: 'PASS' | 'FAIL' | 'REVIEW'
+  reason: string
+}
+
+export interface EligibilityRuleDefinition {
+  id: string | null // Null for built-in rules that are not stored
+  ruleKey: string
+  version: number
+  name: string
+  ruleType: HealthierSGEligibilityRuleType
+  description: string | null
+  evaluationOrder: number
+  logic: RuleLogic
+  conditions: RuleCondition[]
+  exceptions: RuleException[]
+}
+
+export type EligibilityFacts = Record<string, unknown>
+
+export interface ConditionCheck {
+  fact: string
+  label: string
+  op: ConditionOperator
+  expected: unknown
+  actual: unknown
+  passed: boolean | null // Null when the fact is missing
+  description: string
+}
+
+export type RuleOutcome = 'PASS' | 'FAIL' | 'REVIEW' | 'SKIPPED'
+
+export interface RuleResult {
+  ruleId: string | null
+  ruleKey: string
+  version: number
+  name: string
+  ruleType: HealthierSGEligibilityRuleType
+  required: boolean
+  weight: number
+  outcome: RuleOutcome
+  score: number // Weight earned
+  explanation: string
+  checks: ConditionCheck[]
+  missingFacts: string[]
+  exceptionApplied: string | null
+}
+
+export interface EligibilityOutcome {
+  result: HealthierSGEvaluationResult
+  isEligible: boolean
+  score: number // 0-100
+  confidence: number // 0-1
+  passingScore: number
+  rules: RuleResult[]
+  summary: string
+  evaluatedAt: Date
+}
+
+export const DEFAULT_PASSING_SCORE = 70
+const DEFAULT_WEIGHT = 10
+
+const OPERATOR_TEXT: Record<ConditionOperator, string> = {
+  eq: 'equal to',
+  neq: 'not equal to',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+  in: 'one of',
+  notIn: 'not one of',
+  contains: 'including',
+  exists: 'provided',
+  between: 'between',
+}
+
+const CATEGORY_FIELDS = [
+  'demographicRules',
+  'medicalRules',
+  'geographicRules',
+  'socioeconomicRules',
+  'behavioralRules',
+] as const
+
+/**
+ * Build a rule definition from a stored rule, validating its JSON
+ */
+export function toRuleDefinition(
+  row: Pick<
+    ProgramEligibilityRule,
+    | 'id'
+    | 'ruleKey'
+    | 'version'
+    | 'ruleName'
+    | 'ruleType'
+    | 'ruleDescription'
+    | 'evaluationOrder'
+    | 'ruleLogic'
+    | 'conditions'
+    | 'exceptions'
+    | (typeof CATEGORY_FIELDS)[number]
+  >
+): EligibilityRuleDefinition {
+  const logic = (isObject(row.ruleLogic) ? row.ruleLogic : {}) as RuleLogic
+  const conditions = [row.conditions, ...CATEGORY_FIELDS.map(field => row[field])].flatMap(value =>
+    Array.isArray(value) ? (value as RuleCondition[]) : []
+  )
+  const exceptions = Array.isArray(row.exceptions) ? (row.exceptions as unknown as RuleException[]) : []
+
+  const definition: EligibilityRuleDefinition = {
+    id: row.id,
+    ruleKey: row.ruleKey,
+    version: row.version,
+    name: row.ruleName,
+    ruleType: row.ruleType,
+    description: row.ruleDescription,
+    evaluationOrder: row.evaluationOrder,
+    logic,
+    conditions,
+    exceptions,
+  }
+
+  const errors = validateRuleDefinition(definition)
+  if (errors.length > 0) throw new Error(`Rule ${row.ruleKey} v${row.version} is invalid: ${errors.join('; ')}`)
+  return definition
+}
+
+/**
+ * Structural problems with a rule's logic, conditions and exceptions
+ */
+export function validateRuleDefinition(
+  rule: Pick<EligibilityRuleDefinition, 'logic' | 'conditions' | 'exceptions'>
+): string[] {
+  const errors: string[] = []
+  const { logic } = rule
+
+  if (logic.weight !== undefined && (typeof logic.weight !== 'number' || logic.weight < 0)) {
+    errors.push('weight must be a non-negative number')
+  }
+  if (logic.onMissingFacts && !['FAIL', 'REVIEW'].includes(logic.onMissingFacts)) {
+    errors.push('onMissingFacts must be FAIL or REVIEW')
+  }
+  if (logic.condition) errors.push(...validateCondition(logic.condition, 'condition'))
+  rule.conditions.forEach((condition, i) => errors.push(...validateCondition(condition, `conditions[${i}]`)))
+  rule.exceptions.forEach((exception, i) => {
+    if (!isObject(exception) || !exception.when) {
+      errors.push(`exceptions[${i}] needs a "when" condition`)
+      return
+    }
+    errors.push(...validateCondition(exception.when, `exceptions[${i}].when`))
+    if (!['PASS', 'FAIL', 'REVIEW'].includes(exception.result)) {
+      errors.push(`exceptions[${i}].result must be PASS, FAIL or REVIEW`)
+    }
+    if (!exception.reason) errors.push(`exceptions[${i}] needs a reason`)
+  })
+
+  return errors
+}
+
+export function validateCondition(condition: unknown, path = 'condition'): string[] {
+  if (!isObject(condition)) return [`${path} must be an object`]
+
+  if ('all' in condition || 'any' in condition) {
+    const children = (condition as { all?: unknown; any?: unknown }).all ?? (condition as { any?: unknown }).any
+    if (!Array.isArray(children) || children.length === 0) return [`${path} needs a non-empty list`]
+    return children.flatMap((child, i) => validateCondition(child, `${path}[${i}]`))
+  }
+  if ('not' in condition) return validateCondition(condition.not, `${path}.not`)
+
+  const { fact, op, value } = condition as Partial<FactCondition>
+  if (typeof fact !== 'string' || !fact) return [`${path} needs a fact`]
+  if (!op || !(op in OPERATOR_TEXT)) return [`${path} has unknown operator ${String(op)}`]
+  if ((op === 'in' || op === 'notIn') && !Array.isArray(value)) return [`${path} "${op}" needs a list value`]
+  if (op === 'between' && !(Array.isArray(value) && value.length === 2)) return [`${path} "between" needs [min, max]`]
+  if (op !== 'exists' && value === undefined) return [`${path} needs a value`]
+  return []
+}
+
+/**
+ * Evaluate a condition with three-valued logic: null means a fact it depends on is missing
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  facts: EligibilityFacts
+): { passed: boolean | null; checks: ConditionCheck[] } {
+  if ('all' in condition) {
+    const results = condition.all.map(child => evaluateCondition(child, facts))
+    const passed = results.some(r => r.passed === false) ? false : results.some(r => r.passed === null) ? null : true
+    return { passed, checks: results.flatMap(r => r.checks) }
+  }
+  if ('any' in condition) {
+    const results = condition.any.map(child => evaluateCondition(child, facts))
+    const passed = results.some(r => r.passed === true) ? true : results.some(r => r.passed === null) ? null : false
+    return { passed, checks: results.flatMap(r => r.checks) }
+  }
+  if ('not' in condition) {
+    const inner = evaluateCondition(condition.not, facts)
+    return { passed: inner.passed === null ? null : !inner.passed, checks: inner.checks }
+  }
+
+  const actual = resolveFact(facts, condition.fact)
+  const passed = condition.op === 'exists' ? isPresent(actual) : isPresent(actual) ? compare(condition, actual) : null
+  const label = condition.label ?? condition.fact
+  return {
+    passed,
+    checks: [
+      {
+        fact: condition.fact,
+        label,
+        op: condition.op,
+        expected: condition.value,
+        actual: actual ?? null,
+        passed,
+        description: describeCheck(label, condition, actual),
+      },
+    ],
+  }
+}
+
+/**
+ * Evaluate rules in evaluationOrder and combine them into an eligibility outcome
+ */
+export function evaluateRules(
+  rules: EligibilityRuleDefinition[],
+  facts: EligibilityFacts,
+  options: { passingScore?: number; now?: Date } = {}
+): EligibilityOutcome {
+  const passingScore = options.passingScore ?? DEFAULT_PASSING_SCORE
+  const ordered = [...rules].sort((a, b) => a.evaluationOrder - b.evaluationOrder || a.ruleKey.localeCompare(b.ruleKey))
+  const results: RuleResult[] = []
+  let stopped: string | null = null
+
+  for (const rule of ordered) {
+    if (stopped) {
+      results.push({
+        ...ruleHeader(rule),
+        outcome: 'SKIPPED',
+        score: 0,
+        explanation: `Not evaluated because "${stopped}" failed`,
+        checks: [],
+        missingFacts: [],
+        exceptionApplied: null,
+      })
+      continue
+    }
+
+    const result = evaluateRule(rule, facts)
+    results.push(result)
+    if (result.outcome === 'FAIL' && result.required && rule.logic.stopOnFail) stopped = rule.name
+  }
+
+  const totalWeight = results.reduce((sum, r) => sum + r.weight, 0)
+  const earned = results.reduce((sum, r) => sum + r.score, 0)
+  const score = totalWeight > 0 ? Math.round((earned / totalWeight) * 1000) / 10 : 0
+
+  const required = results.filter(r => r.required)
+  const failed = required.filter(r => r.outcome === 'FAIL' || r.outcome === 'SKIPPED')
+  const review = required.filter(r => r.outcome === 'REVIEW')
+
+  let result: HealthierSGEvaluationResult
+  let summary: string
+  if (failed.length > 0) {
+    result = 'NOT_ELIGIBLE'
+    summary = `Does not meet: ${failed.map(r => r.name).join(', ')}`
+  } else if (review.length > 0) {
+    result = 'REQUIRES_REVIEW'
+    summary = `Needs review: ${review.map(r => r.name).join(', ')}`
+  } else if (score < passingScore) {
+    result = 'NOT_ELIGIBLE'
+    summary = `Score ${score} is below the passing score of ${passingScore}`
+  } else {
+    result = 'ELIGIBLE'
+    summary = 'Meets all eligibility criteria for Healthier SG program'
+  }
+
+  return {
+    result,
+    isEligible: result === 'ELIGIBLE',
+    score,
+    confidence: result === 'REQUIRES_REVIEW' ? Math.min(score / 100, 0.5) : score / 100,
+    passingScore,
+    rules: results,
+    summary,
+    evaluatedAt: options.now ?? new Date(),
+  }
+}
+
+export function evaluateRule(rule: EligibilityRuleDefinition, facts: EligibilityFacts): RuleResult {
+  const header = ruleHeader(rule)
+
+  for (const exception of rule.exceptions) {
+    const match = evaluateCondition(exception.when, facts)
+    if (match.passed !== true) continue
+    return {
+      ...header,
+      outcome: exception.result,
+      score: exception.result === 'PASS' ? header.weight : 0,
+      explanation: exception.reason,
+      checks: match.checks,
+      missingFacts: [],
+      exceptionApplied: exception.reason,
+    }
+  }
+
+  const conditions = [...(rule.logic.condition ? [rule.logic.condition] : []), ...rule.conditions]
+  const { passed, checks } = conditions.length > 0 ? evaluateCondition({ all: conditions }, facts) : { passed: true, checks: [] }
+  const missingFacts = [...new Set(checks.filter(c => c.passed === null).map(c => c.label))]
+
+  let outcome: RuleOutcome
+  let explanation: string
+  if (passed === true) {
+    outcome = 'PASS'
+    explanation = rule.logic.passMessage ?? `Meets ${rule.name.toLowerCase()}`
+  } else if (passed === null && rule.logic.onMissingFacts === 'REVIEW') {
+    outcome = 'REVIEW'
+    explanation = `Missing information: ${missingFacts.join(', ')}`
+  } else {
+    outcome = 'FAIL'
+    const failedCheck = checks.find(c => c.passed === false) ?? checks.find(c => c.passed === null)
+    explanation = rule.logic.failMessage ?? failedCheck?.description ?? `Does not meet ${rule.name.toLowerCase()}`
+  }
+
+  return {
+    ...header,
+    outcome,
+    score: outcome === 'PASS' ? header.weight : 0,
+    explanation,
+    checks,
+    missingFacts,
+    exceptionApplied: null,
+  }
+}
+
+/**
+ * Facts for evaluation from questionnaire answers, with MyInfo data taking precedence
+ */
+export function buildEligibilityFacts(
+  responses: { questionId: string; value: unknown }[] | Record<string, unknown> | null | undefined,
+  myInfoData?: Record<string, unknown> | null,
+  now = new Date()
+): EligibilityFacts {
+  const facts: EligibilityFacts = Array.isArray(responses)
+    ? Object.fromEntries(responses.map(r => [r.questionId, r.value]))
+    : { ...(responses ?? {}) }
+
+  if (typeof facts.age === 'string' && facts.age.trim() !== '' && !Number.isNaN(Number(facts.age))) {
+    facts.age = Number(facts.age)
+  }
+
+  if (myInfoData) {
+    const dateOfBirth = typeof myInfoData.dateOfBirth === 'string' ? new Date(myInfoData.dateOfBirth) : null
+    if (dateOfBirth && !Number.isNaN(dateOfBirth.getTime())) facts.age = ageOn(dateOfBirth, now)
+    if (myInfoData.residentialStatus) facts.citizenshipStatus = myInfoData.residentialStatus
+    if (myInfoData.gender) facts.gender = myInfoData.gender
+    const address = myInfoData.address as { postalCode?: string } | undefined
+    if (address?.postalCode) facts.postalCode = address.postalCode
+    facts.myInfoVerified = true
+  }
+
+  return facts
+}
+
+function ageOn(dateOfBirth: Date, now: Date): number {
+  let age = now.getUTCFullYear() - dateOfBirth.getUTCFullYear()
+  const beforeBirthday =
+    now.getUTCMonth() < dateOfBirth.getUTCMonth() ||
+    (now.getUTCMonth() === dateOfBirth.getUTCMonth() && now.getUTCDate() < dateOfBirth.getUTCDate())
+  if (beforeBirthday) age--
+  return age
+}
+
+function ruleHeader(rule: EligibilityRuleDefinition) {
+  return {
+    ruleId: rule.id,
+    ruleKey: rule.ruleKey,
+    version: rule.version,
+    name: rule.name,
+    ruleType: rule.ruleType,
+    required: rule.logic.required ?? true,
+    weight: rule.logic.weight ?? DEFAULT_WEIGHT,
+  }
+}
+
+function compare({ op, value }: FactCondition, actual: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return looselyEqual(actual, value)
+    case 'neq':
+      return !looselyEqual(actual, value)
+    case 'gt':
+      return toNumber(actual) > toNumber(value)
+    case 'gte':
+      return toNumber(actual) >= toNumber(value)
+    case 'lt':
+      return toNumber(actual) < toNumber(value)
+    case 'lte':
+      return toNumber(actual) <= toNumber(value)
+    case 'in':
+      return (value as unknown[]).some(v => looselyEqual(actual, v))
+    case 'notIn':
+      return !(value as unknown[]).some(v => looselyEqual(actual, v))
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(v => looselyEqual(v, value))
+        : String(actual).toLowerCase().includes(String(value).toLowerCase())
+    case 'between': {
+      const [min, max] = value as [unknown, unknown]
+      return toNumber(actual) >= toNumber(min) && toNumber(actual) <= toNumber(max)
+    }
+    case 'exists':
+      return isPresent(actual)
+  }
+}
+
+function describeCheck(label: string, condition: FactCondition, actual: unknown): string {
+  const expected =
+    condition.op === 'exists'
+      ? ''
+      : condition.op === 'between'
+        ? ` ${(condition.value as unknown[]).map(formatValue).join(' and ')}`
+        : ` ${formatValue(condition.value)}`
+  const requirement = `${label} must be ${OPERATOR_TEXT[condition.op]}${expected}`
+  return isPresent(actual) ? `${requirement} (was ${formatValue(actual)})` : `${requirement} (not provided)`
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+function resolveFact(facts: EligibilityFacts, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), facts)
+}
+
+function looselyEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase()
+  if (typeof a === 'number' || typeof b === 'number') return toNumber(a) === toNumber(b)
+  return a === b
+}
+
+function toNumber(value: unknown): number {
+  if (value instanceof Date) return value.getTime()
+  return typeof value === 'number' ? value : Number(value)
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
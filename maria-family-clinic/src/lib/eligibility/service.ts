@@ -0,0 +1,601 @@
+import crypto from 'crypto'
+import {
+  Prisma,
+  type HealthierSGEvaluationResult,
+  type HealthierSGEvaluationType,
+  type ProgramEligibilityRule,
+  type PrismaClient,
+} from '@prisma/client'
+import { backtestRules, type BacktestCase, type BacktestReport } from './backtest'
+import { DEFAULT_HEALTHIER_SG_RULES } from './default-rules'
+import {
+  DEFAULT_PASSING_SCORE,
+  buildEligibilityFacts,
+  evaluateRules,
+  toRuleDefinition,
+  validateRuleDefinition,
+  type EligibilityFacts,
+  type EligibilityOutcome,
+  type EligibilityRuleDefinition,
+  type RuleCondition,
+  type RuleException,
+  type RuleLogic,
+  type RuleOutcome,
+} from './rule-engine'
+
+/**
+ * Eligibility Rule Service - Loads the rule versions in effect for a program, runs the
+ * rule engine and records one EligibilityEvaluation per rule, grouped by run id
+ *
+ * Rules are versioned by ruleKey. Publishing a change creates the next version and ends
+ * the previous one at the new version's effectiveFrom, so evaluations can always be traced
+ * to the exact rule text that produced them.
+ */
+
+export const HEALTHIER_SG_PROGRAM_CODE = process.env.HEALTHIER_SG_PROGRAM_CODE ?? 'HSG2025'
+
+export class EligibilityRuleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'EligibilityRuleError'
+  }
+}
+
+export interface EligibilityRuleSet {
+  programId: string | null
+  programCode: string
+  source: 'DATABASE' | 'BUILT_IN' // BUILT_IN when the program has no stored rules
+  passingScore: number
+  rules: EligibilityRuleDefinition[]
+}
+
+export interface EligibilityRun extends EligibilityOutcome {
+  runId: string
+  programId: string | null
+  source: EligibilityRuleSet['source']
+  ruleVersions: Record<string, number>
+}
+
+export interface EvaluateOptions {
+  programCode?: string
+  userId?: string
+  assessmentId?: string
+  enrollmentId?: string
+  evaluationType?: HealthierSGEvaluationType
+  record?: boolean // Default true; false for previews
+  ruleSet?: EligibilityRuleSet // Already-loaded rules, for batch evaluation
+  now?: Date
+}
+
+export interface RuleVersionInput {
+  ruleName: string
+  ruleType: ProgramEligibilityRule['ruleType']
+  ruleDescription?: string | null
+  evaluationOrder?: number
+  ruleLogic?: RuleLogic
+  conditions?: RuleCondition[]
+  demographicRules?: RuleCondition[]
+  medicalRules?: RuleCondition[]
+  geographicRules?: RuleCondition[]
+  socioeconomicRules?: RuleCondition[]
+  behavioralRules?: RuleCondition[]
+  exceptions?: RuleException[]
+  isActive?: boolean
+  isDynamic?: boolean
+  recalculationFrequency?: ProgramEligibilityRule['recalculationFrequency']
+  mohRequired?: boolean
+  legislativeBasis?: string | null
+}
+
+export interface PublishRuleVersionInput {
+  programCode?: string
+  ruleKey: string
+  changes: Partial<RuleVersionInput>
+  effectiveFrom?: Date
+  publishedBy: string
+  changeNotes?: string
+}
+
+export interface RuleDraft {
+  ruleKey: string
+  changes: Partial<RuleVersionInput> // Same semantics as publishRuleVersion, without saving
+}
+
+export interface BacktestInput {
+  programCode?: string
+  from?: Date
+  to?: Date
+  limit?: number // Most recent assessments to replay
+  candidateAt?: Date // Replay the rules in effect at this date, e.g. a scheduled version
+  drafts?: RuleDraft[] // Unsaved changes applied on top of the candidate rules
+  disableRuleKeys?: string[]
+  writeMetrics?: boolean // Store accuracy on the stored rule versions that were replayed
+  maxDiffs?: number
+  now?: Date
+}
+
+export interface BacktestResult extends BacktestReport {
+  cases: number
+  baselineVersions: Record<string, number>
+  candidateVersions: Record<string, number | 'DRAFT'>
+  clinics: Record<string, string> // Clinic id -> name for the clinic breakdown
+  metricsWritten: number
+}
+
+const RESULT_BY_OUTCOME: Record<Exclude<RuleOutcome, 'SKIPPED'>, HealthierSGEvaluationResult> = {
+  PASS: 'ELIGIBLE',
+  FAIL: 'NOT_ELIGIBLE',
+  REVIEW: 'REQUIRES_REVIEW',
+}
+
+const APPEAL_WINDOW_DAYS = 30
+
+export class EligibilityRuleService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * The latest active version of each rule in effect at `at`
+   */
+  async loadRules(programCode = HEALTHIER_SG_PROGRAM_CODE, at = new Date()): Promise<EligibilityRuleSet> {
+    const program = await this.db.healthierSGProgram.findUnique({
+      where: { programCode },
+      select: { id: true, eligibilityCriteria: true },
+    })
+    const criteria = program?.eligibilityCriteria as { passingScore?: unknown } | null
+    const passingScore = typeof criteria?.passingScore === 'number' ? criteria.passingScore : DEFAULT_PASSING_SCORE
+
+    const rows = program
+      ? await this.db.programEligibilityRule.findMany({
+          where: {
+            programId: program.id,
+            effectiveFrom: { lte: at },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+          },
+          orderBy: [{ ruleKey: 'asc' }, { version: 'desc' }],
+        })
+      : []
+
+    if (rows.length === 0) {
+      return {
+        programId: program?.id ?? null,
+        programCode,
+        source: 'BUILT_IN',
+        passingScore,
+        rules: DEFAULT_HEALTHIER_SG_RULES,
+      }
+    }
+
+    // Newest version per key; a retired rule's latest version is inactive
+    const latest = new Map<string, ProgramEligibilityRule>()
+    for (const row of rows) if (!latest.has(row.ruleKey)) latest.set(row.ruleKey, row)
+
+    return {
+      programId: program!.id,
+      programCode,
+      source: 'DATABASE',
+      passingScore,
+      rules: [...latest.values()].filter(row => row.isActive).map(toRuleDefinition),
+    }
+  }
+
+  /**
+   * Evaluate facts against the program's rules and record the run
+   */
+  async evaluate(facts: EligibilityFacts, options: EvaluateOptions = {}): Promise<EligibilityRun> {
+    const now = options.now ?? new Date()
+    const ruleSet = options.ruleSet ?? (await this.loadRules(options.programCode, now))
+    const outcome = evaluateRules(ruleSet.rules, facts, { passingScore: ruleSet.passingScore, now })
+    const run: EligibilityRun = {
+      ...outcome,
+      runId: crypto.randomUUID(),
+      programId: ruleSet.programId,
+      source: ruleSet.source,
+      ruleVersions: Object.fromEntries(ruleSet.rules.map(rule => [rule.ruleKey, rule.version])),
+    }
+
+    if (options.record !== false) await this.recordRun(run, facts, options)
+    return run
+  }
+
+  /**
+   * Store one EligibilityEvaluation per evaluated rule. Runs against built-in rules have no
+   * stored rule to reference and are not recorded.
+   */
+  async recordRun(
+    run: EligibilityRun,
+    facts: EligibilityFacts,
+    options: Omit<EvaluateOptions, 'programCode' | 'record' | 'ruleSet' | 'now'> = {}
+  ): Promise<number> {
+    if (run.source !== 'DATABASE') return 0
+
+    const now = run.evaluatedAt
+    const sourceSystems = facts.myInfoVerified ? ['MYINFO', 'QUESTIONNAIRE'] : ['QUESTIONNAIRE']
+    const appealDeadline = new Date(now.getTime() + APPEAL_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+    const { count } = await this.db.eligibilityEvaluation.createMany({
+      data: run.rules
+        .filter(rule => rule.ruleId && rule.outcome !== 'SKIPPED')
+        .map(rule => ({
+          runId: run.runId,
+          ruleId: rule.ruleId!,
+          ruleVersion: rule.version,
+          userId: options.userId,
+          assessmentId: options.assessmentId,
+          enrollmentId: options.enrollmentId,
+          evaluationDate: now,
+          evaluationType: options.evaluationType ?? 'INITIAL',
+          result: RESULT_BY_OUTCOME[rule.outcome as Exclude<RuleOutcome, 'SKIPPED'>],
+          score: rule.score,
+          reason: rule.explanation,
+          evaluatedData: Object.fromEntries(rule.checks.map(check => [check.fact, check.actual])) as Prisma.InputJsonObject,
+          sourceSystems,
+          validationRequired: rule.outcome === 'REVIEW',
+          requiresReview: rule.outcome === 'REVIEW',
+          appealDeadline: rule.outcome === 'FAIL' ? appealDeadline : null,
+          automationConfidence: run.confidence,
+          decisionFactors: {
+            required: rule.required,
+            weight: rule.weight,
+            outcome: rule.outcome,
+            exceptionApplied: rule.exceptionApplied,
+            checks: rule.checks,
+          } as unknown as Prisma.InputJsonObject,
+        })),
+    })
+    return count
+  }
+
+  /**
+   * The per-rule records of one evaluation run
+   */
+  async getRun(runId: string) {
+    return this.db.eligibilityEvaluation.findMany({
+      where: { runId },
+      include: { rule: { select: { ruleKey: true, ruleName: true, evaluationOrder: true } } },
+      orderBy: { rule: { evaluationOrder: 'asc' } },
+    })
+  }
+
+  /**
+   * All versions of a program's rules, newest first per rule
+   */
+  async listRuleVersions(programCode = HEALTHIER_SG_PROGRAM_CODE, ruleKey?: string) {
+    const program = await this.findProgram(programCode)
+    return this.db.programEligibilityRule.findMany({
+      where: { programId: program.id, ...(ruleKey && { ruleKey }) },
+      orderBy: [{ evaluationOrder: 'asc' }, { ruleKey: 'asc' }, { version: 'desc' }],
+      include: { _count: { select: { evaluations: true } } },
+    })
+  }
+
+  /**
+   * Publish the next version of a rule, or its first version when the key is new.
+   * Fields not in `changes` carry over from the current version.
+   */
+  async publishRuleVersion(input: PublishRuleVersionInput): Promise<ProgramEligibilityRule> {
+    const program = await this.findProgram(input.programCode ?? HEALTHIER_SG_PROGRAM_CODE)
+    const effectiveFrom = input.effectiveFrom ?? new Date()
+    const current = await this.db.programEligibilityRule.findFirst({
+      where: { programId: program.id, ruleKey: input.ruleKey },
+      orderBy: { version: 'desc' },
+    })
+
+    if (!current && (!input.changes.ruleName || !input.changes.ruleType)) {
+      throw new EligibilityRuleError('A new rule needs a ruleName and ruleType', 'BAD_REQUEST')
+    }
+    if (current && current.effectiveFrom >= effectiveFrom) {
+      throw new EligibilityRuleError(
+        `Version ${current.version + 1} must take effect after version ${current.version} (${current.effectiveFrom.toISOString()})`,
+        'BAD_REQUEST'
+      )
+    }
+
+    const fields = { ...(current ? versionedFields(current) : {}), ...input.changes } as RuleVersionInput
+    const errors = validateRuleDefinition({
+      logic: fields.ruleLogic ?? {},
+      conditions: [
+        ...(fields.conditions ?? []),
+        ...(fields.demographicRules ?? []),
+        ...(fields.medicalRules ?? []),
+        ...(fields.geographicRules ?? []),
+        ...(fields.socioeconomicRules ?? []),
+        ...(fields.behavioralRules ?? []),
+      ],
+      exceptions: fields.exceptions ?? [],
+    })
+    if (errors.length > 0) throw new EligibilityRuleError(`Invalid rule: ${errors.join('; ')}`, 'BAD_REQUEST')
+
+    const create = this.db.programEligibilityRule.create({
+      data: {
+        ...toRuleData(fields),
+        programId: program.id,
+        ruleKey: input.ruleKey,
+        version: (current?.version ?? 0) + 1,
+        effectiveFrom,
+        publishedBy: input.publishedBy,
+        changeNotes: input.changeNotes,
+      },
+    })
+
+    try {
+      if (!current) return await create
+      const [, created] = await this.db.$transaction([
+        this.db.programEligibilityRule.update({ where: { id: current.id }, data: { effectiveTo: effectiveFrom } }),
+        create,
+      ])
+      return created
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new EligibilityRuleError(`Rule ${input.ruleKey} was changed concurrently; reload and retry`, 'CONFLICT')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Replay historical assessments under the current rules and a candidate rule set, and
+   * report who would change outcome. The true outcome is the recorded decision, or the
+   * appeal decision where an appeal was decided.
+   */
+  async backtest(input: BacktestInput = {}): Promise<BacktestResult> {
+    const now = input.now ?? new Date()
+    const baseline = await this.loadRules(input.programCode, now)
+    const candidateSet = input.candidateAt ? await this.loadRules(input.programCode, input.candidateAt) : baseline
+
+    const disabled = new Set(input.disableRuleKeys ?? [])
+    const drafted = new Set((input.drafts ?? []).map(draft => draft.ruleKey))
+    const candidateRules = new Map(candidateSet.rules.map(rule => [rule.ruleKey, rule]))
+    for (const draft of input.drafts ?? []) {
+      candidateRules.set(draft.ruleKey, await this.draftDefinition(candidateRules.get(draft.ruleKey), draft))
+    }
+    disabled.forEach(ruleKey => candidateRules.delete(ruleKey))
+
+    const assessments = await this.db.eligibilityAssessment.findMany({
+      where: { isValid: true, assessmentDate: { gte: input.from, lte: input.to ?? now } },
+      select: { id: true, assessmentDate: true, questionnaireResponses: true, myInfoData: true, eligibilityStatus: true },
+      orderBy: { assessmentDate: 'desc' },
+      take: input.limit ?? 2000,
+    })
+    const appeals = await this.db.eligibilityAppeal.findMany({
+      where: {
+        assessmentId: { in: assessments.map(a => a.id) },
+        OR: [{ decision: { in: ['APPROVED', 'REJECTED'] } }, { status: { in: ['APPROVED', 'REJECTED'] } }],
+      },
+      select: { assessmentId: true, decision: true, status: true },
+    })
+    const appealDecisions = new Map(appeals.map(appeal => [appeal.assessmentId, appeal.decision ?? appeal.status]))
+
+    const cases: BacktestCase[] = assessments.map(assessment => {
+      const facts = buildEligibilityFacts(
+        assessment.questionnaireResponses as { questionId: string; value: unknown }[],
+        assessment.myInfoData as Record<string, unknown> | null,
+        assessment.assessmentDate
+      )
+      const clinicId = facts.selectedClinicId ?? facts.clinicId
+      const appeal = appealDecisions.get(assessment.id)
+      return {
+        assessmentId: assessment.id,
+        assessedAt: assessment.assessmentDate,
+        facts,
+        clinicId: typeof clinicId === 'string' ? clinicId : null,
+        recordedResult: assessment.eligibilityStatus,
+        actualEligible: appeal
+          ? appeal === 'APPROVED'
+          : assessment.eligibilityStatus === 'ELIGIBLE'
+            ? true
+            : assessment.eligibilityStatus === 'NOT_ELIGIBLE'
+              ? false
+              : null,
+      }
+    })
+
+    const report = backtestRules(
+      cases,
+      { rules: baseline.rules, passingScore: baseline.passingScore },
+      { rules: [...candidateRules.values()], passingScore: candidateSet.passingScore },
+      { maxDiffs: input.maxDiffs }
+    )
+
+    const clinicIds = report.byClinic.map(segment => segment.segment).filter(id => id !== 'UNKNOWN')
+    const clinics = clinicIds.length
+      ? await this.db.clinic.findMany({ where: { id: { in: clinicIds } }, select: { id: true, name: true } })
+      : []
+
+    let metricsWritten = 0
+    if (input.writeMetrics) {
+      const measured = new Map(
+        report.ruleAccuracy.filter(rule => rule.ruleId && rule.evaluated > 0).map(rule => [rule.ruleId!, rule])
+      )
+      for (const [id, rule] of measured) {
+        await this.db.programEligibilityRule.update({
+          where: { id },
+          data: {
+            successRate: rule.successRate,
+            falsePositiveRate: rule.falsePositiveRate,
+            falseNegativeRate: rule.falseNegativeRate,
+          },
+        })
+        metricsWritten++
+      }
+    }
+
+    return {
+      ...report,
+      cases: cases.length,
+      baselineVersions: Object.fromEntries(baseline.rules.map(rule => [rule.ruleKey, rule.version])),
+      candidateVersions: Object.fromEntries(
+        [...candidateRules.values()].map(rule => [rule.ruleKey, drafted.has(rule.ruleKey) ? 'DRAFT' : rule.version])
+      ),
+      clinics: Object.fromEntries(clinics.map(clinic => [clinic.id, clinic.name])),
+      metricsWritten,
+    }
+  }
+
+  /**
+   * Store version 1 of each built-in rule the program does not have yet
+   */
+  async seedDefaultRules(programCode = HEALTHIER_SG_PROGRAM_CODE, publishedBy = 'SYSTEM'): Promise<string[]> {
+    const program = await this.findProgram(programCode)
+    const existing = await this.db.programEligibilityRule.findMany({
+      where: { programId: program.id },
+      select: { ruleKey: true },
+      distinct: ['ruleKey'],
+    })
+    const known = new Set(existing.map(rule => rule.ruleKey))
+    const created: string[] = []
+
+    for (const rule of DEFAULT_HEALTHIER_SG_RULES) {
+      if (known.has(rule.ruleKey)) continue
+      await this.publishRuleVersion({
+        programCode,
+        ruleKey: rule.ruleKey,
+        publishedBy,
+        changeNotes: 'Initial version from built-in rules',
+        changes: {
+          ruleName: rule.name,
+          ruleType: rule.ruleType,
+          ruleDescription: rule.description,
+          evaluationOrder: rule.evaluationOrder,
+          ruleLogic: rule.logic,
+          conditions: rule.conditions,
+          exceptions: rule.exceptions,
+        },
+      })
+      created.push(rule.ruleKey)
+    }
+
+    return created
+  }
+
+  private async draftDefinition(
+    current: EligibilityRuleDefinition | undefined,
+    draft: RuleDraft
+  ): Promise<EligibilityRuleDefinition> {
+    const row = current?.id ? await this.db.programEligibilityRule.findUnique({ where: { id: current.id } }) : null
+    const base: Partial<RuleVersionInput> = row
+      ? versionedFields(row)
+      : current
+        ? {
+            ruleName: current.name,
+            ruleType: current.ruleType,
+            ruleDescription: current.description,
+            evaluationOrder: current.evaluationOrder,
+            ruleLogic: current.logic,
+            conditions: current.conditions,
+            exceptions: current.exceptions,
+          }
+        : {}
+    const fields = { ...base, ...draft.changes }
+    if (!fields.ruleName || !fields.ruleType) {
+      throw new EligibilityRuleError(`Draft rule ${draft.ruleKey} needs a ruleName and ruleType`, 'BAD_REQUEST')
+    }
+
+    const json = (value: unknown) => (value ?? []) as Prisma.JsonValue
+    try {
+      return {
+        ...toRuleDefinition({
+          id: '',
+          ruleKey: draft.ruleKey,
+          version: (current?.version ?? 0) + 1,
+          ruleName: fields.ruleName,
+          ruleType: fields.ruleType,
+          ruleDescription: fields.ruleDescription ?? null,
+          evaluationOrder: fields.evaluationOrder ?? 1,
+          ruleLogic: (fields.ruleLogic ?? {}) as Prisma.JsonValue,
+          conditions: json(fields.conditions),
+          demographicRules: json(fields.demographicRules),
+          medicalRules: json(fields.medicalRules),
+          geographicRules: json(fields.geographicRules),
+          socioeconomicRules: json(fields.socioeconomicRules),
+          behavioralRules: json(fields.behavioralRules),
+          exceptions: json(fields.exceptions),
+        }),
+        id: null, // Not stored, so never written back to
+      }
+    } catch (error) {
+      throw new EligibilityRuleError((error as Error).message, 'BAD_REQUEST')
+    }
+  }
+
+  private async findProgram(programCode: string) {
+    const program = await this.db.healthierSGProgram.findUnique({ where: { programCode }, select: { id: true } })
+    if (!program) throw new EligibilityRuleError(`Program ${programCode} not found`, 'NOT_FOUND')
+    return program
+  }
+}
+
+/**
+ * The outcome stored on an EligibilityAssessment and returned to applicants
+ */
+export function summarizeRun(run: EligibilityRun) {
+  return {
+    isEligible: run.isEligible,
+    result: run.result,
+    confidence: run.confidence,
+    score: run.score,
+    passingScore: run.passingScore,
+    reason: run.summary,
+    runId: run.runId,
+    ruleVersions: run.ruleVersions,
+    evaluatedAt: run.evaluatedAt.toISOString(),
+    criteria: run.rules.map(rule => ({
+      ruleKey: rule.ruleKey,
+      name: rule.name,
+      passed: rule.outcome === 'PASS' || (!rule.required && rule.outcome !== 'REVIEW'),
+      required: rule.required,
+      outcome: rule.outcome,
+      weight: rule.weight,
+      score: rule.score,
+      description: rule.explanation,
+      missingFacts: rule.missingFacts,
+    })),
+  }
+}
+
+function versionedFields(row: ProgramEligibilityRule): RuleVersionInput {
+  return {
+    ruleName: row.ruleName,
+    ruleType: row.ruleType,
+    ruleDescription: row.ruleDescription,
+    evaluationOrder: row.evaluationOrder,
+    ruleLogic: row.ruleLogic as RuleLogic,
+    conditions: row.conditions as unknown as RuleCondition[],
+    demographicRules: row.demographicRules as unknown as RuleCondition[],
+    medicalRules: row.medicalRules as unknown as RuleCondition[],
+    geographicRules: row.geographicRules as unknown as RuleCondition[],
+    socioeconomicRules: row.socioeconomicRules as unknown as RuleCondition[],
+    behavioralRules: row.behavioralRules as unknown as RuleCondition[],
+    exceptions: row.exceptions as unknown as RuleException[],
+    isActive: row.isActive,
+    isDynamic: row.isDynamic,
+    recalculationFrequency: row.recalculationFrequency,
+    mohRequired: row.mohRequired,
+    legislativeBasis: row.legislativeBasis,
+  }
+}
+
+function toRuleData(fields: RuleVersionInput) {
+  const json = (value: unknown) => value as Prisma.InputJsonValue | undefined
+  return {
+    ruleName: fields.ruleName,
+    ruleType: fields.ruleType,
+    ruleDescription: fields.ruleDescription,
+    evaluationOrder: fields.evaluationOrder,
+    ruleLogic: json(fields.ruleLogic),
+    conditions: json(fields.conditions),
+    demographicRules: json(fields.demographicRules),
+    medicalRules: json(fields.medicalRules),
+    geographicRules: json(fields.geographicRules),
+    socioeconomicRules: json(fields.socioeconomicRules),
+    behavioralRules: json(fields.behavioralRules),
+    exceptions: json(fields.exceptions),
+    isActive: fields.isActive,
+    isDynamic: fields.isDynamic,
+    recalculationFrequency: fields.recalculationFrequency,
+    mohRequired: fields.mohRequired,
+    legislativeBasis: fields.legislativeBasis,
+  }
+}
@@ -5,6 +5,8 @@
  */
 
 import crypto from 'crypto';
+import { KeyRing } from './key-management/key-ring';
+import { KeyManagementError, LocalFileKeyProvider } from './key-management/key-provider';
 
 export interface EncryptionConfig {
   algorithm: 'aes-256-gcm';
@@ -45,17 +47,23 @@ export interface DecryptionResult {
   timestamp: string;
 }
 
+export interface HealthcareEncryptionOptions {
+  keyRing?: KeyRing;
+  /** Key that encrypted data before the persisted key ring existed (ENCRYPTION_MASTER_KEY) */
+  legacyMasterKey?: Buffer | null;
+}
+
 /**
  * Healthcare Data Encryption Service
- * Provides field-level encryption for sensitive health data
+ * Provides field-level encryption for sensitive health data. Data keys come from the
+ * persisted key ring, so ciphertexts stay readable across restarts and key rotations.
  */
 export class HealthcareEncryptionService {
   private config: EncryptionConfig;
-  private masterKey: Buffer;
-  private keyStore: Map<string, Buffer> = new Map();
-  private currentKeyVersion: string;
+  private ring: KeyRing | undefined;
+  private legacyMasterKey: Buffer | null;
 
-  constructor() {
+  constructor(options: HealthcareEncryptionOptions = {}) {
     this.config = {
       algorithm: 'aes-256-gcm',
       keyLength: 256,
@@ -65,12 +73,24 @@ export class HealthcareEncryptionService {
       iterations: 100000
     };
 
-    // Load or generate master key (in production, this should come from secure key management)
-    this.masterKey = this.getMasterKey();
-    this.currentKeyVersion = this.generateKeyVersion();
-    
-    // Initialize key store
-    this.initializeKeyStore();
+    this.ring = options.keyRing;
+    this.legacyMasterKey = options.legacyMasterKey !== undefined ? options.legacyMasterKey : this.getLegacyMasterKey();
+  }
+
+  /**
+   * Key ring backing this service; the default one is created on first use
+   */
+  public get keyRing(): KeyRing {
+    if (!this.ring) {
+      // Loaded lazily so importing this module does not open a database client
+      const { prisma } = require('./db') as typeof import('./db');
+      this.ring = new KeyRing(
+        prisma,
+        new LocalFileKeyProvider(process.env.ENCRYPTION_KMS_KEY_FILE || '.keys/local-kms.json'),
+        { rotationDays: Number(process.env.ENCRYPTION_KEY_ROTATION_DAYS) || undefined }
+      );
+    }
+    return this.ring;
   }
 
   /**
@@ -90,12 +110,11 @@ export class HealthcareEncryptionService {
       // Generate initialization vector
       const iv = crypto.randomBytes(this.config.ivLength);
       
-      // Create cipher using current encryption key
-      const cipher = crypto.createCipherGCM(
-        this.config.algorithm,
-        this.getCurrentEncryptionKey(),
-        iv
-      );
+      // Create cipher using the active data key
+      const { keyVersion, key } = await this.keyRing.getActiveKey();
+      const cipher = crypto.createCipheriv(this.config.algorithm, key, iv, {
+        authTagLength: this.config.tagLength
+      });
 
       // Encrypt the data
       const encrypted = Buffer.concat([
@@ -112,7 +131,7 @@ export class HealthcareEncryptionService {
         iv: iv.toString('base64'),
         tag: tag.toString('base64'),
         algorithm: this.config.algorithm,
-        keyVersion: this.currentKeyVersion,
+        keyVersion,
         timestamp: new Date().toISOString(),
         metadata: {
           ...metadata,
@@ -121,7 +140,7 @@ export class HealthcareEncryptionService {
       };
 
       // Log encryption activity (in production, this should be auditable)
-      this.logEncryptionActivity('encrypt', metadata?.fieldType, metadata?.purpose);
+      this.logEncryptionActivity('encrypt', keyVersion, metadata?.fieldType, metadata?.purpose);
 
       return encryptedData;
     } catch (error) {
@@ -140,17 +159,14 @@ export class HealthcareEncryptionService {
       this.validateEncryptedData(encryptedData);
 
       // Get the appropriate encryption key based on key version
-      const encryptionKey = this.getEncryptionKeyByVersion(encryptedData.keyVersion);
-      
-      if (!encryptionKey) {
-        throw new Error(`Encryption key version ${encryptedData.keyVersion} not found`);
-      }
+      const encryptionKey = await this.getDecryptionKey(encryptedData.keyVersion);
 
       // Create decipher
-      const decipher = crypto.createDecipherGCM(
-        encryptedData.algorithm,
+      const decipher = crypto.createDecipheriv(
+        encryptedData.algorithm as crypto.CipherGCMTypes,
         encryptionKey,
-        Buffer.from(encryptedData.iv, 'base64')
+        Buffer.from(encryptedData.iv, 'base64'),
+        { authTagLength: this.config.tagLength }
       );
 
       // Set authentication tag
@@ -163,7 +179,7 @@ export class HealthcareEncryptionService {
       ]);
 
       // Log decryption activity
-      this.logEncryptionActivity('decrypt', encryptedData.metadata?.fieldType, encryptedData.metadata?.purpose);
+      this.logEncryptionActivity('decrypt', encryptedData.keyVersion, encryptedData.metadata?.fieldType, encryptedData.metadata?.purpose);
 
       return {
         data: decrypted.toString('utf8'),
@@ -215,25 +231,30 @@ export class HealthcareEncryptionService {
   }
 
   /**
-   * Rotate encryption keys
+   * Rotate encryption keys. Data under older keys stays readable until re-encrypted.
    * @returns New key version
    */
   public async rotateEncryptionKey(): Promise<string> {
-    const newKeyVersion = this.generateKeyVersion();
-    const newKey = crypto.randomBytes(this.config.keyLength / 8);
-    
-    // Store the new key
-    this.keyStore.set(newKeyVersion, newKey);
-    
-    // Update current key version
-    this.currentKeyVersion = newKeyVersion;
+    const newKeyVersion = await this.keyRing.rotate();
     
     // Log key rotation
-    this.logEncryptionActivity('key_rotation', undefined, 'key_management');
+    this.logEncryptionActivity('key_rotation', newKeyVersion, undefined, 'key_management');
     
     return newKeyVersion;
   }
 
+  /**
+   * Rotate encryption keys if the active key's rotation is due
+   * @returns New key version, or null when no rotation was needed
+   */
+  public async rotateEncryptionKeyIfDue(now: Date = new Date()): Promise<string | null> {
+    const newKeyVersion = await this.keyRing.rotateIfDue(now);
+    if (newKeyVersion) {
+      this.logEncryptionActivity('key_rotation', newKeyVersion, undefined, 'scheduled_rotation');
+    }
+    return newKeyVersion;
+  }
+
   /**
    * Encrypt database field values
    * @param value - Database field value
@@ -293,6 +314,32 @@ export class HealthcareEncryptionService {
     }
   }
 
+  /**
+   * Key version of an encrypted database field value
+   * @param encryptedValue - Value produced by encryptField
+   * @returns Key version, or null if the value is not encrypted
+   */
+  public getKeyVersion(encryptedValue: string | null | undefined): string | null {
+    return this.parseEncryptedField(encryptedValue)?.keyVersion ?? null;
+  }
+
+  /**
+   * Re-encrypt a database field value under the active key
+   * @param encryptedValue - Value produced by encryptField
+   * @returns New value, or null if the value is unencrypted or already uses the active key
+   */
+  public async reencryptField(encryptedValue: string): Promise<string | null> {
+    const encryptedData = this.parseEncryptedField(encryptedValue);
+    if (!encryptedData) return null;
+
+    const { keyVersion } = await this.keyRing.getActiveKey();
+    if (encryptedData.keyVersion === keyVersion) return null;
+
+    const decrypted = await this.decryptHealthData(encryptedData);
+    const reencrypted = await this.encryptHealthData(decrypted.data, encryptedData.metadata);
+    return JSON.stringify(reencrypted);
+  }
+
   /**
    * Generate a secure hash for data integrity checking
    * @param data - Data to hash
@@ -330,53 +377,59 @@ export class HealthcareEncryptionService {
    * Get encryption key statistics
    * @returns Key management statistics
    */
-  public getKeyStatistics(): {
+  public async getKeyStatistics(): Promise<{
     currentKeyVersion: string;
     totalKeys: number;
     activeKeys: number;
+    decryptOnlyKeys: number;
     lastRotation: Date;
     nextRotation: Date;
-  } {
-    const activeKeys = Array.from(this.keyStore.values()).length;
-    const nextRotation = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000); // 90 days
+  }> {
+    const active = await this.keyRing.getActiveKey();
+    const keys = await this.keyRing.listKeys();
+    const current = keys.find(key => key.keyVersion === active.keyVersion);
 
     return {
-      currentKeyVersion: this.currentKeyVersion,
-      totalKeys: this.keyStore.size,
-      activeKeys,
-      lastRotation: new Date(), // In production, track actual rotation dates
-      nextRotation
+      currentKeyVersion: active.keyVersion,
+      totalKeys: keys.length,
+      activeKeys: keys.filter(key => key.status !== 'RETIRED').length,
+      decryptOnlyKeys: keys.filter(key => key.status === 'DECRYPT_ONLY').length,
+      lastRotation: current?.createdAt ?? new Date(),
+      nextRotation: active.rotationDue
     };
   }
 
   // Private methods
 
-  private getMasterKey(): Buffer {
-    // In production, this should come from a secure key management service
-    // For development, generate a key from environment or fallback
-    const keyHex = process.env.ENCRYPTION_MASTER_KEY || 
-      crypto.randomBytes(32).toString('hex');
-    
-    return Buffer.from(keyHex, 'hex');
+  private getLegacyMasterKey(): Buffer | null {
+    // Before the key ring, ENCRYPTION_MASTER_KEY encrypted data directly
+    const keyHex = process.env.ENCRYPTION_MASTER_KEY;
+    return keyHex ? Buffer.from(keyHex, 'hex') : null;
   }
 
-  private generateKeyVersion(): string {
-    const timestamp = Date.now().toString(36);
-    const random = crypto.randomBytes(8).toString('hex');
-    return `v${timestamp}_${random}`;
-  }
-
-  private initializeKeyStore(): void {
-    // Initialize with the first encryption key
-    this.keyStore.set(this.currentKeyVersion, this.masterKey);
+  private async getDecryptionKey(version: string): Promise<Buffer> {
+    try {
+      return await this.keyRing.getKey(version);
+    } catch (error) {
+      // Versions written before the key ring existed were encrypted with the master key
+      if (error instanceof KeyManagementError && error.code === 'KEY_NOT_FOUND' && this.legacyMasterKey) {
+        return this.legacyMasterKey;
+      }
+      throw error;
+    }
   }
 
-  private getCurrentEncryptionKey(): Buffer {
-    return this.getEncryptionKeyByVersion(this.currentKeyVersion)!;
-  }
+  private parseEncryptedField(encryptedValue: string | null | undefined): EncryptedData | null {
+    if (!encryptedValue || !encryptedValue.startsWith('{')) return null;
 
-  private getEncryptionKeyByVersion(version: string): Buffer | null {
-    return this.keyStore.get(version) || null;
+    try {
+      const encryptedData = JSON.parse(encryptedValue) as EncryptedData;
+      return encryptedData.data && encryptedData.iv && encryptedData.tag && encryptedData.keyVersion
+        ? encryptedData
+        : null;
+    } catch {
+      return null;
+    }
   }
 
   private validateEncryptedData(encryptedData: any): void {
@@ -391,6 +444,7 @@ export class HealthcareEncryptionService {
 
   private logEncryptionActivity(
     action: string, 
+    keyVersion: string,
     fieldType?: string, 
     purpose?: string
   ): void {
@@ -400,7 +454,7 @@ export class HealthcareEncryptionService {
       action,
       fieldType,
       purpose,
-      keyVersion: this.currentKeyVersion
+      keyVersion
     };
     
     // For development, just log to console
@@ -436,6 +490,9 @@ export const generateSecureRandom = (length?: number) =>
 export const rotateEncryptionKey = () =>
   healthcareEncryption.rotateEncryptionKey();
 
+export const rotateEncryptionKeyIfDue = (now?: Date) =>
+  healthcareEncryption.rotateEncryptionKeyIfDue(now);
+
 // Export types
 export type {
   EncryptedData,
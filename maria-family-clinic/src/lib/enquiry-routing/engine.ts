@@ -0,0 +1,384 @@
+import type {
+  AgentAvailability,
+  AssignmentMethod,
+  ContactTeam,
+  EnquiryPriority,
+  RoutingMethod,
+  RoutingTargetType,
+} from '@prisma/client'
+import { SINGAPORE_OFFSET_MS } from '../clinic-hours/calendar'
+import { SG_BUSINESS_HOURS, isWithinBusinessHours, type Weekday } from '../enquiry-workflow/business-hours'
+
+/**
+ * Enquiry Routing Engine - Picks an agent for an enquiry from ContactRouting rules
+ *
+ * Rules are tried in priority order. A rule applies when its category and criteria match
+ * the enquiry; its target (agent, team, specialist skill or pool) gives the candidates,
+ * who must be available, on shift, under capacity and hold the rule's required skills.
+ * Eligible candidates are scored on language, clinic, open load and category expertise,
+ * weighted by the rule's routing method. Every check is recorded so the decision can be
+ * explained afterwards.
+ */
+
+export interface RoutingEnquiry {
+  id: string
+  categoryId: string
+  categoryName: string
+  priority: EnquiryPriority
+  clinicId: string | null
+  language: string
+  tags: string[]
+}
+
+export interface AgentShift {
+  day: Weekday
+  start: string // "HH:mm" Singapore time
+  end: string
+}
+
+export interface RoutingAgent {
+  userId: string
+  name: string
+  teams: ContactTeam[]
+  languages: string[]
+  clinicIds: string[]
+  categoryExpertise: string[]
+  skills: string[]
+  availability: AgentAvailability
+  maxOpenEnquiries: number
+  shifts: AgentShift[]
+  openEnquiries: number
+  lastAssignedAt: Date | null
+}
+
+export interface RoutingCriteria {
+  priorities?: EnquiryPriority[]
+  clinicIds?: string[]
+  languages?: string[]
+  tags?: string[]
+}
+
+export interface RoutingRule {
+  id: string
+  name: string
+  priority: number
+  categoryId: string | null
+  criteria: RoutingCriteria
+  targetType: RoutingTargetType
+  targetId: string | null
+  routingMethod: RoutingMethod
+  skillRequirements: string[]
+  checkAvailability: boolean
+  maxWorkload: number | null
+  businessHoursOnly: boolean
+  fallbackEnabled: boolean
+  fallbackTarget: string | null
+}
+
+export type ScoreFactor = 'language' | 'clinic' | 'load' | 'expertise'
+
+export interface CandidateScore {
+  agentId: string
+  agentName: string
+  score: number
+  factors: Record<ScoreFactor, number>
+  openEnquiries: number
+  capacity: number
+}
+
+export interface RuleEvaluation {
+  ruleId: string | null // null for the built-in default pool
+  ruleName: string
+  matched: boolean
+  reasons: string[]
+  rejected: { agentId: string; reasons: string[] }[]
+  candidates: CandidateScore[]
+}
+
+export interface RoutingDecision {
+  outcome: 'ASSIGNED' | 'UNROUTED'
+  enquiryId: string
+  ruleId: string | null
+  ruleName: string | null
+  routingMethod: RoutingMethod | null
+  agentId: string | null
+  agentName: string | null
+  score: number | null
+  factors: Record<ScoreFactor, number> | null
+  fallbackUsed: boolean
+  summary: string
+  evaluations: RuleEvaluation[]
+  decidedAt: string
+}
+
+const FACTOR_WEIGHTS: Record<RoutingMethod, Record<ScoreFactor, number>> = {
+  DIRECT: { language: 0.25, clinic: 0.2, load: 0.3, expertise: 0.25 },
+  ROUND_ROBIN: { language: 0.25, clinic: 0.2, load: 0.3, expertise: 0.25 },
+  PRIORITY_BASED: { language: 0.25, clinic: 0.2, load: 0.3, expertise: 0.25 },
+  AVAILABILITY: { language: 0.2, clinic: 0.1, load: 0.5, expertise: 0.2 },
+  LOAD_BALANCED: { language: 0.15, clinic: 0.1, load: 0.6, expertise: 0.15 },
+  SKILL_BASED: { language: 0.2, clinic: 0.1, load: 0.2, expertise: 0.5 },
+  SPECIALIST: { language: 0.2, clinic: 0.1, load: 0.2, expertise: 0.5 },
+  LANGUAGE_BASED: { language: 0.6, clinic: 0.1, load: 0.15, expertise: 0.15 },
+  GEOGRAPHIC: { language: 0.15, clinic: 0.6, load: 0.15, expertise: 0.1 },
+}
+
+// How each routing method is recorded on ContactAssignment
+const ASSIGNMENT_METHODS: Record<RoutingMethod, AssignmentMethod> = {
+  DIRECT: 'AUTO_SKILL_BASED',
+  ROUND_ROBIN: 'AUTO_ROUND_ROBIN',
+  PRIORITY_BASED: 'AUTO_SKILL_BASED',
+  AVAILABILITY: 'AUTO_LOAD_BALANCED',
+  LOAD_BALANCED: 'AUTO_LOAD_BALANCED',
+  SKILL_BASED: 'AUTO_SKILL_BASED',
+  SPECIALIST: 'AUTO_SPECIALIST',
+  LANGUAGE_BASED: 'AUTO_SKILL_BASED',
+  GEOGRAPHIC: 'AUTO_SKILL_BASED',
+}
+
+const DEFAULT_RULE: RoutingRule = {
+  id: '',
+  name: 'Default pool',
+  priority: Number.MAX_SAFE_INTEGER,
+  categoryId: null,
+  criteria: {},
+  targetType: 'POOL',
+  targetId: null,
+  routingMethod: 'LOAD_BALANCED',
+  skillRequirements: [],
+  checkAvailability: true,
+  maxWorkload: null,
+  businessHoursOnly: false,
+  fallbackEnabled: false,
+  fallbackTarget: null,
+}
+
+const WEEKDAYS: Weekday[] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+export function toAssignmentMethod(method: RoutingMethod | null): AssignmentMethod {
+  return method ? ASSIGNMENT_METHODS[method] : 'MANUAL'
+}
+
+/**
+ * Route an enquiry. Rules are tried in priority order; a matching rule with no eligible
+ * agent falls back to its fallback team when enabled, and the default pool of all agents
+ * is tried last.
+ */
+export function routeEnquiry(
+  enquiry: RoutingEnquiry,
+  rules: RoutingRule[],
+  agents: RoutingAgent[],
+  now: Date
+): RoutingDecision {
+  const evaluations: RuleEvaluation[] = []
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name))
+
+  for (const rule of ordered) {
+    const evaluation = evaluateRule(rule, enquiry, agents, now)
+    evaluations.push(evaluation)
+    if (evaluation.candidates.length > 0) return decide(enquiry, rule, evaluation, evaluations, false, now)
+
+    if (evaluation.matched && rule.fallbackEnabled && rule.fallbackTarget) {
+      const fallbackRule: RoutingRule = {
+        ...rule,
+        name: `${rule.name} (fallback)`,
+        criteria: {},
+        targetType: 'TEAM',
+        targetId: rule.fallbackTarget,
+        skillRequirements: [],
+      }
+      const fallback = evaluateRule(fallbackRule, enquiry, agents, now)
+      evaluations.push(fallback)
+      if (fallback.candidates.length > 0) return decide(enquiry, fallbackRule, fallback, evaluations, true, now)
+    }
+  }
+
+  const pool = evaluateRule(DEFAULT_RULE, enquiry, agents, now)
+  evaluations.push(pool)
+  if (pool.candidates.length > 0) return decide(enquiry, DEFAULT_RULE, pool, evaluations, false, now)
+
+  return {
+    outcome: 'UNROUTED',
+    enquiryId: enquiry.id,
+    ruleId: null,
+    ruleName: null,
+    routingMethod: null,
+    agentId: null,
+    agentName: null,
+    score: null,
+    factors: null,
+    fallbackUsed: false,
+    summary: agents.length === 0 ? 'No active agents to route to' : 'No agent is available, on shift and under capacity',
+    evaluations,
+    decidedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Check a rule's conditions against the enquiry and score its eligible candidates
+ */
+export function evaluateRule(rule: RoutingRule, enquiry: RoutingEnquiry, agents: RoutingAgent[], now: Date): RuleEvaluation {
+  const evaluation: RuleEvaluation = {
+    ruleId: rule.id || null,
+    ruleName: rule.name,
+    matched: false,
+    reasons: [],
+    rejected: [],
+    candidates: [],
+  }
+
+  const mismatches = criteriaMismatches(rule, enquiry, now)
+  if (mismatches.length > 0) {
+    evaluation.reasons = mismatches
+    return evaluation
+  }
+  evaluation.matched = true
+
+  for (const agent of targetAgents(rule, agents)) {
+    const reasons = ineligibilityReasons(rule, agent, now)
+    if (reasons.length > 0) {
+      evaluation.rejected.push({ agentId: agent.userId, reasons })
+      continue
+    }
+    evaluation.candidates.push(scoreAgent(rule.routingMethod, agent, enquiry, rule.maxWorkload))
+  }
+
+  evaluation.candidates.sort(
+    rule.routingMethod === 'ROUND_ROBIN'
+      ? (a, b) => lastAssigned(agents, a.agentId) - lastAssigned(agents, b.agentId) || b.score - a.score
+      : (a, b) => b.score - a.score || a.openEnquiries - b.openEnquiries || a.agentId.localeCompare(b.agentId)
+  )
+  evaluation.reasons = [
+    `${evaluation.candidates.length} eligible of ${evaluation.candidates.length + evaluation.rejected.length} target agents`,
+  ]
+  return evaluation
+}
+
+export function isOnShift(agent: Pick<RoutingAgent, 'shifts'>, now: Date): boolean {
+  if (agent.shifts.length === 0) return true // No roster configured: always rostered
+
+  const local = new Date(now.getTime() + SINGAPORE_OFFSET_MS)
+  const day = WEEKDAYS[local.getUTCDay()]
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes()
+
+  return agent.shifts.some(
+    shift => shift.day === day && minutes >= timeToMinutes(shift.start) && minutes < timeToMinutes(shift.end)
+  )
+}
+
+function criteriaMismatches(rule: RoutingRule, enquiry: RoutingEnquiry, now: Date): string[] {
+  const reasons: string[] = []
+  const { priorities, clinicIds, languages, tags } = rule.criteria
+
+  if (rule.categoryId && rule.categoryId !== enquiry.categoryId) reasons.push('Different category')
+  if (priorities?.length && !priorities.includes(enquiry.priority)) reasons.push(`Priority ${enquiry.priority} not routed by this rule`)
+  if (clinicIds?.length && (!enquiry.clinicId || !clinicIds.includes(enquiry.clinicId))) reasons.push('Clinic not covered by this rule')
+  if (languages?.length && !languages.includes(enquiry.language)) reasons.push(`Language ${enquiry.language} not routed by this rule`)
+  if (tags?.length && !tags.some(tag => enquiry.tags.includes(tag))) reasons.push('No matching tags')
+  if (rule.businessHoursOnly && !isWithinBusinessHours(now, SG_BUSINESS_HOURS)) reasons.push('Outside business hours')
+
+  return reasons
+}
+
+function targetAgents(rule: RoutingRule, agents: RoutingAgent[]): RoutingAgent[] {
+  switch (rule.targetType) {
+    case 'AGENT':
+      return agents.filter(agent => agent.userId === rule.targetId)
+    case 'TEAM':
+      return agents.filter(agent => agent.teams.some(team => team === rule.targetId))
+    case 'SPECIALIST':
+      return agents.filter(agent => !!rule.targetId && agent.skills.includes(rule.targetId))
+    default:
+      // Departments, queues and pools draw on every agent, narrowed by skills and criteria
+      return agents
+  }
+}
+
+function ineligibilityReasons(rule: RoutingRule, agent: RoutingAgent, now: Date): string[] {
+  const reasons: string[] = []
+
+  if (rule.checkAvailability) {
+    if (agent.availability !== 'AVAILABLE') reasons.push(`Agent is ${agent.availability.toLowerCase()}`)
+    else if (!isOnShift(agent, now)) reasons.push('Not on shift')
+  }
+
+  const capacity = capacityOf(agent, rule.maxWorkload)
+  if (agent.openEnquiries >= capacity) reasons.push(`At capacity (${agent.openEnquiries}/${capacity} open)`)
+
+  const missing = rule.skillRequirements.filter(skill => !agent.skills.includes(skill))
+  if (missing.length > 0) reasons.push(`Missing skills: ${missing.join(', ')}`)
+
+  return reasons
+}
+
+function scoreAgent(method: RoutingMethod, agent: RoutingAgent, enquiry: RoutingEnquiry, maxWorkload: number | null): CandidateScore {
+  const capacity = capacityOf(agent, maxWorkload)
+  const factors: Record<ScoreFactor, number> = {
+    language: agent.languages.includes(enquiry.language) ? 1 : 0,
+    clinic: !enquiry.clinicId || agent.clinicIds.includes(enquiry.clinicId) ? 1 : agent.clinicIds.length === 0 ? 0.5 : 0,
+    load: capacity > 0 ? round(1 - agent.openEnquiries / capacity) : 0,
+    expertise: agent.categoryExpertise.includes(enquiry.categoryName) ? 1 : 0,
+  }
+  const weights = FACTOR_WEIGHTS[method]
+  const score = (Object.keys(factors) as ScoreFactor[]).reduce((sum, factor) => sum + factors[factor] * weights[factor], 0)
+
+  return {
+    agentId: agent.userId,
+    agentName: agent.name,
+    score: round(score),
+    factors,
+    openEnquiries: agent.openEnquiries,
+    capacity,
+  }
+}
+
+function decide(
+  enquiry: RoutingEnquiry,
+  rule: RoutingRule,
+  evaluation: RuleEvaluation,
+  evaluations: RuleEvaluation[],
+  fallbackUsed: boolean,
+  now: Date
+): RoutingDecision {
+  const best = evaluation.candidates[0]!
+  const strengths = [
+    best.factors.language === 1 && `speaks ${enquiry.language}`,
+    best.factors.clinic === 1 && enquiry.clinicId && 'covers the clinic',
+    best.factors.expertise === 1 && `${enquiry.categoryName} expertise`,
+    `${best.openEnquiries}/${best.capacity} open enquiries`,
+  ].filter(Boolean)
+
+  return {
+    outcome: 'ASSIGNED',
+    enquiryId: enquiry.id,
+    ruleId: rule.id || null,
+    ruleName: rule.name,
+    routingMethod: rule.routingMethod,
+    agentId: best.agentId,
+    agentName: best.agentName,
+    score: best.score,
+    factors: best.factors,
+    fallbackUsed,
+    summary: `Routed by "${rule.name}" (${rule.routingMethod.toLowerCase().replace(/_/g, ' ')}) to ${best.agentName}: ${strengths.join(', ')}`,
+    // Keep the decision compact: the top five candidates per rule explain the ranking
+    evaluations: evaluations.map(e => ({ ...e, candidates: e.candidates.slice(0, 5) })),
+    decidedAt: now.toISOString(),
+  }
+}
+
+function capacityOf(agent: RoutingAgent, maxWorkload: number | null): number {
+  return maxWorkload === null ? agent.maxOpenEnquiries : Math.min(maxWorkload, agent.maxOpenEnquiries)
+}
+
+function lastAssigned(agents: RoutingAgent[], agentId: string): number {
+  return agents.find(agent => agent.userId === agentId)?.lastAssignedAt?.getTime() ?? 0
+}
+
+function timeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
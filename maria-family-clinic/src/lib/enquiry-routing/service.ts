@@ -0,0 +1,253 @@
+import type { ContactRouting, EnquiryStatus, Prisma, PrismaClient } from '@prisma/client'
+import { EnquiryWorkflowError, EnquiryWorkflowService, type WorkflowActor } from '../enquiry-workflow/service'
+import {
+  routeEnquiry,
+  toAssignmentMethod,
+  type AgentShift,
+  type RoutingAgent,
+  type RoutingCriteria,
+  type RoutingDecision,
+  type RoutingRule,
+} from './engine'
+
+/**
+ * Enquiry Routing Service - Loads routing rules, agent profiles and open load, then
+ * records the engine's decision as a ContactAssignment with its explanation
+ */
+
+export interface RouteOptions {
+  assignedBy?: string // User who requested routing; automated runs use SYSTEM
+  excludeAgentIds?: string[]
+  dryRun?: boolean
+  now?: Date
+}
+
+export class EnquiryRoutingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'EnquiryRoutingError'
+  }
+}
+
+const ROUTING_ACTOR: WorkflowActor = { type: 'AUTOMATION', name: 'Enquiry routing' }
+const OPEN_STATUSES_EXCLUDED: EnquiryStatus[] = ['RESOLVED', 'CLOSED', 'CANCELLED']
+const STATUSES_AWAITING_ASSIGNMENT: EnquiryStatus[] = ['NEW', 'UNDER_REVIEW']
+
+export class EnquiryRoutingService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Decide who should handle an enquiry and, unless dry-running, assign it
+   */
+  async route(enquiryId: string, options: RouteOptions = {}): Promise<RoutingDecision> {
+    const now = options.now ?? new Date()
+    const enquiry = await this.db.enquiry.findUnique({
+      where: { id: enquiryId },
+      select: {
+        id: true,
+        status: true,
+        priority: true,
+        clinicId: true,
+        tags: true,
+        customFields: true,
+        assignedAgentId: true,
+        categoryId: true,
+        category: { select: { name: true } },
+        user: { select: { profile: { select: { preferredLanguage: true } } } },
+      },
+    })
+    if (!enquiry) throw new EnquiryRoutingError('Enquiry not found', 'NOT_FOUND')
+
+    const [rules, agents] = await Promise.all([
+      this.loadRules(enquiry.categoryId),
+      this.loadAgents([...(options.excludeAgentIds ?? []), ...(enquiry.assignedAgentId ? [enquiry.assignedAgentId] : [])]),
+    ])
+
+    const customFields = enquiry.customFields as { language?: string } | null
+    const decision = routeEnquiry(
+      {
+        id: enquiry.id,
+        categoryId: enquiry.categoryId,
+        categoryName: enquiry.category.name,
+        priority: enquiry.priority,
+        clinicId: enquiry.clinicId,
+        language: customFields?.language ?? enquiry.user?.profile?.preferredLanguage ?? 'en',
+        tags: enquiry.tags,
+      },
+      rules,
+      agents,
+      now
+    )
+
+    if (options.dryRun || decision.outcome !== 'ASSIGNED' || !decision.agentId) return decision
+
+    const agent = agents.find(a => a.userId === decision.agentId)!
+    await this.db.$transaction(async tx => {
+      // Conditional on the assignee we routed away from, so concurrent routing cannot double-assign
+      const updated = await tx.enquiry.updateMany({
+        where: { id: enquiry.id, assignedAgentId: enquiry.assignedAgentId },
+        data: { assignedAgentId: agent.userId, assignedAt: now },
+      })
+      if (updated.count === 0) {
+        throw new EnquiryRoutingError('Enquiry was assigned concurrently', 'CONFLICT')
+      }
+      await tx.enquiry.updateMany({
+        where: { id: enquiry.id, originalAssignee: null },
+        data: { originalAssignee: agent.userId },
+      })
+
+      await tx.contactAssignment.updateMany({
+        where: { enquiryId: enquiry.id, status: { in: ['ACTIVE', 'ACCEPTED'] } },
+        data: { status: 'TRANSFERRED' },
+      })
+      await tx.contactAssignment.create({
+        data: {
+          enquiryId: enquiry.id,
+          assigneeType: 'AGENT',
+          assigneeId: agent.userId,
+          assigneeName: agent.name,
+          assignmentReason: decision.summary,
+          assignedBy: options.assignedBy ?? 'SYSTEM',
+          assignmentMethod: toAssignmentMethod(decision.routingMethod),
+          skillMatch: { skills: agent.skills, languages: agent.languages, factors: decision.factors },
+          isReassignment: !!enquiry.assignedAgentId,
+          previousAssignee: enquiry.assignedAgentId,
+          currentWorkload: agent.openEnquiries,
+          workloadLimit: agent.maxOpenEnquiries,
+          assignmentScore: decision.score,
+          routingRuleId: decision.ruleId,
+          routingDecision: decision as unknown as Prisma.InputJsonValue,
+        },
+      })
+
+      if (decision.ruleId) {
+        await tx.contactRouting.update({ where: { id: decision.ruleId }, data: { usageCount: { increment: 1 } } })
+      }
+      await tx.contactAgentProfile.update({ where: { userId: agent.userId }, data: { lastAssignedAt: now } })
+
+      await tx.contactHistory.create({
+        data: {
+          enquiryId: enquiry.id,
+          actionType: 'ASSIGNED',
+          actionDescription: decision.summary,
+          actorType: ROUTING_ACTOR.type,
+          actorId: options.assignedBy,
+          actorName: ROUTING_ACTOR.name,
+          fieldChanged: 'assignedAgentId',
+          oldValue: enquiry.assignedAgentId,
+          newValue: agent.userId,
+          communicationType: 'SYSTEM_NOTIFICATION',
+          metadata: { ruleId: decision.ruleId, score: decision.score, fallbackUsed: decision.fallbackUsed },
+          createdAt: now,
+        },
+      })
+    })
+
+    if (STATUSES_AWAITING_ASSIGNMENT.includes(enquiry.status)) {
+      try {
+        await new EnquiryWorkflowService(this.db).transition(enquiry.id, 'ASSIGNED', ROUTING_ACTOR, { now })
+      } catch (error) {
+        // The category workflow may not route this status through ASSIGNED; the assignment stands
+        if (!(error instanceof EnquiryWorkflowError)) throw error
+      }
+    }
+
+    return decision
+  }
+
+  /**
+   * Route enquiries one at a time so each decision sees the load added by the previous one
+   */
+  async routeMany(enquiryIds: string[], options: RouteOptions = {}): Promise<RoutingDecision[]> {
+    const decisions: RoutingDecision[] = []
+    for (const enquiryId of enquiryIds) {
+      decisions.push(await this.route(enquiryId, options))
+    }
+    return decisions
+  }
+
+  /**
+   * The stored decision behind an enquiry's current assignment
+   */
+  async explain(enquiryId: string) {
+    const assignment = await this.db.contactAssignment.findFirst({
+      where: { enquiryId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        assigneeId: true,
+        assigneeName: true,
+        assignmentMethod: true,
+        assignmentReason: true,
+        assignmentScore: true,
+        routingRuleId: true,
+        routingDecision: true,
+        status: true,
+        createdAt: true,
+      },
+    })
+    if (!assignment) throw new EnquiryRoutingError('Enquiry has not been assigned', 'NOT_FOUND')
+    return assignment
+  }
+
+  private async loadRules(categoryId: string): Promise<RoutingRule[]> {
+    const rows = await this.db.contactRouting.findMany({
+      where: { isActive: true, OR: [{ categoryId: null }, { categoryId }] },
+      orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+    })
+    return rows.map(toRoutingRule)
+  }
+
+  private async loadAgents(excludeIds: string[]): Promise<RoutingAgent[]> {
+    const profiles = await this.db.contactAgentProfile.findMany({
+      where: { isActive: true, ...(excludeIds.length > 0 && { userId: { notIn: excludeIds } }) },
+      orderBy: { userId: 'asc' },
+    })
+    if (profiles.length === 0) return []
+
+    const load = await this.db.enquiry.groupBy({
+      by: ['assignedAgentId'],
+      where: { assignedAgentId: { in: profiles.map(p => p.userId) }, status: { notIn: OPEN_STATUSES_EXCLUDED } },
+      _count: { _all: true },
+    })
+    const openByAgent = new Map(load.map(row => [row.assignedAgentId, row._count._all]))
+
+    return profiles.map(profile => ({
+      userId: profile.userId,
+      name: profile.displayName,
+      teams: profile.teams,
+      languages: profile.languages,
+      clinicIds: profile.clinicIds,
+      categoryExpertise: profile.categoryExpertise,
+      skills: profile.skills,
+      availability: profile.availability,
+      maxOpenEnquiries: profile.maxOpenEnquiries,
+      shifts: Array.isArray(profile.shifts) ? (profile.shifts as unknown as AgentShift[]) : [],
+      openEnquiries: openByAgent.get(profile.userId) ?? 0,
+      lastAssignedAt: profile.lastAssignedAt,
+    }))
+  }
+}
+
+function toRoutingRule(row: ContactRouting): RoutingRule {
+  const criteria = row.criteria && typeof row.criteria === 'object' && !Array.isArray(row.criteria) ? row.criteria : {}
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    categoryId: row.categoryId,
+    criteria: criteria as RoutingCriteria,
+    targetType: row.targetType,
+    targetId: row.targetId,
+    routingMethod: row.routingMethod,
+    skillRequirements: Array.isArray(row.skillRequirements) ? row.skillRequirements.map(String) : [],
+    checkAvailability: row.checkAvailability,
+    maxWorkload: row.maxWorkload,
+    businessHoursOnly: row.businessHoursOnly,
+    fallbackEnabled: row.fallbackEnabled,
+    fallbackTarget: row.fallbackTarget,
+  }
+}
@@ -0,0 +1,127 @@
+import { SINGAPORE_OFFSET_MS } from '../clinic-hours/calendar'
+
+/**
+ * Business-hours calendars for enquiry SLA timers
+ *
+ * Calendars use a fixed UTC offset (Singapore has no daylight saving) so timer due dates
+ * are deterministic regardless of the server's time zone.
+ */
+
+export type Weekday = 'SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT'
+
+export interface BusinessHoursCalendar {
+  utcOffsetMinutes: number
+  hours: Partial<Record<Weekday, { open: string; close: string }>> // "HH:mm" local time
+  holidays?: string[] // "yyyy-MM-dd" local dates with no business hours
+  alwaysOpen?: boolean
+}
+
+const WEEKDAYS: Weekday[] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const MAX_DAYS_SCANNED = 366
+
+export const SG_BUSINESS_HOURS: BusinessHoursCalendar = {
+  utcOffsetMinutes: SINGAPORE_OFFSET_MS / MINUTE_MS,
+  hours: {
+    MON: { open: '09:00', close: '18:00' },
+    TUE: { open: '09:00', close: '18:00' },
+    WED: { open: '09:00', close: '18:00' },
+    THU: { open: '09:00', close: '18:00' },
+    FRI: { open: '09:00', close: '18:00' },
+    SAT: { open: '09:00', close: '13:00' },
+  },
+}
+
+export const ALWAYS_OPEN: BusinessHoursCalendar = {
+  utcOffsetMinutes: SINGAPORE_OFFSET_MS / MINUTE_MS,
+  hours: {},
+  alwaysOpen: true,
+}
+
+/**
+ * The instant `minutes` business minutes after `start`
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendar: BusinessHoursCalendar): Date {
+  if (calendar.alwaysOpen || minutes <= 0) {
+    return new Date(start.getTime() + Math.max(0, minutes) * MINUTE_MS)
+  }
+
+  const offsetMs = calendar.utcOffsetMinutes * MINUTE_MS
+  let cursor = start.getTime() + offsetMs // Local wall-clock time expressed as UTC ms
+  let remaining = minutes * MINUTE_MS
+
+  for (let day = 0; day < MAX_DAYS_SCANNED; day++) {
+    const window = businessWindow(cursor, calendar)
+    const dayStart = Math.floor(cursor / DAY_MS) * DAY_MS
+
+    if (window) {
+      const from = Math.max(cursor, window.open)
+      if (from < window.close) {
+        const available = window.close - from
+        if (remaining <= available) return new Date(from + remaining - offsetMs)
+        remaining -= available
+      }
+    }
+
+    cursor = dayStart + DAY_MS
+  }
+
+  throw new Error('Business-hours calendar has no open hours within a year')
+}
+
+/**
+ * Business minutes elapsed between two instants, for SLA reporting
+ */
+export function businessMinutesBetween(from: Date, to: Date, calendar: BusinessHoursCalendar): number {
+  if (to <= from) return 0
+  if (calendar.alwaysOpen) return Math.round((to.getTime() - from.getTime()) / MINUTE_MS)
+
+  const offsetMs = calendar.utcOffsetMinutes * MINUTE_MS
+  const end = to.getTime() + offsetMs
+  let cursor = from.getTime() + offsetMs
+  let total = 0
+
+  while (cursor < end) {
+    const window = businessWindow(cursor, calendar)
+    const dayEnd = Math.floor(cursor / DAY_MS) * DAY_MS + DAY_MS
+
+    if (window) {
+      const overlap = Math.min(end, window.close) - Math.max(cursor, window.open)
+      if (overlap > 0) total += overlap
+    }
+
+    cursor = dayEnd
+  }
+
+  return Math.round(total / MINUTE_MS)
+}
+
+export function isWithinBusinessHours(at: Date, calendar: BusinessHoursCalendar): boolean {
+  if (calendar.alwaysOpen) return true
+
+  const local = at.getTime() + calendar.utcOffsetMinutes * MINUTE_MS
+  const window = businessWindow(local, calendar)
+  return !!window && local >= window.open && local < window.close
+}
+
+// Open/close of the local day containing `local`, or null when closed all day
+function businessWindow(local: number, calendar: BusinessHoursCalendar): { open: number; close: number } | null {
+  const dayStart = Math.floor(local / DAY_MS) * DAY_MS
+  const date = new Date(dayStart)
+
+  if (calendar.holidays?.includes(date.toISOString().slice(0, 10))) return null
+
+  const hours = calendar.hours[WEEKDAYS[date.getUTCDay()]!]
+  if (!hours) return null
+
+  return {
+    open: dayStart + timeToMinutes(hours.open) * MINUTE_MS,
+    close: dayStart + timeToMinutes(hours.close) * MINUTE_MS,
+  }
+}
+
+function timeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
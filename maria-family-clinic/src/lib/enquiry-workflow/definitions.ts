@@ -0,0 +1,341 @@
+import { z } from 'zod'
+import type { ContactTeam, EnquiryPriority, EnquiryStatus, EscalationLevel } from '@prisma/client'
+import { ALWAYS_OPEN, SG_BUSINESS_HOURS, addBusinessMinutes, type BusinessHoursCalendar } from './business-hours'
+
+/**
+ * Declarative enquiry workflows, one per ContactCategory
+ *
+ * A workflow lists the allowed transitions out of each enquiry status and the timers
+ * that run while an enquiry is in it. Timers are anchored either to the moment the
+ * enquiry entered its current status or to its creation (SLA clocks keep running across
+ * statuses). ESCALATE timers climb the category's escalation ladder one step at a time.
+ *
+ * Categories get a built-in workflow derived from their SLA fields; an admin can replace
+ * it by storing a definition in `ContactCategory.workflowDefinition`.
+ */
+
+export type TimerAction =
+  | { type: 'REMIND'; audience: 'ASSIGNEE' | 'CUSTOMER' }
+  | { type: 'ESCALATE' }
+  | { type: 'TRANSITION'; to: EnquiryStatus; reason: string }
+
+export interface WorkflowTimerDefinition {
+  id: string
+  anchor: 'STATE' | 'CREATED'
+  after: { hours?: number; businessHours?: number }
+  action: TimerAction
+  breachesSla?: 'RESPONSE' | 'RESOLUTION'
+}
+
+export interface EscalationStep {
+  level: EscalationLevel
+  team: ContactTeam
+  priority: EnquiryPriority
+  afterBusinessHours: number // Time from this step to the next one
+}
+
+export interface WorkflowStateDefinition {
+  transitions: EnquiryStatus[]
+  timers?: WorkflowTimerDefinition[]
+  escalates?: boolean // Escalation ladder keeps climbing in this status
+}
+
+export interface WorkflowDefinition {
+  version: number
+  initialState: EnquiryStatus
+  states: Partial<Record<EnquiryStatus, WorkflowStateDefinition>>
+  escalationLadder: EscalationStep[]
+  calendar: BusinessHoursCalendar
+}
+
+export interface TimerPlan {
+  timerKey: string
+  action: TimerAction['type']
+  dueAt: Date
+  dedupeKey: string
+}
+
+export interface WorkflowCategory {
+  name: string
+  responseSLAHours: number
+  resolutionSLADays: number
+  workflowDefinition?: unknown
+}
+
+export const ESCALATION_TIMER_PREFIX = 'escalation-'
+
+const PRIORITY_RANK: Record<EnquiryPriority, number> = {
+  LOW: 0,
+  NORMAL: 1,
+  HIGH: 2,
+  URGENT: 3,
+  CRITICAL: 4,
+  EMERGENCY: 5,
+}
+
+const ENQUIRY_STATUSES = [
+  'NEW', 'UNDER_REVIEW', 'ASSIGNED', 'IN_PROGRESS', 'WAITING_CUSTOMER', 'WAITING_INTERNAL',
+  'PENDING_RESOLUTION', 'RESOLVED', 'CLOSED', 'CANCELLED', 'ESCALATED',
+] as const
+
+const statusSchema = z.enum(ENQUIRY_STATUSES)
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/)
+
+const timerSchema = z.object({
+  id: z.string().min(1).refine(id => !id.startsWith(ESCALATION_TIMER_PREFIX), 'Reserved timer id'),
+  anchor: z.enum(['STATE', 'CREATED']),
+  after: z
+    .object({ hours: z.number().positive().optional(), businessHours: z.number().positive().optional() })
+    .refine(after => (after.hours === undefined) !== (after.businessHours === undefined), 'Set exactly one of hours or businessHours'),
+  action: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('REMIND'), audience: z.enum(['ASSIGNEE', 'CUSTOMER']) }),
+    z.object({ type: z.literal('ESCALATE') }),
+    z.object({ type: z.literal('TRANSITION'), to: statusSchema, reason: z.string() }),
+  ]),
+  breachesSla: z.enum(['RESPONSE', 'RESOLUTION']).optional(),
+})
+
+export const workflowDefinitionSchema = z.object({
+  version: z.number().int().positive(),
+  initialState: statusSchema,
+  states: z.record(
+    statusSchema,
+    z.object({
+      transitions: z.array(statusSchema),
+      timers: z.array(timerSchema).optional(),
+      escalates: z.boolean().optional(),
+    })
+  ),
+  escalationLadder: z.array(
+    z.object({
+      level: z.string(),
+      team: z.string(),
+      priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT', 'CRITICAL', 'EMERGENCY']),
+      afterBusinessHours: z.number().positive(),
+    })
+  ),
+  calendar: z.object({
+    utcOffsetMinutes: z.number().int(),
+    hours: z.record(
+      z.enum(['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']),
+      z.object({ open: timeSchema, close: timeSchema })
+    ),
+    holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+    alwaysOpen: z.boolean().optional(),
+  }),
+})
+
+const DEFAULT_LADDER: EscalationStep[] = [
+  { level: 'L2_SUPERVISOR', team: 'ESCALATION_TEAM', priority: 'HIGH', afterBusinessHours: 4 },
+  { level: 'L4_MANAGER', team: 'ESCALATION_TEAM', priority: 'URGENT', afterBusinessHours: 8 },
+]
+
+// Category-specific differences from the default workflow, keyed by ContactCategory.name
+const CATEGORY_OVERRIDES: Record<string, Partial<Pick<WorkflowDefinition, 'calendar' | 'escalationLadder'>>> = {
+  urgent: {
+    calendar: ALWAYS_OPEN,
+    escalationLadder: [
+      { level: 'L2_SUPERVISOR', team: 'EMERGENCY_RESPONSE', priority: 'URGENT', afterBusinessHours: 1 },
+      { level: 'L4_MANAGER', team: 'EMERGENCY_RESPONSE', priority: 'CRITICAL', afterBusinessHours: 2 },
+    ],
+  },
+  healthier_sg: {
+    escalationLadder: [
+      { level: 'L3_SPECIALIST', team: 'HEALTHIER_SG_SPECIALISTS', priority: 'HIGH', afterBusinessHours: 4 },
+      ...DEFAULT_LADDER.slice(1),
+    ],
+  },
+  technical_support: {
+    escalationLadder: [
+      { level: 'TECHNICAL', team: 'TECHNICAL_SUPPORT', priority: 'HIGH', afterBusinessHours: 4 },
+      ...DEFAULT_LADDER.slice(1),
+    ],
+  },
+}
+
+/**
+ * Built-in workflow for a category, using its response and resolution SLAs
+ */
+export function buildDefaultWorkflow(category: WorkflowCategory): WorkflowDefinition {
+  const responseHours = category.responseSLAHours
+  const resolutionSla: WorkflowTimerDefinition = {
+    id: 'resolution-sla',
+    anchor: 'CREATED',
+    after: { hours: category.resolutionSLADays * 24 },
+    action: { type: 'ESCALATE' },
+    breachesSla: 'RESOLUTION',
+  }
+  const responseTimers: WorkflowTimerDefinition[] = [
+    {
+      id: 'response-reminder',
+      anchor: 'CREATED',
+      after: { businessHours: responseHours / 2 },
+      action: { type: 'REMIND', audience: 'ASSIGNEE' },
+    },
+    {
+      id: 'response-sla',
+      anchor: 'CREATED',
+      after: { businessHours: responseHours },
+      action: { type: 'ESCALATE' },
+      breachesSla: 'RESPONSE',
+    },
+    resolutionSla,
+  ]
+
+  return {
+    version: 1,
+    initialState: 'NEW',
+    states: {
+      NEW: {
+        transitions: ['UNDER_REVIEW', 'ASSIGNED', 'IN_PROGRESS', 'ESCALATED', 'CANCELLED', 'CLOSED'],
+        timers: responseTimers,
+        escalates: true,
+      },
+      UNDER_REVIEW: {
+        transitions: ['ASSIGNED', 'IN_PROGRESS', 'ESCALATED', 'CANCELLED', 'CLOSED'],
+        timers: responseTimers,
+        escalates: true,
+      },
+      ASSIGNED: {
+        transitions: ['IN_PROGRESS', 'UNDER_REVIEW', 'ESCALATED', 'WAITING_CUSTOMER', 'CANCELLED'],
+        timers: responseTimers,
+        escalates: true,
+      },
+      IN_PROGRESS: {
+        transitions: ['WAITING_CUSTOMER', 'WAITING_INTERNAL', 'PENDING_RESOLUTION', 'RESOLVED', 'ESCALATED'],
+        timers: [
+          resolutionSla,
+          { id: 'progress-reminder', anchor: 'STATE', after: { businessHours: 24 }, action: { type: 'REMIND', audience: 'ASSIGNEE' } },
+        ],
+        escalates: true,
+      },
+      WAITING_CUSTOMER: {
+        transitions: ['IN_PROGRESS', 'RESOLVED', 'CLOSED'],
+        timers: [
+          { id: 'customer-reminder', anchor: 'STATE', after: { hours: 48 }, action: { type: 'REMIND', audience: 'CUSTOMER' } },
+          {
+            id: 'customer-timeout',
+            anchor: 'STATE',
+            after: { hours: 168 },
+            action: { type: 'TRANSITION', to: 'CLOSED', reason: 'No reply from customer within 7 days' },
+          },
+        ],
+      },
+      WAITING_INTERNAL: {
+        transitions: ['IN_PROGRESS', 'ESCALATED'],
+        timers: [resolutionSla],
+        escalates: true,
+      },
+      PENDING_RESOLUTION: {
+        transitions: ['RESOLVED', 'IN_PROGRESS'],
+        timers: [resolutionSla],
+        escalates: true,
+      },
+      ESCALATED: {
+        transitions: ['IN_PROGRESS', 'ASSIGNED', 'WAITING_CUSTOMER', 'RESOLVED'],
+        timers: [resolutionSla],
+        escalates: true,
+      },
+      RESOLVED: {
+        transitions: ['CLOSED', 'IN_PROGRESS'],
+        timers: [
+          {
+            id: 'auto-close',
+            anchor: 'STATE',
+            after: { hours: 168 },
+            action: { type: 'TRANSITION', to: 'CLOSED', reason: 'Resolved for 7 days without follow-up' },
+          },
+        ],
+      },
+      CLOSED: { transitions: ['IN_PROGRESS'] },
+      CANCELLED: { transitions: [] },
+    },
+    escalationLadder: DEFAULT_LADDER,
+    calendar: SG_BUSINESS_HOURS,
+    ...CATEGORY_OVERRIDES[category.name],
+  }
+}
+
+/**
+ * Workflow for a category: its stored definition if valid, otherwise the built-in one.
+ * A stored definition that does not parse is ignored rather than failing every enquiry.
+ */
+export function resolveWorkflow(category: WorkflowCategory): WorkflowDefinition {
+  if (category.workflowDefinition) {
+    const parsed = workflowDefinitionSchema.safeParse(category.workflowDefinition)
+    if (parsed.success) return parsed.data as WorkflowDefinition
+  }
+  return buildDefaultWorkflow(category)
+}
+
+export function canTransition(definition: WorkflowDefinition, from: EnquiryStatus, to: EnquiryStatus): boolean {
+  return definition.states[from]?.transitions.includes(to) ?? false
+}
+
+/**
+ * Timers to schedule when an enquiry is in `state`. Dedupe keys make re-planning a no-op:
+ * creation-anchored timers share a key across statuses, state-anchored ones are keyed
+ * by the time the status was entered.
+ */
+export function planTimers(
+  definition: WorkflowDefinition,
+  state: EnquiryStatus,
+  enquiry: { id: string; createdAt: Date; stateEnteredAt: Date }
+): TimerPlan[] {
+  return (definition.states[state]?.timers ?? []).map(timer => {
+    const anchor = timer.anchor === 'CREATED' ? enquiry.createdAt : enquiry.stateEnteredAt
+    const dueAt =
+      timer.after.businessHours !== undefined
+        ? addBusinessMinutes(anchor, timer.after.businessHours * 60, definition.calendar)
+        : new Date(anchor.getTime() + (timer.after.hours ?? 0) * 60 * 60 * 1000)
+    const scope = timer.anchor === 'CREATED' ? 'created' : `${state}@${enquiry.stateEnteredAt.toISOString()}`
+
+    return {
+      timerKey: timer.id,
+      action: timer.action.type,
+      dueAt,
+      dedupeKey: `${enquiry.id}:${scope}:${timer.id}`,
+    }
+  })
+}
+
+/**
+ * Timer for the escalation ladder step after `step`, or null at the top of the ladder
+ */
+export function planNextEscalation(
+  definition: WorkflowDefinition,
+  enquiryId: string,
+  step: number,
+  from: Date
+): TimerPlan | null {
+  const current = definition.escalationLadder[step]
+  if (!current || step + 1 >= definition.escalationLadder.length) return null
+
+  return {
+    timerKey: `${ESCALATION_TIMER_PREFIX}${step + 1}`,
+    action: 'ESCALATE',
+    dueAt: addBusinessMinutes(from, current.afterBusinessHours * 60, definition.calendar),
+    dedupeKey: `${enquiryId}:${ESCALATION_TIMER_PREFIX}${step + 1}`,
+  }
+}
+
+/**
+ * Whether a timer still applies to an enquiry now in `state`
+ */
+export function isTimerActive(definition: WorkflowDefinition, state: EnquiryStatus, timerKey: string): boolean {
+  const stateDefinition = definition.states[state]
+  if (!stateDefinition) return false
+  if (timerKey.startsWith(ESCALATION_TIMER_PREFIX)) return stateDefinition.escalates ?? false
+  return stateDefinition.timers?.some(timer => timer.id === timerKey) ?? false
+}
+
+export function findTimer(definition: WorkflowDefinition, state: EnquiryStatus, timerKey: string) {
+  return definition.states[state]?.timers?.find(timer => timer.id === timerKey)
+}
+
+/**
+ * The higher of two priorities; escalation never lowers priority
+ */
+export function maxPriority(a: EnquiryPriority, b: EnquiryPriority): EnquiryPriority {
+  return PRIORITY_RANK[a] >= PRIORITY_RANK[b] ? a : b
+}
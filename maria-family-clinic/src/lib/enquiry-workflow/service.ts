@@ -0,0 +1,500 @@
+import type { ActorType, EnquiryStatus, Prisma, PrismaClient } from '@prisma/client'
+import {
+  canTransition,
+  findTimer,
+  isTimerActive,
+  maxPriority,
+  planNextEscalation,
+  planTimers,
+  resolveWorkflow,
+  type TimerPlan,
+  type WorkflowDefinition,
+} from './definitions'
+import { queueNotification } from '../notifications/queue'
+
+/**
+ * Enquiry Workflow Service - Status transitions and the persisted timer runner
+ *
+ * Transitions are checked against the category workflow, recorded in ContactHistory,
+ * and re-plan the enquiry's timers. Timers live in EnquiryWorkflowTimer; the runner
+ * claims due timers with a conditional update so overlapping runs never fire one twice,
+ * and re-running after a crash picks up timers whose lock has expired. A timer's effects
+ * and its FIRED status are written in one transaction, so a crash cannot apply them twice.
+ */
+
+export interface WorkflowActor {
+  type: ActorType
+  id?: string
+  name: string
+}
+
+export interface WorkflowRunResult {
+  started: number // Enquiries picked up by the workflow for the first time
+  fired: number
+  cancelled: number // Timers that no longer applied to the enquiry's status
+  failed: number
+  skipped: number // Claimed by another run
+  byAction: Record<string, number>
+}
+
+export class EnquiryWorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'EnquiryWorkflowError'
+  }
+}
+
+export const WORKFLOW_ACTOR: WorkflowActor = { type: 'AUTOMATION', name: 'Enquiry workflow' }
+
+const TIMER_LOCK_MINUTES = 5
+const MAX_TIMER_ATTEMPTS = 3
+const TERMINAL_STATUSES: EnquiryStatus[] = ['CLOSED', 'CANCELLED']
+
+const workflowEnquirySelect = {
+  id: true,
+  enquiryNumber: true,
+  title: true,
+  status: true,
+  priority: true,
+  createdAt: true,
+  userId: true,
+  assignedAgentId: true,
+  escalationCount: true,
+  workflowData: true,
+  workflowStartedAt: true,
+  category: {
+    select: {
+      name: true,
+      responseSLAHours: true,
+      resolutionSLADays: true,
+      workflowDefinition: true,
+    },
+  },
+} satisfies Prisma.EnquirySelect
+
+type WorkflowEnquiry = Prisma.EnquiryGetPayload<{ select: typeof workflowEnquirySelect }>
+type TimerRecord = Prisma.EnquiryWorkflowTimerGetPayload<Record<string, never>>
+type Db = PrismaClient | Prisma.TransactionClient
+
+interface Reminder {
+  enquiry: WorkflowEnquiry
+  audience: 'ASSIGNEE' | 'CUSTOMER'
+  recipient: string
+}
+
+export class EnquiryWorkflowService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Schedule the timers for an enquiry's current status. Safe to call repeatedly.
+   */
+  async start(enquiryId: string, now = new Date()): Promise<TimerPlan[]> {
+    return this.db.$transaction(async tx => {
+      const enquiry = await this.loadEnquiry(tx, enquiryId)
+      const definition = resolveWorkflow(enquiry.category)
+      const stateEnteredAt = stateEnteredAtOf(enquiry) ?? now
+
+      if (!stateEnteredAtOf(enquiry) || !enquiry.workflowStartedAt) {
+        await tx.enquiry.update({
+          where: { id: enquiryId },
+          data: {
+            workflowData: withStateEnteredAt(enquiry.workflowData, stateEnteredAt, definition),
+            workflowStartedAt: enquiry.workflowStartedAt ?? now,
+          },
+        })
+      }
+
+      const plans = planTimers(definition, enquiry.status, { ...enquiry, stateEnteredAt })
+      await scheduleTimers(tx, enquiryId, plans)
+      return plans
+    })
+  }
+
+  /**
+   * Move an enquiry to a new status if the category workflow allows it. Runs in
+   * `options.tx` when given, so the caller's own changes commit with the transition.
+   */
+  async transition(
+    enquiryId: string,
+    to: EnquiryStatus,
+    actor: WorkflowActor,
+    options: { reason?: string; now?: Date; tx?: Prisma.TransactionClient } = {}
+  ) {
+    const apply = (tx: Prisma.TransactionClient) =>
+      this.applyTransition(tx, enquiryId, to, actor, { reason: options.reason, now: options.now ?? new Date() })
+    return options.tx ? apply(options.tx) : this.db.$transaction(apply)
+  }
+
+  /**
+   * Fire all timers due at `now`. Also starts the workflow for open enquiries it has
+   * never planned (created before the workflow engine or by other channels).
+   */
+  async runDueTimers(options: { now?: Date; limit?: number } = {}): Promise<WorkflowRunResult> {
+    const now = options.now ?? new Date()
+    const limit = options.limit ?? 100
+    const result: WorkflowRunResult = { started: 0, fired: 0, cancelled: 0, failed: 0, skipped: 0, byAction: {} }
+
+    const untracked = await this.db.enquiry.findMany({
+      where: { status: { notIn: TERMINAL_STATUSES }, workflowStartedAt: null },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    })
+    for (const { id } of untracked) {
+      await this.start(id, now)
+      result.started++
+    }
+
+    for (const timer of await this.findDueTimers(now, limit)) {
+      // Claim the timer; a concurrent run that got there first leaves nothing to update
+      const claimed = await this.db.enquiryWorkflowTimer.updateMany({
+        where: {
+          id: timer.id,
+          dueAt: { lte: now },
+          OR: [{ status: 'PENDING' }, { status: 'RUNNING', lockedUntil: { lt: now } }],
+        },
+        data: {
+          status: 'RUNNING',
+          lockedUntil: new Date(now.getTime() + TIMER_LOCK_MINUTES * 60 * 1000),
+          attempts: { increment: 1 },
+        },
+      })
+      if (claimed.count === 0) {
+        result.skipped++
+        continue
+      }
+
+      try {
+        const { outcome, reminder } = await this.db.$transaction(async tx => {
+          const fired = await this.fire(tx, timer, now)
+          // Conditional on our claim: if the lock ran out and another run took the timer, roll back
+          const marked = await tx.enquiryWorkflowTimer.updateMany({
+            where: { id: timer.id, status: 'RUNNING', attempts: timer.attempts + 1 },
+            data: { status: fired.outcome === 'STALE' ? 'CANCELLED' : 'FIRED', firedAt: now, lockedUntil: null, lastError: null },
+          })
+          if (marked.count === 0) throw new EnquiryWorkflowError('Timer was claimed by another run', 'CONFLICT')
+          return fired
+        })
+        if (reminder) await this.sendReminder(reminder)
+
+        if (outcome === 'STALE') {
+          result.cancelled++
+        } else {
+          result.fired++
+          result.byAction[timer.action] = (result.byAction[timer.action] ?? 0) + 1
+        }
+      } catch (error) {
+        if (error instanceof EnquiryWorkflowError && error.code === 'CONFLICT') {
+          result.skipped++
+          continue
+        }
+        const attempts = timer.attempts + 1
+        const retry = attempts < MAX_TIMER_ATTEMPTS
+        await this.db.enquiryWorkflowTimer.update({
+          where: { id: timer.id },
+          data: {
+            status: retry ? 'PENDING' : 'FAILED',
+            dueAt: retry ? new Date(now.getTime() + attempts * TIMER_LOCK_MINUTES * 60 * 1000) : timer.dueAt,
+            lockedUntil: null,
+            lastError: error instanceof Error ? error.message : String(error),
+          },
+        })
+        result.failed++
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Timers that would fire at `now`, without firing them
+   */
+  async findDueTimers(now = new Date(), limit = 100): Promise<TimerRecord[]> {
+    return this.db.enquiryWorkflowTimer.findMany({
+      where: {
+        dueAt: { lte: now },
+        OR: [{ status: 'PENDING' }, { status: 'RUNNING', lockedUntil: { lt: now } }],
+      },
+      orderBy: [{ dueAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+    })
+  }
+
+  /**
+   * Workflow state for the staff enquiry view: allowed transitions, timers and SLA status
+   */
+  async getWorkflowState(enquiryId: string) {
+    const enquiry = await this.loadEnquiry(this.db, enquiryId)
+    const definition = resolveWorkflow(enquiry.category)
+    const timers = await this.db.enquiryWorkflowTimer.findMany({
+      where: { enquiryId },
+      orderBy: { dueAt: 'asc' },
+    })
+
+    return {
+      status: enquiry.status,
+      stateEnteredAt: stateEnteredAtOf(enquiry),
+      workflowVersion: definition.version,
+      allowedTransitions: definition.states[enquiry.status]?.transitions ?? [],
+      escalationStep: enquiry.escalationCount,
+      timers,
+    }
+  }
+
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    enquiryId: string,
+    to: EnquiryStatus,
+    actor: WorkflowActor,
+    options: { reason?: string; now: Date }
+  ) {
+    const { now } = options
+    const enquiry = await this.loadEnquiry(tx, enquiryId)
+    const definition = resolveWorkflow(enquiry.category)
+    const from = enquiry.status
+
+    if (from === to) return { enquiryId, from, to, changed: false }
+
+    if (!canTransition(definition, from, to)) {
+      throw new EnquiryWorkflowError(`Cannot move enquiry from ${from} to ${to}`, 'BAD_REQUEST')
+    }
+
+    // Conditional on the status we validated against, so concurrent transitions cannot both apply
+    const updated = await tx.enquiry.updateMany({
+      where: { id: enquiryId, status: from },
+      data: {
+        status: to,
+        workflowStage: to.toLowerCase(),
+        workflowData: withStateEnteredAt(enquiry.workflowData, now, definition),
+        workflowStartedAt: enquiry.workflowStartedAt ?? now,
+        ...(to === 'RESOLVED' && { resolvedAt: now }),
+        ...(to === 'CLOSED' && { closedAt: now }),
+      },
+    })
+    if (updated.count === 0) {
+      throw new EnquiryWorkflowError('Enquiry status changed concurrently', 'CONFLICT')
+    }
+
+    // Cancel timers that do not apply in the new status, then plan the new ones
+    const pending = await tx.enquiryWorkflowTimer.findMany({
+      where: { enquiryId, status: 'PENDING' },
+      select: { id: true, timerKey: true },
+    })
+    const stale = pending.filter(timer => !isTimerActive(definition, to, timer.timerKey))
+    if (stale.length > 0) {
+      await tx.enquiryWorkflowTimer.updateMany({
+        where: { id: { in: stale.map(timer => timer.id) }, status: 'PENDING' },
+        data: { status: 'CANCELLED' },
+      })
+    }
+    await scheduleTimers(tx, enquiryId, planTimers(definition, to, { ...enquiry, stateEnteredAt: now }))
+
+    await tx.contactHistory.create({
+      data: {
+        enquiryId,
+        actionType: to === 'RESOLVED' ? 'RESOLVED' : to === 'CLOSED' ? 'CLOSED' : from === 'CLOSED' ? 'REOPENED' : 'STATUS_CHANGED',
+        actionDescription: `Status changed from ${from} to ${to}${options.reason ? `: ${options.reason}` : ''}`,
+        actorType: actor.type,
+        actorId: actor.id,
+        actorName: actor.name,
+        fieldChanged: 'status',
+        oldValue: from,
+        newValue: to,
+        changeReason: options.reason,
+        communicationType: 'STATUS_CHANGE',
+        metadata: { workflowVersion: definition.version },
+        createdAt: now,
+      },
+    })
+
+    return { enquiryId, from, to, changed: true }
+  }
+
+  /**
+   * Applies a timer's effects in `tx`. A reminder's notification is returned rather than
+   * queued here, to be sent once the transaction has committed.
+   */
+  private async fire(
+    tx: Prisma.TransactionClient,
+    timer: TimerRecord,
+    now: Date
+  ): Promise<{ outcome: 'FIRED' | 'STALE'; reminder?: Reminder }> {
+    const enquiry = await this.loadEnquiry(tx, timer.enquiryId)
+    const definition = resolveWorkflow(enquiry.category)
+
+    if (!isTimerActive(definition, enquiry.status, timer.timerKey)) return { outcome: 'STALE' }
+
+    const timerDefinition = findTimer(definition, enquiry.status, timer.timerKey)
+
+    switch (timerDefinition?.action.type ?? timer.action) {
+      case 'REMIND': {
+        const audience = timerDefinition?.action.type === 'REMIND' ? timerDefinition.action.audience : 'ASSIGNEE'
+        return { outcome: 'FIRED', reminder: await this.remind(tx, enquiry, audience, now) }
+      }
+
+      case 'ESCALATE':
+        await this.escalate(tx, enquiry, definition, timer, timerDefinition?.breachesSla, now)
+        return { outcome: 'FIRED' }
+
+      case 'TRANSITION': {
+        if (timerDefinition?.action.type !== 'TRANSITION') return { outcome: 'STALE' }
+        try {
+          await this.applyTransition(tx, enquiry.id, timerDefinition.action.to, WORKFLOW_ACTOR, {
+            reason: timerDefinition.action.reason,
+            now,
+          })
+        } catch (error) {
+          // Someone moved the enquiry on between loading and transitioning
+          if (error instanceof EnquiryWorkflowError && error.code === 'CONFLICT') return { outcome: 'STALE' }
+          throw error
+        }
+        return { outcome: 'FIRED' }
+      }
+
+      default:
+        return { outcome: 'STALE' }
+    }
+  }
+
+  private async remind(
+    tx: Prisma.TransactionClient,
+    enquiry: WorkflowEnquiry,
+    audience: 'ASSIGNEE' | 'CUSTOMER',
+    now: Date
+  ): Promise<Reminder | undefined> {
+    const recipient = audience === 'ASSIGNEE' ? enquiry.assignedAgentId : enquiry.userId
+
+    await tx.contactHistory.create({
+      data: {
+        enquiryId: enquiry.id,
+        actionType: 'AUTOMATION_TRIGGERED',
+        actionDescription: recipient
+          ? `Reminder sent to ${audience === 'ASSIGNEE' ? 'assigned agent' : 'customer'}`
+          : `Reminder due but no ${audience === 'ASSIGNEE' ? 'agent is assigned' : 'customer account is linked'}`,
+        actorType: WORKFLOW_ACTOR.type,
+        actorName: WORKFLOW_ACTOR.name,
+        communicationType: 'SYSTEM_NOTIFICATION',
+        metadata: { audience, recipient },
+        createdAt: now,
+      },
+    })
+
+    return recipient ? { enquiry, audience, recipient } : undefined
+  }
+
+  private async sendReminder({ enquiry, audience, recipient }: Reminder) {
+    await queueNotification(this.db, {
+      userId: recipient,
+      type: 'STATUS_UPDATE',
+      channel: audience === 'ASSIGNEE' ? 'IN_APP' : 'EMAIL',
+      priority: 'NORMAL',
+      title: audience === 'ASSIGNEE' ? `Reminder: enquiry ${enquiry.enquiryNumber}` : 'We are waiting for your reply',
+      message:
+        audience === 'ASSIGNEE'
+          ? `"${enquiry.title}" is still ${enquiry.status.toLowerCase().replace(/_/g, ' ')}.`
+          : `Your enquiry ${enquiry.enquiryNumber} needs more information from you. Please reply so we can continue.`,
+      actionUrl: `/enquiries/${enquiry.id}`,
+      actionText: 'View enquiry',
+    })
+  }
+
+  private async escalate(
+    tx: Prisma.TransactionClient,
+    enquiry: WorkflowEnquiry,
+    definition: WorkflowDefinition,
+    timer: TimerRecord,
+    breachesSla: 'RESPONSE' | 'RESOLUTION' | undefined,
+    now: Date
+  ) {
+    const step = enquiry.escalationCount
+    const ladderStep = definition.escalationLadder[step]
+    const breachReason = breachesSla && `${breachesSla === 'RESPONSE' ? 'First response' : 'Resolution'} SLA breached`
+
+    await tx.enquiry.update({
+      where: { id: enquiry.id },
+      data: {
+        ...(breachReason && { slaBreached: true, slaBreachReason: breachReason }),
+        ...(ladderStep && {
+          priority: maxPriority(enquiry.priority, ladderStep.priority),
+          assignedTeam: ladderStep.team,
+          escalationCount: { increment: 1 },
+          lastEscalationAt: now,
+        }),
+      },
+    })
+
+    if (ladderStep) {
+      await tx.contactEscalation.create({
+        data: {
+          enquiryId: enquiry.id,
+          escalationType: 'SLA_BREACH',
+          escalationReason: breachReason ?? `Escalation ladder step ${step + 1}`,
+          triggeredBy: `Workflow timer ${timer.timerKey}`,
+          fromLevel: definition.escalationLadder[step - 1]?.level ?? 'L1_AGENT',
+          toLevel: ladderStep.level,
+          escalatedToTeam: ladderStep.team,
+          triggeredAt: now,
+          autoTriggered: true,
+          automationRule: timer.timerKey,
+        },
+      })
+
+      const next = planNextEscalation(definition, enquiry.id, step, now)
+      if (next) await scheduleTimers(tx, enquiry.id, [next])
+    }
+
+    await tx.contactHistory.create({
+      data: {
+        enquiryId: enquiry.id,
+        actionType: 'ESCALATED',
+        actionDescription: ladderStep
+          ? `Escalated to ${ladderStep.level} (${ladderStep.team})${breachReason ? `: ${breachReason}` : ''}`
+          : `${breachReason ?? 'Escalation due'}; already at the top of the escalation ladder`,
+        actorType: WORKFLOW_ACTOR.type,
+        actorName: WORKFLOW_ACTOR.name,
+        fieldChanged: ladderStep ? 'assignedTeam' : undefined,
+        newValue: ladderStep?.team,
+        changeReason: breachReason,
+        communicationType: 'SYSTEM_NOTIFICATION',
+        metadata: { timerKey: timer.timerKey, step },
+        createdAt: now,
+      },
+    })
+  }
+
+  private async loadEnquiry(db: Db, enquiryId: string): Promise<WorkflowEnquiry> {
+    const enquiry = await db.enquiry.findUnique({ where: { id: enquiryId }, select: workflowEnquirySelect })
+    if (!enquiry) throw new EnquiryWorkflowError('Enquiry not found', 'NOT_FOUND')
+    return enquiry
+  }
+}
+
+/**
+ * Create missing timers and revive cancelled ones (an enquiry returning to a status whose
+ * creation-anchored SLA timer was paused). Fired and failed timers are left alone.
+ */
+async function scheduleTimers(db: Db, enquiryId: string, plans: TimerPlan[]) {
+  if (plans.length === 0) return
+
+  await db.enquiryWorkflowTimer.createMany({
+    data: plans.map(plan => ({ enquiryId, ...plan })),
+    skipDuplicates: true,
+  })
+  await db.enquiryWorkflowTimer.updateMany({
+    where: { dedupeKey: { in: plans.map(plan => plan.dedupeKey) }, status: 'CANCELLED' },
+    data: { status: 'PENDING' },
+  })
+}
+
+function stateEnteredAtOf(enquiry: Pick<WorkflowEnquiry, 'workflowData'>): Date | null {
+  const data = enquiry.workflowData as { stateEnteredAt?: string } | null
+  return data?.stateEnteredAt ? new Date(data.stateEnteredAt) : null
+}
+
+function withStateEnteredAt(workflowData: Prisma.JsonValue, stateEnteredAt: Date, definition: WorkflowDefinition) {
+  const existing = workflowData && typeof workflowData === 'object' && !Array.isArray(workflowData) ? workflowData : {}
+  return { ...existing, stateEnteredAt: stateEnteredAt.toISOString(), workflowVersion: definition.version }
+}
@@ -0,0 +1,533 @@
+import { createHash, randomBytes } from 'crypto'
+import { Prisma, type ABTest, type ABTestAssignment, type ABTestStatus, type ABTestVariant, type PrismaClient } from '@prisma/client'
+import { addDaysToKey, atSingaporeTime, singaporeDateKey } from '../clinic-hours/calendar'
+import {
+  cupedAdjust,
+  fixedHorizonTest,
+  sequentialAnalysis,
+  summarize,
+  type FixedHorizonTest,
+  type SequentialLook,
+  type SequentialTest,
+} from './statistics'
+
+/**
+ * Experiment Service - Persistent A/B tests with sticky assignment and sequential analysis
+ *
+ * Subjects are assigned by hashing their key with the test's salt, and the assignment is
+ * stored, so a subject keeps its variant across restarts and traffic-split edits. A
+ * logged-in user is keyed by user ID, so they see the same variant on every device; an
+ * anonymous device assignment is taken over by the user when they log in, unless the
+ * user already has one. Results are re-analysed at the end of each day since the test
+ * started, which is what makes the sequential p-value safe to check at any time. The
+ * CUPED covariate is worked out here from the subject's earlier conversions, never
+ * taken from the client.
+ */
+
+export interface CreateABTestInput {
+  name: string
+  description?: string
+  hypothesis: string
+  successMetric: string
+  variants: {
+    name: string
+    description?: string
+    trafficSplit: number
+    configuration?: Record<string, unknown>
+    isControl?: boolean
+  }[]
+  minimumSampleSize?: number
+  confidenceLevel?: number
+  significanceThreshold?: number
+  minimumDetectableEffect?: number
+  startDate?: Date
+  draft?: boolean
+}
+
+/** Who is being assigned: a logged-in user, an anonymous device, or both at login */
+export interface ExperimentSubject {
+  userId?: string | null
+  anonymousId?: string | null
+  sessionId?: string | null
+}
+
+export interface ExperimentAssignment {
+  assignmentId: string
+  testId: string
+  variantId: string
+  variantName: string
+  isControl: boolean
+  configuration: Prisma.JsonValue
+}
+
+export interface VariantResult {
+  variantId: string
+  name: string
+  isControl: boolean
+  trafficSplit: number
+  subjects: number
+  converted: number // Subjects with at least one conversion
+  conversions: number
+  conversionRate: number
+  mean: number // Mean outcome per subject
+  adjustedMean: number // After CUPED
+}
+
+export interface VariantComparison {
+  variantId: string
+  name: string
+  difference: number // Adjusted mean minus control's
+  relativeLift: number | null
+  fixedHorizon: FixedHorizonTest & { isSignificant: boolean; sampleSizeReached: boolean }
+  sequential: (SequentialTest & { canStop: boolean }) | null
+}
+
+export interface ExperimentResults {
+  testId: string
+  name: string
+  status: ABTestStatus
+  successMetric: string
+  analyzedAt: Date
+  alpha: number // Per comparison, after the Bonferroni correction
+  looks: number
+  variants: VariantResult[]
+  comparisons: VariantComparison[]
+  cuped: { theta: number; varianceReduction: number; covariateCoverage: number }
+  decision: { canStop: boolean; winnerVariantId: string | null }
+}
+
+export interface ExperimentServiceOptions {
+  now?: () => Date
+}
+
+export class ExperimentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'ExperimentError'
+  }
+}
+
+type TestWithVariants = ABTest & { variants: ABTestVariant[] }
+
+const STATUS_TRANSITIONS: Record<ABTestStatus, ABTestStatus[]> = {
+  DRAFT: ['RUNNING', 'CANCELLED'],
+  RUNNING: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['RUNNING', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+}
+
+const SPLIT_TOLERANCE = 0.001
+const MAX_LOOKS = 366
+const COVARIATE_LOOKBACK_DAYS = 28
+
+// Variants in a fixed order, so hashing maps to the same variant on every node
+const variantOrder = { variants: { orderBy: { name: 'asc' as const } } }
+
+export class ExperimentService {
+  private readonly now: () => Date
+
+  constructor(private readonly db: PrismaClient, options: ExperimentServiceOptions = {}) {
+    this.now = options.now ?? (() => new Date())
+  }
+
+  async create(input: CreateABTestInput, createdBy: string): Promise<TestWithVariants> {
+    validateVariants(input.variants)
+    return this.db.aBTest.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        hypothesis: input.hypothesis,
+        successMetric: input.successMetric,
+        status: input.draft ? 'DRAFT' : 'RUNNING',
+        minimumSampleSize: input.minimumSampleSize,
+        confidenceLevel: input.confidenceLevel,
+        significanceThreshold: input.significanceThreshold,
+        minimumDetectableEffect: input.minimumDetectableEffect,
+        salt: randomBytes(8).toString('hex'),
+        startDate: input.startDate ?? this.now(),
+        createdBy,
+        variants: {
+          create: input.variants.map(variant => ({
+            name: variant.name,
+            description: variant.description,
+            trafficSplit: variant.trafficSplit,
+            isControl: variant.isControl ?? false,
+            configuration: (variant.configuration ?? {}) as Prisma.InputJsonObject,
+          })),
+        },
+      },
+      include: variantOrder,
+    })
+  }
+
+  async get(testId: string): Promise<TestWithVariants> {
+    const test = await this.db.aBTest.findUnique({ where: { id: testId }, include: variantOrder })
+    if (!test) throw new ExperimentError('A/B test not found', 'NOT_FOUND')
+    return test
+  }
+
+  async list(options: { status?: ABTestStatus } = {}): Promise<TestWithVariants[]> {
+    return this.db.aBTest.findMany({
+      where: options.status ? { status: options.status } : {},
+      include: variantOrder,
+      orderBy: { startDate: 'desc' },
+    })
+  }
+
+  /**
+   * Move a test through its lifecycle. Completing a test may name the winning variant.
+   */
+  async updateStatus(testId: string, status: ABTestStatus, winnerVariantId?: string): Promise<TestWithVariants> {
+    const test = await this.get(testId)
+    if (!STATUS_TRANSITIONS[test.status].includes(status)) {
+      throw new ExperimentError(`Cannot move a ${test.status.toLowerCase()} test to ${status.toLowerCase()}`, 'BAD_REQUEST')
+    }
+    if (winnerVariantId && (status !== 'COMPLETED' || !test.variants.some(variant => variant.id === winnerVariantId))) {
+      throw new ExperimentError('The winner must be a variant of a test being completed', 'BAD_REQUEST')
+    }
+
+    const ending = status === 'COMPLETED' || status === 'CANCELLED'
+    const updated = await this.db.aBTest.updateMany({
+      where: { id: testId, status: test.status },
+      data: { status, ...(ending && { endDate: this.now() }), ...(winnerVariantId && { winnerVariantId }) },
+    })
+    if (updated.count === 0) throw new ExperimentError('The test was changed concurrently; reload and retry', 'CONFLICT')
+    return this.get(testId)
+  }
+
+  /**
+   * The subject's variant, assigning one on first sight. Returns null while the test is
+   * not running, so callers show the default experience.
+   */
+  async assign(testId: string, subject: ExperimentSubject): Promise<ExperimentAssignment | null> {
+    if (!subject.userId && !subject.anonymousId) {
+      throw new ExperimentError('A user ID or anonymous ID is required', 'BAD_REQUEST')
+    }
+    const test = await this.get(testId)
+    if (test.status !== 'RUNNING' || test.startDate > this.now()) return null
+
+    const existing = await this.findAssignment(testId, subject)
+    if (existing) return toAssignment(test, await this.claimForUser(existing, subject))
+
+    const subjectKey = subject.userId ? `user:${subject.userId}` : `anon:${subject.anonymousId}`
+    const variant = pickVariant(test, subjectKey)
+    try {
+      const created = await this.db.aBTestAssignment.create({
+        data: {
+          testId,
+          variantId: variant.id,
+          subjectKey,
+          userId: subject.userId ?? null,
+          anonymousId: subject.anonymousId ?? null,
+          sessionId: subject.sessionId ?? null,
+          covariate: await this.preExperimentValue(test, subject),
+          assignedAt: this.now(),
+        },
+      })
+      return toAssignment(test, created)
+    } catch (error) {
+      // A concurrent request assigned the same subject first; theirs stands
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await this.findAssignment(testId, subject)
+        if (winner) return toAssignment(test, winner)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Record a conversion for an assigned subject. Conversions from subjects who were never
+   * assigned, or after the test stopped running, are ignored and return null.
+   */
+  async trackConversion(
+    testId: string,
+    subject: ExperimentSubject,
+    conversion: { metric?: string; value?: number; metadata?: Record<string, unknown> } = {}
+  ) {
+    if (!subject.userId && !subject.anonymousId) {
+      throw new ExperimentError('A user ID or anonymous ID is required', 'BAD_REQUEST')
+    }
+    const test = await this.get(testId)
+    if (test.status !== 'RUNNING') return null
+
+    const assignment = await this.findAssignment(testId, subject)
+    if (!assignment) return null
+
+    return this.db.aBTestConversion.create({
+      data: {
+        testId,
+        variantId: assignment.variantId,
+        assignmentId: assignment.id,
+        metric: conversion.metric ?? test.successMetric,
+        value: conversion.value ?? 1,
+        metadata: (conversion.metadata ?? {}) as Prisma.InputJsonObject,
+        timestamp: this.now(),
+      },
+    })
+  }
+
+  /**
+   * Per-variant outcomes, CUPED-adjusted comparisons with the control, and the
+   * fixed-horizon and sequential verdicts. `assignedSince` limits the analysis to later
+   * subjects; the sequential verdict then only covers looks from that point.
+   */
+  async results(testId: string, options: { assignedSince?: Date } = {}): Promise<ExperimentResults> {
+    const test = await this.get(testId)
+    const control = test.variants.find(variant => variant.isControl)
+    if (!control) throw new ExperimentError('The test has no control variant', 'BAD_REQUEST')
+
+    const since = options.assignedSince && options.assignedSince > test.startDate ? options.assignedSince : test.startDate
+    const [assignments, conversions] = await Promise.all([
+      this.db.aBTestAssignment.findMany({
+        where: { testId, assignedAt: { gte: since } },
+        select: { id: true, variantId: true, covariate: true, assignedAt: true },
+      }),
+      this.db.aBTestConversion.findMany({
+        where: { testId, metric: test.successMetric },
+        select: { assignmentId: true, value: true, timestamp: true },
+      }),
+    ])
+
+    const analyzedAt = test.endDate && test.endDate < this.now() ? test.endDate : this.now()
+    const treatments = test.variants.filter(variant => !variant.isControl)
+    const alpha = test.significanceThreshold / Math.max(1, treatments.length)
+
+    // One look at the end of each Singapore day since the start, and one now
+    const looks: Date[] = []
+    const lastKey = singaporeDateKey(analyzedAt)
+    for (let key = singaporeDateKey(since); key < lastKey && looks.length < MAX_LOOKS - 1; key = addDaysToKey(key, 1)) {
+      looks.push(atSingaporeTime(addDaysToKey(key, 1)))
+    }
+    looks.push(analyzedAt)
+
+    const sequentialLooks = new Map<string, SequentialLook[]>(treatments.map(variant => [variant.id, []]))
+    let final: ReturnType<typeof analyzeAt> | null = null
+    for (const at of looks) {
+      final = analyzeAt(test, assignments, conversions, at)
+      for (const variant of treatments) {
+        const treatment = final.adjusted.get(variant.id)!
+        const base = final.adjusted.get(control.id)!
+        if (treatment.n < 2 || base.n < 2) continue
+        sequentialLooks.get(variant.id)!.push({
+          difference: treatment.mean - base.mean,
+          variance: treatment.variance / treatment.n + base.variance / base.n,
+        })
+      }
+    }
+    const current = final!
+
+    const controlRaw = current.raw.get(control.id)!
+    const controlAdjusted = current.adjusted.get(control.id)!
+    // The sequential test is tuned to a lift of `minimumDetectableEffect` on the control
+    const mixingVariance = (test.minimumDetectableEffect * (controlRaw.mean || Math.sqrt(controlRaw.variance))) ** 2
+
+    const comparisons: VariantComparison[] = treatments.map(variant => {
+      const adjusted = current.adjusted.get(variant.id)!
+      const fixed = fixedHorizonTest(adjusted, controlAdjusted, test.confidenceLevel)
+      const sampleSizeReached = adjusted.n >= test.minimumSampleSize && controlAdjusted.n >= test.minimumSampleSize
+      const sequential = sequentialAnalysis(sequentialLooks.get(variant.id)!, mixingVariance, alpha)
+      return {
+        variantId: variant.id,
+        name: variant.name,
+        difference: fixed.difference,
+        relativeLift: controlAdjusted.mean !== 0 ? fixed.difference / controlAdjusted.mean : null,
+        fixedHorizon: {
+          ...fixed,
+          isSignificant: sampleSizeReached && fixed.pValue !== null && fixed.pValue < alpha,
+          sampleSizeReached,
+        },
+        sequential: sequential && { ...sequential, canStop: sequential.pValue < alpha },
+      }
+    })
+
+    return {
+      testId: test.id,
+      name: test.name,
+      status: test.status,
+      successMetric: test.successMetric,
+      analyzedAt,
+      alpha,
+      looks: looks.length,
+      variants: test.variants.map(variant => ({
+        variantId: variant.id,
+        name: variant.name,
+        isControl: variant.isControl,
+        trafficSplit: variant.trafficSplit,
+        ...current.counts.get(variant.id)!,
+        mean: current.raw.get(variant.id)!.mean,
+        adjustedMean: current.adjusted.get(variant.id)!.mean,
+      })),
+      comparisons,
+      cuped: current.cuped,
+      decision: decide(control.id, comparisons),
+    }
+  }
+
+  /**
+   * The subject's value of the test's success metric over the lookback window before the
+   * test started, from their conversions in earlier tests. Null when the subject was not
+   * in any earlier test, since nothing is known about them.
+   */
+  private async preExperimentValue(test: TestWithVariants, subject: ExperimentSubject): Promise<number | null> {
+    const earlier = await this.db.aBTestAssignment.findMany({
+      where: {
+        testId: { not: test.id },
+        assignedAt: { lt: test.startDate },
+        OR: [
+          ...(subject.userId ? [{ userId: subject.userId }] : []),
+          ...(subject.anonymousId ? [{ anonymousId: subject.anonymousId }] : []),
+        ],
+      },
+      select: { id: true },
+    })
+    if (earlier.length === 0) return null
+
+    const { _sum } = await this.db.aBTestConversion.aggregate({
+      where: {
+        assignmentId: { in: earlier.map(assignment => assignment.id) },
+        metric: test.successMetric,
+        timestamp: { gte: new Date(test.startDate.getTime() - COVARIATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000), lt: test.startDate },
+      },
+      _sum: { value: true },
+    })
+    return _sum.value ?? 0
+  }
+
+  // The user's assignment when logged in, otherwise (or failing that) the device's
+  private async findAssignment(testId: string, subject: ExperimentSubject): Promise<ABTestAssignment | null> {
+    if (subject.userId) {
+      const byUser = await this.db.aBTestAssignment.findUnique({
+        where: { testId_subjectKey: { testId, subjectKey: `user:${subject.userId}` } },
+      })
+      if (byUser) return byUser
+    }
+    if (subject.anonymousId) {
+      return this.db.aBTestAssignment.findUnique({
+        where: { testId_subjectKey: { testId, subjectKey: `anon:${subject.anonymousId}` } },
+      })
+    }
+    return null
+  }
+
+  // A device assignment becomes the user's at login, so other devices follow it
+  private async claimForUser(assignment: ABTestAssignment, subject: ExperimentSubject): Promise<ABTestAssignment> {
+    if (!subject.userId || assignment.userId) return assignment
+    try {
+      return await this.db.aBTestAssignment.update({
+        where: { id: assignment.id },
+        data: { subjectKey: `user:${subject.userId}`, userId: subject.userId },
+      })
+    } catch (error) {
+      // The user was assigned on another device at the same moment; that assignment stands
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return (await this.findAssignment(assignment.testId, { userId: subject.userId })) ?? assignment
+      }
+      throw error
+    }
+  }
+}
+
+function validateVariants(variants: CreateABTestInput['variants']) {
+  if (variants.length < 2) throw new ExperimentError('An A/B test needs at least two variants', 'BAD_REQUEST')
+  if (variants.filter(variant => variant.isControl).length !== 1) {
+    throw new ExperimentError('Exactly one control variant is required', 'BAD_REQUEST')
+  }
+  if (new Set(variants.map(variant => variant.name)).size !== variants.length) {
+    throw new ExperimentError('Variant names must be unique', 'BAD_REQUEST')
+  }
+  const total = variants.reduce((sum, variant) => sum + variant.trafficSplit, 0)
+  if (variants.some(variant => variant.trafficSplit <= 0) || Math.abs(total - 1) > SPLIT_TOLERANCE) {
+    throw new ExperimentError('Traffic splits must be positive and sum to 100%', 'BAD_REQUEST')
+  }
+}
+
+/**
+ * Deterministic variant for a subject: the salted hash picks a point in [0, 1) that the
+ * cumulative traffic splits divide between variants
+ */
+export function pickVariant(test: Pick<TestWithVariants, 'salt' | 'variants'>, subjectKey: string): ABTestVariant {
+  const digest = createHash('sha256').update(`${test.salt}:${subjectKey}`).digest()
+  const point = digest.readUInt32BE(0) / 2 ** 32
+  const total = test.variants.reduce((sum, variant) => sum + variant.trafficSplit, 0)
+
+  let cumulative = 0
+  for (const variant of test.variants) {
+    cumulative += variant.trafficSplit / total
+    if (point < cumulative) return variant
+  }
+  return test.variants[test.variants.length - 1]!
+}
+
+function toAssignment(test: TestWithVariants, assignment: ABTestAssignment): ExperimentAssignment {
+  const variant = test.variants.find(candidate => candidate.id === assignment.variantId)!
+  return {
+    assignmentId: assignment.id,
+    testId: test.id,
+    variantId: variant.id,
+    variantName: variant.name,
+    isControl: variant.isControl,
+    configuration: variant.configuration,
+  }
+}
+
+// Outcomes of subjects assigned by `at`, counting conversions up to `at`
+function analyzeAt(
+  test: TestWithVariants,
+  assignments: { id: string; variantId: string; covariate: number | null; assignedAt: Date }[],
+  conversions: { assignmentId: string; value: number; timestamp: Date }[],
+  at: Date
+) {
+  const outcomes = new Map<string, { value: number; count: number }>()
+  for (const conversion of conversions) {
+    if (conversion.timestamp > at) continue
+    const entry = outcomes.get(conversion.assignmentId) ?? { value: 0, count: 0 }
+    entry.value += conversion.value
+    entry.count++
+    outcomes.set(conversion.assignmentId, entry)
+  }
+
+  const included = assignments.filter(assignment => assignment.assignedAt <= at)
+  const cuped = cupedAdjust(
+    included.map(assignment => ({ outcome: outcomes.get(assignment.id)?.value ?? 0, covariate: assignment.covariate }))
+  )
+
+  const raw = new Map<string, ReturnType<typeof summarize>>()
+  const adjusted = new Map<string, ReturnType<typeof summarize>>()
+  const counts = new Map<string, { subjects: number; converted: number; conversions: number; conversionRate: number }>()
+  for (const variant of test.variants) {
+    const indices = included.flatMap((assignment, i) => (assignment.variantId === variant.id ? [i] : []))
+    const variantOutcomes = indices.map(i => outcomes.get(included[i]!.id))
+    const converted = variantOutcomes.filter(outcome => outcome && outcome.count > 0).length
+    raw.set(variant.id, summarize(variantOutcomes.map(outcome => outcome?.value ?? 0)))
+    adjusted.set(variant.id, summarize(indices.map(i => cuped.adjusted[i]!)))
+    counts.set(variant.id, {
+      subjects: indices.length,
+      converted,
+      conversions: variantOutcomes.reduce((sum, outcome) => sum + (outcome?.count ?? 0), 0),
+      conversionRate: indices.length > 0 ? converted / indices.length : 0,
+    })
+  }
+
+  return {
+    raw,
+    adjusted,
+    counts,
+    cuped: { theta: cuped.theta, varianceReduction: cuped.varianceReduction, covariateCoverage: cuped.covariateCoverage },
+  }
+}
+
+// Stop once every treatment is conclusive, or as soon as one is conclusively better
+function decide(controlId: string, comparisons: VariantComparison[]): ExperimentResults['decision'] {
+  const better = comparisons
+    .filter(comparison => comparison.sequential?.canStop && comparison.difference > 0)
+    .sort((a, b) => b.difference - a.difference)
+  if (better.length > 0) return { canStop: true, winnerVariantId: better[0]!.variantId }
+  if (comparisons.length > 0 && comparisons.every(comparison => comparison.sequential?.canStop)) {
+    return { canStop: true, winnerVariantId: controlId }
+  }
+  return { canStop: false, winnerVariantId: null }
+}
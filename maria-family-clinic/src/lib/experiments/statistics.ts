@@ -0,0 +1,163 @@
+import { normalQuantile } from '../forecasting/model'
+
+/**
+ * A/B test statistics - CUPED-adjusted means, fixed-horizon and sequential tests
+ *
+ * Each subject contributes one outcome: the total value of their conversions on the
+ * test's success metric. CUPED subtracts the part of that outcome explained by the
+ * subject's pre-experiment value of the same metric, which leaves the difference between
+ * variants unbiased but less noisy. The fixed-horizon test is a Welch z-test, valid only
+ * when read once at the planned sample size. The sequential test is a mixture SPRT
+ * (mSPRT) with a normal mixing distribution: its p-value and interval stay valid however
+ * often they are looked at, so a test can be stopped as soon as it is conclusive.
+ */
+
+export interface SampleSummary {
+  n: number
+  mean: number
+  variance: number // Sample variance; 0 below two observations
+}
+
+/** An outcome and its pre-experiment covariate, when one was recorded */
+export interface CupedObservation {
+  outcome: number
+  covariate: number | null
+}
+
+export interface CupedAdjustment {
+  theta: number
+  adjusted: number[] // In the order observations were given
+  varianceReduction: number // 1 - adjusted variance / raw variance
+  covariateCoverage: number // Share of observations with a covariate
+}
+
+export interface FixedHorizonTest {
+  difference: number
+  standardError: number | null
+  zScore: number | null
+  pValue: number | null
+  confidenceInterval: [number, number] | null
+}
+
+export interface SequentialTest {
+  likelihoodRatio: number
+  pValue: number
+  confidenceInterval: [number, number]
+}
+
+/** A look at the data: the difference in means and its variance at that point */
+export interface SequentialLook {
+  difference: number
+  variance: number
+}
+
+export function summarize(values: number[]): SampleSummary {
+  const n = values.length
+  if (n === 0) return { n, mean: 0, variance: 0 }
+  const mean = values.reduce((sum, value) => sum + value, 0) / n
+  const variance = n > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1) : 0
+  return { n, mean, variance }
+}
+
+/**
+ * CUPED adjustment with one theta pooled across variants. Observations without a
+ * covariate get the covariate mean, so they are left unadjusted.
+ */
+export function cupedAdjust(observations: CupedObservation[]): CupedAdjustment {
+  const withCovariate = observations.filter(observation => observation.covariate !== null)
+  const covariateMean = summarize(withCovariate.map(observation => observation.covariate!)).mean
+  const xs = observations.map(observation => observation.covariate ?? covariateMean)
+  const ys = observations.map(observation => observation.outcome)
+  const x = summarize(xs)
+  const y = summarize(ys)
+
+  let covariance = 0
+  for (let i = 0; i < observations.length; i++) covariance += (xs[i]! - x.mean) * (ys[i]! - y.mean)
+  covariance = observations.length > 1 ? covariance / (observations.length - 1) : 0
+
+  const theta = x.variance > 0 ? covariance / x.variance : 0
+  const adjusted = ys.map((outcome, i) => outcome - theta * (xs[i]! - x.mean))
+  const adjustedVariance = summarize(adjusted).variance
+
+  return {
+    theta,
+    adjusted,
+    varianceReduction: y.variance > 0 ? 1 - adjustedVariance / y.variance : 0,
+    covariateCoverage: observations.length > 0 ? withCovariate.length / observations.length : 0,
+  }
+}
+
+/**
+ * Two-sided Welch z-test of treatment minus control, with its confidence interval
+ */
+export function fixedHorizonTest(treatment: SampleSummary, control: SampleSummary, confidenceLevel: number): FixedHorizonTest {
+  const difference = treatment.mean - control.mean
+  if (treatment.n < 2 || control.n < 2) {
+    return { difference, standardError: null, zScore: null, pValue: null, confidenceInterval: null }
+  }
+
+  const standardError = Math.sqrt(treatment.variance / treatment.n + control.variance / control.n)
+  if (standardError === 0) {
+    return { difference, standardError, zScore: null, pValue: difference === 0 ? 1 : null, confidenceInterval: null }
+  }
+
+  const zScore = difference / standardError
+  const margin = normalQuantile(1 - (1 - confidenceLevel) / 2) * standardError
+  return {
+    difference,
+    standardError,
+    zScore,
+    pValue: 2 * (1 - normalCdf(Math.abs(zScore))),
+    confidenceInterval: [difference - margin, difference + margin],
+  }
+}
+
+/**
+ * mSPRT of a zero difference at one look. `variance` is the variance of the difference
+ * (the squared standard error) and `mixingVariance` the spread of effects the test is
+ * tuned to detect.
+ */
+export function sequentialTest(look: SequentialLook, mixingVariance: number, alpha: number): SequentialTest {
+  const { difference, variance } = look
+  const total = variance + mixingVariance
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / total) + (mixingVariance * difference ** 2) / (2 * variance * total)
+  const margin = Math.sqrt(((variance * total) / mixingVariance) * (-2 * Math.log(alpha) + Math.log(total / variance)))
+
+  return {
+    likelihoodRatio: Math.exp(logLikelihoodRatio),
+    pValue: Math.min(1, Math.exp(-logLikelihoodRatio)),
+    confidenceInterval: [difference - margin, difference + margin],
+  }
+}
+
+/**
+ * Always-valid p-value and interval after a series of looks: the running minimum of the
+ * p-values and the intersection of the intervals. Looks without variance are skipped.
+ */
+export function sequentialAnalysis(looks: SequentialLook[], mixingVariance: number, alpha: number): SequentialTest | null {
+  let result: SequentialTest | null = null
+  for (const look of looks) {
+    if (!(look.variance > 0) || !(mixingVariance > 0)) continue
+    const current = sequentialTest(look, mixingVariance, alpha)
+    result = result
+      ? {
+          likelihoodRatio: Math.max(result.likelihoodRatio, current.likelihoodRatio),
+          pValue: Math.min(result.pValue, current.pValue),
+          confidenceInterval: [
+            Math.max(result.confidenceInterval[0], current.confidenceInterval[0]),
+            Math.min(result.confidenceInterval[1], current.confidenceInterval[1]),
+          ],
+        }
+      : current
+  }
+  return result
+}
+
+/** Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7) */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2)
+  const erfc =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(x * x) / 2)
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2
+}
@@ -0,0 +1,112 @@
+import type { Prisma } from '@prisma/client'
+import {
+  addDaysToKey,
+  atSingaporeTime,
+  dateKeysBetween,
+  singaporeDateKey,
+  toMinutes,
+  type DayHours,
+  type HoursWindow,
+} from '../clinic-hours/calendar'
+import { loadClinicDays } from '../clinic-hours/service'
+import type { DemandDay, DemandObservation } from './model'
+
+/**
+ * Daily demand features per clinic
+ *
+ * Appointments count towards the Singapore date they are booked for, enquiries towards
+ * the date they arrived. Opening hours and holidays come from the clinic hours calendar,
+ * so closed days can be told apart from quiet ones.
+ */
+
+/** A day's demand-relevant calendar, with the opening windows staffing is planned around */
+export interface CalendarDay extends DemandDay {
+  windows: HoursWindow[] | null
+}
+
+export interface DailyDemandRow extends DemandObservation {
+  completed: number
+  cancellations: number
+  enquiries: number
+}
+
+/**
+ * Opening minutes and holiday for each date from `fromKey` to `toKey`, or null when the
+ * clinic does not exist
+ */
+export async function loadDemandCalendar(
+  db: Prisma.TransactionClient,
+  clinicId: string,
+  fromKey: string,
+  toKey: string
+): Promise<CalendarDay[] | null> {
+  const days = (await loadClinicDays(db, [clinicId], fromKey, toKey)).get(clinicId)
+  if (!days) return null
+  return dateKeysBetween(fromKey, toKey).map(date => toCalendarDay(date, days.get(date)))
+}
+
+/**
+ * Bookings, completions, no-shows, cancellations and enquiries for each date from
+ * `fromKey` to `toKey`, or null when the clinic does not exist
+ */
+export async function loadDailyDemand(
+  db: Prisma.TransactionClient,
+  clinicId: string,
+  fromKey: string,
+  toKey: string
+): Promise<DailyDemandRow[] | null> {
+  const range = { gte: atSingaporeTime(fromKey), lt: atSingaporeTime(addDaysToKey(toKey, 1)) }
+  const [calendar, appointments, enquiries] = await Promise.all([
+    loadDemandCalendar(db, clinicId, fromKey, toKey),
+    db.appointment.findMany({
+      where: { clinicId, appointmentDate: range },
+      select: { appointmentDate: true, status: true },
+    }),
+    db.enquiry.findMany({
+      where: { clinicId, createdAt: range },
+      select: { createdAt: true },
+    }),
+  ])
+  if (!calendar) return null
+
+  const rows = new Map<string, DailyDemandRow>(
+    calendar.map(({ windows: _windows, ...day }: CalendarDay) => [day.date, { ...day, booked: 0, completed: 0, noShows: 0, cancellations: 0, enquiries: 0 }])
+  )
+  for (const appointment of appointments) {
+    const row = rows.get(singaporeDateKey(appointment.appointmentDate))
+    if (!row) continue
+    if (appointment.status === 'CANCELLED') {
+      row.cancellations++
+      continue
+    }
+    row.booked++
+    if (appointment.status === 'COMPLETED') row.completed++
+    if (appointment.status === 'NO_SHOW') row.noShows++
+  }
+  for (const enquiry of enquiries) {
+    const row = rows.get(singaporeDateKey(enquiry.createdAt))
+    if (row) row.enquiries++
+  }
+
+  return [...rows.values()]
+}
+
+/**
+ * Drop the days before a clinic's first appointment or enquiry, so a clinic that joined
+ * recently is not modelled as having been empty before then
+ */
+export function trimLeadingInactivity(rows: DailyDemandRow[]): DailyDemandRow[] {
+  const first = rows.findIndex(row => row.booked + row.cancellations + row.enquiries > 0)
+  return first === -1 ? [] : rows.slice(first)
+}
+
+function toCalendarDay(date: string, hours: DayHours | undefined): CalendarDay {
+  const windows = hours?.windows ?? null
+  return {
+    date,
+    dayOfWeek: new Date(`${date}T00:00:00.000Z`).getUTCDay(),
+    openMinutes: windows && windows.reduce((sum, window) => sum + toMinutes(window.end) - toMinutes(window.start), 0),
+    holiday: hours?.source === 'PUBLIC_HOLIDAY' || hours?.source === 'HOLIDAY_EVE' ? hours.source : null,
+    windows,
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Daily demand model - seasonal decomposition plus Poisson regression
+ *
+ * A classical decomposition of the training series gives multiplicative day-of-week
+ * indices. Those enter a log-link Poisson regression as an offset, and the regression
+ * fits what is left: a linear trend, an annual cycle once there is a year of history,
+ * and public holidays and their eves. Fitting is iteratively reweighted least squares
+ * with a small ridge penalty, so the same history always gives the same model.
+ * Intervals widen the Poisson variance by the fitted overdispersion.
+ */
+
+export const FORECAST_ALGORITHM = 'seasonal-poisson'
+
+export const FEATURE_NAMES = ['intercept', 'trend', 'annualSin', 'annualCos', 'publicHoliday', 'holidayEve'] as const
+
+export type FeatureName = (typeof FEATURE_NAMES)[number]
+
+/** A calendar day as the model sees it, whether in the past or the future */
+export interface DemandDay {
+  date: string // Singapore date key, "YYYY-MM-DD"
+  dayOfWeek: number // 0 = Sunday
+  openMinutes: number | null // 0 when closed; null when the clinic has no hours on record
+  holiday: 'PUBLIC_HOLIDAY' | 'HOLIDAY_EVE' | null
+}
+
+/** An observed day: appointments booked for it, excluding cancellations */
+export interface DemandObservation extends DemandDay {
+  booked: number
+  noShows: number
+}
+
+export interface DemandModel {
+  algorithm: string
+  trainedFrom: string
+  trainedTo: string
+  trainingDays: number
+  coefficients: Record<FeatureName, number>
+  weeklyIndices: number[] // Sunday first, averaging 1 over weekdays with history
+  dispersion: number
+  noShowRate: number
+}
+
+export interface DemandPrediction {
+  date: string
+  expected: number
+  lower: number
+  upper: number
+  closed: boolean
+  // Multipliers on the baseline level, for explaining a forecast
+  components: { weekly: number; trend: number; annual: number; holiday: number }
+}
+
+export interface BacktestFold {
+  trainedTo: string
+  testFrom: string
+  testTo: string
+  days: number
+  mae: number
+  rmse: number
+  mape: number | null // Over days with at least one appointment
+  bias: number // Mean of forecast minus actual
+  coverage: number // Share of actuals inside the interval
+  naiveMae: number // Same weekday last observed week
+}
+
+export interface BacktestResult {
+  folds: BacktestFold[]
+  mae: number | null
+  rmse: number | null
+  mape: number | null
+  coverage: number | null
+  naiveMae: number | null
+  skill: number | null // 1 - mae / naiveMae; above 0 beats the naive forecast
+}
+
+export class DemandModelError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DemandModelError'
+  }
+}
+
+export const MIN_TRAINING_DAYS = 56
+const MIN_ANNUAL_SPAN_DAYS = 365
+const RIDGE = 1
+const MAX_ITERATIONS = 50
+const TOLERANCE = 1e-8
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Fit the model to observed days in date order. Closed days carry no information about
+ * demand and are left out.
+ */
+export function trainDemandModel(history: DemandObservation[]): DemandModel {
+  const observed = history.filter(day => day.openMinutes !== 0)
+  if (observed.length < MIN_TRAINING_DAYS) {
+    throw new DemandModelError(`At least ${MIN_TRAINING_DAYS} open days of history are needed, found ${observed.length}`)
+  }
+
+  const trainedFrom = observed[0]!.date
+  const trainedTo = observed[observed.length - 1]!.date
+  const weeklyIndices = weeklySeasonalIndices(observed)
+  const features = activeFeatures(trainedFrom, trainedTo)
+
+  const rows = observed.map(day => featureVector(day, trainedTo).filter((_, i) => features[i]))
+  const offsets = observed.map(day => Math.log(Math.max(weeklyIndices[day.dayOfWeek]!, 1e-6)))
+  const fit = fitPoissonRegression(
+    rows,
+    observed.map(day => day.booked),
+    offsets
+  )
+
+  const coefficients = {} as Record<FeatureName, number>
+  let column = 0
+  FEATURE_NAMES.forEach((name, i) => (coefficients[name] = features[i] ? fit.coefficients[column++]! : 0))
+
+  const booked = observed.reduce((sum, day) => sum + day.booked, 0)
+  const noShows = observed.reduce((sum, day) => sum + day.noShows, 0)
+
+  return {
+    algorithm: FORECAST_ALGORITHM,
+    trainedFrom,
+    trainedTo,
+    trainingDays: observed.length,
+    coefficients,
+    weeklyIndices,
+    dispersion: fit.dispersion,
+    noShowRate: booked > 0 ? noShows / booked : 0,
+  }
+}
+
+/**
+ * Expected bookings for a day with a two-sided interval at `confidenceLevel`
+ */
+export function predictDemand(model: DemandModel, day: DemandDay, confidenceLevel = 0.9): DemandPrediction {
+  const x = featureVector(day, model.trainedTo)
+  const beta = FEATURE_NAMES.map(name => model.coefficients[name])
+  const weekly = model.weeklyIndices[day.dayOfWeek] ?? 1
+  const components = {
+    weekly,
+    trend: Math.exp(beta[1]! * x[1]!),
+    annual: Math.exp(beta[2]! * x[2]! + beta[3]! * x[3]!),
+    holiday: Math.exp(beta[4]! * x[4]! + beta[5]! * x[5]!),
+  }
+
+  if (day.openMinutes === 0) {
+    return { date: day.date, expected: 0, lower: 0, upper: 0, closed: true, components }
+  }
+
+  const expected = weekly * Math.exp(beta.reduce((sum, b, i) => sum + b * x[i]!, 0))
+  const spread = normalQuantile(0.5 + confidenceLevel / 2) * Math.sqrt(model.dispersion * expected)
+  return {
+    date: day.date,
+    expected,
+    lower: Math.max(0, expected - spread),
+    upper: expected + spread,
+    closed: false,
+    components,
+  }
+}
+
+/**
+ * The model's multipliers by weekday, by calendar month (mid-month, from the annual
+ * cycle) and over a year of trend
+ */
+export function seasonalProfile(model: DemandModel): { weekly: number[]; monthly: number[]; yearly: number } {
+  const monthly = Array.from({ length: 12 }, (_, month) => {
+    const day = { date: `2001-${String(month + 1).padStart(2, '0')}-15`, dayOfWeek: 0, openMinutes: null, holiday: null }
+    const [, , sin, cos] = featureVector(day, model.trainedTo)
+    return Math.exp(model.coefficients.annualSin * sin! + model.coefficients.annualCos * cos!)
+  })
+  return { weekly: model.weeklyIndices, monthly, yearly: Math.exp(model.coefficients.trend) }
+}
+
+/**
+ * Rolling-origin backtest: for each fold, train on everything before a cut-off and
+ * forecast the following `horizon` days, newest fold last
+ */
+export function backtestDemandModel(
+  history: DemandObservation[],
+  options: { folds?: number; horizon?: number; confidenceLevel?: number } = {}
+): BacktestResult {
+  const folds = options.folds ?? 4
+  const horizon = options.horizon ?? 28
+  const confidenceLevel = options.confidenceLevel ?? 0.9
+  const results: BacktestFold[] = []
+  if (history.length === 0) return summarize(results)
+
+  const lastDay = dayNumber(history[history.length - 1]!.date)
+  for (let fold = folds; fold >= 1; fold--) {
+    const testStart = lastDay - fold * horizon + 1
+    const training = history.filter(day => dayNumber(day.date) < testStart)
+    const test = history.filter(day => {
+      const n = dayNumber(day.date)
+      return n >= testStart && n < testStart + horizon && day.openMinutes !== 0
+    })
+    if (test.length === 0 || training.filter(day => day.openMinutes !== 0).length < MIN_TRAINING_DAYS) continue
+
+    const model = trainDemandModel(training)
+    const lastSeen = new Map<number, number>()
+    for (const day of training) if (day.openMinutes !== 0) lastSeen.set(day.dayOfWeek, day.booked)
+
+    let absolute = 0
+    let squared = 0
+    let signed = 0
+    let percentage = 0
+    let nonZero = 0
+    let covered = 0
+    let naive = 0
+    for (const day of test) {
+      const prediction = predictDemand(model, day, confidenceLevel)
+      const error = prediction.expected - day.booked
+      absolute += Math.abs(error)
+      squared += error * error
+      signed += error
+      if (day.booked > 0) {
+        percentage += Math.abs(error) / day.booked
+        nonZero++
+      }
+      if (day.booked >= prediction.lower && day.booked <= prediction.upper) covered++
+      naive += Math.abs((lastSeen.get(day.dayOfWeek) ?? 0) - day.booked)
+    }
+
+    results.push({
+      trainedTo: model.trainedTo,
+      testFrom: test[0]!.date,
+      testTo: test[test.length - 1]!.date,
+      days: test.length,
+      mae: absolute / test.length,
+      rmse: Math.sqrt(squared / test.length),
+      mape: nonZero > 0 ? percentage / nonZero : null,
+      bias: signed / test.length,
+      coverage: covered / test.length,
+      naiveMae: naive / test.length,
+    })
+  }
+
+  return summarize(results)
+}
+
+/**
+ * Multiplicative day-of-week indices from a classical decomposition: each day's bookings
+ * over the mean of the open days in the full week centred on it, averaged per weekday
+ * and normalised to average 1. Weekdays without history get 1.
+ */
+export function weeklySeasonalIndices(observed: DemandObservation[]): number[] {
+  const days = observed.map(day => ({ n: dayNumber(day.date), day }))
+  const first = days[0]?.n ?? 0
+  const last = days[days.length - 1]?.n ?? 0
+  const ratios: number[][] = Array.from({ length: 7 }, () => [])
+
+  let start = 0
+  let end = 0
+  let windowSum = 0
+  for (const { n, day } of days) {
+    if (n - 3 < first || n + 3 > last) continue
+    while (end < days.length && days[end]!.n <= n + 3) windowSum += days[end++]!.day.booked
+    while (days[start]!.n < n - 3) windowSum -= days[start++]!.day.booked
+    const level = windowSum / (end - start)
+    if (level > 0) ratios[day.dayOfWeek]!.push(day.booked / level)
+  }
+
+  const means = ratios.map(values => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null))
+  const known = means.filter((mean): mean is number => mean !== null)
+  const scale = known.length > 0 ? known.reduce((sum, mean) => sum + mean, 0) / known.length : 1
+  return means.map(mean => (mean === null || scale === 0 ? 1 : mean / scale))
+}
+
+/**
+ * Log-link Poisson regression by iteratively reweighted least squares. The intercept
+ * (first column) is not penalised.
+ */
+export function fitPoissonRegression(
+  rows: number[][],
+  counts: number[],
+  offsets: number[]
+): { coefficients: number[]; iterations: number; dispersion: number } {
+  const p = rows[0]?.length ?? 0
+  const mean = counts.reduce((sum, y) => sum + y, 0) / Math.max(counts.length, 1)
+  let beta = Array.from({ length: p }, (_, j) => (j === 0 ? Math.log(Math.max(mean, 0.1)) : 0))
+  let iterations = 0
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++
+    const gram = Array.from({ length: p }, (_, j) => Array.from({ length: p }, (_, k): number => (j === k && j > 0 ? RIDGE : 0)))
+    const rhs = new Array<number>(p).fill(0)
+
+    rows.forEach((x, i) => {
+      const eta = dot(x, beta) + offsets[i]!
+      const mu = Math.exp(eta)
+      const z = eta - offsets[i]! + (counts[i]! - mu) / mu
+      for (let j = 0; j < p; j++) {
+        rhs[j] = rhs[j]! + mu * x[j]! * z
+        for (let k = 0; k < p; k++) gram[j]![k] = gram[j]![k]! + mu * x[j]! * x[k]!
+      }
+    })
+
+    const next = solve(gram, rhs)
+    const change = Math.max(...next.map((b, j) => Math.abs(b - beta[j]!)))
+    beta = next
+    if (change < TOLERANCE) break
+  }
+
+  // Pearson dispersion; under-dispersed fits keep the plain Poisson variance
+  let pearson = 0
+  rows.forEach((x, i) => {
+    const mu = Math.exp(dot(x, beta) + offsets[i]!)
+    pearson += (counts[i]! - mu) ** 2 / mu
+  })
+  const dispersion = Math.max(1, pearson / Math.max(rows.length - p, 1))
+
+  return { coefficients: beta, iterations, dispersion }
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) throw new RangeError(`Probability must be between 0 and 1, got ${p}`)
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+
+  const tail = (q: number) =>
+    (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+    ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
+
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)))
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)))
+
+  const q = p - 0.5
+  const r = q * q
+  return (
+    ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1)
+  )
+}
+
+// Days since the epoch for a date key
+function dayNumber(dateKey: string): number {
+  return Math.round(Date.parse(`${dateKey}T00:00:00.000Z`) / DAY_MS)
+}
+
+// Trend is in years relative to the end of training, so forecasts extrapolate from 0
+function featureVector(day: DemandDay, trainedTo: string): number[] {
+  const angle = (2 * Math.PI * (dayNumber(day.date) - dayNumber(`${day.date.slice(0, 4)}-01-01`))) / 365.25
+  return [
+    1,
+    (dayNumber(day.date) - dayNumber(trainedTo)) / 365,
+    Math.sin(angle),
+    Math.cos(angle),
+    day.holiday === 'PUBLIC_HOLIDAY' ? 1 : 0,
+    day.holiday === 'HOLIDAY_EVE' ? 1 : 0,
+  ]
+}
+
+// The annual cycle is only fitted once the history covers a year of it
+function activeFeatures(trainedFrom: string, trainedTo: string): boolean[] {
+  const annual = dayNumber(trainedTo) - dayNumber(trainedFrom) + 1 >= MIN_ANNUAL_SPAN_DAYS
+  return FEATURE_NAMES.map(name => annual || (name !== 'annualSin' && name !== 'annualCos'))
+}
+
+function summarize(folds: BacktestFold[]): BacktestResult {
+  if (folds.length === 0) return { folds, mae: null, rmse: null, mape: null, coverage: null, naiveMae: null, skill: null }
+
+  const days = folds.reduce((sum, fold) => sum + fold.days, 0)
+  const weighted = (value: (fold: BacktestFold) => number) => folds.reduce((sum, fold) => sum + value(fold) * fold.days, 0) / days
+  const withMape = folds.filter(fold => fold.mape !== null)
+  const mae = weighted(fold => fold.mae)
+  const naiveMae = weighted(fold => fold.naiveMae)
+
+  return {
+    folds,
+    mae,
+    rmse: Math.sqrt(weighted(fold => fold.rmse ** 2)),
+    mape: withMape.length > 0 ? withMape.reduce((sum, fold) => sum + fold.mape!, 0) / withMape.length : null,
+    coverage: weighted(fold => fold.coverage),
+    naiveMae,
+    skill: naiveMae > 0 ? 1 - mae / naiveMae : null,
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i]!, 0)
+}
+
+// Gaussian elimination with partial pivoting; the ridge keeps the system non-singular
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length
+  const a = matrix.map((row, i) => [...row, vector[i]!])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) pivot = row
+    ;[a[col], a[pivot]] = [a[pivot]!, a[col]!]
+    const lead = a[col]![col]!
+    if (Math.abs(lead) < 1e-12) throw new DemandModelError('Demand regression is singular')
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row]![col]! / lead
+      for (let k = col; k <= n; k++) a[row]![k] = a[row]![k]! - factor * a[col]![k]!
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row]![n]!
+    for (let k = row + 1; k < n; k++) sum -= a[row]![k]! * x[k]!
+    x[row] = sum / a[row]![row]!
+  }
+  return x
+}
@@ -0,0 +1,328 @@
+import type { DemandForecastModel, Prisma, PrismaClient } from '@prisma/client'
+import { addDaysToKey, dateColumnToKey, keyToDateColumn, singaporeDateKey, toMinutes } from '../clinic-hours/calendar'
+import { DEFAULT_SHIFTS, type CoverageDemand, type ShiftTemplate } from '../scheduling/optimizer'
+import { loadDailyDemand, loadDemandCalendar, trimLeadingInactivity, type CalendarDay, type DailyDemandRow } from './features'
+import {
+  backtestDemandModel,
+  DemandModelError,
+  predictDemand,
+  trainDemandModel,
+  type BacktestResult,
+  type DemandModel,
+  type DemandPrediction,
+  type FeatureName,
+} from './model'
+
+/**
+ * Demand Forecast Service - Trains, stores and applies per-clinic daily demand models
+ *
+ * Training reads up to two years of daily bookings, backtests the model on the most
+ * recent weeks, fits it to the whole window and stores it as the clinic's next model
+ * version. Forecasts use the active version, retraining first once it is older than
+ * `maxModelAgeDays`. Staffing plans turn a forecast into doctors per shift, sized for the
+ * upper end of the interval after expected no-shows.
+ */
+
+export interface StoredDemandModel extends DemandModel {
+  id: string
+  clinicId: string
+  version: number
+  isActive: boolean
+  backtest: BacktestResult
+  trainedBy: string | null
+  createdAt: Date
+}
+
+export interface ForecastDay extends DemandPrediction, CalendarDay {}
+
+export interface DemandForecastResult {
+  clinicId: string
+  model: StoredDemandModel
+  confidenceLevel: number
+  days: ForecastDay[]
+}
+
+export interface StaffingOptions {
+  consultationsPerDoctorHour?: number
+  targetUtilisation?: number // Share of consultation slots expected to be used
+  shifts?: ShiftTemplate[]
+}
+
+export interface StaffingRecommendation {
+  date: string
+  closed: boolean
+  expectedAppointments: number
+  expectedAttendance: number // After expected no-shows
+  plannedAttendance: number // Upper bound after no-shows; what the shifts are staffed for
+  shifts: CoverageDemand[] // Doctors per shift, in the roster optimiser's demand format
+  peakDoctors: number
+  consultationCapacity: number
+}
+
+export interface HourlyLoad {
+  date: string
+  hour: number // Singapore hour, 0-23
+  expectedArrivals: number // Attending patients expected in the hour
+  doctors: number // Rostered by the staffing plan
+  capacity: number // Consultations those doctors can see in the hour
+}
+
+export interface DemandForecastServiceOptions {
+  now?: () => Date
+  historyDays?: number
+  maxModelAgeDays?: number
+}
+
+export class ForecastingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'PRECONDITION_FAILED'
+  ) {
+    super(message)
+    this.name = 'ForecastingError'
+  }
+}
+
+const DEFAULT_HISTORY_DAYS = 730
+const DEFAULT_MAX_MODEL_AGE_DAYS = 7
+const DEFAULT_CONSULTATIONS_PER_DOCTOR_HOUR = 4
+const DEFAULT_TARGET_UTILISATION = 0.85
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class DemandForecastService {
+  private readonly now: () => Date
+  private readonly historyDays: number
+  private readonly maxModelAgeDays: number
+  // Concurrent forecasts for a clinic share one retrain
+  private readonly training = new Map<string, Promise<StoredDemandModel>>()
+
+  constructor(private readonly db: PrismaClient, options: DemandForecastServiceOptions = {}) {
+    this.now = options.now ?? (() => new Date())
+    this.historyDays = options.historyDays ?? DEFAULT_HISTORY_DAYS
+    this.maxModelAgeDays = options.maxModelAgeDays ?? DEFAULT_MAX_MODEL_AGE_DAYS
+  }
+
+  /**
+   * Daily demand up to yesterday, from the clinic's first activity within the history window
+   */
+  async history(clinicId: string): Promise<DailyDemandRow[]> {
+    const toKey = addDaysToKey(singaporeDateKey(this.now()), -1)
+    const rows = await loadDailyDemand(this.db, clinicId, addDaysToKey(toKey, 1 - this.historyDays), toKey)
+    if (!rows) throw new ForecastingError('Clinic not found', 'NOT_FOUND')
+    return trimLeadingInactivity(rows)
+  }
+
+  /**
+   * Backtest and fit a model on the clinic's history and store it as the active version
+   */
+  async train(clinicId: string, trainedBy?: string | null): Promise<StoredDemandModel> {
+    const history = await this.history(clinicId)
+
+    let model: DemandModel
+    try {
+      model = trainDemandModel(history)
+    } catch (error) {
+      if (error instanceof DemandModelError) throw new ForecastingError(error.message, 'PRECONDITION_FAILED')
+      throw error
+    }
+    const backtest = backtestDemandModel(history)
+
+    const row = await this.db.$transaction(async tx => {
+      const latest = await tx.demandForecastModel.findFirst({
+        where: { clinicId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+      await tx.demandForecastModel.updateMany({ where: { clinicId, isActive: true }, data: { isActive: false } })
+      return tx.demandForecastModel.create({
+        data: {
+          clinicId,
+          version: (latest?.version ?? 0) + 1,
+          algorithm: model.algorithm,
+          trainedFrom: keyToDateColumn(model.trainedFrom),
+          trainedTo: keyToDateColumn(model.trainedTo),
+          trainingDays: model.trainingDays,
+          coefficients: model.coefficients as unknown as Prisma.InputJsonObject,
+          weeklyIndices: model.weeklyIndices as unknown as Prisma.InputJsonArray,
+          dispersion: model.dispersion,
+          noShowRate: model.noShowRate,
+          backtest: backtest as unknown as Prisma.InputJsonObject,
+          mae: backtest.mae,
+          mape: backtest.mape,
+          trainedBy: trainedBy ?? null,
+        },
+      })
+    })
+    return toStoredModel(row)
+  }
+
+  async activeModel(clinicId: string): Promise<StoredDemandModel | null> {
+    const row = await this.db.demandForecastModel.findFirst({
+      where: { clinicId, isActive: true },
+      orderBy: { version: 'desc' },
+    })
+    return row ? toStoredModel(row) : null
+  }
+
+  /**
+   * Every stored version for a clinic, newest first
+   */
+  async versions(clinicId: string): Promise<StoredDemandModel[]> {
+    const rows = await this.db.demandForecastModel.findMany({ where: { clinicId }, orderBy: { version: 'desc' } })
+    return rows.map(toStoredModel)
+  }
+
+  /**
+   * Expected bookings for `days` days from today. A stale model is retrained first; if
+   * that fails for lack of history, the stale model is still used.
+   */
+  async forecast(clinicId: string, options: { days?: number; confidenceLevel?: number } = {}): Promise<DemandForecastResult> {
+    const days = options.days ?? 14
+    const confidenceLevel = options.confidenceLevel ?? 0.9
+    const model = await this.currentModel(clinicId)
+
+    const fromKey = singaporeDateKey(this.now())
+    const calendar = await loadDemandCalendar(this.db, clinicId, fromKey, addDaysToKey(fromKey, days - 1))
+    if (!calendar) throw new ForecastingError('Clinic not found', 'NOT_FOUND')
+
+    return {
+      clinicId,
+      model,
+      confidenceLevel,
+      days: calendar.map(day => ({ ...day, ...predictDemand(model, day, confidenceLevel) })),
+    }
+  }
+
+  /**
+   * Doctors needed per shift on each forecast day. A shift's share of the day's demand is
+   * its share of the opening hours the shifts cover.
+   */
+  staffingPlan(forecast: DemandForecastResult, options: StaffingOptions = {}): StaffingRecommendation[] {
+    const perDoctorHour = options.consultationsPerDoctorHour ?? DEFAULT_CONSULTATIONS_PER_DOCTOR_HOUR
+    const utilisation = options.targetUtilisation ?? DEFAULT_TARGET_UTILISATION
+    const shifts = options.shifts ?? DEFAULT_SHIFTS
+    const attending = 1 - forecast.model.noShowRate
+
+    return forecast.days.map(day => {
+      const plannedAttendance = day.upper * attending
+      const openShiftMinutes = shifts.map(shift => openMinutesDuring(shift, day))
+      const coveredMinutes = openShiftMinutes.reduce((sum, minutes) => sum + minutes, 0)
+
+      let consultationCapacity = 0
+      const coverage: CoverageDemand[] = shifts.map((shift, i) => {
+        const hours = (toMinutes(shift.endTime) - toMinutes(shift.startTime)) / 60
+        const share = coveredMinutes > 0 ? openShiftMinutes[i]! / coveredMinutes : 0
+        const doctors = share > 0 ? Math.max(1, Math.ceil((plannedAttendance * share) / (perDoctorHour * hours * utilisation))) : 0
+        consultationCapacity += doctors * perDoctorHour * hours
+        return { clinicId: forecast.clinicId, date: day.date, shiftId: shift.id, doctors }
+      })
+
+      return {
+        date: day.date,
+        closed: day.closed,
+        expectedAppointments: day.expected,
+        expectedAttendance: day.expected * attending,
+        plannedAttendance,
+        shifts: coverage,
+        peakDoctors: Math.max(0, ...coverage.map(entry => entry.doctors)),
+        consultationCapacity,
+      }
+    })
+  }
+
+  /**
+   * Expected arrivals and rostered capacity in each Singapore hour of the forecast. A day's
+   * attendance is spread over the open minutes the shifts cover, as in `staffingPlan`.
+   */
+  hourlyLoad(forecast: DemandForecastResult, options: StaffingOptions = {}): HourlyLoad[] {
+    const perDoctorHour = options.consultationsPerDoctorHour ?? DEFAULT_CONSULTATIONS_PER_DOCTOR_HOUR
+    const shifts = options.shifts ?? DEFAULT_SHIFTS
+    const plans = this.staffingPlan(forecast, options)
+
+    return forecast.days.flatMap((day, d) => {
+      const plan = plans[d]!
+      const coveredMinutes = shifts.reduce((sum, shift) => sum + openMinutesDuring(shift, day), 0)
+
+      return Array.from({ length: 24 }, (_, hour) => {
+        let openMinutes = 0
+        let doctors = 0
+        let capacity = 0
+        shifts.forEach((shift, i) => {
+          const start = Math.max(toMinutes(shift.startTime), hour * 60)
+          const end = Math.min(toMinutes(shift.endTime), (hour + 1) * 60)
+          if (end <= start) return
+          const rostered = plan.shifts[i]!.doctors
+          openMinutes += openMinutesBetween(start, end, day)
+          doctors += rostered
+          capacity += (rostered * perDoctorHour * (end - start)) / 60
+        })
+
+        return {
+          date: day.date,
+          hour,
+          expectedArrivals: coveredMinutes > 0 ? (plan.expectedAttendance * openMinutes) / coveredMinutes : 0,
+          doctors,
+          capacity,
+        }
+      })
+    })
+  }
+
+  /**
+   * The active model, retrained first once it is older than `maxModelAgeDays`
+   */
+  async currentModel(clinicId: string): Promise<StoredDemandModel> {
+    const active = await this.activeModel(clinicId)
+    if (active && this.now().getTime() - active.createdAt.getTime() < this.maxModelAgeDays * DAY_MS) return active
+
+    try {
+      return await this.trainOnce(clinicId)
+    } catch (error) {
+      if (active && error instanceof ForecastingError && error.code === 'PRECONDITION_FAILED') return active
+      throw error
+    }
+  }
+
+  private trainOnce(clinicId: string): Promise<StoredDemandModel> {
+    let pending = this.training.get(clinicId)
+    if (!pending) {
+      pending = this.train(clinicId).finally(() => this.training.delete(clinicId))
+      this.training.set(clinicId, pending)
+    }
+    return pending
+  }
+}
+
+// Minutes of the shift inside the day's opening windows; the whole shift when hours are unknown
+function openMinutesDuring(shift: ShiftTemplate, day: ForecastDay): number {
+  return openMinutesBetween(toMinutes(shift.startTime), toMinutes(shift.endTime), day)
+}
+
+function openMinutesBetween(start: number, end: number, day: ForecastDay): number {
+  if (day.closed) return 0
+  if (!day.windows) return end - start
+  return day.windows.reduce(
+    (sum, window) => sum + Math.max(0, Math.min(end, toMinutes(window.end)) - Math.max(start, toMinutes(window.start))),
+    0
+  )
+}
+
+function toStoredModel(row: DemandForecastModel): StoredDemandModel {
+  return {
+    id: row.id,
+    clinicId: row.clinicId,
+    version: row.version,
+    isActive: row.isActive,
+    algorithm: row.algorithm,
+    trainedFrom: dateColumnToKey(row.trainedFrom),
+    trainedTo: dateColumnToKey(row.trainedTo),
+    trainingDays: row.trainingDays,
+    coefficients: row.coefficients as unknown as Record<FeatureName, number>,
+    weeklyIndices: row.weeklyIndices as unknown as number[],
+    dispersion: row.dispersion,
+    noShowRate: row.noShowRate,
+    backtest: row.backtest as unknown as BacktestResult,
+    trainedBy: row.trainedBy,
+    createdAt: row.createdAt,
+  }
+}
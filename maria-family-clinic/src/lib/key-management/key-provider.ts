@@ -0,0 +1,127 @@
+import crypto from 'crypto'
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+
+/**
+ * Key Providers - Key encryption keys (KEKs) that wrap the data keys in the key ring
+ *
+ * Data keys are only ever stored wrapped; a provider holds the KEK and never hands it
+ * out. Production deployments implement KeyProvider over a managed KMS; the local file
+ * provider is a stand-in for development and tests.
+ */
+
+export interface WrappedKey {
+  wrappedKey: string
+  kekId: string
+}
+
+export interface KeyProvider {
+  /** Wrap a data key with the provider's current key encryption key */
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>
+  /** Unwrap a data key wrapped by `kekId`, which may no longer be current */
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>
+}
+
+export class KeyManagementError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'KEY_NOT_FOUND' | 'KEY_RETIRED' | 'PROVIDER_ERROR'
+  ) {
+    super(message)
+    this.name = 'KeyManagementError'
+  }
+}
+
+interface LocalKmsFile {
+  currentKeyId: string
+  keys: Record<string, string> // KEK id -> hex key
+}
+
+const WRAP_ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+/**
+ * File-based KMS stand-in. The file is created with a fresh KEK on first use and should
+ * be kept out of source control (readable by the app user only).
+ */
+export class LocalFileKeyProvider implements KeyProvider {
+  private file: LocalKmsFile | null = null
+
+  constructor(private readonly filePath: string) {}
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const kms = await this.load()
+    const kek = this.kek(kms, kms.currentKeyId)
+    const iv = crypto.randomBytes(IV_LENGTH)
+    const cipher = crypto.createCipheriv(WRAP_ALGORITHM, kek, iv, { authTagLength: TAG_LENGTH })
+    cipher.setAAD(Buffer.from(kms.currentKeyId, 'utf8'))
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()])
+
+    return {
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+      kekId: kms.currentKeyId,
+    }
+  }
+
+  async unwrapKey({ wrappedKey, kekId }: WrappedKey): Promise<Buffer> {
+    const kek = this.kek(await this.load(), kekId)
+    const raw = Buffer.from(wrappedKey, 'base64')
+
+    try {
+      const decipher = crypto.createDecipheriv(WRAP_ALGORITHM, kek, raw.subarray(0, IV_LENGTH), {
+        authTagLength: TAG_LENGTH,
+      })
+      decipher.setAAD(Buffer.from(kekId, 'utf8'))
+      decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH))
+      return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()])
+    } catch {
+      throw new KeyManagementError(`Data key could not be unwrapped with ${kekId}`, 'PROVIDER_ERROR')
+    }
+  }
+
+  /**
+   * Add a new KEK and wrap future data keys with it. Existing wrapped keys stay readable.
+   */
+  async rotateKeyEncryptionKey(): Promise<string> {
+    const kms = await this.load()
+    const kekId = newKekId()
+    kms.keys[kekId] = crypto.randomBytes(32).toString('hex')
+    kms.currentKeyId = kekId
+    await this.save(kms)
+    return kekId
+  }
+
+  private kek(kms: LocalKmsFile, kekId: string): Buffer {
+    const hex = kms.keys[kekId]
+    if (!hex) throw new KeyManagementError(`Key encryption key ${kekId} not found`, 'KEY_NOT_FOUND')
+    return Buffer.from(hex, 'hex')
+  }
+
+  private async load(): Promise<LocalKmsFile> {
+    if (this.file) return this.file
+
+    try {
+      this.file = JSON.parse(await readFile(this.filePath, 'utf8')) as LocalKmsFile
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new KeyManagementError(`Local KMS file ${this.filePath} is unreadable`, 'PROVIDER_ERROR')
+      }
+      const kekId = newKekId()
+      this.file = { currentKeyId: kekId, keys: { [kekId]: crypto.randomBytes(32).toString('hex') } }
+      await this.save(this.file)
+    }
+
+    return this.file
+  }
+
+  private async save(kms: LocalKmsFile): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true })
+    await writeFile(this.filePath, JSON.stringify(kms, null, 2), { mode: 0o600 })
+    await chmod(this.filePath, 0o600)
+  }
+}
+
+function newKekId(): string {
+  return `kek-${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto'
+import type { EncryptionDataKey, PrismaClient } from '@prisma/client'
+import type { EncryptionKey } from '../encryption'
+import { KeyManagementError, type KeyProvider } from './key-provider'
+
+/**
+ * Key Ring - Persisted, envelope-encrypted data keys for field encryption
+ *
+ * Each data key is generated locally, wrapped by the KeyProvider and stored in
+ * EncryptionDataKey; only the wrapped form is persisted. One key is ACTIVE and encrypts
+ * new data. Rotation demotes it to DECRYPT_ONLY so existing ciphertexts stay readable
+ * until the re-encryption job has migrated them, after which the key is RETIRED.
+ */
+
+export interface KeyRingOptions {
+  rotationDays?: number
+  activeKeyCacheMs?: number // How long a process trusts its view of the active key
+}
+
+export interface ActiveDataKey {
+  keyVersion: string
+  key: Buffer
+  rotationDue: Date
+}
+
+const DATA_KEY_BYTES = 32
+const DEFAULT_ROTATION_DAYS = 90
+const DEFAULT_ACTIVE_KEY_CACHE_MS = 60 * 1000
+
+export class KeyRing {
+  private readonly rotationDays: number
+  readonly activeKeyCacheMs: number
+  private readonly unwrapped = new Map<string, Buffer>()
+  private active: { keyVersion: string; rotationDue: Date; checkedAt: number } | null = null
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly provider: KeyProvider,
+    options: KeyRingOptions = {}
+  ) {
+    this.rotationDays = options.rotationDays ?? DEFAULT_ROTATION_DAYS
+    this.activeKeyCacheMs = options.activeKeyCacheMs ?? DEFAULT_ACTIVE_KEY_CACHE_MS
+  }
+
+  /**
+   * The key that encrypts new data, creating the first key on an empty ring
+   */
+  async getActiveKey(now = new Date()): Promise<ActiveDataKey> {
+    if (!this.active || now.getTime() - this.active.checkedAt > this.activeKeyCacheMs) {
+      const row = await this.findActive()
+      if (!row) {
+        await this.rotate(now)
+      } else {
+        this.active = { keyVersion: row.keyVersion, rotationDue: row.rotationDue, checkedAt: now.getTime() }
+      }
+    }
+
+    const { keyVersion, rotationDue } = this.active!
+    return { keyVersion, rotationDue, key: await this.getKey(keyVersion) }
+  }
+
+  /**
+   * A data key by version, for decryption. Retired keys are refused.
+   */
+  async getKey(keyVersion: string): Promise<Buffer> {
+    const cached = this.unwrapped.get(keyVersion)
+    if (cached) return cached
+
+    const row = await this.db.encryptionDataKey.findUnique({ where: { keyVersion } })
+    if (!row) throw new KeyManagementError(`Encryption key version ${keyVersion} not found`, 'KEY_NOT_FOUND')
+    if (row.status === 'RETIRED') {
+      throw new KeyManagementError(`Encryption key version ${keyVersion} is retired`, 'KEY_RETIRED')
+    }
+
+    const key = await this.provider.unwrapKey({ wrappedKey: row.wrappedKey, kekId: row.kekId })
+    this.unwrapped.set(keyVersion, key)
+    return key
+  }
+
+  /**
+   * Generate a new active data key; the previous one is kept for decryption
+   */
+  async rotate(now = new Date()): Promise<string> {
+    const key = crypto.randomBytes(DATA_KEY_BYTES)
+    const wrapped = await this.provider.wrapKey(key)
+    const keyVersion = `v${now.getTime().toString(36)}_${crypto.randomBytes(8).toString('hex')}`
+    const rotationDue = new Date(now.getTime() + this.rotationDays * 24 * 60 * 60 * 1000)
+
+    await this.db.$transaction([
+      this.db.encryptionDataKey.updateMany({
+        where: { status: 'ACTIVE' },
+        data: { status: 'DECRYPT_ONLY', deactivatedAt: now },
+      }),
+      this.db.encryptionDataKey.create({
+        data: { keyVersion, ...wrapped, status: 'ACTIVE', activatedAt: now, rotationDue },
+      }),
+    ])
+
+    this.unwrapped.set(keyVersion, key)
+    this.active = { keyVersion, rotationDue, checkedAt: now.getTime() }
+    return keyVersion
+  }
+
+  /**
+   * Rotate when the active key's rotationDue has passed. Returns the new version, or null.
+   */
+  async rotateIfDue(now = new Date()): Promise<string | null> {
+    const active = await this.findActive()
+    if (active && active.rotationDue > now) return null
+    return this.rotate(now)
+  }
+
+  /**
+   * Retire a rotated-out key once no ciphertext uses it. The active key cannot be retired,
+   * nor one demoted within the last `activeKeyCacheMs`: processes that have not yet seen
+   * the rotation may still be encrypting with it.
+   */
+  async retire(keyVersion: string, now = new Date()): Promise<boolean> {
+    const result = await this.db.encryptionDataKey.updateMany({
+      where: { keyVersion, status: 'DECRYPT_ONLY', deactivatedAt: { lte: new Date(now.getTime() - this.activeKeyCacheMs) } },
+      data: { status: 'RETIRED', retiredAt: now },
+    })
+    this.unwrapped.delete(keyVersion)
+    return result.count > 0
+  }
+
+  async listKeys(): Promise<(EncryptionKey & Pick<EncryptionDataKey, 'status' | 'deactivatedAt'>)[]> {
+    const rows = await this.db.encryptionDataKey.findMany({ orderBy: { activatedAt: 'desc' } })
+    return rows.map(row => ({
+      keyId: row.id,
+      keyVersion: row.keyVersion,
+      createdAt: row.createdAt,
+      isActive: row.status === 'ACTIVE',
+      rotationDue: row.rotationDue,
+      algorithm: row.algorithm,
+      status: row.status,
+      deactivatedAt: row.deactivatedAt,
+    }))
+  }
+
+  private findActive() {
+    // Newest first, in case two processes created a first key at the same time
+    return this.db.encryptionDataKey.findFirst({ where: { status: 'ACTIVE' }, orderBy: { activatedAt: 'desc' } })
+  }
+}
@@ -0,0 +1,188 @@
+import type { PrismaClient, ReencryptionProgress } from '@prisma/client'
+import type { HealthcareEncryptionService } from '../encryption'
+
+/**
+ * Re-encryption Job - Migrates encrypted fields to the active data key
+ *
+ * Each registered field is scanned in id order, and the position is saved after every
+ * batch, so a capped run picks up where the last one stopped. Values under an older key
+ * version are decrypted and re-encrypted, and written back only if unchanged since they
+ * were read, so a concurrent update is never overwritten. A rotation starts a new pass.
+ *
+ * Other processes may keep encrypting with a demoted key for as long as they cache the
+ * active key, including into rows the pass has already scanned. A key is therefore
+ * retired only after a complete pass that began once that window had closed; a pass
+ * that began earlier is followed by a fresh one before the key is retired.
+ */
+
+export interface EncryptedFieldSource {
+  name: string // "Model.field", for reporting
+  findBatch(db: PrismaClient, afterId: string | null, take: number): Promise<{ id: string; value: string }[]>
+  /** Replace the value if it still equals `from`; false when it changed concurrently */
+  replace(db: PrismaClient, id: string, from: string, to: string): Promise<boolean>
+}
+
+export interface FieldReencryptionResult {
+  field: string
+  scanned: number
+  reencrypted: number
+  conflicts: number
+  failed: number
+}
+
+export interface ReencryptionResult {
+  activeKeyVersion: string
+  complete: boolean // The current pass has scanned every field to the end without failures
+  fields: FieldReencryptionResult[] // This run only
+  versionsInUse: Record<string, number> // Among rows scanned by this run
+  retiredKeyVersions: string[]
+  pendingKeyVersions: string[] // Rotated-out keys waiting for a pass that began after they stopped encrypting
+}
+
+export const ENCRYPTED_FIELDS: EncryptedFieldSource[] = [
+  {
+    name: 'UserProfile.nric',
+    findBatch: async (db, afterId, take) => {
+      const rows = await db.userProfile.findMany({
+        where: { nric: { not: null }, ...(afterId && { id: { gt: afterId } }) },
+        select: { id: true, nric: true },
+        orderBy: { id: 'asc' },
+        take,
+      })
+      return rows.map(row => ({ id: row.id, value: row.nric! }))
+    },
+    replace: async (db, id, from, to) =>
+      (await db.userProfile.updateMany({ where: { id, nric: from }, data: { nric: to } })).count > 0,
+  },
+  {
+    name: 'Doctor.nric',
+    findBatch: async (db, afterId, take) => {
+      const rows = await db.doctor.findMany({
+        where: { nric: { not: null }, ...(afterId && { id: { gt: afterId } }) },
+        select: { id: true, nric: true },
+        orderBy: { id: 'asc' },
+        take,
+      })
+      return rows.map(row => ({ id: row.id, value: row.nric! }))
+    },
+    replace: async (db, id, from, to) =>
+      (await db.doctor.updateMany({ where: { id, nric: from }, data: { nric: to } })).count > 0,
+  },
+  {
+    name: 'RedactionRecord.encryptedOriginal',
+    findBatch: async (db, afterId, take) => {
+      const rows = await db.redactionRecord.findMany({
+        where: afterId ? { id: { gt: afterId } } : {},
+        select: { id: true, encryptedOriginal: true },
+        orderBy: { id: 'asc' },
+        take,
+      })
+      return rows.map(row => ({ id: row.id, value: row.encryptedOriginal }))
+    },
+    replace: async (db, id, from, to) =>
+      (await db.redactionRecord.updateMany({ where: { id, encryptedOriginal: from }, data: { encryptedOriginal: to } })).count > 0,
+  },
+]
+
+export class ReencryptionJob {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly encryption: HealthcareEncryptionService,
+    private readonly fields: EncryptedFieldSource[] = ENCRYPTED_FIELDS
+  ) {}
+
+  /**
+   * Re-encrypt up to `maxRows` values; run again to continue a partial pass
+   */
+  async run(options: { batchSize?: number; maxRows?: number; now?: Date } = {}): Promise<ReencryptionResult> {
+    const batchSize = options.batchSize ?? 100
+    const now = options.now ?? new Date()
+    let budget = options.maxRows ?? Number.POSITIVE_INFINITY
+    const { keyVersion: activeKeyVersion } = await this.encryption.keyRing.getActiveKey(options.now)
+    const versionsInUse: Record<string, number> = {}
+    const results: FieldReencryptionResult[] = []
+    const passes: ReencryptionProgress[] = []
+
+    for (const field of this.fields) {
+      const result: FieldReencryptionResult = { field: field.name, scanned: 0, reencrypted: 0, conflicts: 0, failed: 0 }
+      results.push(result)
+      let progress = await this.db.reencryptionProgress.findUnique({ where: { field: field.name } })
+      // A rotation, or a finished pass that left failures behind, starts over
+      if (!progress || progress.activeKeyVersion !== activeKeyVersion || (progress.completedAt && progress.failed > 0)) {
+        progress = await this.startPass(field.name, activeKeyVersion, now)
+      }
+
+      while (!progress.completedAt && budget > 0) {
+        const take = Math.min(batchSize, budget)
+        const batch = await field.findBatch(this.db, progress.afterId, take)
+        budget -= batch.length
+
+        let failed = 0
+        for (const row of batch) {
+          result.scanned++
+          const version = this.encryption.getKeyVersion(row.value)
+          if (!version) continue // Not encrypted
+
+          let current = version
+          if (version !== activeKeyVersion) {
+            try {
+              const reencrypted = await this.encryption.reencryptField(row.value)
+              if (reencrypted && (await field.replace(this.db, row.id, row.value, reencrypted))) {
+                result.reencrypted++
+                current = activeKeyVersion
+              } else if (reencrypted) {
+                // Updated since it was read; the new value was written under the active key
+                result.conflicts++
+                continue
+              }
+            } catch {
+              // Left under its old key and counted; the next run retries it
+              failed++
+            }
+          }
+          versionsInUse[current] = (versionsInUse[current] ?? 0) + 1
+        }
+        result.failed += failed
+
+        progress = await this.db.reencryptionProgress.update({
+          where: { field: field.name },
+          data: {
+            afterId: batch.length > 0 ? batch[batch.length - 1]!.id : progress.afterId,
+            failed: { increment: failed },
+            ...(batch.length < take && { completedAt: now }),
+          },
+        })
+      }
+      passes.push(progress)
+    }
+
+    const complete = passes.every(pass => pass.completedAt && pass.failed === 0)
+    const retiredKeyVersions: string[] = []
+    const pendingKeyVersions: string[] = []
+    if (complete) {
+      const passStartedAt = Math.min(...passes.map(pass => pass.startedAt.getTime()))
+      let rescan = false
+      for (const key of await this.encryption.keyRing.listKeys()) {
+        if (key.status !== 'DECRYPT_ONLY') continue
+        const stoppedEncrypting = (key.deactivatedAt?.getTime() ?? now.getTime()) + this.encryption.keyRing.activeKeyCacheMs
+        if (stoppedEncrypting <= passStartedAt && (await this.encryption.keyRing.retire(key.keyVersion, now))) {
+          retiredKeyVersions.push(key.keyVersion)
+          continue
+        }
+        pendingKeyVersions.push(key.keyVersion)
+        if (stoppedEncrypting <= now.getTime()) rescan = true
+      }
+      // The pass may have missed ciphertexts written under these keys behind it
+      if (rescan) {
+        for (const field of this.fields) await this.startPass(field.name, activeKeyVersion, now)
+      }
+    }
+
+    return { activeKeyVersion, complete, fields: results, versionsInUse, retiredKeyVersions, pendingKeyVersions }
+  }
+
+  private startPass(field: string, activeKeyVersion: string, now: Date): Promise<ReencryptionProgress> {
+    const pass = { activeKeyVersion, afterId: null, failed: 0, startedAt: now, completedAt: null }
+    return this.db.reencryptionProgress.upsert({ where: { field }, create: { field, ...pass }, update: pass })
+  }
+}
@@ -0,0 +1,235 @@
+import { EventEmitter } from 'events'
+
+/**
+ * Live Chat Realtime Backends - Shared state and messaging for WebSocket nodes
+ *
+ * A WebSocket connection lives on one node, but its chat may not: the customer and the
+ * agent can be connected to different instances, and either may reconnect to a third
+ * after a restart. Everything about a chat other than the sockets themselves is kept in
+ * a SessionStore, and nodes reach each other's sockets through PubSub. The in-memory
+ * implementations serve a single node and tests; `redis-realtime.ts` has the shared ones.
+ *
+ * Values round-trip through JSON in every implementation, so what comes back from the
+ * store is what another node would see.
+ */
+
+export type ChatParty = 'customer' | 'agent'
+
+export type PubSubHandler = (message: unknown) => void
+
+export interface PubSub {
+  /** Resolves to the number of subscribers that received the message */
+  publish(channel: string, message: unknown): Promise<number>
+  /** Resolves to a function that ends the subscription */
+  subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>>
+}
+
+/** Where a socket is connected, so other nodes can reach it */
+export interface ConnectionRecord {
+  id: string
+  nodeId: string
+  agentId?: string
+  department?: string
+  connectedAt: string
+}
+
+export interface SessionStore<S extends { id: string }, M> {
+  getSession(sessionId: string): Promise<S | null>
+  listSessions(): Promise<S[]>
+  saveSession(session: S): Promise<void>
+  /** Set the given fields (undefined removes one); null if the session is gone */
+  updateSession(sessionId: string, changes: Partial<S>): Promise<S | null>
+  /** Set a field only if nobody has yet, e.g. the agent claiming a chat */
+  claimSessionField<K extends keyof S & string>(sessionId: string, field: K, value: S[K]): Promise<boolean>
+  /** Remove the session with its history, pending deliveries and timers */
+  deleteSession(sessionId: string): Promise<void>
+
+  /** Resolves to the number of messages in the history */
+  appendMessage(sessionId: string, message: M): Promise<number>
+  getMessages(sessionId: string): Promise<M[]>
+
+  /** Messages for a party who is offline, delivered when they come back */
+  queueDelivery(sessionId: string, party: ChatParty, message: M): Promise<void>
+  takeDeliveries(sessionId: string, party: ChatParty): Promise<M[]>
+  countDeliveries(): Promise<number>
+
+  setTyping(sessionId: string, party: ChatParty, isTyping: boolean, ttlMs: number): Promise<void>
+  getTyping(sessionId: string): Promise<ChatParty[]>
+
+  saveConnection(record: ConnectionRecord): Promise<void>
+  getConnection(connectionId: string): Promise<ConnectionRecord | null>
+  deleteConnection(connectionId: string): Promise<void>
+
+  /** The agent queue shared by every node, lowest score first */
+  addToQueue(sessionId: string, score: number): Promise<void>
+  removeFromQueue(sessionId: string): Promise<void>
+  queuedSessionIds(): Promise<string[]>
+
+  /** Timers that outlive the node that set them */
+  scheduleDeadline(kind: string, sessionId: string, at: number): Promise<void>
+  cancelDeadline(kind: string, sessionId: string): Promise<void>
+  /** Due sessions, each handed to exactly one caller */
+  claimDueDeadlines(kind: string, now: number): Promise<string[]>
+}
+
+export interface RealtimeBackend<S extends { id: string }, M> {
+  store: SessionStore<S, M>
+  pubsub: PubSub
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+export class InMemoryPubSub implements PubSub {
+  private readonly emitter = new EventEmitter().setMaxListeners(0)
+
+  async publish(channel: string, message: unknown): Promise<number> {
+    const receivers = this.emitter.listenerCount(channel)
+    if (receivers > 0) this.emitter.emit(channel, copy(message))
+    return receivers
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    this.emitter.on(channel, handler)
+    return async () => {
+      this.emitter.off(channel, handler)
+    }
+  }
+}
+
+export class InMemorySessionStore<S extends { id: string }, M> implements SessionStore<S, M> {
+  private readonly sessions = new Map<string, S>()
+  private readonly messages = new Map<string, M[]>()
+  private readonly deliveries = new Map<string, M[]>()
+  private readonly typing = new Map<string, number>() // "sessionId:party" → expiry
+  private readonly connections = new Map<string, ConnectionRecord>()
+  private readonly queue = new Map<string, number>()
+  private readonly deadlines = new Map<string, Map<string, number>>()
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async getSession(sessionId: string): Promise<S | null> {
+    const session = this.sessions.get(sessionId)
+    return session ? copy(session) : null
+  }
+
+  async listSessions(): Promise<S[]> {
+    return [...this.sessions.values()].map(copy)
+  }
+
+  async saveSession(session: S): Promise<void> {
+    this.sessions.set(session.id, copy(session))
+  }
+
+  async updateSession(sessionId: string, changes: Partial<S>): Promise<S | null> {
+    const session = this.sessions.get(sessionId)
+    if (!session) return null
+    const updated = copy({ ...session, ...changes })
+    this.sessions.set(sessionId, updated)
+    return copy(updated)
+  }
+
+  async claimSessionField<K extends keyof S & string>(sessionId: string, field: K, value: S[K]): Promise<boolean> {
+    const session = this.sessions.get(sessionId)
+    if (!session || session[field] !== undefined) return false
+    this.sessions.set(sessionId, copy({ ...session, [field]: value }))
+    return true
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+    this.messages.delete(sessionId)
+    this.queue.delete(sessionId)
+    for (const party of ['customer', 'agent'] as const) {
+      this.deliveries.delete(`${sessionId}:${party}`)
+      this.typing.delete(`${sessionId}:${party}`)
+    }
+    for (const deadlines of this.deadlines.values()) deadlines.delete(sessionId)
+  }
+
+  async appendMessage(sessionId: string, message: M): Promise<number> {
+    const history = this.messages.get(sessionId) ?? []
+    history.push(copy(message))
+    this.messages.set(sessionId, history)
+    return history.length
+  }
+
+  async getMessages(sessionId: string): Promise<M[]> {
+    return (this.messages.get(sessionId) ?? []).map(copy)
+  }
+
+  async queueDelivery(sessionId: string, party: ChatParty, message: M): Promise<void> {
+    const key = `${sessionId}:${party}`
+    this.deliveries.set(key, [...(this.deliveries.get(key) ?? []), copy(message)])
+  }
+
+  async takeDeliveries(sessionId: string, party: ChatParty): Promise<M[]> {
+    const key = `${sessionId}:${party}`
+    const queued = this.deliveries.get(key) ?? []
+    this.deliveries.delete(key)
+    return queued
+  }
+
+  async countDeliveries(): Promise<number> {
+    return [...this.deliveries.values()].reduce((total, queued) => total + queued.length, 0)
+  }
+
+  async setTyping(sessionId: string, party: ChatParty, isTyping: boolean, ttlMs: number): Promise<void> {
+    const key = `${sessionId}:${party}`
+    if (isTyping) this.typing.set(key, this.now() + ttlMs)
+    else this.typing.delete(key)
+  }
+
+  async getTyping(sessionId: string): Promise<ChatParty[]> {
+    return (['customer', 'agent'] as const).filter(party => (this.typing.get(`${sessionId}:${party}`) ?? 0) > this.now())
+  }
+
+  async saveConnection(record: ConnectionRecord): Promise<void> {
+    this.connections.set(record.id, copy(record))
+  }
+
+  async getConnection(connectionId: string): Promise<ConnectionRecord | null> {
+    const record = this.connections.get(connectionId)
+    return record ? copy(record) : null
+  }
+
+  async deleteConnection(connectionId: string): Promise<void> {
+    this.connections.delete(connectionId)
+  }
+
+  async addToQueue(sessionId: string, score: number): Promise<void> {
+    this.queue.set(sessionId, score)
+  }
+
+  async removeFromQueue(sessionId: string): Promise<void> {
+    this.queue.delete(sessionId)
+  }
+
+  async queuedSessionIds(): Promise<string[]> {
+    return [...this.queue.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0])).map(([sessionId]) => sessionId)
+  }
+
+  async scheduleDeadline(kind: string, sessionId: string, at: number): Promise<void> {
+    const deadlines = this.deadlines.get(kind) ?? new Map<string, number>()
+    deadlines.set(sessionId, at)
+    this.deadlines.set(kind, deadlines)
+  }
+
+  async cancelDeadline(kind: string, sessionId: string): Promise<void> {
+    this.deadlines.get(kind)?.delete(sessionId)
+  }
+
+  async claimDueDeadlines(kind: string, now: number): Promise<string[]> {
+    const deadlines = this.deadlines.get(kind)
+    if (!deadlines) return []
+    const due = [...deadlines.entries()].filter(([, at]) => at <= now).map(([sessionId]) => sessionId)
+    for (const sessionId of due) deadlines.delete(sessionId)
+    return due
+  }
+}
+
+/** One node on its own, with nothing shared */
+export function createInMemoryBackend<S extends { id: string }, M>(): RealtimeBackend<S, M> {
+  return { store: new InMemorySessionStore<S, M>(), pubsub: new InMemoryPubSub() }
+}
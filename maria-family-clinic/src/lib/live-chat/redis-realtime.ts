@@ -0,0 +1,282 @@
+import { RespClient, RespError, type RespValue } from './resp'
+import {
+  createInMemoryBackend,
+  type ChatParty,
+  type ConnectionRecord,
+  type PubSub,
+  type PubSubHandler,
+  type RealtimeBackend,
+  type SessionStore,
+} from './realtime'
+
+/**
+ * Redis Realtime Backend - Live chat state and messaging shared by every node
+ *
+ * Speaks RESP, so any Redis-compatible server will do. Sessions are hashes with one
+ * JSON-encoded field each, so two nodes updating different fields of the same chat do
+ * not overwrite each other; claims use HSETNX and the timers are sorted sets that
+ * nodes claim entries from with ZREM, so each fires once.
+ *
+ * Keys, under the prefix (default "livechat"):
+ *   session:<id>               hash     session fields
+ *   sessions                   set      session ids
+ *   messages:<id>              list     chat history
+ *   deliveries:<id>:<party>    list     messages waiting for an offline party
+ *   typing:<id>:<party>        string   set while typing, expires by itself
+ *   connections                hash     connection id → node
+ *   queue                      zset     waiting chats
+ *   deadlines:<kind>           zset     session id → due time (ms)
+ *   deadline-kinds             set      kinds of deadline in use
+ */
+
+export class RedisSessionStore<S extends { id: string }, M> implements SessionStore<S, M> {
+  constructor(
+    private readonly client: RespClient,
+    private readonly prefix = 'livechat'
+  ) {}
+
+  async getSession(sessionId: string): Promise<S | null> {
+    return this.readSession(sessionId)
+  }
+
+  async listSessions(): Promise<S[]> {
+    const ids = strings(await this.client.command('SMEMBERS', this.key('sessions')))
+    const sessions = (await Promise.all(ids.map(id => this.readSession(id)))) as (S | null)[]
+    return sessions.filter((session): session is S => session !== null)
+  }
+
+  // Replaces the hash in one transaction, so readers never see it empty or half written
+  async saveSession(session: S): Promise<void> {
+    const key = this.key('session', session.id)
+    const fields = Object.entries(session).flatMap(([field, value]) =>
+      value === undefined ? [] : [field, JSON.stringify(value)]
+    )
+    await this.client.transaction([
+      ['DEL', key],
+      ...(fields.length > 0 ? [['HSET', key, ...fields]] : []),
+      ['SADD', this.key('sessions'), session.id],
+    ])
+  }
+
+  async updateSession(sessionId: string, changes: Partial<S>): Promise<S | null> {
+    if ((await this.client.command('EXISTS', this.key('session', sessionId))) !== 1) return null
+    await this.writeFields(sessionId, changes)
+    return this.readSession(sessionId)
+  }
+
+  async claimSessionField<K extends keyof S & string>(sessionId: string, field: K, value: S[K]): Promise<boolean> {
+    if ((await this.client.command('EXISTS', this.key('session', sessionId))) !== 1) return false
+    return (await this.client.command('HSETNX', this.key('session', sessionId), field, JSON.stringify(value))) === 1
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const parties: ChatParty[] = ['customer', 'agent']
+    const deliveryKeys = parties.map(party => this.key('deliveries', sessionId, party))
+    await this.client.command(
+      'DEL',
+      this.key('session', sessionId),
+      this.key('messages', sessionId),
+      ...deliveryKeys,
+      ...parties.map(party => this.key('typing', sessionId, party))
+    )
+    await this.client.command('SREM', this.key('deliveries'), ...deliveryKeys)
+    await this.client.command('SREM', this.key('sessions'), sessionId)
+    await this.client.command('ZREM', this.key('queue'), sessionId)
+    for (const kind of strings(await this.client.command('SMEMBERS', this.key('deadline-kinds')))) {
+      await this.client.command('ZREM', this.key('deadlines', kind), sessionId)
+    }
+  }
+
+  async appendMessage(sessionId: string, message: M): Promise<number> {
+    return Number(await this.client.command('RPUSH', this.key('messages', sessionId), JSON.stringify(message)))
+  }
+
+  async getMessages(sessionId: string): Promise<M[]> {
+    return strings(await this.client.command('LRANGE', this.key('messages', sessionId), 0, -1)).map(item => JSON.parse(item) as M)
+  }
+
+  async queueDelivery(sessionId: string, party: ChatParty, message: M): Promise<void> {
+    const key = this.key('deliveries', sessionId, party)
+    await this.client.command('RPUSH', key, JSON.stringify(message))
+    await this.client.command('SADD', this.key('deliveries'), key)
+  }
+
+  async takeDeliveries(sessionId: string, party: ChatParty): Promise<M[]> {
+    const key = this.key('deliveries', sessionId, party)
+    // Renaming first means a message queued meanwhile is kept for next time, not lost
+    const taking = `${key}:taking:${Date.now()}:${Math.random().toString(36).slice(2)}`
+    try {
+      await this.client.command('RENAME', key, taking)
+    } catch (error) {
+      if (error instanceof RespError) return [] // Nothing queued
+      throw error
+    }
+    const queued = strings(await this.client.command('LRANGE', taking, 0, -1)).map(item => JSON.parse(item) as M)
+    await this.client.command('DEL', taking)
+    return queued
+  }
+
+  async countDeliveries(): Promise<number> {
+    let total = 0
+    for (const key of strings(await this.client.command('SMEMBERS', this.key('deliveries')))) {
+      const length = Number(await this.client.command('LLEN', key))
+      if (length === 0) await this.client.command('SREM', this.key('deliveries'), key)
+      total += length
+    }
+    return total
+  }
+
+  async setTyping(sessionId: string, party: ChatParty, isTyping: boolean, ttlMs: number): Promise<void> {
+    const key = this.key('typing', sessionId, party)
+    if (isTyping) await this.client.command('SET', key, '1', 'PX', Math.max(1, Math.round(ttlMs)))
+    else await this.client.command('DEL', key)
+  }
+
+  async getTyping(sessionId: string): Promise<ChatParty[]> {
+    const parties: ChatParty[] = ['customer', 'agent']
+    const flags = await this.client.command('MGET', ...parties.map(party => this.key('typing', sessionId, party)))
+    return parties.filter((_, i) => Array.isArray(flags) && flags[i] !== null)
+  }
+
+  async saveConnection(record: ConnectionRecord): Promise<void> {
+    await this.client.command('HSET', this.key('connections'), record.id, JSON.stringify(record))
+  }
+
+  async getConnection(connectionId: string): Promise<ConnectionRecord | null> {
+    const record = await this.client.command('HGET', this.key('connections'), connectionId)
+    return typeof record === 'string' ? (JSON.parse(record) as ConnectionRecord) : null
+  }
+
+  async deleteConnection(connectionId: string): Promise<void> {
+    await this.client.command('HDEL', this.key('connections'), connectionId)
+  }
+
+  async addToQueue(sessionId: string, score: number): Promise<void> {
+    await this.client.command('ZADD', this.key('queue'), score, sessionId)
+  }
+
+  async removeFromQueue(sessionId: string): Promise<void> {
+    await this.client.command('ZREM', this.key('queue'), sessionId)
+  }
+
+  async queuedSessionIds(): Promise<string[]> {
+    return strings(await this.client.command('ZRANGE', this.key('queue'), 0, -1))
+  }
+
+  async scheduleDeadline(kind: string, sessionId: string, at: number): Promise<void> {
+    await this.client.command('SADD', this.key('deadline-kinds'), kind)
+    await this.client.command('ZADD', this.key('deadlines', kind), at, sessionId)
+  }
+
+  async cancelDeadline(kind: string, sessionId: string): Promise<void> {
+    await this.client.command('ZREM', this.key('deadlines', kind), sessionId)
+  }
+
+  async claimDueDeadlines(kind: string, now: number): Promise<string[]> {
+    const key = this.key('deadlines', kind)
+    const due = strings(await this.client.command('ZRANGEBYSCORE', key, '-inf', now, 'LIMIT', 0, 100))
+    const claimed: string[] = []
+    for (const sessionId of due) {
+      // Whichever node removes the entry owns it
+      if ((await this.client.command('ZREM', key, sessionId)) === 1) claimed.push(sessionId)
+    }
+    return claimed
+  }
+
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts].join(':')
+  }
+
+  private async readSession(sessionId: string): Promise<S | null> {
+    const fields = strings(await this.client.command('HGETALL', this.key('session', sessionId)))
+    if (fields.length === 0) return null
+    const session: Record<string, unknown> = {}
+    for (let i = 0; i < fields.length; i += 2) {
+      session[fields[i]!] = JSON.parse(fields[i + 1]!)
+    }
+    return session as S
+  }
+
+  private async writeFields(sessionId: string, values: Partial<S>) {
+    const set: string[] = []
+    const removed: string[] = []
+    for (const [field, value] of Object.entries(values)) {
+      if (value === undefined) removed.push(field)
+      else set.push(field, JSON.stringify(value))
+    }
+    if (set.length > 0) await this.client.command('HSET', this.key('session', sessionId), ...set)
+    if (removed.length > 0) await this.client.command('HDEL', this.key('session', sessionId), ...removed)
+  }
+}
+
+/**
+ * Publishes on the command connection; subscriptions need a connection of their own,
+ * which is opened on the first subscribe
+ */
+export class RedisPubSub implements PubSub {
+  private readonly handlers = new Map<string, Set<PubSubHandler>>()
+
+  constructor(
+    private readonly publisher: RespClient,
+    private readonly subscriber: RespClient
+  ) {
+    subscriber.on('message', (channel: string, payload: string) => {
+      let message: unknown
+      try {
+        message = JSON.parse(payload)
+      } catch {
+        return // Not published by this module
+      }
+      for (const handler of this.handlers.get(channel) ?? []) handler(message)
+    })
+  }
+
+  async publish(channel: string, message: unknown): Promise<number> {
+    return Number(await this.publisher.command('PUBLISH', channel, JSON.stringify(message)))
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    const handlers = this.handlers.get(channel) ?? new Set<PubSubHandler>()
+    handlers.add(handler)
+    this.handlers.set(channel, handlers)
+    if (handlers.size === 1) await this.subscriber.subscribe(channel)
+
+    return async () => {
+      handlers.delete(handler)
+      if (handlers.size === 0) {
+        this.handlers.delete(channel)
+        await this.subscriber.unsubscribe(channel)
+      }
+    }
+  }
+}
+
+/**
+ * Connection errors go to `onError`, including a subscriber that fails to reconnect;
+ * commands sent while a connection is down reject by themselves
+ */
+export function createRedisBackend<S extends { id: string }, M>(
+  url: string,
+  onError: (error: Error) => void,
+  prefix?: string
+): RealtimeBackend<S, M> {
+  const client = RespClient.fromUrl(url)
+  const subscriber = RespClient.fromUrl(url)
+  for (const connection of [client, subscriber]) connection.on('error', onError)
+  return { store: new RedisSessionStore<S, M>(client, prefix), pubsub: new RedisPubSub(client, subscriber) }
+}
+
+/**
+ * Shared Redis state when REDIS_URL is set; otherwise this node keeps everything to
+ * itself, which is only correct with a single instance
+ */
+export function createRealtimeBackend<S extends { id: string }, M>(
+  onError: (error: Error) => void,
+  env: Record<string, string | undefined> = process.env
+): RealtimeBackend<S, M> {
+  return env.REDIS_URL ? createRedisBackend<S, M>(env.REDIS_URL, onError) : createInMemoryBackend<S, M>()
+}
+
+function strings(value: RespValue): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
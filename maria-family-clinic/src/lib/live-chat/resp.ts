@@ -0,0 +1,300 @@
+import { EventEmitter } from 'events'
+import net from 'net'
+import tls from 'tls'
+
+/**
+ * RESP Client - A small client for the Redis serialisation protocol (RESP2)
+ *
+ * Enough of the protocol for the live chat store and pub/sub: commands, replies and
+ * subscriber pushes over TCP, or TLS for rediss:// URLs. Works with Redis and with
+ * protocol-compatible servers (Valkey, KeyDB, Dragonfly). The connection is opened on
+ * first use and reopened after a drop; a subscriber connection re-subscribes its
+ * channels when it comes back. Replies are matched to commands by order, so a command
+ * that times out closes the connection rather than leave its reply to the next caller.
+ */
+
+export type RespValue = string | number | null | RespValue[]
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RespError'
+  }
+}
+
+export interface RespClientOptions {
+  host: string
+  port: number
+  username?: string
+  password?: string
+  database?: number
+  tls?: boolean | tls.ConnectionOptions
+  connectTimeoutMs?: number // Connection and handshake; default 10s
+  commandTimeoutMs?: number // Per command reply; default 5s
+  reconnectDelayMs?: number
+}
+
+const CRLF = '\r\n'
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000
+const DEFAULT_COMMAND_TIMEOUT_MS = 5_000
+
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}${CRLF}`]
+  for (const arg of args) {
+    const value = String(arg)
+    parts.push(`$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`)
+  }
+  return Buffer.from(parts.join(''))
+}
+
+/**
+ * Incremental reply parser. Feed it chunks as they arrive; it returns every reply that
+ * is complete and keeps the rest. Error replies come back as RespError values.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  push(chunk: Buffer): (RespValue | RespError)[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk
+    const replies: (RespValue | RespError)[] = []
+    let offset = 0
+    for (;;) {
+      const parsed = parseReply(this.buffer, offset)
+      if (!parsed) break
+      replies.push(parsed.value)
+      offset = parsed.next
+    }
+    this.buffer = this.buffer.subarray(offset)
+    return replies
+  }
+}
+
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | RespError; next: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset)
+  if (lineEnd === -1) return null
+  const type = String.fromCharCode(buffer[offset]!)
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, next }
+    case '-':
+      return { value: new RespError(line), next }
+    case ':':
+      return { value: Number(line), next }
+    case '$': {
+      const length = Number(line)
+      if (length < 0) return { value: null, next }
+      if (buffer.length < next + length + 2) return null
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count < 0) return { value: null, next }
+      const items: RespValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return null
+        items.push(item.value as RespValue)
+        position = item.next
+      }
+      return { value: items, next: position }
+    }
+    default:
+      throw new RespError(`Unexpected reply type "${type}"`)
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Emits `message` (channel, payload) for every pub/sub message on a subscribed channel
+ */
+export class RespClient extends EventEmitter {
+  private socket: net.Socket | null = null // Set once the handshake is done
+  private current: net.Socket | null = null // The socket pending replies belong to
+  private connecting: Promise<net.Socket> | null = null
+  private parser = new RespParser()
+  private pending: PendingReply[] = []
+  private readonly channels = new Set<string>()
+  private subscriber = false // Once subscribed, the connection only carries pub/sub traffic
+  private closed = false
+
+  constructor(private readonly options: RespClientOptions) {
+    super()
+  }
+
+  /** redis[s]://[[username]:password@]host[:port][/database]; rediss:// connects over TLS */
+  static fromUrl(url: string, options: Partial<RespClientOptions> = {}): RespClient {
+    const parsed = new URL(url)
+    if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+      throw new RespError(`Unsupported Redis URL protocol "${parsed.protocol}"`)
+    }
+    return new RespClient({
+      ...options,
+      tls: options.tls ?? parsed.protocol === 'rediss:',
+      host: parsed.hostname || 'localhost',
+      port: parsed.port ? Number(parsed.port) : 6379,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+      database: parsed.pathname.length > 1 ? Number(parsed.pathname.slice(1)) : undefined,
+    })
+  }
+
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  async subscribe(channel: string): Promise<void> {
+    this.subscriber = true
+    // Connect first: the handshake subscribes to the channels already known
+    const socket = await this.connect()
+    this.channels.add(channel)
+    await this.send(socket, ['SUBSCRIBE', channel])
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.channels.delete(channel)
+    if (this.socket) await this.command('UNSUBSCRIBE', channel)
+  }
+
+  async quit(): Promise<void> {
+    this.closed = true
+    const socket = this.socket
+    if (!socket) return
+    await this.send(socket, ['QUIT']).catch(() => undefined)
+    socket.destroy()
+  }
+
+  /**
+   * Runs the commands in one MULTI/EXEC block and returns their replies. The block is
+   * written in one go, so commands other callers send on this connection cannot land in it.
+   */
+  async transaction(commands: (string | number)[][]): Promise<RespValue[]> {
+    const socket = await this.connect()
+    const replies = await Promise.all(this.sendAll(socket, [['MULTI'], ...commands, ['EXEC']]))
+    const results = replies[replies.length - 1]
+    if (!Array.isArray(results)) throw new RespError('Transaction aborted')
+    // A command that failed inside EXEC comes back as an error in the results
+    const failed = (results as unknown[]).find(result => result instanceof RespError)
+    if (failed) throw failed
+    return results
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    return this.sendAll(socket, [args])[0]!
+  }
+
+  private sendAll(socket: net.Socket, commands: (string | number)[][]): Promise<RespValue>[] {
+    const timeoutMs = this.options.commandTimeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS
+    const replies = commands.map(
+      args =>
+        new Promise<RespValue>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            reject(new RespError(`${args[0]} timed out after ${timeoutMs}ms`))
+            this.disconnected(socket)
+            socket.destroy()
+          }, timeoutMs)
+          timer.unref()
+          this.pending.push({
+            resolve: value => {
+              clearTimeout(timer)
+              resolve(value)
+            },
+            reject: error => {
+              clearTimeout(timer)
+              reject(error)
+            },
+          })
+        })
+    )
+    socket.write(Buffer.concat(commands.map(encodeCommand)))
+    return replies
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.closed) return Promise.reject(new Error('RESP client has been closed'))
+    if (this.socket) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const { host, port } = this.options
+      const timeoutMs = this.options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS
+      const secure = this.options.tls
+      const socket = secure
+        ? tls.connect({ servername: net.isIP(host) ? undefined : host, ...(secure === true ? {} : secure), host, port })
+        : net.createConnection({ host, port })
+      const timer = setTimeout(() => {
+        socket.destroy()
+        reject(new RespError(`Connecting to ${host}:${port} timed out after ${timeoutMs}ms`))
+      }, timeoutMs)
+      timer.unref()
+      this.current = socket
+      socket.on('close', () => this.disconnected(socket))
+      socket.setNoDelay(true)
+      socket.once('error', reject)
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        socket.off('error', reject)
+        socket.on('error', error => this.emit('error', error))
+        socket.on('data', chunk => this.receive(chunk))
+        this.parser = new RespParser()
+        try {
+          await this.handshake(socket)
+          this.socket = socket
+          resolve(socket)
+        } catch (error) {
+          socket.destroy()
+          reject(error)
+        } finally {
+          clearTimeout(timer)
+        }
+      })
+    }).finally(() => {
+      this.connecting = null
+    })
+    return this.connecting
+  }
+
+  private async handshake(socket: net.Socket) {
+    const { username, password, database } = this.options
+    if (password) await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+    if (database) await this.send(socket, ['SELECT', database])
+    for (const channel of this.channels) await this.send(socket, ['SUBSCRIBE', channel])
+  }
+
+  private receive(chunk: Buffer) {
+    for (const reply of this.parser.push(chunk)) {
+      if (this.subscriber && Array.isArray(reply) && reply[0] === 'message') {
+        this.emit('message', reply[1], reply[2])
+        continue
+      }
+      const waiting = this.pending.shift()
+      if (!waiting) continue
+      if (reply instanceof RespError) waiting.reject(reply)
+      else waiting.resolve(reply)
+    }
+  }
+
+  private disconnected(socket: net.Socket) {
+    if (socket !== this.current) return // Already handled
+    const established = this.socket === socket
+    this.current = null
+    this.socket = null
+    const failed = this.pending
+    this.pending = []
+    for (const waiting of failed) waiting.reject(new Error('RESP connection closed'))
+
+    // A subscriber has to come back by itself; command connections reconnect on next use
+    if (established && !this.closed && this.channels.size > 0) {
+      setTimeout(() => {
+        this.connect().catch(error => this.emit('error', error))
+      }, this.options.reconnectDelayMs ?? 1000).unref()
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import type { ChatPriority, ChatSessionStatus, LiveChatSession, Prisma, PrismaClient } from '@prisma/client'
+import type { HandoffDecision, HandoffEntities, TranscriptEntry } from '@/lib/chatbot/handoff'
+
+/**
+ * Live Chat Queue Service - The persistent queue of chats waiting for a live agent
+ *
+ * Chats are ordered by priority first and waiting time second. The chatbot hands its
+ * conversations over with `enqueueHandoff`, keeping its session id so the customer
+ * stays in the same chat; the transcript and entities it collected are stored on the
+ * LiveChatSession for the agent who claims it.
+ */
+
+export interface LiveChatHandoff {
+  sessionId: string
+  customerId?: string | null
+  customerName: string
+  customerEmail?: string | null
+  clinicId?: string
+  doctorId?: string
+  serviceId?: string
+  language: string
+  decision: HandoffDecision
+  transcript: TranscriptEntry[]
+  entities: HandoffEntities
+}
+
+export interface QueuedChat extends LiveChatSession {
+  queuePosition: number | null // Null once an agent has the chat
+}
+
+/** Told about every handoff, e.g. to alert agents over the WebSocket server */
+export type HandoffListener = (chat: QueuedChat) => void | Promise<void>
+
+export interface LiveChatQueueOptions {
+  onHandoff?: HandoffListener
+  now?: () => Date
+}
+
+export class LiveChatQueueError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'LiveChatQueueError'
+  }
+}
+
+/** Higher goes first */
+export const CHAT_PRIORITY_RANK: Record<ChatPriority, number> = {
+  LOW: 1,
+  NORMAL: 2,
+  HIGH: 3,
+  URGENT: 4,
+  CRITICAL: 5,
+  VIP: 6,
+  EMERGENCY: 7,
+}
+
+/** Chats still waiting for, or talking to, an agent */
+export const OPEN_CHAT_STATUSES: ChatSessionStatus[] = ['WAITING', 'ACTIVE', 'ON_HOLD', 'TRANSFERRED', 'ESCALATED']
+
+const URGENCY_RANK = { ROUTINE: 0, SAME_DAY: 1, URGENT: 2, EMERGENCY: 3 } as const
+
+export class LiveChatQueueService {
+  private readonly onHandoff?: HandoffListener
+  private readonly now: () => Date
+
+  constructor(private readonly db: PrismaClient, options: LiveChatQueueOptions = {}) {
+    this.onHandoff = options.onHandoff
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Queue a chatbot conversation for a live agent. If the chat is already open (the
+   * customer escalated again while waiting) the transcript is brought up to date and
+   * the chat only ever moves up the queue.
+   */
+  async enqueueHandoff(handoff: LiveChatHandoff): Promise<QueuedChat> {
+    const now = this.now()
+    const { decision } = handoff
+    const existing = await this.getOpen(handoff.sessionId)
+
+    const handoffData = {
+      language: handoff.language,
+      botTranscript: handoff.transcript as unknown as Prisma.InputJsonArray,
+      botEntities: handoff.entities as unknown as Prisma.InputJsonObject,
+      medicalKeywords: handoff.entities.medicalKeywords,
+      lastActivity: now,
+    }
+
+    let chat: LiveChatSession
+    if (existing) {
+      chat = await this.db.liveChatSession.update({
+        where: { sessionId: handoff.sessionId },
+        data: {
+          ...handoffData,
+          ...(CHAT_PRIORITY_RANK[decision.priority] > CHAT_PRIORITY_RANK[existing.priority] && {
+            priority: decision.priority,
+            handoffReason: decision.reason,
+          }),
+          ...(URGENCY_RANK[decision.urgencyLevel] > URGENCY_RANK[existing.urgencyLevel] && { urgencyLevel: decision.urgencyLevel }),
+          ...(decision.isEmergency && { isEmergency: true }),
+        },
+      })
+    } else {
+      const data = {
+        ...handoffData,
+        customerId: handoff.customerId ?? null,
+        customerName: handoff.customerName,
+        customerEmail: handoff.customerEmail ?? null,
+        clinicId: handoff.clinicId ?? null,
+        doctorId: handoff.doctorId ?? null,
+        serviceId: handoff.serviceId ?? null,
+        status: 'WAITING' as const,
+        priority: decision.priority,
+        urgencyLevel: decision.urgencyLevel,
+        isEmergency: decision.isEmergency,
+        handoffReason: decision.reason,
+        escalationTriggered: true,
+        escalatedAt: now,
+        startedAt: now,
+      }
+      // A closed chat with the same session id is reopened as a new wait
+      chat = await this.db.liveChatSession.upsert({
+        where: { sessionId: handoff.sessionId },
+        create: { ...data, sessionId: handoff.sessionId },
+        update: {
+          ...data,
+          assignedAgent: null,
+          assignedAgentName: null,
+          isAgentAssigned: false,
+          agentJoinedAt: null,
+          firstResponseAt: null,
+          endedAt: null,
+          waitTime: null,
+          connectionId: null,
+        },
+      })
+    }
+
+    const queued = await this.withQueuePosition(chat)
+    if (this.onHandoff) {
+      try {
+        await this.onHandoff(queued)
+      } catch {
+        // The chat is queued either way; agents also poll the queue
+      }
+    }
+    return queued
+  }
+
+  /**
+   * Add turns the customer typed while waiting, so the agent sees them on joining
+   */
+  async appendTranscript(sessionId: string, transcript: TranscriptEntry[]): Promise<LiveChatSession | null> {
+    const chat = await this.getOpen(sessionId)
+    if (!chat) return null
+    return this.db.liveChatSession.update({
+      where: { sessionId },
+      data: { botTranscript: transcript as unknown as Prisma.InputJsonArray, lastActivity: this.now() },
+    })
+  }
+
+  /**
+   * Take a chat nobody has picked up yet out of the queue, e.g. when the customer
+   * closes it
+   */
+  async abandon(sessionId: string): Promise<void> {
+    const now = this.now()
+    await this.db.liveChatSession.updateMany({
+      where: { sessionId, status: 'WAITING' },
+      data: { status: 'ABANDONED', queuePosition: null, endedAt: now, lastActivity: now },
+    })
+  }
+
+  async getOpen(sessionId: string): Promise<LiveChatSession | null> {
+    return this.db.liveChatSession.findFirst({ where: { sessionId, status: { in: OPEN_CHAT_STATUSES } } })
+  }
+
+  /**
+   * Chats waiting for an agent, next in line first. Positions are in the whole queue,
+   * whatever the filter.
+   */
+  async listWaiting(filter: { clinicId?: string; department?: string } = {}): Promise<QueuedChat[]> {
+    const waiting = await this.db.liveChatSession.findMany({ where: { status: 'WAITING' } })
+    return waiting
+      .sort(compareQueueOrder)
+      .map((chat, index) => ({ ...chat, queuePosition: index + 1 }))
+      .filter(chat => (!filter.clinicId || chat.clinicId === filter.clinicId) && (!filter.department || chat.department === filter.department))
+  }
+
+  /**
+   * Assign a waiting chat to an agent
+   */
+  async claim(sessionId: string, agent: { id: string; name: string }): Promise<LiveChatSession> {
+    const chat = await this.db.liveChatSession.findUnique({ where: { sessionId } })
+    if (!chat) throw new LiveChatQueueError('Chat not found', 'NOT_FOUND')
+    if (chat.status !== 'WAITING') throw new LiveChatQueueError('Chat is not waiting for an agent', 'CONFLICT')
+
+    const now = this.now()
+    // Only the first agent to claim gets the chat
+    const { count } = await this.db.liveChatSession.updateMany({
+      where: { sessionId, status: 'WAITING' },
+      data: {
+        status: 'ACTIVE',
+        assignedAgent: agent.id,
+        assignedAgentName: agent.name,
+        isAgentAssigned: true,
+        agentJoinedAt: now,
+        queuePosition: null,
+        waitTime: Math.round((now.getTime() - chat.startedAt.getTime()) / 1000),
+        lastActivity: now,
+      },
+    })
+    if (count === 0) throw new LiveChatQueueError('Chat is not waiting for an agent', 'CONFLICT')
+
+    return this.db.liveChatSession.findUniqueOrThrow({ where: { sessionId } })
+  }
+
+  private async withQueuePosition(chat: LiveChatSession): Promise<QueuedChat> {
+    if (chat.status !== 'WAITING') return { ...chat, queuePosition: null }
+
+    const waiting = await this.db.liveChatSession.findMany({
+      where: { status: 'WAITING' },
+      select: { sessionId: true, priority: true, startedAt: true },
+    })
+    const queuePosition = waiting.sort(compareQueueOrder).findIndex(other => other.sessionId === chat.sessionId) + 1
+    await this.db.liveChatSession.update({ where: { sessionId: chat.sessionId }, data: { queuePosition } })
+    return { ...chat, queuePosition }
+  }
+}
+
+export function compareQueueOrder(
+  a: Pick<LiveChatSession, 'priority' | 'startedAt'>,
+  b: Pick<LiveChatSession, 'priority' | 'startedAt'>
+): number {
+  return CHAT_PRIORITY_RANK[b.priority] - CHAT_PRIORITY_RANK[a.priority] || a.startedAt.getTime() - b.startedAt.getTime()
+}
@@ -0,0 +1,179 @@
+import type { NoShowRiskTier } from '@prisma/client'
+
+/**
+ * No-show risk score - logistic adjustments on the patient's own no-show rate
+ *
+ * The starting point is the patient's past no-show rate, shrunk towards the clinic's rate
+ * so that one missed visit out of two does not read as a 50% risk. Booking lead time,
+ * time of day, day of week, recent cancellations and whether reminders can reach the
+ * patient then shift it on the log-odds scale. The weights are versioned; every stored
+ * score records the version it came from, so accuracy can be compared across versions.
+ */
+
+export const NO_SHOW_MODEL_VERSION = '2026.10'
+
+// Appointments of clinic history the patient's own rate is worth
+export const PRIOR_STRENGTH = 4
+
+export const TIER_THRESHOLDS = { MEDIUM: 0.15, HIGH: 0.3 } as const
+
+export type ReminderChannel = 'SMS' | 'EMAIL' | 'NONE'
+
+/** What is known about an appointment and its patient when it is scored */
+export interface NoShowFeatures {
+  priorAppointments: number // Past attended or missed appointments at any clinic
+  priorNoShows: number
+  recentCancellations: number // Cancelled by the patient in the last 90 days
+  clinicNoShowRate: number
+  leadTimeDays: number // From booking to appointment
+  hourOfDay: number // Singapore time
+  dayOfWeek: number // 0 = Sunday
+  channel: ReminderChannel // Where reminders reach the patient
+}
+
+export interface NoShowScore {
+  probability: number
+  tier: NoShowRiskTier
+  modelVersion: string
+  // Log-odds contributions, for explaining a score
+  contributions: {
+    history: number
+    leadTime: number
+    timeOfDay: number
+    dayOfWeek: number
+    cancellations: number
+    channel: number
+    newPatient: number
+  }
+}
+
+/** A resolved score: what was predicted and whether the patient turned up */
+export interface ScoredOutcome {
+  probability: number
+  tier: NoShowRiskTier
+  noShow: boolean
+}
+
+export interface CalibrationBucket {
+  tier: NoShowRiskTier
+  count: number
+  meanPredicted: number | null
+  observedRate: number | null
+}
+
+export interface AccuracyMetrics {
+  count: number
+  noShows: number
+  meanPredicted: number | null
+  observedRate: number | null
+  brier: number | null // Mean squared error of the probability; lower is better
+  logLoss: number | null
+  auc: number | null // Chance a no-show is scored above an attendance; 0.5 is guessing
+  calibration: CalibrationBucket[]
+}
+
+const WEIGHTS = {
+  leadTime: 0.3, // Per unit of log1p(days) beyond a one-week lead
+  earlyMorning: 0.15, // Before 10:00
+  lateAfternoon: 0.2, // From 16:00
+  cancellation: 0.15, // Per recent cancellation, up to three
+  noReminderChannel: 0.35,
+  smsChannel: -0.2,
+  newPatient: 0.3,
+} as const
+
+// Mondays and Saturdays are missed more often than mid-week days
+const WEEKDAY_WEIGHTS = [0, 0.1, 0, 0, 0, 0.05, 0.1]
+
+const REFERENCE_LEAD_DAYS = 7
+const MAX_COUNTED_CANCELLATIONS = 3
+const PROBABILITY_FLOOR = 0.005
+const PROBABILITY_CEILING = 0.95
+
+/**
+ * Score one appointment
+ */
+export function scoreNoShowRisk(features: NoShowFeatures): NoShowScore {
+  const clinicRate = clamp(features.clinicNoShowRate, PROBABILITY_FLOOR, PROBABILITY_CEILING)
+  const personalRate =
+    (features.priorNoShows + PRIOR_STRENGTH * clinicRate) / (features.priorAppointments + PRIOR_STRENGTH)
+
+  const contributions = {
+    history: logit(personalRate),
+    leadTime: WEIGHTS.leadTime * (Math.log1p(Math.max(0, features.leadTimeDays)) - Math.log1p(REFERENCE_LEAD_DAYS)),
+    timeOfDay: features.hourOfDay < 10 ? WEIGHTS.earlyMorning : features.hourOfDay >= 16 ? WEIGHTS.lateAfternoon : 0,
+    dayOfWeek: WEEKDAY_WEIGHTS[features.dayOfWeek] ?? 0,
+    cancellations: WEIGHTS.cancellation * Math.min(features.recentCancellations, MAX_COUNTED_CANCELLATIONS),
+    channel: features.channel === 'NONE' ? WEIGHTS.noReminderChannel : features.channel === 'SMS' ? WEIGHTS.smsChannel : 0,
+    newPatient: features.priorAppointments === 0 ? WEIGHTS.newPatient : 0,
+  }
+
+  const logOdds = Object.values(contributions).reduce((sum, value) => sum + value, 0)
+  const probability = clamp(1 / (1 + Math.exp(-logOdds)), PROBABILITY_FLOOR, PROBABILITY_CEILING)
+  return { probability, tier: riskTier(probability), modelVersion: NO_SHOW_MODEL_VERSION, contributions }
+}
+
+export function riskTier(probability: number): NoShowRiskTier {
+  if (probability >= TIER_THRESHOLDS.HIGH) return 'HIGH'
+  if (probability >= TIER_THRESHOLDS.MEDIUM) return 'MEDIUM'
+  return 'LOW'
+}
+
+/**
+ * Brier score, log loss, AUC and per-tier calibration of resolved scores
+ */
+export function accuracyMetrics(outcomes: ScoredOutcome[]): AccuracyMetrics {
+  const count = outcomes.length
+  const noShows = outcomes.filter(outcome => outcome.noShow).length
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null)
+
+  return {
+    count,
+    noShows,
+    meanPredicted: mean(outcomes.map(outcome => outcome.probability)),
+    observedRate: count > 0 ? noShows / count : null,
+    brier: mean(outcomes.map(outcome => (outcome.probability - (outcome.noShow ? 1 : 0)) ** 2)),
+    logLoss: mean(
+      outcomes.map(outcome => {
+        const p = clamp(outcome.probability, 1e-6, 1 - 1e-6)
+        return -Math.log(outcome.noShow ? p : 1 - p)
+      })
+    ),
+    auc: areaUnderCurve(outcomes),
+    calibration: (['LOW', 'MEDIUM', 'HIGH'] as const).map(tier => {
+      const inTier = outcomes.filter(outcome => outcome.tier === tier)
+      return {
+        tier,
+        count: inTier.length,
+        meanPredicted: mean(inTier.map(outcome => outcome.probability)),
+        observedRate: inTier.length > 0 ? inTier.filter(outcome => outcome.noShow).length / inTier.length : null,
+      }
+    }),
+  }
+}
+
+// Mann-Whitney statistic over ranked probabilities; ties share their average rank
+function areaUnderCurve(outcomes: ScoredOutcome[]): number | null {
+  const positives = outcomes.filter(outcome => outcome.noShow).length
+  const negatives = outcomes.length - positives
+  if (positives === 0 || negatives === 0) return null
+
+  const sorted = [...outcomes].sort((a, b) => a.probability - b.probability)
+  let positiveRankSum = 0
+  for (let i = 0; i < sorted.length; ) {
+    let j = i
+    while (j < sorted.length && sorted[j]!.probability === sorted[i]!.probability) j++
+    const averageRank = (i + 1 + j) / 2
+    for (let k = i; k < j; k++) if (sorted[k]!.noShow) positiveRankSum += averageRank
+    i = j
+  }
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives)
+}
+
+function logit(p: number): number {
+  return Math.log(p / (1 - p))
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
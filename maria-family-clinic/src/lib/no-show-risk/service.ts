@@ -0,0 +1,450 @@
+import type { NoShowOutcome, NoShowRiskScore, NoShowRiskTier, Prisma, PrismaClient } from '@prisma/client'
+import { addDaysToKey, atSingaporeTime, formatSingaporeDateTime, singaporeDateKey, singaporeMinutes } from '../clinic-hours/calendar'
+import { queueNotification } from '../notifications/queue'
+import {
+  accuracyMetrics,
+  scoreNoShowRisk,
+  type AccuracyMetrics,
+  type NoShowFeatures,
+  type ReminderChannel,
+} from './scoring'
+
+/**
+ * No-Show Risk Service - Scores upcoming appointments and acts on the scores
+ *
+ * Scores are stored per appointment and refreshed by the reminder sweep, or on demand by
+ * staff for a clinic's day. Medium and high risk bookings get extra reminders on the
+ * patient's preferred channel as the appointment approaches; high-risk ones are also
+ * offered to staff for controlled overbooking. Once an appointment is over, its outcome
+ * is recorded against the score so accuracy can be tracked week by week. Reminders change
+ * the outcomes they target, so observed rates in the upper tiers understate the risk had
+ * no reminder been sent.
+ */
+
+export interface NoShowRiskServiceOptions {
+  now?: () => Date
+  baselineDays?: number // Window for each clinic's own no-show rate
+}
+
+export interface ReminderSweepResult {
+  scored: number
+  remindersQueued: number
+  failed: number
+  resolved: number
+}
+
+export interface OverbookingOptions {
+  maxPerDay?: number
+  maxPerDoctor?: number
+}
+
+export interface OverbookingOffer {
+  appointmentId: string
+  doctorId: string | null
+  appointmentDate: Date
+  probability: number
+}
+
+export interface OverbookingPlan {
+  expectedNoShows: number // Sum of the day's probabilities
+  limit: number // Extra bookings the day can take
+  offers: OverbookingOffer[]
+}
+
+export interface WeeklyAccuracy extends AccuracyMetrics {
+  weekStart: string // Monday, Singapore date key
+}
+
+export interface NoShowAccuracyReport {
+  from: string
+  to: string
+  overall: AccuracyMetrics
+  weekly: WeeklyAccuracy[]
+  byModelVersion: (AccuracyMetrics & { modelVersion: string })[]
+}
+
+export class NoShowRiskError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'NoShowRiskError'
+  }
+}
+
+// Hours before the appointment each extra reminder goes out, by tier
+export const ESCALATED_REMINDER_HOURS: Record<NoShowRiskTier, number[]> = {
+  LOW: [],
+  MEDIUM: [24],
+  HIGH: [72, 24, 3],
+}
+
+const ACTIVE_STATUSES = ['PENDING', 'CONFIRMED'] as const
+const RESOLVING_STATUSES: Record<string, NoShowOutcome> = {
+  COMPLETED: 'ATTENDED',
+  NO_SHOW: 'NO_SHOW',
+  CANCELLED: 'CANCELLED',
+}
+
+const DEFAULT_BASELINE_DAYS = 365
+const DEFAULT_CLINIC_NO_SHOW_RATE = 0.08
+const MIN_BASELINE_APPOINTMENTS = 50
+const RECENT_CANCELLATION_DAYS = 90
+const RESOLVE_WINDOW_DAYS = 30
+const DEFAULT_MAX_OVERBOOK_PER_DAY = 2
+const DEFAULT_MAX_OVERBOOK_PER_DOCTOR = 1
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+interface ScoringAppointment {
+  id: string
+  clinicId: string
+  doctorId: string | null
+  patientId: string
+  appointmentDate: Date
+  createdAt: Date
+}
+
+const scoringSelect = {
+  id: true,
+  clinicId: true,
+  doctorId: true,
+  patientId: true,
+  appointmentDate: true,
+  createdAt: true,
+} as const
+
+export class NoShowRiskService {
+  private readonly now: () => Date
+  private readonly baselineDays: number
+
+  constructor(private readonly db: PrismaClient, options: NoShowRiskServiceOptions = {}) {
+    this.now = options.now ?? (() => new Date())
+    this.baselineDays = options.baselineDays ?? DEFAULT_BASELINE_DAYS
+  }
+
+  /**
+   * Score (or re-score) pending and confirmed appointments. Reminder counts already sent
+   * are kept.
+   */
+  async scoreAppointments(appointmentIds: string[]): Promise<Map<string, NoShowRiskScore>> {
+    if (appointmentIds.length === 0) return new Map()
+    const appointments: ScoringAppointment[] = await this.db.appointment.findMany({
+      where: { id: { in: appointmentIds }, status: { in: [...ACTIVE_STATUSES] } },
+      select: scoringSelect,
+    })
+    return this.scoreLoaded(appointments)
+  }
+
+  /**
+   * Score (or re-score) a clinic's pending and confirmed appointments on a Singapore
+   * calendar day, for staff who want the schedule's risk before the sweep reaches it
+   */
+  async scoreDay(clinicId: string, dateKey: string): Promise<Map<string, NoShowRiskScore>> {
+    const appointments: ScoringAppointment[] = await this.db.appointment.findMany({
+      where: {
+        clinicId,
+        status: { in: [...ACTIVE_STATUSES] },
+        appointmentDate: { gte: atSingaporeTime(dateKey), lt: atSingaporeTime(addDaysToKey(dateKey, 1)) },
+      },
+      select: scoringSelect,
+    })
+    return this.scoreLoaded(appointments)
+  }
+
+  /**
+   * Stored scores for the given appointments. Nothing is scored here, so reads have no
+   * side effects; appointments the sweep has not reached yet have no score.
+   */
+  async riskForAppointments(appointmentIds: string[]): Promise<Map<string, NoShowRiskScore>> {
+    if (appointmentIds.length === 0) return new Map()
+    const stored = await this.db.noShowRiskScore.findMany({ where: { appointmentId: { in: appointmentIds } } })
+    return new Map(stored.map(score => [score.appointmentId, score]))
+  }
+
+  async getScore(appointmentId: string): Promise<NoShowRiskScore> {
+    const score = (await this.riskForAppointments([appointmentId])).get(appointmentId)
+    if (!score) throw new NoShowRiskError('No risk score for this appointment', 'NOT_FOUND')
+    return score
+  }
+
+  /**
+   * Re-score appointments in the next `hoursAhead` hours, queue the extra reminders that
+   * have fallen due and record outcomes of appointments that are over. Meant to run
+   * hourly so the three-hour reminder goes out in time.
+   */
+  async runReminderSweep(options: { hoursAhead?: number } = {}): Promise<ReminderSweepResult> {
+    const now = this.now()
+    const hoursAhead = options.hoursAhead ?? Math.max(...Object.values(ESCALATED_REMINDER_HOURS).flat())
+    const upcoming: ScoringAppointment[] = await this.db.appointment.findMany({
+      where: {
+        status: { in: [...ACTIVE_STATUSES] },
+        appointmentDate: { gt: now, lte: new Date(now.getTime() + hoursAhead * HOUR_MS) },
+      },
+      select: scoringSelect,
+      orderBy: { appointmentDate: 'asc' },
+    })
+    const scores = await this.scoreLoaded(upcoming)
+
+    let remindersQueued = 0
+    let failed = 0
+    for (const score of scores.values()) {
+      const result = await this.sendDueReminder(score)
+      if (result === 'SENT') remindersQueued++
+      if (result === 'FAILED') failed++
+    }
+
+    const resolved = await this.resolveOutcomes()
+    return { scored: scores.size, remindersQueued, failed, resolved }
+  }
+
+  /**
+   * Record attended, missed and cancelled outcomes against scores for appointments before
+   * today. Appointments still pending or confirmed are left for staff to close.
+   */
+  async resolveOutcomes(): Promise<number> {
+    const today = atSingaporeTime(singaporeDateKey(this.now()))
+    const open = await this.db.noShowRiskScore.findMany({
+      where: {
+        outcome: null,
+        appointmentDate: { gte: new Date(today.getTime() - RESOLVE_WINDOW_DAYS * DAY_MS), lt: today },
+      },
+      select: { id: true, appointmentId: true },
+    })
+    if (open.length === 0) return 0
+
+    const appointments: { id: string; status: string }[] = await this.db.appointment.findMany({
+      where: { id: { in: open.map(score => score.appointmentId) } },
+      select: { id: true, status: true },
+    })
+    const statuses = new Map(appointments.map(appointment => [appointment.id, appointment.status]))
+
+    let resolved = 0
+    for (const score of open) {
+      const outcome = RESOLVING_STATUSES[statuses.get(score.appointmentId) ?? '']
+      if (!outcome) continue
+      await this.db.noShowRiskScore.update({ where: { id: score.id }, data: { outcome, resolvedAt: this.now() } })
+      resolved++
+    }
+    return resolved
+  }
+
+  /**
+   * How well resolved scores predicted attendance over the last `weeks` weeks. Cancelled
+   * appointments are left out: they were never attended or missed.
+   */
+  async accuracy(options: { clinicId?: string; weeks?: number } = {}): Promise<NoShowAccuracyReport> {
+    const weeks = options.weeks ?? 12
+    const toKey = singaporeDateKey(this.now())
+    const fromKey = addDaysToKey(weekStartKey(toKey), -7 * (weeks - 1))
+
+    const scores = await this.db.noShowRiskScore.findMany({
+      where: {
+        ...(options.clinicId && { clinicId: options.clinicId }),
+        outcome: { in: ['ATTENDED', 'NO_SHOW'] },
+        appointmentDate: { gte: atSingaporeTime(fromKey), lt: atSingaporeTime(addDaysToKey(toKey, 1)) },
+      },
+      select: { probability: true, tier: true, outcome: true, modelVersion: true, appointmentDate: true },
+      orderBy: { appointmentDate: 'asc' },
+    })
+    const outcomes = scores.map(score => ({
+      probability: score.probability,
+      tier: score.tier,
+      noShow: score.outcome === 'NO_SHOW',
+      week: weekStartKey(singaporeDateKey(score.appointmentDate)),
+      modelVersion: score.modelVersion,
+    }))
+
+    const weekly: WeeklyAccuracy[] = []
+    for (let weekStart = fromKey; weekStart <= toKey; weekStart = addDaysToKey(weekStart, 7)) {
+      weekly.push({ weekStart, ...accuracyMetrics(outcomes.filter(outcome => outcome.week === weekStart)) })
+    }
+    const versions = [...new Set(outcomes.map(outcome => outcome.modelVersion))]
+
+    return {
+      from: fromKey,
+      to: toKey,
+      overall: accuracyMetrics(outcomes),
+      weekly,
+      byModelVersion: versions.map(modelVersion => ({
+        modelVersion,
+        ...accuracyMetrics(outcomes.filter(outcome => outcome.modelVersion === modelVersion)),
+      })),
+    }
+  }
+
+  /**
+   * High-risk bookings that a day's schedule can double-book. The day takes no more
+   * extra bookings than the no-shows it expects, each doctor at most `maxPerDoctor`, and
+   * the riskiest bookings are offered first.
+   */
+  overbookingOffers(scores: NoShowRiskScore[], options: OverbookingOptions = {}): OverbookingPlan {
+    const maxPerDay = options.maxPerDay ?? DEFAULT_MAX_OVERBOOK_PER_DAY
+    const maxPerDoctor = options.maxPerDoctor ?? DEFAULT_MAX_OVERBOOK_PER_DOCTOR
+    const expectedNoShows = scores.reduce((sum, score) => sum + score.probability, 0)
+    const limit = Math.min(maxPerDay, Math.floor(expectedNoShows))
+
+    const perDoctor = new Map<string | null, number>()
+    const offers: OverbookingOffer[] = []
+    for (const score of [...scores].filter(score => score.tier === 'HIGH').sort((a, b) => b.probability - a.probability)) {
+      if (offers.length >= limit) break
+      const taken = perDoctor.get(score.doctorId) ?? 0
+      if (taken >= maxPerDoctor) continue
+      perDoctor.set(score.doctorId, taken + 1)
+      offers.push({
+        appointmentId: score.appointmentId,
+        doctorId: score.doctorId,
+        appointmentDate: score.appointmentDate,
+        probability: score.probability,
+      })
+    }
+    return { expectedNoShows, limit, offers }
+  }
+
+  private async scoreLoaded(appointments: ScoringAppointment[]): Promise<Map<string, NoShowRiskScore>> {
+    const scores = new Map<string, NoShowRiskScore>()
+    if (appointments.length === 0) return scores
+
+    const patientIds = [...new Set(appointments.map(appointment => appointment.patientId))]
+    const [history, preferences, clinicRates] = await Promise.all([
+      this.patientHistory(patientIds),
+      this.db.userPreferences.findMany({
+        where: { userId: { in: patientIds } },
+        select: { userId: true, smsNotifications: true, emailNotifications: true },
+      }),
+      this.clinicRates([...new Set(appointments.map(appointment => appointment.clinicId))]),
+    ])
+    const channels = new Map(preferences.map(preference => [preference.userId, reminderChannel(preference)]))
+
+    for (const appointment of appointments) {
+      const past = history.get(appointment.patientId) ?? { attended: 0, noShows: 0, recentCancellations: 0 }
+      const features: NoShowFeatures = {
+        priorAppointments: past.attended + past.noShows,
+        priorNoShows: past.noShows,
+        recentCancellations: past.recentCancellations,
+        clinicNoShowRate: clinicRates.get(appointment.clinicId) ?? DEFAULT_CLINIC_NO_SHOW_RATE,
+        leadTimeDays: Math.max(0, appointment.appointmentDate.getTime() - appointment.createdAt.getTime()) / DAY_MS,
+        hourOfDay: Math.floor(singaporeMinutes(appointment.appointmentDate) / 60),
+        dayOfWeek: new Date(`${singaporeDateKey(appointment.appointmentDate)}T00:00:00.000Z`).getUTCDay(),
+        // Without stored preferences, reminders default to email
+        channel: channels.get(appointment.patientId) ?? 'EMAIL',
+      }
+      const result = scoreNoShowRisk(features)
+      const data = {
+        clinicId: appointment.clinicId,
+        doctorId: appointment.doctorId,
+        patientId: appointment.patientId,
+        appointmentDate: appointment.appointmentDate,
+        probability: result.probability,
+        tier: result.tier,
+        features: { ...features, contributions: result.contributions } as unknown as Prisma.InputJsonObject,
+        modelVersion: result.modelVersion,
+        scoredAt: this.now(),
+      }
+      const score = await this.db.noShowRiskScore.upsert({
+        where: { appointmentId: appointment.id },
+        create: { appointmentId: appointment.id, ...data },
+        update: data,
+      })
+      scores.set(appointment.id, score)
+    }
+    return scores
+  }
+
+  // Attended and missed appointments so far, and cancellations in the last 90 days
+  private async patientHistory(patientIds: string[]) {
+    const now = this.now()
+    const past: { patientId: string; status: string; updatedAt: Date }[] = await this.db.appointment.findMany({
+      where: {
+        patientId: { in: patientIds },
+        status: { in: ['COMPLETED', 'NO_SHOW', 'CANCELLED'] },
+        appointmentDate: { lt: now },
+      },
+      select: { patientId: true, status: true, updatedAt: true },
+    })
+
+    const cancellationCutoff = now.getTime() - RECENT_CANCELLATION_DAYS * DAY_MS
+    const history = new Map<string, { attended: number; noShows: number; recentCancellations: number }>()
+    for (const appointment of past) {
+      const entry = history.get(appointment.patientId) ?? { attended: 0, noShows: 0, recentCancellations: 0 }
+      if (appointment.status === 'COMPLETED') entry.attended++
+      if (appointment.status === 'NO_SHOW') entry.noShows++
+      if (appointment.status === 'CANCELLED' && appointment.updatedAt.getTime() >= cancellationCutoff) entry.recentCancellations++
+      history.set(appointment.patientId, entry)
+    }
+    return history
+  }
+
+  // Each clinic's no-show rate over the baseline window, when it has enough appointments
+  private async clinicRates(clinicIds: string[]): Promise<Map<string, number>> {
+    const now = this.now()
+    const window = { gte: new Date(now.getTime() - this.baselineDays * DAY_MS), lt: now }
+    const rates = new Map<string, number>()
+    for (const clinicId of clinicIds) {
+      const [resolved, noShows] = await Promise.all([
+        this.db.appointment.count({ where: { clinicId, appointmentDate: window, status: { in: ['COMPLETED', 'NO_SHOW'] } } }),
+        this.db.appointment.count({ where: { clinicId, appointmentDate: window, status: 'NO_SHOW' } }),
+      ])
+      if (resolved >= MIN_BASELINE_APPOINTMENTS) rates.set(clinicId, noShows / resolved)
+    }
+    return rates
+  }
+
+  /**
+   * Queue the latest reminder that has fallen due for a score's tier. Reminders missed
+   * while the sweep was not running are skipped rather than sent in a burst. The count is
+   * claimed before sending, so overlapping sweeps never send the same reminder twice.
+   */
+  private async sendDueReminder(score: NoShowRiskScore): Promise<'SENT' | 'FAILED' | 'NONE'> {
+    const hoursUntil = (score.appointmentDate.getTime() - this.now().getTime()) / HOUR_MS
+    const due = ESCALATED_REMINDER_HOURS[score.tier].filter(hours => hoursUntil <= hours).length
+    if (due <= score.remindersSent) return 'NONE'
+
+    const previous = { remindersSent: score.remindersSent, lastReminderAt: score.lastReminderAt }
+    const claimed = await this.db.noShowRiskScore.updateMany({
+      where: { id: score.id, remindersSent: previous.remindersSent },
+      data: { remindersSent: due, lastReminderAt: this.now() },
+    })
+    if (claimed.count === 0) return 'NONE'
+
+    const preferences = await this.db.userPreferences.findUnique({
+      where: { userId: score.patientId },
+      select: { smsNotifications: true, emailNotifications: true },
+    })
+    const channel = preferences ? reminderChannel(preferences) : 'EMAIL'
+
+    const sent = await queueNotification(this.db, {
+      userId: score.patientId,
+      type: 'APPOINTMENT_REMINDER',
+      channel: channel === 'NONE' ? 'IN_APP' : channel,
+      priority: score.tier === 'HIGH' ? 'HIGH' : 'NORMAL',
+      title: hoursUntil <= 24 ? 'Your appointment is coming up' : 'Reminder: upcoming appointment',
+      message:
+        `Your appointment is on ${formatSingaporeDateTime(score.appointmentDate)}. ` +
+        'Please confirm you can make it, or reschedule so the slot can go to another patient.',
+      actionUrl: `/appointments/${score.appointmentId}`,
+      actionText: 'Confirm or reschedule',
+    })
+    if (sent) return 'SENT'
+
+    // Release the claim so the next sweep retries
+    await this.db.noShowRiskScore.updateMany({
+      where: { id: score.id, remindersSent: due },
+      data: previous,
+    })
+    return 'FAILED'
+  }
+}
+
+function reminderChannel(preferences: { smsNotifications: boolean; emailNotifications: boolean }): ReminderChannel {
+  if (preferences.smsNotifications) return 'SMS'
+  if (preferences.emailNotifications) return 'EMAIL'
+  return 'NONE'
+}
+
+// Monday of the week a Singapore date key falls in
+function weekStartKey(dateKey: string): string {
+  const dayOfWeek = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()
+  return addDaysToKey(dateKey, -((dayOfWeek + 6) % 7))
+}
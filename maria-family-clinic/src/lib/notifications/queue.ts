@@ -0,0 +1,18 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+
+/**
+ * Queue a notification about a change that has already been saved. Notifications are
+ * best effort: the change stands whether or not one could be queued, so a failure is
+ * reported as `false` rather than thrown.
+ */
+export async function queueNotification(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.ContactNotificationUncheckedCreateInput
+): Promise<boolean> {
+  try {
+    await db.contactNotification.create({ data })
+    return true
+  } catch {
+    return false
+  }
+}
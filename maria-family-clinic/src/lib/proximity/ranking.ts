@@ -0,0 +1,98 @@
+import { haversineKm } from '../scheduling/travel-time'
+
+/**
+ * Proximity Ranking - Exact radius filtering and distance ordering in plain TypeScript
+ *
+ * Results are ordered by (distance, id) so ties are stable and a page can be resumed
+ * from the last hit it returned. The PostGIS index uses the same ordering, spherical
+ * distance and cursor format.
+ */
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export interface ProximityHit {
+  id: string
+  distanceKm: number
+}
+
+export interface LocatedPoint extends GeoPoint {
+  id: string
+}
+
+// Kilometres per degree of latitude, and of longitude at the equator (WGS84)
+const KM_PER_DEGREE_LATITUDE = 110.574
+const KM_PER_DEGREE_LONGITUDE = 111.32
+// Widens the box slightly so the spherical distance never excludes a point inside it
+const BOX_MARGIN = 1.01
+
+/**
+ * Latitude/longitude box that fully contains the circle. Used to narrow the candidates
+ * before the exact distance check.
+ */
+export function boundingBox(center: GeoPoint, radiusKm: number) {
+  const latDelta = (radiusKm / KM_PER_DEGREE_LATITUDE) * BOX_MARGIN
+  const cosLat = Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01)
+  const lonDelta = (radiusKm / (KM_PER_DEGREE_LONGITUDE * cosLat)) * BOX_MARGIN
+
+  return {
+    latitude: { gte: center.latitude - latDelta, lte: center.latitude + latDelta },
+    longitude: { gte: center.longitude - lonDelta, lte: center.longitude + lonDelta },
+  }
+}
+
+/**
+ * Whether `hit` sorts after `after` in (distance, id) order
+ */
+export function isAfter(hit: ProximityHit, after: ProximityHit | null): boolean {
+  if (!after) return true
+  return hit.distanceKm > after.distanceKm || (hit.distanceKm === after.distanceKm && hit.id > after.id)
+}
+
+export function compareHits(a: ProximityHit, b: ProximityHit): number {
+  return a.distanceKm - b.distanceKm || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+}
+
+/**
+ * Points within `radiusKm` of `center`, nearest first, starting after `after`
+ */
+export function rankByDistance(
+  points: LocatedPoint[],
+  center: GeoPoint,
+  radiusKm: number,
+  after: ProximityHit | null = null,
+  take = Infinity
+): ProximityHit[] {
+  return points
+    .map(point => ({ id: point.id, distanceKm: haversineKm(center, point) }))
+    .filter(hit => hit.distanceKm <= radiusKm && isAfter(hit, after))
+    .sort(compareHits)
+    .slice(0, take)
+}
+
+export function encodeCursor(hit: ProximityHit): string {
+  return Buffer.from(JSON.stringify([hit.distanceKm, hit.id])).toString('base64url')
+}
+
+/**
+ * Returns null when the cursor is not one this module produced
+ */
+export function decodeCursor(cursor: string): ProximityHit | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'number' &&
+      Number.isFinite(decoded[0]) &&
+      typeof decoded[1] === 'string'
+    ) {
+      return { distanceKm: decoded[0], id: decoded[1] }
+    }
+  } catch {
+    // Fall through
+  }
+  return null
+}
@@ -0,0 +1,233 @@
+import { Prisma, type PrismaClient } from '@prisma/client'
+import {
+  boundingBox,
+  decodeCursor,
+  encodeCursor,
+  rankByDistance,
+  type GeoPoint,
+  type ProximityHit,
+} from './ranking'
+
+/**
+ * Clinic Proximity Service - Nearest-clinic search with exact radius filtering
+ *
+ * A `ProximityIndex` yields clinics inside the radius in (distance, id) order. With
+ * PostGIS the `clinics.location` GiST index answers the radius filter (ST_DWithin) and
+ * the ordering (KNN `<->`); without it a bounding-box query plus haversine distances
+ * gives the same results. Other filters (active, services, languages...) are applied to
+ * each batch the index yields, so a page is always the nearest matching clinics.
+ */
+
+export type { GeoPoint, ProximityHit } from './ranking'
+
+export interface ProximityIndex {
+  readonly kind: 'POSTGIS' | 'HAVERSINE'
+  /**
+   * Up to `take` clinics within the radius, nearest first, after the `after` hit
+   */
+  scan(query: { center: GeoPoint; radiusKm: number; after: ProximityHit | null; take: number }): Promise<ProximityHit[]>
+}
+
+export interface ProximityQuery {
+  center: GeoPoint
+  radiusKm: number
+  where?: Prisma.ClinicWhereInput
+}
+
+export interface NearestQuery extends ProximityQuery {
+  limit: number
+  cursor?: string
+}
+
+export interface NearestPage {
+  hits: ProximityHit[]
+  nextCursor: string | null
+}
+
+export class ProximitySearchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'ProximitySearchError'
+  }
+}
+
+const MIN_BATCH_SIZE = 50
+const RADIUS_BATCH_SIZE = 500
+
+/**
+ * PostGIS-backed index over `clinics.location` (geography, SRID 4326). Distances are
+ * spherical, matching the KNN operator, so ordering and cursors agree.
+ */
+export class PostgisProximityIndex implements ProximityIndex {
+  readonly kind = 'POSTGIS'
+
+  constructor(private readonly db: PrismaClient) {}
+
+  async scan({ center, radiusKm, after, take }: Parameters<ProximityIndex['scan']>[0]): Promise<ProximityHit[]> {
+    const point = Prisma.sql`ST_SetSRID(ST_MakePoint(${center.longitude}::float8, ${center.latitude}::float8), 4326)::geography`
+    const distanceKm = Prisma.sql`ST_Distance(location, ${point}, false) / 1000`
+    const resume = after
+      ? Prisma.sql`AND (${distanceKm}, id) > (${after.distanceKm}::float8, ${after.id})`
+      : Prisma.empty
+
+    const rows = await this.db.$queryRaw<{ id: string; distance_km: number }[]>`
+      SELECT id, ${distanceKm} AS distance_km
+      FROM clinics
+      WHERE location IS NOT NULL
+        AND ST_DWithin(location, ${point}, ${radiusKm * 1000}::float8, false)
+        ${resume}
+      ORDER BY location <-> ${point}, id
+      LIMIT ${take}
+    `
+    return rows.map(row => ({ id: row.id, distanceKm: Number(row.distance_km) }))
+  }
+}
+
+/**
+ * Pure TypeScript fallback for databases without PostGIS (plain Postgres, SQLite in tests)
+ */
+export class HaversineProximityIndex implements ProximityIndex {
+  readonly kind = 'HAVERSINE'
+
+  constructor(private readonly db: PrismaClient) {}
+
+  async scan({ center, radiusKm, after, take }: Parameters<ProximityIndex['scan']>[0]): Promise<ProximityHit[]> {
+    const candidates = await this.db.clinic.findMany({
+      where: boundingBox(center, radiusKm),
+      select: { id: true, latitude: true, longitude: true },
+    })
+    return rankByDistance(candidates, center, radiusKm, after, take)
+  }
+}
+
+const resolvedIndexes = new WeakMap<PrismaClient, Promise<ProximityIndex>>()
+
+/**
+ * PostGIS when the extension is installed, otherwise the haversine fallback. Set
+ * CLINIC_PROXIMITY_INDEX=postgis|haversine to skip detection.
+ */
+export function resolveProximityIndex(db: PrismaClient): Promise<ProximityIndex> {
+  let resolved = resolvedIndexes.get(db)
+  if (!resolved) {
+    resolved = detectIndex(db)
+    resolvedIndexes.set(db, resolved)
+  }
+  return resolved
+}
+
+async function detectIndex(db: PrismaClient): Promise<ProximityIndex> {
+  const configured = process.env.CLINIC_PROXIMITY_INDEX?.toLowerCase()
+  if (configured === 'postgis') return new PostgisProximityIndex(db)
+  if (configured === 'haversine') return new HaversineProximityIndex(db)
+
+  try {
+    const [row] = await db.$queryRaw<{ enabled: boolean }[]>`
+      SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'postgis') AS enabled
+    `
+    if (row?.enabled) return new PostgisProximityIndex(db)
+  } catch {
+    // Without a working check, fall back to the search that needs no extension
+  }
+  return new HaversineProximityIndex(db)
+}
+
+export class ClinicProximityService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly index?: ProximityIndex
+  ) {}
+
+  /**
+   * One page of the nearest matching clinics. `nextCursor` resumes after the last hit.
+   */
+  async nearest(query: NearestQuery): Promise<NearestPage> {
+    const after = query.cursor ? decodeCursor(query.cursor) : null
+    if (query.cursor && !after) {
+      throw new ProximitySearchError('Invalid cursor', 'BAD_REQUEST')
+    }
+
+    const hits = await this.collect(query, after, query.limit + 1)
+    const page = hits.slice(0, query.limit)
+    return {
+      hits: page,
+      nextCursor: hits.length > query.limit ? encodeCursor(page[page.length - 1]!) : null,
+    }
+  }
+
+  /**
+   * Every matching clinic within the radius, nearest first
+   */
+  async withinRadius(query: ProximityQuery): Promise<ProximityHit[]> {
+    return this.collect(query, null, Infinity)
+  }
+
+  private async collect(query: ProximityQuery, after: ProximityHit | null, wanted: number): Promise<ProximityHit[]> {
+    const index = this.index ?? (await resolveProximityIndex(this.db))
+    const batchSize = Number.isFinite(wanted) ? Math.max(wanted * 2, MIN_BATCH_SIZE) : RADIUS_BATCH_SIZE
+    const hits: ProximityHit[] = []
+    let from = after
+
+    while (hits.length < wanted) {
+      const batch = await index.scan({ center: query.center, radiusKm: query.radiusKm, after: from, take: batchSize })
+      if (batch.length === 0) break
+
+      const matching = await this.matching(batch, query.where)
+      for (const hit of batch) {
+        if (!matching.has(hit.id)) continue
+        hits.push(hit)
+        if (hits.length === wanted) break
+      }
+
+      if (batch.length < batchSize) break
+      from = batch[batch.length - 1]!
+    }
+
+    return hits
+  }
+
+  private async matching(batch: ProximityHit[], where?: Prisma.ClinicWhereInput): Promise<Set<string>> {
+    const ids = batch.map(hit => hit.id)
+    if (!where || Object.keys(where).length === 0) return new Set(ids)
+
+    const rows = await this.db.clinic.findMany({
+      where: { AND: [where, { id: { in: ids } }] },
+      select: { id: true },
+    })
+    return new Set(rows.map(row => row.id))
+  }
+}
+
+/**
+ * Enables PostGIS and keeps `clinics.location` in step with latitude/longitude: a
+ * trigger for future writes, a backfill for existing rows, and the GiST index.
+ * Returns the number of rows backfilled.
+ */
+export async function ensureClinicSpatialIndex(db: PrismaClient): Promise<number> {
+  await db.$executeRaw`CREATE EXTENSION IF NOT EXISTS postgis`
+  await db.$executeRaw`
+    CREATE OR REPLACE FUNCTION clinics_sync_location() RETURNS trigger AS $$
+    BEGIN
+      NEW.location := ST_SetSRID(ST_MakePoint(NEW.longitude, NEW.latitude), 4326)::geography;
+      RETURN NEW;
+    END
+    $$ LANGUAGE plpgsql
+  `
+  await db.$executeRaw`DROP TRIGGER IF EXISTS clinics_sync_location ON clinics`
+  await db.$executeRaw`
+    CREATE TRIGGER clinics_sync_location
+    BEFORE INSERT OR UPDATE OF latitude, longitude ON clinics
+    FOR EACH ROW EXECUTE FUNCTION clinics_sync_location()
+  `
+  const backfilled = await db.$executeRaw`
+    UPDATE clinics
+    SET location = ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    WHERE location IS NULL
+      OR NOT ST_Equals(location::geometry, ST_SetSRID(ST_MakePoint(longitude, latitude), 4326))
+  `
+  await db.$executeRaw`CREATE INDEX IF NOT EXISTS clinic_location_gist ON clinics USING GIST (location)`
+  await db.$executeRaw`ANALYZE clinics`
+  return backfilled
+}
@@ -222,7 +222,7 @@ export function useNearbyClinicsOptimized(
   const performanceMonitor = getGlobalPerformanceMonitor()
 
   const {
-    data: clinics,
+    data,
     isLoading,
     error,
     refetch,
@@ -233,6 +233,7 @@ export function useNearbyClinicsOptimized(
     gcTime: 10 * 60 * 1000,
     refetchOnWindowFocus: false,
   })
+  const clinics = data?.data
 
   // Prefetch expanded nearby results in background
   const prefetchExpandedResults = useCallback(async () => {
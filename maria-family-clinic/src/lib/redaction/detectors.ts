@@ -0,0 +1,158 @@
+import type { RedactionType } from '@prisma/client'
+import { MEDICAL_TERMS_DICTIONARY } from '../filters'
+
+/**
+ * Redaction Detectors - Finds personal and medical details in free text
+ *
+ * NRIC/FIN numbers only count when their check letter is right, so product codes and
+ * reference numbers that merely look like one are left alone. Phone numbers and postal
+ * codes follow Singapore numbering; medical terms come from MEDICAL_TERMS_DICTIONARY,
+ * minus everyday words that would blank out ordinary sentences.
+ */
+
+export type { RedactionType } from '@prisma/client'
+
+export interface RedactionFinding {
+  type: RedactionType
+  start: number // Offsets into the original text
+  end: number
+}
+
+export interface RedactionResult {
+  text: string
+  findings: RedactionFinding[]
+}
+
+// Bump when a detector changes what it finds, so old redactions can be re-run
+export const DETECTOR_VERSION = '2026-10-1'
+
+export const REDACTION_TYPES: RedactionType[] = ['NRIC', 'EMAIL', 'PHONE', 'POSTAL_CODE', 'MEDICAL_TERM']
+
+export const REDACTION_LABELS: Record<RedactionType, string> = {
+  NRIC: '[NRIC/FIN]',
+  EMAIL: '[email]',
+  PHONE: '[phone number]',
+  POSTAL_CODE: '[postal code]',
+  MEDICAL_TERM: '[medical detail]',
+}
+
+// Dictionary entries people mostly use in their everyday sense ("the room was cold")
+const EVERYDAY_WORDS = new Set([
+  'blemishes',
+  'breakouts',
+  'cold',
+  'fatigue',
+  'nervousness',
+  'pain',
+  'panic',
+  'redness',
+  'restlessness',
+  'sadness',
+  'sensitivity',
+  'stiffness',
+  'sweating',
+  'swelling',
+  'tearing',
+  'worry',
+])
+
+const NRIC_WEIGHTS = [2, 7, 6, 5, 4, 3, 2]
+const NRIC_CHECK_LETTERS = {
+  S: 'JZIHGFEDCBA',
+  T: 'JZIHGFEDCBA',
+  F: 'XWUTRQPNMLK',
+  G: 'XWUTRQPNMLK',
+  M: 'KLJNPQRTUWX',
+} as const
+const NRIC_OFFSETS = { S: 0, T: 4, F: 0, G: 4, M: 3 } as const
+
+// Postal sectors are the first two digits; 74 was never issued
+const VALID_POSTAL_SECTOR = (sector: number) => sector >= 1 && sector <= 82 && sector !== 74
+
+const NRIC_PATTERN = /\b[STFGM]\d{7}[A-Z]\b/gi
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g
+const PHONE_PATTERN = /(?<![\w+])(?:(?:\+|00)?65[\s-]?|\(\+?65\)\s?)?[3689]\d{3}[\s-]?\d{4}(?!\w)/g
+const POSTAL_PATTERN = /(?<![\w$.,])\d{6}(?!\w|[.,]\d)/g
+
+/**
+ * Whether the check letter of an NRIC or FIN matches its digits
+ */
+export function isValidNric(value: string): boolean {
+  const id = value.toUpperCase()
+  if (!/^[STFGM]\d{7}[A-Z]$/.test(id)) return false
+
+  const prefix = id[0] as keyof typeof NRIC_CHECK_LETTERS
+  const weighted = NRIC_WEIGHTS.reduce((sum, weight, i) => sum + weight * Number(id[i + 1]), NRIC_OFFSETS[prefix])
+  const remainder = weighted % 11
+  const index = prefix === 'M' ? 10 - remainder : remainder
+  return NRIC_CHECK_LETTERS[prefix][index] === id[8]
+}
+
+/**
+ * Dictionary terms, synonyms, symptoms and related conditions, longest first so
+ * "tension headache" wins over "headache"
+ */
+export function medicalTermsFrom(dictionary: Record<string, { synonyms: string[]; commonSymptoms?: string[]; relatedConditions?: string[] }>): string[] {
+  const terms = new Set<string>()
+  for (const [term, entry] of Object.entries(dictionary)) {
+    for (const candidate of [term, ...entry.synonyms, ...(entry.commonSymptoms ?? []), ...(entry.relatedConditions ?? [])]) {
+      const normalized = candidate.trim().toLowerCase()
+      if (normalized && !EVERYDAY_WORDS.has(normalized)) terms.add(normalized)
+    }
+  }
+  return [...terms].sort((a, b) => b.length - a.length || a.localeCompare(b))
+}
+
+const MEDICAL_TERM_PATTERN = termPattern(medicalTermsFrom(MEDICAL_TERMS_DICTIONARY))
+
+/**
+ * Every personal or medical detail in the text; overlapping matches are resolved in
+ * favour of the earlier, then longer, one
+ */
+export function detectSensitiveData(text: string, types: RedactionType[] = REDACTION_TYPES): RedactionFinding[] {
+  const wanted = new Set(types)
+  const found: RedactionFinding[] = []
+  const collect = (type: RedactionType, pattern: RegExp, accept: (match: string) => boolean = () => true) => {
+    if (!wanted.has(type)) return
+    for (const match of text.matchAll(pattern)) {
+      if (accept(match[0])) found.push({ type, start: match.index!, end: match.index! + match[0].length })
+    }
+  }
+
+  collect('NRIC', NRIC_PATTERN, isValidNric)
+  collect('EMAIL', EMAIL_PATTERN)
+  collect('PHONE', PHONE_PATTERN)
+  collect('POSTAL_CODE', POSTAL_PATTERN, match => VALID_POSTAL_SECTOR(Number(match.slice(0, 2))))
+  collect('MEDICAL_TERM', MEDICAL_TERM_PATTERN)
+
+  const findings: RedactionFinding[] = []
+  for (const finding of found.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    const previous = findings[findings.length - 1]
+    if (!previous || finding.start >= previous.end) findings.push(finding)
+  }
+  return findings
+}
+
+/**
+ * Replace each finding with its label
+ */
+export function applyRedactions(text: string, findings: RedactionFinding[]): string {
+  let redacted = ''
+  let cursor = 0
+  for (const finding of findings) {
+    redacted += text.slice(cursor, finding.start) + REDACTION_LABELS[finding.type]
+    cursor = finding.end
+  }
+  return redacted + text.slice(cursor)
+}
+
+export function redactText(text: string, types?: RedactionType[]): RedactionResult {
+  const findings = detectSensitiveData(text, types)
+  return { text: applyRedactions(text, findings), findings }
+}
+
+function termPattern(terms: string[]): RegExp {
+  // Separators inside a term match any run of spaces or hyphens; plurals are allowed
+  const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]+'))
+  return new RegExp(`\\b(?:${alternatives.join('|')})(?:e?s)?\\b`, 'gi')
+}
@@ -0,0 +1,192 @@
+import type { Prisma, PrismaClient, RedactionAccess, RedactionRecord, RedactionSourceType } from '@prisma/client'
+import { healthcareEncryption, type EncryptedData, type HealthcareEncryptionService } from '../encryption'
+import { DETECTOR_VERSION, redactText, type RedactionFinding, type RedactionType } from './detectors'
+
+/**
+ * Redaction Service - Takes personal and medical details out of free text before it is
+ * published or shown to non-clinical staff
+ *
+ * Callers store only the redacted text on their own rows. When anything was redacted,
+ * the original is encrypted and kept in a RedactionRecord along with where each finding
+ * was and what kind it was, never the value itself. Clinical staff can read the original
+ * back with a stated reason; every such read is logged as a RedactionAccess.
+ */
+
+export interface RedactionSource {
+  sourceType: RedactionSourceType
+  sourceId: string
+}
+
+/** Redacted text ready to store, with the encrypted original if anything was found */
+export interface PreparedRedaction {
+  field: string
+  text: string
+  findings: RedactionFinding[]
+  encryptedOriginal: string | null
+}
+
+/** Submitted form data with its free text redacted, and the redactions to record */
+export interface PreparedFormData<T> {
+  data: T
+  prepared: PreparedRedaction[]
+}
+
+export interface RevealedOriginal {
+  recordId: string
+  field: string
+  original: string
+  redactedText: string
+  findings: RedactionFinding[]
+}
+
+export interface RedactionViewer {
+  id: string
+  role: string
+  reason: string
+}
+
+export type RedactionRecordSummary = Omit<RedactionRecord, 'encryptedOriginal'> & { accesses: RedactionAccess[] }
+
+export interface RedactionServiceOptions {
+  encryption?: Pick<HealthcareEncryptionService, 'encryptHealthData' | 'decryptHealthData'>
+}
+
+export class RedactionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'FORBIDDEN' | 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'RedactionError'
+  }
+}
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Roles that may read what patients wrote in full
+export const CLINICAL_ROLES = ['PROVIDER', 'ADMIN']
+
+export class RedactionService {
+  private readonly encryption: NonNullable<RedactionServiceOptions['encryption']>
+
+  constructor(private readonly db: PrismaClient, options: RedactionServiceOptions = {}) {
+    this.encryption = options.encryption ?? healthcareEncryption
+  }
+
+  /**
+   * Redact one field's text and encrypt the original, outside any transaction
+   */
+  async prepare(field: string, text: string, types?: RedactionType[]): Promise<PreparedRedaction> {
+    const result = redactText(text, types)
+    if (result.findings.length === 0) return { field, text, findings: [], encryptedOriginal: null }
+
+    const encrypted = await this.encryption.encryptHealthData(text, {
+      fieldType: field,
+      sensitivityLevel: 'RESTRICTED',
+      purpose: 'redaction_original',
+    })
+    return { field, text: result.text, findings: result.findings, encryptedOriginal: JSON.stringify(encrypted) }
+  }
+
+  /**
+   * Redact every string in submitted form data, nested values included. Each is prepared
+   * under its path from `field`, e.g. "formData.details" or "formData.symptoms.0".
+   */
+  async prepareFormData<T>(field: string, data: T): Promise<PreparedFormData<T>> {
+    const prepared: PreparedRedaction[] = []
+    const walk = async (value: unknown, path: string): Promise<unknown> => {
+      if (typeof value === 'string') {
+        const redaction = await this.prepare(path, value)
+        if (redaction.encryptedOriginal) prepared.push(redaction)
+        return redaction.text
+      }
+      if (Array.isArray(value)) {
+        const items: unknown[] = []
+        for (const [index, item] of value.entries()) items.push(await walk(item, `${path}.${index}`))
+        return items
+      }
+      if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+        const fields: Record<string, unknown> = {}
+        for (const [key, item] of Object.entries(value)) fields[key] = await walk(item, `${path}.${key}`)
+        return fields
+      }
+      return value
+    }
+    return { data: (await walk(data, field)) as T, prepared }
+  }
+
+  /**
+   * Log the prepared redactions against the row they were stored on; fields with
+   * nothing redacted leave no record
+   */
+  async record(db: Db, source: RedactionSource, prepared: PreparedRedaction[], performedBy?: string | null): Promise<void> {
+    for (const redaction of prepared) {
+      if (!redaction.encryptedOriginal) continue
+      await db.redactionRecord.create({
+        data: {
+          ...source,
+          field: redaction.field,
+          redactedText: redaction.text,
+          encryptedOriginal: redaction.encryptedOriginal,
+          findings: redaction.findings as unknown as Prisma.InputJsonArray,
+          findingTypes: [...new Set(redaction.findings.map(finding => finding.type))],
+          detectorVersion: DETECTOR_VERSION,
+          performedBy: performedBy ?? null,
+        },
+      })
+    }
+  }
+
+  /**
+   * The original behind the latest redaction of a field, or an earlier one by record id.
+   * Only clinical staff may read it, and only with a reason, which is logged.
+   */
+  async reveal(source: RedactionSource, field: string, viewer: RedactionViewer, recordId?: string): Promise<RevealedOriginal> {
+    if (!CLINICAL_ROLES.includes(viewer.role)) {
+      throw new RedactionError('Only clinical staff can view redacted details', 'FORBIDDEN')
+    }
+    const reason = viewer.reason.trim()
+    if (!reason) throw new RedactionError('A reason is required to view redacted details', 'BAD_REQUEST')
+
+    const record = await this.db.redactionRecord.findFirst({
+      where: { ...source, field, ...(recordId && { id: recordId }) },
+      orderBy: { createdAt: 'desc' },
+    })
+    if (!record) throw new RedactionError('Nothing was redacted from this text', 'NOT_FOUND')
+
+    const { data: original } = await this.encryption.decryptHealthData(JSON.parse(record.encryptedOriginal) as EncryptedData)
+    await this.db.redactionAccess.create({
+      data: { recordId: record.id, viewedBy: viewer.id, viewerRole: viewer.role, reason },
+    })
+
+    return {
+      recordId: record.id,
+      field: record.field,
+      original,
+      redactedText: record.redactedText,
+      findings: record.findings as unknown as RedactionFinding[],
+    }
+  }
+
+  /**
+   * What was redacted from a source over time and who has read the originals, newest
+   * first, without the originals themselves
+   */
+  async history(source: RedactionSource): Promise<RedactionRecordSummary[]> {
+    const records = await this.db.redactionRecord.findMany({
+      where: source,
+      orderBy: { createdAt: 'desc' },
+      include: { accesses: { orderBy: { createdAt: 'asc' } } },
+    })
+    return records.map(({ encryptedOriginal: _encryptedOriginal, ...record }) => record)
+  }
+}
+
+/**
+ * "NRIC ×1, PHONE ×2" for audit notes
+ */
+export function describeFindings(findings: RedactionFinding[]): string {
+  const counts = new Map<RedactionType, number>()
+  for (const finding of findings) counts.set(finding.type, (counts.get(finding.type) ?? 0) + 1)
+  return [...counts.entries()].map(([type, count]) => `${type} ×${count}`).join(', ')
+}
@@ -0,0 +1,133 @@
+import type { ReviewFlagReason, ReviewFlagSeverity, ReviewModerationPriority } from '@prisma/client'
+import { addHours } from 'date-fns'
+
+/**
+ * Review Moderation Rules - Rating dimensions, automatic screening, flag severity and
+ * moderation queue priorities for patient reviews
+ *
+ * Screening only decides how urgently a moderator should look at a review; every new
+ * or edited review is read by a person before it is published.
+ */
+
+// Mirrors RatingDimensions in the review components
+export const DOCTOR_DIMENSIONS = ['bedsideManner', 'communication', 'treatmentEffectiveness', 'painManagement', 'followUpCare'] as const
+export const CLINIC_DIMENSIONS = ['waitTime', 'facilityEnvironment'] as const
+export const RATING_DIMENSIONS = ['overallRating', ...DOCTOR_DIMENSIONS, ...CLINIC_DIMENSIONS] as const
+
+export type RatingDimension = (typeof RATING_DIMENSIONS)[number]
+
+export type ReviewRatings = { overallRating: number } & Partial<Record<Exclude<RatingDimension, 'overallRating'>, number>>
+
+export type StoredRatings = { overallRating: number } & Record<Exclude<RatingDimension, 'overallRating'>, number | null>
+
+export interface RatingSummary {
+  count: number
+  averages: Record<RatingDimension, number | null> // Null when nobody rated the dimension
+}
+
+export type ScreeningFinding = 'identity_number' | 'contact_details' | 'link' | 'profanity' | 'shouting'
+
+export const REVIEW_WINDOW_DAYS = 90 // After the appointment
+export const REVIEW_EDIT_WINDOW_DAYS = 30 // After the review was written
+export const HIDE_AFTER_FLAGS = 3 // Open flags that take a review down until a moderator looks
+
+export const FLAG_SEVERITY: Record<ReviewFlagReason, ReviewFlagSeverity> = {
+  SPAM: 'LOW',
+  FAKE: 'MEDIUM',
+  INAPPROPRIATE: 'MEDIUM',
+  MEDICAL_ADVICE: 'MEDIUM',
+  VIOLATION: 'HIGH',
+  HARASSMENT: 'HIGH',
+  PRIVACY: 'CRITICAL',
+}
+
+/** Higher goes first */
+export const MODERATION_PRIORITY_RANK: Record<ReviewModerationPriority, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  URGENT: 4,
+}
+
+export const MODERATION_SLA_HOURS: Record<ReviewModerationPriority, number> = {
+  URGENT: 4,
+  HIGH: 24,
+  MEDIUM: 48,
+  LOW: 72,
+}
+
+const NRIC_PATTERN = /\b[STFGM]\d{7}[A-Z]\b/i
+const PHONE_PATTERN = /(?:\+65[\s-]?)?\b[689]\d{3}[\s-]?\d{4}\b/
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\.|\b[\w-]+\.(?:com|net|org|sg|io)\b/i
+const PROFANITY = ['fuck', 'shit', 'bastard', 'bitch', 'asshole', 'knn', 'lanjiao']
+
+/**
+ * What a moderator should look out for in a review's text
+ */
+export function screenReview(comment: string): ScreeningFinding[] {
+  const findings: ScreeningFinding[] = []
+  if (NRIC_PATTERN.test(comment)) findings.push('identity_number')
+  if (PHONE_PATTERN.test(comment) || EMAIL_PATTERN.test(comment)) findings.push('contact_details')
+  if (LINK_PATTERN.test(comment)) findings.push('link')
+
+  const words = comment.toLowerCase().split(/[^a-z]+/)
+  if (words.some(word => PROFANITY.includes(word))) findings.push('profanity')
+
+  const letters = comment.replace(/[^a-zA-Z]/g, '')
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) findings.push('shouting')
+
+  return findings
+}
+
+/**
+ * Personal data must come down fastest; a clean review waits its turn
+ */
+export function screeningPriority(findings: ScreeningFinding[]): ReviewModerationPriority {
+  if (findings.includes('identity_number')) return 'URGENT'
+  if (findings.includes('contact_details')) return 'HIGH'
+  if (findings.length > 0) return 'MEDIUM'
+  return 'LOW'
+}
+
+export function flagPriority(severity: ReviewFlagSeverity, openFlags: number): ReviewModerationPriority {
+  if (severity === 'CRITICAL') return 'URGENT'
+  if (severity === 'HIGH' || openFlags >= HIDE_AFTER_FLAGS) return 'HIGH'
+  return severity === 'MEDIUM' ? 'MEDIUM' : 'LOW'
+}
+
+/**
+ * Serious flags hide a review at once; minor ones only once several people agree
+ */
+export function shouldHideForFlags(severity: ReviewFlagSeverity, openFlags: number): boolean {
+  return severity === 'HIGH' || severity === 'CRITICAL' || openFlags >= HIDE_AFTER_FLAGS
+}
+
+export function higherPriority(a: ReviewModerationPriority, b: ReviewModerationPriority): ReviewModerationPriority {
+  return MODERATION_PRIORITY_RANK[a] >= MODERATION_PRIORITY_RANK[b] ? a : b
+}
+
+export function moderationDueAt(priority: ReviewModerationPriority, from: Date): Date {
+  return addHours(from, MODERATION_SLA_HOURS[priority])
+}
+
+export function ratingsOf(review: StoredRatings): ReviewRatings {
+  const ratings: ReviewRatings = { overallRating: review.overallRating }
+  for (const dimension of [...DOCTOR_DIMENSIONS, ...CLINIC_DIMENSIONS]) {
+    const value = review[dimension]
+    if (value !== null) ratings[dimension] = value
+  }
+  return ratings
+}
+
+/**
+ * Average each dimension over the reviews that rated it, to two decimal places
+ */
+export function summarizeRatings(reviews: StoredRatings[]): RatingSummary {
+  const averages = {} as Record<RatingDimension, number | null>
+  for (const dimension of RATING_DIMENSIONS) {
+    const values = reviews.map(review => review[dimension]).filter((value): value is number => value !== null)
+    averages[dimension] = values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null
+  }
+  return { count: reviews.length, averages }
+}
@@ -0,0 +1,666 @@
+import {
+  Prisma,
+  type PatientReview,
+  type PatientReviewStatus,
+  type PrismaClient,
+  type ReviewFlag,
+  type ReviewFlagReason,
+  type ReviewModerationAction,
+  type ReviewModerationItem,
+  type ReviewModerationItemStatus,
+  type ReviewModerationPriority,
+  type ReviewModerationType,
+  type ReviewResponse,
+} from '@prisma/client'
+import { addDays, subDays } from 'date-fns'
+import {
+  CLINIC_DIMENSIONS,
+  DOCTOR_DIMENSIONS,
+  FLAG_SEVERITY,
+  MODERATION_PRIORITY_RANK,
+  REVIEW_EDIT_WINDOW_DAYS,
+  REVIEW_WINDOW_DAYS,
+  flagPriority,
+  higherPriority,
+  moderationDueAt,
+  ratingsOf,
+  screenReview,
+  screeningPriority,
+  shouldHideForFlags,
+  summarizeRatings,
+  type RatingSummary,
+  type ReviewRatings,
+  type StoredRatings,
+} from './moderation'
+import { RedactionService, describeFindings, type PreparedRedaction } from '../redaction/service'
+
+/**
+ * Review Service - Verified patient reviews of doctors and clinics, with flagging, a
+ * moderation queue and an audit trail
+ *
+ * Only the patient of a COMPLETED appointment may review it, and only once. New and
+ * edited reviews and doctors' replies wait in the moderation queue until a moderator
+ * approves them; flags open a queue item and, when serious enough, hide the review
+ * meanwhile. Everything done to a review is recorded as a ReviewModerationEvent, and
+ * each edit keeps the text it replaced. Doctor and clinic ratings are recomputed from
+ * published reviews whenever one is published or taken down.
+ *
+ * Review and reply text is stored redacted: moderators are not clinical staff, so
+ * identity numbers, contact details and medical terms are taken out on the way in and
+ * the original is kept encrypted by the redaction service.
+ */
+
+export type { RatingSummary, ReviewRatings } from './moderation'
+
+export interface SubmitReviewInput {
+  appointmentId: string
+  ratings: ReviewRatings
+  comment: string
+  isAnonymous?: boolean
+}
+
+export interface UpdateReviewInput {
+  ratings?: ReviewRatings
+  comment?: string
+  reason?: string
+}
+
+export interface FlagReviewInput {
+  reason: ReviewFlagReason
+  details?: string
+}
+
+export interface ModerationDecisionInput {
+  decision: 'APPROVED' | 'REJECTED'
+  reason?: string
+  notes?: string
+}
+
+export interface ModerationQueueFilter {
+  status?: ReviewModerationItemStatus
+  type?: ReviewModerationType
+  assignedTo?: string
+}
+
+export type ReviewTarget = { doctorId: string; clinicId?: undefined } | { clinicId: string; doctorId?: undefined }
+
+export interface PublicReview {
+  id: string
+  ratings: ReviewRatings
+  comment: string
+  authorName: string
+  isVerified: true // Every review comes from a completed appointment
+  publishedAt: Date | null
+  edited: boolean
+  response: { text: string; publishedAt: Date | null } | null
+}
+
+export interface QueuedModerationItem extends ReviewModerationItem {
+  review: PatientReview
+  response: ReviewResponse | null
+  openFlags: ReviewFlag[]
+}
+
+export interface ReviewServiceOptions {
+  now?: () => Date
+  redaction?: RedactionService
+}
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'ReviewError'
+  }
+}
+
+type Tx = Prisma.TransactionClient
+
+// Queue items that cover the same decision, so a review is never queued twice for it
+const MERGED_ITEM_TYPES: Record<ReviewModerationType, ReviewModerationType[]> = {
+  NEW_REVIEW: ['NEW_REVIEW', 'EDITED_REVIEW'],
+  EDITED_REVIEW: ['NEW_REVIEW', 'EDITED_REVIEW'],
+  FLAGGED_REVIEW: ['FLAGGED_REVIEW'],
+  DOCTOR_RESPONSE: ['DOCTOR_RESPONSE'],
+}
+
+const OPEN_ITEM_STATUSES: ReviewModerationItemStatus[] = ['PENDING', 'IN_REVIEW']
+
+export class ReviewService {
+  private readonly now: () => Date
+  private readonly redaction: RedactionService
+
+  constructor(private readonly db: PrismaClient, options: ReviewServiceOptions = {}) {
+    this.now = options.now ?? (() => new Date())
+    this.redaction = options.redaction ?? new RedactionService(db)
+  }
+
+  /**
+   * Review a completed appointment. The review is published once a moderator approves it.
+   */
+  async submit(patientId: string, input: SubmitReviewInput): Promise<PatientReview> {
+    const now = this.now()
+    const appointment = await this.db.appointment.findUnique({
+      where: { id: input.appointmentId },
+      select: { id: true, patientId: true, doctorId: true, clinicId: true, status: true, appointmentDate: true },
+    })
+
+    if (!appointment) throw new ReviewError('Appointment not found', 'NOT_FOUND')
+    if (appointment.patientId !== patientId) {
+      throw new ReviewError('You can only review your own appointments', 'FORBIDDEN')
+    }
+    if (appointment.status !== 'COMPLETED') {
+      throw new ReviewError('Only completed appointments can be reviewed', 'FORBIDDEN')
+    }
+    if (now > addDays(appointment.appointmentDate, REVIEW_WINDOW_DAYS)) {
+      throw new ReviewError(`Reviews can be left up to ${REVIEW_WINDOW_DAYS} days after the appointment`, 'BAD_REQUEST')
+    }
+
+    const existing = await this.db.patientReview.findUnique({ where: { appointmentId: appointment.id }, select: { id: true } })
+    if (existing) throw new ReviewError('This appointment has already been reviewed', 'CONFLICT')
+
+    const redacted = await this.redaction.prepare('comment', input.comment.trim())
+    const comment = redacted.text
+    const findings = screenReview(comment)
+
+    try {
+      return await this.db.$transaction(async tx => {
+        const review = await tx.patientReview.create({
+          data: {
+            appointmentId: appointment.id,
+            patientId,
+            doctorId: appointment.doctorId,
+            clinicId: appointment.clinicId,
+            ...ratingColumns(input.ratings),
+            comment,
+            isAnonymous: input.isAnonymous ?? false,
+            screeningFindings: findings,
+          },
+        })
+        await this.redaction.record(tx, { sourceType: 'PATIENT_REVIEW', sourceId: review.id }, [redacted], patientId)
+        const item = await this.enqueue(tx, review.id, 'NEW_REVIEW', screeningPriority(findings), now)
+        await this.record(tx, review.id, {
+          action: 'SUBMITTED',
+          performedBy: patientId,
+          itemId: item.id,
+          toStatus: review.status,
+          notes: screeningNotes(findings, redacted),
+        })
+        return review
+      })
+    } catch (error) {
+      // Two submissions raced past the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ReviewError('This appointment has already been reviewed', 'CONFLICT')
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Change a review's text or ratings. The previous version is kept and the review
+   * goes back to the moderation queue.
+   */
+  async update(patientId: string, reviewId: string, input: UpdateReviewInput): Promise<PatientReview> {
+    const now = this.now()
+    const review = await this.getReview(reviewId)
+
+    if (review.patientId !== patientId) throw new ReviewError('You can only edit your own reviews', 'FORBIDDEN')
+    if (review.status === 'REMOVED') throw new ReviewError('This review has been removed', 'BAD_REQUEST')
+    if (now > addDays(review.createdAt, REVIEW_EDIT_WINDOW_DAYS)) {
+      throw new ReviewError(`Reviews can be edited for ${REVIEW_EDIT_WINDOW_DAYS} days after they are written`, 'BAD_REQUEST')
+    }
+
+    const redacted = input.comment !== undefined ? await this.redaction.prepare('comment', input.comment.trim()) : null
+    const comment = redacted?.text ?? review.comment
+    const ratings = input.ratings ?? ratingsOf(review)
+    const findings = screenReview(comment)
+
+    return this.db.$transaction(async tx => {
+      await tx.reviewEdit.create({
+        data: {
+          reviewId,
+          editedBy: patientId,
+          previousComment: review.comment,
+          previousRatings: ratingsOf(review) as unknown as Prisma.InputJsonObject,
+          reason: input.reason,
+        },
+      })
+      const updated = await tx.patientReview.update({
+        where: { id: reviewId },
+        data: {
+          ...ratingColumns(ratings),
+          comment,
+          screeningFindings: findings,
+          status: 'PENDING_MODERATION',
+          editCount: { increment: 1 },
+        },
+      })
+      if (redacted) await this.redaction.record(tx, { sourceType: 'PATIENT_REVIEW', sourceId: reviewId }, [redacted], patientId)
+      const item = await this.enqueue(tx, reviewId, 'EDITED_REVIEW', screeningPriority(findings), now)
+      await this.record(tx, reviewId, {
+        action: 'EDITED',
+        performedBy: patientId,
+        itemId: item.id,
+        fromStatus: review.status,
+        toStatus: updated.status,
+        reason: input.reason,
+        notes: screeningNotes(findings, redacted),
+      })
+
+      if (review.status === 'PUBLISHED') await this.refreshRatings(tx, review)
+      return updated
+    })
+  }
+
+  /**
+   * Report a published review. Serious reasons, or enough reports, hide it until a
+   * moderator decides.
+   */
+  async flag(userId: string, reviewId: string, input: FlagReviewInput): Promise<ReviewFlag> {
+    const now = this.now()
+    const review = await this.getReview(reviewId)
+
+    if (review.patientId === userId) throw new ReviewError('You cannot flag your own review', 'BAD_REQUEST')
+    if (review.status !== 'PUBLISHED' && review.status !== 'FLAGGED') {
+      throw new ReviewError('Only published reviews can be flagged', 'BAD_REQUEST')
+    }
+
+    const existing = await this.db.reviewFlag.findUnique({ where: { reviewId_reportedBy: { reviewId, reportedBy: userId } } })
+    if (existing) throw new ReviewError('You have already flagged this review', 'CONFLICT')
+
+    const severity = FLAG_SEVERITY[input.reason]
+    const openFlags = review.flagCount + 1
+    const hide = review.status === 'PUBLISHED' && shouldHideForFlags(severity, openFlags)
+
+    return this.db.$transaction(async tx => {
+      const flag = await tx.reviewFlag.create({
+        data: { reviewId, reportedBy: userId, reason: input.reason, severity, details: input.details },
+      })
+      const updated = await tx.patientReview.update({
+        where: { id: reviewId },
+        data: { flagCount: { increment: 1 }, ...(hide && { status: 'FLAGGED' as const }) },
+      })
+      const item = await this.enqueue(tx, reviewId, 'FLAGGED_REVIEW', flagPriority(severity, openFlags), now)
+      await this.record(tx, reviewId, {
+        action: 'FLAGGED',
+        performedBy: userId,
+        itemId: item.id,
+        fromStatus: review.status,
+        toStatus: updated.status,
+        reason: input.reason,
+        notes: input.details,
+      })
+
+      if (hide) await this.refreshRatings(tx, review)
+      return flag
+    })
+  }
+
+  /**
+   * Reply to a published review on the doctor's behalf. Replies, and changes to them,
+   * are public once a moderator approves them. Callers check the author may speak for
+   * the doctor.
+   */
+  async respond(reviewId: string, authorId: string, text: string): Promise<ReviewResponse> {
+    const now = this.now()
+    const review = await this.getReview(reviewId)
+    if (review.status !== 'PUBLISHED') throw new ReviewError('Only published reviews can be answered', 'BAD_REQUEST')
+
+    const existing = await this.db.reviewResponse.findUnique({ where: { reviewId } })
+    const redacted = await this.redaction.prepare('text', text.trim())
+    const trimmed = redacted.text
+
+    return this.db.$transaction(async tx => {
+      const response = existing
+        ? await tx.reviewResponse.update({
+            where: { reviewId },
+            data: {
+              text: trimmed,
+              authorId,
+              status: 'PENDING',
+              editHistory: [
+                ...responseHistory(existing.editHistory),
+                { text: existing.text, editedBy: existing.authorId, editedAt: existing.updatedAt.toISOString() },
+              ] as unknown as Prisma.InputJsonArray,
+            },
+          })
+        : await tx.reviewResponse.create({
+            data: { reviewId, doctorId: review.doctorId, authorId, text: trimmed },
+          })
+
+      const findings = screenReview(trimmed)
+      await this.redaction.record(tx, { sourceType: 'REVIEW_RESPONSE', sourceId: response.id }, [redacted], authorId)
+      const item = await this.enqueue(tx, reviewId, 'DOCTOR_RESPONSE', screeningPriority(findings), now)
+      await this.record(tx, reviewId, {
+        action: 'RESPONSE_SUBMITTED',
+        performedBy: authorId,
+        itemId: item.id,
+        notes: screeningNotes(findings, redacted),
+      })
+      return response
+    })
+  }
+
+  /**
+   * Open moderation items, most urgent first, then by due time
+   */
+  async listQueue(filter: ModerationQueueFilter = {}): Promise<QueuedModerationItem[]> {
+    const items = await this.db.reviewModerationItem.findMany({
+      where: {
+        status: filter.status ?? { in: OPEN_ITEM_STATUSES },
+        type: filter.type,
+        assignedTo: filter.assignedTo,
+      },
+    })
+    if (items.length === 0) return []
+
+    const reviewIds = [...new Set(items.map(item => item.reviewId))]
+    const [reviews, responses, flags] = await Promise.all([
+      this.db.patientReview.findMany({ where: { id: { in: reviewIds } } }),
+      this.db.reviewResponse.findMany({ where: { reviewId: { in: reviewIds } } }),
+      this.db.reviewFlag.findMany({ where: { reviewId: { in: reviewIds }, status: 'OPEN' } }),
+    ])
+    const reviewsById = new Map(reviews.map(review => [review.id, review]))
+
+    return items
+      .filter(item => reviewsById.has(item.reviewId))
+      .sort(compareModerationOrder)
+      .map(item => ({
+        ...item,
+        review: reviewsById.get(item.reviewId)!,
+        response: responses.find(response => response.reviewId === item.reviewId) ?? null,
+        openFlags: flags.filter(flag => flag.reviewId === item.reviewId),
+      }))
+  }
+
+  /**
+   * Take a queue item so other moderators leave it alone
+   */
+  async claim(itemId: string, moderatorId: string): Promise<ReviewModerationItem> {
+    const item = await this.getItem(itemId)
+    if (item.status === 'RESOLVED') throw new ReviewError('This item has already been decided', 'CONFLICT')
+    if (item.assignedTo && item.assignedTo !== moderatorId) {
+      throw new ReviewError('Another moderator is handling this item', 'CONFLICT')
+    }
+
+    return this.db.$transaction(async tx => {
+      // Only succeeds if nobody changed the item since it was read
+      const { count } = await tx.reviewModerationItem.updateMany({
+        where: { id: itemId, status: item.status, assignedTo: item.assignedTo },
+        data: { status: 'IN_REVIEW', assignedTo: moderatorId },
+      })
+      if (count === 0) throw new ReviewError('Another moderator is handling this item', 'CONFLICT')
+
+      await this.record(tx, item.reviewId, { action: 'CLAIMED', performedBy: moderatorId, itemId })
+      return tx.reviewModerationItem.findUniqueOrThrow({ where: { id: itemId } })
+    })
+  }
+
+  /**
+   * Approve or reject what a queue item is waiting for: a new or edited review goes live
+   * or is rejected, a flagged review is restored or removed, a doctor's reply is
+   * published or not
+   */
+  async decide(itemId: string, moderatorId: string, input: ModerationDecisionInput): Promise<ReviewModerationItem> {
+    const now = this.now()
+    const approved = input.decision === 'APPROVED'
+    const reason = input.reason?.trim()
+    if (!approved && !reason) throw new ReviewError('A reason is required to reject', 'BAD_REQUEST')
+
+    const item = await this.getItem(itemId)
+    if (item.status === 'RESOLVED') throw new ReviewError('This item has already been decided', 'CONFLICT')
+    if (item.assignedTo && item.assignedTo !== moderatorId) {
+      throw new ReviewError('Another moderator is handling this item', 'CONFLICT')
+    }
+    const review = await this.getReview(item.reviewId)
+
+    return this.db.$transaction(async tx => {
+      const { count } = await tx.reviewModerationItem.updateMany({
+        where: { id: itemId, status: item.status, assignedTo: item.assignedTo },
+        data: { status: 'RESOLVED', assignedTo: moderatorId, decision: input.decision, decidedBy: moderatorId, decidedAt: now },
+      })
+      if (count === 0) throw new ReviewError('Another moderator is handling this item', 'CONFLICT')
+
+      const event = { performedBy: moderatorId, itemId, reason, notes: input.notes }
+      let nextStatus: PatientReviewStatus = review.status
+
+      switch (item.type) {
+        case 'NEW_REVIEW':
+        case 'EDITED_REVIEW':
+          nextStatus = approved ? 'PUBLISHED' : 'REJECTED'
+          await tx.patientReview.update({
+            where: { id: review.id },
+            data: { status: nextStatus, ...(approved && !review.publishedAt && { publishedAt: now }) },
+          })
+          await this.record(tx, review.id, { ...event, action: approved ? 'APPROVED' : 'REJECTED', fromStatus: review.status, toStatus: nextStatus })
+          break
+
+        case 'FLAGGED_REVIEW':
+          // Approving keeps the review; rejecting it upholds the flags
+          nextStatus = approved ? (review.status === 'FLAGGED' ? 'PUBLISHED' : review.status) : 'REMOVED'
+          await tx.reviewFlag.updateMany({
+            where: { reviewId: review.id, status: 'OPEN' },
+            data: { status: approved ? 'DISMISSED' : 'UPHELD', resolvedBy: moderatorId, resolvedAt: now },
+          })
+          await tx.patientReview.update({ where: { id: review.id }, data: { status: nextStatus, flagCount: 0 } })
+          await this.record(tx, review.id, { ...event, action: approved ? 'APPROVED' : 'REJECTED', fromStatus: review.status, toStatus: nextStatus })
+          break
+
+        case 'DOCTOR_RESPONSE':
+          await tx.reviewResponse.updateMany({
+            where: { reviewId: review.id, status: 'PENDING' },
+            data: { status: approved ? 'PUBLISHED' : 'REJECTED', ...(approved && { publishedAt: now }) },
+          })
+          await this.record(tx, review.id, { ...event, action: approved ? 'RESPONSE_APPROVED' : 'RESPONSE_REJECTED' })
+          break
+      }
+
+      if (nextStatus !== review.status && (nextStatus === 'PUBLISHED' || review.status === 'PUBLISHED')) {
+        await this.refreshRatings(tx, review)
+      }
+      return tx.reviewModerationItem.findUniqueOrThrow({ where: { id: itemId } })
+    })
+  }
+
+  /**
+   * Published reviews of a doctor or clinic, newest first, without patient identities
+   */
+  async listPublished(target: ReviewTarget, page = 1, limit = 10): Promise<{ reviews: PublicReview[]; total: number }> {
+    const where = { ...target, status: 'PUBLISHED' as const }
+    const [reviews, total] = await Promise.all([
+      this.db.patientReview.findMany({ where, orderBy: { publishedAt: 'desc' }, skip: (page - 1) * limit, take: limit }),
+      this.db.patientReview.count({ where }),
+    ])
+
+    const reviewIds = reviews.map(review => review.id)
+    const authorIds = reviews.filter(review => !review.isAnonymous).map(review => review.patientId)
+    const [responses, authors] = await Promise.all([
+      this.db.reviewResponse.findMany({ where: { reviewId: { in: reviewIds }, status: 'PUBLISHED' } }),
+      this.db.user.findMany({ where: { id: { in: authorIds } }, select: { id: true, name: true } }),
+    ])
+
+    return {
+      total,
+      reviews: reviews.map(review => {
+        const response = responses.find(candidate => candidate.reviewId === review.id)
+        const author = review.isAnonymous ? null : authors.find(user => user.id === review.patientId)
+        return {
+          id: review.id,
+          ratings: ratingsOf(review),
+          comment: review.comment,
+          authorName: review.isAnonymous ? 'Anonymous patient' : displayName(author?.name),
+          isVerified: true,
+          publishedAt: review.publishedAt,
+          edited: review.editCount > 0,
+          response: response ? { text: response.text, publishedAt: response.publishedAt } : null,
+        }
+      }),
+    }
+  }
+
+  /**
+   * Average rating on every dimension over a doctor's or clinic's published reviews
+   */
+  async summary(target: ReviewTarget): Promise<RatingSummary> {
+    const reviews = await this.db.patientReview.findMany({ where: { ...target, status: 'PUBLISHED' } })
+    return summarizeRatings(reviews)
+  }
+
+  /**
+   * The patient's completed appointments that can still be reviewed
+   */
+  async reviewableAppointments(patientId: string) {
+    const appointments = await this.db.appointment.findMany({
+      where: {
+        patientId,
+        status: 'COMPLETED',
+        appointmentDate: { gte: subDays(this.now(), REVIEW_WINDOW_DAYS) },
+      },
+      select: { id: true, doctorId: true, clinicId: true, serviceId: true, appointmentDate: true },
+      orderBy: { appointmentDate: 'desc' },
+    })
+    const reviewed = await this.db.patientReview.findMany({
+      where: { appointmentId: { in: appointments.map((appointment: { id: string }) => appointment.id) } },
+      select: { appointmentId: true },
+    })
+    const reviewedIds = new Set(reviewed.map(review => review.appointmentId))
+    return appointments.filter((appointment: { id: string }) => !reviewedIds.has(appointment.id))
+  }
+
+  /**
+   * Reviews the patient has written, whatever their status
+   */
+  async listMine(patientId: string): Promise<PatientReview[]> {
+    return this.db.patientReview.findMany({ where: { patientId }, orderBy: { createdAt: 'desc' } })
+  }
+
+  /**
+   * Everything moderators need to judge a review: its flags, earlier versions, the
+   * doctor's reply, queue items and the audit trail, oldest first
+   */
+  async history(reviewId: string) {
+    const review = await this.getReview(reviewId)
+    const [flags, edits, response, items, events] = await Promise.all([
+      this.db.reviewFlag.findMany({ where: { reviewId }, orderBy: { createdAt: 'asc' } }),
+      this.db.reviewEdit.findMany({ where: { reviewId }, orderBy: { createdAt: 'asc' } }),
+      this.db.reviewResponse.findUnique({ where: { reviewId } }),
+      this.db.reviewModerationItem.findMany({ where: { reviewId }, orderBy: { createdAt: 'asc' } }),
+      this.db.reviewModerationEvent.findMany({ where: { reviewId }, orderBy: { createdAt: 'asc' } }),
+    ])
+    return { review, flags, edits, response, items, events }
+  }
+
+  async getReview(reviewId: string): Promise<PatientReview> {
+    const review = await this.db.patientReview.findUnique({ where: { id: reviewId } })
+    if (!review) throw new ReviewError('Review not found', 'NOT_FOUND')
+    return review
+  }
+
+  private async getItem(itemId: string): Promise<ReviewModerationItem> {
+    const item = await this.db.reviewModerationItem.findUnique({ where: { id: itemId } })
+    if (!item) throw new ReviewError('Moderation item not found', 'NOT_FOUND')
+    return item
+  }
+
+  /**
+   * Queue the review for a decision, or make the open item for the same decision more
+   * urgent if there already is one
+   */
+  private async enqueue(
+    tx: Tx,
+    reviewId: string,
+    type: ReviewModerationType,
+    priority: ReviewModerationPriority,
+    now: Date
+  ): Promise<ReviewModerationItem> {
+    const open = await tx.reviewModerationItem.findFirst({
+      where: { reviewId, type: { in: MERGED_ITEM_TYPES[type] }, status: { in: OPEN_ITEM_STATUSES } },
+    })
+    if (!open) {
+      return tx.reviewModerationItem.create({
+        data: { reviewId, type, priority, dueAt: moderationDueAt(priority, now) },
+      })
+    }
+
+    const raised = higherPriority(open.priority, priority)
+    const dueAt = moderationDueAt(raised, now)
+    return tx.reviewModerationItem.update({
+      where: { id: open.id },
+      data: { priority: raised, ...(dueAt < open.dueAt && { dueAt }) },
+    })
+  }
+
+  private async record(
+    tx: Tx,
+    reviewId: string,
+    event: {
+      action: ReviewModerationAction
+      performedBy: string
+      itemId?: string
+      fromStatus?: PatientReviewStatus
+      toStatus?: PatientReviewStatus
+      reason?: string
+      notes?: string
+    }
+  ): Promise<void> {
+    await tx.reviewModerationEvent.create({ data: { reviewId, ...event } })
+  }
+
+  /**
+   * Doctor and clinic ratings count published reviews only
+   */
+  private async refreshRatings(tx: Tx, review: Pick<PatientReview, 'doctorId' | 'clinicId'>): Promise<void> {
+    const [doctor, clinic] = await Promise.all([
+      tx.patientReview.aggregate({ where: { doctorId: review.doctorId, status: 'PUBLISHED' }, _avg: { overallRating: true }, _count: { _all: true } }),
+      tx.patientReview.aggregate({ where: { clinicId: review.clinicId, status: 'PUBLISHED' }, _avg: { overallRating: true }, _count: { _all: true } }),
+    ])
+    await tx.doctor.update({
+      where: { id: review.doctorId },
+      data: { rating: roundRating(doctor._avg.overallRating), reviewCount: doctor._count._all },
+    })
+    await tx.clinic.update({
+      where: { id: review.clinicId },
+      data: { rating: roundRating(clinic._avg.overallRating), reviewCount: clinic._count._all },
+    })
+  }
+}
+
+export function compareModerationOrder(
+  a: Pick<ReviewModerationItem, 'priority' | 'dueAt'>,
+  b: Pick<ReviewModerationItem, 'priority' | 'dueAt'>
+): number {
+  return MODERATION_PRIORITY_RANK[b.priority] - MODERATION_PRIORITY_RANK[a.priority] || a.dueAt.getTime() - b.dueAt.getTime()
+}
+
+// What moderators should know about the text without seeing what was redacted
+function screeningNotes(findings: string[], redacted: PreparedRedaction | null): string | undefined {
+  const notes = [
+    findings.length > 0 && `Screening: ${findings.join(', ')}`,
+    redacted && redacted.findings.length > 0 && `Redacted: ${describeFindings(redacted.findings)}`,
+  ].filter(Boolean)
+  return notes.length > 0 ? notes.join('; ') : undefined
+}
+
+function ratingColumns(ratings: ReviewRatings) {
+  const columns: Record<string, number | null> = { overallRating: ratings.overallRating }
+  for (const dimension of [...DOCTOR_DIMENSIONS, ...CLINIC_DIMENSIONS]) columns[dimension] = ratings[dimension] ?? null
+  return columns as StoredRatings
+}
+
+function roundRating(average: number | null): number {
+  return average === null ? 0 : Math.round(average * 100) / 100
+}
+
+// "Tan Mei Ling" → "Tan M."
+function displayName(name: string | null | undefined): string {
+  const parts = name?.trim().split(/\s+/).filter(Boolean) ?? []
+  if (parts.length === 0) return 'Verified patient'
+  return parts.length === 1 ? parts[0]! : `${parts[0]} ${parts[1]![0]!.toUpperCase()}.`
+}
+
+function responseHistory(value: Prisma.JsonValue): Prisma.JsonArray {
+  return Array.isArray(value) ? value : []
+}
@@ -0,0 +1,239 @@
+import type { PrismaClient } from '@prisma/client'
+import { intervalsOverlap, leaveInterval, type LeaveRecord, type TimeInterval } from '../booking/overlap'
+import { addDaysToKey, atSingaporeTime, dateKeysBetween, fromMinutes, singaporeDateKey } from '../clinic-hours/calendar'
+import { timeToMinutes } from './optimizer'
+import { isScheduledOn } from './service'
+import { MatrixTravelTimeProvider } from './travel-matrix'
+import type { ClinicLocation, TravelTimeProvider } from './travel-time'
+
+/**
+ * Leave Coverage Service - Finds substitutes for a doctor's sessions at a clinic
+ *
+ * Each session the doctor was scheduled for during the leave (for half-day leave, only
+ * those within its hours) is checked against every other doctor affiliated with the
+ * clinic: they must not be on leave or already working then, and must be able to travel
+ * from their previous session and on to their next one within the gaps, using
+ * road-network travel times.
+ */
+
+/** The leave to cover; half-day leave covers its hours on the start date */
+export type CoverageLeave = Omit<LeaveRecord, 'id'>
+
+export interface CoverageSession {
+  date: string // Singapore date, "yyyy-MM-dd"
+  startTime: string
+  endTime: string
+}
+
+export interface SubstituteCandidate {
+  doctorId: string
+  name: string
+  coverableSessions: CoverageSession[]
+  unavailableSessions: (CoverageSession & { reason: 'ON_LEAVE' | 'ALREADY_SCHEDULED' | 'TRAVEL_TIME' })[]
+  travelMinutes: number // Extra travel to cover all coverable sessions
+}
+
+export interface CoverageArrangement {
+  sessions: CoverageSession[]
+  substitutes: SubstituteCandidate[]
+  assignments: (CoverageSession & { doctorId: string })[]
+  uncoveredSessions: CoverageSession[]
+  recommendations: string[]
+}
+
+interface DatedSession extends CoverageSession {
+  doctorId: string
+  clinic: ClinicLocation
+  start: number // Minutes from midnight
+  end: number
+}
+
+const clinicLocationSelect = { id: true, postalCode: true, latitude: true, longitude: true } as const
+
+export class LeaveCoverageService {
+  private readonly travel: TravelTimeProvider
+
+  constructor(private readonly db: PrismaClient, travel?: TravelTimeProvider) {
+    this.travel = travel ?? new MatrixTravelTimeProvider(db)
+  }
+
+  async arrange(doctorId: string, clinicId: string, leave: CoverageLeave): Promise<CoverageArrangement> {
+    const clinic = await this.db.clinic.findUnique({ where: { id: clinicId }, select: clinicLocationSelect })
+    if (!clinic) {
+      return { sessions: [], substitutes: [], assignments: [], uncoveredSessions: [], recommendations: ['Clinic not found'] }
+    }
+
+    const affiliations = await this.db.doctorClinic.findMany({
+      where: { clinicId, verificationStatus: 'VERIFIED', doctorId: { not: doctorId }, doctor: { isActive: true } },
+      select: { doctor: { select: { id: true, name: true } } },
+      orderBy: { doctorId: 'asc' },
+    })
+    const candidateIds = affiliations.map(a => a.doctor.id)
+    const absence = leaveInterval(leave)
+    const fromKey = singaporeDateKey(absence.start)
+    const toKey = singaporeDateKey(new Date(absence.end.getTime() - 1))
+
+    const [scheduled, candidateSessions, leaves] = await Promise.all([
+      this.loadSessions([doctorId], fromKey, toKey, clinicId),
+      this.loadSessions(candidateIds, fromKey, toKey),
+      this.db.doctorLeave.findMany({
+        where: {
+          doctorId: { in: candidateIds },
+          status: 'APPROVED',
+          startDate: { lt: absence.end },
+          endDate: { gte: atSingaporeTime(fromKey) },
+        },
+        select: { doctorId: true, startDate: true, endDate: true, isHalfDay: true, startTime: true, endTime: true },
+      }),
+    ])
+    const sessions = scheduled.filter(session => intervalsOverlap(sessionInterval(session), absence))
+
+    const substitutes: SubstituteCandidate[] = []
+    for (const { doctor } of affiliations) {
+      const candidate: SubstituteCandidate = {
+        doctorId: doctor.id,
+        name: doctor.name,
+        coverableSessions: [],
+        unavailableSessions: [],
+        travelMinutes: 0,
+      }
+      const own = candidateSessions.filter(s => s.doctorId === doctor.id)
+
+      for (const session of sessions) {
+        const onLeave = leaves.some(
+          l => l.doctorId === doctor.id && intervalsOverlap(leaveInterval(l), sessionInterval(session))
+        )
+        if (onLeave) {
+          candidate.unavailableSessions.push({ ...toCoverageSession(session), reason: 'ON_LEAVE' })
+          continue
+        }
+
+        const sameDay = own.filter(s => s.date === session.date)
+        if (sameDay.some(s => s.start < session.end && s.end > session.start)) {
+          candidate.unavailableSessions.push({ ...toCoverageSession(session), reason: 'ALREADY_SCHEDULED' })
+          continue
+        }
+
+        const travel = await this.travelAround(session, clinic, sameDay)
+        if (travel === null) {
+          candidate.unavailableSessions.push({ ...toCoverageSession(session), reason: 'TRAVEL_TIME' })
+          continue
+        }
+
+        candidate.coverableSessions.push(toCoverageSession(session))
+        candidate.travelMinutes += travel
+      }
+
+      substitutes.push(candidate)
+    }
+
+    substitutes.sort(
+      (a, b) =>
+        b.coverableSessions.length - a.coverableSessions.length ||
+        a.travelMinutes - b.travelMinutes ||
+        a.doctorId.localeCompare(b.doctorId)
+    )
+
+    // Each session goes to the best-ranked substitute who can cover it
+    const assignments: CoverageArrangement['assignments'] = []
+    const uncoveredSessions: CoverageSession[] = []
+    for (const session of sessions.map(toCoverageSession)) {
+      const substitute = substitutes.find(s => s.coverableSessions.some(c => sameSession(c, session)))
+      if (substitute) assignments.push({ ...session, doctorId: substitute.doctorId })
+      else uncoveredSessions.push(session)
+    }
+
+    const recommendations: string[] = []
+    if (sessions.length === 0) {
+      recommendations.push('No scheduled sessions at this clinic during the leave period')
+    }
+    if (uncoveredSessions.length > 0) {
+      recommendations.push(
+        `${uncoveredSessions.length} session(s) have no available substitute; consider a locum or rescheduling patients`
+      )
+    }
+    if (substitutes.some(s => s.unavailableSessions.some(u => u.reason === 'TRAVEL_TIME'))) {
+      recommendations.push('Some substitutes cannot reach the clinic in time from their other sessions')
+    }
+
+    return { sessions: sessions.map(toCoverageSession), substitutes, assignments, uncoveredSessions, recommendations }
+  }
+
+  /**
+   * Extra travel a substitute needs to cover a session between their own sessions that
+   * day, or null when a gap is too short for the trip
+   */
+  private async travelAround(session: DatedSession, clinic: ClinicLocation, sameDay: DatedSession[]): Promise<number | null> {
+    const previous = sameDay.filter(s => s.end <= session.start).sort((a, b) => b.end - a.end)[0]
+    const next = sameDay.filter(s => s.start >= session.end).sort((a, b) => a.start - b.start)[0]
+    let total = 0
+
+    if (previous) {
+      const minutes = await this.travel.getTravelMinutes(previous.clinic, clinic, atSingaporeTime(session.date, fromMinutes(previous.end)))
+      if (session.start - previous.end < minutes) return null
+      total += minutes
+    }
+
+    if (next) {
+      const minutes = await this.travel.getTravelMinutes(clinic, next.clinic, atSingaporeTime(session.date, fromMinutes(session.end)))
+      if (next.start - session.end < minutes) return null
+      total += minutes
+    }
+
+    return total
+  }
+
+  private async loadSessions(doctorIds: string[], fromKey: string, toKey: string, clinicId?: string): Promise<DatedSession[]> {
+    if (doctorIds.length === 0) return []
+    const rangeStart = atSingaporeTime(fromKey)
+    const rangeEnd = atSingaporeTime(addDaysToKey(toKey, 1))
+
+    const schedules = await this.db.doctorSchedule.findMany({
+      where: {
+        doctorId: { in: doctorIds },
+        isActive: true,
+        ...(clinicId && { doctorClinic: { clinicId } }),
+        OR: [
+          { specificDate: { gte: rangeStart, lt: rangeEnd } },
+          {
+            isRecurring: true,
+            dayOfWeek: { not: null },
+            effectiveFrom: { lt: rangeEnd },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gte: rangeStart } }],
+          },
+        ],
+      },
+      include: { doctorClinic: { select: { clinic: { select: clinicLocationSelect } } } },
+    })
+
+    const sessions: DatedSession[] = []
+    for (const day of dateKeysBetween(fromKey, toKey)) {
+      for (const schedule of schedules) {
+        if (!isScheduledOn(schedule, day)) continue
+        sessions.push({
+          doctorId: schedule.doctorId,
+          clinic: schedule.doctorClinic.clinic,
+          date: day,
+          startTime: schedule.startTime,
+          endTime: schedule.endTime,
+          start: timeToMinutes(schedule.startTime),
+          end: timeToMinutes(schedule.endTime),
+        })
+      }
+    }
+
+    return sessions.sort((a, b) => a.date.localeCompare(b.date) || a.start - b.start)
+  }
+}
+
+function toCoverageSession(session: CoverageSession): CoverageSession {
+  return { date: session.date, startTime: session.startTime, endTime: session.endTime }
+}
+
+function sameSession(a: CoverageSession, b: CoverageSession): boolean {
+  return a.date === b.date && a.startTime === b.startTime && a.endTime === b.endTime
+}
+
+function sessionInterval(session: CoverageSession): TimeInterval {
+  return { start: atSingaporeTime(session.date, session.startTime), end: atSingaporeTime(session.date, session.endTime) }
+}
@@ -0,0 +1,440 @@
+/**
+ * Deterministic roster optimiser for doctor schedules across clinics
+ *
+ * The week is split into shift templates (morning/afternoon by default). Demand is the
+ * number of doctors each clinic needs per shift. Starting from the current roster with
+ * infeasible shifts removed, a first-improvement local search reassigns one doctor-shift
+ * at a time until no move lowers the weighted cost. Candidates are visited in sorted
+ * order, so the same input always gives the same roster.
+ *
+ * Hard constraints: leave, clinic affiliation, avoided clinics, weekly hours, and for
+ * consecutive shifts on the same day, travel time and the minimum break between them.
+ */
+
+export interface ShiftTemplate {
+  id: string
+  startTime: string // "HH:mm"
+  endTime: string // "HH:mm"
+}
+
+export const DEFAULT_SHIFTS: ShiftTemplate[] = [
+  { id: 'AM', startTime: '09:00', endTime: '13:00' },
+  { id: 'PM', startTime: '14:00', endTime: '18:00' },
+]
+
+export interface OptimizerDoctor {
+  id: string
+  clinicIds: string[]
+  maxWeeklyHours?: number
+}
+
+export interface RosterAssignment {
+  doctorId: string
+  clinicId: string
+  date: string // "yyyy-MM-dd"
+  shiftId: string
+  scheduleId?: string // Current DoctorSchedule the shift comes from
+  recurring?: boolean
+}
+
+export interface DoctorShift {
+  doctorId: string
+  date: string
+  shiftId: string
+}
+
+export interface CoverageDemand {
+  clinicId: string
+  date: string
+  shiftId: string
+  doctors: number
+}
+
+export interface OptimizationWeights {
+  coverage: number
+  travel: number
+  stability: number
+  balance: number
+  preference: number
+}
+
+export interface OptimizationConstraints {
+  maxTravelTime?: number // Minutes between consecutive shifts at different clinics
+  minBreakTime?: number // Minutes of rest left between consecutive shifts after travel
+  preferredClinics?: string[]
+  avoidClinics?: string[]
+  maxWeeklyHours?: number
+}
+
+export interface OptimizationProblem {
+  dates: string[]
+  shifts: ShiftTemplate[]
+  doctors: OptimizerDoctor[]
+  current: RosterAssignment[]
+  demand: CoverageDemand[]
+  unavailable: DoctorShift[]
+  travelMinutes: (fromClinicId: string, toClinicId: string, departure: string) => number // departure "HH:mm"
+  constraints: OptimizationConstraints
+  weights: OptimizationWeights
+  maxPasses?: number
+}
+
+export interface RosterMetrics {
+  score: number
+  coverageRate: number // % of demanded doctor-shifts covered
+  uncovered: number
+  travelMinutes: number
+  changes: number
+  hoursStdDev: number
+  nonPreferredShifts: number
+}
+
+export interface RosterChange {
+  action: 'ADD' | 'REMOVE' | 'MOVE'
+  doctorId: string
+  date: string
+  shiftId: string
+  startTime: string
+  endTime: string
+  fromClinicId?: string
+  toClinicId?: string
+  scheduleId?: string
+  recurring: boolean
+}
+
+export interface OptimizationResult {
+  assignments: RosterAssignment[]
+  changes: RosterChange[]
+  before: RosterMetrics
+  after: RosterMetrics
+  passes: number
+}
+
+export const DEFAULT_WEIGHTS: OptimizationWeights = {
+  coverage: 1,
+  travel: 1,
+  stability: 1,
+  balance: 1,
+  preference: 1,
+}
+
+export type OptimizationPriority = 'efficiency' | 'patient-satisfaction' | 'utilization' | 'distance'
+
+export const PRIORITY_WEIGHTS: Record<OptimizationPriority, OptimizationWeights> = {
+  efficiency: { coverage: 1, travel: 1, stability: 1, balance: 0.5, preference: 0.5 },
+  'patient-satisfaction': { coverage: 2, travel: 0.5, stability: 1.5, balance: 0.5, preference: 1 }, // Continuity of care
+  utilization: { coverage: 1.5, travel: 0.5, stability: 0.5, balance: 2, preference: 0.5 },
+  distance: { coverage: 1, travel: 3, stability: 0.5, balance: 0.5, preference: 1 },
+}
+
+/**
+ * Weights for a priority preset, with explicit objectives (metric = weight key) taking precedence
+ */
+export function resolveWeights(
+  priority: OptimizationPriority,
+  objectives: { metric: string; weight: number }[] = []
+): OptimizationWeights {
+  const weights = { ...(PRIORITY_WEIGHTS[priority] ?? DEFAULT_WEIGHTS) }
+  for (const objective of objectives) {
+    if (objective.metric in weights && objective.weight >= 0) {
+      weights[objective.metric as keyof OptimizationWeights] = objective.weight
+    }
+  }
+  return weights
+}
+
+export const DEFAULT_MIN_BREAK_MINUTES = 30
+export const DEFAULT_MAX_WEEKLY_HOURS = 40
+const DEFAULT_MAX_PASSES = 50
+
+// Relative cost of one unit of each metric before weighting
+const COST_SCALE = {
+  uncovered: 100,
+  travelMinute: 1,
+  change: 10,
+  hoursStdDev: 2,
+  nonPreferred: 5,
+}
+
+type Roster = Map<string, string> // shift key -> clinicId
+
+export function shiftKey(shift: DoctorShift): string {
+  return `${shift.doctorId}|${shift.date}|${shift.shiftId}`
+}
+
+function parseKey(key: string): DoctorShift {
+  const [doctorId, date, shiftId] = key.split('|') as [string, string, string]
+  return { doctorId, date, shiftId }
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function optimizeRoster(problem: OptimizationProblem): OptimizationResult {
+  const context = createContext(problem)
+  const current: Roster = new Map(problem.current.map(a => [shiftKey(a), a.clinicId]))
+
+  // Start from the current roster with infeasible shifts dropped
+  const roster: Roster = new Map()
+  for (const key of [...current.keys()].sort()) {
+    const clinicId = current.get(key)!
+    roster.set(key, clinicId)
+    if (!isFeasibleFor(context, roster, parseKey(key))) {
+      roster.delete(key)
+    }
+  }
+
+  let cost = evaluate(context, roster, current).score
+  let passes = 0
+
+  for (; passes < (problem.maxPasses ?? DEFAULT_MAX_PASSES); passes++) {
+    let improved = false
+
+    for (const slot of context.slots) {
+      const key = shiftKey(slot)
+      const existing = roster.get(key)
+      let bestValue = existing
+      let bestCost = cost
+
+      for (const candidate of [undefined, ...context.clinicsByDoctor.get(slot.doctorId)!]) {
+        if (candidate === existing) continue
+
+        setValue(roster, key, candidate)
+        if (isFeasibleFor(context, roster, slot)) {
+          const candidateCost = evaluate(context, roster, current).score
+          if (candidateCost < bestCost - 1e-9) {
+            bestCost = candidateCost
+            bestValue = candidate
+          }
+        }
+      }
+
+      setValue(roster, key, bestValue)
+      if (bestValue !== existing) {
+        cost = bestCost
+        improved = true
+      }
+    }
+
+    if (!improved) break
+  }
+
+  const currentByKey = new Map(problem.current.map(a => [shiftKey(a), a]))
+  const assignments: RosterAssignment[] = [...roster.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, clinicId]) => {
+    const previous = currentByKey.get(key)
+    return {
+      ...parseKey(key),
+      clinicId,
+      ...(previous?.clinicId === clinicId && { scheduleId: previous.scheduleId, recurring: previous.recurring }),
+    }
+  })
+
+  return {
+    assignments,
+    changes: diffRosters(context, currentByKey, roster),
+    before: evaluate(context, current, current),
+    after: evaluate(context, roster, current),
+    passes,
+  }
+}
+
+interface OptimizerContext {
+  problem: OptimizationProblem
+  shiftsById: Map<string, ShiftTemplate>
+  clinicsByDoctor: Map<string, string[]>
+  unavailable: Set<string>
+  avoid: Set<string>
+  preferred: Set<string>
+  slots: DoctorShift[]
+}
+
+function createContext(problem: OptimizationProblem): OptimizerContext {
+  const avoid = new Set(problem.constraints.avoidClinics ?? [])
+  const doctors = [...problem.doctors].sort((a, b) => a.id.localeCompare(b.id))
+  const shifts = [...problem.shifts].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime))
+  const dates = [...problem.dates].sort()
+
+  return {
+    problem,
+    shiftsById: new Map(shifts.map(shift => [shift.id, shift])),
+    clinicsByDoctor: new Map(doctors.map(d => [d.id, [...d.clinicIds].filter(id => !avoid.has(id)).sort()])),
+    unavailable: new Set(problem.unavailable.map(shiftKey)),
+    avoid,
+    preferred: new Set(problem.constraints.preferredClinics ?? []),
+    slots: doctors.flatMap(doctor =>
+      dates.flatMap(date => shifts.map(shift => ({ doctorId: doctor.id, date, shiftId: shift.id })))
+    ),
+  }
+}
+
+function setValue(roster: Roster, key: string, clinicId: string | undefined) {
+  if (clinicId === undefined) roster.delete(key)
+  else roster.set(key, clinicId)
+}
+
+function shiftHours(shift: ShiftTemplate): number {
+  return (timeToMinutes(shift.endTime) - timeToMinutes(shift.startTime)) / 60
+}
+
+/**
+ * Hard constraints for one doctor after a change to one of their shifts
+ */
+function isFeasibleFor(context: OptimizerContext, roster: Roster, slot: DoctorShift): boolean {
+  const { problem } = context
+  const key = shiftKey(slot)
+  const clinicId = roster.get(key)
+
+  if (clinicId !== undefined) {
+    if (context.unavailable.has(key)) return false
+    if (context.avoid.has(clinicId)) return false
+    if (!context.clinicsByDoctor.get(slot.doctorId)?.includes(clinicId)) return false
+    if (!context.shiftsById.has(slot.shiftId)) return false
+  }
+
+  // Weekly hours
+  const doctor = problem.doctors.find(d => d.id === slot.doctorId)
+  const maxHours = doctor?.maxWeeklyHours ?? problem.constraints.maxWeeklyHours ?? DEFAULT_MAX_WEEKLY_HOURS
+  let hours = 0
+  for (const date of problem.dates) {
+    for (const shift of context.shiftsById.values()) {
+      if (roster.has(shiftKey({ doctorId: slot.doctorId, date, shiftId: shift.id }))) {
+        hours += shiftHours(shift)
+      }
+    }
+  }
+  if (hours > maxHours) return false
+
+  // Travel and breaks between consecutive shifts that day
+  const minBreak = problem.constraints.minBreakTime ?? DEFAULT_MIN_BREAK_MINUTES
+  const day = dayShifts(context, roster, slot.doctorId, slot.date)
+  for (let i = 0; i < day.length - 1; i++) {
+    const current = day[i]!
+    const next = day[i + 1]!
+    const gap = timeToMinutes(next.shift.startTime) - timeToMinutes(current.shift.endTime)
+    const travel = problem.travelMinutes(current.clinicId, next.clinicId, current.shift.endTime)
+
+    if (problem.constraints.maxTravelTime !== undefined && travel > problem.constraints.maxTravelTime) return false
+    if (gap - travel < Math.min(minBreak, gap)) return false
+  }
+
+  return true
+}
+
+function dayShifts(context: OptimizerContext, roster: Roster, doctorId: string, date: string) {
+  const day: { shift: ShiftTemplate; clinicId: string }[] = []
+  for (const shift of context.shiftsById.values()) {
+    const clinicId = roster.get(shiftKey({ doctorId, date, shiftId: shift.id }))
+    if (clinicId !== undefined) day.push({ shift, clinicId })
+  }
+  return day
+}
+
+function evaluate(context: OptimizerContext, roster: Roster, current: Roster): RosterMetrics {
+  const { problem } = context
+
+  // Coverage
+  const covered = new Map<string, number>()
+  for (const [key, clinicId] of roster) {
+    const { date, shiftId } = parseKey(key)
+    const coverageKey = `${clinicId}|${date}|${shiftId}`
+    covered.set(coverageKey, (covered.get(coverageKey) ?? 0) + 1)
+  }
+
+  let demanded = 0
+  let uncovered = 0
+  for (const demand of problem.demand) {
+    demanded += demand.doctors
+    uncovered += Math.max(0, demand.doctors - (covered.get(`${demand.clinicId}|${demand.date}|${demand.shiftId}`) ?? 0))
+  }
+
+  // Travel between consecutive shifts
+  let travelMinutes = 0
+  for (const doctor of problem.doctors) {
+    for (const date of problem.dates) {
+      const day = dayShifts(context, roster, doctor.id, date)
+      for (let i = 0; i < day.length - 1; i++) {
+        travelMinutes += problem.travelMinutes(day[i]!.clinicId, day[i + 1]!.clinicId, day[i]!.shift.endTime)
+      }
+    }
+  }
+
+  // Changes against the current roster
+  let changes = 0
+  for (const key of new Set([...roster.keys(), ...current.keys()])) {
+    if (roster.get(key) !== current.get(key)) changes++
+  }
+
+  // Workload balance
+  const hoursByDoctor = new Map(problem.doctors.map(d => [d.id, 0]))
+  for (const key of roster.keys()) {
+    const { doctorId, shiftId } = parseKey(key)
+    const shift = context.shiftsById.get(shiftId)
+    if (shift) hoursByDoctor.set(doctorId, (hoursByDoctor.get(doctorId) ?? 0) + shiftHours(shift))
+  }
+  const hours = [...hoursByDoctor.values()]
+  const mean = hours.reduce((sum, h) => sum + h, 0) / (hours.length || 1)
+  const hoursStdDev = Math.sqrt(hours.reduce((sum, h) => sum + (h - mean) ** 2, 0) / (hours.length || 1))
+
+  // Preferred clinics
+  let nonPreferredShifts = 0
+  if (context.preferred.size > 0) {
+    for (const clinicId of roster.values()) {
+      if (!context.preferred.has(clinicId)) nonPreferredShifts++
+    }
+  }
+
+  const { weights } = problem
+  const score =
+    weights.coverage * uncovered * COST_SCALE.uncovered +
+    weights.travel * travelMinutes * COST_SCALE.travelMinute +
+    weights.stability * changes * COST_SCALE.change +
+    weights.balance * hoursStdDev * COST_SCALE.hoursStdDev +
+    weights.preference * nonPreferredShifts * COST_SCALE.nonPreferred
+
+  return {
+    score: round(score),
+    coverageRate: demanded > 0 ? round(((demanded - uncovered) / demanded) * 100) : 100,
+    uncovered,
+    travelMinutes,
+    changes,
+    hoursStdDev: round(hoursStdDev),
+    nonPreferredShifts,
+  }
+}
+
+function diffRosters(
+  context: OptimizerContext,
+  current: Map<string, RosterAssignment>,
+  proposed: Roster
+): RosterChange[] {
+  const changes: RosterChange[] = []
+
+  for (const key of [...new Set([...current.keys(), ...proposed.keys()])].sort()) {
+    const before = current.get(key)
+    const after = proposed.get(key)
+    if (before?.clinicId === after) continue
+
+    const slot = parseKey(key)
+    const shift = context.shiftsById.get(slot.shiftId)
+    if (!shift) continue
+
+    changes.push({
+      action: !before ? 'ADD' : after === undefined ? 'REMOVE' : 'MOVE',
+      ...slot,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      fromClinicId: before?.clinicId,
+      toClinicId: after,
+      scheduleId: before?.scheduleId,
+      recurring: before?.recurring ?? false,
+    })
+  }
+
+  return changes
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
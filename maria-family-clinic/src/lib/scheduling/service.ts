@@ -0,0 +1,355 @@
+import type { DayOfWeek, PrismaClient } from '@prisma/client'
+import { addDaysToKey, atSingaporeTime, dayOfWeekForKey, singaporeDateKey } from '../clinic-hours/calendar'
+import {
+  DEFAULT_SHIFTS,
+  optimizeRoster,
+  resolveWeights,
+  shiftKey,
+  timeToMinutes,
+  type CoverageDemand,
+  type DoctorShift,
+  type OptimizationConstraints,
+  type OptimizationPriority,
+  type OptimizationResult,
+  type RosterAssignment,
+  type RosterChange,
+  type ShiftTemplate,
+} from './optimizer'
+import { MatrixTravelTimeProvider } from './travel-matrix'
+import { DEFAULT_TRAVEL_MINUTES, type ClinicLocation, type TravelTimeProvider } from './travel-time'
+
+/**
+ * Schedule Optimization Service - Weekly roster optimisation across clinics
+ *
+ * Loads the current DoctorSchedule roster, approved leave and clinic locations for one
+ * week, runs the optimiser, and turns its changes into `doctorSchedule.upsertSchedule`
+ * payloads that staff review and apply one by one.
+ */
+
+export interface ScheduleOptimizationParams {
+  priority: OptimizationPriority
+  constraints?: OptimizationConstraints
+  objectives?: { metric: string; weight: number; target?: number }[]
+  weekStart?: Date // Singapore date of the first day; defaults to next Monday
+  clinicIds?: string[] // Limit the roster to these clinics
+  shifts?: ShiftTemplate[]
+}
+
+export interface UpsertSchedulePayload {
+  scheduleId?: string
+  doctorId: string
+  clinicId: string
+  date: Date
+  startTime: string
+  endTime: string
+  isRecurring: boolean
+  isActive: boolean
+}
+
+export interface RosterDiffEntry extends RosterChange {
+  scope: 'DATE' | 'RECURRING' // RECURRING changes apply to the same weekday every week
+  applicable: boolean
+  note?: string
+  upsert?: UpsertSchedulePayload
+}
+
+export interface RosterOptimization extends Omit<OptimizationResult, 'changes'> {
+  weekStart: Date
+  shifts: ShiftTemplate[]
+  diff: RosterDiffEntry[]
+}
+
+interface RosterSchedule {
+  id: string
+  doctorId: string
+  clinicId: string
+  dayOfWeek: DayOfWeek | null
+  specificDate: Date | null
+  startTime: string
+  endTime: string
+  isRecurring: boolean
+  effectiveFrom: Date
+  effectiveTo: Date | null
+}
+
+export const DAYS_OF_WEEK: DayOfWeek[] = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY']
+const DAYS_PER_ROSTER = 7
+
+export class ScheduleOptimizationService {
+  private readonly travel: TravelTimeProvider
+
+  constructor(private readonly db: PrismaClient, travel?: TravelTimeProvider) {
+    this.travel = travel ?? new MatrixTravelTimeProvider(db)
+  }
+
+  async optimize(params: ScheduleOptimizationParams): Promise<RosterOptimization> {
+    const weekStartKey = params.weekStart ? singaporeDateKey(params.weekStart) : nextMondayKey(new Date())
+    const weekStart = atSingaporeTime(weekStartKey)
+    const weekEnd = atSingaporeTime(addDaysToKey(weekStartKey, DAYS_PER_ROSTER))
+    const days = Array.from({ length: DAYS_PER_ROSTER }, (_, i) => addDaysToKey(weekStartKey, i))
+    const shifts = params.shifts ?? DEFAULT_SHIFTS
+    const clinicFilter = params.clinicIds?.length ? { clinicId: { in: params.clinicIds } } : {}
+
+    const doctors = await this.db.doctor.findMany({
+      where: { isActive: true, clinics: { some: { verificationStatus: 'VERIFIED', ...clinicFilter } } },
+      select: {
+        id: true,
+        clinics: {
+          where: { verificationStatus: 'VERIFIED', ...clinicFilter },
+          select: { clinicId: true, clinic: { select: { id: true, postalCode: true, latitude: true, longitude: true } } },
+        },
+      },
+      orderBy: { id: 'asc' },
+    })
+    const doctorIds = doctors.map(d => d.id)
+
+    const [schedules, leaves] = await Promise.all([
+      this.db.doctorSchedule.findMany({
+        where: {
+          doctorId: { in: doctorIds },
+          isActive: true,
+          doctorClinic: clinicFilter,
+          OR: [
+            { specificDate: { gte: weekStart, lt: weekEnd } },
+            {
+              isRecurring: true,
+              dayOfWeek: { not: null },
+              effectiveFrom: { lt: weekEnd },
+              OR: [{ effectiveTo: null }, { effectiveTo: { gte: weekStart } }],
+            },
+          ],
+        },
+        include: { doctorClinic: { select: { clinicId: true } } },
+        orderBy: { id: 'asc' },
+      }),
+      this.db.doctorLeave.findMany({
+        where: {
+          doctorId: { in: doctorIds },
+          status: 'APPROVED',
+          startDate: { lt: weekEnd },
+          endDate: { gte: weekStart },
+        },
+      }),
+    ])
+
+    const roster: RosterSchedule[] = schedules.map(schedule => ({
+      ...schedule,
+      clinicId: schedule.doctorClinic.clinicId,
+    }))
+
+    const clinics = new Map<string, ClinicLocation>()
+    for (const doctor of doctors) {
+      for (const affiliation of doctor.clinics) clinics.set(affiliation.clinicId, affiliation.clinic)
+    }
+
+    // The optimiser is synchronous, so look up every clinic pair for each shift change-over up front
+    const travelMatrix = new Map<string, number>()
+    const departures = [...new Set(shifts.slice(0, -1).map(shift => shift.endTime))]
+    for (const from of clinics.values()) {
+      for (const to of clinics.values()) {
+        for (const departure of departures) {
+          const departAt = atSingaporeTime(weekStartKey, departure)
+          travelMatrix.set(`${from.id}|${to.id}|${departure}`, await this.travel.getTravelMinutes(from, to, departAt))
+        }
+      }
+    }
+    const travelMinutes = (from: string, to: string, departure: string) =>
+      travelMatrix.get(`${from}|${to}|${departure}`) ?? (from === to ? 0 : DEFAULT_TRAVEL_MINUTES)
+
+    const { current, shiftsPerSchedule } = mapRosterToShifts(roster, days, shifts)
+    const result = optimizeRoster({
+      dates: days,
+      shifts,
+      doctors: doctors.map(d => ({ id: d.id, clinicIds: d.clinics.map(c => c.clinicId) })),
+      current,
+      demand: currentDemand(current),
+      unavailable: leaveToUnavailable(leaves, days, shifts),
+      travelMinutes,
+      constraints: params.constraints ?? {},
+      weights: resolveWeights(params.priority, params.objectives),
+    })
+
+    const schedulesById = new Map(roster.map(schedule => [schedule.id, schedule]))
+
+    return {
+      weekStart,
+      shifts,
+      assignments: result.assignments,
+      diff: result.changes.map(change => toDiffEntry(change, schedulesById, shiftsPerSchedule)),
+      before: result.before,
+      after: result.after,
+      passes: result.passes,
+    }
+  }
+}
+
+// The Monday after the Singapore date of `now`
+function nextMondayKey(now: Date): string {
+  const today = singaporeDateKey(now)
+  const dayIndex = DAYS_OF_WEEK.indexOf(dayOfWeekForKey(today))
+  return addDaysToKey(today, (8 - dayIndex) % 7 || 7)
+}
+
+/**
+ * Whether a DoctorSchedule applies on a Singapore date ("yyyy-MM-dd")
+ */
+export function isScheduledOn(
+  schedule: Pick<RosterSchedule, 'specificDate' | 'dayOfWeek' | 'effectiveFrom' | 'effectiveTo'>,
+  day: string
+): boolean {
+  if (schedule.specificDate) return singaporeDateKey(schedule.specificDate) === day
+  if (schedule.dayOfWeek !== dayOfWeekForKey(day)) return false
+  if (singaporeDateKey(schedule.effectiveFrom) > day) return false
+  return !schedule.effectiveTo || singaporeDateKey(schedule.effectiveTo) >= day
+}
+
+// A schedule covers a shift when it overlaps at least half of it
+function coversShift(schedule: RosterSchedule, shift: ShiftTemplate): boolean {
+  const overlap =
+    Math.min(timeToMinutes(schedule.endTime), timeToMinutes(shift.endTime)) -
+    Math.max(timeToMinutes(schedule.startTime), timeToMinutes(shift.startTime))
+  return overlap * 2 >= timeToMinutes(shift.endTime) - timeToMinutes(shift.startTime)
+}
+
+/**
+ * Current roster as shift assignments. Date-specific schedules take precedence over
+ * recurring ones for the same doctor and shift.
+ */
+function mapRosterToShifts(roster: RosterSchedule[], days: string[], shifts: ShiftTemplate[]) {
+  const assignments = new Map<string, RosterAssignment>()
+  const shiftsPerSchedule = new Map<string, number>()
+  const ordered = [...roster].sort((a, b) => Number(a.isRecurring) - Number(b.isRecurring))
+
+  for (const schedule of ordered) {
+    for (const day of days) {
+      if (!isScheduledOn(schedule, day)) continue
+
+      for (const shift of shifts) {
+        if (!coversShift(schedule, shift)) continue
+
+        const assignment: RosterAssignment = {
+          doctorId: schedule.doctorId,
+          clinicId: schedule.clinicId,
+          date: day,
+          shiftId: shift.id,
+          scheduleId: schedule.id,
+          recurring: schedule.isRecurring && !schedule.specificDate,
+        }
+        const key = shiftKey(assignment)
+        if (assignments.has(key)) continue
+
+        assignments.set(key, assignment)
+        shiftsPerSchedule.set(schedule.id, (shiftsPerSchedule.get(schedule.id) ?? 0) + 1)
+      }
+    }
+  }
+
+  return { current: [...assignments.values()], shiftsPerSchedule }
+}
+
+/**
+ * Clinics need at least the staffing the current roster plans for them, including
+ * doctors who have since gone on leave
+ */
+function currentDemand(current: RosterAssignment[]): CoverageDemand[] {
+  const demand = new Map<string, CoverageDemand>()
+  for (const assignment of current) {
+    const key = `${assignment.clinicId}|${assignment.date}|${assignment.shiftId}`
+    const entry = demand.get(key) ?? { clinicId: assignment.clinicId, date: assignment.date, shiftId: assignment.shiftId, doctors: 0 }
+    entry.doctors++
+    demand.set(key, entry)
+  }
+  return [...demand.values()]
+}
+
+function leaveToUnavailable(
+  leaves: { doctorId: string; startDate: Date; endDate: Date; isHalfDay: boolean; startTime: string | null; endTime: string | null }[],
+  days: string[],
+  shifts: ShiftTemplate[]
+): DoctorShift[] {
+  const unavailable: DoctorShift[] = []
+
+  for (const leave of leaves) {
+    for (const day of days) {
+      if (day < singaporeDateKey(leave.startDate) || day > singaporeDateKey(leave.endDate)) continue
+
+      for (const shift of shifts) {
+        const partial = leave.isHalfDay && leave.startTime && leave.endTime
+        const overlaps =
+          !partial ||
+          (timeToMinutes(leave.startTime!) < timeToMinutes(shift.endTime) &&
+            timeToMinutes(leave.endTime!) > timeToMinutes(shift.startTime))
+
+        if (overlaps) unavailable.push({ doctorId: leave.doctorId, date: day, shiftId: shift.id })
+      }
+    }
+  }
+
+  return unavailable
+}
+
+function toDiffEntry(
+  change: RosterChange,
+  schedules: Map<string, RosterSchedule>,
+  shiftsPerSchedule: Map<string, number>
+): RosterDiffEntry {
+  const source = change.scheduleId ? schedules.get(change.scheduleId) : undefined
+  const date = atSingaporeTime(change.date)
+
+  if (change.action === 'ADD' || !source) {
+    return {
+      ...change,
+      scope: 'DATE',
+      applicable: true,
+      upsert: {
+        doctorId: change.doctorId,
+        clinicId: change.toClinicId!,
+        date,
+        startTime: change.startTime,
+        endTime: change.endTime,
+        isRecurring: false,
+        isActive: true,
+      },
+    }
+  }
+
+  const scope = change.recurring ? 'RECURRING' : 'DATE'
+  const spannedShifts = shiftsPerSchedule.get(source.id) ?? 0
+
+  // Editing a schedule that also covers other shifts would change those too
+  if (spannedShifts > 1) {
+    return {
+      ...change,
+      scope,
+      applicable: false,
+      note: `Schedule ${source.id} spans ${spannedShifts} shifts; split it before applying this change`,
+    }
+  }
+
+  // Deactivating a weekly schedule would drop the shift from every week, not just this one
+  if (change.action === 'REMOVE' && scope === 'RECURRING') {
+    return {
+      ...change,
+      scope,
+      applicable: false,
+      note: `Schedule ${source.id} repeats every ${dayOfWeekForKey(change.date).toLowerCase()}; record leave for ${change.date} instead`,
+    }
+  }
+
+  return {
+    ...change,
+    scope,
+    applicable: true,
+    note: scope === 'RECURRING' ? `Applies to every ${dayOfWeekForKey(change.date).toLowerCase()}` : undefined,
+    upsert: {
+      scheduleId: source.id,
+      doctorId: change.doctorId,
+      clinicId: change.action === 'MOVE' ? change.toClinicId! : source.clinicId,
+      date,
+      startTime: source.startTime,
+      endTime: source.endTime,
+      isRecurring: source.isRecurring,
+      isActive: change.action !== 'REMOVE',
+    },
+  }
+}
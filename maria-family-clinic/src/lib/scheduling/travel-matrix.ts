@@ -0,0 +1,230 @@
+import type { PrismaClient, TravelTimeBand } from '@prisma/client'
+import {
+  HaversineTravelTimeProvider,
+  travelTimeBand,
+  type ClinicLocation,
+  type TravelTimeProvider,
+} from './travel-time'
+
+/**
+ * Road-network travel matrix between clinics
+ *
+ * Matrices come from an OSRM-style routing engine, one per time-of-day band, and are
+ * imported with `npm run db:import-travel-matrix`. Two formats are accepted:
+ *
+ * - JSON: an OSRM `table` response (`durations` in seconds, optional `distances` in
+ *   metres) plus `clinicIds`, or `sourceIds`/`destinationIds`, naming the rows/columns
+ * - CSV: a header row with `from,to,duration` (seconds) and optional `distance`
+ *   (metres) and `band` columns
+ */
+
+export interface TravelMatrixEntry {
+  fromClinicId: string
+  toClinicId: string
+  timeBand: TravelTimeBand
+  durationMinutes: number
+  distanceKm?: number
+}
+
+export interface TravelMatrixImportResult {
+  imported: number
+  skipped: number
+  unknownClinicIds: string[]
+}
+
+export class TravelMatrixImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TravelMatrixImportError'
+  }
+}
+
+export const TRAVEL_TIME_BANDS: TravelTimeBand[] = ['MORNING_PEAK', 'MIDDAY', 'EVENING_PEAK', 'OFF_PEAK']
+
+interface OsrmTable {
+  durations?: (number | null)[][]
+  distances?: (number | null)[][]
+  clinicIds?: string[]
+  sourceIds?: string[]
+  destinationIds?: string[]
+}
+
+/**
+ * Parse an OSRM table response. Unroutable pairs (null) and clinic-to-self pairs are dropped.
+ */
+export function parseOsrmTable(json: string, timeBand: TravelTimeBand): TravelMatrixEntry[] {
+  let table: OsrmTable
+  try {
+    table = JSON.parse(json)
+  } catch {
+    throw new TravelMatrixImportError('Matrix file is not valid JSON')
+  }
+
+  const sources = table.sourceIds ?? table.clinicIds
+  const destinations = table.destinationIds ?? table.clinicIds
+  if (!Array.isArray(table.durations) || !sources || !destinations) {
+    throw new TravelMatrixImportError('JSON matrix needs "durations" and "clinicIds" (or "sourceIds" and "destinationIds")')
+  }
+  if (table.durations.length !== sources.length || table.durations.some(row => row.length !== destinations.length)) {
+    throw new TravelMatrixImportError('Matrix dimensions do not match the clinic id lists')
+  }
+
+  const entries: TravelMatrixEntry[] = []
+  table.durations.forEach((row, i) => {
+    row.forEach((seconds, j) => {
+      const entry = toEntry(sources[i]!, destinations[j]!, timeBand, seconds, table.distances?.[i]?.[j])
+      if (entry) entries.push(entry)
+    })
+  })
+
+  return entries
+}
+
+/**
+ * Parse a CSV matrix. Rows without a band column use `defaultBand`.
+ */
+export function parseTravelMatrixCsv(csv: string, defaultBand?: TravelTimeBand): TravelMatrixEntry[] {
+  const [header, ...rows] = csv.split(/\r?\n/).filter(line => line.trim().length > 0)
+  if (!header) throw new TravelMatrixImportError('CSV matrix is empty')
+
+  const columns = header.split(',').map(column => column.trim().toLowerCase())
+  const column = (name: string) => columns.indexOf(name)
+  const [from, to, duration, distance, band] = ['from', 'to', 'duration', 'distance', 'band'].map(column) as [
+    number, number, number, number, number,
+  ]
+
+  if (from === -1 || to === -1 || duration === -1) {
+    throw new TravelMatrixImportError('CSV matrix needs "from", "to" and "duration" columns')
+  }
+  if (band === -1 && !defaultBand) {
+    throw new TravelMatrixImportError('CSV matrix has no "band" column; pass a time band')
+  }
+
+  const entries: TravelMatrixEntry[] = []
+  rows.forEach((row, index) => {
+    const cells = row.split(',').map(cell => cell.trim())
+    const timeBand = (band === -1 ? defaultBand : cells[band]?.toUpperCase()) as TravelTimeBand
+    if (!TRAVEL_TIME_BANDS.includes(timeBand)) {
+      throw new TravelMatrixImportError(`Invalid time band "${cells[band]}" on line ${index + 2}`)
+    }
+
+    const entry = toEntry(
+      cells[from]!,
+      cells[to]!,
+      timeBand,
+      parseNumber(cells[duration]),
+      distance === -1 ? undefined : parseNumber(cells[distance])
+    )
+    if (entry) entries.push(entry)
+  })
+
+  return entries
+}
+
+/**
+ * Upsert matrix entries, skipping pairs that reference unknown clinics
+ */
+export async function importTravelMatrix(
+  db: PrismaClient,
+  entries: TravelMatrixEntry[],
+  source = 'OSRM'
+): Promise<TravelMatrixImportResult> {
+  const clinicIds = [...new Set(entries.flatMap(e => [e.fromClinicId, e.toClinicId]))]
+  const known = new Set(
+    (await db.clinic.findMany({ where: { id: { in: clinicIds } }, select: { id: true } })).map(c => c.id)
+  )
+  const valid = entries.filter(e => known.has(e.fromClinicId) && known.has(e.toClinicId))
+
+  const BATCH_SIZE = 500
+  for (let i = 0; i < valid.length; i += BATCH_SIZE) {
+    await db.$transaction(
+      valid.slice(i, i + BATCH_SIZE).map(entry =>
+        db.clinicTravelTime.upsert({
+          where: {
+            fromClinicId_toClinicId_timeBand: {
+              fromClinicId: entry.fromClinicId,
+              toClinicId: entry.toClinicId,
+              timeBand: entry.timeBand,
+            },
+          },
+          create: { ...entry, source },
+          update: {
+            durationMinutes: entry.durationMinutes,
+            distanceKm: entry.distanceKm ?? null,
+            source,
+            importedAt: new Date(),
+          },
+        })
+      )
+    )
+  }
+
+  return {
+    imported: valid.length,
+    skipped: entries.length - valid.length,
+    unknownClinicIds: clinicIds.filter(id => !known.has(id)),
+  }
+}
+
+/**
+ * Travel times from the imported road-network matrix, falling back to the haversine
+ * estimate for pairs the matrix does not cover. Rows are loaded per origin clinic and
+ * band, and cached for the provider's lifetime (one request).
+ */
+export class MatrixTravelTimeProvider implements TravelTimeProvider {
+  private readonly cache = new Map<string, Promise<Map<string, number>>>()
+
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly fallback: TravelTimeProvider = new HaversineTravelTimeProvider()
+  ) {}
+
+  async getTravelMinutes(from: ClinicLocation, to: ClinicLocation, departAt = new Date()): Promise<number> {
+    if (from.id === to.id) return 0
+
+    const band = travelTimeBand(departAt)
+    const minutes = (await this.loadOrigin(from.id, band)).get(to.id)
+    return minutes ?? this.fallback.getTravelMinutes(from, to, departAt)
+  }
+
+  private loadOrigin(fromClinicId: string, timeBand: TravelTimeBand): Promise<Map<string, number>> {
+    const key = `${fromClinicId}|${timeBand}`
+    if (!this.cache.has(key)) {
+      const loading = this.db.clinicTravelTime
+        .findMany({
+          where: { fromClinicId, timeBand },
+          select: { toClinicId: true, durationMinutes: true },
+        })
+        .then(rows => new Map(rows.map(row => [row.toClinicId, row.durationMinutes])))
+      // A failed lookup is retried by the next caller rather than cached
+      loading.catch(() => this.cache.delete(key))
+      this.cache.set(key, loading)
+    }
+    return this.cache.get(key)!
+  }
+}
+
+function toEntry(
+  fromClinicId: string,
+  toClinicId: string,
+  timeBand: TravelTimeBand,
+  seconds: number | null | undefined,
+  meters: number | null | undefined
+): TravelMatrixEntry | null {
+  if (!fromClinicId || !toClinicId || fromClinicId === toClinicId) return null
+  if (seconds === null || seconds === undefined || !Number.isFinite(seconds) || seconds < 0) return null
+
+  return {
+    fromClinicId,
+    toClinicId,
+    timeBand,
+    durationMinutes: Math.round((seconds / 60) * 10) / 10,
+    ...(typeof meters === 'number' && Number.isFinite(meters) && { distanceKm: Math.round(meters / 100) / 10 }),
+  }
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
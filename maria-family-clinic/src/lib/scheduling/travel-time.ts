@@ -0,0 +1,92 @@
+import type { TravelTimeBand } from '@prisma/client'
+import { singaporeMinutes } from '../clinic-hours/calendar'
+
+/**
+ * Travel time estimates between clinics, shared by conflict detection, travel-time
+ * checks, leave coverage and the schedule optimiser
+ *
+ * A `TravelTimeProvider` answers "how long from clinic A to clinic B when leaving at
+ * this time". The road-network provider (travel-matrix.ts) reads an imported matrix per
+ * time-of-day band; the haversine provider here is its fallback for missing pairs.
+ */
+
+export interface ClinicLocation {
+  id: string
+  postalCode?: string | null
+  latitude?: number | null
+  longitude?: number | null
+}
+
+export interface TravelTimeProvider {
+  /**
+   * Minutes to travel from one clinic to another, leaving at `departAt` (defaults to now)
+   */
+  getTravelMinutes(from: ClinicLocation, to: ClinicLocation, departAt?: Date): Promise<number>
+}
+
+export const DEFAULT_TRAVEL_MINUTES = 30
+
+// Straight-line distance understates road distance; average urban driving speed incl. parking
+const ROAD_DETOUR_FACTOR = 1.4
+const AVERAGE_SPEED_KMH = 30
+const MIN_TRAVEL_MINUTES = 10
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Singapore time-of-day band used to pick a row from the travel matrix
+ */
+export function travelTimeBand(departAt: Date): TravelTimeBand {
+  const hour = Math.floor(singaporeMinutes(departAt) / 60)
+  if (hour >= 7 && hour < 10) return 'MORNING_PEAK'
+  if (hour >= 10 && hour < 17) return 'MIDDAY'
+  if (hour >= 17 && hour < 20) return 'EVENING_PEAK'
+  return 'OFF_PEAK'
+}
+
+export function haversineKm(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Estimated minutes to travel between two clinics without road data. Uses the haversine
+ * distance when both clinics have coordinates, otherwise the postal sector (first two
+ * digits of the postal code) as a rough proxy for distance.
+ */
+export function estimateTravelMinutes(fromClinic?: ClinicLocation | null, toClinic?: ClinicLocation | null): number {
+  if (fromClinic && toClinic && fromClinic.id === toClinic.id) {
+    return 0
+  }
+
+  if (hasCoordinates(fromClinic) && hasCoordinates(toClinic)) {
+    const roadKm = haversineKm(fromClinic, toClinic) * ROAD_DETOUR_FACTOR
+    return Math.max(MIN_TRAVEL_MINUTES, Math.round((roadKm / AVERAGE_SPEED_KMH) * 60))
+  }
+
+  if (!fromClinic?.postalCode || !toClinic?.postalCode) {
+    return DEFAULT_TRAVEL_MINUTES
+  }
+
+  const fromCode = parseInt(fromClinic.postalCode.slice(0, 2))
+  const toCode = parseInt(toClinic.postalCode.slice(0, 2))
+  const distance = Math.abs(fromCode - toCode)
+
+  // Rough estimate: 5 minutes per postal sector difference
+  return Math.max(15, distance * 5)
+}
+
+export class HaversineTravelTimeProvider implements TravelTimeProvider {
+  async getTravelMinutes(from: ClinicLocation, to: ClinicLocation): Promise<number> {
+    return estimateTravelMinutes(from, to)
+  }
+}
+
+function hasCoordinates(clinic?: ClinicLocation | null): clinic is ClinicLocation & { latitude: number; longitude: number } {
+  return typeof clinic?.latitude === 'number' && typeof clinic?.longitude === 'number'
+}
@@ -0,0 +1,341 @@
+import { allowedEdits, editDistance, normalizeText } from '@/lib/service-search/text'
+
+/**
+ * Search Log Mining - Failed queries and the synonyms they suggest
+ *
+ * A query fails when most of its searches return nothing, or when it is searched often
+ * but its results are rarely clicked. Failed queries are clustered by edit distance
+ * ("diabetis test", "diabetes tset"), then each cluster collects votes for the services
+ * people actually wanted:
+ * - clicks on the failed search itself (low-click queries do get some)
+ * - reformulation clicks: clicks on a later search in the same session, shortly after
+ * - clicks on successful queries within edit distance of the cluster, at half weight
+ * When one service has a clear majority of the votes the cluster's query is proposed as
+ * its synonym; when the votes are split across one category's services it is proposed
+ * as a category synonym.
+ */
+
+export interface SearchEvent {
+  query: string
+  sessionId: string | null
+  at: Date
+  resultsCount: number
+  clickedIds: string[]
+  language: string | null
+}
+
+export interface QueryStats {
+  query: string // Normalised
+  display: string // Most common spelling as typed
+  language: string
+  searches: number
+  zeroResults: number
+  clickedSearches: number
+  firstSeen: Date
+  lastSeen: Date
+}
+
+export interface SynonymProposal {
+  term: string
+  normalizedTerm: string
+  language: string
+  targetType: 'SERVICE' | 'CATEGORY'
+  targetId: string
+  confidence: number
+  searchCount: number
+  zeroResultCount: number
+  firstSeenAt: Date
+  lastSeenAt: Date
+  evidence: {
+    queries: { query: string; searches: number; zeroResults: number }[]
+    votes: { targetId: string; weight: number }[]
+  }
+}
+
+export interface FailedQueryReport {
+  language: string
+  searches: number
+  failedSearches: number
+  topFailedQueries: {
+    query: string
+    searches: number
+    zeroResults: number
+    clickThroughRate: number
+  }[]
+}
+
+export interface MiningOptions {
+  serviceCategories: Map<string, string> // serviceId → categoryId; clicks on anything else are ignored
+  minSupport?: number // Minimum vote weight behind a proposal
+  minShare?: number // Share of the votes the target must have
+  reformulationWindowMs?: number
+}
+
+const ZERO_RESULT_RATE = 0.5
+const LOW_CLICK_MIN_SEARCHES = 5
+const LOW_CLICK_RATE = 0.1
+const NEIGHBOUR_VOTE_WEIGHT = 0.5
+const DEFAULT_MIN_SUPPORT = 3
+const DEFAULT_MIN_SHARE = 0.6
+const DEFAULT_REFORMULATION_WINDOW_MS = 10 * 60 * 1000
+
+const MALAY_WORDS = new Set([
+  'ujian', 'saringan', 'klinik', 'doktor', 'darah', 'kencing', 'manis', 'suntikan', 'sakit', 'gigi',
+  'mata', 'demam', 'batuk', 'vaksin', 'pemeriksaan', 'kesihatan', 'jantung', 'kanak', 'ibu', 'hamil',
+])
+
+export function normalizeQuery(query: string): string {
+  return normalizeText(query).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Language of a query from its script, with a small Malay word list to tell Malay
+ * from English
+ */
+export function detectQueryLanguage(query: string): string {
+  if (/\p{Script=Han}/u.test(query)) return 'zh'
+  if (/\p{Script=Tamil}/u.test(query)) return 'ta'
+  const words = normalizeQuery(query).split(' ')
+  return words.some(word => MALAY_WORDS.has(word)) ? 'ms' : 'en'
+}
+
+export function aggregateQueries(events: SearchEvent[]): Map<string, QueryStats> {
+  const stats = new Map<string, QueryStats>()
+  const spellings = new Map<string, Map<string, number>>()
+  const languages = new Map<string, Map<string, number>>()
+
+  for (const event of events) {
+    const query = normalizeQuery(event.query)
+    if (!query) continue
+    const entry = stats.get(query) ?? {
+      query,
+      display: event.query.trim(),
+      language: 'en',
+      searches: 0,
+      zeroResults: 0,
+      clickedSearches: 0,
+      firstSeen: event.at,
+      lastSeen: event.at,
+    }
+    entry.searches++
+    if (event.resultsCount === 0) entry.zeroResults++
+    if (event.clickedIds.length > 0) entry.clickedSearches++
+    if (event.at < entry.firstSeen) entry.firstSeen = event.at
+    if (event.at > entry.lastSeen) entry.lastSeen = event.at
+    stats.set(query, entry)
+
+    increment(spellings, query, event.query.trim())
+    increment(languages, query, event.language ?? detectQueryLanguage(event.query))
+  }
+
+  for (const entry of stats.values()) {
+    entry.display = mostCommon(spellings.get(entry.query)!) ?? entry.display
+    entry.language = mostCommon(languages.get(entry.query)!) ?? entry.language
+  }
+  return stats
+}
+
+export function isFailedQuery(stats: QueryStats): boolean {
+  if (stats.zeroResults / stats.searches >= ZERO_RESULT_RATE) return true
+  return stats.searches >= LOW_CLICK_MIN_SEARCHES && stats.clickedSearches / stats.searches < LOW_CLICK_RATE
+}
+
+/**
+ * Groups of queries linked by edit distance (transitively)
+ */
+export function clusterQueries(queries: string[]): string[][] {
+  const parent = queries.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!
+      i = parent[i]!
+    }
+    return i
+  }
+
+  for (let i = 0; i < queries.length; i++) {
+    for (let j = i + 1; j < queries.length; j++) {
+      if (areVariants(queries[i]!, queries[j]!)) parent[find(i)] = find(j)
+    }
+  }
+
+  const clusters = new Map<number, string[]>()
+  queries.forEach((query, i) => {
+    const root = find(i)
+    clusters.set(root, [...(clusters.get(root) ?? []), query])
+  })
+  return [...clusters.values()]
+}
+
+export function proposeSynonyms(events: SearchEvent[], options: MiningOptions): SynonymProposal[] {
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT
+  const minShare = options.minShare ?? DEFAULT_MIN_SHARE
+  const stats = aggregateQueries(events)
+  const failed = [...stats.values()].filter(isFailedQuery)
+  const successful = [...stats.values()].filter(entry => !isFailedQuery(entry))
+  const directVotes = clickVotes(events, options.serviceCategories)
+  const reformulations = reformulationVotes(events, options)
+
+  const proposals: SynonymProposal[] = []
+  for (const cluster of clusterQueries(failed.map(entry => entry.query))) {
+    const votes = new Map<string, number>()
+    for (const query of cluster) {
+      addVotes(votes, directVotes.get(query), 1)
+      addVotes(votes, reformulations.get(query), 1)
+    }
+    for (const neighbour of successful) {
+      if (cluster.some(query => areVariants(query, neighbour.query))) {
+        addVotes(votes, directVotes.get(neighbour.query), NEIGHBOUR_VOTE_WEIGHT)
+      }
+    }
+
+    const total = sum(votes.values())
+    if (total < minSupport) continue
+
+    const members = cluster.map(query => stats.get(query)!).sort((a, b) => b.searches - a.searches)
+    const target = pickTarget(votes, total, minShare, options.serviceCategories)
+    if (!target) continue
+
+    const canonical = members[0]!
+    proposals.push({
+      term: canonical.display,
+      normalizedTerm: canonical.query,
+      language: canonical.language,
+      targetType: target.type,
+      targetId: target.id,
+      confidence: round(target.share * Math.min(1, target.weight / (2 * minSupport))),
+      searchCount: sum(members.map(member => member.searches)),
+      zeroResultCount: sum(members.map(member => member.zeroResults)),
+      firstSeenAt: new Date(Math.min(...members.map(member => member.firstSeen.getTime()))),
+      lastSeenAt: new Date(Math.max(...members.map(member => member.lastSeen.getTime()))),
+      evidence: {
+        queries: members.map(member => ({ query: member.display, searches: member.searches, zeroResults: member.zeroResults })),
+        votes: [...votes]
+          .map(([targetId, weight]) => ({ targetId, weight: round(weight) }))
+          .sort((a, b) => b.weight - a.weight),
+      },
+    })
+  }
+
+  return proposals.sort((a, b) => b.confidence - a.confidence || b.searchCount - a.searchCount)
+}
+
+/**
+ * Per language: search volume and the most searched failed queries
+ */
+export function failedQueryReport(events: SearchEvent[], limit = 20): FailedQueryReport[] {
+  const reports = new Map<string, FailedQueryReport>()
+  for (const entry of aggregateQueries(events).values()) {
+    const report = reports.get(entry.language) ?? { language: entry.language, searches: 0, failedSearches: 0, topFailedQueries: [] }
+    report.searches += entry.searches
+    if (isFailedQuery(entry)) {
+      report.failedSearches += entry.searches
+      report.topFailedQueries.push({
+        query: entry.display,
+        searches: entry.searches,
+        zeroResults: entry.zeroResults,
+        clickThroughRate: round(entry.clickedSearches / entry.searches),
+      })
+    }
+    reports.set(entry.language, report)
+  }
+
+  return [...reports.values()]
+    .map(report => ({
+      ...report,
+      topFailedQueries: report.topFailedQueries.sort((a, b) => b.searches - a.searches || a.query.localeCompare(b.query)).slice(0, limit),
+    }))
+    .sort((a, b) => b.searches - a.searches)
+}
+
+function areVariants(a: string, b: string): boolean {
+  const maxEdits = Math.min(allowedEdits(a.replace(/ /g, '')), allowedEdits(b.replace(/ /g, '')))
+  return editDistance(a, b, maxEdits) <= maxEdits
+}
+
+// Clicks on services from each query's own searches
+function clickVotes(events: SearchEvent[], serviceCategories: Map<string, string>): Map<string, Map<string, number>> {
+  const votes = new Map<string, Map<string, number>>()
+  for (const event of events) {
+    const services = event.clickedIds.filter(id => serviceCategories.has(id))
+    if (services.length === 0) continue
+    const query = normalizeQuery(event.query)
+    for (const id of services) increment(votes, query, id, 1 / services.length)
+  }
+  return votes
+}
+
+// Clicks on the next searches in the same session, within the window, credited to the failed search
+function reformulationVotes(events: SearchEvent[], options: MiningOptions): Map<string, Map<string, number>> {
+  const windowMs = options.reformulationWindowMs ?? DEFAULT_REFORMULATION_WINDOW_MS
+  const sessions = new Map<string, SearchEvent[]>()
+  for (const event of events) {
+    if (!event.sessionId) continue
+    sessions.set(event.sessionId, [...(sessions.get(event.sessionId) ?? []), event])
+  }
+
+  const votes = new Map<string, Map<string, number>>()
+  for (const session of sessions.values()) {
+    session.sort((a, b) => a.at.getTime() - b.at.getTime())
+    session.forEach((event, index) => {
+      if (event.resultsCount > 0 && event.clickedIds.length > 0) return
+      const query = normalizeQuery(event.query)
+      for (const later of session.slice(index + 1)) {
+        if (later.at.getTime() - event.at.getTime() > windowMs) break
+        if (normalizeQuery(later.query) === query) continue
+        const services = later.clickedIds.filter(id => options.serviceCategories.has(id))
+        if (services.length === 0) continue
+        for (const id of services) increment(votes, query, id, 1 / services.length)
+        break // Credit only the reformulation that worked
+      }
+    })
+  }
+  return votes
+}
+
+function pickTarget(
+  votes: Map<string, number>,
+  total: number,
+  minShare: number,
+  serviceCategories: Map<string, string>
+): { type: 'SERVICE' | 'CATEGORY'; id: string; share: number; weight: number } | null {
+  const [service, serviceWeight] = [...votes].sort((a, b) => b[1] - a[1])[0]!
+  if (serviceWeight / total >= minShare) {
+    return { type: 'SERVICE', id: service, share: serviceWeight / total, weight: serviceWeight }
+  }
+
+  const categories = new Map<string, number>()
+  for (const [serviceId, weight] of votes) {
+    const categoryId = serviceCategories.get(serviceId)!
+    categories.set(categoryId, (categories.get(categoryId) ?? 0) + weight)
+  }
+  const [category, categoryWeight] = [...categories].sort((a, b) => b[1] - a[1])[0]!
+  if (categoryWeight / total >= minShare) {
+    return { type: 'CATEGORY', id: category, share: categoryWeight / total, weight: categoryWeight }
+  }
+  return null
+}
+
+function addVotes(into: Map<string, number>, from: Map<string, number> | undefined, weight: number) {
+  for (const [id, votes] of from ?? []) into.set(id, (into.get(id) ?? 0) + votes * weight)
+}
+
+function increment(counts: Map<string, Map<string, number>>, key: string, value: string, by = 1) {
+  const inner = counts.get(key) ?? new Map<string, number>()
+  inner.set(value, (inner.get(value) ?? 0) + by)
+  counts.set(key, inner)
+}
+
+function mostCommon(counts: Map<string, number>): string | undefined {
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0]
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0
+  for (const value of values) total += value
+  return total
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
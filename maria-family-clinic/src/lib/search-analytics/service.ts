@@ -0,0 +1,332 @@
+import type { Prisma, PrismaClient, SynonymSuggestion, SynonymSuggestionStatus, SynonymType } from '@prisma/client'
+import { invalidateServiceSearch } from '@/lib/service-search/service'
+import {
+  failedQueryReport,
+  normalizeQuery,
+  proposeSynonyms,
+  type FailedQueryReport,
+  type SearchEvent,
+} from './mining'
+
+/**
+ * Search Analytics Service - Failed-search reports and the synonym review queue
+ *
+ * Reads SearchLog and CrossSystemSearchLog, mines failed queries into SynonymSuggestion
+ * rows, and lets staff approve them into ServiceSynonym/CategorySynonym (which the
+ * service search index picks up) or reject them. Rejected suggestions are not proposed
+ * again; pending ones are refreshed with new evidence on every run.
+ */
+
+export interface SynonymMiningResult {
+  searches: number
+  proposals: number
+  created: number
+  updated: number
+  skipped: number // Already a synonym, or already reviewed
+}
+
+export interface SearchLogInput {
+  userId?: string
+  sessionId: string
+  query: string
+  filters: Prisma.InputJsonValue
+  resultsCount: number
+  responseTimeMs: number
+  language?: string
+}
+
+export interface ApproveSuggestionInput {
+  suggestionId: string
+  reviewerId: string
+  term?: string // Staff may tidy the spelling
+  language?: string
+  termType?: SynonymType
+  note?: string
+}
+
+export class SearchAnalyticsError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'BAD_REQUEST' | 'CONFLICT'
+  ) {
+    super(message)
+    this.name = 'SearchAnalyticsError'
+  }
+}
+
+const MAX_LOG_ROWS = 50_000
+const SEARCH_LOG_WINDOW_MS = 30 * 60 * 1000 // Repeats of a search within this window log once
+
+export class SearchAnalyticsService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Log a search once per session, query and window. Refetches and later pages of the
+   * same search return the existing log, so each search counts once in the analytics.
+   */
+  async logSearch(input: SearchLogInput, now = new Date()): Promise<string> {
+    const existing = await this.db.searchLog.findFirst({
+      where: {
+        sessionId: input.sessionId,
+        searchQuery: input.query,
+        timestamp: { gte: new Date(now.getTime() - SEARCH_LOG_WINDOW_MS) },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { id: true },
+    })
+    if (existing) return existing.id
+
+    const log = await this.db.searchLog.create({
+      data: {
+        userId: input.userId,
+        sessionId: input.sessionId,
+        searchQuery: input.query,
+        searchFilters: input.filters,
+        resultsCount: input.resultsCount,
+        responseTimeMs: input.responseTimeMs,
+        language: input.language,
+        timestamp: now,
+      },
+      select: { id: true },
+    })
+    return log.id
+  }
+
+  async loadSearchEvents(from: Date, to: Date): Promise<SearchEvent[]> {
+    const [searchLogs, crossSystemLogs] = await Promise.all([
+      this.db.searchLog.findMany({
+        where: { timestamp: { gte: from, lte: to } },
+        select: { searchQuery: true, sessionId: true, timestamp: true, resultsCount: true, clickedResults: true, language: true },
+        orderBy: { timestamp: 'desc' },
+        take: MAX_LOG_ROWS,
+      }),
+      this.db.crossSystemSearchLog.findMany({
+        where: { createdAt: { gte: from, lte: to } },
+        select: { searchQuery: true, sessionId: true, createdAt: true, resultsCount: true, clickedResults: true, searchContext: true },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_LOG_ROWS,
+      }),
+    ])
+
+    return [
+      ...searchLogs.map(log => ({
+        query: log.searchQuery,
+        sessionId: log.sessionId,
+        at: log.timestamp,
+        resultsCount: log.resultsCount,
+        clickedIds: log.clickedResults,
+        language: log.language,
+      })),
+      ...crossSystemLogs.map(log => ({
+        query: log.searchQuery,
+        sessionId: log.sessionId,
+        at: log.createdAt,
+        resultsCount: log.resultsCount,
+        clickedIds: clickedIds(log.clickedResults),
+        language: contextLanguage(log.searchContext),
+      })),
+    ].filter(event => event.query.trim().length > 0)
+  }
+
+  async failedQueryReport(from: Date, to: Date, limit = 20): Promise<FailedQueryReport[]> {
+    return failedQueryReport(await this.loadSearchEvents(from, to), limit)
+  }
+
+  /**
+   * Mine the logs between `from` and `to` and refresh the review queue
+   */
+  async mineSynonymSuggestions(from: Date, to: Date): Promise<SynonymMiningResult> {
+    const [events, services, serviceSynonyms, categories] = await Promise.all([
+      this.loadSearchEvents(from, to),
+      this.db.service.findMany({ select: { id: true, name: true, categoryId: true } }),
+      this.db.serviceSynonym.findMany({ select: { serviceId: true, term: true } }),
+      this.db.serviceCategory.findMany({
+        select: { id: true, name: true, displayName: true, synonyms: { select: { term: true } } },
+      }),
+    ])
+
+    // Terms that already find their target
+    const known = new Set([
+      ...services.map(service => key('SERVICE', service.id, service.name)),
+      ...serviceSynonyms.map(synonym => key('SERVICE', synonym.serviceId, synonym.term)),
+      ...categories.flatMap(category => [
+        key('CATEGORY', category.id, category.name),
+        key('CATEGORY', category.id, category.displayName),
+        ...category.synonyms.map(synonym => key('CATEGORY', category.id, synonym.term)),
+      ]),
+    ])
+
+    const proposals = proposeSynonyms(events, {
+      serviceCategories: new Map(services.map(service => [service.id, service.categoryId])),
+    })
+    const existing = await this.db.synonymSuggestion.findMany({
+      where: { normalizedTerm: { in: proposals.map(proposal => proposal.normalizedTerm) } },
+      select: { id: true, targetType: true, targetId: true, normalizedTerm: true, status: true },
+    })
+    const existingByKey = new Map(existing.map(row => [key(row.targetType, row.targetId, row.normalizedTerm), row]))
+
+    const result: SynonymMiningResult = { searches: events.length, proposals: proposals.length, created: 0, updated: 0, skipped: 0 }
+    const writes: Prisma.PrismaPromise<unknown>[] = []
+    for (const proposal of proposals) {
+      const proposalKey = key(proposal.targetType, proposal.targetId, proposal.normalizedTerm)
+      const current = existingByKey.get(proposalKey)
+      if (known.has(proposalKey) || (current && current.status !== 'PENDING')) {
+        result.skipped++
+        continue
+      }
+
+      const data = {
+        term: proposal.term,
+        language: proposal.language,
+        confidence: proposal.confidence,
+        searchCount: proposal.searchCount,
+        zeroResultCount: proposal.zeroResultCount,
+        evidence: proposal.evidence as unknown as Prisma.InputJsonObject,
+        firstSeenAt: proposal.firstSeenAt,
+        lastSeenAt: proposal.lastSeenAt,
+      }
+      if (current) {
+        writes.push(this.db.synonymSuggestion.update({ where: { id: current.id }, data }))
+        result.updated++
+      } else {
+        writes.push(
+          this.db.synonymSuggestion.create({
+            data: { ...data, normalizedTerm: proposal.normalizedTerm, targetType: proposal.targetType, targetId: proposal.targetId },
+          })
+        )
+        result.created++
+      }
+    }
+    await this.db.$transaction(writes)
+
+    return result
+  }
+
+  async listSuggestions(params: {
+    status?: SynonymSuggestionStatus
+    language?: string
+    limit: number
+    offset: number
+  }): Promise<{ suggestions: (SynonymSuggestion & { targetName: string | null })[]; total: number }> {
+    const where: Prisma.SynonymSuggestionWhereInput = {
+      status: params.status ?? 'PENDING',
+      ...(params.language && { language: params.language }),
+    }
+    const [suggestions, total] = await Promise.all([
+      this.db.synonymSuggestion.findMany({
+        where,
+        orderBy: [{ confidence: 'desc' }, { searchCount: 'desc' }],
+        skip: params.offset,
+        take: params.limit,
+      }),
+      this.db.synonymSuggestion.count({ where }),
+    ])
+
+    // Name the targets so reviewers need not look them up
+    const [services, categories] = await Promise.all([
+      this.db.service.findMany({
+        where: { id: { in: suggestions.filter(s => s.targetType === 'SERVICE').map(s => s.targetId) } },
+        select: { id: true, name: true },
+      }),
+      this.db.serviceCategory.findMany({
+        where: { id: { in: suggestions.filter(s => s.targetType === 'CATEGORY').map(s => s.targetId) } },
+        select: { id: true, displayName: true },
+      }),
+    ])
+    const names = new Map<string, string>([
+      ...services.map(service => [service.id, service.name] as [string, string]),
+      ...categories.map(category => [category.id, category.displayName] as [string, string]),
+    ])
+
+    return {
+      suggestions: suggestions.map(suggestion => ({ ...suggestion, targetName: names.get(suggestion.targetId) ?? null })),
+      total,
+    }
+  }
+
+  /**
+   * Add the suggested synonym to its service or category and mark it approved
+   */
+  async approveSuggestion(input: ApproveSuggestionInput): Promise<SynonymSuggestion> {
+    const suggestion = await this.pendingSuggestion(input.suggestionId)
+    const term = input.term?.trim() || suggestion.term
+    const language = input.language ?? suggestion.language
+    const termType = input.termType ?? suggestion.termType
+    if (!normalizeQuery(term)) {
+      throw new SearchAnalyticsError('Synonym term cannot be empty', 'BAD_REQUEST')
+    }
+
+    const addSynonym =
+      suggestion.targetType === 'SERVICE'
+        ? this.db.serviceSynonym.upsert({
+            where: { serviceId_term: { serviceId: suggestion.targetId, term } },
+            create: { serviceId: suggestion.targetId, term, termType, language },
+            update: {},
+          })
+        : this.db.categorySynonym.upsert({
+            where: { categoryId_term: { categoryId: suggestion.targetId, term } },
+            create: { categoryId: suggestion.targetId, term, language },
+            update: {},
+          })
+
+    const [, approved] = await this.db.$transaction([
+      addSynonym,
+      this.db.synonymSuggestion.update({
+        where: { id: suggestion.id },
+        data: {
+          term,
+          language,
+          termType,
+          status: 'APPROVED',
+          reviewedBy: input.reviewerId,
+          reviewedAt: new Date(),
+          reviewNote: input.note ?? null,
+        },
+      }),
+    ])
+    invalidateServiceSearch(this.db)
+    return approved
+  }
+
+  async rejectSuggestion(suggestionId: string, reviewerId: string, note?: string): Promise<SynonymSuggestion> {
+    const suggestion = await this.pendingSuggestion(suggestionId)
+    return this.db.synonymSuggestion.update({
+      where: { id: suggestion.id },
+      data: { status: 'REJECTED', reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note ?? null },
+    })
+  }
+
+  private async pendingSuggestion(id: string): Promise<SynonymSuggestion> {
+    const suggestion = await this.db.synonymSuggestion.findUnique({ where: { id } })
+    if (!suggestion) {
+      throw new SearchAnalyticsError('Synonym suggestion not found', 'NOT_FOUND')
+    }
+    if (suggestion.status !== 'PENDING') {
+      throw new SearchAnalyticsError(`Synonym suggestion was already ${suggestion.status.toLowerCase()}`, 'CONFLICT')
+    }
+    return suggestion
+  }
+}
+
+function key(targetType: string, targetId: string, term: string): string {
+  return `${targetType}:${targetId}:${normalizeQuery(term)}`
+}
+
+// CrossSystemSearchLog.clickedResults: ["id", ...] or [{ id | entityId | resultId }, ...]
+function clickedIds(json: Prisma.JsonValue | null): string[] {
+  if (!Array.isArray(json)) return []
+  return json.flatMap(item => {
+    if (typeof item === 'string') return [item]
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      const id = item.id ?? item.entityId ?? item.resultId
+      return typeof id === 'string' ? [id] : []
+    }
+    return []
+  })
+}
+
+function contextLanguage(json: Prisma.JsonValue): string | null {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null
+  const language = json.language ?? json.locale
+  return typeof language === 'string' ? language.slice(0, 2).toLowerCase() : null
+}
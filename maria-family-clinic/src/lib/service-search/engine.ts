@@ -0,0 +1,304 @@
+import { allowedEdits, editDistance, isHanTerm, normalizeText, terms, tokenize } from './text'
+
+/**
+ * Service Search Engine - In-process BM25F index over services
+ *
+ * Each service is a document with weighted fields (name, synonyms, translations,
+ * keywords, category, description). Query terms are matched exactly, then with typo
+ * tolerance against the index vocabulary and the medical terminology list, and the
+ * final term also by prefix for search-as-you-type. Synonym groups (a service's
+ * synonyms in every language, a category's synonyms) expand a matched phrase to its
+ * other names at reduced weight, so "血糖检查" also finds services named in English.
+ */
+
+export type SearchField = 'name' | 'synonym' | 'translation' | 'keyword' | 'category' | 'description'
+
+export interface FieldText {
+  text: string
+  weight?: number // Multiplies the term frequency, e.g. a synonym's searchBoost
+}
+
+export interface SearchDocument {
+  id: string
+  name: string
+  fields: Partial<Record<SearchField, FieldText[]>>
+  boost?: number
+  popularity?: number
+}
+
+/**
+ * Names that mean the same thing, in any language
+ */
+export interface SynonymGroup {
+  terms: string[]
+}
+
+export interface SearchHit {
+  id: string
+  score: number
+  matchedTerms: string[] // Index terms that matched, for highlighting
+}
+
+export interface SearchOutcome {
+  hits: SearchHit[]
+  correctedQuery: string | null // Set when typo correction changed the query
+  expandedTerms: string[] // Synonym expansion terms added to the query
+}
+
+interface QueryTerm {
+  term: string
+  weight: number
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  synonym: 2.5,
+  translation: 2,
+  keyword: 1.5,
+  category: 1,
+  description: 0.8,
+}
+const FIELD_LENGTH_NORMALIZATION: Record<SearchField, number> = {
+  name: 0.5,
+  synonym: 0.5,
+  translation: 0.75,
+  keyword: 0.75,
+  category: 0.5,
+  description: 0.75,
+}
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+
+const K1 = 1.2
+const FUZZY_WEIGHT = 0.7 // Per edit
+const PREFIX_WEIGHT = 0.8
+const EXPANSION_WEIGHT = 0.5
+const PHRASE_BONUS = 1.25
+const MIN_PREFIX_LENGTH = 3
+
+type FieldFrequencies = Partial<Record<SearchField, number>>
+
+export class ServiceSearchEngine {
+  private readonly postings = new Map<string, Map<number, FieldFrequencies>>()
+  private readonly surfaceForms = new Map<string, string>() // "diabete" → "diabetes"
+  private readonly lengths: Record<SearchField, number>[] = []
+  private readonly averageLengths = {} as Record<SearchField, number>
+  private readonly indexTerms: string[]
+  private readonly correctionTerms: string[]
+  private readonly groups: string[][][]
+
+  constructor(
+    private readonly documents: SearchDocument[],
+    options: { synonyms?: SynonymGroup[]; vocabulary?: string[] } = {}
+  ) {
+    documents.forEach((document, index) => this.add(document, index))
+    for (const field of FIELDS) {
+      const total = this.lengths.reduce((sum, lengths) => sum + lengths[field], 0)
+      this.averageLengths[field] = documents.length > 0 ? Math.max(total / documents.length, 1) : 1
+    }
+
+    this.indexTerms = [...this.postings.keys()]
+    const dictionary = (options.vocabulary ?? []).flatMap(text => this.termsOf(text)).filter(term => !this.postings.has(term))
+    this.correctionTerms = [...this.indexTerms, ...new Set(dictionary)]
+    this.groups = (options.synonyms ?? [])
+      .map(group => group.terms.map(terms).filter(phrase => phrase.length > 0))
+      .filter(group => group.length > 1)
+  }
+
+  get size(): number {
+    return this.documents.length
+  }
+
+  search(query: string, limit = this.documents.length): SearchOutcome {
+    const queryTokens = tokenize(query)
+    const queryTerms: QueryTerm[] = []
+    const corrected: string[] = []
+    const corrections: { start: number; end: number; text: string }[] = []
+
+    queryTokens.forEach((token, position) => {
+      if (this.postings.has(token.term)) {
+        queryTerms.push({ term: token.term, weight: 1 })
+        corrected.push(token.term)
+        return
+      }
+
+      const fuzzy = this.fuzzyMatches(token.term)
+      queryTerms.push(...fuzzy.indexed)
+      if (fuzzy.best) {
+        corrected.push(fuzzy.best)
+        corrections.push({ start: token.start, end: token.end, text: this.surfaceForms.get(fuzzy.best) ?? fuzzy.best })
+      } else {
+        corrected.push(token.term)
+      }
+
+      const isLastTerm = position === queryTokens.length - 1
+      if (isLastTerm && fuzzy.indexed.length === 0 && token.term.length >= MIN_PREFIX_LENGTH && !isHanTerm(token.term)) {
+        queryTerms.push(...this.prefixMatches(token.term))
+      }
+    })
+
+    const expandedTerms = this.expand(new Set([...corrected, ...queryTerms.map(entry => entry.term)]))
+    queryTerms.push(...expandedTerms.map(term => ({ term, weight: EXPANSION_WEIGHT })))
+
+    const scores = new Map<number, { score: number; matched: Set<string> }>()
+    for (const { term, weight } of dedupe(queryTerms)) {
+      const postings = this.postings.get(term)
+      if (!postings) continue
+      const idf = Math.log(1 + (this.documents.length - postings.size + 0.5) / (postings.size + 0.5))
+      for (const [doc, frequencies] of postings) {
+        const tf = this.weightedFrequency(doc, frequencies)
+        const entry = scores.get(doc) ?? { score: 0, matched: new Set<string>() }
+        entry.score += weight * idf * ((tf * (K1 + 1)) / (tf + K1))
+        entry.matched.add(term)
+        scores.set(doc, entry)
+      }
+    }
+
+    const correctedQuery = corrections.length > 0 ? applyCorrections(query, corrections) : null
+    const phrase = queryTokens.length > 1 ? normalizeText(correctedQuery ?? query).trim() : null
+    const hits = [...scores].map(([doc, { score, matched }]) => {
+      const document = this.documents[doc]!
+      let total = score * (document.boost ?? 1) * (1 + 0.1 * Math.log1p(Math.max(document.popularity ?? 0, 0)))
+      if (phrase && normalizeText(document.name).includes(phrase)) total *= PHRASE_BONUS
+      return { id: document.id, score: round(total), matchedTerms: [...matched] }
+    })
+    hits.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+
+    return {
+      hits: hits.slice(0, limit),
+      correctedQuery,
+      expandedTerms,
+    }
+  }
+
+  private add(document: SearchDocument, index: number) {
+    const lengths = Object.fromEntries(FIELDS.map(field => [field, 0])) as Record<SearchField, number>
+    for (const field of FIELDS) {
+      for (const { text, weight = 1 } of document.fields[field] ?? []) {
+        for (const term of this.termsOf(text)) {
+          let postings = this.postings.get(term)
+          if (!postings) {
+            postings = new Map()
+            this.postings.set(term, postings)
+          }
+          const frequencies = postings.get(index) ?? {}
+          frequencies[field] = (frequencies[field] ?? 0) + weight
+          postings.set(index, frequencies)
+          lengths[field]++
+        }
+      }
+    }
+    this.lengths[index] = lengths
+  }
+
+  /**
+   * BM25F: field frequencies normalised by field length, then weighted and summed
+   */
+  private weightedFrequency(doc: number, frequencies: FieldFrequencies): number {
+    let tf = 0
+    for (const field of FIELDS) {
+      const frequency = frequencies[field]
+      if (!frequency) continue
+      const b = FIELD_LENGTH_NORMALIZATION[field]
+      const length = this.lengths[doc]![field] / this.averageLengths[field]
+      tf += (FIELD_WEIGHTS[field] * frequency) / (1 - b + b * length)
+    }
+    return tf
+  }
+
+  /**
+   * The closest term within the allowed edit distance, comparing with both the index
+   * term and its spelling ("diabetis" is one edit from "diabetes", two from "diabete").
+   * Ties go to the term in more documents. `best` may be a dictionary term with no
+   * postings; `indexed` is the closest term that can match documents.
+   */
+  private fuzzyMatches(term: string): { indexed: QueryTerm[]; best: string | null } {
+    const maxEdits = allowedEdits(term)
+    if (maxEdits === 0) return { indexed: [], best: null }
+
+    let best: { term: string; distance: number } | null = null
+    let bestIndexed: { term: string; distance: number } | null = null
+    for (const candidate of this.correctionTerms) {
+      const surface = this.surfaceForms.get(candidate)
+      const distance = Math.min(
+        editDistance(term, candidate, maxEdits),
+        surface && surface !== candidate ? editDistance(term, surface, maxEdits) : maxEdits + 1
+      )
+      if (distance > maxEdits) continue
+      if (this.isCloser(candidate, distance, best)) best = { term: candidate, distance }
+      if (this.postings.has(candidate) && this.isCloser(candidate, distance, bestIndexed)) {
+        bestIndexed = { term: candidate, distance }
+      }
+    }
+
+    return {
+      indexed: bestIndexed ? [{ term: bestIndexed.term, weight: FUZZY_WEIGHT ** bestIndexed.distance }] : [],
+      best: best?.term ?? null,
+    }
+  }
+
+  private isCloser(candidate: string, distance: number, current: { term: string; distance: number } | null): boolean {
+    if (!current) return true
+    if (distance !== current.distance) return distance < current.distance
+    return this.documentFrequency(candidate) > this.documentFrequency(current.term)
+  }
+
+  private prefixMatches(prefix: string): QueryTerm[] {
+    return this.indexTerms
+      .filter(term => term.startsWith(prefix))
+      .map(term => ({ term, weight: PREFIX_WEIGHT }))
+  }
+
+  /**
+   * Terms of the other names in every synonym group whose phrase the query contains
+   */
+  private expand(queryTerms: Set<string>): string[] {
+    const expansion = new Set<string>()
+    for (const group of this.groups) {
+      const matched = group.some(phrase => phrase.every(term => queryTerms.has(term)))
+      if (!matched) continue
+      for (const phrase of group) {
+        for (const term of phrase) {
+          if (!queryTerms.has(term) && this.postings.has(term)) expansion.add(term)
+        }
+      }
+    }
+    return [...expansion]
+  }
+
+  /**
+   * Index terms of `text`, remembering how each was spelled
+   */
+  private termsOf(text: string): string[] {
+    return tokenize(text).map(token => {
+      if (!this.surfaceForms.has(token.term)) {
+        this.surfaceForms.set(token.term, normalizeText(text.slice(token.start, token.end)))
+      }
+      return token.term
+    })
+  }
+
+  private documentFrequency(term: string): number {
+    return this.postings.get(term)?.size ?? 0
+  }
+}
+
+// Keep the highest weight when a term is reached several ways (exact, fuzzy, expansion)
+function dedupe(queryTerms: QueryTerm[]): QueryTerm[] {
+  const best = new Map<string, number>()
+  for (const { term, weight } of queryTerms) {
+    best.set(term, Math.max(best.get(term) ?? 0, weight))
+  }
+  return [...best].map(([term, weight]) => ({ term, weight }))
+}
+
+function applyCorrections(query: string, corrections: { start: number; end: number; text: string }[]): string {
+  let result = query
+  for (const { start, end, text } of [...corrections].reverse()) {
+    result = result.slice(0, start) + text + result.slice(end)
+  }
+  return result
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,286 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { MEDICAL_TERMINOLOGY } from '@/lib/service-taxonomy'
+import { ServiceSearchEngine, type FieldText, type SearchDocument, type SynonymGroup } from './engine'
+import { highlight, snippet } from './snippets'
+
+/**
+ * Service Search Service - Builds the in-process search engine from the database
+ *
+ * Documents come from active services and their ServiceSearchIndex row, ServiceSynonym
+ * and CategorySynonym terms (all languages) and translations; MEDICAL_TERMINOLOGY is
+ * the typo-correction dictionary. The engine is cached per client and rebuilt after
+ * INDEX_TTL_MS or when `invalidateServiceSearch` is called after a service changes.
+ */
+
+export const SEARCH_LANGUAGES = ['en', 'zh', 'ms', 'ta'] as const
+export type SearchLanguage = (typeof SEARCH_LANGUAGES)[number]
+
+export interface ServiceSearchInput {
+  query: string
+  language?: SearchLanguage
+  where?: Prisma.ServiceWhereInput
+  // 'relevance' ranks by search score; otherwise the database order
+  orderBy: 'relevance' | Prisma.ServiceOrderByWithRelationInput
+  limit: number
+  offset: number
+}
+
+export interface ServiceSearchMatch {
+  serviceId: string
+  score: number
+  matchedTerms: string[]
+  highlights: {
+    name: string
+    snippet: string
+  }
+}
+
+export interface ServiceSearchResult {
+  matches: ServiceSearchMatch[] // The requested page, in order
+  total: number
+  correctedQuery: string | null
+  expandedTerms: string[]
+}
+
+interface DisplayText {
+  name: string
+  description: string
+  localized: Record<string, { name?: string; description?: string }>
+}
+
+interface LoadedIndex {
+  engine: ServiceSearchEngine
+  display: Map<string, DisplayText>
+}
+
+const INDEX_TTL_MS = 5 * 60 * 1000
+
+const loadedIndexes = new WeakMap<PrismaClient, Promise<LoadedIndex>>()
+const builtAt = new WeakMap<PrismaClient, number>()
+
+/**
+ * Drop the cached engine so the next search rebuilds it
+ */
+export function invalidateServiceSearch(db: PrismaClient) {
+  loadedIndexes.delete(db)
+}
+
+export class ServiceSearchService {
+  constructor(private readonly db: PrismaClient) {}
+
+  async search(input: ServiceSearchInput): Promise<ServiceSearchResult> {
+    const { engine, display } = await this.index()
+    const outcome = engine.search(input.query)
+    const scored = new Map(outcome.hits.map(hit => [hit.id, hit]))
+    const where: Prisma.ServiceWhereInput = { AND: [input.where ?? {}, { id: { in: [...scored.keys()] } }] }
+
+    let pageIds: string[]
+    let total: number
+    if (input.orderBy === 'relevance') {
+      const matching = await this.db.service.findMany({ where, select: { id: true } })
+      const ids = new Set(matching.map(service => service.id))
+      const ranked = outcome.hits.filter(hit => ids.has(hit.id)).map(hit => hit.id)
+      pageIds = ranked.slice(input.offset, input.offset + input.limit)
+      total = ranked.length
+    } else {
+      const [page, count] = await Promise.all([
+        this.db.service.findMany({ where, select: { id: true }, orderBy: input.orderBy, skip: input.offset, take: input.limit }),
+        this.db.service.count({ where }),
+      ])
+      pageIds = page.map(service => service.id)
+      total = count
+    }
+
+    return {
+      matches: pageIds.map(id => {
+        const hit = scored.get(id)!
+        const text = localize(display.get(id), input.language)
+        return {
+          serviceId: id,
+          score: hit.score,
+          matchedTerms: hit.matchedTerms,
+          highlights: {
+            name: highlight(text.name, hit.matchedTerms),
+            snippet: snippet(text.description, hit.matchedTerms),
+          },
+        }
+      }),
+      total,
+      correctedQuery: outcome.correctedQuery,
+      expandedTerms: outcome.expandedTerms,
+    }
+  }
+
+  private index(): Promise<LoadedIndex> {
+    let loaded = loadedIndexes.get(this.db)
+    if (!loaded || Date.now() - (builtAt.get(this.db) ?? 0) > INDEX_TTL_MS) {
+      builtAt.set(this.db, Date.now())
+      loaded = buildIndex(this.db)
+      loadedIndexes.set(this.db, loaded)
+      // Let the next search retry if the build fails
+      loaded.catch(() => loadedIndexes.delete(this.db))
+    }
+    return loaded
+  }
+}
+
+async function buildIndex(db: PrismaClient): Promise<LoadedIndex> {
+  const services = await db.service.findMany({
+    where: { isActive: true },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      medicalDescription: true,
+      patientFriendlyDesc: true,
+      synonyms: true,
+      searchTerms: true,
+      commonSearchPhrases: true,
+      tags: true,
+      translations: true,
+      categoryId: true,
+      category: {
+        select: {
+          displayName: true,
+          translations: true,
+          synonyms: { select: { term: true, searchBoost: true } },
+        },
+      },
+      synonymsRel: { select: { term: true, searchBoost: true } },
+      searchIndex: {
+        select: {
+          searchableName: true,
+          searchableDesc: true,
+          searchKeywords: true,
+          medicalTerms: true,
+          anatomyTerms: true,
+          conditionTerms: true,
+          procedureTerms: true,
+          searchPhrases: true,
+          searchTranslations: true,
+          searchBoost: true,
+          popularityScore: true,
+        },
+      },
+    },
+  })
+
+  const documents: SearchDocument[] = []
+  const synonyms: SynonymGroup[] = []
+  const categoryGroups = new Map<string, SynonymGroup>()
+  const display = new Map<string, DisplayText>()
+
+  for (const service of services) {
+    const index = service.searchIndex[0]
+    const translations = [...translationTexts(service.translations), ...translationTexts(index?.searchTranslations)]
+    const synonymTerms = service.synonymsRel.map(synonym => ({ text: synonym.term, weight: synonym.searchBoost }))
+
+    documents.push({
+      id: service.id,
+      name: service.name,
+      boost: index?.searchBoost ?? 1,
+      popularity: index?.popularityScore ?? 0,
+      fields: {
+        name: [{ text: service.name }, ...(index && index.searchableName !== service.name ? [{ text: index.searchableName }] : [])],
+        synonym: [...synonymTerms, ...service.synonyms.map(text => ({ text }))],
+        translation: translations.map(entry => ({ text: entry.text })),
+        keyword: texts([
+          ...service.searchTerms,
+          ...service.commonSearchPhrases,
+          ...service.tags,
+          ...(index
+            ? [
+                ...index.searchKeywords,
+                ...index.medicalTerms,
+                ...index.anatomyTerms,
+                ...index.conditionTerms,
+                ...index.procedureTerms,
+                ...index.searchPhrases,
+              ]
+            : []),
+        ]),
+        category: [
+          { text: service.category.displayName },
+          ...translationTexts(service.category.translations).map(entry => ({ text: entry.text })),
+          ...service.category.synonyms.map(synonym => ({ text: synonym.term, weight: synonym.searchBoost })),
+        ],
+        description: texts([service.description, index?.searchableDesc, service.patientFriendlyDesc, service.medicalDescription]),
+      },
+    })
+
+    synonyms.push({
+      terms: [service.name, ...synonymTerms.map(term => term.text), ...translations.filter(isTranslatedName).map(entry => entry.text)],
+    })
+    if (!categoryGroups.has(service.categoryId)) {
+      categoryGroups.set(service.categoryId, {
+        terms: [service.category.displayName, ...service.category.synonyms.map(synonym => synonym.term)],
+      })
+    }
+
+    display.set(service.id, {
+      name: service.name,
+      description: service.patientFriendlyDesc || service.description || index?.searchableDesc || '',
+      localized: localizedTexts(service.translations),
+    })
+  }
+
+  return {
+    engine: new ServiceSearchEngine(documents, {
+      synonyms: [...synonyms, ...categoryGroups.values()],
+      vocabulary: Object.values(MEDICAL_TERMINOLOGY).flat(),
+    }),
+    display,
+  }
+}
+
+function texts(values: (string | null | undefined)[]): FieldText[] {
+  return [...new Set(values.filter((value): value is string => !!value))].map(text => ({ text }))
+}
+
+/**
+ * Every string in a translations JSON value, e.g. `{ "zh": { "name": "血糖检查" } }` or
+ * `{ "zh": ["血糖", "糖尿病筛查"] }`, with the key it was found under
+ */
+function translationTexts(json: Prisma.JsonValue | undefined): { key: string | null; text: string }[] {
+  const found: { key: string | null; text: string }[] = []
+  const visit = (value: Prisma.JsonValue | undefined, key: string | null) => {
+    if (typeof value === 'string') {
+      if (value.trim()) found.push({ key, text: value })
+    } else if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key))
+    } else if (value && typeof value === 'object') {
+      for (const [childKey, child] of Object.entries(value)) visit(child, childKey)
+    }
+  }
+  visit(json, null)
+  return found
+}
+
+// `{ "zh": "..." }` or `{ "zh": { "name": "..." } }`
+function isTranslatedName(entry: { key: string | null }): boolean {
+  return entry.key === 'name' || SEARCH_LANGUAGES.some(language => language === entry.key)
+}
+
+function localizedTexts(json: Prisma.JsonValue): DisplayText['localized'] {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return {}
+  const localized: DisplayText['localized'] = {}
+  for (const [language, value] of Object.entries(json)) {
+    if (typeof value === 'string') {
+      localized[language] = { name: value }
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      localized[language] = {
+        name: typeof value.name === 'string' ? value.name : undefined,
+        description: typeof value.description === 'string' ? value.description : undefined,
+      }
+    }
+  }
+  return localized
+}
+
+function localize(text: DisplayText | undefined, language: SearchLanguage | undefined): { name: string; description: string } {
+  const localized = language ? text?.localized[language] : undefined
+  return {
+    name: localized?.name ?? text?.name ?? '',
+    description: localized?.description ?? text?.description ?? '',
+  }
+}
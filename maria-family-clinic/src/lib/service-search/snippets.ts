@@ -0,0 +1,77 @@
+import { tokenize } from './text'
+
+/**
+ * Search result highlighting
+ *
+ * Output is HTML-escaped text with matches wrapped in `<mark>`, safe to render as HTML.
+ */
+
+const ELLIPSIS = '…'
+
+/**
+ * `text` with every token whose index term is in `matchedTerms` marked
+ */
+export function highlight(text: string, matchedTerms: Iterable<string>): string {
+  return markRanges(text, matchRanges(text, new Set(matchedTerms)), 0, text.length)
+}
+
+/**
+ * Up to `maxLength` characters of `text` around the first match, highlighted. Falls
+ * back to the start of the text when nothing matches.
+ */
+export function snippet(text: string, matchedTerms: Iterable<string>, maxLength = 160): string {
+  const ranges = matchRanges(text, new Set(matchedTerms))
+  if (text.length <= maxLength) return markRanges(text, ranges, 0, text.length)
+
+  const first = ranges[0]?.start ?? 0
+  let start = Math.max(0, Math.min(first - Math.floor(maxLength / 4), text.length - maxLength))
+  // Start at a word boundary
+  if (start > 0) {
+    const space = text.lastIndexOf(' ', start)
+    start = space === -1 || first - space > maxLength / 2 ? start : space + 1
+  }
+  let end = Math.min(text.length, start + maxLength)
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > start + maxLength / 2) end = space
+  }
+
+  return (start > 0 ? ELLIPSIS : '') + markRanges(text, ranges, start, end) + (end < text.length ? ELLIPSIS : '')
+}
+
+// Matched token spans, merged where they overlap (Han bigrams share characters)
+function matchRanges(text: string, matchedTerms: Set<string>): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = []
+  for (const token of tokenize(text, true)) {
+    if (!matchedTerms.has(token.term)) continue
+    const last = ranges[ranges.length - 1]
+    if (last && token.start <= last.end) {
+      last.end = Math.max(last.end, token.end)
+    } else {
+      ranges.push({ start: token.start, end: token.end })
+    }
+  }
+  return ranges
+}
+
+function markRanges(text: string, ranges: { start: number; end: number }[], from: number, to: number): string {
+  let html = ''
+  let position = from
+  for (const range of ranges) {
+    if (range.end <= from || range.start >= to) continue
+    const start = Math.max(range.start, from)
+    const end = Math.min(range.end, to)
+    html += escapeHtml(text.slice(position, start)) + '<mark>' + escapeHtml(text.slice(start, end)) + '</mark>'
+    position = end
+  }
+  return html + escapeHtml(text.slice(position, to))
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
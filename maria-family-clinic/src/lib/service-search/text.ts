@@ -0,0 +1,122 @@
+/**
+ * Search Text Processing - Normalisation, tokenisation and edit distance
+ *
+ * Latin and Tamil text is split into words; Han text (Chinese) has no word breaks, so
+ * each run of Han characters is indexed as overlapping character bigrams ("血糖检查" →
+ * 血糖, 糖检, 检查), which matches partial phrases without a segmentation dictionary.
+ */
+
+export interface Token {
+  term: string
+  start: number // Offset of the token in the original text
+  end: number
+}
+
+const HAN = /\p{Script=Han}/u
+const WORD_OR_HAN_RUN = /\p{Script=Han}+|[\p{L}\p{N}][\p{L}\p{M}\p{N}'’-]*/gu
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'by', 'for', 'from', 'i', 'in', 'is', 'me', 'my', 'near',
+  'of', 'on', 'or', 'the', 'to', 'with',
+])
+
+/**
+ * Lower-case, NFKC-normalise and strip Latin accents. Combining marks of other
+ * scripts (Tamil vowel signs) are kept.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/([a-z])\p{M}+/gu, '$1')
+    .normalize('NFC')
+}
+
+/**
+ * Light English stemming: drop a plural "s" so "vaccinations" matches "vaccination"
+ */
+function stem(word: string): string {
+  if (word.length > 3 && /^[a-z]+s$/.test(word) && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1)
+  }
+  return word
+}
+
+export function isHanTerm(term: string): boolean {
+  return HAN.test(term)
+}
+
+/**
+ * Tokens of `text` with their offsets in the original string. Stopwords are dropped
+ * unless `keepStopwords` is set.
+ */
+export function tokenize(text: string, keepStopwords = false): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(WORD_OR_HAN_RUN)) {
+    const raw = match[0]
+    const start = match.index ?? 0
+    if (isHanTerm(raw)) {
+      const chars = [...raw]
+      if (chars.length === 1) {
+        tokens.push({ term: raw, start, end: start + raw.length })
+        continue
+      }
+      let offset = start
+      for (let i = 0; i < chars.length - 1; i++) {
+        const bigram = chars[i]! + chars[i + 1]!
+        tokens.push({ term: bigram, start: offset, end: offset + bigram.length })
+        offset += chars[i]!.length
+      }
+      continue
+    }
+
+    const word = normalizeText(raw).replace(/['’]/g, '')
+    if (!keepStopwords && STOPWORDS.has(word)) continue
+    for (const part of word.split('-').filter(Boolean)) {
+      tokens.push({ term: stem(part), start, end: start + raw.length })
+    }
+  }
+  return tokens
+}
+
+export function terms(text: string): string[] {
+  return tokenize(text).map(token => token.term)
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  if (a === b) return 0
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow
+    previousRow = row
+    row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j]! + 1, row[j - 1]! + 1, previousRow[j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2]! + 1)
+      }
+      row[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+  }
+  return row[b.length]!
+}
+
+/**
+ * Typos tolerated for a query term of this length
+ */
+export function allowedEdits(term: string): number {
+  if (isHanTerm(term) || term.length < 4) return 0
+  return term.length < 8 ? 1 : 2
+}
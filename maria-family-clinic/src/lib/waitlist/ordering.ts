@@ -0,0 +1,102 @@
+import type { Prisma, UrgencyLevel, WaitlistEntry } from '@prisma/client'
+import { singaporeDateKey, singaporeMinutes, toMinutes } from '../clinic-hours/calendar'
+
+/**
+ * Waitlist ordering rules, kept free of database access so they can be unit tested
+ */
+
+export interface PreferredSlot {
+  date: string // Singapore date, "yyyy-MM-dd"
+  startTime: string // Singapore time, "HH:mm"
+  endTime: string // Singapore time, "HH:mm"
+}
+
+export interface FreedSlot {
+  doctorId: string
+  clinicId?: string | null
+  serviceId?: string | null
+  start: Date
+  end: Date
+  sourceAppointmentId?: string | null
+}
+
+/**
+ * Higher rank is served first
+ */
+export const URGENCY_RANK: Record<UrgencyLevel, number> = {
+  EMERGENCY: 3,
+  SAME_DAY: 2,
+  URGENT: 1,
+  ROUTINE: 0,
+}
+
+type QueueEntry = Pick<WaitlistEntry, 'id' | 'urgencyLevel' | 'joinedAt'>
+
+/**
+ * Queue order: urgency descending, then first come first served
+ */
+export function compareQueueOrder(a: QueueEntry, b: QueueEntry): number {
+  const rankDiff = URGENCY_RANK[b.urgencyLevel] - URGENCY_RANK[a.urgencyLevel]
+  if (rankDiff !== 0) return rankDiff
+  return a.joinedAt.getTime() - b.joinedAt.getTime()
+}
+
+/**
+ * Normalise the stored preferredSlots JSON into typed slots, dropping malformed items
+ */
+export function parsePreferredSlots(value: Prisma.JsonValue | undefined): PreferredSlot[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((slot): slot is PreferredSlot & Prisma.JsonObject => {
+    if (!slot || typeof slot !== 'object' || Array.isArray(slot)) return false
+    return typeof slot.date === 'string' && typeof slot.startTime === 'string' && typeof slot.endTime === 'string'
+  }).map(({ date, startTime, endTime }) => ({ date, startTime, endTime }))
+}
+
+/**
+ * How well an entry's preferences fit a freed slot.
+ * 'preferred' - a preferred slot overlaps the freed slot
+ * 'flexible'  - no preferences recorded, any slot is acceptable
+ * null        - preferences exist but none overlap, so the entry is not eligible
+ */
+export function matchPreferredSlots(preferredSlots: PreferredSlot[], slot: Pick<FreedSlot, 'start' | 'end'>): 'preferred' | 'flexible' | null {
+  if (preferredSlots.length === 0) return 'flexible'
+
+  // Minutes since Singapore midnight of the slot's start date, so a slot ending at midnight ends at 24:00
+  const slotDate = singaporeDateKey(slot.start)
+  const slotStart = singaporeMinutes(slot.start)
+  const slotEnd = slotStart + (slot.end.getTime() - slot.start.getTime()) / 60_000
+
+  const overlaps = preferredSlots.some(preferred =>
+    preferred.date === slotDate && toMinutes(preferred.startTime) < slotEnd && slotStart < toMinutes(preferred.endTime)
+  )
+
+  return overlaps ? 'preferred' : null
+}
+
+/**
+ * Order waiting entries for a specific freed slot. Ineligible entries are dropped;
+ * within the same urgency, entries that asked for this time go before flexible ones.
+ */
+export function rankCandidatesForSlot<T extends QueueEntry & { preferredSlots: Prisma.JsonValue }>(
+  entries: T[],
+  slot: Pick<FreedSlot, 'start' | 'end'>
+): T[] {
+  return entries
+    .map(entry => ({ entry, match: matchPreferredSlots(parsePreferredSlots(entry.preferredSlots), slot) }))
+    .filter((candidate): candidate is { entry: T; match: 'preferred' | 'flexible' } => candidate.match !== null)
+    .sort((a, b) => {
+      const rankDiff = URGENCY_RANK[b.entry.urgencyLevel] - URGENCY_RANK[a.entry.urgencyLevel]
+      if (rankDiff !== 0) return rankDiff
+      if (a.match !== b.match) return a.match === 'preferred' ? -1 : 1
+      return a.entry.joinedAt.getTime() - b.entry.joinedAt.getTime()
+    })
+    .map(candidate => candidate.entry)
+}
+
+/**
+ * Rough wait estimate, assuming three waitlist promotions per doctor per day
+ */
+export function estimateWaitTime(position: number): string {
+  const days = Math.max(1, Math.ceil(position / 3))
+  return `${days} day${days > 1 ? 's' : ''}`
+}
@@ -0,0 +1,510 @@
+import { Prisma, type PrismaClient, type UrgencyLevel, type WaitlistEntry, type WaitlistOffer } from '@prisma/client'
+import { addMinutes } from 'date-fns'
+import { URGENCY_RANK, compareQueueOrder, estimateWaitTime, rankCandidatesForSlot, type FreedSlot, type PreferredSlot } from './ordering'
+import { findBookingConflicts, runSerializable } from '../booking/service'
+import { queueNotification } from '../notifications/queue'
+import { formatSingaporeDateTime, formatSingaporeTime } from '../clinic-hours/calendar'
+
+/**
+ * Waitlist Service - Persistent patient waitlist with slot offers and time-boxed holds
+ *
+ * Entries are ordered by urgency first and join time second. When a slot is freed
+ * (e.g. by `appointment.cancel`), the next eligible entry receives a WaitlistOffer
+ * that holds the slot for `holdMinutes`; lapsed holds pass the slot down the queue.
+ */
+
+export type { FreedSlot, PreferredSlot } from './ordering'
+
+export interface JoinWaitlistInput {
+  doctorId: string
+  clinicId?: string
+  serviceId?: string
+  patientId?: string
+  patientName: string
+  patientPhone: string
+  patientEmail?: string
+  appointmentType?: string
+  urgencyLevel?: UrgencyLevel
+  preferredSlots?: PreferredSlot[]
+  notes?: string
+}
+
+export interface WaitlistServiceOptions {
+  holdMinutes?: number
+  maxMissedOffers?: number
+}
+
+export class WaitlistError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'CONFLICT' | 'BAD_REQUEST'
+  ) {
+    super(message)
+    this.name = 'WaitlistError'
+  }
+}
+
+export const DEFAULT_HOLD_MINUTES = 30
+export const DEFAULT_MAX_MISSED_OFFERS = 3
+
+export class WaitlistService {
+  private readonly holdMinutes: number
+  private readonly maxMissedOffers: number
+
+  constructor(private readonly db: PrismaClient, options: WaitlistServiceOptions = {}) {
+    this.holdMinutes = options.holdMinutes ?? DEFAULT_HOLD_MINUTES
+    this.maxMissedOffers = options.maxMissedOffers ?? DEFAULT_MAX_MISSED_OFFERS
+  }
+
+  /**
+   * Add a patient to a doctor's waitlist
+   */
+  async join(input: JoinWaitlistInput) {
+    const existing = await this.db.waitlistEntry.findFirst({
+      where: {
+        doctorId: input.doctorId,
+        patientPhone: input.patientPhone,
+        status: { in: ['WAITING', 'NOTIFIED'] },
+      },
+    })
+
+    if (existing) {
+      throw new WaitlistError('Already on waitlist for this doctor', 'CONFLICT')
+    }
+
+    const entry = await this.db.waitlistEntry.create({
+      data: {
+        doctorId: input.doctorId,
+        clinicId: input.clinicId,
+        serviceId: input.serviceId,
+        patientId: input.patientId,
+        patientName: input.patientName,
+        patientPhone: input.patientPhone,
+        patientEmail: input.patientEmail,
+        appointmentType: input.appointmentType,
+        urgencyLevel: input.urgencyLevel ?? 'ROUTINE',
+        preferredSlots: (input.preferredSlots ?? []) as unknown as Prisma.InputJsonValue,
+        notes: input.notes,
+      },
+    })
+
+    const position = await this.getPosition(entry.id)
+
+    return { entry, ...position }
+  }
+
+  /**
+   * Current queue position of an entry among WAITING entries for the same doctor
+   */
+  async getPosition(entryId: string) {
+    const entry = await this.findEntry(entryId)
+
+    if (entry.status !== 'WAITING') {
+      return { entryId, status: entry.status, position: null, estimatedWaitTime: null }
+    }
+
+    const queue = await this.db.waitlistEntry.findMany({
+      where: { doctorId: entry.doctorId, status: 'WAITING' },
+      select: { id: true, urgencyLevel: true, joinedAt: true },
+    })
+
+    const position = queue.sort(compareQueueOrder).findIndex(e => e.id === entryId) + 1
+
+    return {
+      entryId,
+      status: entry.status,
+      position,
+      estimatedWaitTime: estimateWaitTime(position),
+    }
+  }
+
+  /**
+   * Position a new entry with the given urgency would take in a doctor's queue
+   */
+  async projectedPosition(doctorId: string, urgencyLevel: UrgencyLevel = 'ROUTINE') {
+    const queue = await this.db.waitlistEntry.findMany({
+      where: { doctorId, status: 'WAITING' },
+      select: { urgencyLevel: true },
+    })
+
+    // New entries join behind everyone of equal or higher urgency
+    const position = queue.filter(e => URGENCY_RANK[e.urgencyLevel] >= URGENCY_RANK[urgencyLevel]).length + 1
+
+    return { position, estimatedWaitTime: estimateWaitTime(position) }
+  }
+
+  /**
+   * Waitlist for a doctor and/or clinic in queue order, with any pending offer attached
+   */
+  async list(filters: { doctorId?: string; clinicId?: string; status?: WaitlistEntry['status']; limit?: number }) {
+    const entries = await this.db.waitlistEntry.findMany({
+      where: {
+        ...(filters.doctorId && { doctorId: filters.doctorId }),
+        ...(filters.clinicId && { clinicId: filters.clinicId }),
+        status: filters.status ?? { in: ['WAITING', 'NOTIFIED'] },
+      },
+      include: {
+        offers: {
+          // Lapsed holds stay PENDING until the scheduled sweep releases them
+          where: { status: 'PENDING', holdExpiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    })
+
+    const ordered = entries.sort(compareQueueOrder)
+    return filters.limit ? ordered.slice(0, filters.limit) : ordered
+  }
+
+  /**
+   * Leave the waitlist. A slot held by the leaving patient passes to the next in line.
+   */
+  async leave(entryId: string, reason?: string) {
+    const entry = await this.findEntry(entryId)
+
+    if (entry.status === 'CANCELLED' || entry.status === 'CONFIRMED') {
+      throw new WaitlistError(`Waitlist entry is already ${entry.status.toLowerCase()}`, 'BAD_REQUEST')
+    }
+
+    const pendingOffer = await this.db.$transaction(async tx => {
+      const offer = await tx.waitlistOffer.findFirst({
+        where: { waitlistEntryId: entryId, status: 'PENDING' },
+      })
+
+      if (offer) {
+        await tx.waitlistOffer.update({
+          where: { id: offer.id },
+          data: { status: 'DECLINED', respondedAt: new Date() },
+        })
+      }
+
+      await tx.waitlistEntry.update({
+        where: { id: entryId },
+        data: {
+          status: 'CANCELLED',
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+        },
+      })
+
+      return offer
+    })
+
+    const nextOffer = pendingOffer ? await this.tryOfferFreedSlot(offerToSlot(pendingOffer)) : null
+
+    return { success: true, nextOffer }
+  }
+
+  /**
+   * Offer a slot freed by a change that has already been saved. The waitlist is best
+   * effort: the change stands whether or not the slot could be offered, so a failure gives
+   * null, as when nobody is eligible, rather than being thrown.
+   */
+  async tryOfferFreedSlot(slot: FreedSlot): Promise<WaitlistOffer | null> {
+    try {
+      return await this.offerFreedSlot(slot)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Offer a freed slot to the highest-ranked eligible entry and hold it for them.
+   * Entries that already had an offer for this slot are skipped.
+   */
+  async offerFreedSlot(slot: FreedSlot): Promise<WaitlistOffer | null> {
+    const offer = await this.db.$transaction(async tx => {
+      const previousOffers = await tx.waitlistOffer.findMany({
+        where: { doctorId: slot.doctorId, slotStart: slot.start },
+        select: { waitlistEntryId: true, status: true },
+      })
+
+      // Someone is already holding or has taken this slot
+      if (previousOffers.some(o => o.status === 'PENDING' || o.status === 'ACCEPTED')) {
+        return null
+      }
+
+      const waiting = await tx.waitlistEntry.findMany({
+        where: {
+          doctorId: slot.doctorId,
+          status: 'WAITING',
+          id: { notIn: previousOffers.map(o => o.waitlistEntryId) },
+          ...(slot.clinicId && { OR: [{ clinicId: slot.clinicId }, { clinicId: null }] }),
+        },
+        select: { id: true, urgencyLevel: true, joinedAt: true, preferredSlots: true },
+      })
+
+      const [next] = rankCandidatesForSlot(waiting, slot)
+      if (!next) return null
+
+      // Conditional update guards against a concurrent offer to the same entry
+      const claimed = await tx.waitlistEntry.updateMany({
+        where: { id: next.id, status: 'WAITING' },
+        data: { status: 'NOTIFIED', lastNotifiedAt: new Date() },
+      })
+      if (claimed.count === 0) return null
+
+      return tx.waitlistOffer.create({
+        data: {
+          waitlistEntryId: next.id,
+          doctorId: slot.doctorId,
+          clinicId: slot.clinicId ?? null,
+          serviceId: slot.serviceId ?? null,
+          slotStart: slot.start,
+          slotEnd: slot.end,
+          sourceAppointmentId: slot.sourceAppointmentId ?? null,
+          holdExpiresAt: addMinutes(new Date(), this.holdMinutes),
+        },
+      })
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+    if (offer) {
+      await this.notifyOffer(offer)
+    }
+
+    return offer
+  }
+
+  /**
+   * Turn a waitlist entry into a confirmed appointment.
+   * Uses the entry's pending offer, or an explicit slot supplied by staff.
+   */
+  async promote(entryId: string, slot?: FreedSlot) {
+    const entry = await this.findEntry(entryId)
+
+    if (entry.status !== 'WAITING' && entry.status !== 'NOTIFIED') {
+      throw new WaitlistError('Only active waitlist entries can be promoted', 'BAD_REQUEST')
+    }
+
+    const result = await this.db.$transaction(async tx => {
+      const offer = await tx.waitlistOffer.findFirst({
+        where: { waitlistEntryId: entryId, status: 'PENDING' },
+      })
+
+      if (!slot && !offer) {
+        throw new WaitlistError('No slot is being held for this waitlist entry', 'BAD_REQUEST')
+      }
+
+      if (!slot && offer && offer.holdExpiresAt <= new Date()) {
+        throw new WaitlistError('The slot hold for this waitlist entry has expired', 'BAD_REQUEST')
+      }
+
+      const target = slot ?? offerToSlot(offer!)
+      const clinicId = target.clinicId ?? entry.clinicId
+      const serviceId = target.serviceId ?? entry.serviceId
+
+      const conflicts = await findBookingConflicts(
+        tx,
+        { doctorId: target.doctorId, clinicId, start: target.start, end: target.end },
+        { excludeWaitlistOfferId: offer?.id }
+      )
+
+      if (conflicts.length > 0) {
+        throw new WaitlistError(conflicts[0]!.message, 'CONFLICT')
+      }
+
+      // Walk-in entries without a user account are booked manually by the front desk
+      const appointment = entry.patientId && clinicId && serviceId
+        ? await tx.appointment.create({
+            data: {
+              clinicId,
+              doctorId: target.doctorId,
+              serviceId,
+              patientId: entry.patientId,
+              appointmentDate: target.start,
+              notes: 'Booked from waitlist',
+              isUrgent: entry.urgencyLevel !== 'ROUTINE',
+              status: 'CONFIRMED',
+            },
+            select: { id: true, appointmentDate: true },
+          })
+        : null
+
+      if (offer) {
+        await tx.waitlistOffer.update({
+          where: { id: offer.id },
+          data: { status: slot ? 'WITHDRAWN' : 'ACCEPTED', respondedAt: new Date() },
+        })
+      }
+
+      const updated = await tx.waitlistEntry.update({
+        where: { id: entryId },
+        data: {
+          status: 'CONFIRMED',
+          promotedAppointmentId: appointment?.id ?? null,
+        },
+      })
+
+      return {
+        entry: updated,
+        appointment,
+        requiresManualBooking: !appointment,
+        releasedOffer: slot ? offer : null,
+      }
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+    // Staff booked a different slot, so the one being held goes to the next patient
+    const { releasedOffer, ...promotion } = result
+    if (releasedOffer) {
+      await this.tryOfferFreedSlot(offerToSlot(releasedOffer))
+    }
+
+    return promotion
+  }
+
+  /**
+   * Patient turns down the held slot; they keep their place and the slot moves on
+   */
+  async declineOffer(entryId: string) {
+    const offer = await this.db.$transaction(async tx => {
+      const pending = await tx.waitlistOffer.findFirst({
+        where: { waitlistEntryId: entryId, status: 'PENDING' },
+      })
+
+      if (!pending) {
+        throw new WaitlistError('No slot is being held for this waitlist entry', 'BAD_REQUEST')
+      }
+
+      await tx.waitlistOffer.update({
+        where: { id: pending.id },
+        data: { status: 'DECLINED', respondedAt: new Date() },
+      })
+      await tx.waitlistEntry.update({
+        where: { id: entryId },
+        data: { status: 'WAITING' },
+      })
+
+      return pending
+    })
+
+    const nextOffer = await this.tryOfferFreedSlot(offerToSlot(offer))
+
+    return { success: true, nextOffer }
+  }
+
+  /**
+   * Remove an entry from the queue without promoting it (e.g. unreachable patient)
+   */
+  async expire(entryId: string) {
+    const entry = await this.findEntry(entryId)
+
+    const pendingOffer = await this.db.$transaction(async tx => {
+      const offer = await tx.waitlistOffer.findFirst({
+        where: { waitlistEntryId: entry.id, status: 'PENDING' },
+      })
+
+      if (offer) {
+        await tx.waitlistOffer.update({
+          where: { id: offer.id },
+          data: { status: 'EXPIRED' },
+        })
+      }
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: 'EXPIRED' },
+      })
+
+      return offer
+    })
+
+    if (pendingOffer) {
+      await this.tryOfferFreedSlot(offerToSlot(pendingOffer))
+    }
+
+    return this.findEntry(entryId)
+  }
+
+  /**
+   * Expire lapsed holds and pass each slot to the next eligible entry.
+   * Entries return to WAITING unless they have missed too many offers.
+   * Run on a schedule by `npm run jobs:waitlist-holds`.
+   * Safe to run repeatedly; it only touches PENDING offers past their hold.
+   */
+  async releaseExpiredHolds(now: Date = new Date()) {
+    const lapsed = await this.db.waitlistOffer.findMany({
+      where: { status: 'PENDING', holdExpiresAt: { lte: now } },
+      select: { id: true },
+    })
+
+    const reoffered: WaitlistOffer[] = []
+    let expiredCount = 0
+
+    for (const { id } of lapsed) {
+      // Re-read the offer: the patient may have answered it, or another sweep released it
+      const expired = await runSerializable(this.db, async tx => {
+        const offer = await tx.waitlistOffer.findFirst({
+          where: { id, status: 'PENDING', holdExpiresAt: { lte: now } },
+          include: { entry: { select: { id: true, missedOffers: true } } },
+        })
+        if (!offer) return null
+
+        await tx.waitlistOffer.update({
+          where: { id },
+          data: { status: 'EXPIRED' },
+        })
+
+        const missedOffers = offer.entry.missedOffers + 1
+        await tx.waitlistEntry.update({
+          where: { id: offer.entry.id },
+          data: {
+            missedOffers,
+            status: missedOffers >= this.maxMissedOffers ? 'EXPIRED' : 'WAITING',
+          },
+        })
+
+        return offer
+      })
+
+      if (!expired) continue
+      expiredCount++
+
+      const next = await this.tryOfferFreedSlot(offerToSlot(expired))
+      if (next) reoffered.push(next)
+    }
+
+    return { expired: expiredCount, reoffered }
+  }
+
+  private async findEntry(entryId: string) {
+    const entry = await this.db.waitlistEntry.findUnique({ where: { id: entryId } })
+
+    if (!entry) {
+      throw new WaitlistError('Waitlist entry not found', 'NOT_FOUND')
+    }
+
+    return entry
+  }
+
+  private async notifyOffer(offer: WaitlistOffer) {
+    const entry = await this.db.waitlistEntry.findUnique({
+      where: { id: offer.waitlistEntryId },
+      select: { patientId: true, patientName: true },
+    })
+
+    if (!entry?.patientId) return
+
+    await queueNotification(this.db, {
+      userId: entry.patientId,
+      type: 'STATUS_UPDATE',
+      channel: 'SMS',
+      priority: 'HIGH',
+      title: 'A waitlist slot is available',
+      message: `A slot on ${formatSingaporeDateTime(offer.slotStart)} is being held for you until ${formatSingaporeTime(offer.holdExpiresAt)}.`,
+      actionUrl: `/appointments/waitlist/${offer.waitlistEntryId}`,
+      actionText: 'Confirm slot',
+    })
+  }
+}
+
+function offerToSlot(offer: WaitlistOffer): FreedSlot {
+  return {
+    doctorId: offer.doctorId,
+    clinicId: offer.clinicId,
+    serviceId: offer.serviceId,
+    start: offer.slotStart,
+    end: offer.slotEnd,
+    sourceAppointmentId: offer.sourceAppointmentId,
+  }
+}
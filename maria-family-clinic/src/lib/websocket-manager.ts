@@ -1,5 +1,7 @@
 import { WebSocketServer, WebSocket } from 'ws'
+import type { IncomingMessage } from 'http'
 import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
 import { 
   ChatSessionStatus, 
   ChatPriority, 
@@ -7,25 +9,85 @@ import {
   MessageSenderType,
   MessageRecipientType
 } from '../lib/types/multi-channel-contact'
+import type { LiveChatSession } from '@prisma/client'
+import type { TranscriptEntry } from './chatbot/handoff'
+import { CHAT_PRIORITY_RANK, LiveChatQueueError, LiveChatQueueService, type QueuedChat } from './live-chat/service'
+import type { ChatParty, PubSub, RealtimeBackend, SessionStore } from './live-chat/realtime'
+import { createRealtimeBackend } from './live-chat/redis-realtime'
+import { prisma } from './db'
 
-// WebSocket Manager for Multi-Channel Real-Time Communication
+const ABANDON_AFTER_MS = 60_000 // Customer gone while still waiting
+const CLEANUP_AFTER_MS = 30_000 // Keep ended sessions this long for history
+const TYPING_TTL_MS = 10_000 // A typing indicator nobody clears goes away by itself
+const AGENTS_CHANNEL = 'livechat:agents'
+
+export interface WebSocketManagerOptions {
+  port?: number
+  /** False to accept connections through `acceptConnection` only, e.g. behind another server */
+  listen?: boolean
+  /** Shared by every node; defaults to Redis when REDIS_URL is set */
+  backend?: RealtimeBackend<ChatSession, ChatMessage>
+  /** Persistent queue the chatbot hands conversations to */
+  liveChatQueue?: LiveChatQueueService
+  nodeId?: string
+  sweepIntervalMs?: number
+  now?: () => Date
+  /** Failures in background work (Redis, timer sweeps, cross-node delivery); emitted as `serverError` by default */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * WebSocket Manager for Multi-Channel Real-Time Communication
+ *
+ * Only the sockets live in this process. Sessions, history, typing indicators, messages
+ * for offline parties, the agent queue and timers are in the shared session store, and
+ * a message for a socket on another node goes through pub/sub, so any number of nodes
+ * can run behind a load balancer and a client can reconnect to any of them with
+ * `resume_chat`.
+ */
 export class WebSocketManager extends EventEmitter {
+  readonly nodeId: string
+  /** Resolves once this node receives messages from the others */
+  readonly ready: Promise<void>
   private wss: WebSocketServer
   private connections: Map<string, WebSocketConnection> = new Map()
-  private chatSessions: Map<string, ChatSession> = new Map()
-  private messageQueue: Map<string, MessageQueue[]> = new Map()
+  private store: SessionStore<ChatSession, ChatMessage>
+  private pubsub: PubSub
+  private unsubscribers: (() => Promise<void>)[] = []
+  private sweepTimer: NodeJS.Timeout
+  private liveChatQueue?: LiveChatQueueService
+  private now: () => Date
+  private onError: (error: unknown) => void
   private isShuttingDown: boolean = false
 
-  constructor(port: number = 8080) {
+  /**
+   * Chats started from a chatbot handoff are also claimed in `liveChatQueue`, so an
+   * agent's claim is never lost
+   */
+  constructor(options: WebSocketManagerOptions = {}) {
     super()
-    this.wss = new WebSocketServer({ port })
+    const port = options.port ?? 8080
+    this.onError = options.onError ?? (error => this.emit('serverError', error))
+    const backend = options.backend ?? createRealtimeBackend<ChatSession, ChatMessage>(this.onError)
+    this.nodeId = options.nodeId ?? `node_${randomUUID()}`
+    this.store = backend.store
+    this.pubsub = backend.pubsub
+    this.liveChatQueue = options.liveChatQueue
+    this.now = options.now ?? (() => new Date())
+    
+    this.wss = new WebSocketServer(options.listen === false ? { noServer: true } : { port })
     this.setupWebSocketServer()
-    console.log(`WebSocket server started on port ${port}`)
+    this.ready = this.subscribeToNodes()
+    
+    this.sweepTimer = setInterval(() => {
+      this.sweepDeadlines().catch(this.onError)
+    }, options.sweepIntervalMs ?? 5000)
+    this.sweepTimer.unref()
   }
 
   private setupWebSocketServer() {
     this.wss.on('connection', (ws: WebSocket, request) => {
-      this.handleConnection(ws, request)
+      this.acceptConnection(ws, request)
     })
 
     this.wss.on('error', (error) => {
@@ -34,24 +96,49 @@ export class WebSocketManager extends EventEmitter {
     })
   }
 
-  private handleConnection(ws: WebSocket, request: any) {
+  private async subscribeToNodes(): Promise<void> {
+    // Messages for sockets on this node
+    this.unsubscribers.push(await this.pubsub.subscribe(`livechat:node:${this.nodeId}`, payload => {
+      const { connectionId, message, fallback } = payload as NodeDelivery
+      if (this.connections.has(connectionId)) {
+        this.sendToConnection(connectionId, message)
+      } else if (fallback) {
+        // Gone since the sender looked it up
+        this.store.queueDelivery(fallback.sessionId, fallback.party, fallback.message).catch(this.onError)
+      }
+    }))
+    
+    // Broadcasts to agents, wherever they are connected
+    this.unsubscribers.push(await this.pubsub.subscribe(AGENTS_CHANNEL, payload => {
+      const { agentIds, message } = payload as AgentBroadcast
+      for (const connection of this.connections.values()) {
+        if (agentIds.includes(connection.getMetadata('agentId'))) connection.send(message)
+      }
+    }))
+  }
+
+  /**
+   * Take over a socket, whether from this node's server or one upgraded elsewhere
+   */
+  acceptConnection(ws: WebSocket, request: IncomingMessage): string {
     const connectionId = this.generateConnectionId()
     const connection = new WebSocketConnection(ws, connectionId, request)
     
     this.connections.set(connectionId, connection)
+    this.saveConnection(connection).catch(this.onError)
     
     console.log(`New WebSocket connection: ${connectionId}`)
     
     // Setup event listeners
-    connection.on('message', (data) => {
+    connection.on('message', (data: Buffer) => {
       this.handleMessage(connectionId, data)
     })
     
     connection.on('close', () => {
-      this.handleDisconnection(connectionId)
+      this.handleDisconnection(connectionId).catch(this.onError)
     })
     
-    connection.on('error', (error) => {
+    connection.on('error', (error: Error) => {
       console.error(`WebSocket connection error ${connectionId}:`, error)
     })
 
@@ -60,31 +147,42 @@ export class WebSocketManager extends EventEmitter {
       type: 'connection_established',
       data: {
         connectionId,
-        timestamp: new Date().toISOString(),
-        serverTime: new Date().toISOString()
+        nodeId: this.nodeId,
+        timestamp: this.now().toISOString(),
+        serverTime: this.now().toISOString()
       }
     })
+    
+    return connectionId
   }
 
-  private handleMessage(connectionId: string, data: any) {
+  private async handleMessage(connectionId: string, data: Buffer) {
     try {
       const message = JSON.parse(data.toString())
       
       switch (message.type) {
         case 'start_chat':
-          this.startChatSession(connectionId, message.data)
+          await this.startChatSession(connectionId, message.data)
+          break
+          
+        case 'resume_chat':
+          await this.resumeChatSession(connectionId, message.data)
+          break
+          
+        case 'agent_online':
+          await this.registerAgent(connectionId, message.data)
           break
           
         case 'join_chat':
-          this.joinChatSession(connectionId, message.data)
+          await this.joinChatSession(connectionId, message.data)
           break
           
         case 'send_message':
-          this.sendMessage(connectionId, message.data)
+          await this.sendMessage(connectionId, message.data)
           break
           
         case 'typing_indicator':
-          this.updateTypingStatus(connectionId, message.data)
+          await this.updateTypingStatus(connectionId, message.data)
           break
           
         case 'mark_read':
@@ -92,7 +190,7 @@ export class WebSocketManager extends EventEmitter {
           break
           
         case 'end_chat':
-          this.endChatSession(connectionId, message.data)
+          await this.endChatSession(connectionId, message.data)
           break
           
         case 'transfer_chat':
@@ -100,7 +198,7 @@ export class WebSocketManager extends EventEmitter {
           break
           
         case 'request_availability':
-          this.checkAgentAvailability(connectionId, message.data)
+          await this.checkAgentAvailability(connectionId, message.data)
           break
           
         case 'get_session_info':
@@ -115,21 +213,25 @@ export class WebSocketManager extends EventEmitter {
     }
   }
 
-  private handleDisconnection(connectionId: string) {
+  private async handleDisconnection(connectionId: string) {
     const connection = this.connections.get(connectionId)
     if (connection) {
-      // Find and update any active chat sessions
-      for (const [sessionId, session] of this.chatSessions) {
+      this.connections.delete(connectionId)
+      await this.store.deleteConnection(connectionId)
+      
+      // Find and update any open chat sessions
+      const at = this.now().getTime()
+      for (const session of await this.store.listSessions()) {
+        if (isClosed(session.status)) continue
         if (session.customerConnectionId === connectionId) {
-          // Customer disconnected - mark session as abandoned after timeout
-          this.scheduleSessionAbandonment(sessionId)
+          // Customer disconnected - abandon the chat unless they come back in time
+          await this.store.scheduleDeadline('abandon', session.id, at + ABANDON_AFTER_MS)
         } else if (session.agentConnectionId === connectionId) {
           // Agent disconnected - notify customer
-          this.notifyCustomerAgentDisconnected(sessionId)
+          await this.notifyCustomerAgentDisconnected(session)
         }
       }
       
-      this.connections.delete(connectionId)
       console.log(`WebSocket connection closed: ${connectionId}`)
     }
   }
@@ -137,46 +239,180 @@ export class WebSocketManager extends EventEmitter {
   // Chat Session Management
   
   async startChatSession(connectionId: string, data: StartChatData): Promise<string> {
-    const sessionId = this.generateSessionId()
+    if (data.handoffSessionId) {
+      const handedOff = await this.resumeHandoff(connectionId, data.handoffSessionId)
+      if (handedOff) return handedOff
+    }
+    
+    const now = this.now().toISOString()
     const session: ChatSession = {
-      id: sessionId,
+      id: this.generateSessionId(),
       customerConnectionId: connectionId,
       customerInfo: data.customerInfo,
       status: ChatSessionStatus.WAITING,
       priority: data.priority || ChatPriority.NORMAL,
-      queuePosition: await this.calculateQueuePosition(data.priority || ChatPriority.NORMAL),
-      startedAt: new Date(),
-      lastActivity: new Date(),
+      startedAt: now,
+      lastActivity: now,
       medicalKeywords: data.medicalKeywords || [],
       department: data.department,
       clinicId: data.clinicId
     }
     
-    this.chatSessions.set(sessionId, session)
-    
-    // Add to message queue
-    this.messageQueue.set(sessionId, [])
+    await this.store.saveSession(session)
+    await this.store.addToQueue(session.id, queueScore(session))
+    const queuePosition = await this.queuePosition(session.id)
     
     // Notify customer
     this.sendToConnection(connectionId, {
       type: 'chat_session_started',
       data: {
-        sessionId,
-        queuePosition: session.queuePosition,
-        estimatedWaitTime: this.calculateEstimatedWaitTime(session.queuePosition)
+        sessionId: session.id,
+        queuePosition,
+        estimatedWaitTime: this.calculateEstimatedWaitTime(queuePosition ?? 0)
       }
     })
     
     // Notify agents
-    this.notifyAvailableAgents(session)
+    await this.notifyAvailableAgents(session)
     
     this.emit('chatSessionStarted', session)
     
+    return session.id
+  }
+
+  /**
+   * Reattach a client to its chat after a dropped connection or a node restart,
+   * replaying what it missed. Customers are trusted on the session id, as they are
+   * when starting from a handoff; agents must be the one assigned to the chat.
+   */
+  private async resumeChatSession(connectionId: string, data: ResumeChatData): Promise<void> {
+    const session = await this.store.getSession(data.sessionId)
+    if (!session || isClosed(session.status)) {
+      this.sendError(connectionId, 'SESSION_NOT_FOUND', 'Chat session not found')
+      return
+    }
+    
+    if (data.role === 'agent') {
+      if (!data.agentId || session.agentId !== data.agentId) {
+        this.sendError(connectionId, 'NOT_ASSIGNED', 'This chat is assigned to another agent')
+        return
+      }
+      await this.store.updateSession(session.id, { agentConnectionId: connectionId })
+      await this.markAgent(connectionId, data.agentId)
+    } else {
+      await this.store.cancelDeadline('abandon', session.id)
+      await this.store.updateSession(session.id, { customerConnectionId: connectionId, lastActivity: this.now().toISOString() })
+    }
+    
+    const party: ChatParty = data.role === 'agent' ? 'agent' : 'customer'
+    const typing = await this.store.getTyping(session.id)
+    this.sendToConnection(connectionId, {
+      type: 'chat_session_resumed',
+      data: {
+        sessionId: session.id,
+        status: session.status,
+        agentName: session.agentName,
+        queuePosition: await this.queuePosition(session.id),
+        sessionHistory: await this.getSessionHistory(session.id),
+        otherPartyTyping: typing.some(typist => typist !== party)
+      }
+    })
+    await this.deliverQueued(session.id, party, connectionId)
+    
+    this.emit('chatSessionResumed', session, party)
+  }
+
+  /**
+   * Announce a chatbot handoff to agents as soon as it is queued, before the customer's
+   * widget connects. Pass as the queue's `onHandoff` when both run in this process.
+   */
+  async announceHandoff(chat: QueuedChat): Promise<void> {
+    const existing = await this.store.getSession(chat.sessionId)
+    const session = existing
+      ? await this.store.updateSession(chat.sessionId, {
+          priority: chat.priority as ChatPriority,
+          language: chat.language,
+          handoffReason: chat.handoffReason ?? undefined,
+          botEntities: chat.botEntities as Record<string, unknown>
+        })
+      : await this.createHandoffSession(chat, '')
+    if (!session) return
+    
+    if (session.status === ChatSessionStatus.WAITING) await this.store.addToQueue(session.id, queueScore(session))
+    await this.notifyAvailableAgents(session)
+  }
+
+  /**
+   * Attach the customer's connection to a chat the chatbot queued, carrying over the
+   * bot transcript. Knowing the chatbot session id is what entitles the customer to
+   * the chat, as it is for the chatbot itself.
+   */
+  private async resumeHandoff(connectionId: string, sessionId: string): Promise<string | null> {
+    const chat = await this.liveChatQueue?.getOpen(sessionId)
+    if (!chat) return null
+    
+    const existing = await this.store.getSession(sessionId)
+    const session = existing
+      ? await this.store.updateSession(sessionId, { customerConnectionId: connectionId, lastActivity: this.now().toISOString() })
+      : await this.createHandoffSession(chat, connectionId)
+    if (!session) return null
+    await this.store.cancelDeadline('abandon', sessionId)
+    
+    const queuePosition = await this.queuePosition(sessionId)
+    this.sendToConnection(connectionId, {
+      type: 'chat_session_started',
+      data: {
+        sessionId,
+        queuePosition,
+        estimatedWaitTime: queuePosition ? this.calculateEstimatedWaitTime(queuePosition) : 0,
+        sessionHistory: await this.getSessionHistory(sessionId)
+      }
+    })
+    
+    if (!existing) await this.notifyAvailableAgents(session)
+    this.emit('chatSessionStarted', session)
+    
     return sessionId
   }
 
+  private async createHandoffSession(chat: LiveChatSession, connectionId: string): Promise<ChatSession> {
+    const session: ChatSession = {
+      id: chat.sessionId,
+      customerConnectionId: connectionId,
+      customerInfo: { name: chat.customerName, email: chat.customerEmail ?? undefined },
+      status: chat.status as ChatSessionStatus,
+      priority: chat.priority as ChatPriority,
+      startedAt: new Date(chat.startedAt).toISOString(),
+      lastActivity: this.now().toISOString(),
+      medicalKeywords: chat.medicalKeywords,
+      department: chat.department ?? undefined,
+      clinicId: chat.clinicId ?? undefined,
+      language: chat.language,
+      handoffReason: chat.handoffReason ?? undefined,
+      botEntities: chat.botEntities as Record<string, unknown>
+    }
+    await this.store.saveSession(session)
+    
+    const transcript = Array.isArray(chat.botTranscript) ? (chat.botTranscript as unknown as TranscriptEntry[]) : []
+    for (const entry of transcript) {
+      await this.store.appendMessage(session.id, {
+        id: this.generateMessageId(),
+        sessionId: chat.sessionId,
+        content: entry.content,
+        messageType: MessageType.TEXT,
+        senderType: entry.role === 'customer' ? MessageSenderType.CUSTOMER : MessageSenderType.BOT,
+        senderName: entry.role === 'customer' ? chat.customerName : 'Chatbot',
+        timestamp: entry.at,
+        metadata: { intent: entry.intent, entities: entry.entities }
+      })
+    }
+    if (session.status === ChatSessionStatus.WAITING) await this.store.addToQueue(session.id, queueScore(session))
+    
+    return session
+  }
+
   private async joinChatSession(connectionId: string, data: JoinChatData): Promise<void> {
-    const session = this.chatSessions.get(data.sessionId)
+    const session = await this.store.getSession(data.sessionId)
     if (!session) {
       this.sendError(connectionId, 'SESSION_NOT_FOUND', 'Chat session not found')
       return
@@ -188,24 +424,46 @@ export class WebSocketManager extends EventEmitter {
       return
     }
     
-    // Assign agent to session
-    session.agentConnectionId = connectionId
-    session.agentId = data.agentId
-    session.agentName = data.agentName
-    session.status = ChatSessionStatus.ACTIVE
-    session.agentJoinedAt = new Date()
-    session.firstResponseAt = new Date()
+    // Agents on any node may try at once; the first to claim the chat gets it
+    const claimed = await this.store.claimSessionField(session.id, 'agentId', data.agentId)
+    if (!claimed && session.agentId !== data.agentId) {
+      this.sendError(connectionId, 'CLAIM_FAILED', 'Another agent has already joined this chat')
+      return
+    }
     
-    // Update queue position for other waiting sessions
-    this.updateQueuePositions()
+    // Handed-off chats can also be claimed from the dashboard; the queue decides
+    if (claimed && session.handoffReason && this.liveChatQueue) {
+      try {
+        await this.liveChatQueue.claim(session.id, { id: data.agentId, name: data.agentName })
+      } catch (error) {
+        await this.store.updateSession(session.id, { agentId: undefined })
+        if (!(error instanceof LiveChatQueueError)) this.onError(error)
+        this.sendError(connectionId, 'CLAIM_FAILED', error instanceof LiveChatQueueError ? error.message : 'Could not join this chat')
+        return
+      }
+    }
+    
+    // Assign agent to session
+    const now = this.now().toISOString()
+    const joined = await this.store.updateSession(session.id, {
+      agentConnectionId: connectionId,
+      agentName: data.agentName,
+      status: ChatSessionStatus.ACTIVE,
+      agentJoinedAt: session.agentJoinedAt ?? now,
+      firstResponseAt: session.firstResponseAt ?? now,
+      lastActivity: now
+    })
+    if (!joined) return
+    await this.store.removeFromQueue(session.id)
+    await this.markAgent(connectionId, data.agentId)
     
     // Notify customer
-    this.sendToConnection(session.customerConnectionId, {
+    await this.deliver(joined.customerConnectionId, {
       type: 'agent_joined',
       data: {
-        sessionId: session.id,
-        agentName: session.agentName,
-        agentId: session.agentId
+        sessionId: joined.id,
+        agentName: joined.agentName,
+        agentId: joined.agentId
       }
     })
     
@@ -213,116 +471,145 @@ export class WebSocketManager extends EventEmitter {
     this.sendToConnection(connectionId, {
       type: 'chat_session_joined',
       data: {
-        sessionId: session.id,
-        customerInfo: session.customerInfo,
-        sessionHistory: this.getSessionHistory(session.id)
+        sessionId: joined.id,
+        customerInfo: joined.customerInfo,
+        sessionHistory: await this.getSessionHistory(joined.id),
+        customerTyping: (await this.store.getTyping(joined.id)).includes('customer')
       }
     })
+    await this.deliverQueued(joined.id, 'agent', connectionId)
     
-    this.emit('chatSessionJoined', session)
+    this.emit('chatSessionJoined', joined)
   }
 
-  private sendMessage(connectionId: string, data: SendMessageData): void {
-    const session = this.chatSessions.get(data.sessionId)
+  private async sendMessage(connectionId: string, data: SendMessageData): Promise<void> {
+    const session = await this.store.getSession(data.sessionId)
     if (!session) {
       this.sendError(connectionId, 'SESSION_NOT_FOUND', 'Chat session not found')
       return
     }
     
+    const sender = this.partyOf(session, connectionId)
+    if (!sender) {
+      this.sendError(connectionId, 'NOT_IN_SESSION', 'You are not part of this chat')
+      return
+    }
+    
     const message: ChatMessage = {
       id: this.generateMessageId(),
       sessionId: data.sessionId,
       content: data.content,
       messageType: data.messageType || MessageType.TEXT,
-      senderType: connectionId === session.customerConnectionId ? MessageSenderType.CUSTOMER : MessageSenderType.AGENT,
-      senderName: connectionId === session.customerConnectionId ? 
+      senderType: sender === 'customer' ? MessageSenderType.CUSTOMER : MessageSenderType.AGENT,
+      senderName: sender === 'customer' ? 
         session.customerInfo.name : 
         session.agentName || 'Agent',
-      timestamp: new Date(),
+      timestamp: this.now().toISOString(),
       metadata: data.metadata || {}
     }
     
     // Add to session history
-    session.messageHistory.push(message)
-    session.lastActivity = new Date()
-    session.messageCount = (session.messageCount || 0) + 1
+    const messageCount = await this.store.appendMessage(session.id, message)
+    await this.store.updateSession(session.id, { lastActivity: message.timestamp, messageCount })
+    await this.store.setTyping(session.id, sender, false, 0)
     
-    // Determine recipient
-    const recipientConnectionId = connectionId === session.customerConnectionId ? 
-      session.agentConnectionId : 
-      session.customerConnectionId
-    
-    // Send to recipient if online
-    if (recipientConnectionId && this.connections.has(recipientConnectionId)) {
-      this.sendToConnection(recipientConnectionId, {
-        type: 'new_message',
-        data: message
-      })
-    } else {
-      // Store in message queue for when recipient comes back online
-      this.queueMessage(data.sessionId, {
-        message,
-        recipientConnectionId
-      })
-    }
+    // Send to the recipient wherever they are connected, or keep it until they are back
+    const recipient: ChatParty = sender === 'customer' ? 'agent' : 'customer'
+    const recipientConnectionId = recipient === 'agent' ? session.agentConnectionId : session.customerConnectionId
+    const event = { type: 'new_message', data: message }
+    const delivered = recipientConnectionId
+      ? await this.deliver(recipientConnectionId, event, { sessionId: session.id, party: recipient, message })
+      : false
+    if (!delivered) await this.store.queueDelivery(session.id, recipient, message)
     
     // Send delivery confirmation to sender
     this.sendToConnection(connectionId, {
       type: 'message_sent',
       data: {
         messageId: message.id,
-        timestamp: message.timestamp
+        timestamp: message.timestamp,
+        delivered
       }
     })
     
     this.emit('messageSent', message, session)
   }
 
-  private updateTypingStatus(connectionId: string, data: TypingIndicatorData): void {
-    const session = this.chatSessions.get(data.sessionId)
+  private async updateTypingStatus(connectionId: string, data: TypingIndicatorData): Promise<void> {
+    const session = await this.store.getSession(data.sessionId)
     if (!session) return
     
-    const recipientConnectionId = connectionId === session.customerConnectionId ? 
+    const sender = this.partyOf(session, connectionId)
+    if (!sender) return
+    await this.store.setTyping(session.id, sender, data.isTyping, TYPING_TTL_MS)
+    
+    const recipientConnectionId = sender === 'customer' ? 
       session.agentConnectionId : 
       session.customerConnectionId
     
-    if (recipientConnectionId && this.connections.has(recipientConnectionId)) {
-      this.sendToConnection(recipientConnectionId, {
+    if (recipientConnectionId) {
+      await this.deliver(recipientConnectionId, {
         type: 'typing_indicator',
         data: {
           sessionId: data.sessionId,
           isTyping: data.isTyping,
-          senderName: session.customerInfo.name
+          senderName: sender === 'customer' ? session.customerInfo.name : session.agentName || 'Agent'
         }
       })
     }
   }
 
-  private endChatSession(connectionId: string, data: EndChatData): void {
-    const session = this.chatSessions.get(data.sessionId)
+  private async endChatSession(connectionId: string, data: EndChatData): Promise<void> {
+    const session = await this.store.getSession(data.sessionId)
     if (!session) {
       this.sendError(connectionId, 'SESSION_NOT_FOUND', 'Chat session not found')
       return
     }
     
-    session.status = ChatSessionStatus.COMPLETED
-    session.endedAt = new Date()
-    session.endedBy = data.endedBy
-    session.satisfactionScore = data.satisfactionScore
+    const ended = await this.store.updateSession(session.id, {
+      status: ChatSessionStatus.COMPLETED,
+      endedAt: this.now().toISOString(),
+      endedBy: data.endedBy,
+      satisfactionScore: data.satisfactionScore
+    })
+    if (!ended) return
+    await this.store.removeFromQueue(session.id)
+    await this.store.cancelDeadline('abandon', session.id)
     
     // Notify both participants
-    this.notifySessionEnd(session)
+    await this.notifySessionEnd(ended)
     
-    // Clean up after delay
-    setTimeout(() => {
-      this.cleanupSession(data.sessionId)
-    }, 30000) // Keep session for 30 seconds for history
+    // Keep session for a while for history, then clean up on whichever node is around
+    await this.store.scheduleDeadline('cleanup', session.id, this.now().getTime() + CLEANUP_AFTER_MS)
     
-    this.emit('chatSessionEnded', session)
+    this.emit('chatSessionEnded', ended)
   }
 
   // Agent Management
   
+  private async registerAgent(connectionId: string, data: AgentOnlineData): Promise<void> {
+    await this.markAgent(connectionId, data.agentId, data.department)
+    
+    // Catch the agent up on chats that were waiting before they connected
+    const waiting = await Promise.all((await this.store.queuedSessionIds()).map(id => this.store.getSession(id)))
+    this.sendToConnection(connectionId, {
+      type: 'chat_queue',
+      data: {
+        sessions: waiting
+          .filter((session): session is ChatSession => session !== null && (!data.department || !session.department || session.department === data.department))
+          .map(session => ({ sessionId: session.id, customerInfo: session.customerInfo, priority: session.priority, startedAt: session.startedAt }))
+      }
+    })
+  }
+  
+  private async markAgent(connectionId: string, agentId: string, department?: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) return
+    connection.setMetadata('agentId', agentId)
+    if (department) connection.setMetadata('department', department)
+    await this.saveConnection(connection)
+  }
+  
   private async checkAgentAvailability(connectionId: string, data: AvailabilityCheckData): Promise<void> {
     const availableAgents = await this.getAvailableAgents(data.department)
     
@@ -336,8 +623,8 @@ export class WebSocketManager extends EventEmitter {
   }
   
   private async isAgentAvailable(agentId: string, department?: string): Promise<boolean> {
-    // Check if agent is currently assigned to maximum sessions
-    const activeSessions = Array.from(this.chatSessions.values())
+    // Check if agent is currently assigned to maximum sessions, counting every node
+    const activeSessions = (await this.store.listSessions())
       .filter(session => 
         session.agentId === agentId && 
         session.status === ChatSessionStatus.ACTIVE
@@ -366,52 +653,80 @@ export class WebSocketManager extends EventEmitter {
   private async notifyAvailableAgents(session: ChatSession): Promise<void> {
     const availableAgents = await this.getAvailableAgents(session.department)
     
-    for (const agent of availableAgents) {
-      // Find agent's WebSocket connection
-      const agentConnection = Array.from(this.connections.values())
-        .find(conn => conn.getMetadata('agentId') === agent.id)
-      
-      if (agentConnection) {
-        this.sendToConnection(agentConnection.getId(), {
-          type: 'new_chat_request',
-          data: {
-            sessionId: session.id,
-            customerInfo: session.customerInfo,
-            queuePosition: session.queuePosition,
-            priority: session.priority,
-            medicalKeywords: session.medicalKeywords
-          }
-        })
+    const broadcast: AgentBroadcast = {
+      agentIds: availableAgents.map(agent => agent.id),
+      message: {
+        type: 'new_chat_request',
+        data: {
+          sessionId: session.id,
+          customerInfo: session.customerInfo,
+          queuePosition: await this.queuePosition(session.id),
+          priority: session.priority,
+          medicalKeywords: session.medicalKeywords,
+          language: session.language,
+          handoffReason: session.handoffReason,
+          botEntities: session.botEntities,
+          // Agents see what the customer already told the bot
+          transcript: session.handoffReason ? await this.getSessionHistory(session.id) : undefined
+        }
       }
     }
+    await this.pubsub.publish(AGENTS_CHANNEL, broadcast)
   }
 
-  // Message Queue Management
+  // Delivery Across Nodes
   
-  private queueMessage(sessionId: string, queueItem: MessageQueue): void {
-    const queue = this.messageQueue.get(sessionId) || []
-    queue.push(queueItem)
-    this.messageQueue.set(sessionId, queue)
+  /**
+   * Send to a connection on this node or any other. False when nobody holds the
+   * connection any more; with a fallback, a node that finds it gone queues the message.
+   */
+  private async deliver(connectionId: string, message: ServerMessage, fallback?: QueuedDelivery): Promise<boolean> {
+    if (this.connections.has(connectionId)) {
+      this.sendToConnection(connectionId, message)
+      return true
+    }
+    
+    const record = await this.store.getConnection(connectionId)
+    if (!record || record.nodeId === this.nodeId) return false
+    
+    const delivery: NodeDelivery = { connectionId, message, fallback }
+    const receivers = await this.pubsub.publish(`livechat:node:${record.nodeId}`, delivery)
+    if (receivers === 0) {
+      // The node died without cleaning up after itself
+      await this.store.deleteConnection(connectionId)
+      return false
+    }
+    return true
   }
   
-  private processQueuedMessages(sessionId: string): void {
-    const queue = this.messageQueue.get(sessionId) || []
-    
-    for (const item of queue) {
-      if (item.recipientConnectionId && this.connections.has(item.recipientConnectionId)) {
-        this.sendToConnection(item.recipientConnectionId, {
-          type: 'new_message',
-          data: item.message
-        })
-      }
+  private async deliverQueued(sessionId: string, party: ChatParty, connectionId: string): Promise<void> {
+    for (const message of await this.store.takeDeliveries(sessionId, party)) {
+      this.sendToConnection(connectionId, {
+        type: 'new_message',
+        data: message
+      })
     }
-    
-    this.messageQueue.delete(sessionId)
+  }
+  
+  private partyOf(session: ChatSession, connectionId: string): ChatParty | null {
+    if (connectionId === session.customerConnectionId) return 'customer'
+    if (connectionId === session.agentConnectionId) return 'agent'
+    return null
+  }
+  
+  private async saveConnection(connection: WebSocketConnection): Promise<void> {
+    await this.store.saveConnection({
+      id: connection.getId(),
+      nodeId: this.nodeId,
+      agentId: connection.getMetadata('agentId'),
+      department: connection.getMetadata('department'),
+      connectedAt: connection.connectedAt
+    })
   }
 
   // Utility Methods
   
-  private sendToConnection(connectionId: string, message: any): void {
+  private sendToConnection(connectionId: string, message: ServerMessage): void {
     const connection = this.connections.get(connectionId)
     if (connection) {
       connection.send(message)
@@ -424,7 +739,7 @@ export class WebSocketManager extends EventEmitter {
       data: {
         code,
         message,
-        timestamp: new Date().toISOString()
+        timestamp: this.now().toISOString()
       }
     })
   }
@@ -434,21 +749,18 @@ export class WebSocketManager extends EventEmitter {
   }
   
   private generateSessionId(): string {
-    return `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    // Knowing the id is enough to resume the chat, so it must not be guessable
+    return `chat_${randomUUID()}`
   }
   
   private generateMessageId(): string {
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
   
-  private async calculateQueuePosition(priority: ChatPriority): Promise<number> {
-    const waitingSessions = Array.from(this.chatSessions.values())
-      .filter(session => 
-        session.status === ChatSessionStatus.WAITING && 
-        session.priority === priority
-      )
-    
-    return waitingSessions.length + 1
+  /** Place in the queue shared by every node, undefined once the chat is not waiting */
+  private async queuePosition(sessionId: string): Promise<number | undefined> {
+    const index = (await this.store.queuedSessionIds()).indexOf(sessionId)
+    return index === -1 ? undefined : index + 1
   }
   
   private calculateEstimatedWaitTime(queuePosition: number): number {
@@ -456,125 +768,99 @@ export class WebSocketManager extends EventEmitter {
     return queuePosition * 3 * 60 * 1000 // milliseconds
   }
   
-  private updateQueuePositions(): void {
-    const waitingSessions = Array.from(this.chatSessions.values())
-      .filter(session => session.status === ChatSessionStatus.WAITING)
-      .sort((a, b) => {
-        // Sort by priority first, then by start time
-        const priorityOrder = { 
-          [ChatPriority.LOW]: 1, 
-          [ChatPriority.NORMAL]: 2, 
-          [ChatPriority.HIGH]: 3, 
-          [ChatPriority.URGENT]: 4, 
-          [ChatPriority.CRITICAL]: 5,
-          [ChatPriority.VIP]: 6,
-          [ChatPriority.EMERGENCY]: 7
-        }
-        
-        const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority]
-        if (priorityDiff !== 0) return priorityDiff
-        
-        return a.startedAt.getTime() - b.startedAt.getTime()
-      })
-    
-    waitingSessions.forEach((session, index) => {
-      session.queuePosition = index + 1
-    })
-  }
-  
-  private getSessionHistory(sessionId: string): ChatMessage[] {
-    const session = this.chatSessions.get(sessionId)
-    return session?.messageHistory || []
+  private async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    return this.store.getMessages(sessionId)
   }
   
-  private scheduleSessionAbandonment(sessionId: string): void {
-    setTimeout(() => {
-      const session = this.chatSessions.get(sessionId)
+  /**
+   * Fire the abandonment and cleanup timers that are due, whichever node set them.
+   * Runs on an interval; each timer fires on exactly one node.
+   */
+  async sweepDeadlines(): Promise<void> {
+    const now = this.now().getTime()
+    
+    for (const sessionId of await this.store.claimDueDeadlines('abandon', now)) {
+      const session = await this.store.getSession(sessionId)
       if (session && session.status === ChatSessionStatus.WAITING) {
-        session.status = ChatSessionStatus.ABANDONED
-        this.sendToConnection(session.customerConnectionId, {
+        await this.store.updateSession(sessionId, { status: ChatSessionStatus.ABANDONED, endedAt: new Date(now).toISOString() })
+        await this.store.removeFromQueue(sessionId)
+        await this.store.scheduleDeadline('cleanup', sessionId, now + CLEANUP_AFTER_MS)
+        if (session.handoffReason) await this.liveChatQueue?.abandon(sessionId)
+        await this.deliver(session.customerConnectionId, {
           type: 'session_abandoned',
           data: { sessionId }
         })
       }
-    }, 60000) // 1 minute timeout
+    }
+    
+    for (const sessionId of await this.store.claimDueDeadlines('cleanup', now)) {
+      await this.cleanupSession(sessionId)
+    }
   }
   
-  private notifyCustomerAgentDisconnected(sessionId: string): void {
-    const session = this.chatSessions.get(sessionId)
-    if (session) {
-      this.sendToConnection(session.customerConnectionId, {
-        type: 'agent_disconnected',
-        data: { sessionId }
-      })
-    }
+  private async notifyCustomerAgentDisconnected(session: ChatSession): Promise<void> {
+    await this.deliver(session.customerConnectionId, {
+      type: 'agent_disconnected',
+      data: { sessionId: session.id }
+    })
   }
   
-  private notifySessionEnd(session: ChatSession): void {
-    // Notify customer
-    if (session.customerConnectionId && this.connections.has(session.customerConnectionId)) {
-      this.sendToConnection(session.customerConnectionId, {
-        type: 'chat_session_ended',
-        data: {
-          sessionId: session.id,
-          endedBy: session.endedBy,
-          satisfactionScore: session.satisfactionScore
-        }
-      })
+  private async notifySessionEnd(session: ChatSession): Promise<void> {
+    const ended: ServerMessage = {
+      type: 'chat_session_ended',
+      data: {
+        sessionId: session.id,
+        endedBy: session.endedBy,
+        satisfactionScore: session.satisfactionScore
+      }
     }
     
+    // Notify customer
+    if (session.customerConnectionId) await this.deliver(session.customerConnectionId, ended)
+    
     // Notify agent
-    if (session.agentConnectionId && this.connections.has(session.agentConnectionId)) {
-      this.sendToConnection(session.agentConnectionId, {
-        type: 'chat_session_ended',
-        data: {
-          sessionId: session.id,
-          endedBy: session.endedBy,
-          satisfactionScore: session.satisfactionScore
-        }
-      })
-    }
+    if (session.agentConnectionId) await this.deliver(session.agentConnectionId, ended)
   }
   
-  private cleanupSession(sessionId: string): void {
-    this.chatSessions.delete(sessionId)
-    this.messageQueue.delete(sessionId)
+  private async cleanupSession(sessionId: string): Promise<void> {
+    await this.store.deleteSession(sessionId)
   }
   
   // Public Methods
   
-  public getConnectionStats(): ConnectionStats {
+  public async getConnectionStats(): Promise<ConnectionStats> {
+    const sessions = await this.store.listSessions()
     return {
       totalConnections: this.connections.size,
-      activeChatSessions: Array.from(this.chatSessions.values())
-        .filter(s => s.status === ChatSessionStatus.ACTIVE).length,
-      waitingChatSessions: Array.from(this.chatSessions.values())
-        .filter(s => s.status === ChatSessionStatus.WAITING).length,
-      totalMessagesQueued: Array.from(this.messageQueue.values())
-        .reduce((total, queue) => total + queue.length, 0)
+      activeChatSessions: sessions.filter(s => s.status === ChatSessionStatus.ACTIVE).length,
+      waitingChatSessions: sessions.filter(s => s.status === ChatSessionStatus.WAITING).length,
+      totalMessagesQueued: await this.store.countDeliveries()
     }
   }
   
+  /**
+   * Close this node's sockets. Chats stay in the shared store: clients reconnect to
+   * another node with `resume_chat`, and customers who do not are abandoned as usual.
+   */
   public async shutdown(): Promise<void> {
     if (this.isShuttingDown) return
     
     this.isShuttingDown = true
     console.log('Shutting down WebSocket server...')
+    clearInterval(this.sweepTimer)
+    await this.ready.catch(() => undefined)
+    for (const unsubscribe of this.unsubscribers) await unsubscribe()
     
-    // Notify all connections
-    for (const [connectionId, connection] of this.connections) {
+    // Notify all connections, and the other parties in their chats
+    for (const [connectionId, connection] of [...this.connections]) {
       connection.send({
         type: 'server_shutdown',
-        data: { message: 'Server is shutting down' }
+        data: { message: 'Server is shutting down', reconnect: true }
       })
+      await this.handleDisconnection(connectionId)
       connection.close()
     }
     
-    // Clean up
-    this.connections.clear()
-    this.chatSessions.clear()
-    this.messageQueue.clear()
-    
     // Close WebSocket server
     this.wss.close()
     
@@ -582,16 +868,27 @@ export class WebSocketManager extends EventEmitter {
   }
 }
 
+function isClosed(status: ChatSessionStatus): boolean {
+  return [ChatSessionStatus.COMPLETED, ChatSessionStatus.CANCELLED, ChatSessionStatus.TIMEOUT, ChatSessionStatus.ABANDONED].includes(status)
+}
+
+/** Queue order: priority first, then how long the chat has waited */
+function queueScore(session: ChatSession): number {
+  const rank = CHAT_PRIORITY_RANK[session.priority as keyof typeof CHAT_PRIORITY_RANK] ?? 0
+  return (10 - rank) * 1e13 + new Date(session.startedAt).getTime()
+}
+
 // Supporting Classes and Interfaces
 
 class WebSocketConnection {
+  readonly connectedAt = new Date().toISOString()
   private ws: WebSocket
   private id: string
-  private request: any
+  private request: IncomingMessage
   private metadata: Map<string, any> = new Map()
   private eventEmitter: EventEmitter
 
-  constructor(ws: WebSocket, id: string, request: any) {
+  constructor(ws: WebSocket, id: string, request: IncomingMessage) {
     this.ws = ws
     this.id = id
     this.request = request
@@ -614,7 +911,7 @@ class WebSocketConnection {
     })
   }
   
-  send(message: any): void {
+  send(message: ServerMessage): void {
     try {
       this.ws.send(JSON.stringify(message))
     } catch (error) {
@@ -643,7 +940,8 @@ class WebSocketConnection {
   }
 }
 
-interface ChatSession {
+/** What the shared store keeps for a chat; dates are ISO strings so every node reads the same */
+export interface ChatSession {
   id: string
   customerConnectionId: string
   customerInfo: CustomerInfo
@@ -652,45 +950,77 @@ interface ChatSession {
   agentName?: string
   status: ChatSessionStatus
   priority: ChatPriority
-  queuePosition?: number
-  startedAt: Date
-  firstResponseAt?: Date
-  agentJoinedAt?: Date
-  lastActivity: Date
-  endedAt?: Date
+  startedAt: string
+  firstResponseAt?: string
+  agentJoinedAt?: string
+  lastActivity: string
+  endedAt?: string
   endedBy?: string
   satisfactionScore?: number
   messageCount?: number
-  messageHistory: ChatMessage[]
   medicalKeywords: string[]
   department?: string
   clinicId?: string
+  language?: string
+  handoffReason?: string // Set when the chatbot handed the chat over
+  botEntities?: Record<string, unknown>
 }
 
-interface ChatMessage {
+export interface ChatMessage {
   id: string
   sessionId: string
   content: string
   messageType: MessageType
   senderType: MessageSenderType
   senderName: string
-  timestamp: Date
+  timestamp: string
   metadata?: Record<string, any>
 }
 
-interface MessageQueue {
+/** Every message sent to a client is a typed event with its payload */
+interface ServerMessage {
+  type: string
+  data: unknown
+}
+
+interface QueuedDelivery {
+  sessionId: string
+  party: ChatParty
   message: ChatMessage
-  recipientConnectionId?: string
+}
+
+// Pub/sub payloads between nodes
+interface NodeDelivery {
+  connectionId: string
+  message: ServerMessage
+  fallback?: QueuedDelivery
+}
+
+interface AgentBroadcast {
+  agentIds: string[]
+  message: ServerMessage
 }
 
 interface StartChatData {
   customerInfo: CustomerInfo
+  handoffSessionId?: string // Chatbot session handed to the live-chat queue
   priority?: ChatPriority
   medicalKeywords?: string[]
   department?: string
   clinicId?: string
 }
 
+interface ResumeChatData {
+  sessionId: string
+  role: 'customer' | 'agent'
+  agentId?: string
+}
+
+interface AgentOnlineData {
+  agentId: string
+  department?: string
+}
+
 interface JoinChatData {
   sessionId: string
   agentId: string
@@ -744,5 +1074,13 @@ interface ConnectionStats {
   totalMessagesQueued: number
 }
 
-// Export singleton instance
-export const webSocketManager = new WebSocketManager()
+let instance: WebSocketManager | null = null
+
+/**
+ * The manager for this process, started on first use. Every node shares chats through
+ * Redis when REDIS_URL is set.
+ */
+export function getWebSocketManager(): WebSocketManager {
+  instance ??= new WebSocketManager({ port: 8080, liveChatQueue: new LiveChatQueueService(prisma) })
+  return instance
+}
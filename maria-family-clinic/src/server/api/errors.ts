@@ -0,0 +1,21 @@
+import { TRPCError } from '@trpc/server'
+
+/** A service error class whose `code` is one tRPC can return as it is */
+type ServiceErrorClass = new (...args: never[]) => Error & { code: TRPCError['code'] }
+
+/**
+ * Convert an error thrown while handling a procedure into a tRPC error.
+ *
+ * tRPC errors pass through, and errors of the given service classes keep their code and
+ * message. Anything else is reported as an internal error with `fallbackMessage`, so
+ * unexpected failures never leak their details to the client.
+ */
+export function toTRPCError(error: unknown, fallbackMessage: string, ...serviceErrors: ServiceErrorClass[]): TRPCError {
+  if (error instanceof TRPCError) return error
+  for (const ServiceError of serviceErrors) {
+    if (error instanceof ServiceError) {
+      return new TRPCError({ code: error.code, message: error.message, cause: error })
+    }
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: fallbackMessage, cause: error })
+}
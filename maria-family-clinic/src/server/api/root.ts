@@ -3,7 +3,14 @@ import { clinicRouter } from './routers/clinic'
 import { doctorRouter } from './routers/doctor'
 import { serviceRouter } from './routers/service'
 import { serviceTaxonomyRouter } from './routers/service-taxonomy'
+import { searchAnalyticsRouter } from './routers/search-analytics'
 import { appointmentRouter } from './routers/appointment'
+import { appointmentSeriesRouter } from './routers/appointment-series'
+import { chatbotRouter } from './routers/chatbot'
+import { liveChatQueueRouter } from './routers/live-chat-queue'
+import { waitlistRouter } from './routers/waitlist'
+import { reviewRouter } from './routers/review'
+import { redactionRouter } from './routers/redaction'
 import { enquiryRouter } from './routers/enquiry'
 import { userRouter } from './routers/user'
 import { auditRouter } from './routers/audit'
@@ -38,7 +45,14 @@ export const appRouter = createTRPCRouter({
   doctor: doctorRouter,
   service: serviceRouter,
   serviceTaxonomy: serviceTaxonomyRouter,
+  searchAnalytics: searchAnalyticsRouter,
   appointment: appointmentRouter,
+  appointmentSeries: appointmentSeriesRouter,
+  chatbot: chatbotRouter,
+  liveChatQueue: liveChatQueueRouter,
+  waitlist: waitlistRouter,
+  review: reviewRouter,
+  redaction: redactionRouter,
   enquiry: enquiryRouter,
   user: userRouter,
   audit: auditRouter,
@@ -3,7 +3,9 @@
 
 import { z } from 'zod';
 import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
+import { toTRPCError } from '../errors';
 import { TRPCError } from '@trpc/server';
+import { ExperimentError, ExperimentService, type ExperimentResults } from '@/lib/experiments/service';
 import { 
   ContactEventType, 
   TIME_RANGES, 
@@ -13,7 +15,6 @@ import {
   FormAnalytics,
   CustomerSatisfactionMetrics,
   PerformanceKPI,
-  ABTestResult,
   PredictiveAnalytics,
   AnalyticsError
 } from '@/types/analytics';
@@ -322,52 +323,55 @@ export const analyticsRouter = createTRPCRouter({
       minimumSampleSize: z.number().default(100),
       confidenceLevel: z.number().default(0.95),
       significanceThreshold: z.number().default(0.05),
+      minimumDetectableEffect: z.number().positive().default(0.1),
       startDate: z.date().optional(),
+      draft: z.boolean().default(false),
     }))
     .mutation(async ({ ctx, input }) => {
-      const { db } = ctx;
-      const userId = ctx.session?.user?.id;
-
-      if (!userId) {
-        throw new TRPCError({
-          code: 'UNAUTHORIZED',
-          message: 'User must be authenticated to create A/B tests',
-        });
+      try {
+        return await new ExperimentService(ctx.prisma).create(input, ctx.session.user.id);
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to create A/B test', ExperimentError);
       }
+    }),
 
+  // Sticky variant assignment: by user when logged in, otherwise by device
+  assignABTestVariant: publicProcedure
+    .input(z.object({
+      testId: z.string(),
+      anonymousId: z.string().min(8).optional(),
+      sessionId: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
       try {
-        const test = await db.aBTest.create({
-          data: {
-            name: input.name,
-            description: input.description,
-            hypothesis: input.hypothesis,
-            successMetric: input.successMetric,
-            minimumSampleSize: input.minimumSampleSize,
-            confidenceLevel: input.confidenceLevel,
-            significanceThreshold: input.significanceThreshold,
-            startDate: input.startDate || new Date(),
-            createdBy: userId,
-            variants: {
-              create: input.variants.map(variant => ({
-                name: variant.name,
-                description: variant.description,
-                trafficSplit: variant.trafficSplit,
-                isControl: variant.isControl,
-                configuration: variant.configuration as any,
-              })),
-            },
-          },
-          include: {
-            variants: true,
-          },
+        return await new ExperimentService(ctx.prisma).assign(input.testId, {
+          userId: ctx.session?.user?.id,
+          anonymousId: input.anonymousId,
+          sessionId: input.sessionId,
         });
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to assign A/B test variant', ExperimentError);
+      }
+    }),
 
-        return test;
+  trackABTestConversion: publicProcedure
+    .input(z.object({
+      testId: z.string(),
+      anonymousId: z.string().min(8).optional(),
+      metric: z.string().optional(),
+      value: z.number().optional(),
+      metadata: z.record(z.any()).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const conversion = await new ExperimentService(ctx.prisma).trackConversion(
+          input.testId,
+          { userId: ctx.session?.user?.id, anonymousId: input.anonymousId },
+          { metric: input.metric, value: input.value, metadata: input.metadata }
+        );
+        return { recorded: conversion !== null };
       } catch (error) {
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to create A/B test',
-        });
+        throw toTRPCError(error, 'Failed to track A/B test conversion', ExperimentError);
       }
     }),
 
@@ -378,65 +382,23 @@ export const analyticsRouter = createTRPCRouter({
       timeRange: timeRangeSchema.timeRange.optional(),
     }))
     .query(async ({ ctx, input }) => {
-      const { db } = ctx;
-      const { testId, timeRange = '7d' } = input;
-      
-      const timeRangeMs = TIME_RANGES[timeRange].milliseconds;
-      const startTime = new Date(Date.now() - timeRangeMs);
+      const { testId, timeRange } = input;
 
       try {
-        // Get test details
-        const test = await db.aBTest.findUnique({
-          where: { id: testId },
-          include: {
-            variants: true,
-          },
+        const service = new ExperimentService(ctx.prisma);
+        const test = await service.get(testId);
+        // Without a time range, every subject since the start is analysed
+        const results = await service.results(testId, {
+          assignedSince: timeRange ? new Date(Date.now() - TIME_RANGES[timeRange].milliseconds) : undefined,
         });
 
-        if (!test) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'A/B test not found',
-          });
-        }
-
-        // Get results for each variant
-        const results = await Promise.all(
-          test.variants.map(async (variant) => {
-            const conversions = await db.aBTestConversion.findMany({
-              where: {
-                testId,
-                variantId: variant.id,
-                timestamp: { gte: startTime },
-              },
-            });
-
-            return {
-              variant,
-              conversions: conversions.length,
-              visitors: await getVariantVisitorCount(testId, variant.id, startTime),
-              conversionRate: conversions.length / Math.max(await getVariantVisitorCount(testId, variant.id, startTime), 1),
-            };
-          })
-        );
-
-        // Calculate statistical significance
-        const significanceResults = calculateStatisticalSignificance(results, test.confidenceLevel);
-
-        // Generate insights
-        const insights = generateABTestInsights(results, significanceResults, test.hypothesis);
-
         return {
           test,
           results,
-          significance: significanceResults,
-          insights,
+          insights: generateABTestInsights(results),
         };
       } catch (error) {
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to fetch A/B test results',
-        });
+        throw toTRPCError(error, 'Failed to fetch A/B test results', ExperimentError);
       }
     }),
 
@@ -930,43 +892,32 @@ async function generateOptimizationRecommendations(db: any, clinicId?: string) {
   ];
 }
 
-function calculateStatisticalSignificance(results: any[], confidenceLevel: number) {
-  // Simplified statistical significance calculation
-  // In production, this would use proper statistical methods
-  const control = results.find(r => r.variant.isControl);
-  const variants = results.filter(r => !r.variant.isControl);
-  
-  return variants.map(variant => {
-    const lift = ((variant.conversionRate - control.conversionRate) / control.conversionRate) * 100;
-    const isSignificant = Math.abs(lift) > 5; // Simplified threshold
-    
-    return {
-      variantId: variant.variant.id,
-      lift: Math.round(lift * 10) / 10,
-      isSignificant,
-      confidence: isSignificant ? 0.95 : 0.05,
-      pValue: isSignificant ? 0.01 : 0.8,
-    };
-  });
-}
+function generateABTestInsights(results: ExperimentResults) {
+  const conclusive = results.comparisons.filter(comparison => comparison.sequential?.canStop);
+  const winner = results.variants.find(variant => variant.variantId === results.decision.winnerVariantId);
 
-function generateABTestInsights(results: any[], significance: any[], hypothesis: string) {
   return [
     {
       title: 'Test Results Summary',
-      description: `Found ${significance.filter(s => s.isSignificant).length} significant variants`,
+      description: results.decision.canStop && winner
+        ? `${winner.name} is the conclusive winner on ${results.successMetric}`
+        : `${conclusive.length} of ${results.comparisons.length} variants are conclusive so far; keep the test running`,
       impact: 'medium' as const,
       category: 'experimentation',
-      actionable: true,
-      actions: significance.filter(s => s.isSignificant).map(s => 
-        `Implement variant with ${s.lift}% improvement`
+      actionable: results.decision.canStop,
+      actions: conclusive.map(comparison =>
+        comparison.relativeLift === null
+          ? `${comparison.name}: difference of ${comparison.difference.toFixed(3)} per subject`
+          : `${comparison.name}: ${(comparison.relativeLift * 100).toFixed(1)}% lift`
       ),
     },
+    ...(results.cuped.varianceReduction > 0.05 ? [{
+      title: 'Variance Reduction',
+      description: `Pre-experiment data cut outcome variance by ${Math.round(results.cuped.varianceReduction * 100)}%`,
+      impact: 'low' as const,
+      category: 'experimentation',
+      actionable: false,
+      actions: [],
+    }] : []),
   ];
 }
-
-async function getVariantVisitorCount(testId: string, variantId: string, startTime: Date): Promise<number> {
-  // This would track unique visitors per variant
-  // For now, return a placeholder
-  return 100;
-}
\ No newline at end of file
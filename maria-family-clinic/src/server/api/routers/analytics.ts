@@ -1,8 +1,10 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure, adminProcedure, staffProcedure } from '../trpc'
+import { toTRPCError } from '../errors'
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
 import { startOfDay, endOfDay, subDays, subWeeks, subMonths, format } from 'date-fns'
+import { DemandForecastService, ForecastingError } from '@/lib/forecasting/service'
 
 const dateRanges = {
   today: () => ({
@@ -657,6 +659,71 @@ export const analyticsRouter = createTRPCRouter({
         })
       }
     }),
+
+  /**
+   * Expected daily bookings for a clinic from its demand model (staff only)
+   */
+  getDemandForecast: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        days: z.number().int().min(1).max(90).default(14),
+        confidenceLevel: z.number().min(0.5).max(0.99).default(0.9),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { clinicId, ...options } = input
+        return await new DemandForecastService(ctx.prisma).forecast(clinicId, options)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to forecast demand', ForecastingError)
+      }
+    }),
+
+  /**
+   * Doctors needed per shift on each forecast day (staff only)
+   */
+  getStaffingPlan: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        days: z.number().int().min(1).max(28).default(7),
+        consultationsPerDoctorHour: z.number().positive().max(20).optional(),
+        targetUtilisation: z.number().min(0.5).max(1).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { clinicId, days, ...options } = input
+        const service = new DemandForecastService(ctx.prisma)
+        const forecast = await service.forecast(clinicId, { days })
+        return { model: forecast.model, days: service.staffingPlan(forecast, options) }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to plan staffing', ForecastingError)
+      }
+    }),
+
+  /**
+   * Stored demand model versions for a clinic with their backtest results (admin only)
+   */
+  getDemandModelVersions: adminProcedure.input(z.object({ clinicId: z.string() })).query(async ({ ctx, input }) => {
+    try {
+      return await new DemandForecastService(ctx.prisma).versions(input.clinicId)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load demand models', ForecastingError)
+    }
+  }),
+
+  /**
+   * Retrain a clinic's demand model on its latest history (admin only)
+   */
+  trainDemandModel: adminProcedure.input(z.object({ clinicId: z.string() })).mutation(async ({ ctx, input }) => {
+    try {
+      return await new DemandForecastService(ctx.prisma).train(input.clinicId, ctx.session.user.id)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to train demand model', ForecastingError)
+    }
+  }),
 })
 
 /**
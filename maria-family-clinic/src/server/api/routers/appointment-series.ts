@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import { createTRPCRouter, isStaffRole, protectedProcedure } from '../trpc'
+import { toTRPCError } from '../errors'
+import { BookingError } from '@/lib/booking/service'
+import { AppointmentSeriesService } from '@/lib/booking/series-service'
+
+const recurrenceRuleSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .describe('RRULE subset, e.g. "FREQ=MONTHLY;INTERVAL=3;COUNT=4"')
+
+const seriesSlotSchema = z.object({
+  clinicId: z.string().uuid(),
+  doctorId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  startDate: z.date(),
+  recurrenceRule: recurrenceRuleSchema,
+  notes: z.string().optional(),
+})
+
+/**
+ * Appointment Series Router - Recurring appointments for chronic-care follow-ups
+ */
+export const appointmentSeriesRouter = createTRPCRouter({
+  /**
+   * Expand a recurrence and report conflicts per occurrence without booking
+   */
+  preview: protectedProcedure
+    .input(seriesSlotSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).preview(input)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to preview appointment series', BookingError)
+      }
+    }),
+
+  /**
+   * Create a series and book every free occurrence
+   */
+  create: protectedProcedure
+    .input(
+      seriesSlotSchema.extend({
+        patientId: z.string().optional(), // Staff booking on behalf of a patient
+        programEnrollmentId: z.string().optional(),
+        healthGoalIds: z.array(z.string()).optional(),
+        skipConflicts: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { patientId, ...series } = input
+
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).create(
+          {
+            ...series,
+            patientId: isStaffRole(ctx.session.user.role) && patientId ? patientId : ctx.session.user.id,
+          },
+          { userId: ctx.session.user.id, role: ctx.session.user.role }
+        )
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to create appointment series', BookingError)
+      }
+    }),
+
+  /**
+   * Get a series with its occurrences
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).get(input.id, {
+          userId: ctx.session.user.id,
+          role: ctx.session.user.role,
+        })
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch appointment series', BookingError)
+      }
+    }),
+
+  /**
+   * Get the current user's series
+   */
+  getMySeries: protectedProcedure
+    .input(
+      z.object({
+        status: z.enum(['ACTIVE', 'COMPLETED', 'CANCELLED']).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).listForPatient(ctx.session.user.id, input.status)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch your appointment series', BookingError)
+      }
+    }),
+
+  /**
+   * Move all future occurrences to a new time of day and/or doctor
+   */
+  updateFutureOccurrences: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          fromDate: z.date().optional(),
+          timeOfDay: z.string().regex(/^\d{2}:\d{2}$/).optional(), // "HH:mm"
+          doctorId: z.string().uuid().optional(),
+          notes: z.string().optional(),
+        })
+        .refine(input => input.timeOfDay || input.doctorId || input.notes !== undefined, {
+          message: 'Nothing to update',
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input
+
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).updateFutureOccurrences(
+          id,
+          { userId: ctx.session.user.id, role: ctx.session.user.role },
+          changes
+        )
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to update appointment series', BookingError)
+      }
+    }),
+
+  /**
+   * Cancel all future occurrences
+   */
+  cancelFutureOccurrences: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        fromDate: z.date().optional(),
+        reason: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...cancellation } = input
+
+      try {
+        return await new AppointmentSeriesService(ctx.prisma).cancelFutureOccurrences(
+          id,
+          { userId: ctx.session.user.id, role: ctx.session.user.role },
+          cancellation
+        )
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to cancel appointment series', BookingError)
+      }
+    }),
+})
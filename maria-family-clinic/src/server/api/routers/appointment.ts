@@ -1,8 +1,11 @@
 import { z } from 'zod'
-import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure, calculatePagination } from '../trpc'
+import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure, calculatePagination, isStaffRole } from '../trpc'
+import { toTRPCError } from '../errors'
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
-import { addMinutes } from 'date-fns'
+import { BookingService, BookingError } from '@/lib/booking/service'
+import { NoShowRiskService, NoShowRiskError } from '@/lib/no-show-risk/service'
+import { singaporeDateKey } from '@/lib/clinic-hours/calendar'
 
 const appointmentSelect = {
   id: true,
@@ -283,116 +286,122 @@ export const appointmentRouter = createTRPCRouter({
         symptoms: z.string().optional(),
         notes: z.string().optional(),
         isUrgent: z.boolean().default(false),
+        idempotencyKey: z.string().min(8).max(128).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { clinicId, doctorId, serviceId, appointmentDate, symptoms, notes, isUrgent } = input
-
       try {
-        // Validate that the appointment time is not in the past
-        if (appointmentDate <= new Date()) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Appointment date must be in the future',
-          })
-        }
-
-        // Get service details to validate duration
-        const service = await ctx.prisma.service.findUnique({
-          where: { id: serviceId },
-          select: { duration: true, name: true },
+        const booking = await new BookingService(ctx.prisma).book({
+          ...input,
+          patientId: ctx.session.user.id,
         })
 
-        if (!service) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Service not found',
-          })
-        }
-
-        // Check for appointment conflicts
-        const conflictingAppointments = await ctx.prisma.appointment.findMany({
-          where: {
-            doctorId,
-            appointmentDate: {
-              gte: appointmentDate,
-              lt: addMinutes(appointmentDate, service.duration),
-            },
-            status: {
-              not: 'CANCELLED',
-            },
-          },
+        const appointment = await ctx.prisma.appointment.findUnique({
+          where: { id: booking.appointmentId },
+          select: appointmentSelect,
         })
 
-        if (conflictingAppointments.length > 0) {
-          throw new TRPCError({
-            code: 'CONFLICT',
-            message: 'The selected time slot is already booked',
-          })
-        }
+        return appointment
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to create appointment', BookingError)
+      }
+    }),
 
-        // Verify clinic-doctor relationship
-        const clinicDoctorRelationship = await ctx.prisma.doctor.findFirst({
-          where: {
-            id: doctorId,
-            clinics: {
-              some: {
-                id: clinicId,
-              },
-            },
-          },
+  /**
+   * Hold a slot while the patient completes the booking form
+   */
+  reserveSlot: protectedProcedure
+    .input(
+      z.object({
+        clinicId: z.string().uuid(),
+        doctorId: z.string().uuid(),
+        serviceId: z.string().uuid(),
+        appointmentDate: z.date(),
+        idempotencyKey: z.string().min(8).max(128).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const reservation = await new BookingService(ctx.prisma).reserve({
+          ...input,
+          patientId: ctx.session.user.id,
         })
 
-        if (!clinicDoctorRelationship) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Doctor does not work at the selected clinic',
-          })
+        return {
+          reservationId: reservation.id,
+          status: reservation.status,
+          slotStart: reservation.slotStart,
+          slotEnd: reservation.slotEnd,
+          expiresAt: reservation.expiresAt,
+          appointmentId: reservation.appointmentId,
         }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to reserve slot', BookingError)
+      }
+    }),
 
-        // Verify service is offered at clinic
-        const clinicService = await ctx.prisma.clinic.findFirst({
-          where: {
-            id: clinicId,
-            services: {
-              some: {
-                id: serviceId,
-              },
-            },
-          },
-        })
+  /**
+   * Confirm a held slot into an appointment
+   */
+  confirmReservation: protectedProcedure
+    .input(
+      z.object({
+        reservationId: z.string(),
+        symptoms: z.string().optional(),
+        notes: z.string().optional(),
+        isUrgent: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { reservationId, ...details } = input
 
-        if (!clinicService) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Service is not offered at the selected clinic',
-          })
-        }
+      try {
+        const booking = await new BookingService(ctx.prisma).confirm(reservationId, ctx.session.user.id, details)
 
-        // Create appointment
-        const appointment = await ctx.prisma.appointment.create({
-          data: {
-            clinicId,
-            doctorId,
-            serviceId,
-            patientId: ctx.session.user.id,
-            appointmentDate,
-            symptoms,
-            notes,
-            isUrgent,
-            status: 'PENDING',
-          },
+        const appointment = await ctx.prisma.appointment.findUnique({
+          where: { id: booking.appointmentId },
           select: appointmentSelect,
         })
 
         return appointment
       } catch (error) {
-        if (error instanceof TRPCError) throw error
-        throw new TRPCError({
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to create appointment',
-          cause: error,
-        })
+        throw toTRPCError(error, 'Failed to confirm reservation', BookingError)
+      }
+    }),
+
+  /**
+   * Release a held slot without booking it
+   */
+  releaseReservation: protectedProcedure
+    .input(z.object({ reservationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new BookingService(ctx.prisma).release(input.reservationId, ctx.session.user.id)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to release reservation', BookingError)
+      }
+    }),
+
+  /**
+   * Open slots near a requested time, e.g. after a booking conflict
+   */
+  getAlternativeSlots: publicProcedure
+    .input(
+      z.object({
+        clinicId: z.string().uuid(),
+        doctorId: z.string().uuid(),
+        serviceId: z.string().uuid(),
+        appointmentDate: z.date(),
+        limit: z.number().min(1).max(20).default(5),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { limit, ...request } = input
+
+      try {
+        return await new BookingService(ctx.prisma).suggestAlternativeSlots(request, limit)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch alternative slots', BookingError)
       }
     }),
 
@@ -506,19 +515,59 @@ export const appointmentRouter = createTRPCRouter({
       const { id, reason } = input
 
       try {
+        return await new BookingService(ctx.prisma).cancel(
+          id,
+          { userId: ctx.session.user.id, role: ctx.session.user.role },
+          reason
+        )
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to cancel appointment', BookingError)
+      }
+    }),
+
+  /**
+   * Move an appointment to a new time, keeping its booking context and history
+   */
+  reschedule: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        newDate: z.date(),
+        doctorId: z.string().uuid().optional(),
+        reason: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...reschedule } = input
+
+      try {
+        const result = await new BookingService(ctx.prisma).reschedule(
+          id,
+          { userId: ctx.session.user.id, role: ctx.session.user.role },
+          reschedule
+        )
+
         const appointment = await ctx.prisma.appointment.findUnique({
           where: { id },
-          select: {
-            id: true,
-            patientId: true,
-            appointmentDate: true,
-            status: true,
-            clinic: {
-              select: {
-                userId: true,
-              },
-            },
-          },
+          select: appointmentSelect,
+        })
+
+        return { ...result, appointment }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to reschedule appointment', BookingError)
+      }
+    }),
+
+  /**
+   * Get reschedule history for an appointment
+   */
+  getRescheduleHistory: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const appointment = await ctx.prisma.appointment.findUnique({
+          where: { id: input.id },
+          select: { patientId: true },
         })
 
         if (!appointment) {
@@ -528,59 +577,50 @@ export const appointmentRouter = createTRPCRouter({
           })
         }
 
-        // Check permissions (similar to updateStatus)
-        const userRole = ctx.session.user.role
-        const isOwner = appointment.patientId === ctx.session.user.id
-        const hasClinicAccess = appointment.clinic.userId === ctx.session.user.id
-
-        if (userRole === 'USER' && !isOwner) {
+        if (!isStaffRole(ctx.session.user.role) && appointment.patientId !== ctx.session.user.id) {
           throw new TRPCError({
             code: 'FORBIDDEN',
-            message: 'You can only cancel your own appointments',
-          })
-        }
-
-        // Check if appointment can be cancelled
-        if (appointment.status === 'CANCELLED') {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Appointment is already cancelled',
+            message: 'You can only view your own appointments',
           })
         }
 
-        if (appointment.status === 'COMPLETED') {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Cannot cancel completed appointments',
-          })
-        }
+        return await new BookingService(ctx.prisma).getRescheduleHistory(input.id)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch reschedule history', BookingError)
+      }
+    }),
 
-        // Prevent cancellation if appointment is within 24 hours (except for urgent cases)
-        const hoursUntilAppointment = (appointment.appointmentDate.getTime() - new Date().getTime()) / (1000 * 60 * 60)
-        if (hoursUntilAppointment < 24 && userRole === 'USER') {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Appointments can only be cancelled at least 24 hours in advance. Please contact the clinic directly.',
-          })
-        }
+  /**
+   * Get a clinic's reschedule policy
+   */
+  getReschedulePolicy: publicProcedure
+    .input(z.object({ clinicId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new BookingService(ctx.prisma).getReschedulePolicy(input.clinicId)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch reschedule policy', BookingError)
+      }
+    }),
 
-        // Cancel appointment
-        await ctx.prisma.appointment.update({
-          where: { id },
-          data: {
-            status: 'CANCELLED',
-            ...(reason ? { notes: reason } : {}),
-          },
-        })
+  /**
+   * Update a clinic's reschedule policy (staff only)
+   */
+  updateReschedulePolicy: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string().uuid(),
+        minRescheduleNoticeHours: z.number().int().min(0).max(24 * 14),
+        maxReschedules: z.number().int().min(0).max(20),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { clinicId, ...policy } = input
 
-        return { success: true }
+      try {
+        return await new BookingService(ctx.prisma).updateReschedulePolicy(clinicId, policy, ctx.session.user.id)
       } catch (error) {
-        if (error instanceof TRPCError) throw error
-        throw new TRPCError({
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to cancel appointment',
-          cause: error,
-        })
+        throw toTRPCError(error, 'Failed to update reschedule policy', BookingError)
       }
     }),
 
@@ -649,7 +689,7 @@ export const appointmentRouter = createTRPCRouter({
   /**
    * Get daily schedule for a clinic (staff/admin only)
    */
-  getDailySchedule: protectedProcedure
+  getDailySchedule: staffProcedure
     .input(
       z.object({
         clinicId: z.string().uuid(),
@@ -660,21 +700,12 @@ export const appointmentRouter = createTRPCRouter({
       const { clinicId, date } = input
 
       try {
-        // Verify clinic access
-        const clinic = await ctx.prisma.clinic.findFirst({
-          where: {
-            id: clinicId,
-            OR: [
-              { userId: ctx.session.user.id },
-              { /* Admin has access to all clinics */ },
-            ],
-          },
-        })
+        const clinic = await ctx.prisma.clinic.findUnique({ where: { id: clinicId }, select: { id: true } })
 
         if (!clinic) {
           throw new TRPCError({
-            code: 'FORBIDDEN',
-            message: 'You do not have access to this clinic',
+            code: 'NOT_FOUND',
+            message: 'Clinic not found',
           })
         }
 
@@ -698,10 +729,19 @@ export const appointmentRouter = createTRPCRouter({
           },
         })
 
+        // Stored no-show risk for bookings still to be attended, and the ones worth overbooking
+        const noShowRisk = new NoShowRiskService(ctx.prisma)
+        const active = appointments.filter(a => a.status === 'PENDING' || a.status === 'CONFIRMED')
+        const scores = await noShowRisk.riskForAppointments(active.map(a => a.id))
+
         // Group by status for easier consumption
         const schedule = {
           date: date.toISOString().split('T')[0],
-          appointments,
+          appointments: appointments.map(a => {
+            const score = scores.get(a.id)
+            return { ...a, noShowRisk: score ? { probability: score.probability, tier: score.tier } : null }
+          }),
+          overbooking: noShowRisk.overbookingOffers([...scores.values()]),
           summary: {
             total: appointments.length,
             pending: appointments.filter(a => a.status === 'PENDING').length,
@@ -721,4 +761,55 @@ export const appointmentRouter = createTRPCRouter({
         })
       }
     }),
-})
\ No newline at end of file
+
+  /**
+   * Score a clinic's pending and confirmed appointments for the day, ahead of the hourly
+   * sweep (staff only)
+   */
+  scoreNoShowRisk: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string().uuid(),
+        date: z.date(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const scores = await new NoShowRiskService(ctx.prisma).scoreDay(input.clinicId, singaporeDateKey(input.date))
+        return { scored: scores.size }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to score no-show risk', NoShowRiskError)
+      }
+    }),
+
+  /**
+   * No-show risk score for one appointment (staff only)
+   */
+  getNoShowRisk: staffProcedure
+    .input(z.object({ appointmentId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new NoShowRiskService(ctx.prisma).getScore(input.appointmentId)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch no-show risk', NoShowRiskError)
+      }
+    }),
+
+  /**
+   * Weekly accuracy of resolved no-show risk scores (staff only)
+   */
+  getNoShowRiskAccuracy: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string().uuid().optional(),
+        weeks: z.number().int().min(1).max(52).default(12),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new NoShowRiskService(ctx.prisma).accuracy(input)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch no-show risk accuracy', NoShowRiskError)
+      }
+    }),
+})
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import { createTRPCRouter, publicProcedure } from '../trpc'
+import { toTRPCError } from '../errors'
+import { TRPCError } from '@trpc/server'
+import { ChatbotConversationError, ChatbotConversationService, type AppointmentBooker } from '@/lib/chatbot/conversation'
+import { SEARCH_LANGUAGES } from '@/lib/service-search/service'
+import { appointmentRouter } from './appointment'
+
+const sessionSchema = z.string().min(8).max(128)
+
+/**
+ * Chatbot Router - Stateful chat widget conversations, including booking by chat
+ */
+export const chatbotRouter = createTRPCRouter({
+  /**
+   * Answer one chat message. Bookings agreed in the chat are made through
+   * `appointment.create` as the signed-in patient; visitors are asked to sign in first.
+   * Escalations put the chat in the live-chat queue (see `liveChatQueue`).
+   */
+  sendMessage: publicProcedure
+    .input(
+      z.object({
+        sessionId: sessionSchema,
+        message: z.string().trim().min(1).max(1000),
+        language: z.enum(SEARCH_LANGUAGES).optional(),
+        clinicId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session?.user?.id ?? null
+      const appointments = appointmentRouter.createCaller(ctx)
+      const bookAppointment: AppointmentBooker | undefined = userId
+        ? async request => {
+            const appointment = await appointments.create(request)
+            if (!appointment) {
+              throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Appointment was not created' })
+            }
+            return appointment
+          }
+        : undefined
+
+      try {
+        return await new ChatbotConversationService(ctx.prisma, { bookAppointment }).handleMessage({
+          ...input,
+          userId,
+          customerName: ctx.session?.user?.name ?? undefined,
+          customerEmail: ctx.session?.user?.email ?? undefined,
+        })
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to process chat message', ChatbotConversationError)
+      }
+    }),
+
+  /**
+   * Drop the conversation state so the next message starts afresh
+   */
+  resetConversation: publicProcedure
+    .input(z.object({ sessionId: sessionSchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await new ChatbotConversationService(ctx.prisma).reset(input.sessionId, ctx.session?.user?.id)
+        return { success: true }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to reset chat conversation', ChatbotConversationError)
+      }
+    }),
+})
@@ -1,7 +1,10 @@
 import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure, calculatePagination, PaginatedResponse } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@prisma/client'
+import { ClinicHoursExceptionType, Prisma } from '@prisma/client'
+import { singaporeDateKey } from '@/lib/clinic-hours/calendar'
+import { ClinicHoursError, ClinicHoursService } from '@/lib/clinic-hours/service'
+import { ClinicProximityService, ProximitySearchError, type ProximityHit } from '@/lib/proximity/service'
 
 const clinicSelect = {
   id: true,
@@ -54,6 +57,9 @@ const clinicSelect = {
   },
 }
 
+// Singapore calendar date, e.g. "2026-08-10"
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
 /**
  * Clinic Router - Handles all clinic-related operations
  */
@@ -111,77 +117,64 @@ export const clinicRouter = createTRPCRouter({
         }
       }
 
-      // Handle distance-based queries if location is provided
-      if (location) {
-        const { latitude, longitude, radiusKm } = location
-        where.AND = [
-          ...(where.AND || []),
-          {
-            latitude: {
-              gte: latitude - radiusKm / 111, // Approximate conversion for degrees
-              lte: latitude + radiusKm / 111,
-            },
-            longitude: {
-              gte: longitude - radiusKm / (111 * Math.cos((latitude * Math.PI) / 180)),
-              lte: longitude + radiusKm / (111 * Math.cos((latitude * Math.PI) / 180)),
-            },
-          },
-        ]
-      }
-
-      // Build orderBy clause
-      let orderByClause: Prisma.ClinicOrderByWithRelationInput = {}
-      if (orderBy === 'distance' && location) {
-        // For distance ordering, we'll calculate in the application layer
-        orderByClause = { name: orderDirection }
-      } else {
-        orderByClause = { [orderBy]: orderDirection }
-      }
+      // Distance ordering needs a location; without one fall back to name
+      const orderByClause: Prisma.ClinicOrderByWithRelationInput =
+        orderBy === 'distance' ? { name: orderDirection } : { [orderBy]: orderDirection }
 
       try {
-        // Execute query with proper filtering
-        const [clinics, total] = await Promise.all([
-          ctx.prisma.clinic.findMany({
+        if (location) {
+          // Exact radius filter first, so totals and pages only count clinics inside the circle
+          const hits = await new ClinicProximityService(ctx.prisma).withinRadius({
+            center: location,
+            radiusKm: location.radiusKm,
             where,
-            select: clinicSelect,
-            skip,
-            take: limit,
-            orderBy: orderByClause,
-          }),
-          ctx.prisma.clinic.count({ where }),
-        ])
-
-        // Calculate distances if location is provided
-        if (location && clinics.length > 0) {
-          const clinicsWithDistance = clinics.map(clinic => {
-            if (clinic.latitude && clinic.longitude) {
-              const distance = calculateDistance(
-                location.latitude,
-                location.longitude,
-                clinic.latitude,
-                clinic.longitude
-              )
-              return { ...clinic, distance }
-            }
-            return { ...clinic, distance: null }
           })
 
-          // Sort by distance if requested
-          let sortedClinics = clinicsWithDistance
           if (orderBy === 'distance') {
-            sortedClinics = clinicsWithDistance.sort((a, b) => {
-              if (!a.distance) return 1
-              if (!b.distance) return -1
-              return orderDirection === 'asc' ? a.distance - b.distance : b.distance - a.distance
+            const ordered = orderDirection === 'asc' ? hits : [...hits].reverse()
+            const pageHits = ordered.slice(skip, skip + limit)
+            const clinics = await ctx.prisma.clinic.findMany({
+              where: { id: { in: pageHits.map(hit => hit.id) } },
+              select: clinicSelect,
             })
+
+            return {
+              data: inDistanceOrder(pageHits, clinics),
+              pagination: calculatePagination(page, limit, hits.length),
+            }
           }
 
+          const distances = new Map(hits.map(hit => [hit.id, hit.distanceKm]))
+          const withinRadius: Prisma.ClinicWhereInput = { id: { in: [...distances.keys()] } }
+          const [clinics, total] = await Promise.all([
+            ctx.prisma.clinic.findMany({
+              where: withinRadius,
+              select: clinicSelect,
+              skip,
+              take: limit,
+              orderBy: orderByClause,
+            }),
+            ctx.prisma.clinic.count({ where: withinRadius }),
+          ])
+
           return {
-            data: sortedClinics,
+            data: clinics.map(clinic => ({ ...clinic, distance: distances.get(clinic.id) ?? null })),
             pagination: calculatePagination(page, limit, total),
           }
         }
 
+        // Execute query with proper filtering
+        const [clinics, total] = await Promise.all([
+          ctx.prisma.clinic.findMany({
+            where,
+            select: clinicSelect,
+            skip,
+            take: limit,
+            orderBy: orderByClause,
+          }),
+          ctx.prisma.clinic.count({ where }),
+        ])
+
         return {
           data: clinics,
           pagination: calculatePagination(page, limit, total),
@@ -246,7 +239,8 @@ export const clinicRouter = createTRPCRouter({
     }),
 
   /**
-   * Get nearby clinics based on current location
+   * Get nearby clinics based on current location, nearest first. Pass the returned
+   * `nextCursor` back as `cursor` for the next page.
    */
   getNearby: publicProcedure
     .input(
@@ -255,26 +249,22 @@ export const clinicRouter = createTRPCRouter({
         longitude: z.number(),
         radiusKm: z.number().min(0.1).max(50).default(5),
         limit: z.number().min(1).max(50).default(10),
+        cursor: z.string().optional(),
         services: z.array(z.string()).optional(),
         isActive: z.boolean().default(true),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { latitude, longitude, radiusKm, limit, services, isActive } = input
+      const { latitude, longitude, radiusKm, limit, cursor, services, isActive } = input
 
       try {
-        // Get all clinics within the geographic bounds
-        const clinics = await ctx.prisma.clinic.findMany({
+        const { hits, nextCursor } = await new ClinicProximityService(ctx.prisma).nearest({
+          center: { latitude, longitude },
+          radiusKm,
+          limit,
+          cursor,
           where: {
             isActive,
-            latitude: {
-              gte: latitude - radiusKm / 111,
-              lte: latitude + radiusKm / 111,
-            },
-            longitude: {
-              gte: longitude - radiusKm / (111 * Math.cos((latitude * Math.PI) / 180)),
-              lte: longitude + radiusKm / (111 * Math.cos((latitude * Math.PI) / 180)),
-            },
             ...(services && services.length > 0
               ? {
                   services: {
@@ -285,42 +275,151 @@ export const clinicRouter = createTRPCRouter({
                 }
               : {}),
           },
-          select: clinicSelect,
-          take: limit,
         })
 
-        // Calculate exact distances and filter by radius
-        const clinicsWithDistance = clinics
-          .map(clinic => {
-            if (clinic.latitude && clinic.longitude) {
-              const distance = calculateDistance(
-                latitude,
-                longitude,
-                clinic.latitude,
-                clinic.longitude
-              )
-              return { ...clinic, distance }
-            }
-            return { ...clinic, distance: null }
-          })
-          .filter(clinic => clinic.distance === null || clinic.distance <= radiusKm)
-          .sort((a, b) => {
-            if (!a.distance) return 1
-            if (!b.distance) return -1
-            return a.distance - b.distance
-          })
-          .slice(0, limit)
+        const clinics = await ctx.prisma.clinic.findMany({
+          where: { id: { in: hits.map(hit => hit.id) } },
+          select: clinicSelect,
+        })
 
-        return clinicsWithDistance
+        return {
+          data: inDistanceOrder(hits, clinics),
+          nextCursor,
+        }
       } catch (error) {
+        if (error instanceof ProximitySearchError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch nearby clinics',
           cause: error,
         })
       }
     }),
 
+  /**
+   * Opening hours per day in Singapore time, with public holidays, holiday eves and
+   * clinic exceptions applied
+   */
+  getOpeningHours: publicProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        from: dateKeySchema.optional(),
+        days: z.number().min(1).max(62).default(14),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new ClinicHoursService(ctx.prisma).getOpeningHours(
+          input.clinicId,
+          input.from ?? singaporeDateKey(new Date()),
+          input.days
+        )
+      } catch (error) {
+        if (error instanceof ClinicHoursError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch opening hours',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Singapore public holidays and holiday eves for a year
+   */
+  listPublicHolidays: publicProcedure
+    .input(z.object({ year: z.number().int().min(2000).max(2100) }))
+    .query(async ({ ctx, input }) => {
+      return new ClinicHoursService(ctx.prisma).listPublicHolidays(input.year)
+    }),
+
+  /**
+   * List a clinic's closures and special hours (staff/admin only)
+   */
+  listHoursExceptions: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        from: dateKeySchema,
+        to: dateKeySchema,
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new ClinicHoursService(ctx.prisma).listExceptions(input.clinicId, input.from, input.to)
+      } catch (error) {
+        if (error instanceof ClinicHoursError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch hours exceptions',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Close a clinic or set special hours on one or more dates, e.g. to open on a public
+   * holiday or extend hours (staff/admin only)
+   */
+  setHoursException: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        dates: z.array(dateKeySchema).min(1).max(366),
+        type: z.nativeEnum(ClinicHoursExceptionType),
+        openTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+        closeTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+        reason: z.string().max(200).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new ClinicHoursService(ctx.prisma).setException({ ...input, createdBy: ctx.session.user.id })
+      } catch (error) {
+        if (error instanceof ClinicHoursError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to save hours exception',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Remove a clinic's closure or special hours for a date (staff/admin only)
+   */
+  removeHoursException: staffProcedure
+    .input(
+      z.object({
+        clinicId: z.string(),
+        date: dateKeySchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await new ClinicHoursService(ctx.prisma).removeException(input.clinicId, input.date)
+        return { success: true }
+      } catch (error) {
+        if (error instanceof ClinicHoursError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to remove hours exception',
+          cause: error,
+        })
+      }
+    }),
+
   /**
    * Create a new clinic (staff/admin only)
    */
@@ -547,12 +646,16 @@ export const clinicRouter = createTRPCRouter({
       // Operating hours filters
       if (filters.operatingHours && filters.operatingHours.length > 0) {
         const hourConditions: Prisma.ClinicWhereInput[] = []
+        const hours = new ClinicHoursService(ctx.prisma)
         
-        filters.operatingHours.forEach(hourFilter => {
+        for (const hourFilter of filters.operatingHours) {
           switch (hourFilter) {
             case 'open_now':
-              // This would require complex time logic - simplified for now
-              hourConditions.push({ isActive: true })
+              // Weekly hours, public holidays and clinic exceptions, in Singapore time
+              hourConditions.push({ id: { in: await hours.openClinicIds() } })
+              break
+            case 'holiday':
+              hourConditions.push({ id: { in: await hours.openOnPublicHolidayClinicIds() } })
               break
             case '24_hour':
               // This would require checking operating hours JSON
@@ -565,7 +668,7 @@ export const clinicRouter = createTRPCRouter({
             default:
               hourConditions.push({ isActive: true })
           }
-        })
+        }
         
         if (hourConditions.length > 0) {
           where.AND = [...(where.AND || []), ...hourConditions]
@@ -1479,6 +1582,17 @@ export const clinicRouter = createTRPCRouter({
     }),
 })
 
+/**
+ * Attach distances to clinics and put them back in the order of the proximity hits
+ */
+function inDistanceOrder<T extends { id: string }>(hits: ProximityHit[], clinics: T[]): (T & { distance: number })[] {
+  const byId = new Map(clinics.map(clinic => [clinic.id, clinic]))
+  return hits.flatMap(hit => {
+    const clinic = byId.get(hit.id)
+    return clinic ? [{ ...clinic, distance: hit.distanceKm }] : []
+  })
+}
+
 /**
  * Calculate distance between two points using Haversine formula
  */
@@ -2,6 +2,9 @@ import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure, adminProcedure, calculatePagination } from '../trpc'
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
+import type { EnquiryStatus } from '@prisma/client'
+import { EnquiryWorkflowError, EnquiryWorkflowService } from '@/lib/enquiry-workflow/service'
+import { RedactionService } from '@/lib/redaction/service'
 import { 
   ContactCategoryPriority,
   ContactDepartment,
@@ -324,39 +327,48 @@ export const contactFormRouter = createTRPCRouter({
         })
         const referenceNumber = `CF${dateString}${String(count + 1).padStart(4, '0')}`
 
+        // Staff triaging contact forms are not clinical, so identity numbers and medical
+        // details in the form's free text are redacted before it is stored
+        const redaction = new RedactionService(ctx.prisma)
+        const redactedForm = await redaction.prepareFormData('formData', formData)
+
         // Create the contact form
-        const contactForm = await ctx.prisma.contactForm.create({
-          data: {
-            referenceNumber,
-            categoryId,
-            contactInfo,
-            formData,
-            attachments,
-            consent,
-            metadata,
-            clinicId,
-            doctorId,
-            userId,
-            status: ContactStatus.SUBMITTED,
-            priority: ContactPriority.NORMAL,
-            channel: ContactChannel.WEB_FORM,
-            submittedAt: new Date(),
-            isActive: true,
-          },
-          select: {
-            id: true,
-            referenceNumber: true,
-            status: true,
-            priority: true,
-            submittedAt: true,
-            category: {
-              select: {
-                displayName: true,
-                department: true,
-                responseSLAHours: true,
+        const contactForm = await ctx.prisma.$transaction(async tx => {
+          const created = await tx.contactForm.create({
+            data: {
+              referenceNumber,
+              categoryId,
+              contactInfo,
+              formData: redactedForm.data,
+              attachments,
+              consent,
+              metadata,
+              clinicId,
+              doctorId,
+              userId,
+              status: ContactStatus.SUBMITTED,
+              priority: ContactPriority.NORMAL,
+              channel: ContactChannel.WEB_FORM,
+              submittedAt: new Date(),
+              isActive: true,
+            },
+            select: {
+              id: true,
+              referenceNumber: true,
+              status: true,
+              priority: true,
+              submittedAt: true,
+              category: {
+                select: {
+                  displayName: true,
+                  department: true,
+                  responseSLAHours: true,
+                },
               },
             },
-          },
+          })
+          await redaction.record(tx, { sourceType: 'CONTACT_FORM', sourceId: created.id }, redactedForm.prepared, userId)
+          return created
         })
 
         // Auto-assign if enabled
@@ -588,6 +600,20 @@ export const contactFormRouter = createTRPCRouter({
 // ENQUIRY ROUTER (Enhanced from existing)
 // ============================================================================
 
+// SUBMITTED belongs to contact forms; enquiries start under review
+const ENQUIRY_STATUS_BY_CONTACT_STATUS: Record<ContactStatus, EnquiryStatus | null> = {
+  [ContactStatus.SUBMITTED]: null,
+  [ContactStatus.UNDER_REVIEW]: 'UNDER_REVIEW',
+  [ContactStatus.ASSIGNED]: 'ASSIGNED',
+  [ContactStatus.IN_PROGRESS]: 'IN_PROGRESS',
+  [ContactStatus.WAITING_CUSTOMER]: 'WAITING_CUSTOMER',
+  [ContactStatus.PENDING_RESOLUTION]: 'PENDING_RESOLUTION',
+  [ContactStatus.RESOLVED]: 'RESOLVED',
+  [ContactStatus.CLOSED]: 'CLOSED',
+  [ContactStatus.CANCELLED]: 'CANCELLED',
+  [ContactStatus.ESCALATED]: 'ESCALATED',
+}
+
 export const contactEnquiryRouter = createTRPCRouter({
   /**
    * Create enquiry from contact form
@@ -643,48 +669,60 @@ export const contactEnquiryRouter = createTRPCRouter({
             priority = EnquiryPriority.NORMAL
         }
 
+        // Staff can paste the patient's own words into the first message, so it goes through
+        // the same redaction as enquiries patients submit
+        const redaction = new RedactionService(ctx.prisma)
+        const [redactedSubject, redactedMessage] = await Promise.all([
+          redaction.prepare('subject', contactForm.formData.subject || `${contactForm.category.displayName} Enquiry`),
+          redaction.prepare('message', initialMessage),
+        ])
+
         // Create enquiry
-        const enquiry = await ctx.prisma.enquiry.create({
-          data: {
-            referenceNumber,
-            contactFormId,
-            type: contactForm.category.name.toUpperCase() as EnquiryType,
-            categoryId: contactForm.categoryId,
-            contactInfo: contactForm.contactInfo,
-            subject: contactForm.formData.subject || `${contactForm.category.displayName} Enquiry`,
-            message: initialMessage,
-            priority,
-            status: ContactStatus.UNDER_REVIEW,
-            channel: ContactChannel.WEB_FORM,
-            clinicId: contactForm.clinicId,
-            doctorId: contactForm.doctorId,
-            userId: contactForm.userId,
-            estimatedResolution,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          },
-          select: {
-            id: true,
-            referenceNumber: true,
-            status: true,
-            priority: true,
-            subject: true,
-            createdAt: true,
-            category: {
-              select: {
-                displayName: true,
-                department: true,
-                responseSLAHours: true,
-              },
+        const enquiry = await ctx.prisma.$transaction(async tx => {
+          const created = await tx.enquiry.create({
+            data: {
+              referenceNumber,
+              contactFormId,
+              type: contactForm.category.name.toUpperCase() as EnquiryType,
+              categoryId: contactForm.categoryId,
+              contactInfo: contactForm.contactInfo,
+              subject: redactedSubject.text,
+              message: redactedMessage.text,
+              priority,
+              status: ContactStatus.UNDER_REVIEW,
+              channel: ContactChannel.WEB_FORM,
+              clinicId: contactForm.clinicId,
+              doctorId: contactForm.doctorId,
+              userId: contactForm.userId,
+              estimatedResolution,
+              createdAt: new Date(),
+              updatedAt: new Date(),
             },
-            assignedTo: {
-              select: {
-                firstName: true,
-                lastName: true,
-                role: true,
+            select: {
+              id: true,
+              referenceNumber: true,
+              status: true,
+              priority: true,
+              subject: true,
+              createdAt: true,
+              category: {
+                select: {
+                  displayName: true,
+                  department: true,
+                  responseSLAHours: true,
+                },
+              },
+              assignedTo: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                  role: true,
+                },
               },
             },
-          },
+          })
+          await redaction.record(tx, { sourceType: 'ENQUIRY', sourceId: created.id }, [redactedSubject, redactedMessage], ctx.session.user.id)
+          return created
         })
 
         // Update contact form status
@@ -705,6 +743,9 @@ export const contactEnquiryRouter = createTRPCRouter({
           },
         })
 
+        // Schedule the category's SLA reminders and escalations
+        await new EnquiryWorkflowService(ctx.prisma).start(enquiry.id)
+
         return enquiry
       } catch (error) {
         throw new TRPCError({
@@ -760,9 +801,16 @@ export const contactEnquiryRouter = createTRPCRouter({
           }
         }
 
+        const enquiryStatus = ENQUIRY_STATUS_BY_CONTACT_STATUS[status]
+        if (!enquiryStatus) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Enquiries cannot be moved back to ${status}`,
+          })
+        }
+
         // Build update data
         const updateData: Prisma.EnquiryUpdateInput = {
-          status,
           updatedAt: new Date(),
         }
 
@@ -776,45 +824,47 @@ export const contactEnquiryRouter = createTRPCRouter({
           updateData.estimatedResolution = estimatedResolution
         }
 
-        if (status === ContactStatus.RESOLVED) {
-          updateData.resolvedAt = new Date()
-          if (resolutionNotes) {
-            updateData.resolutionNotes = resolutionNotes
-          }
+        if (status === ContactStatus.RESOLVED && resolutionNotes) {
+          updateData.resolutionNotes = resolutionNotes
         }
 
-        const updatedEnquiry = await ctx.prisma.enquiry.update({
-          where: { id },
-          data: updateData,
-          select: {
-            id: true,
-            referenceNumber: true,
-            status: true,
-            priority: true,
-            response: true,
-            responseDate: true,
-            resolvedAt: true,
-            updatedAt: true,
-          },
-        })
+        // Status changes go through the category workflow, which validates the
+        // transition, re-plans SLA timers and records the change in ContactHistory;
+        // the response fields are saved in the same transaction
+        return await ctx.prisma.$transaction(async tx => {
+          await new EnquiryWorkflowService(ctx.prisma).transition(
+            id,
+            enquiryStatus,
+            {
+              type: ctx.session.user.role === 'ADMIN' ? 'ADMIN' : 'AGENT',
+              id: ctx.session.user.id,
+              name: ctx.session.user.name ?? ctx.session.user.email ?? ctx.session.user.id,
+            },
+            { reason: resolutionNotes, tx }
+          )
 
-        // Add history entry
-        await ctx.prisma.contactHistory.create({
-          data: {
-            enquiryId: id,
-            action: 'STATUS_UPDATED',
-            description: `Status changed to ${status}`,
-            performedBy: ctx.session.user.id,
-            performedByRole: ctx.session.user.role,
-            metadata: { newStatus: status, response, responseMethod },
-          },
+          return tx.enquiry.update({
+            where: { id },
+            data: updateData,
+            select: {
+              id: true,
+              referenceNumber: true,
+              status: true,
+              priority: true,
+              response: true,
+              responseDate: true,
+              resolvedAt: true,
+              updatedAt: true,
+            },
+          })
         })
-
-        return updatedEnquiry
       } catch (error) {
         if (error instanceof TRPCError) throw error
+        if (error instanceof EnquiryWorkflowError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to update enquiry status',
           cause: error,
         })
@@ -1,7 +1,11 @@
 import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@prisma/client'
+import { Prisma, type DayOfWeek } from '@prisma/client'
+import { estimateTravelMinutes } from '@/lib/scheduling/travel-time'
+import { MatrixTravelTimeProvider } from '@/lib/scheduling/travel-matrix'
+import { LeaveCoverageService } from '@/lib/scheduling/coverage'
+import { addDaysToKey, atSingaporeTime, dayOfWeekForKey, singaporeDateKey } from '@/lib/clinic-hours/calendar'
 
 /**
  * Input validation schemas
@@ -14,6 +18,7 @@ const scheduleConflictSchema = z.object({
 })
 
 const scheduleSlotSchema = z.object({
+  scheduleId: z.string().optional(), // Update this schedule instead of creating one
   doctorId: z.string().uuid(),
   clinicId: z.string().uuid(),
   date: z.date(),
@@ -26,6 +31,7 @@ const scheduleSlotSchema = z.object({
     daysOfWeek: z.array(z.string()).optional(),
     endDate: z.date().optional(),
   }).optional(),
+  isActive: z.boolean().default(true), // false removes the slot from the roster
   appointmentType: z.enum(['CONSULTATION', 'PROCEDURE', 'EMERGENCY', 'ADMIN', 'TRAINING']).default('CONSULTATION'),
   notes: z.string().optional(),
 })
@@ -36,9 +42,15 @@ const coverageRequestSchema = z.object({
   startDate: z.date(),
   endDate: z.date(),
   leaveType: z.enum(['ANNUAL', 'SICK', 'EMERGENCY', 'CONFERENCE', 'MATERNITY', 'PATERNITY']).default('ANNUAL'),
+  isHalfDay: z.boolean().default(false),
+  startTime: z.string().optional(), // "HH:mm" format, for half-day leave
+  endTime: z.string().optional(),   // "HH:mm" format, for half-day leave
   reason: z.string(),
   requireCoverage: z.boolean().default(true),
   coveragePriority: z.enum(['HIGH', 'MEDIUM', 'LOW']).default('MEDIUM'),
+}).refine(leave => !leave.isHalfDay || (leave.startTime && leave.endTime), {
+  message: 'Half-day leave needs a start and end time',
+  path: ['startTime'],
 })
 
 const travelTimeSchema = z.object({
@@ -407,11 +419,12 @@ export const doctorScheduleRouter = createTRPCRouter({
 
   /**
    * Create or update doctor schedule
+   * Pass scheduleId to update an existing schedule, e.g. when applying an optimised roster
    */
   upsertSchedule: staffProcedure
     .input(scheduleSlotSchema)
     .mutation(async ({ ctx, input }) => {
-      const { doctorId, clinicId, date, startTime, endTime, isRecurring, recurringPattern, appointmentType, notes } = input
+      const { scheduleId, doctorId, clinicId, date, startTime, endTime, isRecurring, recurringPattern, isActive, appointmentType, notes } = input
 
       try {
         // Verify doctor affiliation with clinic
@@ -430,52 +443,68 @@ export const doctorScheduleRouter = createTRPCRouter({
           })
         }
 
-        // Check for conflicts
-        const conflicts = await checkScheduleConflicts(ctx.prisma, doctorId, clinicId, date, startTime, endTime)
-        if (conflicts.hasConflicts) {
+        const existing = scheduleId
+          ? await ctx.prisma.doctorSchedule.findFirst({ where: { id: scheduleId, doctorId } })
+          : null
+
+        if (scheduleId && !existing) {
           throw new TRPCError({
-            code: 'CONFLICT',
-            message: 'Schedule conflict detected',
-            cause: conflicts,
+            code: 'NOT_FOUND',
+            message: 'Schedule not found for this doctor',
           })
         }
 
+        // Check for conflicts (deactivating a schedule cannot conflict)
+        if (isActive) {
+          const conflicts = await checkScheduleConflicts(ctx.prisma, doctorId, clinicId, date, startTime, endTime, scheduleId)
+          if (conflicts.hasConflicts) {
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: 'Schedule conflict detected',
+              cause: conflicts,
+            })
+          }
+        }
+
         // Create or update schedule
         const scheduleData = {
           doctorId,
           doctorClinicId: affiliation.id,
-          scheduleType: isRecurring ? 'RECURRING' : 'SPECIFIC',
+          scheduleType: 'REGULAR' as const,
           startTime,
           endTime,
           isRecurring,
-          recurrencePattern: isRecurring ? recurringPattern : null,
+          recurrencePattern: isRecurring && recurringPattern ? recurringPattern : {},
+          isActive,
           notes,
         }
 
-        let schedule
-        if (isRecurring) {
-          schedule = await ctx.prisma.doctorSchedule.create({
-            data: {
-              ...scheduleData,
-              dayOfWeek: new Date(date).toLocaleDateString('en-US', { weekday: 'lowercase' }),
-              effectiveFrom: date,
+        const dateData = isRecurring
+          ? {
+              dayOfWeek: toDayOfWeek(date),
+              specificDate: null,
+              effectiveFrom: existing?.effectiveFrom ?? date,
               effectiveTo: recurringPattern?.endDate,
-            },
-          })
-        } else {
-          schedule = await ctx.prisma.doctorSchedule.create({
-            data: {
-              ...scheduleData,
+            }
+          : {
+              dayOfWeek: null,
               specificDate: date,
-            },
+            }
+
+        if (existing) {
+          return await ctx.prisma.doctorSchedule.update({
+            where: { id: existing.id },
+            data: { ...scheduleData, ...dateData },
           })
         }
 
-        return schedule
+        return await ctx.prisma.doctorSchedule.create({
+          data: { ...scheduleData, ...dateData },
+        })
       } catch (error) {
         if (error instanceof TRPCError) throw error
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to create/update schedule',
           cause: error,
         })
@@ -621,9 +650,12 @@ export const doctorScheduleRouter = createTRPCRouter({
             name: true,
             address: true,
             postalCode: true,
+            latitude: true,
+            longitude: true,
             location: true,
           },
         })
+        const travel = new MatrixTravelTimeProvider(ctx.prisma)
 
         // Sort appointments by time
         const sortedAppointments = appointments
@@ -652,10 +684,11 @@ export const doctorScheduleRouter = createTRPCRouter({
           const current = sortedAppointments[i]
           const next = sortedAppointments[i + 1]
 
-          const travelTime = calculateDistanceTravelTime(
-            current.clinic,
-            next.clinic
-          )
+          // Road-network time for the time of day the doctor leaves
+          const departAt = atSingaporeTime(singaporeDateKey(date), current.endTime)
+          const travelTime = current.clinic && next.clinic
+            ? await travel.getTravelMinutes(current.clinic, next.clinic, departAt)
+            : estimateTravelMinutes(current.clinic, next.clinic)
 
           const bufferTime = timeToMinutes(next.startTime) - timeToMinutes(current.endTime)
           const feasible = bufferTime >= travelTime
@@ -695,7 +728,7 @@ export const doctorScheduleRouter = createTRPCRouter({
   createLeaveWithCoverage: staffProcedure
     .input(coverageRequestSchema)
     .mutation(async ({ ctx, input }) => {
-      const { doctorId, clinicId, startDate, endDate, leaveType, reason, requireCoverage } = input
+      const { doctorId, clinicId, startDate, endDate, leaveType, isHalfDay, startTime, endTime, reason, requireCoverage } = input
 
       try {
         // Create the leave
@@ -709,6 +742,9 @@ export const doctorScheduleRouter = createTRPCRouter({
             leaveType,
             startDate,
             endDate,
+            isHalfDay,
+            startTime: isHalfDay ? startTime : null,
+            endTime: isHalfDay ? endTime : null,
             reason,
             isApproved: true,
             approvedAt: new Date(),
@@ -721,7 +757,7 @@ export const doctorScheduleRouter = createTRPCRouter({
         }
 
         // Get coverage arrangement
-        const coverage = await getCoverageArrangement(ctx, doctorId, clinicId, startDate, endDate)
+        const coverage = await new LeaveCoverageService(ctx.prisma).arrange(doctorId, clinicId, leave)
 
         return { leave, coverage }
       } catch (error) {
@@ -946,10 +982,11 @@ function detectLeaveConflicts(schedules: any[], appointments: any[], leaves: any
  */
 async function detectTravelTimeConflicts(prisma: any, appointments: any[], startDate: Date, endDate: Date) {
   const conflicts: any[] = []
+  const travel = new MatrixTravelTimeProvider(prisma)
   
   // Group appointments by date
   const appointmentsByDate = appointments.reduce((acc, appointment) => {
-    const dateKey = appointment.appointmentDate.toDateString()
+    const dateKey = singaporeDateKey(appointment.appointmentDate)
     if (!acc[dateKey]) acc[dateKey] = []
     acc[dateKey].push(appointment)
     return acc
@@ -967,7 +1004,8 @@ async function detectTravelTimeConflicts(prisma: any, appointments: any[], start
       const next = sortedAppointments[i + 1]
       
       if (current.clinicId !== next.clinicId) {
-        const travelTime = 45 // Mock travel time
+        const departAt = atSingaporeTime(singaporeDateKey(current.appointmentDate), current.endTime)
+        const travelTime = await travel.getTravelMinutes(current.clinic, next.clinic, departAt)
         const bufferTime = timeToMinutes(next.startTime) - timeToMinutes(current.endTime)
         
         if (bufferTime < travelTime) {
@@ -1110,6 +1148,13 @@ function timeToMinutes(time: string): number {
   return hours * 60 + minutes
 }
 
+/**
+ * DayOfWeek enum value for a date, on the Singapore calendar
+ */
+function toDayOfWeek(date: Date): DayOfWeek {
+  return dayOfWeekForKey(singaporeDateKey(date))
+}
+
 /**
  * Get next date for a day of week
  */
@@ -1125,24 +1170,6 @@ function getNextDateForDay(dayOfWeek: string): Date {
   return result
 }
 
-/**
- * Calculate distance-based travel time
- */
-function calculateDistanceTravelTime(fromClinic: any, toClinic: any): number {
-  // This would use actual distance calculation (Google Maps API, etc.)
-  // For now, return a mock travel time based on postcode difference
-  if (!fromClinic?.postalCode || !toClinic?.postalCode) {
-    return 30 // Default 30 minutes
-  }
-  
-  const fromCode = parseInt(fromClinic.postalCode.slice(0, 2))
-  const toCode = parseInt(toClinic.postalCode.slice(0, 2))
-  const distance = Math.abs(fromCode - toCode)
-  
-  // Rough estimate: 5 minutes per postal code difference
-  return Math.max(15, distance * 5)
-}
-
 /**
  * Create coverage plan
  */
@@ -1189,22 +1216,26 @@ async function checkScheduleConflicts(
   clinicId: string,
   date: Date,
   startTime: string,
-  endTime: string
+  endTime: string,
+  excludeScheduleId?: string
 ) {
+  const day = singaporeDateKey(date)
+
   const conflicts = await prisma.doctorSchedule.findMany({
     where: {
       doctorId,
+      isActive: true,
+      ...(excludeScheduleId && { id: { not: excludeScheduleId } }),
       OR: [
         {
           specificDate: {
-            gte: new Date(date.setHours(0, 0, 0, 0)),
-            lte: new Date(date.setHours(23, 59, 59, 999)),
+            gte: atSingaporeTime(day),
+            lt: atSingaporeTime(addDaysToKey(day, 1)),
           },
         },
         {
-          dayOfWeek: date.toLocaleDateString('en-US', { weekday: 'lowercase' }),
+          dayOfWeek: toDayOfWeek(date),
           isRecurring: true,
-          isActive: true,
         },
       ],
     },
@@ -1220,18 +1251,4 @@ async function checkScheduleConflicts(
   })
   
   return { hasConflicts }
-}
-
-/**
- * Get coverage arrangement helper
- */
-async function getCoverageArrangement(
-  ctx: any,
-  doctorId: string,
-  clinicId: string,
-  startDate: Date,
-  endDate: Date
-) {
-  // This would implement the coverage arrangement logic
-  return { substitutes: [], recommendations: [] }
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure, calculatePagination } from '../trpc'
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
+import { atSingaporeTime, fromMinutes, singaporeDateKey, singaporeMinutes, slotStarts } from '@/lib/clinic-hours/calendar'
+import { loadClinicDays } from '@/lib/clinic-hours/service'
 
 const doctorSelect = {
   id: true,
@@ -77,6 +79,9 @@ const doctorSelect = {
   },
 }
 
+// Length of the bookable slots offered by getAvailableSlots
+const SLOT_MINUTES = 30
+
 /**
  * Doctor Router - Handles all doctor-related operations
  */
@@ -265,7 +270,8 @@ export const doctorRouter = createTRPCRouter({
     }),
 
   /**
-   * Get available appointment slots for a doctor
+   * Get available appointment slots for a doctor. Slots follow each clinic's opening
+   * hours in Singapore time, including public holidays and clinic exceptions.
    */
   getAvailableSlots: publicProcedure
     .input(
@@ -277,87 +283,88 @@ export const doctorRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
-      const { doctorId, startDate, endDate, serviceId } = input
+      const { doctorId, startDate, endDate } = input
       const now = new Date()
-      const searchStartDate = startDate || now
+      const searchStartDate = startDate && startDate > now ? startDate : now
       const searchEndDate = endDate || new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000) // 30 days from now
 
       try {
-        // Get doctor's clinic affiliations
-        const doctorClinics = await ctx.prisma.doctor.findUnique({
+        const doctor = await ctx.prisma.doctor.findUnique({
           where: { id: doctorId },
-          select: {
-            clinics: {
-              select: {
-                id: true,
-                name: true,
-                operatingHours: true,
-              },
-            },
-          },
+          select: { id: true },
         })
 
-        if (!doctorClinics) {
+        if (!doctor) {
           throw new TRPCError({
             code: 'NOT_FOUND',
             message: 'Doctor not found',
           })
         }
 
-        // Get existing appointments for the doctor
-        const existingAppointments = await ctx.prisma.appointment.findMany({
-          where: {
-            doctorId,
-            appointmentDate: {
-              gte: searchStartDate,
-              lte: searchEndDate,
+        const [doctorClinics, existingAppointments] = await Promise.all([
+          ctx.prisma.doctorClinic.findMany({
+            where: { doctorId },
+            select: { clinic: { select: { id: true, name: true } } },
+          }),
+          ctx.prisma.appointment.findMany({
+            where: {
+              doctorId,
+              appointmentDate: {
+                gte: searchStartDate,
+                lte: searchEndDate,
+              },
+              status: {
+                not: 'CANCELLED',
+              },
             },
-            status: {
-              not: 'CANCELLED',
+            select: {
+              id: true,
+              appointmentDate: true,
             },
-          },
-          select: {
-            id: true,
-            appointmentDate: true,
-            serviceId: true,
-            status: true,
-          },
-        })
+          }),
+        ])
+
+        const clinicDays = await loadClinicDays(
+          ctx.prisma,
+          doctorClinics.map(({ clinic }) => clinic.id),
+          singaporeDateKey(searchStartDate),
+          singaporeDateKey(searchEndDate)
+        )
 
-        // Generate available slots based on operating hours
+        // Generate available slots based on each clinic's hours for the day
         const availableSlots: Array<{
           date: Date
           clinicId: string
           clinicName: string
+          hoursNote: string | null
           timeSlots: Array<{
             time: string
             available: boolean
-            appointmentId?: string
           }>
         }> = []
 
-        for (const clinic of doctorClinics.clinics) {
-          if (!clinic.operatingHours) continue
-
-          const currentDate = new Date(searchStartDate)
-          while (currentDate <= searchEndDate) {
-            const dayName = currentDate.toLocaleDateString('en-US', { weekday: 'lowercase' })
-            const clinicHours = clinic.operatingHours[dayName]
-
-            if (clinicHours && clinicHours !== 'closed') {
-              const slots = generateTimeSlots(clinicHours, existingAppointments, currentDate, clinic.id)
-              
-              if (slots.length > 0) {
-                availableSlots.push({
-                  date: new Date(currentDate),
-                  clinicId: clinic.id,
-                  clinicName: clinic.name,
-                  timeSlots: slots,
-                })
-              }
+        for (const { clinic } of doctorClinics) {
+          for (const day of clinicDays.get(clinic.id)?.values() ?? []) {
+            const timeSlots = slotStarts(day, SLOT_MINUTES)
+              .filter(start => start >= searchStartDate && start <= searchEndDate)
+              .map(start => ({
+                time: fromMinutes(singaporeMinutes(start)),
+                available: !existingAppointments.some(
+                  appointment =>
+                    appointment.appointmentDate >= start &&
+                    appointment.appointmentDate.getTime() < start.getTime() + SLOT_MINUTES * 60 * 1000
+                ),
+              }))
+
+            if (timeSlots.length > 0) {
+              availableSlots.push({
+                date: atSingaporeTime(day.date),
+                clinicId: clinic.id,
+                clinicName: clinic.name,
+                hoursNote: day.label,
+                timeSlots,
+              })
             }
-
-            currentDate.setDate(currentDate.getDate() + 1)
           }
         }
 
@@ -365,7 +372,7 @@ export const doctorRouter = createTRPCRouter({
       } catch (error) {
         if (error instanceof TRPCError) throw error
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to fetch available slots',
           cause: error,
         })
@@ -1000,62 +1007,6 @@ export const doctorRouter = createTRPCRouter({
     }),
 })
 
-/**
- * Generate time slots for a given day and operating hours
- */
-function generateTimeSlots(
-  operatingHours: string,
-  existingAppointments: Array<{ appointmentDate: Date; serviceId: string | null }>,
-  date: Date,
-  clinicId: string
-): Array<{ time: string; available: boolean; appointmentId?: string }> {
-  const slots: Array<{ time: string; available: boolean; appointmentId?: string }> = []
-  
-  // Parse operating hours (e.g., "09:00-12:00,13:00-17:00")
-  const timeRanges = operatingHours.split(',').map(range => {
-    const [start, end] = range.trim().split('-')
-    return { start: start.trim(), end: end.trim() }
-  })
-
-  for (const timeRange of timeRanges) {
-    const startTime = new Date(date)
-    const [startHour, startMinute] = timeRange.start.split(':').map(Number)
-    startTime.setHours(startHour, startMinute, 0, 0)
-
-    const endTime = new Date(date)
-    const [endHour, endMinute] = timeRange.end.split(':').map(Number)
-    endTime.setHours(endHour, endMinute, 0, 0)
-
-    // Generate 30-minute slots
-    const currentTime = new Date(startTime)
-    while (currentTime < endTime) {
-      const timeString = currentTime.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false,
-      })
-
-      // Check if this time slot is already booked
-      const isBooked = existingAppointments.some(appointment => {
-        const appointmentTime = new Date(appointment.appointmentDate)
-        return (
-          appointmentTime.getHours() === currentTime.getHours() &&
-          appointmentTime.getMinutes() === currentTime.getMinutes()
-        )
-      })
-
-      slots.push({
-        time: timeString,
-        available: !isBooked,
-      })
-
-      currentTime.setMinutes(currentTime.getMinutes() + 30)
-    }
-  }
-
-  return slots
-}
-
 /**
  * Get order by clause for different sorting options
  */
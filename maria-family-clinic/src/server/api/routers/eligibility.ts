@@ -1,7 +1,16 @@
 import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, adminProcedure, calculatePagination } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@prisma/client'
+import { HealthierSGEligibilityRuleType, HealthierSGRecalculationFrequency, Prisma } from '@prisma/client'
+import { toDiffRows } from '@/lib/eligibility/backtest'
+import { buildEligibilityFacts } from '@/lib/eligibility/rule-engine'
+import {
+  EligibilityRuleError,
+  EligibilityRuleService,
+  summarizeRun,
+  type RuleDraft,
+  type RuleVersionInput,
+} from '@/lib/eligibility/service'
 
 const eligibilityAssessmentSelect = {
   id: true,
@@ -17,6 +26,27 @@ const eligibilityAssessmentSelect = {
   reviewNotes: true,
 }
 
+// Rule JSON is validated by the rule engine, which reports the exact problem
+const ruleChangesSchema = z.object({
+  ruleName: z.string().min(1).optional(),
+  ruleType: z.nativeEnum(HealthierSGEligibilityRuleType).optional(),
+  ruleDescription: z.string().nullable().optional(),
+  evaluationOrder: z.number().int().optional(),
+  ruleLogic: z.record(z.unknown()).optional(),
+  conditions: z.array(z.record(z.unknown())).optional(),
+  demographicRules: z.array(z.record(z.unknown())).optional(),
+  medicalRules: z.array(z.record(z.unknown())).optional(),
+  geographicRules: z.array(z.record(z.unknown())).optional(),
+  socioeconomicRules: z.array(z.record(z.unknown())).optional(),
+  behavioralRules: z.array(z.record(z.unknown())).optional(),
+  exceptions: z.array(z.record(z.unknown())).optional(),
+  isActive: z.boolean().optional(),
+  isDynamic: z.boolean().optional(),
+  recalculationFrequency: z.nativeEnum(HealthierSGRecalculationFrequency).optional(),
+  mohRequired: z.boolean().optional(),
+  legislativeBasis: z.string().nullable().optional(),
+})
+
 /**
  * Eligibility Checker Router - Handles interactive eligibility assessment
  */
@@ -180,8 +210,12 @@ export const eligibilityRouter = createTRPCRouter({
           })
         }
 
-        // Perform eligibility evaluation
-        const evaluationResult = await evaluateEligibility(assessment.responses || [], assessment.myInfoData)
+        // Perform eligibility evaluation against the rules currently in effect
+        const run = await new EligibilityRuleService(ctx.prisma).evaluate(
+          buildEligibilityFacts(assessment.responses || [], assessment.myInfoData as Record<string, unknown> | null),
+          { userId: ctx.session.user.id, assessmentId: assessment.id }
+        )
+        const evaluationResult = summarizeRun(run)
 
         // Update assessment with results
         const updated = await ctx.prisma.eligibilityAssessment.update({
@@ -563,97 +597,129 @@ export const eligibilityRouter = createTRPCRouter({
         })
       }
     }),
-})
 
-/**
- * Helper function to evaluate eligibility based on responses
- */
-async function evaluateEligibility(responses: any[], myInfoData?: any) {
-  // Convert responses to map for easy lookup
-  const responseMap = new Map(responses.map(r => [r.questionId, r.value]))
-
-  // Get age from MyInfo if available
-  let age: number | undefined
-  if (myInfoData?.dateOfBirth) {
-    const birthDate = new Date(myInfoData.dateOfBirth)
-    const today = new Date()
-    age = Math.floor((today.getTime() - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000))
-  } else {
-    age = responseMap.get('age')
-  }
-
-  // Basic eligibility criteria evaluation
-  const criteria = []
-
-  // Age requirement (40+ or have chronic conditions)
-  const hasChronicConditions = responseMap.get('hasChronicConditions') || false
-  const meetsAgeRequirement = age >= 40 || hasChronicConditions
-  criteria.push({
-    name: 'Age or Health Condition Requirement',
-    passed: meetsAgeRequirement,
-    weight: 25,
-    description: 'Must be 40+ years old or have chronic conditions',
-  })
-
-  // Citizenship status
-  const citizenshipStatus = myInfoData?.residentialStatus || responseMap.get('citizenshipStatus')
-  const isValidResident = citizenshipStatus === 'CITIZEN' || citizenshipStatus === 'PR'
-  criteria.push({
-    name: 'Residency Status',
-    passed: isValidResident,
-    weight: 30,
-    description: 'Must be Singapore Citizen or Permanent Resident',
-  })
-
-  // Health screening consent
-  const consentToScreening = responseMap.get('consentToScreening') || false
-  criteria.push({
-    name: 'Health Screening Consent',
-    passed: consentToScreening,
-    weight: 15,
-    description: 'Must consent to health screening and data collection',
-  })
-
-  // Program commitment
-  const commitmentLevel = responseMap.get('commitmentLevel')
-  const hasCommitment = commitmentLevel === 'HIGH' || commitmentLevel === 'MODERATE'
-  criteria.push({
-    name: 'Program Commitment',
-    passed: hasCommitment,
-    weight: 10,
-    description: 'Must show willingness to participate in program',
-  })
-
-  // Clinic accessibility
-  const selectedClinicId = responseMap.get('selectedClinicId')
-  criteria.push({
-    name: 'Clinic Accessibility',
-    passed: !!selectedClinicId,
-    weight: 10,
-    description: 'Must have access to participating clinic',
-  })
-
-  // Calculate overall score
-  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0)
-  const passedWeight = criteria
-    .filter(c => c.passed)
-    .reduce((sum, c) => sum + c.weight, 0)
-  const score = (passedWeight / totalWeight) * 100
-
-  // Check if all required criteria are passed
-  const requiredCriteria = criteria.filter(c => c.weight >= 15) // Criteria with significant weight
-  const allRequiredPassed = requiredCriteria.every(c => c.passed)
-
-  const isEligible = allRequiredPassed && score >= 70
-  const confidence = score / 100
-
-  return {
-    isEligible,
-    confidence,
-    reason: isEligible 
-      ? 'Meets all eligibility criteria for Healthier SG program'
-      : 'Does not meet required eligibility criteria',
-    score,
-    criteria,
-  }
-}
\ No newline at end of file
+  /**
+   * List eligibility rule versions (admin only)
+   */
+  listRuleVersions: adminProcedure
+    .input(
+      z.object({
+        programCode: z.string().optional(),
+        ruleKey: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new EligibilityRuleService(ctx.prisma).listRuleVersions(input.programCode, input.ruleKey)
+      } catch (error) {
+        if (error instanceof EligibilityRuleError) throw new TRPCError({ code: error.code, message: error.message })
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch eligibility rules',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Publish a new version of an eligibility rule (admin only)
+   */
+  publishRuleVersion: adminProcedure
+    .input(
+      z.object({
+        programCode: z.string().optional(),
+        ruleKey: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
+        changes: ruleChangesSchema,
+        effectiveFrom: z.date().optional(),
+        changeNotes: z.string().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new EligibilityRuleService(ctx.prisma).publishRuleVersion({
+          ...input,
+          changes: input.changes as Partial<RuleVersionInput>,
+          publishedBy: ctx.session.user.id,
+        })
+      } catch (error) {
+        if (error instanceof EligibilityRuleError) throw new TRPCError({ code: error.code, message: error.message })
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to publish eligibility rule',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Back-test rule changes against past assessments (admin only)
+   */
+  backtestRules: adminProcedure
+    .input(
+      z.object({
+        programCode: z.string().optional(),
+        from: z.date().optional(),
+        to: z.date().optional(),
+        limit: z.number().int().min(1).max(10000).default(2000),
+        candidateAt: z.date().optional(),
+        drafts: z
+          .array(
+            z.object({
+              ruleKey: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
+              changes: ruleChangesSchema,
+            })
+          )
+          .default([]),
+        disableRuleKeys: z.array(z.string()).default([]),
+        writeMetrics: z.boolean().default(false),
+        maxDiffs: z.number().int().min(0).max(5000).default(500),
+        format: z.enum(['json', 'csv']).default('json'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { format, drafts, ...options } = input
+
+      try {
+        const report = await new EligibilityRuleService(ctx.prisma).backtest({
+          ...options,
+          drafts: drafts as RuleDraft[],
+        })
+
+        if (format === 'csv') {
+          return {
+            format: 'csv' as const,
+            summary: report.summary,
+            data: toDiffRows(report),
+          }
+        }
+
+        return {
+          format: 'json' as const,
+          data: report,
+        }
+      } catch (error) {
+        if (error instanceof EligibilityRuleError) throw new TRPCError({ code: error.code, message: error.message })
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to back-test eligibility rules',
+          cause: error,
+        })
+      }
+    }),
+
+  /**
+   * Get the per-rule results of an evaluation run (admin only)
+   */
+  getEvaluationRun: adminProcedure
+    .input(z.object({ runId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const evaluations = await new EligibilityRuleService(ctx.prisma).getRun(input.runId)
+      if (evaluations.length === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Evaluation run not found',
+        })
+      }
+      return evaluations
+    }),
+})
@@ -3,6 +3,9 @@ import { createTRPCRouter, publicProcedure, protectedProcedure, staffProcedure,
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
 import { EnquiryType, EnquiryStatus, EnquiryPriority } from '@prisma/client'
+import { EnquiryWorkflowService } from '@/lib/enquiry-workflow/service'
+import { EnquiryRoutingError, EnquiryRoutingService } from '@/lib/enquiry-routing/service'
+import { RedactionService } from '@/lib/redaction/service'
 
 const enquirySelect = {
   id: true,
@@ -253,20 +256,32 @@ export const enquiryRouter = createTRPCRouter({
           priority = 'LOW'
         }
 
-        const enquiry = await ctx.prisma.enquiry.create({
-          data: {
-            name,
-            email,
-            phone,
-            subject,
-            message,
-            type,
-            priority,
-            status: 'PENDING',
-            clinicId: assignedClinicId,
-            ...(patientId ? { patientId } : {}),
-          },
-          select: enquirySelect,
+        // Staff handling enquiries are not clinical, so identity numbers and medical
+        // details in the free text are redacted before it is stored
+        const redaction = new RedactionService(ctx.prisma)
+        const [redactedSubject, redactedMessage] = await Promise.all([
+          redaction.prepare('subject', subject),
+          redaction.prepare('message', message),
+        ])
+
+        const enquiry = await ctx.prisma.$transaction(async tx => {
+          const created = await tx.enquiry.create({
+            data: {
+              name,
+              email,
+              phone,
+              subject: redactedSubject.text,
+              message: redactedMessage.text,
+              type,
+              priority,
+              status: 'PENDING',
+              clinicId: assignedClinicId,
+              ...(patientId ? { patientId } : {}),
+            },
+            select: enquirySelect,
+          })
+          await redaction.record(tx, { sourceType: 'ENQUIRY', sourceId: created.id }, [redactedSubject, redactedMessage], patientId)
+          return created
         })
 
         return enquiry
@@ -570,128 +585,77 @@ export const enquiryRouter = createTRPCRouter({
     }),
 
   /**
-   * Auto-assign enquiries based on workload and expertise
+   * Auto-assign enquiries using the ContactRouting rules: language, clinic, shift,
+   * open load and category expertise decide the agent, and the decision is stored
+   * with each ContactAssignment
    */
   autoAssign: staffProcedure
     .input(
       z.object({
-        enquiryIds: z.array(z.string().uuid()),
-        strategy: z.enum(['workload', 'expertise', 'round_robin']).default('workload'),
-        excludeUserId: z.string().uuid().optional(),
+        enquiryIds: z.array(z.string()).min(1).max(100),
+        excludeUserId: z.string().optional(),
+        dryRun: z.boolean().default(false),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { enquiryIds, strategy, excludeUserId } = input
+      const { enquiryIds, excludeUserId, dryRun } = input
 
       try {
-        // Get available staff for assignment
-        const availableStaff = await ctx.prisma.user.findMany({
-          where: {
-            role: 'STAFF',
-            ...(excludeUserId ? { id: { not: excludeUserId } } : {}),
-            // In a real implementation, you'd check staff availability status
-          },
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            clinic: {
-              select: {
-                id: true,
-              },
-            },
-          },
+        const decisions = await new EnquiryRoutingService(ctx.prisma).routeMany(enquiryIds, {
+          assignedBy: ctx.session.user.id,
+          excludeAgentIds: excludeUserId ? [excludeUserId] : [],
+          dryRun,
         })
-
-        if (availableStaff.length === 0) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'No available staff for assignment',
-          })
-        }
-
-        const assignments: Array<{ enquiryId: string; staffId: string; staffName: string }> = []
-
-        // Strategy: workload balancing
-        if (strategy === 'workload') {
-          // Get current workload for each staff member
-          const workloads = await Promise.all(
-            availableStaff.map(async (staff) => {
-              const assignedCount = await ctx.prisma.enquiry.count({
-                where: {
-                  assignedTo: staff.id,
-                  status: { in: ['PENDING', 'IN_PROGRESS'] },
-                },
-              })
-              return { staff, assignedCount }
-            })
-          )
-
-          // Sort by workload (ascending)
-          workloads.sort((a, b) => a.assignedCount - b.assignedCount)
-
-          // Assign enquiries to staff with lowest workload
-          enquiryIds.forEach((enquiryId, index) => {
-            const staffIndex = index % workloads.length
-            const selectedStaff = workloads[staffIndex].staff
-            assignments.push({
-              enquiryId,
-              staffId: selectedStaff.id,
-              staffName: selectedStaff.name,
-            })
-          })
-        } else {
-          // Simple round-robin assignment
-          enquiryIds.forEach((enquiryId, index) => {
-            const staffIndex = index % availableStaff.length
-            const selectedStaff = availableStaff[staffIndex]
-            assignments.push({
-              enquiryId,
-              staffId: selectedStaff.id,
-              staffName: selectedStaff.name,
-            })
-          })
-        }
-
-        // Update enquiries with assignments
-        const updatePromises = assignments.map(({ enquiryId, staffId }) =>
-          ctx.prisma.enquiry.update({
-            where: { id: enquiryId },
-            data: {
-              assignedTo: staffId,
-              updatedAt: new Date(),
-            },
-          })
-        )
-
-        await Promise.all(updatePromises)
-
-        // Trigger notifications for new assignments
-        const notificationPromises = assignments.map(({ enquiryId, staffId, staffName }) =>
-          // In a real implementation, you'd send notifications here
-          Promise.resolve()
-        )
-
-        await Promise.all(notificationPromises)
+        const assigned = decisions.filter(decision => decision.outcome === 'ASSIGNED')
 
         return {
           success: true,
-          assignedCount: assignments.length,
-          assignments: assignments.map(a => ({
-            enquiryId: a.enquiryId,
-            staffId: a.staffId,
-            staffName: a.staffName,
+          dryRun,
+          assignedCount: assigned.length,
+          assignments: assigned.map(decision => ({
+            enquiryId: decision.enquiryId,
+            staffId: decision.agentId!,
+            staffName: decision.agentName!,
+            ruleName: decision.ruleName,
+            score: decision.score,
+            reason: decision.summary,
           })),
+          unrouted: decisions
+            .filter(decision => decision.outcome === 'UNROUTED')
+            .map(decision => ({ enquiryId: decision.enquiryId, reason: decision.summary })),
         }
       } catch (error) {
+        if (error instanceof EnquiryRoutingError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to auto-assign enquiries',
           cause: error,
         })
       }
     }),
 
+  /**
+   * Explain why an enquiry was routed to its current assignee
+   */
+  explainAssignment: staffProcedure
+    .input(z.object({ enquiryId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new EnquiryRoutingService(ctx.prisma).explain(input.enquiryId)
+      } catch (error) {
+        if (error instanceof EnquiryRoutingError) {
+          throw new TRPCError({ code: error.code, message: error.message })
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to explain enquiry assignment',
+          cause: error,
+        })
+      }
+    }),
+
   /**
    * Manual assignment of enquiry to specific staff
    */
@@ -1394,134 +1358,57 @@ export const enquiryRouter = createTRPCRouter({
     }),
 
   /**
-   * Process automated workflow triggers
+   * Process automated workflow triggers: fires due SLA reminders, escalations and
+   * automatic transitions from the persisted enquiry workflow timers
    */
   processWorkflowTriggers: staffProcedure
     .input(
       z.object({
         dryRun: z.boolean().default(false),
+        limit: z.number().int().min(1).max(500).default(100),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { dryRun } = input
+      const { dryRun, limit } = input
+      const workflow = new EnquiryWorkflowService(ctx.prisma)
 
       try {
-        const results: {
-          autoAssigned: number
-          autoEscalated: number
-          remindersSent: number
-          autoClosed: number
-          errors: string[]
-        } = {
-          autoAssigned: 0,
-          autoEscalated: 0,
-          remindersSent: 0,
-          autoClosed: 0,
-          errors: [],
-        }
-
-        // Get pending enquiries that need processing
-        const pendingEnquiries = await ctx.prisma.enquiry.findMany({
-          where: {
-            status: { in: ['PENDING', 'IN_PROGRESS'] },
-          },
-          select: {
-            id: true,
-            priority: true,
-            assignedTo: true,
-            createdAt: true,
-            status: true,
-          },
-        })
-
-        for (const enquiry of pendingEnquiries) {
-          const ageInHours = (new Date().getTime() - enquiry.createdAt.getTime()) / (1000 * 60 * 60)
-
-          try {
-            // Auto-assign unassigned enquiries
-            if (!enquiry.assignedTo) {
-              if (!dryRun) {
-                // Get available staff
-                const availableStaff = await ctx.prisma.user.findMany({
-                  where: { role: 'STAFF' },
-                  select: {
-                    id: true,
-                    assignedEnquiries: {
-                      where: { status: { in: ['PENDING', 'IN_PROGRESS'] } },
-                      select: { id: true },
-                    },
-                  },
-                })
-
-                const leastBusy = availableStaff
-                  .sort((a, b) => a.assignedEnquiries.length - b.assignedEnquiries.length)[0]
-
-                if (leastBusy) {
-                  await ctx.prisma.enquiry.update({
-                    where: { id: enquiry.id },
-                    data: { assignedTo: leastBusy.id },
-                  })
-                }
-              }
-              results.autoAssigned++
-            }
-
-            // Auto-escalate overdue enquiries
-            const shouldEscalate = (
-              (enquiry.priority === 'URGENT' && ageInHours > 4) ||
-              (enquiry.priority === 'HIGH' && ageInHours > 24) ||
-              (enquiry.priority === 'MEDIUM' && ageInHours > 72) ||
-              (enquiry.priority === 'LOW' && ageInHours > 168)
-            )
-
-            if (shouldEscalate) {
-              if (!dryRun) {
-                await ctx.prisma.enquiry.update({
-                  where: { id: enquiry.id },
-                  data: {
-                    priority: enquiry.priority === 'LOW' ? 'MEDIUM' : 
-                            enquiry.priority === 'MEDIUM' ? 'HIGH' : 'URGENT',
-                    escalationLevel: 1,
-                  },
-                })
-              }
-              results.autoEscalated++
-            }
-
-            // Send reminders for stale enquiries
-            const shouldSendReminder = ageInHours > 24 && enquiry.status === 'IN_PROGRESS'
-            if (shouldSendReminder && enquiry.assignedTo) {
-              if (!dryRun) {
-                // Send reminder notification
-                // await notificationService.sendReminder(enquiry.id, 'staff')
-              }
-              results.remindersSent++
-            }
-
-            // Auto-close old resolved enquiries
-            if (enquiry.status === 'RESOLVED' && ageInHours > 168) { // 1 week
-              if (!dryRun) {
-                await ctx.prisma.enquiry.update({
-                  where: { id: enquiry.id },
-                  data: { status: 'CLOSED' },
-                })
-              }
-              results.autoClosed++
-            }
-          } catch (error) {
-            results.errors.push(`Failed to process enquiry ${enquiry.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        if (dryRun) {
+          const due = await workflow.findDueTimers(new Date(), limit)
+          return {
+            success: true,
+            processed: due.length,
+            results: {
+              remindersSent: due.filter(timer => timer.action === 'REMIND').length,
+              autoEscalated: due.filter(timer => timer.action === 'ESCALATE').length,
+              autoTransitioned: due.filter(timer => timer.action === 'TRANSITION').length,
+              started: 0,
+              cancelled: 0,
+              failed: 0,
+              skipped: 0,
+            },
+            timestamp: new Date(),
           }
         }
 
+        const run = await workflow.runDueTimers({ limit })
         return {
           success: true,
-          processed: pendingEnquiries.length,
-          results,
+          processed: run.fired + run.cancelled + run.failed,
+          results: {
+            remindersSent: run.byAction.REMIND ?? 0,
+            autoEscalated: run.byAction.ESCALATE ?? 0,
+            autoTransitioned: run.byAction.TRANSITION ?? 0,
+            started: run.started,
+            cancelled: run.cancelled,
+            failed: run.failed,
+            skipped: run.skipped,
+          },
           timestamp: new Date(),
         }
       } catch (error) {
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Failed to process workflow triggers',
           cause: error,
         })
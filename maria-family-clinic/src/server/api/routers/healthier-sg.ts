@@ -2,6 +2,8 @@ import { z } from 'zod'
 import { createTRPCRouter, publicProcedure, protectedProcedure, adminProcedure, calculatePagination } from '../trpc'
 import { TRPCError } from '@trpc/server'
 import { Prisma } from '@prisma/client'
+import { buildEligibilityFacts } from '@/lib/eligibility/rule-engine'
+import { EligibilityRuleService, summarizeRun } from '@/lib/eligibility/service'
 
 const healthierSgRegistrationSelect = {
   id: true,
@@ -42,50 +44,20 @@ export const healthierSgRouter = createTRPCRouter({
    */
   getEligibilityRules: publicProcedure.query(async ({ ctx }) => {
     try {
-      // Return default Healthier SG eligibility rules
+      const ruleSet = await new EligibilityRuleService(ctx.prisma).loadRules()
+
       return {
-        rules: [
-          {
-            id: 'age-40-plus',
-            name: 'Age Requirement',
-            description: 'Applicant must be 40 years or older',
-            category: 'DEMOGRAPHIC',
-            weight: 25,
-            isRequired: true,
-            active: true,
-            order: 1,
-          },
-          {
-            id: 'citizenship-status',
-            name: 'Citizenship Status',
-            description: 'Must be Singapore Citizen or Permanent Resident',
-            category: 'DEMOGRAPHIC',
-            weight: 30,
-            isRequired: true,
-            active: true,
-            order: 2,
-          },
-          {
-            id: 'chronic-conditions',
-            name: 'Chronic Conditions Priority',
-            description: 'Having chronic conditions qualifies for priority enrollment',
-            category: 'HEALTH',
-            weight: 20,
-            isRequired: false,
-            active: true,
-            order: 3,
-          },
-          {
-            id: 'consent-to-screening',
-            name: 'Health Screening Consent',
-            description: 'Must consent to health screening and data collection',
-            category: 'HEALTH',
-            weight: 15,
-            isRequired: true,
-            active: true,
-            order: 4,
-          },
-        ],
+        rules: ruleSet.rules.map(rule => ({
+          id: rule.ruleKey,
+          name: rule.name,
+          description: rule.description,
+          category: rule.ruleType,
+          weight: rule.logic.weight ?? 10,
+          isRequired: rule.logic.required ?? true,
+          active: true,
+          order: rule.evaluationOrder,
+          version: rule.version,
+        })),
         progressiveDisclosure: [
           {
             triggerQuestionId: 'hasChronicConditions',
@@ -93,8 +65,9 @@ export const healthierSgRouter = createTRPCRouter({
             showQuestionIds: ['chronicConditionsList', 'lastMedicalCheckup'],
           },
         ],
-        confidenceThreshold: 70,
+        confidenceThreshold: ruleSet.passingScore,
         totalPossibleScore: 100,
+        source: ruleSet.source,
       }
     } catch (error) {
       throw new TRPCError({
@@ -123,96 +96,28 @@ export const healthierSgRouter = createTRPCRouter({
       const { responses, assessmentId } = input
 
       try {
-        // Evaluate using rule engine logic
-        const responseMap = new Map(responses.map(r => [r.questionId, r.value]))
-        
-        // Basic rule evaluation (can be enhanced with actual rule engine)
-        let score = 0
-        let isEligible = true
-        const criteriaResults = []
-
-        // Age requirement
-        const age = responseMap.get('age')
-        const agePass = age && Number(age) >= 40
-        criteriaResults.push({
-          name: 'Age Requirement',
-          passed: agePass,
-          score: agePass ? 25 : 0,
-          description: 'Must be 40 years or older',
-          recommendation: agePass ? 'Meets age requirement' : 'Must be 40 or older to qualify',
-        })
-        score += agePass ? 25 : 0
-
-        // Citizenship status
-        const citizenship = responseMap.get('citizenshipStatus')
-        const citizenshipPass = ['CITIZEN', 'PR'].includes(citizenship)
-        criteriaResults.push({
-          name: 'Citizenship Status',
-          passed: citizenshipPass,
-          score: citizenshipPass ? 30 : 0,
-          description: 'Must be Singapore Citizen or Permanent Resident',
-          recommendation: citizenshipPass ? 'Meets citizenship requirement' : 'Must be Singapore Citizen or PR',
-        })
-        score += citizenshipPass ? 30 : 0
-
-        // Chronic conditions (optional bonus)
-        const hasChronic = responseMap.get('hasChronicConditions')
-        const chronicPass = hasChronic === true
-        criteriaResults.push({
-          name: 'Chronic Conditions',
-          passed: true, // Not required but helpful
-          score: hasChronic ? 20 : 0,
-          description: 'Having chronic conditions provides priority consideration',
-          recommendation: hasChronic ? 'Has chronic conditions - eligible for priority' : 'No chronic conditions reported',
-        })
-        score += hasChronic ? 20 : 0
-
-        // Consent to screening
-        const consent = responseMap.get('consentToScreening')
-        const consentPass = consent === true
-        criteriaResults.push({
-          name: 'Screening Consent',
-          passed: consentPass,
-          score: consentPass ? 15 : 0,
-          description: 'Must consent to health screening and data collection',
-          recommendation: consentPass ? 'Consents to screening requirements' : 'Screening consent required',
-        })
-        score += consentPass ? 15 : 0
-
-        // Program commitment
-        const commitment = responseMap.get('commitmentLevel')
-        const commitmentPass = ['HIGH', 'MODERATE'].includes(commitment)
-        criteriaResults.push({
-          name: 'Program Commitment',
-          passed: commitmentPass,
-          score: commitmentPass ? 10 : 0,
-          description: 'Must demonstrate willingness to participate',
-          recommendation: commitmentPass ? 'Shows commitment to program' : 'Must be willing to participate actively',
-        })
-        score += commitmentPass ? 10 : 0
-
-        // Overall eligibility check
-        const requiredPassed = agePass && citizenshipPass && consentPass && commitmentPass
-        isEligible = requiredPassed && score >= 70
-
-        // Calculate confidence
-        const confidence = score / 100
+        const eligibility = new EligibilityRuleService(ctx.prisma)
+        const facts = buildEligibilityFacts(responses)
+        const run = await eligibility.evaluate(facts, { userId: ctx.session.user.id, record: false })
+        const evaluationResult = summarizeRun(run)
+        const { isEligible, confidence, score } = evaluationResult
+        const criteriaResults = evaluationResult.criteria.map(criterion => ({
+          ...criterion,
+          recommendation: criterion.description,
+        }))
 
-        // Create or update assessment record
         const assessment = await ctx.prisma.eligibilityAssessment.create({
           data: {
             userId: ctx.session.user.id,
             questionnaireResponses: responses,
-            evaluationResult: {
-              isEligible,
-              confidence,
-              score,
-              criteriaResults,
-            },
-            eligibilityStatus: isEligible ? 'ELIGIBLE' : 'NOT_ELIGIBLE',
-            assessmentDate: new Date(),
+            evaluationResult,
+            eligibilityStatus: run.result,
+            assessmentDate: run.evaluatedAt,
+            ageAtAssessment: typeof facts.age === 'number' ? facts.age : null,
+            residencyStatus: typeof facts.citizenshipStatus === 'string' ? facts.citizenshipStatus : null,
           },
         })
+        await eligibility.recordRun(run, facts, { userId: ctx.session.user.id, assessmentId: assessment.id })
 
         // Build next steps based on eligibility
         const nextSteps = []
@@ -264,9 +169,12 @@ export const healthierSgRouter = createTRPCRouter({
           success: true,
           data: {
             isEligible,
+            result: run.result,
+            reason: run.summary,
             confidence,
             score,
             criteriaResults,
+            ruleVersions: run.ruleVersions,
             nextSteps,
             appealsAvailable: true,
             appealDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
@@ -1357,11 +1265,21 @@ export const healthierSgRouter = createTRPCRouter({
           })
         }
 
-        const evaluationResult = assessment.evaluationResult as any
-        if (!evaluationResult?.isEligible) {
+        // Re-check against the rules in effect now, which may have changed since the assessment
+        const facts = buildEligibilityFacts(
+          assessment.questionnaireResponses as { questionId: string; value: unknown }[],
+          assessment.myInfoData as Record<string, unknown> | null
+        )
+        const run = await new EligibilityRuleService(ctx.prisma).evaluate(facts, {
+          userId: ctx.session.user.id,
+          assessmentId: assessment.id,
+          evaluationType: 'RE_EVALUATION',
+        })
+        const evaluationResult = summarizeRun(run)
+        if (!run.isEligible) {
           throw new TRPCError({
             code: 'FORBIDDEN',
-            message: 'User is not eligible for Healthier SG program',
+            message: `User is not eligible for Healthier SG program: ${run.summary}`,
           })
         }
 
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+import { createTRPCRouter, staffProcedure } from '../trpc'
+import { toTRPCError } from '../errors'
+import { LiveChatQueueError, LiveChatQueueService } from '@/lib/live-chat/service'
+
+/**
+ * Live Chat Queue Router - Chats waiting for an agent, including chatbot handoffs with
+ * the bot transcript and the entities it picked up
+ */
+export const liveChatQueueRouter = createTRPCRouter({
+  /**
+   * Waiting chats, next in line first
+   */
+  waiting: staffProcedure
+    .input(
+      z
+        .object({
+          clinicId: z.string().optional(),
+          department: z.string().optional(),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new LiveChatQueueService(ctx.prisma).listWaiting(input)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to load the live chat queue', LiveChatQueueError)
+      }
+    }),
+
+  /**
+   * Take a waiting chat; fails with CONFLICT if another agent got there first
+   */
+  claim: staffProcedure
+    .input(z.object({ sessionId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const agent = ctx.session.user
+        return await new LiveChatQueueService(ctx.prisma).claim(input.sessionId, {
+          id: agent.id,
+          name: agent.name ?? agent.email ?? 'Agent',
+        })
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to claim chat', LiveChatQueueError)
+      }
+    }),
+})
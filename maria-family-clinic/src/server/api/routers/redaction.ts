@@ -0,0 +1,59 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, publicProcedure, adminProcedure } from '../trpc'
+import { toTRPCError } from '../errors'
+import { redactText } from '@/lib/redaction/detectors'
+import { RedactionError, RedactionService } from '@/lib/redaction/service'
+
+const sourceSchema = z.object({
+  sourceType: z.enum(['PATIENT_REVIEW', 'REVIEW_RESPONSE', 'ENQUIRY', 'CONTACT_FORM']),
+  sourceId: z.string(),
+})
+
+/**
+ * Redaction Router - Previews redaction of free text and gives clinical staff audited
+ * access to the originals
+ */
+export const redactionRouter = createTRPCRouter({
+  /**
+   * What would be hidden from a review or enquiry, so forms can warn before submitting
+   */
+  preview: publicProcedure.input(z.object({ text: z.string().max(5000) })).query(({ input }) => {
+    return redactText(input.text)
+  }),
+
+  /**
+   * The original text behind a redaction; clinical staff only, with a logged reason
+   */
+  reveal: protectedProcedure
+    .input(
+      sourceSchema.extend({
+        field: z.string(),
+        recordId: z.string().optional(),
+        reason: z.string().trim().min(5).max(500),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { field, recordId, reason, ...source } = input
+        return await new RedactionService(ctx.prisma).reveal(
+          source,
+          field,
+          { id: ctx.session.user.id, role: String(ctx.session.user.role), reason },
+          recordId
+        )
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to load original text', RedactionError)
+      }
+    }),
+
+  /**
+   * What was redacted from a review, reply or enquiry, and who has read the originals
+   */
+  history: adminProcedure.input(sourceSchema).query(async ({ ctx, input }) => {
+    try {
+      return await new RedactionService(ctx.prisma).history(input)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load redaction history', RedactionError)
+    }
+  }),
+})
@@ -0,0 +1,262 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, publicProcedure, staffProcedure, calculatePagination, isStaffRole, type Context } from '../trpc'
+import { toTRPCError } from '../errors'
+import { TRPCError } from '@trpc/server'
+import { ReviewError, ReviewService } from '@/lib/reviews/service'
+
+const rating = z.number().int().min(1).max(5)
+
+// Mirrors RatingDimensions in the review components; only the overall rating is required
+const ratingsSchema = z.object({
+  overallRating: rating,
+  bedsideManner: rating.optional(),
+  communication: rating.optional(),
+  treatmentEffectiveness: rating.optional(),
+  painManagement: rating.optional(),
+  followUpCare: rating.optional(),
+  waitTime: rating.optional(),
+  facilityEnvironment: rating.optional(),
+})
+
+const targetSchema = z.union([z.object({ doctorId: z.string().uuid() }), z.object({ clinicId: z.string().uuid() })])
+
+/**
+ * Staff may reply for any doctor; anyone else only for the doctor whose profile carries
+ * their email address
+ */
+async function assertCanRespond(
+  ctx: { prisma: Context['prisma']; session: { user: { id: string; email?: string | null; role?: unknown } } },
+  reviewId: string
+) {
+  const review = await ctx.prisma.patientReview.findUnique({
+    where: { id: reviewId },
+    select: { doctor: { select: { email: true } } },
+  })
+
+  if (!review) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Review not found',
+    })
+  }
+
+  const { user } = ctx.session
+  const isReviewedDoctor = !!user.email && review.doctor.email?.toLowerCase() === user.email.toLowerCase()
+  if (!isStaffRole(user.role) && !isReviewedDoctor) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only the reviewed doctor or clinic staff can reply to this review',
+    })
+  }
+}
+
+/**
+ * Review Router - Verified doctor and clinic reviews with flagging, moderation and replies
+ */
+export const reviewRouter = createTRPCRouter({
+  /**
+   * Review a completed appointment; published after moderation
+   */
+  submit: protectedProcedure
+    .input(
+      z.object({
+        appointmentId: z.string().uuid(),
+        ratings: ratingsSchema,
+        comment: z.string().trim().min(10).max(5000),
+        isAnonymous: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new ReviewService(ctx.prisma).submit(ctx.session.user.id, input)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to submit review', ReviewError)
+      }
+    }),
+
+  /**
+   * Edit your own review; the previous version is kept and it is moderated again
+   */
+  update: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          ratings: ratingsSchema.optional(),
+          comment: z.string().trim().min(10).max(5000).optional(),
+          reason: z.string().max(500).optional(),
+        })
+        .refine(input => input.ratings || input.comment, { message: 'Nothing to change' })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, ...changes } = input
+        return await new ReviewService(ctx.prisma).update(ctx.session.user.id, id, changes)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to update review', ReviewError)
+      }
+    }),
+
+  /**
+   * Completed appointments the current user can still review
+   */
+  reviewable: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await new ReviewService(ctx.prisma).reviewableAppointments(ctx.session.user.id)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load appointments to review', ReviewError)
+    }
+  }),
+
+  /**
+   * Reviews the current user has written, with their moderation status
+   */
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await new ReviewService(ctx.prisma).listMine(ctx.session.user.id)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load your reviews', ReviewError)
+    }
+  }),
+
+  /**
+   * Published reviews of a doctor or a clinic
+   */
+  list: publicProcedure
+    .input(
+      z.object({
+        target: targetSchema,
+        page: z.number().int().min(1).default(1),
+        limit: z.number().int().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { reviews, total } = await new ReviewService(ctx.prisma).listPublished(input.target, input.page, input.limit)
+        return {
+          reviews,
+          pagination: calculatePagination(input.page, input.limit, total),
+        }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to load reviews', ReviewError)
+      }
+    }),
+
+  /**
+   * Average ratings per dimension for a doctor or a clinic
+   */
+  summary: publicProcedure.input(z.object({ target: targetSchema })).query(async ({ ctx, input }) => {
+    try {
+      return await new ReviewService(ctx.prisma).summary(input.target)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load rating summary', ReviewError)
+    }
+  }),
+
+  /**
+   * Report a published review to the moderators
+   */
+  flag: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.enum(['SPAM', 'INAPPROPRIATE', 'FAKE', 'VIOLATION', 'HARASSMENT', 'MEDICAL_ADVICE', 'PRIVACY']),
+        details: z.string().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const flag = await new ReviewService(ctx.prisma).flag(ctx.session.user.id, input.id, input)
+        return { id: flag.id, severity: flag.severity }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to flag review', ReviewError)
+      }
+    }),
+
+  /**
+   * The doctor's public reply, shown after moderation
+   */
+  respond: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        text: z.string().trim().min(1).max(3000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertCanRespond(ctx, input.id)
+        return await new ReviewService(ctx.prisma).respond(input.id, ctx.session.user.id, input.text)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to save reply', ReviewError)
+      }
+    }),
+
+  /**
+   * Moderation queue, most urgent first
+   */
+  moderationQueue: staffProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(['PENDING', 'IN_REVIEW', 'RESOLVED']).optional(),
+          type: z.enum(['NEW_REVIEW', 'EDITED_REVIEW', 'FLAGGED_REVIEW', 'DOCTOR_RESPONSE']).optional(),
+          mine: z.boolean().default(false),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await new ReviewService(ctx.prisma).listQueue({
+          status: input.status,
+          type: input.type,
+          assignedTo: input.mine ? ctx.session.user.id : undefined,
+        })
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to load moderation queue', ReviewError)
+      }
+    }),
+
+  /**
+   * Take a queue item; fails with CONFLICT if another moderator has it
+   */
+  claim: staffProcedure.input(z.object({ itemId: z.string() })).mutation(async ({ ctx, input }) => {
+    try {
+      return await new ReviewService(ctx.prisma).claim(input.itemId, ctx.session.user.id)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to claim moderation item', ReviewError)
+    }
+  }),
+
+  /**
+   * Approve or reject a queue item; rejections need a reason
+   */
+  moderate: staffProcedure
+    .input(
+      z.object({
+        itemId: z.string(),
+        decision: z.enum(['APPROVED', 'REJECTED']),
+        reason: z.string().max(500).optional(),
+        notes: z.string().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { itemId, ...decision } = input
+        return await new ReviewService(ctx.prisma).decide(itemId, ctx.session.user.id, decision)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to record moderation decision', ReviewError)
+      }
+    }),
+
+  /**
+   * A review with its flags, edit history, reply and moderation audit trail
+   */
+  history: staffProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    try {
+      return await new ReviewService(ctx.prisma).history(input.id)
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to load review history', ReviewError)
+    }
+  }),
+})
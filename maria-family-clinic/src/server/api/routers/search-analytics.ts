@@ -0,0 +1,122 @@
+import { z } from 'zod'
+import { createTRPCRouter, staffProcedure, calculatePagination } from '../trpc'
+import { toTRPCError } from '../errors'
+import { SynonymSuggestionStatus, SynonymType } from '@prisma/client'
+import { SearchAnalyticsError, SearchAnalyticsService } from '@/lib/search-analytics/service'
+import { SEARCH_LANGUAGES } from '@/lib/service-search/service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const periodSchema = z.object({
+  dateFrom: z.date().optional(),
+  dateTo: z.date().optional(),
+})
+
+function period(input: z.infer<typeof periodSchema>, defaultDays = 30) {
+  const to = input.dateTo ?? new Date()
+  return { from: input.dateFrom ?? new Date(to.getTime() - defaultDays * DAY_MS), to }
+}
+
+/**
+ * Search Analytics Router - Failed-search reports and the synonym review queue (staff only)
+ */
+export const searchAnalyticsRouter = createTRPCRouter({
+  /**
+   * Top zero-result and low-click queries per language
+   */
+  getFailedQueryReport: staffProcedure
+    .input(periodSchema.extend({ limit: z.number().min(1).max(100).default(20) }))
+    .query(async ({ ctx, input }) => {
+      const { from, to } = period(input)
+      try {
+        return {
+          from,
+          to,
+          languages: await new SearchAnalyticsService(ctx.prisma).failedQueryReport(from, to, input.limit),
+        }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to build failed query report', SearchAnalyticsError)
+      }
+    }),
+
+  /**
+   * Synonym suggestions awaiting review, most confident first
+   */
+  listSynonymSuggestions: staffProcedure
+    .input(
+      z.object({
+        status: z.nativeEnum(SynonymSuggestionStatus).default(SynonymSuggestionStatus.PENDING),
+        language: z.string().optional(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { suggestions, total } = await new SearchAnalyticsService(ctx.prisma).listSuggestions({
+          status: input.status,
+          language: input.language,
+          limit: input.limit,
+          offset: (input.page - 1) * input.limit,
+        })
+        return {
+          data: suggestions,
+          pagination: calculatePagination(input.page, input.limit, total),
+        }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch synonym suggestions', SearchAnalyticsError)
+      }
+    }),
+
+  /**
+   * Approve a suggestion into ServiceSynonym/CategorySynonym, optionally correcting it
+   */
+  approveSynonymSuggestion: staffProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        term: z.string().min(1).max(100).optional(),
+        language: z.enum(SEARCH_LANGUAGES).optional(),
+        termType: z.nativeEnum(SynonymType).optional(),
+        note: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new SearchAnalyticsService(ctx.prisma).approveSuggestion({
+          suggestionId: input.id,
+          reviewerId: ctx.session.user.id,
+          term: input.term,
+          language: input.language,
+          termType: input.termType,
+          note: input.note,
+        })
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to approve synonym suggestion', SearchAnalyticsError)
+      }
+    }),
+
+  rejectSynonymSuggestion: staffProcedure
+    .input(z.object({ id: z.string(), note: z.string().max(500).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await new SearchAnalyticsService(ctx.prisma).rejectSuggestion(input.id, ctx.session.user.id, input.note)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to reject synonym suggestion', SearchAnalyticsError)
+      }
+    }),
+
+  /**
+   * Mine the logs now instead of waiting for the scheduled job
+   */
+  mineSynonymSuggestions: staffProcedure
+    .input(periodSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { from, to } = period(input)
+      try {
+        return await new SearchAnalyticsService(ctx.prisma).mineSynonymSuggestions(from, to)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to mine synonym suggestions', SearchAnalyticsError)
+      }
+    }),
+})
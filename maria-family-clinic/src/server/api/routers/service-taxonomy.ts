@@ -31,6 +31,8 @@ import {
   CertificationType,
   PackageBookingStatus
 } from '@prisma/client'
+import { invalidateServiceSearch, SEARCH_LANGUAGES, ServiceSearchService } from '@/lib/service-search/service'
+import { SearchAnalyticsService } from '@/lib/search-analytics/service'
 
 const serviceTaxonomySelect = {
   id: true,
@@ -308,40 +310,18 @@ export const serviceTaxonomyRouter = createTRPCRouter({
         limit: z.number().min(1).max(50).default(10),
         offset: z.number().min(0).default(0),
         sortBy: z.enum(['relevance', 'name', 'price', 'duration', 'complexity']).default('relevance'),
+        language: z.enum(SEARCH_LANGUAGES).optional(),
+        sessionId: z.string().optional(), // Logs the search for analytics
       })
     )
     .query(async ({ ctx, input }) => {
       const { query, limit, offset, sortBy } = input
+      const startTime = Date.now()
 
       try {
-        // Build search query with multiple fields
-        const searchConditions = [
-          // Direct name match (highest priority)
-          { name: { contains: query, mode: 'insensitive' } },
-          // Synonyms and search terms
-          { synonyms: { has: query.toLowerCase() } },
-          { searchTerms: { has: query.toLowerCase() } },
-          { commonSearchPhrases: { has: query.toLowerCase() } },
-          // Search index
-          { searchIndex: { 
-            is: { 
-              OR: [
-                { searchableName: { contains: query, mode: 'insensitive' } },
-                { searchableDesc: { contains: query, mode: 'insensitive' } },
-                { searchKeywords: { has: query.toLowerCase() } },
-                { searchPhrases: { has: query.toLowerCase() } },
-              ]
-            }
-          }},
-          // Description and medical terms
-          { description: { contains: query, mode: 'insensitive' } },
-          { medicalDescription: { contains: query, mode: 'insensitive' } },
-        ]
-
-        // Build where clause
+        // Filters; text matching and relevance come from the search engine
         const where: Prisma.ServiceWhereInput = {
           isActive: true,
-          OR: searchConditions,
           ...(input.categoryId && { categoryId: input.categoryId }),
           ...(input.subcategory && { subcategory: input.subcategory }),
           ...(input.complexityLevel && { complexityLevel: input.complexityLevel }),
@@ -355,16 +335,9 @@ export const serviceTaxonomyRouter = createTRPCRouter({
           }),
         }
 
-        // Sort order based on relevance or other criteria
-        let orderBy: Prisma.ServiceOrderByWithRelationInput = {}
+        let orderBy: 'relevance' | Prisma.ServiceOrderByWithRelationInput
         if (sortBy === 'relevance') {
-          // Use search boost and popularity for relevance sorting
-          orderBy = [
-            { searchIndex: { popularityScore: 'desc' } },
-            { searchIndex: { searchBoost: 'desc' } },
-            { sortOrder: 'asc' },
-            { name: 'asc' },
-          ]
+          orderBy = 'relevance'
         } else if (sortBy === 'price') {
           orderBy = { basePrice: 'asc' }
         } else if (sortBy === 'duration') {
@@ -375,73 +348,93 @@ export const serviceTaxonomyRouter = createTRPCRouter({
           orderBy = { name: 'asc' }
         }
 
-        const [services, total] = await Promise.all([
-          ctx.prisma.service.findMany({
-            where,
-            select: {
-              ...serviceTaxonomySelect,
-              category: {
-                select: {
-                  id: true,
-                  name: true,
-                  displayName: true,
-                  mohCodePrefix: true,
-                },
+        const result = await new ServiceSearchService(ctx.prisma).search({
+          query,
+          language: input.language,
+          where,
+          orderBy,
+          limit,
+          offset,
+        })
+
+        const services = await ctx.prisma.service.findMany({
+          where: { id: { in: result.matches.map(match => match.serviceId) } },
+          select: {
+            ...serviceTaxonomySelect,
+            category: {
+              select: {
+                id: true,
+                name: true,
+                displayName: true,
+                mohCodePrefix: true,
               },
             },
-            skip: offset,
-            take: limit,
-            orderBy,
-          }),
-          ctx.prisma.service.count({ where }),
-        ])
-
-        // Calculate search scores for better ranking
-        const servicesWithScores = services.map(service => {
-          let score = 0
-          
-          // Exact name match bonus
-          if (service.name.toLowerCase() === query.toLowerCase()) score += 100
-          else if (service.name.toLowerCase().includes(query.toLowerCase())) score += 50
-          
-          // Synonym match bonus
-          const synonymMatch = service.synonyms?.some(syn => 
-            syn.toLowerCase().includes(query.toLowerCase())
-          )
-          if (synonymMatch) score += 30
-          
-          // Search term match bonus
-          const searchTermMatch = service.searchTerms?.some(term => 
-            term.toLowerCase().includes(query.toLowerCase())
-          )
-          if (searchTermMatch) score += 20
-          
-          // Category-specific boost
-          if (service.category?.id === input.categoryId) score += 10
-          
-          return { ...service, searchScore: score }
+          },
         })
-
-        // Re-sort by search score if relevance sorting
-        if (sortBy === 'relevance') {
-          servicesWithScores.sort((a, b) => b.searchScore - a.searchScore)
+        const servicesById = new Map(services.map(service => [service.id, service]))
+
+        // Log search analytics; zero-result and unclicked searches feed synonym suggestions.
+        // Logged once per session, query and window, so refetching this query adds nothing.
+        let searchLogId: string | null = null
+        if (input.sessionId) {
+          try {
+            searchLogId = await new SearchAnalyticsService(ctx.prisma).logSearch({
+              userId: ctx.session?.user.id,
+              sessionId: input.sessionId,
+              query,
+              filters: { scope: 'services', sortBy, categoryId: input.categoryId ?? null },
+              resultsCount: result.total,
+              responseTimeMs: Date.now() - startTime,
+              language: input.language,
+            })
+          } catch (error) {
+            console.warn('Failed to log search analytics:', error)
+          }
         }
 
         return {
-          data: servicesWithScores,
-          pagination: calculatePagination(Math.floor(offset / limit) + 1, limit, total),
+          data: result.matches.flatMap(match => {
+            const service = servicesById.get(match.serviceId)
+            return service
+              ? [{ ...service, searchScore: match.score, matchedTerms: match.matchedTerms, highlights: match.highlights }]
+              : []
+          }),
+          pagination: calculatePagination(Math.floor(offset / limit) + 1, limit, result.total),
           query,
-          total,
+          correctedQuery: result.correctedQuery,
+          expandedTerms: result.expandedTerms,
+          total: result.total,
+          searchLogId,
         }
       } catch (error) {
         throw new TRPCError({
-          code: 'INTERNAL_ERROR',
+          code: 'INTERNAL_SERVER_ERROR',
           message: 'Service search failed',
           cause: error,
         })
       }
     }),
 
+  /**
+   * Record a click on a search result, for search analytics
+   */
+  recordSearchClick: publicProcedure
+    .input(
+      z.object({
+        searchLogId: z.string(),
+        sessionId: z.string(),
+        serviceId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Only the session that searched can record clicks on its results
+      const { count } = await ctx.prisma.searchLog.updateMany({
+        where: { id: input.searchLogId, sessionId: input.sessionId, NOT: { clickedResults: { has: input.serviceId } } },
+        data: { clickedResults: { push: input.serviceId } },
+      })
+      return { recorded: count > 0 }
+    }),
+
   /**
    * Get service details with comprehensive information
    */
@@ -805,6 +798,7 @@ export const serviceTaxonomyRouter = createTRPCRouter({
             popularityScore: 0.0,
           },
         })
+        invalidateServiceSearch(ctx.prisma)
 
         return service
       } catch (error) {
@@ -868,6 +862,7 @@ export const serviceTaxonomyRouter = createTRPCRouter({
             },
           })
         }
+        invalidateServiceSearch(ctx.prisma)
 
         return service
       } catch (error) {
@@ -0,0 +1,270 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, staffProcedure, isStaffRole, type Context } from '../trpc'
+import { toTRPCError } from '../errors'
+import { TRPCError } from '@trpc/server'
+import { WaitlistService, WaitlistError } from '@/lib/waitlist/service'
+
+const preferredSlotSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // "yyyy-MM-dd"
+  startTime: z.string().regex(/^\d{2}:\d{2}$/), // "HH:mm"
+  endTime: z.string().regex(/^\d{2}:\d{2}$/), // "HH:mm"
+})
+
+const urgencyLevelSchema = z.enum(['ROUTINE', 'URGENT', 'EMERGENCY', 'SAME_DAY'])
+
+/**
+ * Only the patient on the entry or clinic staff may act on a waitlist entry
+ */
+async function assertEntryAccess(
+  ctx: { prisma: Context['prisma']; session: { user: { id: string; role?: unknown } } },
+  entryId: string
+) {
+  const entry = await ctx.prisma.waitlistEntry.findUnique({
+    where: { id: entryId },
+    select: { id: true, patientId: true },
+  })
+
+  if (!entry) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Waitlist entry not found',
+    })
+  }
+
+  if (!isStaffRole(ctx.session.user.role) && entry.patientId !== ctx.session.user.id) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You can only manage your own waitlist entries',
+    })
+  }
+
+  return entry
+}
+
+/**
+ * Waitlist Router - Persistent doctor waitlists with automatic slot offers
+ */
+export const waitlistRouter = createTRPCRouter({
+  /**
+   * Join a doctor's waitlist
+   */
+  join: protectedProcedure
+    .input(
+      z.object({
+        doctorId: z.string().uuid(),
+        clinicId: z.string().uuid().optional(),
+        serviceId: z.string().uuid().optional(),
+        patientName: z.string().min(1),
+        patientPhone: z.string().min(1),
+        patientEmail: z.string().email().optional(),
+        appointmentType: z.string().optional(),
+        urgencyLevel: urgencyLevelSchema.default('ROUTINE'),
+        preferredSlots: z.array(preferredSlotSchema).default([]),
+        notes: z.string().optional(),
+        // Staff adding an entry on behalf of a registered patient
+        patientId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const service = new WaitlistService(ctx.prisma)
+        const result = await service.join({
+          ...input,
+          patientId: isStaffRole(ctx.session.user.role) ? input.patientId : ctx.session.user.id,
+        })
+
+        return {
+          waitlistId: result.entry.id,
+          position: result.position,
+          estimatedWaitTime: result.estimatedWaitTime,
+          entry: result.entry,
+        }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to join waitlist', WaitlistError)
+      }
+    }),
+
+  /**
+   * Leave the waitlist
+   */
+  leave: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertEntryAccess(ctx, input.id)
+        const service = new WaitlistService(ctx.prisma)
+        await service.leave(input.id, input.reason)
+
+        return { success: true }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to leave waitlist', WaitlistError)
+      }
+    }),
+
+  /**
+   * Current queue position and estimated wait
+   */
+  getPosition: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        await assertEntryAccess(ctx, input.id)
+        return await new WaitlistService(ctx.prisma).getPosition(input.id)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch waitlist position', WaitlistError)
+      }
+    }),
+
+  /**
+   * Get the current user's active waitlist entries with any held slot
+   */
+  getMyEntries: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await ctx.prisma.waitlistEntry.findMany({
+        where: {
+          patientId: ctx.session.user.id,
+          status: { in: ['WAITING', 'NOTIFIED'] },
+        },
+        include: {
+          offers: {
+            where: { status: 'PENDING', holdExpiresAt: { gt: new Date() } },
+            take: 1,
+          },
+        },
+        orderBy: { joinedAt: 'asc' },
+      })
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to fetch your waitlist entries', WaitlistError)
+    }
+  }),
+
+  /**
+   * Accept the slot being held for this entry
+   */
+  acceptOffer: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertEntryAccess(ctx, input.id)
+        const service = new WaitlistService(ctx.prisma)
+        return await service.promote(input.id)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to accept waitlist slot', WaitlistError)
+      }
+    }),
+
+  /**
+   * Decline the slot being held; the patient keeps their place in the queue
+   */
+  declineOffer: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertEntryAccess(ctx, input.id)
+        const service = new WaitlistService(ctx.prisma)
+        await service.declineOffer(input.id)
+
+        return { success: true }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to decline waitlist slot', WaitlistError)
+      }
+    }),
+
+  /**
+   * Promote an entry into an appointment (staff only).
+   * Without a slot, the entry's currently held slot is booked.
+   */
+  promote: staffProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        slot: z
+          .object({
+            doctorId: z.string().uuid(),
+            clinicId: z.string().uuid().optional(),
+            serviceId: z.string().uuid().optional(),
+            start: z.date(),
+            end: z.date(),
+          })
+          .refine(slot => slot.end > slot.start, { message: 'Slot end must be after start' })
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const service = new WaitlistService(ctx.prisma)
+        return await service.promote(input.id, input.slot)
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to promote waitlist entry', WaitlistError)
+      }
+    }),
+
+  /**
+   * List a doctor's or clinic's waitlist in queue order (staff only)
+   */
+  list: staffProcedure
+    .input(
+      z
+        .object({
+          doctorId: z.string().uuid().optional(),
+          clinicId: z.string().uuid().optional(),
+          status: z.enum(['WAITING', 'NOTIFIED', 'CONFIRMED', 'EXPIRED', 'CANCELLED']).optional(),
+          limit: z.number().min(1).max(200).default(50),
+        })
+        .refine(input => input.doctorId || input.clinicId, {
+          message: 'Either doctorId or clinicId is required',
+        })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const service = new WaitlistService(ctx.prisma)
+        const entries = await service.list(input)
+
+        return {
+          data: entries.map((entry, index) => ({
+            ...entry,
+            position: entry.status === 'WAITING' ? index + 1 : null,
+            heldSlot: entry.offers[0] ?? null,
+          })),
+          count: entries.length,
+        }
+      } catch (error) {
+        throw toTRPCError(error, 'Failed to fetch waitlist', WaitlistError)
+      }
+    }),
+
+  /**
+   * Expire lapsed holds and pass their slots on (staff only).
+   * Also runs on a schedule (`npm run jobs:waitlist-holds`).
+   */
+  processExpiredHolds: staffProcedure.mutation(async ({ ctx }) => {
+    try {
+      const service = new WaitlistService(ctx.prisma)
+      const result = await service.releaseExpiredHolds()
+
+      return {
+        expired: result.expired,
+        reoffered: result.reoffered.length,
+      }
+    } catch (error) {
+      throw toTRPCError(error, 'Failed to process expired waitlist holds', WaitlistError)
+    }
+  }),
+})
@@ -4,6 +4,7 @@ import superjson from 'superjson'
 
 import { getServerAuthSession } from '../auth'
 import { prisma } from '@/lib/db'
+import { STAFF_ROLES, isStaffRole } from '@/lib/auth/roles'
 import type { User } from '@prisma/client'
 
 /**
@@ -94,10 +95,15 @@ const enforceUserHasRole = (allowedRoles: string[]) =>
  */
 const enforceUserIsAdmin = enforceUserHasRole(['ADMIN'])
 
+/**
+ * Session roles admitted by `staffProcedure`
+ */
+export { STAFF_ROLES, isStaffRole }
+
 /**
  * Middleware for staff or admin operations
  */
-const enforceUserIsStaffOrAdmin = enforceUserHasRole(['ADMIN', 'STAFF'])
+const enforceUserIsStaffOrAdmin = enforceUserHasRole(STAFF_ROLES)
 
 /**
  * Public procedures (accessible to everyone)
@@ -24,6 +24,7 @@ import {
   CommunicationChannel,
   ResponseType
 } from "../../../lib/types/contact-system";
+import { RedactionService } from "../../lib/redaction/service";
 
 /**
  * Clinic Contact Settings Management
@@ -253,7 +254,22 @@ const clinicContactFormRouter = createTRPCRouter({
       marketingConsent: z.boolean().optional()
     }))
     .mutation(async ({ ctx, input }) => {
-      const { clinicId, ...formData } = input;
+      const { clinicId, ...submitted } = input;
+
+      // Free text is redacted before it is stored or copied onto the enquiry
+      const redaction = new RedactionService(ctx.db);
+      const prepared = await Promise.all([
+        redaction.prepare('subject', submitted.subject),
+        redaction.prepare('message', submitted.message),
+        ...(submitted.medicalInformation ? [redaction.prepare('medicalInformation', submitted.medicalInformation)] : [])
+      ]);
+      const [subject, message, medicalInformation] = prepared;
+      const formData = {
+        ...submitted,
+        subject: subject!.text,
+        message: message!.text,
+        medicalInformation: medicalInformation?.text
+      };
 
       // Generate reference number
       const referenceNumber = `CF${new Date().toISOString().slice(0, 10).replace(/-/g, '')}${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
@@ -278,6 +294,8 @@ const clinicContactFormRouter = createTRPCRouter({
         }
       });
 
+      await redaction.record(ctx.db, { sourceType: 'CONTACT_FORM', sourceId: contactForm.id }, prepared);
+
       // Create clinic-specific preferences
       await ctx.db.contactFormClinicPreference.create({
         data: {
@@ -0,0 +1,296 @@
+/**
+ * A/B Testing Tests
+ * Validates CUPED and the fixed-horizon and sequential tests, sticky assignment across
+ * devices, conversion tracking and the persisted test lifecycle
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Prisma, type ABTest, type ABTestAssignment, type ABTestConversion, type ABTestVariant } from '@prisma/client'
+import { cupedAdjust, fixedHorizonTest, sequentialAnalysis, summarize } from '@/lib/experiments/statistics'
+import { ExperimentService, pickVariant } from '@/lib/experiments/service'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+const NOW = new Date('2026-10-19T02:00:00.000Z') // Monday 10:00 in Singapore
+const DAY = 24 * 60 * 60 * 1000
+
+// Deterministic standard normal draws (LCG + Box-Muller)
+function gaussian(seed: number) {
+  let state = seed
+  const uniform = () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return (state + 1) / 2147483649
+  }
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform())
+}
+
+// Column defaults from the schema
+const DEFAULTS = { minimumSampleSize: 100, confidenceLevel: 0.95, significanceThreshold: 0.05, minimumDetectableEffect: 0.1 }
+
+// The fields of each row the fake and the tests read; rows keep everything the service writes
+type TestRow = Pick<
+  ABTest,
+  'id' | 'name' | 'status' | 'minimumSampleSize' | 'confidenceLevel' | 'significanceThreshold' | 'minimumDetectableEffect' | 'endDate' | 'winnerVariantId'
+>
+type VariantRow = Pick<ABTestVariant, 'id' | 'testId' | 'name'>
+type AssignmentRow = Pick<ABTestAssignment, 'id' | 'testId' | 'subjectKey' | 'assignedAt'> &
+  Partial<Pick<ABTestAssignment, 'variantId' | 'userId' | 'anonymousId' | 'covariate'>>
+type ConversionRow = Pick<ABTestConversion, 'testId' | 'assignmentId' | 'metric' | 'value' | 'timestamp'> & Partial<Pick<ABTestConversion, 'variantId'>>
+type NewTest = Omit<TestRow, 'id' | 'endDate' | 'winnerVariantId'> & { variants: { create: Omit<VariantRow, 'id' | 'testId'>[] } }
+
+type SubjectKey = { testId_subjectKey: { testId: string; subjectKey: string } }
+
+// Tests, variants, assignments and conversions with unique keys enforced
+function experimentDb() {
+  let sequence = 0
+  const tests: TestRow[] = []
+  const variants: VariantRow[] = []
+  const assignments: AssignmentRow[] = []
+  const conversions: ConversionRow[] = []
+  const withVariants = (test: TestRow) => ({
+    ...test,
+    variants: variants.filter(variant => variant.testId === test.id).sort((a, b) => a.name.localeCompare(b.name)),
+  })
+  const duplicate = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+  const bySubject = ({ testId_subjectKey: key }: SubjectKey) =>
+    assignments.find(row => row.testId === key.testId && row.subjectKey === key.subjectKey) ?? null
+
+  const db = asPrismaClient({
+    aBTest: {
+      create: async ({ data }: { data: NewTest }) => {
+        const { variants: nested, ...fields } = data
+        // Unset fields take their column defaults
+        const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<typeof fields>
+        const test: TestRow = { ...fields, ...DEFAULTS, endDate: null, winnerVariantId: null, ...defined, id: `test-${++sequence}` }
+        tests.push(test)
+        for (const variant of nested.create) variants.push({ id: `variant-${++sequence}`, testId: test.id, ...variant })
+        return withVariants(test)
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const test = tests.find(row => row.id === where.id)
+        return test ? withVariants(test) : null
+      },
+      findMany: async ({ where }: { where: Where<TestRow> }) => tests.filter(row => matches(row, where)).map(withVariants),
+      updateMany: async ({ where, data }: { where: Where<TestRow>; data: Partial<TestRow> }) => {
+        const hit = tests.filter(row => matches(row, where))
+        hit.forEach(row => Object.assign(row, data))
+        return { count: hit.length }
+      },
+    },
+    aBTestAssignment: {
+      findUnique: async ({ where }: { where: SubjectKey }) => bySubject(where),
+      findMany: async ({ where }: { where: Where<AssignmentRow> }) => assignments.filter(row => matches(row, where)),
+      create: async ({ data }: { data: Omit<AssignmentRow, 'id'> }) => {
+        if (bySubject({ testId_subjectKey: data })) throw duplicate()
+        const row = { id: `assignment-${++sequence}`, ...data }
+        assignments.push(row)
+        return row
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<AssignmentRow> }) => {
+        const row = assignments.find(assignment => assignment.id === where.id)!
+        if (data.subjectKey && bySubject({ testId_subjectKey: { testId: row.testId, subjectKey: data.subjectKey } })) throw duplicate()
+        return Object.assign(row, data)
+      },
+    },
+    aBTestConversion: {
+      create: async ({ data }: { data: ConversionRow }) => {
+        const row = { id: `conversion-${++sequence}`, ...data }
+        conversions.push(row)
+        return row
+      },
+      findMany: async ({ where }: { where: Where<ConversionRow> }) => conversions.filter(row => matches(row, where)),
+      aggregate: async ({ where }: { where: Where<ConversionRow> }) => {
+        const values = conversions.filter(row => matches(row, where)).map(row => row.value)
+        return { _sum: { value: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null } }
+      },
+    },
+  })
+  return { db, tests, assignments, conversions }
+}
+
+const twoVariants = [
+  { name: 'control', trafficSplit: 0.5, isControl: true, configuration: { cta: 'Book now' } },
+  { name: 'treatment', trafficSplit: 0.5, configuration: { cta: 'See a doctor today' } },
+]
+
+function createInput(overrides: Record<string, unknown> = {}) {
+  return { name: 'Booking CTA', hypothesis: 'Urgent wording books more', successMetric: 'booking', variants: twoVariants, ...overrides }
+}
+
+describe('A/B test statistics', () => {
+  it('removes covariate-explained variance with CUPED without shifting the difference', () => {
+    const next = gaussian(11)
+    const observations = Array.from({ length: 400 }, (_, i) => {
+      const covariate = 10 + 3 * next()
+      return { outcome: 2 * covariate + next() + (i % 2 === 0 ? 1 : 0), covariate, treated: i % 2 === 0 }
+    })
+    const cuped = cupedAdjust(observations)
+
+    expect(cuped.theta).toBeCloseTo(2, 1)
+    expect(cuped.varianceReduction).toBeGreaterThan(0.9)
+    expect(cuped.covariateCoverage).toBe(1)
+    const treated = summarize(cuped.adjusted.filter((_, i) => observations[i]!.treated))
+    const control = summarize(cuped.adjusted.filter((_, i) => !observations[i]!.treated))
+    expect(treated.mean - control.mean).toBeCloseTo(1, 0)
+
+    // Missing covariates are left unadjusted
+    expect(cupedAdjust([{ outcome: 3, covariate: null }, { outcome: 5, covariate: null }]).adjusted).toEqual([3, 5])
+  })
+
+  it('runs a Welch z-test with a confidence interval', () => {
+    const result = fixedHorizonTest({ n: 100, mean: 0.3, variance: 0.21 }, { n: 100, mean: 0.2, variance: 0.16 }, 0.95)
+
+    expect(result.standardError).toBeCloseTo(Math.sqrt(0.0037), 10)
+    expect(result.zScore).toBeCloseTo(0.1 / Math.sqrt(0.0037), 6)
+    expect(result.pValue).toBeCloseTo(0.1003, 3)
+    expect(result.confidenceInterval![0]).toBeCloseTo(0.1 - 1.96 * Math.sqrt(0.0037), 3)
+    expect(fixedHorizonTest({ n: 1, mean: 1, variance: 0 }, { n: 5, mean: 0, variance: 1 }, 0.95).pValue).toBeNull()
+  })
+
+  it('keeps the false positive rate under alpha when peeking, unlike repeated z-tests', () => {
+    const next = gaussian(3)
+    let sequentialHits = 0
+    let peekingHits = 0
+    const runs = 200
+    for (let run = 0; run < runs; run++) {
+      const looks = []
+      let peeked = false
+      let sumA = 0
+      let sumB = 0
+      for (let look = 1; look <= 20; look++) {
+        for (let i = 0; i < 50; i++) {
+          sumA += next()
+          sumB += next()
+        }
+        const n = look * 50
+        const current = { difference: sumB / n - sumA / n, variance: 2 / n }
+        looks.push(current)
+        if (Math.abs(current.difference / Math.sqrt(current.variance)) > 1.96) peeked = true
+      }
+      if (sequentialAnalysis(looks, 0.01, 0.05)!.pValue < 0.05) sequentialHits++
+      if (peeked) peekingHits++
+    }
+
+    expect(sequentialHits / runs).toBeLessThanOrEqual(0.05)
+    expect(peekingHits / runs).toBeGreaterThan(0.1)
+  })
+
+  it('stops early on a real effect, with an interval that covers it', () => {
+    const looks = [100, 200, 400].map(n => ({ difference: 0.3, variance: 2 / n }))
+    const result = sequentialAnalysis(looks, 0.01, 0.05)!
+
+    expect(result.pValue).toBeLessThan(0.05)
+    expect(result.confidenceInterval[0]).toBeGreaterThan(0)
+    expect(result.confidenceInterval[1]).toBeGreaterThan(0.3)
+    expect(sequentialAnalysis([{ difference: 0, variance: 0 }], 0.01, 0.05)).toBeNull()
+  })
+})
+
+describe('Experiment service', () => {
+  it('validates variants and moves tests through their lifecycle', async () => {
+    const { db } = experimentDb()
+    const service = new ExperimentService(db, { now: () => NOW })
+
+    await expect(service.create(createInput({ variants: [twoVariants[0]] }), 'admin-1')).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await expect(
+      service.create(createInput({ variants: twoVariants.map(variant => ({ ...variant, trafficSplit: 0.4 })) }), 'admin-1')
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await expect(
+      service.create(createInput({ variants: twoVariants.map(variant => ({ ...variant, isControl: true })) }), 'admin-1')
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+
+    const test = await service.create(createInput({ draft: true }), 'admin-1')
+    expect(test).toMatchObject({ status: 'DRAFT', createdBy: 'admin-1' })
+    expect(await service.assign(test.id, { userId: 'user-1' })).toBeNull()
+
+    expect((await service.updateStatus(test.id, 'RUNNING')).status).toBe('RUNNING')
+    await expect(service.updateStatus(test.id, 'DRAFT')).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    const completed = await service.updateStatus(test.id, 'COMPLETED', test.variants[1]!.id)
+    expect(completed).toMatchObject({ status: 'COMPLETED', winnerVariantId: test.variants[1]!.id, endDate: NOW })
+    await expect(service.get('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+
+  it('keeps assignments sticky and follows a logged-in user across devices', async () => {
+    const { db, assignments } = experimentDb()
+    const service = new ExperimentService(db, { now: () => NOW })
+    const test = await service.create(createInput(), 'admin-1')
+
+    // The hash is deterministic and splits traffic roughly evenly
+    const picks = Array.from({ length: 2000 }, (_, i) => pickVariant(test, `anon:device-${i}`).name)
+    expect(picks.filter(name => name === 'treatment').length / picks.length).toBeGreaterThan(0.45)
+    expect(picks.filter(name => name === 'treatment').length / picks.length).toBeLessThan(0.55)
+    expect(pickVariant(test, 'user:user-1')).toBe(pickVariant(test, 'user:user-1'))
+
+    // An anonymous phone visit, then login on the phone: the user takes the phone's variant
+    const phone = await service.assign(test.id, { anonymousId: 'phone-1234' })
+    expect(assignments[0]!.covariate).toBeNull() // Never seen before the test
+    const afterLogin = await service.assign(test.id, { anonymousId: 'phone-1234', userId: 'user-1' })
+    expect(afterLogin!.assignmentId).toBe(phone!.assignmentId)
+    expect(assignments[0]).toMatchObject({ subjectKey: 'user:user-1', userId: 'user-1' })
+
+    // A laptop seen anonymously first keeps its own row, but the user's variant wins at login
+    await service.assign(test.id, { anonymousId: 'laptop-5678' })
+    const laptop = await service.assign(test.id, { anonymousId: 'laptop-5678', userId: 'user-1' })
+    expect(laptop).toMatchObject({ assignmentId: phone!.assignmentId, variantId: phone!.variantId })
+    expect(assignments).toHaveLength(2)
+
+    // Restarting the service changes nothing
+    const restarted = new ExperimentService(db, { now: () => NOW })
+    expect((await restarted.assign(test.id, { userId: 'user-1' }))!.variantId).toBe(phone!.variantId)
+    await expect(service.assign(test.id, {})).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+  })
+
+  it('records conversions against the assigned variant only while running', async () => {
+    const { db, conversions } = experimentDb()
+    const service = new ExperimentService(db, { now: () => NOW })
+    const test = await service.create(createInput(), 'admin-1')
+    const assignment = await service.assign(test.id, { userId: 'user-1' })
+
+    expect(await service.trackConversion(test.id, { userId: 'user-2' })).toBeNull()
+    await service.trackConversion(test.id, { userId: 'user-1', anonymousId: 'tablet-0001' }, { value: 2 })
+    expect(conversions).toEqual([
+      expect.objectContaining({ variantId: assignment!.variantId, assignmentId: assignment!.assignmentId, metric: 'booking', value: 2 }),
+    ])
+
+    await service.updateStatus(test.id, 'PAUSED')
+    expect(await service.trackConversion(test.id, { userId: 'user-1' })).toBeNull()
+  })
+
+  it('analyses daily looks with CUPED and declares a winner only on a real effect', async () => {
+    for (const [lift, expectWinner] of [
+      [0.5, true],
+      [0, false],
+    ] as const) {
+      const { db, assignments, conversions } = experimentDb()
+      const start = new Date(NOW.getTime() - 14 * DAY)
+      const service = new ExperimentService(db, { now: () => NOW })
+      const test = await service.create(createInput({ startDate: start, minimumSampleSize: 200 }), 'admin-1')
+      const treatment = test.variants.find(variant => !variant.isControl)!
+      const next = gaussian(lift === 0 ? 5 : 9)
+
+      // 60 subjects a day; outcomes track each subject's bookings in an earlier test
+      for (let i = 0; i < 14 * 60; i++) {
+        assignments.push({ id: `earlier-${i}`, testId: 'earlier', subjectKey: `user:user-${i}`, userId: `user-${i}`, assignedAt: new Date(start.getTime() - 20 * DAY) })
+        conversions.push({ testId: 'earlier', assignmentId: `earlier-${i}`, metric: 'booking', value: 3 + next(), timestamp: new Date(start.getTime() - 10 * DAY) })
+
+        const assignedAt = new Date(start.getTime() + (i / 60) * DAY)
+        const subject = await new ExperimentService(db, { now: () => assignedAt }).assign(test.id, { userId: `user-${i}` })
+        const covariate = assignments[assignments.length - 1]!.covariate
+        const value = Math.max(0, covariate! + 0.5 * next() + (subject!.variantId === treatment.id ? lift : 0))
+        conversions.push({ testId: test.id, assignmentId: subject!.assignmentId, variantId: subject!.variantId, metric: 'booking', value, timestamp: assignedAt })
+      }
+
+      const results = await service.results(test.id)
+      expect(results.looks).toBe(15)
+      expect(results.variants.reduce((sum, variant) => sum + variant.subjects, 0)).toBe(840)
+      expect(results.cuped.varianceReduction).toBeGreaterThan(0.7)
+
+      const [comparison] = results.comparisons
+      expect(comparison!.fixedHorizon.sampleSizeReached).toBe(true)
+      expect(comparison!.sequential!.confidenceInterval[0]).toBeLessThan(lift)
+      expect(comparison!.sequential!.confidenceInterval[1]).toBeGreaterThan(lift)
+      expect(results.decision).toEqual(
+        expectWinner ? { canStop: true, winnerVariantId: treatment.id } : { canStop: false, winnerVariantId: null }
+      )
+    }
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Appointment Recurrence Tests
+ * Validates RRULE expansion and schedule checks used by recurring appointment series
+ */
+
+import { describe, it, expect } from 'vitest'
+import { RecurrenceRuleError, expandRecurrence, parseRecurrenceRule } from '@/lib/booking/recurrence'
+import { detectScheduleConflicts, type ScheduleRecord } from '@/lib/booking/overlap'
+import { atSingaporeTime, singaporeDateKey, singaporeMinutes } from '@/lib/clinic-hours/calendar'
+
+const start = atSingaporeTime('2025-01-31', '09:30') // Friday 31 Jan 2025, 09:30 in Singapore
+
+function expand(rule: string, from = start) {
+  return expandRecurrence(parseRecurrenceRule(rule), from).map(singaporeDateKey)
+}
+
+describe('Appointment recurrence', () => {
+  it('expands quarterly reviews keeping the time of day', () => {
+    const dates = expandRecurrence(parseRecurrenceRule('FREQ=MONTHLY;INTERVAL=3;COUNT=3'), atSingaporeTime('2025-01-15', '09:30'))
+
+    expect(dates.map(date => [singaporeDateKey(date), singaporeMinutes(date)])).toEqual([
+      ['2025-01-15', 570],
+      ['2025-04-15', 570],
+      ['2025-07-15', 570],
+    ])
+  })
+
+  it('skips months without the start day instead of rolling over', () => {
+    expect(expand('FREQ=MONTHLY;COUNT=3')).toEqual(['2025-01-31', '2025-03-31', '2025-05-31'])
+  })
+
+  it('expands weekly BYDAY rules from the start date onwards', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=3')).toEqual(['2025-01-31', '2025-02-03', '2025-02-07'])
+  })
+
+  it('stops at UNTIL', () => {
+    expect(expand('FREQ=WEEKLY;INTERVAL=2;UNTIL=20250301')).toHaveLength(3)
+  })
+
+  it('keeps Singapore days for early-morning starts that fall on the previous UTC day', () => {
+    const early = atSingaporeTime('2025-02-03', '07:00') // Monday in Singapore, Sunday in UTC
+
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3', early)).toEqual(['2025-02-03', '2025-02-05', '2025-02-10'])
+  })
+
+  it('rejects unsupported or unbounded rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=HOURLY;COUNT=3')).toThrow(RecurrenceRuleError)
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY')).toThrow(RecurrenceRuleError)
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO;COUNT=2')).toThrow(RecurrenceRuleError)
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=0')).toThrow(RecurrenceRuleError)
+  })
+
+  it('flags occurrences outside the doctor schedule or during a break', () => {
+    const friday: ScheduleRecord = {
+      id: 'schedule-1',
+      dayOfWeek: 'FRIDAY',
+      specificDate: null,
+      startTime: '09:00',
+      endTime: '17:00',
+      breakStart: '12:00',
+      breakEnd: '13:00',
+      effectiveFrom: atSingaporeTime('2024-01-01'),
+      effectiveTo: null,
+      isActive: true,
+    }
+    const at = (day: number, hour: number) => ({
+      start: atSingaporeTime(`2025-01-${day}`, `${hour}:00`),
+      end: atSingaporeTime(`2025-01-${day}`, `${hour}:30`),
+    })
+
+    expect(detectScheduleConflicts(at(31, 10), [friday])).toEqual([])
+    expect(detectScheduleConflicts(at(31, 12), [friday]).map(c => c.reason)).toEqual(['OUTSIDE_SCHEDULE'])
+    expect(detectScheduleConflicts(at(30, 10), [friday]).map(c => c.reason)).toEqual(['OUTSIDE_SCHEDULE'])
+    expect(detectScheduleConflicts(at(30, 10), [])).toEqual([])
+  })
+})
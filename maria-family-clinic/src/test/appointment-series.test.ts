@@ -0,0 +1,154 @@
+/**
+ * Appointment Series Tests
+ * Runs series reads, creation and cancellation against an in-memory database to check who
+ * may act on a series and how much notice patients must give
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { AppointmentSeries, AppointmentSeriesOccurrence } from '@prisma/client'
+import { AppointmentSeriesService } from '@/lib/booking/series-service'
+import { asPrismaClient, matches, type PrismaFake, type Where } from './prisma-fake'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// There is no Appointment model in the generated client yet, so its rows are typed here
+interface AppointmentRow {
+  id: string
+  patientId: string
+  status: string
+}
+
+function series(patientId: string): AppointmentSeries {
+  return {
+    id: 'series-1',
+    patientId,
+    clinicId: 'clinic-1',
+    doctorId: 'doctor-1',
+    serviceId: 'service-1',
+    recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+    startDate: new Date(Date.now() + 2 * HOUR),
+    durationMinutes: 30,
+    programEnrollmentId: null,
+    healthGoalIds: [],
+    status: 'ACTIVE',
+    notes: null,
+    createdBy: patientId,
+    cancelledAt: null,
+    cancellationReason: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+}
+
+function occurrence(sequence: number, scheduledDate: Date): AppointmentSeriesOccurrence {
+  return {
+    id: `occurrence-${sequence}`,
+    seriesId: 'series-1',
+    sequence,
+    scheduledDate,
+    status: 'SCHEDULED',
+    appointmentId: `appointment-${sequence}`,
+    conflicts: [],
+    programEnrollmentId: null,
+    healthGoalIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+}
+
+// A weekly series of two visits for patient-1: one in two hours, the next a week later
+function seriesDb() {
+  const row = series('patient-1')
+  const occurrences = [occurrence(1, row.startDate), occurrence(2, new Date(row.startDate.getTime() + 7 * DAY))]
+  const appointments: AppointmentRow[] = occurrences.map(o => ({ id: o.appointmentId!, patientId: 'patient-1', status: 'CONFIRMED' }))
+  const created: AppointmentSeries[] = []
+
+  const fake: PrismaFake = {
+    appointmentSeries: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        where.id === row.id ? { ...row, occurrences: occurrences.map(o => ({ ...o })) } : null,
+      create: async ({ data }: { data: AppointmentSeries }) => {
+        created.push(data)
+        return data
+      },
+      update: async ({ data }: { data: Partial<AppointmentSeries> }) => Object.assign(row, data),
+    },
+    appointmentSeriesOccurrence: {
+      findMany: async ({ where }: { where: Where<AppointmentSeriesOccurrence> }) =>
+        occurrences.filter(o => matches(o, where)).map(o => ({ ...o })),
+      updateMany: async ({ where, data }: { where: Where<AppointmentSeriesOccurrence>; data: Partial<AppointmentSeriesOccurrence> }) => {
+        const hit = occurrences.filter(o => matches(o, where))
+        hit.forEach(o => Object.assign(o, data))
+        return { count: hit.length }
+      },
+      count: async ({ where }: { where: Where<AppointmentSeriesOccurrence> }) => occurrences.filter(o => matches(o, where)).length,
+    },
+    appointment: {
+      updateMany: async ({ where, data }: { where: Where<AppointmentRow>; data: Partial<AppointmentRow> }) => {
+        const hit = appointments.filter(a => matches(a, where))
+        hit.forEach(a => Object.assign(a, data))
+        return { count: hit.length }
+      },
+    },
+    waitlistOffer: { findMany: async () => [] },
+    waitlistEntry: { findMany: async () => [] },
+  }
+  fake.$transaction = (work: (tx: PrismaFake) => Promise<unknown>) => work(fake)
+
+  return { db: asPrismaClient(fake), series: row, occurrences, appointments, created }
+}
+
+describe('Appointment series access', () => {
+  // Roles a session can carry that are not on the staff allow-list
+  it.each(['USER', 'PATIENT', 'PROVIDER'])('stops role %s reading or cancelling another patient\'s series', async role => {
+    const { db, occurrences, appointments } = seriesDb()
+    const service = new AppointmentSeriesService(db)
+    const intruder = { userId: 'patient-2', role }
+
+    await expect(service.get('series-1', intruder)).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    await expect(service.cancelFutureOccurrences('series-1', intruder, {})).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    expect(occurrences.map(o => o.status)).toEqual(['SCHEDULED', 'SCHEDULED'])
+    expect(appointments.map(a => a.status)).toEqual(['CONFIRMED', 'CONFIRMED'])
+  })
+
+  it('stops a patient creating a series for someone else', async () => {
+    const { db, created } = seriesDb()
+
+    await expect(
+      new AppointmentSeriesService(db).create(
+        {
+          patientId: 'patient-1',
+          clinicId: 'clinic-1',
+          doctorId: 'doctor-1',
+          serviceId: 'service-1',
+          startDate: new Date(Date.now() + 7 * DAY),
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+        },
+        { userId: 'patient-2', role: 'PATIENT' }
+      )
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    expect(created).toHaveLength(0)
+  })
+
+  it('keeps occurrences inside the notice window when the patient cancels', async () => {
+    const { db, series, occurrences, appointments } = seriesDb()
+
+    const result = await new AppointmentSeriesService(db).cancelFutureOccurrences('series-1', { userId: 'patient-1', role: 'PATIENT' }, {})
+
+    expect(result).toEqual({ cancelled: 1 })
+    expect(occurrences.map(o => o.status)).toEqual(['SCHEDULED', 'CANCELLED'])
+    expect(appointments.map(a => a.status)).toEqual(['CONFIRMED', 'CANCELLED'])
+    expect(series.status).toBe('ACTIVE')
+  })
+
+  it('lets staff cancel every remaining occurrence and close the series', async () => {
+    const { db, series, occurrences } = seriesDb()
+
+    const result = await new AppointmentSeriesService(db).cancelFutureOccurrences('series-1', { userId: 'staff-1', role: 'STAFF' }, {})
+
+    expect(result).toEqual({ cancelled: 2 })
+    expect(occurrences.map(o => o.status)).toEqual(['CANCELLED', 'CANCELLED'])
+    expect(series.status).toBe('CANCELLED')
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Booking Overlap Tests
+ * Validates the conflict rules the booking service applies inside its serializable transaction
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectBookingConflicts,
+  freeIntervals,
+  intervalsOverlap,
+  leaveInterval,
+  type AvailabilityRecord,
+  type BookingCalendar,
+} from '@/lib/booking/overlap'
+import { atSingaporeTime } from '@/lib/clinic-hours/calendar'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+const at = (hour: number, minute = 0) => atSingaporeTime('2025-06-10', `${pad(hour)}:${pad(minute)}`)
+
+const slot = { clinicId: 'clinic-1', start: at(10), end: at(10, 30) }
+
+function calendar(overrides: Partial<BookingCalendar> = {}): BookingCalendar {
+  return { appointments: [], reservations: [], waitlistHolds: [], leaves: [], availabilities: [], ...overrides }
+}
+
+function availability(overrides: Partial<AvailabilityRecord> = {}): AvailabilityRecord {
+  return {
+    id: 'availability-1',
+    clinicId: 'clinic-1',
+    date: atSingaporeTime('2025-06-10'),
+    startTime: '09:00',
+    endTime: '12:00',
+    isAvailable: true,
+    status: 'ACTIVE',
+    ...overrides,
+  }
+}
+
+describe('Booking overlap', () => {
+  it('treats intervals as half-open so back-to-back slots do not clash', () => {
+    expect(intervalsOverlap(slot, { start: at(10, 30), end: at(11) })).toBe(false)
+    expect(intervalsOverlap(slot, { start: at(9, 30), end: at(10) })).toBe(false)
+    expect(intervalsOverlap(slot, { start: at(9, 45), end: at(10, 15) })).toBe(true)
+  })
+
+  it('frees only the part of a moved slot that the new time no longer covers', () => {
+    const previous = { start: at(10), end: at(11) }
+
+    expect(freeIntervals(previous, [{ start: at(13), end: at(14) }], 60)).toEqual([previous])
+    expect(freeIntervals(previous, [{ start: at(10, 15), end: at(10, 30) }])).toEqual([
+      { start: at(10), end: at(10, 15) },
+      { start: at(10, 30), end: at(11) },
+    ])
+    expect(freeIntervals(previous, [{ start: at(10, 30), end: at(11, 30) }], 60)).toEqual([])
+  })
+
+  it('catches appointments that start before the slot and run into it', () => {
+    const conflicts = detectBookingConflicts(
+      slot,
+      calendar({ appointments: [{ id: 'appointment-1', start: at(9, 30), end: at(10, 15) }] })
+    )
+
+    expect(conflicts.map(c => c.reason)).toEqual(['APPOINTMENT'])
+    expect(conflicts[0]?.referenceId).toBe('appointment-1')
+  })
+
+  it('reports holds from other patients and waitlist offers', () => {
+    const conflicts = detectBookingConflicts(
+      slot,
+      calendar({
+        reservations: [{ id: 'reservation-1', start: at(10), end: at(10, 30) }],
+        waitlistHolds: [{ id: 'offer-1', start: at(10, 15), end: at(10, 45) }],
+      })
+    )
+
+    expect(conflicts.map(c => c.reason)).toEqual(['RESERVATION', 'WAITLIST_HOLD'])
+  })
+
+  it('blocks full-day leave across the whole day and half-day leave only for its hours', () => {
+    const fullDay = { id: 'leave-1', startDate: atSingaporeTime('2025-06-09'), endDate: atSingaporeTime('2025-06-10'), isHalfDay: false, startTime: null, endTime: null }
+    const morning = { id: 'leave-2', startDate: atSingaporeTime('2025-06-10'), endDate: atSingaporeTime('2025-06-10'), isHalfDay: true, startTime: '08:00', endTime: '10:00' }
+
+    expect(leaveInterval(fullDay).end).toEqual(atSingaporeTime('2025-06-11'))
+    expect(detectBookingConflicts(slot, calendar({ leaves: [fullDay] })).map(c => c.reason)).toEqual(['LEAVE'])
+    expect(detectBookingConflicts(slot, calendar({ leaves: [morning] }))).toEqual([])
+  })
+
+  it('requires the slot to sit inside an open availability window when one is published', () => {
+    expect(detectBookingConflicts(slot, calendar())).toEqual([])
+    expect(detectBookingConflicts(slot, calendar({ availabilities: [availability()] }))).toEqual([])
+    expect(
+      detectBookingConflicts(slot, calendar({ availabilities: [availability({ startTime: '13:00', endTime: '17:00' })] })).map(c => c.reason)
+    ).toEqual(['OUTSIDE_AVAILABILITY'])
+    expect(
+      detectBookingConflicts(slot, calendar({ availabilities: [availability({ status: 'BLOCKED' })] })).map(c => c.reason)
+    ).toEqual(['UNAVAILABLE', 'OUTSIDE_AVAILABILITY'])
+  })
+
+  it('ignores availability published for other clinics', () => {
+    const otherClinic = availability({ clinicId: 'clinic-2', startTime: '13:00', endTime: '17:00' })
+
+    expect(detectBookingConflicts(slot, calendar({ availabilities: [otherClinic] }))).toEqual([])
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Booking Service Tests
+ * Runs bookings against an in-memory database: concurrent requests for one slot, retries
+ * that replay an idempotency key, and who may cancel or reschedule an appointment
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { AppointmentReschedule, SlotReservation } from '@prisma/client'
+import { atSingaporeTime } from '@/lib/clinic-hours/calendar'
+import { BookingError, BookingService, type BookingRequest } from '@/lib/booking/service'
+import { asPrismaClient, matches, type PrismaFake, type Where } from './prisma-fake'
+
+const SLOT = atSingaporeTime('2030-03-04', '10:00')
+const DURATION_MINUTES = 30
+const HOUR = 60 * 60 * 1000
+
+// There is no Appointment model in the generated client yet, so its rows are typed here
+interface AppointmentRow {
+  id: string
+  clinicId: string
+  doctorId: string
+  serviceId: string
+  patientId: string
+  appointmentDate: Date
+  status: string
+  notes?: string | null
+  service: { duration: number }
+}
+
+type NewAppointment = Omit<AppointmentRow, 'id' | 'service'>
+type NewReservation = Pick<SlotReservation, 'doctorId' | 'clinicId' | 'serviceId' | 'patientId' | 'slotStart' | 'slotEnd' | 'expiresAt'> &
+  Partial<Pick<SlotReservation, 'idempotencyKey'>>
+type ReservationKey = { id: string } | { patientId_idempotencyKey: { patientId: string; idempotencyKey: string } }
+type NewReschedule = Omit<AppointmentReschedule, 'id' | 'createdAt' | 'reason' | 'policyOverridden'> &
+  Partial<Pick<AppointmentReschedule, 'reason' | 'policyOverridden'>>
+
+// One doctor at one clinic offering one 30-minute service, with no leave, published
+// availability or opening hours to get in the way
+function bookingDb(appointments: AppointmentRow[] = []) {
+  let sequence = 0
+  const reservations: SlotReservation[] = []
+  const reschedules: AppointmentReschedule[] = []
+  let running: Promise<unknown> = Promise.resolve()
+
+  const findReservation = (where: ReservationKey) =>
+    reservations.find(row =>
+      'id' in where
+        ? row.id === where.id
+        : row.patientId === where.patientId_idempotencyKey.patientId &&
+          row.idempotencyKey === where.patientId_idempotencyKey.idempotencyKey
+    ) ?? null
+
+  const fake: PrismaFake = {
+    service: { findUnique: async () => ({ duration: DURATION_MINUTES }) },
+    doctor: { findFirst: async () => ({ id: 'doctor-1' }) },
+    clinic: {
+      findFirst: async () => ({ id: 'clinic-1' }),
+      findMany: async () => [{ id: 'clinic-1', operatingHours: {} }],
+    },
+    operatingHours: { findMany: async () => [] },
+    publicHoliday: { findMany: async () => [] },
+    clinicHoursException: { findMany: async () => [] },
+    doctorLeave: { findMany: async () => [] },
+    doctorAvailability: { findMany: async () => [] },
+    waitlistOffer: { findMany: async () => [] },
+    waitlistEntry: { findMany: async () => [] },
+    // Reads return copies, as Prisma does, so later updates don't rewrite what a service already read
+    appointment: {
+      findMany: async ({ where }: { where: Where<AppointmentRow> }) =>
+        appointments.filter(row => matches(row, where)).map(row => ({ ...row })),
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const row = appointments.find(candidate => candidate.id === where.id)
+        return row ? { ...row } : null
+      },
+      create: async ({ data }: { data: NewAppointment }) => {
+        const row = { ...data, id: `appointment-${++sequence}`, service: { duration: DURATION_MINUTES } }
+        appointments.push(row)
+        return row
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<AppointmentRow> }) =>
+        Object.assign(appointments.find(row => row.id === where.id)!, data),
+      updateMany: async ({ where, data }: { where: Where<AppointmentRow>; data: Partial<AppointmentRow> }) => {
+        const hit = appointments.filter(row => matches(row, where))
+        hit.forEach(row => Object.assign(row, data))
+        return { count: hit.length }
+      },
+    },
+    appointmentReschedule: {
+      count: async ({ where }: { where: Where<AppointmentReschedule> }) => reschedules.filter(row => matches(row, where)).length,
+      create: async ({ data }: { data: NewReschedule }) => {
+        const row = { id: `reschedule-${++sequence}`, createdAt: new Date(), reason: null, policyOverridden: false, ...data }
+        reschedules.push(row)
+        return row
+      },
+    },
+    clinicBookingPolicy: { findUnique: async () => null },
+    contactNotification: { create: async ({ data }: { data: object }) => data },
+    slotReservation: {
+      findUnique: async ({ where }: { where: ReservationKey }) => findReservation(where),
+      findMany: async ({ where }: { where: Where<SlotReservation> }) => reservations.filter(row => matches(row, where)),
+      create: async ({ data }: { data: NewReservation }) => {
+        const row: SlotReservation = {
+          id: `reservation-${++sequence}`,
+          status: 'HELD',
+          idempotencyKey: null,
+          appointmentId: null,
+          confirmedAt: null,
+          releasedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        }
+        reservations.push(row)
+        return row
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<SlotReservation> }) =>
+        Object.assign(findReservation(where)!, data),
+      updateMany: async ({ where, data }: { where: Where<SlotReservation>; data: Partial<SlotReservation> }) => {
+        const hit = reservations.filter(row => matches(row, where))
+        hit.forEach(row => Object.assign(row, data))
+        return { count: hit.length }
+      },
+      delete: async ({ where }: { where: { id: string } }) => reservations.splice(reservations.findIndex(row => row.id === where.id), 1)[0],
+    },
+  }
+  // Transactions run one after another, the order serializable isolation enforces
+  fake.$transaction = (work: (tx: PrismaFake) => Promise<unknown>) => {
+    const result = running.then(() => work(fake))
+    running = result.catch(() => undefined)
+    return result
+  }
+
+  return { db: asPrismaClient(fake), appointments, reservations, reschedules }
+}
+
+function request(patientId: string, overrides: Partial<BookingRequest> = {}): BookingRequest {
+  return {
+    clinicId: 'clinic-1',
+    doctorId: 'doctor-1',
+    serviceId: 'service-1',
+    patientId,
+    appointmentDate: SLOT,
+    ...overrides,
+  }
+}
+
+function booked(id: string, patientId: string, appointmentDate: Date): AppointmentRow {
+  return {
+    id,
+    clinicId: 'clinic-1',
+    doctorId: 'doctor-1',
+    serviceId: 'service-1',
+    patientId,
+    appointmentDate,
+    status: 'CONFIRMED',
+    service: { duration: DURATION_MINUTES },
+  }
+}
+
+describe('Booking service', () => {
+  it('books a contested slot for exactly one of two concurrent patients', async () => {
+    const { db, appointments } = bookingDb()
+    const service = new BookingService(db)
+
+    const results = await Promise.allSettled([service.book(request('patient-1')), service.book(request('patient-2'))])
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected'])
+    const [, lost] = results
+    expect((lost as PromiseRejectedResult).reason).toBeInstanceOf(BookingError)
+    expect((lost as PromiseRejectedResult).reason).toMatchObject({ code: 'CONFLICT' })
+    expect(appointments.map(appointment => appointment.patientId)).toEqual(['patient-1'])
+  })
+
+  it('keeps a slot another patient is holding', async () => {
+    const { db } = bookingDb()
+    const service = new BookingService(db)
+
+    await service.reserve(request('patient-1'))
+
+    await expect(service.book(request('patient-2'))).rejects.toMatchObject({ code: 'CONFLICT' })
+    await expect(service.book(request('patient-2', { appointmentDate: atSingaporeTime('2030-03-04', '10:30') }))).resolves.toMatchObject({
+      replayed: false,
+    })
+  })
+
+  it('returns the original appointment when a retry replays the idempotency key', async () => {
+    const { db, appointments } = bookingDb()
+    const service = new BookingService(db)
+
+    const first = await service.book(request('patient-1', { idempotencyKey: 'booking-key-1' }))
+    const retry = await service.book(request('patient-1', { idempotencyKey: 'booking-key-1' }))
+
+    expect(first.replayed).toBe(false)
+    expect(retry).toEqual({ ...first, replayed: true })
+    expect(appointments).toHaveLength(1)
+  })
+
+  it('rejects an idempotency key reused for a different slot', async () => {
+    const { db } = bookingDb()
+    const service = new BookingService(db)
+
+    await service.book(request('patient-1', { idempotencyKey: 'booking-key-1' }))
+
+    await expect(
+      service.book(request('patient-1', { idempotencyKey: 'booking-key-1', appointmentDate: atSingaporeTime('2030-03-04', '11:00') }))
+    ).rejects.toMatchObject({ code: 'CONFLICT', message: 'Idempotency key was already used for a different booking' })
+  })
+})
+
+describe('Appointment changes', () => {
+  // Roles a session can carry that are not on the staff allow-list, including none at all
+  const NON_STAFF_ROLES = ['USER', 'PATIENT', 'PROVIDER', 'CLINIC_ADMIN', '']
+
+  it.each(NON_STAFF_ROLES)('stops role %j changing another patient\'s appointment', async role => {
+    const { db, appointments } = bookingDb([booked('appointment-1', 'patient-1', SLOT)])
+    const service = new BookingService(db)
+    const intruder = { userId: 'patient-2', role }
+
+    await expect(service.cancel('appointment-1', intruder)).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    await expect(
+      service.reschedule('appointment-1', intruder, { newDate: atSingaporeTime('2030-03-04', '11:00') })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    expect(appointments[0]).toMatchObject({ status: 'CONFIRMED', appointmentDate: SLOT })
+  })
+
+  it('holds patients to the notice policy whatever their role is called', async () => {
+    const soon = new Date(Date.now() + 2 * HOUR)
+    const { db, appointments } = bookingDb([booked('appointment-1', 'patient-1', soon)])
+    const service = new BookingService(db)
+    const patient = { userId: 'patient-1', role: 'PATIENT' }
+
+    await expect(service.reschedule('appointment-1', patient, { newDate: SLOT })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await expect(service.cancel('appointment-1', patient)).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    expect(appointments[0]).toMatchObject({ status: 'CONFIRMED', appointmentDate: soon })
+  })
+
+  it('lets the patient move their own appointment with enough notice', async () => {
+    const { db, appointments, reschedules } = bookingDb([booked('appointment-1', 'patient-1', SLOT)])
+    const newDate = atSingaporeTime('2030-03-05', '10:00')
+
+    const result = await new BookingService(db).reschedule('appointment-1', { userId: 'patient-1', role: 'PATIENT' }, { newDate })
+
+    expect(result).toMatchObject({ rescheduleCount: 1, remainingReschedules: 1 })
+    expect(appointments[0]!.appointmentDate).toEqual(newDate)
+    expect(reschedules).toEqual([expect.objectContaining({ previousDate: SLOT, newDate, policyOverridden: false })])
+  })
+
+  it('lets staff override the notice policy and records the override', async () => {
+    const soon = new Date(Date.now() + 2 * HOUR)
+    const { db, reschedules } = bookingDb([booked('appointment-1', 'patient-1', soon)])
+
+    await new BookingService(db).reschedule('appointment-1', { userId: 'staff-1', role: 'STAFF' }, { newDate: SLOT })
+
+    expect(reschedules).toEqual([expect.objectContaining({ rescheduledBy: 'staff-1', rescheduledByRole: 'STAFF', policyOverridden: true })])
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * Chatbot Handoff Tests
+ * Validates escalation from the chatbot into the live-chat queue, the transcript and
+ * entities passed to the agent, queue ordering and claiming
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { ChatbotConversationState, LiveChatSession } from '@prisma/client'
+import { ChatbotConversationService } from '@/lib/chatbot/conversation'
+import { handoffDecision, summarizeEntities, type HandoffEntities, type TranscriptEntry } from '@/lib/chatbot/handoff'
+import { LiveChatQueueService, type QueuedChat } from '@/lib/live-chat/service'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+// Monday 19 October 2026, 9am in Singapore
+const NOW = new Date('2026-10-19T01:00:00.000Z')
+
+type StateRow = Pick<ChatbotConversationState, 'sessionId' | 'turnCount'> & Partial<ChatbotConversationState>
+// The JSON columns hold what the queue service writes to them
+type ChatRow = Pick<LiveChatSession, 'sessionId'> &
+  Partial<Omit<LiveChatSession, 'botTranscript' | 'botEntities'>> & { botTranscript?: TranscriptEntry[]; botEntities?: HandoffEntities }
+type BySession = { where: { sessionId: string } }
+
+// Conversation state and live chat tables, plus the doctor lookups a booking needs
+function handoffDb() {
+  const states = new Map<string, StateRow>()
+  const chats = new Map<string, ChatRow>()
+
+  const db = asPrismaClient({
+    chatbotConversationState: {
+      findUnique: async ({ where }: BySession) => states.get(where.sessionId) ?? null,
+      upsert: async ({ where, create, update }: BySession & { create: StateRow; update: Omit<Partial<StateRow>, 'turnCount'> }) => {
+        const current = states.get(where.sessionId)
+        const row = current ? { ...current, ...update, turnCount: current.turnCount + 1 } : { ...create }
+        states.set(where.sessionId, row)
+        return row
+      },
+      deleteMany: async ({ where }: BySession) => ({ count: states.delete(where.sessionId) ? 1 : 0 }),
+    },
+    liveChatSession: {
+      findUnique: async ({ where }: BySession) => chats.get(where.sessionId) ?? null,
+      findUniqueOrThrow: async ({ where }: BySession) => chats.get(where.sessionId)!,
+      findFirst: async ({ where }: { where: Where<ChatRow> }) => [...chats.values()].find(row => matches(row, where)) ?? null,
+      findMany: async ({ where }: { where: Where<ChatRow> }) => [...chats.values()].filter(row => matches(row, where)),
+      upsert: async ({ where, create, update }: BySession & { create: ChatRow; update: Partial<ChatRow> }) => {
+        const current = chats.get(where.sessionId)
+        const row: ChatRow = current ? { ...current, ...update } : { department: null, urgencyLevel: 'ROUTINE', ...create }
+        chats.set(where.sessionId, row)
+        return row
+      },
+      update: async ({ where, data }: BySession & { data: Partial<ChatRow> }) => {
+        const row = { ...chats.get(where.sessionId)!, ...data }
+        chats.set(where.sessionId, row)
+        return row
+      },
+      updateMany: async ({ where, data }: { where: Where<ChatRow> & { sessionId: string }; data: Partial<ChatRow> }) => {
+        const row = chats.get(where.sessionId)
+        if (!row || !matches(row, where)) return { count: 0 }
+        chats.set(where.sessionId, { ...row, ...data })
+        return { count: 1 }
+      },
+    },
+    doctor: {
+      findMany: async () => [
+        { id: 'doc-tan', name: 'Tan Wei Ming', clinics: [{ clinicId: 'clinic-orchard', isPrimary: true, clinic: { name: 'Orchard Clinic' } }] },
+      ],
+    },
+    clinicService: {
+      findMany: async () => [{ serviceId: 'svc-gp', service: { name: 'General Consultation' } }],
+    },
+  })
+  return { db, states, chats }
+}
+
+function chatbot() {
+  const { db, states, chats } = handoffDb()
+  let clock = NOW.getTime()
+  const now = () => new Date(clock)
+  const announced: QueuedChat[] = []
+  const liveChat = new LiveChatQueueService(db, { now, onHandoff: chat => void announced.push(chat) })
+  const service = new ChatbotConversationService(db, {
+    now,
+    liveChat,
+    findSlots: async () => [{ start: new Date('2026-10-20T01:00:00.000Z'), end: new Date('2026-10-20T01:30:00.000Z') }],
+  })
+  const say = (message: string, sessionId = 'session-aaaa') => {
+    clock += 60_000
+    return service.handleMessage({ sessionId, message, userId: null, customerName: 'Mei Ling' })
+  }
+  return { say, service, liveChat, states, chats, announced }
+}
+
+describe('Chatbot handoff', () => {
+  it('queues an emergency ahead of everyone with the transcript attached', async () => {
+    const { say, chats, announced } = chatbot()
+    await say('I want to speak to a human', 'session-first')
+
+    const reply = await say('I have chest pain and difficulty breathing')
+    expect(reply).toMatchObject({ stage: 'HANDED_OFF', escalationRequired: true, liveChat: { queuePosition: 1, priority: 'EMERGENCY' } })
+    expect(reply.content).toMatch(/^This appears to be a medical emergency\. Please call 995/)
+    expect(reply.content).toMatch(/You're number 1 in the queue/)
+    expect(reply.actions).toContainEqual({
+      type: 'live_agent_handoff',
+      data: { sessionId: 'session-aaaa', queuePosition: 1, priority: 'EMERGENCY' },
+    })
+
+    const chat = chats.get('session-aaaa')!
+    expect(chat).toMatchObject({
+      status: 'WAITING',
+      priority: 'EMERGENCY',
+      urgencyLevel: 'EMERGENCY',
+      isEmergency: true,
+      handoffReason: 'emergency_medical_situation',
+      customerName: 'Mei Ling',
+      language: 'en',
+      queuePosition: 1,
+    })
+    expect(chat.botTranscript!.map(entry => [entry.role, entry.intent ?? entry.responseType])).toEqual([
+      ['customer', 'EMERGENCY'],
+      ['bot', 'EMERGENCY'],
+    ])
+    expect(chat.botEntities!.intents).toEqual(['EMERGENCY'])
+    expect(chats.get('session-first')!.queuePosition).toBe(1)
+    expect(announced.map(queued => [queued.sessionId, queued.queuePosition])).toEqual([
+      ['session-first', 1],
+      ['session-aaaa', 1],
+    ])
+  })
+
+  it('hands over the booking in progress when the patient asks for a person', async () => {
+    const { say, chats } = chatbot()
+    await say('book with Dr Tan')
+    await say('tomorrow morning')
+
+    const reply = await say('can I talk to a real person')
+    expect(reply).toMatchObject({ stage: 'HANDED_OFF', type: 'ESCALATION', liveChat: { priority: 'NORMAL' } })
+    const chat = chats.get('session-aaaa')!
+    expect(chat).toMatchObject({ handoffReason: 'customer_request', doctorId: 'doc-tan', clinicId: 'clinic-orchard', serviceId: 'svc-gp' })
+    expect(chat.botEntities).toMatchObject({
+      doctorName: 'Dr Tan Wei Ming',
+      doctorId: 'doc-tan',
+      date: '2026-10-20',
+      period: 'morning',
+      services: ['General Consultation'],
+    })
+    expect(chat.botTranscript).toHaveLength(6)
+    expect(chat.botTranscript![3]!.content).toBe('Dr Tan Wei Ming is free at 9:00 am on Tue, 20 Oct at Orchard Clinic. Shall I book it?')
+  })
+
+  it('relays messages while waiting and hands back to the bot once the agent closes the chat', async () => {
+    const { say, liveChat, chats, states } = chatbot()
+    await say('转人工')
+    expect(chats.get('session-aaaa')!.language).toBe('zh')
+
+    const waiting = await say('我还在等')
+    expect(waiting).toMatchObject({ stage: 'HANDED_OFF', content: '谢谢，我已转告工作人员。客服人员很快会加入对话。' })
+    expect(chats.get('session-aaaa')!.botTranscript).toHaveLength(4)
+
+    const claimed = await liveChat.claim('session-aaaa', { id: 'agent-1', name: 'Aisha' })
+    expect(claimed).toMatchObject({ status: 'ACTIVE', assignedAgentName: 'Aisha', waitTime: 60, queuePosition: null })
+    await expect(liveChat.claim('session-aaaa', { id: 'agent-2', name: 'Ben' })).rejects.toMatchObject({ code: 'CONFLICT' })
+    expect((await say('hello')).stage).toBe('HANDED_OFF')
+
+    chats.set('session-aaaa', { ...chats.get('session-aaaa')!, status: 'COMPLETED' })
+    const after = await say('hello')
+    expect(after).toMatchObject({ stage: 'IDLE', type: 'GREETING' })
+    expect(states.get('session-aaaa')!.transcript).toHaveLength(8)
+  })
+
+  it('escalates complaints and repeated misunderstandings but not ordinary questions', async () => {
+    const complaint = chatbot()
+    expect(await complaint.say('Can I use Medisave?')).toMatchObject({ type: 'FAQ', stage: 'IDLE' })
+    expect(await complaint.say('this is terrible, I am so frustrated')).toMatchObject({
+      stage: 'HANDED_OFF',
+      liveChat: { priority: 'HIGH' },
+    })
+    expect(complaint.chats.get('session-aaaa')!.handoffReason).toBe('negative_sentiment')
+
+    const confused = chatbot()
+    expect(await confused.say('blah blah')).toMatchObject({ type: 'FALLBACK', stage: 'IDLE' })
+    expect(await confused.say('zzz qqq')).toMatchObject({ stage: 'HANDED_OFF', liveChat: { priority: 'NORMAL' } })
+    expect(confused.chats.get('session-aaaa')!.handoffReason).toBe('multiple_failed_attempts')
+  })
+
+  it('takes a waiting chat out of the queue when the conversation is reset', async () => {
+    const { say, service, liveChat, chats } = chatbot()
+    await say('connect me to an agent')
+    await service.reset('session-aaaa', null)
+    expect(chats.get('session-aaaa')).toMatchObject({ status: 'ABANDONED', queuePosition: null })
+    expect(await liveChat.listWaiting()).toEqual([])
+  })
+})
+
+describe('Handoff details', () => {
+  it('maps escalation reasons to queue priority', () => {
+    expect(handoffDecision({ shouldEscalate: false, reason: '' })).toBeNull()
+    expect(handoffDecision({ shouldEscalate: true, reason: 'urgent_medical_inquiry' })).toEqual({
+      reason: 'urgent_medical_inquiry',
+      priority: 'URGENT',
+      urgencyLevel: 'URGENT',
+      isEmergency: false,
+    })
+    expect(handoffDecision({ shouldEscalate: true, reason: 'booking_failed' })).toMatchObject({ priority: 'NORMAL' })
+  })
+
+  it('summarises entities across turns, latest single value first', () => {
+    const at = NOW.toISOString()
+    const summary = summarizeEntities([
+      { role: 'customer', content: 'fever', at, intent: 'QUESTION', entities: { symptoms: ['fever'], date: '2026-10-20' } },
+      { role: 'bot', content: '...', at, responseType: 'INFORMATION' },
+      { role: 'customer', content: 'Fever and cough on Wednesday', at, intent: 'UNKNOWN', entities: { symptoms: ['Fever', 'cough'], date: '2026-10-21' } },
+    ])
+    expect(summary).toEqual({ symptoms: ['fever', 'cough'], services: [], medicalKeywords: [], intents: ['QUESTION'], date: '2026-10-21' })
+  })
+})
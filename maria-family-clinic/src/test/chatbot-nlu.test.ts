@@ -0,0 +1,227 @@
+/**
+ * Chatbot NLU Tests
+ * Validates the offline intent model, entity extraction, the pluggable NLU provider
+ * and multi-turn booking conversations with persisted state
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { ChatbotConversationState } from '@prisma/client'
+import { MessageIntent } from '@/lib/types/multi-channel-contact'
+import { ChatbotService } from '@/lib/chatbot-service'
+import { predictNaiveBayes, trainNaiveBayes, contentFeatures } from '@/lib/chatbot/classifier'
+import { extractEntities } from '@/lib/chatbot/entities'
+import { OfflineNluProvider, type NluProvider } from '@/lib/chatbot/nlu'
+import {
+  ChatbotConversationService,
+  type AppointmentBookingRequest,
+  type ChatbotConversationOptions,
+} from '@/lib/chatbot/conversation'
+import { asPrismaClient } from './prisma-fake'
+
+// Monday 19 October 2026, 9am in Singapore
+const NOW = new Date('2026-10-19T01:00:00.000Z')
+
+describe('Entity extraction', () => {
+  it('resolves relative days and parts of the day in Singapore time', () => {
+    expect(extractEntities('tomorrow morning', NOW)).toEqual({ date: '2026-10-20', period: 'morning' })
+    // 1am in Singapore is already the next day there
+    expect(extractEntities('today', new Date('2026-10-19T17:00:00.000Z')).date).toBe('2026-10-20')
+    expect(extractEntities('明天下午3点', NOW)).toEqual({ date: '2026-10-20', period: 'afternoon', time: '15:00' })
+    expect(extractEntities('esok pagi', NOW)).toEqual({ date: '2026-10-20', period: 'morning' })
+  })
+
+  it('reads weekdays, day-first dates and clock times', () => {
+    expect(extractEntities('Monday at 2:30pm', NOW)).toEqual({ date: '2026-10-26', time: '14:30' })
+    expect(extractEntities('5/11 10am', NOW)).toEqual({ date: '2026-11-05', time: '10:00' })
+    expect(extractEntities('3 Jan', NOW).date).toBe('2027-01-03')
+  })
+
+  it('picks out doctor names and yes/no answers', () => {
+    expect(extractEntities('Book with Dr Tan tomorrow', NOW)).toMatchObject({ doctorName: 'Tan', date: '2026-10-20' })
+    expect(extractEntities('doctor Lim Wei please').doctorName).toBe('Lim Wei')
+    expect(extractEntities('我想预约陈医生').doctorName).toBe('陈')
+    expect(extractEntities('Yes please').confirmation).toBe('yes')
+    expect(extractEntities('好的').confirmation).toBe('yes')
+    expect(extractEntities('no, cancel it').confirmation).toBe('no')
+    expect(extractEntities('I have no idea what to do about my knee pain').confirmation).toBeUndefined()
+  })
+})
+
+describe('Offline NLU provider', () => {
+  const nlu = new OfflineNluProvider()
+
+  it('classifies intents with the bundled model', async () => {
+    expect((await nlu.analyze('book with Dr Tan')).intent).toBe(MessageIntent.APPOINTMENT)
+    expect((await nlu.analyze('hello')).intent).toBe(MessageIntent.GREETING)
+    expect((await nlu.analyze('I have chest pain')).intent).toBe(MessageIntent.EMERGENCY)
+    expect((await nlu.analyze('the staff were rude')).intent).toBe(MessageIntent.COMPLAINT)
+    expect(await nlu.analyze('blah blah')).toMatchObject({ intent: MessageIntent.UNKNOWN, confidence: 0 })
+  })
+
+  it('matches FAQ paraphrases and detects the language', async () => {
+    expect(await nlu.analyze('Can I use Medisave?')).toMatchObject({ faq: { id: 'insurance' }, language: 'en' })
+    expect((await nlu.analyze('saya mahu buat temujanji esok pagi')).language).toBe('ms')
+    expect((await nlu.analyze('我想预约')).language).toBe('zh')
+    // A one-word reply keeps the conversation's language
+    expect((await nlu.analyze('ok', { language: 'ms' })).language).toBe('ms')
+  })
+
+  it('trains naive Bayes from labelled examples', () => {
+    const model = trainNaiveBayes(
+      [
+        { text: 'book an appointment', label: 'APPOINTMENT' },
+        { text: 'see the doctor tomorrow', label: 'APPOINTMENT' },
+        { text: 'what time do you open', label: 'QUESTION' },
+      ],
+      contentFeatures
+    )
+    const prediction = predictNaiveBayes(model, contentFeatures('book the doctor'))
+    expect(prediction.scores[0]!.label).toBe('APPOINTMENT')
+    expect(prediction.coverage).toBe(1)
+    expect(predictNaiveBayes(model, ['unseen']).coverage).toBe(0)
+  })
+
+  it('lets ChatbotService run on another provider', async () => {
+    const stub: NluProvider = {
+      name: 'stub',
+      analyze: async () => ({
+        intent: MessageIntent.GREETING,
+        confidence: 0.99,
+        alternatives: [],
+        language: 'en',
+        entities: {},
+        faq: null,
+      }),
+    }
+    const response = await new ChatbotService(stub).processMessage('anything', { language: 'en' })
+    expect(response.type).toBe('GREETING')
+    expect(response.metadata).toMatchObject({ nluProvider: 'stub', intent: MessageIntent.GREETING })
+  })
+})
+
+type StateRow = Pick<ChatbotConversationState, 'sessionId' | 'turnCount'> & Partial<ChatbotConversationState>
+type StateUpdate = Omit<Partial<StateRow>, 'turnCount'> & { turnCount: number | { increment: number } }
+
+describe('Booking conversation', () => {
+  // Conversation state table plus the doctor and clinic lookups the booking needs
+  function conversationDb() {
+    const states = new Map<string, StateRow>()
+    const db = asPrismaClient({
+      chatbotConversationState: {
+        findUnique: async ({ where }: { where: { sessionId: string } }) => states.get(where.sessionId) ?? null,
+        upsert: async ({ where, create, update }: { where: { sessionId: string }; create: StateRow; update: StateUpdate }) => {
+          const current = states.get(where.sessionId)
+          const turnCount = current
+            ? typeof update.turnCount === 'number' ? update.turnCount : current.turnCount + update.turnCount.increment
+            : create.turnCount
+          const row = current ? { ...current, ...update, turnCount } : { ...create }
+          states.set(where.sessionId, row)
+          return row
+        },
+      },
+      doctor: {
+        findMany: async () => [
+          {
+            id: 'doc-tan',
+            name: 'Tan Wei Ming',
+            clinics: [{ clinicId: 'clinic-orchard', isPrimary: true, clinic: { name: 'Orchard Clinic' } }],
+          },
+          { id: 'doc-tanya', name: 'Tanya Lim', clinics: [{ clinicId: 'clinic-jurong', isPrimary: true, clinic: { name: 'Jurong Clinic' } }] },
+        ],
+      },
+      clinicService: {
+        findMany: async () => [
+          { serviceId: 'svc-vaccine', service: { name: 'Vaccination' } },
+          { serviceId: 'svc-gp', service: { name: 'General Consultation' } },
+        ],
+      },
+    })
+    return { db, states }
+  }
+
+  // Dr Tan is free at 9:00, 9:30 and 14:00 Singapore time on Tuesday 20 October
+  const SLOTS = ['01:00', '01:30', '06:00'].map(time => {
+    const start = new Date(`2026-10-20T${time}:00.000Z`)
+    return { start, end: new Date(start.getTime() + 30 * 60_000) }
+  })
+
+  function conversation(options: Partial<ChatbotConversationOptions> = {}) {
+    const { db, states } = conversationDb()
+    const bookings: AppointmentBookingRequest[] = []
+    const service = new ChatbotConversationService(db, {
+      now: () => NOW,
+      findSlots: async () => SLOTS,
+      bookAppointment: async request => {
+        bookings.push(request)
+        return { id: 'appt-1' }
+      },
+      ...options,
+    })
+    const say = (message: string, userId: string | null = 'patient-1') =>
+      service.handleMessage({ sessionId: 'session-12345', message, userId })
+    return { say, states, bookings }
+  }
+
+  it('books over three turns: doctor, then time, then confirmation', async () => {
+    const { say, states, bookings } = conversation()
+
+    const first = await say('book with Dr Tan')
+    expect(first).toMatchObject({ stage: 'COLLECTING', type: 'CLARIFICATION' })
+    expect(first.content).toBe('When would you like to see Dr Tan Wei Ming? For example "tomorrow morning" or "Friday at 3pm".')
+
+    const second = await say('tomorrow morning')
+    expect(second.stage).toBe('CONFIRMING')
+    expect(second.content).toBe('Dr Tan Wei Ming is free at 9:00 am on Tue, 20 Oct at Orchard Clinic. Shall I book it?')
+
+    const third = await say('yes')
+    expect(third).toMatchObject({ stage: 'BOOKED', type: 'CONFIRMATION', appointmentId: 'appt-1' })
+    expect(bookings).toEqual([
+      {
+        clinicId: 'clinic-orchard',
+        doctorId: 'doc-tan',
+        serviceId: 'svc-gp',
+        appointmentDate: SLOTS[0]!.start,
+        idempotencyKey: `chatbot-session-12345-${SLOTS[0]!.start.getTime()}`,
+      },
+    ])
+    expect(states.get('session-12345')).toMatchObject({ stage: 'BOOKED', turnCount: 3, userId: 'patient-1', lastIntent: 'UNKNOWN' })
+  })
+
+  it('offers the next slot when one is taken and says when a day is full', async () => {
+    let attempts = 0
+    const { say } = conversation({
+      bookAppointment: async () => {
+        if (attempts++ === 0) throw Object.assign(new Error('Slot taken'), { code: 'CONFLICT' })
+        return { id: 'appt-2' }
+      },
+    })
+
+    await say('I want to see Dr Tan tomorrow morning')
+    const taken = await say('yes')
+    expect(taken.stage).toBe('CONFIRMING')
+    expect(taken.content).toBe('Sorry, that slot has just been taken. Dr Tan Wei Ming is free at 9:30 am on Tue, 20 Oct at Orchard Clinic. Shall I book it?')
+    expect(await say('ok')).toMatchObject({ stage: 'BOOKED', appointmentId: 'appt-2' })
+
+    // The only afternoon slot is 2pm; after 3pm there is nothing left that day
+    const none = await say('book Dr Tan tomorrow at 3pm')
+    expect(none.stage).toBe('COLLECTING')
+    expect(none.content).toBe('Dr Tan Wei Ming has no free slots from 15:00 on Tue, 20 Oct. Would another day suit you?')
+    expect((await say('no')).stage).toBe('IDLE')
+  })
+
+  it('asks visitors to sign in before booking and keeps the proposal', async () => {
+    const { say } = conversation({ bookAppointment: undefined })
+    await say('book with Dr Tan tomorrow morning', null)
+    const reply = await say('yes', null)
+    expect(reply).toMatchObject({ stage: 'CONFIRMING', actions: [{ type: 'sign_in' }] })
+  })
+
+  it('keeps conversations to their owner and answers other questions normally', async () => {
+    const { say } = conversation()
+    await say('book with Dr Tan')
+    await expect(say('tomorrow morning', 'someone-else')).rejects.toMatchObject({ code: 'FORBIDDEN' })
+
+    const faq = await say('Can I use Medisave?')
+    expect(faq).toMatchObject({ type: 'FAQ', stage: 'COLLECTING' })
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * Clinic Hours Calendar Tests
+ * Validates Singapore-time opening hours with public holidays, holiday eves, clinic exceptions and booking checks
+ */
+
+import { describe, it, expect } from 'vitest'
+import { detectBookingConflicts, type BookingCalendar } from '@/lib/booking/overlap'
+import {
+  atSingaporeTime,
+  formatSingaporeDateTime,
+  formatSingaporeTime,
+  isOpenAt,
+  parseLegacyOperatingHours,
+  resolveDayHours,
+  singaporeDateKey,
+  slotStarts,
+  type ClinicHoursSources,
+  type WeeklyHours,
+} from '@/lib/clinic-hours/calendar'
+import { BUNDLED_PUBLIC_HOLIDAYS, parsePublicHolidayCsv, PublicHolidayImportError } from '@/lib/clinic-hours/public-holidays'
+import { ClinicHoursError, ClinicHoursService } from '@/lib/clinic-hours/service'
+import { asPrismaClient } from './prisma-fake'
+
+const WEEKDAYS: WeeklyHours[] = (['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'] as const).map(dayOfWeek => ({
+  dayOfWeek,
+  isOpen: true,
+  is24Hours: false,
+  openTime: '08:30',
+  closeTime: '21:00',
+  breakStart: '13:00',
+  breakEnd: '14:00',
+}))
+
+const SOURCES: ClinicHoursSources = {
+  weekly: [...WEEKDAYS, { ...WEEKDAYS[0]!, dayOfWeek: 'SUNDAY', isOpen: false }],
+  holidays: BUNDLED_PUBLIC_HOLIDAYS,
+  exceptions: [],
+}
+
+describe('Clinic opening calendar', () => {
+  it('uses weekly hours split around the break', () => {
+    expect(resolveDayHours('2026-08-12', SOURCES)).toEqual({
+      date: '2026-08-12',
+      dayOfWeek: 'WEDNESDAY',
+      source: 'WEEKLY',
+      label: null,
+      windows: [
+        { start: '08:30', end: '13:00' },
+        { start: '14:00', end: '21:00' },
+      ],
+    })
+    expect(resolveDayHours('2026-08-16', SOURCES).windows).toEqual([])
+    expect(resolveDayHours('2026-08-15', SOURCES)).toMatchObject({ source: 'UNKNOWN', windows: null })
+  })
+
+  it('closes on public holidays, including Monday holidays in lieu', () => {
+    expect(resolveDayHours('2026-08-10', SOURCES)).toMatchObject({
+      source: 'PUBLIC_HOLIDAY',
+      label: 'National Day (observed)',
+      windows: [],
+    })
+  })
+
+  it('closes early on holiday eves', () => {
+    expect(resolveDayHours('2026-12-24', SOURCES)).toMatchObject({
+      source: 'HOLIDAY_EVE',
+      label: 'Christmas Eve',
+      windows: [{ start: '08:30', end: '13:00' }],
+    })
+  })
+
+  it('lets a clinic exception override a holiday', () => {
+    const sources = {
+      ...SOURCES,
+      exceptions: [
+        { date: '2026-12-25', type: 'SPECIAL_HOURS' as const, isClosed: false, openTime: '09:00', closeTime: '12:00', reason: 'Christmas clinic' },
+        { date: '2026-08-12', type: 'CLOSURE' as const, isClosed: true, openTime: null, closeTime: null, reason: 'Renovation' },
+      ],
+    }
+
+    expect(resolveDayHours('2026-12-25', sources)).toMatchObject({ source: 'EXCEPTION', windows: [{ start: '09:00', end: '12:00' }] })
+    expect(resolveDayHours('2026-08-12', sources)).toMatchObject({ label: 'Renovation', windows: [] })
+  })
+
+  it('works in Singapore time whatever the server time zone', () => {
+    // 17:30 UTC on 24 Dec is 01:30 on Christmas Day in Singapore
+    const christmasNight = new Date('2026-12-24T17:30:00.000Z')
+    expect(singaporeDateKey(christmasNight)).toBe('2026-12-25')
+    expect(formatSingaporeDateTime(christmasNight)).toBe('25 Dec 2026, 1:30 am')
+    expect(formatSingaporeTime(christmasNight)).toBe('1:30 am')
+    expect(atSingaporeTime('2026-08-12', '08:30')).toEqual(new Date('2026-08-12T00:30:00.000Z'))
+
+    const wednesday = resolveDayHours('2026-08-12', SOURCES)
+    expect(isOpenAt(new Date('2026-08-12T00:30:00.000Z'), wednesday)).toBe(true)
+    expect(isOpenAt(new Date('2026-08-12T05:30:00.000Z'), wednesday)).toBe(false) // 13:30, lunch break
+    expect(isOpenAt(new Date('2026-08-12T13:00:00.000Z'), wednesday)).toBe(false) // 21:00, closed
+  })
+
+  it('generates slots only inside the day\'s windows', () => {
+    const eve = slotStarts(resolveDayHours('2026-12-24', SOURCES), 30)
+    expect(eve).toHaveLength(9)
+    expect(eve.at(-1)).toEqual(atSingaporeTime('2026-12-24', '12:30'))
+    expect(slotStarts(resolveDayHours('2026-12-25', SOURCES), 30)).toEqual([])
+  })
+
+  it('reads the legacy operating hours JSON', () => {
+    expect(parseLegacyOperatingHours({ monday: '09:00-12:00,14:00-18:00', sunday: 'closed', notADay: '09:00-10:00' })).toEqual([
+      { dayOfWeek: 'MONDAY', isOpen: true, is24Hours: false, openTime: '09:00', closeTime: '18:00', breakStart: '12:00', breakEnd: '14:00' },
+      { dayOfWeek: 'SUNDAY', isOpen: false, is24Hours: false, openTime: '00:00', closeTime: '00:00', breakStart: null, breakEnd: null },
+    ])
+  })
+})
+
+describe('Booking against clinic hours', () => {
+  const calendar = (dates: string[]): BookingCalendar => ({
+    appointments: [],
+    reservations: [],
+    waitlistHolds: [],
+    leaves: [],
+    availabilities: [],
+    clinicDays: new Map(dates.map(date => [date, resolveDayHours(date, SOURCES)])),
+  })
+  const slot = (date: string, time: string) => ({
+    clinicId: 'clinic-1',
+    start: atSingaporeTime(date, time),
+    end: new Date(atSingaporeTime(date, time).getTime() + 30 * 60 * 1000),
+  })
+
+  it('rejects slots on holidays, after an early close and across the lunch break', () => {
+    const days = calendar(['2026-12-24', '2026-12-25', '2026-08-12'])
+
+    expect(detectBookingConflicts(slot('2026-12-25', '10:00'), days)).toEqual([
+      expect.objectContaining({ reason: 'CLINIC_CLOSED', message: 'The clinic is closed at the selected time (Christmas Day)' }),
+    ])
+    expect(detectBookingConflicts(slot('2026-12-24', '12:30'), days)).toEqual([])
+    expect(detectBookingConflicts(slot('2026-12-24', '13:00'), days).map(c => c.reason)).toEqual(['CLINIC_CLOSED'])
+    expect(detectBookingConflicts(slot('2026-08-12', '12:45'), days).map(c => c.reason)).toEqual(['CLINIC_CLOSED'])
+  })
+
+  it('does not enforce hours for clinics without any on record', () => {
+    expect(detectBookingConflicts(slot('2026-08-15', '03:00'), calendar(['2026-08-15']))).toEqual([])
+  })
+})
+
+describe('Public holiday dataset', () => {
+  it('parses the data.gov.sg CSV export', () => {
+    const csv = 'date,day,holiday\n2027-01-01,Friday,New Year’s Day\n2027-02-06,Saturday,Chinese New Year\n'
+    expect(parsePublicHolidayCsv(csv)).toEqual([
+      { date: '2027-01-01', name: 'New Year’s Day', type: 'PUBLIC_HOLIDAY', earlyCloseTime: null },
+      { date: '2027-02-06', name: 'Chinese New Year', type: 'PUBLIC_HOLIDAY', earlyCloseTime: null },
+    ])
+    expect(() => parsePublicHolidayCsv('date,day,holiday\n01/01/2027,Friday,New Year')).toThrow(PublicHolidayImportError)
+  })
+})
+
+describe('Clinic hours service', () => {
+  // In-memory stand-in for the hours tables
+  function hoursDb() {
+    const exceptions: { clinicId: string; date: Date }[] = []
+    return {
+      db: asPrismaClient({
+        clinic: {
+          findMany: async () => [
+            { id: 'open-late', operatingHours: { wednesday: '08:00-23:00' } },
+            { id: 'day-only', operatingHours: { wednesday: '08:00-17:00' } },
+          ],
+          findUnique: async ({ where }: { where: { id: string } }) => (where.id === 'missing' ? null : { id: where.id }),
+        },
+        operatingHours: { findMany: async () => [] },
+        publicHoliday: { findMany: async () => [] },
+        clinicHoursException: {
+          findMany: async () => [],
+          upsert: async ({ create }: { create: { clinicId: string; date: Date } }) => {
+            exceptions.push(create)
+            return create
+          },
+        },
+        $transaction: (ops: Promise<unknown>[]) => Promise.all(ops),
+      }),
+      exceptions,
+    }
+  }
+
+  it('finds clinics open now in Singapore time', async () => {
+    const { db } = hoursDb()
+    // 22:00 on Wednesday in Singapore
+    expect(await new ClinicHoursService(db).openClinicIds(new Date('2026-08-12T14:00:00.000Z'))).toEqual(['open-late'])
+  })
+
+  it('validates exceptions before saving them', async () => {
+    const { db, exceptions } = hoursDb()
+    const service = new ClinicHoursService(db)
+
+    await expect(
+      service.setException({ clinicId: 'c1', dates: ['2026-12-25'], type: 'SPECIAL_HOURS', openTime: '12:00', closeTime: '09:00', createdBy: 'staff' })
+    ).rejects.toThrow('Closing time must be after opening time')
+    await expect(
+      service.setException({ clinicId: 'missing', dates: ['2026-12-25'], type: 'CLOSURE', createdBy: 'staff' })
+    ).rejects.toBeInstanceOf(ClinicHoursError)
+
+    await service.setException({ clinicId: 'c1', dates: ['2026-12-25', '2026-12-26'], type: 'CLOSURE', createdBy: 'staff' })
+    expect(exceptions.map(e => e.date.toISOString().slice(0, 10))).toEqual(['2026-12-25', '2026-12-26'])
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Clinic Proximity Search Tests
+ * Validates exact radius filtering, distance ordering, filtered cursor pagination and the haversine fallback
+ */
+
+import { describe, it, expect } from 'vitest'
+import { boundingBox, decodeCursor, encodeCursor, rankByDistance } from '@/lib/proximity/ranking'
+import { ClinicProximityService, HaversineProximityIndex, ProximitySearchError } from '@/lib/proximity/service'
+import { asPrismaClient } from './prisma-fake'
+
+const RAFFLES_PLACE = { latitude: 1.284, longitude: 103.851 }
+
+interface FakeClinic {
+  id: string
+  latitude: number
+  longitude: number
+  isActive: boolean
+}
+
+// Clinics roughly 220 m apart heading north, plus one in the bounding box corner but outside 5 km
+function clinicsNorthOf(count: number, inactive: string[] = []): FakeClinic[] {
+  const clinics = Array.from({ length: count }, (_, i) => ({
+    id: `clinic-${String(i).padStart(3, '0')}`,
+    latitude: RAFFLES_PLACE.latitude + i * 0.002,
+    longitude: RAFFLES_PLACE.longitude,
+    isActive: !inactive.includes(`clinic-${String(i).padStart(3, '0')}`),
+  }))
+  return [
+    { id: 'box-corner', latitude: RAFFLES_PLACE.latitude + 0.04, longitude: RAFFLES_PLACE.longitude + 0.04, isActive: true },
+    ...clinics.reverse(),
+  ]
+}
+
+type Range = { gte: number; lte: number }
+type ClinicWhere = { latitude?: Range; longitude?: Range; AND?: [{ isActive?: boolean }, { id: { in: string[] } }] }
+
+// In-memory stand-in for the clinics table, answering box queries and id/isActive filters
+function clinicTable(clinics: FakeClinic[]) {
+  const db = asPrismaClient({
+    clinic: {
+      findMany: async ({ where }: { where: ClinicWhere }) => {
+        const { latitude, longitude } = where
+        if (latitude && longitude) {
+          return clinics.filter(
+            c => c.latitude >= latitude.gte && c.latitude <= latitude.lte && c.longitude >= longitude.gte && c.longitude <= longitude.lte
+          )
+        }
+        const [filter, { id }] = where.AND!
+        return clinics.filter(c => id.in.includes(c.id) && (filter.isActive === undefined || c.isActive === filter.isActive))
+      },
+    },
+  })
+  return { db }
+}
+
+describe('Proximity ranking', () => {
+  it('keeps only points inside the circle, nearest first', () => {
+    const hits = rankByDistance(clinicsNorthOf(30), RAFFLES_PLACE, 5)
+
+    expect(hits.map(hit => hit.id)).not.toContain('box-corner')
+    expect(hits[0]).toMatchObject({ id: 'clinic-000', distanceKm: 0 })
+    expect(hits.every((hit, i) => i === 0 || hit.distanceKm >= hits[i - 1]!.distanceKm)).toBe(true)
+    expect(hits.at(-1)!.distanceKm).toBeLessThanOrEqual(5)
+  })
+
+  it('resumes after a hit and breaks distance ties by id', () => {
+    const twins = [
+      { id: 'b', latitude: 1.29, longitude: 103.851 },
+      { id: 'a', latitude: 1.29, longitude: 103.851 },
+      { id: 'c', latitude: 1.3, longitude: 103.851 },
+    ]
+    const [first, ...rest] = rankByDistance(twins, RAFFLES_PLACE, 5)
+
+    expect(first!.id).toBe('a')
+    expect(rankByDistance(twins, RAFFLES_PLACE, 5, first!).map(hit => hit.id)).toEqual(rest.map(hit => hit.id))
+    expect(rest.map(hit => hit.id)).toEqual(['b', 'c'])
+  })
+
+  it('bounds the circle and round-trips cursors', () => {
+    const box = boundingBox(RAFFLES_PLACE, 5)
+    expect(box.latitude.lte - RAFFLES_PLACE.latitude).toBeGreaterThan(5 / 111)
+
+    const hit = { id: 'clinic-007', distanceKm: 1.5549 }
+    expect(decodeCursor(encodeCursor(hit))).toEqual(hit)
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+  })
+})
+
+describe('Clinic proximity service', () => {
+  it('finds the nearest clinics regardless of how the table is ordered', async () => {
+    const { db } = clinicTable(clinicsNorthOf(40))
+    const service = new ClinicProximityService(db, new HaversineProximityIndex(db))
+
+    const { hits } = await service.nearest({ center: RAFFLES_PLACE, radiusKm: 5, limit: 3 })
+    expect(hits.map(hit => hit.id)).toEqual(['clinic-000', 'clinic-001', 'clinic-002'])
+  })
+
+  it('pages through filtered results with cursors without gaps or repeats', async () => {
+    const inactive = ['clinic-001', 'clinic-004', 'clinic-005']
+    const { db } = clinicTable(clinicsNorthOf(12, inactive))
+    const service = new ClinicProximityService(db, new HaversineProximityIndex(db))
+    const query = { center: RAFFLES_PLACE, radiusKm: 5, limit: 4, where: { isActive: true } }
+
+    const seen: string[] = []
+    let cursor: string | undefined
+    do {
+      const page = await service.nearest({ ...query, cursor })
+      seen.push(...page.hits.map(hit => hit.id))
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+
+    expect(seen).toEqual(['000', '002', '003', '006', '007', '008', '009', '010', '011'].map(n => `clinic-${n}`))
+  })
+
+  it('returns everything inside the radius for page-based listings', async () => {
+    const { db } = clinicTable(clinicsNorthOf(40))
+    const service = new ClinicProximityService(db, new HaversineProximityIndex(db))
+
+    const hits = await service.withinRadius({ center: RAFFLES_PLACE, radiusKm: 2 })
+    expect(hits).toHaveLength(9) // 0 to 1.78 km at ~222 m spacing; the tenth is just past 2 km
+    expect(hits.map(hit => hit.id)).not.toContain('box-corner')
+  })
+
+  it('rejects cursors it did not issue', async () => {
+    const { db } = clinicTable([])
+    const service = new ClinicProximityService(db, new HaversineProximityIndex(db))
+
+    await expect(service.nearest({ center: RAFFLES_PLACE, radiusKm: 5, limit: 5, cursor: 'abc' })).rejects.toBeInstanceOf(
+      ProximitySearchError
+    )
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Demand Forecasting Tests
+ * Validates the daily demand features, the seasonal Poisson model and its backtest, stored
+ * model versions, and staffing plans and hourly load derived from the forecasts
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { DemandForecastModel } from '@prisma/client'
+import { addDaysToKey, atSingaporeTime, dateKeysBetween } from '@/lib/clinic-hours/calendar'
+import { loadDailyDemand } from '@/lib/forecasting/features'
+import {
+  backtestDemandModel,
+  DemandModelError,
+  fitPoissonRegression,
+  predictDemand,
+  seasonalProfile,
+  trainDemandModel,
+  type DemandObservation,
+} from '@/lib/forecasting/model'
+import { DemandForecastService } from '@/lib/forecasting/service'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+const NOW = new Date('2026-10-19T02:00:00.000Z') // Monday 10:00 in Singapore
+const DAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'] as const
+
+// Mean bookings by weekday (Sunday closed) and growth per year
+const WEEKDAY_MEANS = [0, 24, 20, 20, 20, 22, 14]
+const YEARLY_GROWTH = 1.1
+
+// Deterministic noise with roughly Poisson spread
+function noise(seed: number) {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648 - 0.5
+  }
+}
+
+function syntheticHistory(toKey: string, days: number, options: { noisy?: boolean } = {}): DemandObservation[] {
+  const next = noise(7)
+  return dateKeysBetween(addDaysToKey(toKey, 1 - days), toKey).map((date, i) => {
+    const dayOfWeek = new Date(`${date}T00:00:00.000Z`).getUTCDay()
+    const mean = WEEKDAY_MEANS[dayOfWeek]! * YEARLY_GROWTH ** ((i - days) / 365)
+    const booked = dayOfWeek === 0 ? 0 : Math.max(0, Math.round(mean + (options.noisy ? next() * 3.4 * Math.sqrt(mean) : 0)))
+    return { date, dayOfWeek, openMinutes: dayOfWeek === 0 ? 0 : 480, holiday: null, booked, noShows: Math.floor(booked / 10) }
+  })
+}
+
+type DateRange = { gte: Date; lt: Date }
+
+// Clinic hours, appointments, enquiries and stored models for one clinic
+function forecastingDb(history: DemandObservation[]) {
+  let sequence = 0
+  const models: DemandForecastModel[] = []
+  const appointments = history.flatMap(day => [
+    ...Array.from({ length: day.booked }, (_, i) => ({
+      appointmentDate: atSingaporeTime(day.date, '10:00'),
+      status: i < day.noShows ? 'NO_SHOW' : 'COMPLETED',
+    })),
+    ...(day.booked > 0 ? [{ appointmentDate: atSingaporeTime(day.date, '11:00'), status: 'CANCELLED' }] : []),
+  ])
+  const within = (value: Date, range: DateRange) => value >= range.gte && value < range.lt
+
+  const db = asPrismaClient({
+    operatingHours: {
+      findMany: async () =>
+        DAYS.map(dayOfWeek => ({
+          clinicId: 'clinic-1',
+          dayOfWeek,
+          isOpen: dayOfWeek !== 'SUNDAY',
+          is24Hours: false,
+          openTime: '09:00',
+          closeTime: '18:00',
+          breakStart: '13:00',
+          breakEnd: '14:00',
+        })),
+    },
+    clinic: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) => (where.id.in.includes('clinic-1') ? [{ id: 'clinic-1', operatingHours: null }] : []),
+    },
+    publicHoliday: { findMany: async () => [] },
+    clinicHoursException: { findMany: async () => [] },
+    appointment: {
+      findMany: async ({ where }: { where: { clinicId: string; appointmentDate: DateRange } }) =>
+        where.clinicId === 'clinic-1' ? appointments.filter(row => within(row.appointmentDate, where.appointmentDate)) : [],
+    },
+    enquiry: {
+      findMany: async ({ where }: { where: { clinicId: string; createdAt: DateRange } }) =>
+        where.clinicId === 'clinic-1' ? [{ createdAt: new Date('2026-10-17T20:00:00.000Z') }].filter(row => within(row.createdAt, where.createdAt)) : [],
+    },
+    demandForecastModel: {
+      findFirst: async ({ where }: { where: Where<DemandForecastModel> }) =>
+        models.filter(row => matches(row, where)).sort((a, b) => b.version - a.version)[0] ?? null,
+      findMany: async ({ where }: { where: Where<DemandForecastModel> }) => models.filter(row => matches(row, where)).sort((a, b) => b.version - a.version),
+      updateMany: async ({ where, data }: { where: Where<DemandForecastModel>; data: Partial<DemandForecastModel> }) => {
+        const hit = models.filter(row => matches(row, where))
+        hit.forEach(row => Object.assign(row, data))
+        return { count: hit.length }
+      },
+      create: async ({ data }: { data: Omit<DemandForecastModel, 'id' | 'isActive' | 'createdAt'> }) => {
+        const row = { id: `model-${++sequence}`, isActive: true, createdAt: NOW, ...data }
+        models.push(row)
+        return row
+      },
+    },
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(db),
+  })
+  return { db, models }
+}
+
+describe('Seasonal Poisson demand model', () => {
+  it('recovers weekday seasonality and trend, and gives the same model for the same history', () => {
+    const history = syntheticHistory('2026-10-18', 420)
+    const model = trainDemandModel(history)
+
+    expect(model.trainingDays).toBe(360) // Sundays are closed
+    expect(model.weeklyIndices[1]! / model.weeklyIndices[2]!).toBeCloseTo(1.2, 1)
+    expect(model.weeklyIndices[6]! / model.weeklyIndices[2]!).toBeCloseTo(0.7, 1)
+    expect(seasonalProfile(model).yearly).toBeCloseTo(YEARLY_GROWTH, 1)
+    expect(JSON.stringify(trainDemandModel(history))).toBe(JSON.stringify(model))
+
+    const monday = predictDemand(model, { date: '2026-10-19', dayOfWeek: 1, openMinutes: 480, holiday: null })
+    expect(monday.expected).toBeGreaterThan(23)
+    expect(monday.expected).toBeLessThan(26)
+    expect(monday.lower).toBeLessThan(monday.expected)
+    expect(monday.upper).toBeGreaterThan(monday.expected)
+    expect(predictDemand(model, { date: '2026-10-25', dayOfWeek: 0, openMinutes: 0, holiday: null })).toMatchObject({ expected: 0, closed: true })
+  })
+
+  it('fits Poisson regression coefficients by IRLS', () => {
+    const xs = Array.from({ length: 10 }, (_, i) => i)
+    const fit = fitPoissonRegression(
+      xs.map(x => [1, x]),
+      xs.map(x => Math.round(50 * Math.exp(0.2 * x))),
+      xs.map(() => 0)
+    )
+    expect(fit.coefficients[0]).toBeCloseTo(Math.log(50), 1)
+    expect(fit.coefficients[1]).toBeCloseTo(0.2, 2)
+    expect(fit.dispersion).toBe(1)
+  })
+
+  it('backtests on rolling origins and beats the same-weekday naive forecast', () => {
+    const result = backtestDemandModel(syntheticHistory('2026-10-18', 420, { noisy: true }))
+
+    expect(result.folds).toHaveLength(4)
+    expect(result.folds[3]).toMatchObject({ testTo: '2026-10-17', days: 24 })
+    expect(result.skill).toBeGreaterThan(0)
+    expect(result.mape).toBeLessThan(0.25)
+    expect(result.coverage).toBeGreaterThan(0.7)
+  })
+
+  it('needs eight weeks of open days to train', () => {
+    expect(() => trainDemandModel(syntheticHistory('2026-10-18', 60))).toThrow(DemandModelError)
+    expect(backtestDemandModel(syntheticHistory('2026-10-18', 60)).folds).toEqual([])
+  })
+})
+
+describe('Demand forecast service', () => {
+  it('aggregates bookings, no-shows, cancellations and enquiries by Singapore date', async () => {
+    const { db } = forecastingDb(syntheticHistory('2026-10-18', 3))
+    const rows = await loadDailyDemand(db, 'clinic-1', '2026-10-17', '2026-10-18')
+
+    expect(rows).toEqual([
+      { date: '2026-10-17', dayOfWeek: 6, openMinutes: 480, holiday: null, booked: 14, completed: 13, noShows: 1, cancellations: 1, enquiries: 0 },
+      // 20:00 UTC on the 17th is 04:00 on the 18th in Singapore
+      { date: '2026-10-18', dayOfWeek: 0, openMinutes: 0, holiday: null, booked: 0, completed: 0, noShows: 0, cancellations: 0, enquiries: 1 },
+    ])
+    expect(await loadDailyDemand(db, 'clinic-2', '2026-10-17', '2026-10-18')).toBeNull()
+  })
+
+  it('stores each training run as a new active version', async () => {
+    const { db, models } = forecastingDb(syntheticHistory('2026-10-18', 200, { noisy: true }))
+    const service = new DemandForecastService(db, { now: () => NOW })
+
+    const first = await service.train('clinic-1', 'admin-1')
+    const second = await service.train('clinic-1')
+
+    expect(first).toMatchObject({ version: 1, algorithm: 'seasonal-poisson', trainedTo: '2026-10-17', trainedBy: 'admin-1' })
+    expect(first.backtest.folds).toHaveLength(4)
+    expect(first.noShowRate).toBeGreaterThan(0.05)
+    expect(models.map(row => [row.version, row.isActive])).toEqual([
+      [1, false],
+      [2, true],
+    ])
+    expect((await service.versions('clinic-1')).map(model => model.version)).toEqual([2, 1])
+    expect((await service.activeModel('clinic-1'))!.id).toBe(second.id)
+  })
+
+  it('retrains stale models before forecasting and refuses clinics without enough history', async () => {
+    const { db, models } = forecastingDb(syntheticHistory('2026-10-18', 200, { noisy: true }))
+    let now = NOW
+    const service = new DemandForecastService(db, { now: () => now })
+
+    await service.forecast('clinic-1', { days: 7 })
+    await service.forecast('clinic-1', { days: 7 })
+    expect(models).toHaveLength(1)
+
+    now = new Date(NOW.getTime() + 8 * 24 * 60 * 60 * 1000)
+    expect((await service.forecast('clinic-1', { days: 7 })).model.version).toBe(2)
+
+    await expect(service.forecast('clinic-2')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    const empty = new DemandForecastService(forecastingDb([]).db, { now: () => NOW })
+    await expect(empty.forecast('clinic-1')).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' })
+  })
+
+  it('staffs each shift for the busy end of the forecast after expected no-shows', async () => {
+    const { db } = forecastingDb(syntheticHistory('2026-10-18', 200))
+    const service = new DemandForecastService(db, { now: () => NOW })
+    const forecast = await service.forecast('clinic-1', { days: 7, confidenceLevel: 0.9 })
+    const plan = service.staffingPlan(forecast, { consultationsPerDoctorHour: 2, targetUtilisation: 1 })
+
+    const [monday, , , , , saturday, sunday] = plan
+    expect(monday).toMatchObject({ date: '2026-10-19', closed: false })
+    expect(monday!.expectedAttendance).toBeCloseTo(monday!.expectedAppointments * (1 - forecast.model.noShowRate), 6)
+    expect(monday!.plannedAttendance).toBeGreaterThan(monday!.expectedAttendance)
+    // 09:00-13:00 and 14:00-18:00 are both fully open, so demand splits evenly
+    const perShift = Math.ceil(monday!.plannedAttendance / 2 / 8)
+    expect(monday!.shifts.map(shift => shift.doctors)).toEqual([perShift, perShift])
+    expect(monday!.consultationCapacity).toBe(2 * perShift * 8)
+    expect(saturday!.peakDoctors).toBeLessThanOrEqual(monday!.peakDoctors)
+    expect(sunday).toMatchObject({ closed: true, peakDoctors: 0, consultationCapacity: 0 })
+    expect(sunday!.shifts).toEqual([
+      { clinicId: 'clinic-1', date: '2026-10-25', shiftId: 'AM', doctors: 0 },
+      { clinicId: 'clinic-1', date: '2026-10-25', shiftId: 'PM', doctors: 0 },
+    ])
+  })
+  it('spreads each day over the open shift hours for hourly arrivals and capacity', async () => {
+    const { db } = forecastingDb(syntheticHistory('2026-10-18', 200))
+    const service = new DemandForecastService(db, { now: () => NOW })
+    const forecast = await service.forecast('clinic-1', { days: 7 })
+    const options = { consultationsPerDoctorHour: 2, targetUtilisation: 1 }
+    const [monday] = service.staffingPlan(forecast, options)
+    const hours = service.hourlyLoad(forecast, options)
+
+    expect(hours).toHaveLength(7 * 24)
+    const mondayHours = hours.filter(load => load.date === '2026-10-19')
+    const arrivals = mondayHours.reduce((sum, load) => sum + load.expectedArrivals, 0)
+    expect(arrivals).toBeCloseTo(monday!.expectedAttendance, 6)
+    expect(mondayHours[9]).toMatchObject({ hour: 9, doctors: monday!.shifts[0]!.doctors, capacity: 2 * monday!.shifts[0]!.doctors })
+    expect(mondayHours[9]!.expectedArrivals).toBeCloseTo(monday!.expectedAttendance / 8, 6)
+    // Lunch and the hours outside the shifts see neither patients nor doctors
+    expect(mondayHours[13]).toMatchObject({ expectedArrivals: 0, doctors: 0, capacity: 0 })
+    expect(mondayHours[20]).toMatchObject({ expectedArrivals: 0, doctors: 0, capacity: 0 })
+    expect(hours.filter(load => load.date === '2026-10-25').every(load => load.capacity === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Eligibility Back-testing Tests
+ * Validates outcome flips, segment breakdowns, rule accuracy metrics and the diff export
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ageBand, backtestRules, toDiffRows, type BacktestCase } from '@/lib/eligibility/backtest'
+import { DEFAULT_HEALTHIER_SG_RULES } from '@/lib/eligibility/default-rules'
+import type { EligibilityRuleDefinition } from '@/lib/eligibility/rule-engine'
+
+const ASSESSED_AT = new Date('2026-05-04T02:00:00.000Z')
+
+function applicant(id: string, age: number, overrides: Partial<BacktestCase> = {}, facts = {}): BacktestCase {
+  return {
+    assessmentId: id,
+    assessedAt: ASSESSED_AT,
+    facts: {
+      age,
+      citizenshipStatus: 'CITIZEN',
+      hasChronicConditions: false,
+      consentToScreening: true,
+      commitmentLevel: 'HIGH',
+      ...facts,
+    },
+    clinicId: 'clinic-tampines',
+    recordedResult: age >= 40 ? 'ELIGIBLE' : 'NOT_ELIGIBLE',
+    actualEligible: age >= 40,
+    ...overrides,
+  }
+}
+
+const CURRENT = { rules: DEFAULT_HEALTHIER_SG_RULES, passingScore: 70 }
+
+// Proposed policy: entry age lowered to 35
+const LOWER_AGE: EligibilityRuleDefinition[] = DEFAULT_HEALTHIER_SG_RULES.map(rule =>
+  rule.ruleKey === 'age-40-plus'
+    ? { ...rule, id: null, version: 2, conditions: [{ fact: 'age', op: 'gte', value: 35, label: 'Age' }] }
+    : rule
+)
+
+describe('Eligibility back-testing', () => {
+  it('counts applicants who would flip and breaks them down by segment', () => {
+    const cases = [
+      applicant('a', 36),
+      applicant('b', 38, { clinicId: 'clinic-bedok' }, { citizenshipStatus: 'PR' }),
+      applicant('c', 30),
+      applicant('d', 45),
+      applicant('e', 37, {}, { citizenshipStatus: 'FOREIGNER' }),
+    ]
+
+    const report = backtestRules(cases, CURRENT, { rules: LOWER_AGE, passingScore: 70 })
+
+    expect(report.summary).toEqual({ total: 5, flipped: 2, newlyEligible: 2, newlyIneligible: 0, otherChanges: 0 })
+    expect(report.byAgeBand).toEqual([
+      { segment: 'Under 40', total: 4, flipped: 2, newlyEligible: 2, newlyIneligible: 0, otherChanges: 0 },
+      { segment: '40-49', total: 1, flipped: 0, newlyEligible: 0, newlyIneligible: 0, otherChanges: 0 },
+    ])
+    expect(report.byCitizenship.find(s => s.segment === 'PR')).toMatchObject({ total: 1, flipped: 1 })
+    expect(report.byClinic.map(s => [s.segment, s.flipped])).toEqual([
+      ['clinic-tampines', 1],
+      ['clinic-bedok', 1],
+    ])
+    expect(report.diffs.map(d => d.assessmentId)).toEqual(['a', 'b'])
+    expect(report.diffs[0]!.changedRules).toEqual([
+      { ruleKey: 'age-40-plus', baseline: 'FAIL', candidate: 'PASS', explanation: 'Meets age requirement' },
+    ])
+  })
+
+  it('measures rule accuracy against known outcomes', () => {
+    const cases = [
+      applicant('eligible', 50),
+      applicant('under-age', 30),
+      // Appeal approved for a 38-year-old: the current age rule wrongly excluded them
+      applicant('appealed', 38, { actualEligible: true }),
+      applicant('unknown', 60, { actualEligible: null }),
+    ]
+
+    const report = backtestRules(cases, CURRENT, { rules: LOWER_AGE, passingScore: 70 })
+    const age = (ruleSet: string) => report.ruleAccuracy.find(r => r.ruleKey === 'age-40-plus' && r.ruleSet === ruleSet)
+
+    expect(report.outcomeAccuracy).toEqual({ labelled: 3, baseline: 0.6667, candidate: 1 })
+    expect(age('BASELINE')).toMatchObject({
+      evaluated: 3,
+      falseNegatives: 1,
+      successRate: 0.6667,
+      falsePositiveRate: 0,
+      falseNegativeRate: 0.5,
+    })
+    expect(age('CANDIDATE')).toMatchObject({ ruleId: null, version: 2, successRate: 1, falseNegativeRate: 0 })
+  })
+
+  it('caps the diff list but keeps the counts, and exports rows', () => {
+    const cases = [applicant('a', 36), applicant('b', 37), applicant('c', 38)]
+    const report = backtestRules(cases, CURRENT, { rules: LOWER_AGE, passingScore: 70 }, { maxDiffs: 2 })
+
+    expect(report.summary.flipped).toBe(3)
+    expect(report).toMatchObject({ diffsTruncated: true })
+
+    const { headers, rows } = toDiffRows(report)
+    expect(rows).toHaveLength(2)
+    expect(Object.fromEntries(headers.map((header, i) => [header, rows[0]![i]]))).toMatchObject({
+      'Assessment ID': 'a',
+      'Age Band': 'Under 40',
+      'Current Result': 'NOT_ELIGIBLE',
+      'Proposed Result': 'ELIGIBLE',
+      'Changed Rules': 'age-40-plus: FAIL -> PASS',
+    })
+  })
+
+  it('bands ages', () => {
+    expect([undefined, 39, 40, 59, 69, 70].map(ageBand)).toEqual(['Unknown', 'Under 40', '40-49', '50-59', '60-69', '70+'])
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Eligibility Re-evaluation Tests
+ * Validates due-rule sweeps, profile-triggered re-checks, audit logging and notifications
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyProfileFacts, EligibilityReevaluationJob, nextEvaluationDate } from '@/lib/eligibility/reevaluation'
+import { asPrismaClient } from './prisma-fake'
+
+const NOW = new Date('2026-05-04T02:00:00.000Z')
+
+const DUE_AGE_RULE = {
+  id: 'rule-age',
+  programId: 'program-1',
+  ruleKey: 'age',
+  version: 1,
+  ruleName: 'Age Requirement',
+  ruleType: 'AGE_BASED',
+  ruleDescription: null,
+  evaluationOrder: 1,
+  ruleLogic: { weight: 100 },
+  conditions: [{ fact: 'age', op: 'gte', value: 40 }],
+  demographicRules: [],
+  medicalRules: [],
+  geographicRules: [],
+  socioeconomicRules: [],
+  behavioralRules: [],
+  exceptions: [{ when: { fact: 'hasChronicConditions', op: 'eq', value: true }, result: 'PASS', reason: 'Chronic conditions' }],
+  isActive: true,
+  isDynamic: true,
+  recalculationFrequency: 'MONTHLY',
+  lastEvaluated: null as Date | null,
+  nextEvaluation: new Date('2026-05-01T00:00:00.000Z') as Date | null,
+  effectiveFrom: new Date('2025-01-01T00:00:00.000Z'),
+  effectiveTo: null,
+}
+
+function answers(facts: Record<string, unknown>) {
+  return Object.entries(facts).map(([questionId, value]) => ({ questionId, value }))
+}
+
+interface FakeAssessment {
+  id: string
+  userId: string
+  questionnaireResponses: unknown
+  myInfoData: unknown
+  integrationData: Record<string, unknown>
+  eligibilityStatus: string
+  assessmentDate: Date
+}
+
+// In-memory stand-in for the tables the job reads and writes
+function clinicDb() {
+  const rule = { ...DUE_AGE_RULE }
+  const enrollments = [
+    { id: 'enr-1', userId: 'steady', clinicId: 'clinic-1', status: 'ACTIVE', enrollmentData: {} as Record<string, unknown>, enrollmentDate: new Date('2025-01-01') },
+    { id: 'enr-2', userId: 'recovered', clinicId: 'clinic-1', status: 'ACTIVE', enrollmentData: {} as Record<string, unknown>, enrollmentDate: new Date('2025-01-01') },
+  ]
+  const assessments: FakeAssessment[] = [
+    { id: 'a-steady', userId: 'steady', questionnaireResponses: answers({ age: 55 }), myInfoData: null, integrationData: {}, eligibilityStatus: 'ELIGIBLE', assessmentDate: new Date('2025-01-01') },
+    { id: 'a-recovered', userId: 'recovered', questionnaireResponses: answers({ age: 36, hasChronicConditions: true }), myInfoData: null, integrationData: {}, eligibilityStatus: 'ELIGIBLE', assessmentDate: new Date('2025-01-01') },
+    { id: 'a-birthday', userId: 'birthday', questionnaireResponses: answers({}), myInfoData: { dateOfBirth: '1986-05-01' }, integrationData: {}, eligibilityStatus: 'NOT_ELIGIBLE', assessmentDate: new Date('2026-01-10') },
+  ]
+  const healthProfiles = [{ userId: 'recovered', chronicConditions: [] as string[], updatedAt: new Date('2026-04-01') }]
+  const written = { evaluations: [] as unknown[], audits: [] as Record<string, unknown>[], notifications: [] as Record<string, unknown>[] }
+
+  const latestPerUser = () =>
+    [...new Map([...assessments].sort((a, b) => b.assessmentDate.getTime() - a.assessmentDate.getTime()).reverse().map(a => [a.userId, a])).values()]
+      .sort((a, b) => a.userId.localeCompare(b.userId))
+
+  const db = asPrismaClient({
+    healthierSGProgram: { findUnique: async () => ({ id: 'program-1', eligibilityCriteria: { passingScore: 70 } }) },
+    programEligibilityRule: {
+      findMany: async ({ where }: { where: { isDynamic?: boolean; effectiveFrom: { lte: Date } } }) =>
+        where.isDynamic && rule.nextEvaluation && rule.nextEvaluation > where.effectiveFrom.lte ? [] : [rule],
+      update: async ({ data }: { data: Partial<typeof rule> }) => Object.assign(rule, data),
+    },
+    programEnrollment: {
+      findMany: async ({ where }: { where: { status?: unknown; userId?: { in: string[] }; id?: { gt: string } } }) =>
+        where.userId
+          ? enrollments.filter(e => where.userId!.in.includes(e.userId))
+          : enrollments.filter(e => !where.id || e.id > where.id.gt),
+      update: async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(enrollments.find(e => e.id === where.id)!, data),
+    },
+    eligibilityAssessment: {
+      findMany: async ({ where }: { where: { userId?: { in?: string[]; gt?: string } } }) =>
+        latestPerUser().filter(a =>
+          where.userId?.in ? where.userId.in.includes(a.userId) : !where.userId?.gt || a.userId > where.userId.gt
+        ),
+      update: async ({ where, data }: { where: { id: string }; data: object }) =>
+        Object.assign(assessments.find(a => a.id === where.id)!, data),
+      create: async ({ data }: { data: Omit<FakeAssessment, 'id'> }) => {
+        const row = { ...data, id: `a-${assessments.length + 1}` }
+        assessments.push(row)
+        return row
+      },
+    },
+    userProfile: { findMany: async () => [] },
+    healthProfile: {
+      findMany: async ({ where }: { where: { userId: { in: string[] } } }) => healthProfiles.filter(p => where.userId.in.includes(p.userId)),
+    },
+    eligibilityEvaluation: {
+      createMany: async ({ data }: { data: unknown[] }) => {
+        written.evaluations.push(...data)
+        return { count: data.length }
+      },
+    },
+    healthierSGAuditLog: { create: async ({ data }: { data: Record<string, unknown> }) => written.audits.push(data) },
+    contactAgentProfile: {
+      findMany: async ({ where }: { where: { clinicIds: { has: string } } }) =>
+        where.clinicIds.has === 'clinic-1' ? [{ userId: 'clinic-staff' }] : [],
+    },
+    contactNotification: { create: async ({ data }: { data: Record<string, unknown> }) => written.notifications.push(data) },
+  })
+
+  return { db, rule, enrollments, assessments, healthProfiles, written }
+}
+
+describe('Eligibility re-evaluation', () => {
+  it('sweeps due dynamic rules, records changes and notifies patients and clinics', async () => {
+    const store = clinicDb()
+    const result = await new EligibilityReevaluationJob(store.db).run({ now: NOW })
+
+    expect(result).toMatchObject({
+      dueRules: 1,
+      sweepComplete: true,
+      evaluated: 3,
+      changed: 2,
+      newlyEligible: 1,
+      newlyIneligible: 1,
+      notifications: 3,
+      failed: 0,
+    })
+
+    // Enrolled under 40 on chronic conditions that the health profile no longer lists
+    expect(store.enrollments[1]!.enrollmentData.eligibility).toMatchObject({ result: 'NOT_ELIGIBLE', previousResult: 'ELIGIBLE' })
+    expect(store.enrollments[0]!.enrollmentData.eligibility).toMatchObject({ result: 'ELIGIBLE' })
+    expect(store.enrollments[0]!.enrollmentData.eligibility).not.toHaveProperty('previousResult')
+
+    // Turned 40 since their assessment: a fresh assessment they can register with
+    const reassessment = store.assessments[3]!
+    expect(reassessment).toMatchObject({ userId: 'birthday', eligibilityStatus: 'ELIGIBLE' })
+    expect(store.written.notifications.map(n => [n.userId, n.title])).toEqual([
+      ['recovered', 'Your Healthier SG eligibility has changed'],
+      ['clinic-staff', 'Healthier SG eligibility changed: ELIGIBLE → NOT_ELIGIBLE'],
+      ['birthday', 'You are now eligible for Healthier SG'],
+    ])
+    expect(store.written.audits.map(a => [a.entityId, a.previousValues, (a.newValues as { result: string }).result])).toEqual([
+      ['enr-2', { result: 'ELIGIBLE' }, 'NOT_ELIGIBLE'],
+      [reassessment.id, { result: 'NOT_ELIGIBLE' }, 'ELIGIBLE'],
+    ])
+    expect(store.written.evaluations).toHaveLength(2)
+
+    expect(store.rule).toMatchObject({ lastEvaluated: NOW, nextEvaluation: new Date('2026-06-04T02:00:00.000Z') })
+  })
+
+  it('between sweeps re-checks only people whose profile changed', async () => {
+    const store = clinicDb()
+    await new EligibilityReevaluationJob(store.db).run({ now: NOW })
+
+    store.healthProfiles[0]!.chronicConditions = ['Diabetes']
+    store.healthProfiles[0]!.updatedAt = new Date('2026-05-05T00:00:00.000Z')
+    const result = await new EligibilityReevaluationJob(store.db).run({ now: new Date('2026-05-06T00:00:00.000Z') })
+
+    expect(result).toMatchObject({ dueRules: 0, evaluated: 1, changed: 1, newlyEligible: 1 })
+    expect(store.enrollments[1]!.enrollmentData.eligibility).toMatchObject({ result: 'ELIGIBLE', previousResult: 'NOT_ELIGIBLE' })
+  })
+
+  it('leaves the rule due when the budget runs out', async () => {
+    const store = clinicDb()
+
+    const first = await new EligibilityReevaluationJob(store.db).run({ now: NOW, maxSubjects: 2 })
+    expect(first).toMatchObject({ evaluated: 2, sweepComplete: false })
+    expect(store.rule.lastEvaluated).toBeNull()
+
+    const second = await new EligibilityReevaluationJob(store.db).run({ now: NOW, maxSubjects: 2 })
+    expect(second).toMatchObject({ evaluated: 1, sweepComplete: true })
+    expect(store.rule.lastEvaluated).toEqual(NOW)
+  })
+
+  it('schedules by frequency and overlays profile facts', () => {
+    expect(nextEvaluationDate('QUARTERLY', NOW)).toEqual(new Date('2026-08-04T02:00:00.000Z'))
+    expect(nextEvaluationDate('EVENT_TRIGGERED', NOW)).toBeNull()
+    expect(
+      applyProfileFacts({ age: 30, hasChronicConditions: false }, { dateOfBirth: new Date('1980-06-01'), chronicConditions: ['Asthma'] }, NOW)
+    ).toEqual({ age: 45, hasChronicConditions: true, chronicConditions: ['Asthma'] })
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Eligibility Rule Engine Tests
+ * Validates JSON rule interpretation, per-rule explanations, exceptions and rule version selection
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { ProgramEligibilityRule } from '@prisma/client'
+import { DEFAULT_HEALTHIER_SG_RULES } from '@/lib/eligibility/default-rules'
+import {
+  buildEligibilityFacts,
+  evaluateCondition,
+  evaluateRules,
+  toRuleDefinition,
+  type EligibilityRuleDefinition,
+} from '@/lib/eligibility/rule-engine'
+import { EligibilityRuleError, EligibilityRuleService } from '@/lib/eligibility/service'
+import { asPrismaClient } from './prisma-fake'
+
+const ELIGIBLE_APPLICANT = {
+  age: 52,
+  citizenshipStatus: 'CITIZEN',
+  hasChronicConditions: false,
+  consentToScreening: true,
+  commitmentLevel: 'HIGH',
+}
+
+function storedRule(overrides: Partial<ProgramEligibilityRule>): ProgramEligibilityRule {
+  return {
+    id: `rule-${overrides.ruleKey}-${overrides.version ?? 1}`,
+    programId: 'program-1',
+    ruleName: 'Age Requirement',
+    ruleType: 'AGE_BASED',
+    ruleLogic: { weight: 100 },
+    conditions: [{ fact: 'age', op: 'gte', value: 40 }],
+    evaluationOrder: 1,
+    demographicRules: [],
+    medicalRules: [],
+    geographicRules: [],
+    socioeconomicRules: [],
+    behavioralRules: [],
+    isDynamic: false,
+    recalculationFrequency: 'MONTHLY',
+    lastEvaluated: null,
+    nextEvaluation: null,
+    ruleDescription: null,
+    examples: [],
+    exceptions: [],
+    mohRequired: false,
+    legislativeBasis: null,
+    reviewDate: null,
+    isActive: true,
+    successRate: null,
+    falsePositiveRate: null,
+    falseNegativeRate: null,
+    ruleKey: 'age',
+    version: 1,
+    effectiveFrom: new Date('2025-01-01T00:00:00.000Z'),
+    effectiveTo: null,
+    publishedBy: null,
+    changeNotes: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  }
+}
+
+// In-memory stand-in for the program and rule tables
+function ruleStore(rows: ProgramEligibilityRule[]) {
+  const inEffect = (row: ProgramEligibilityRule, at: Date) =>
+    row.effectiveFrom <= at && (row.effectiveTo === null || row.effectiveTo > at)
+
+  const programEligibilityRule = {
+    findMany: async ({ where }: { where: { effectiveFrom?: { lte: Date } } }) =>
+      rows
+        .filter(row => !where.effectiveFrom || inEffect(row, where.effectiveFrom.lte))
+        .sort((a, b) => a.ruleKey.localeCompare(b.ruleKey) || b.version - a.version),
+    findFirst: async ({ where }: { where: { ruleKey: string } }) =>
+      rows.filter(row => row.ruleKey === where.ruleKey).sort((a, b) => b.version - a.version)[0] ?? null,
+    update: async ({ where, data }: { where: { id: string }; data: Partial<ProgramEligibilityRule> }) =>
+      Object.assign(rows.find(row => row.id === where.id)!, data),
+    create: async ({ data }: { data: Partial<ProgramEligibilityRule> }) => {
+      const row = storedRule(JSON.parse(JSON.stringify(data), (key, value) => (key === 'effectiveFrom' ? new Date(value) : value)))
+      rows.push(row)
+      return row
+    },
+  }
+
+  return asPrismaClient({
+    healthierSGProgram: { findUnique: async () => ({ id: 'program-1', eligibilityCriteria: { passingScore: 70 } }) },
+    programEligibilityRule,
+    $transaction: (ops: Promise<unknown>[]) => Promise.all(ops),
+  })
+}
+
+describe('Eligibility rule engine', () => {
+  it('explains each rule in evaluation order', () => {
+    const outcome = evaluateRules(DEFAULT_HEALTHIER_SG_RULES, ELIGIBLE_APPLICANT)
+
+    expect(outcome).toMatchObject({ result: 'ELIGIBLE', isEligible: true, score: 80 })
+    expect(outcome.rules.map(r => [r.ruleKey, r.outcome])).toEqual([
+      ['age-40-plus', 'PASS'],
+      ['citizenship-status', 'PASS'],
+      ['chronic-conditions', 'FAIL'],
+      ['consent-to-screening', 'PASS'],
+      ['program-commitment', 'PASS'],
+    ])
+    expect(outcome.rules[2]).toMatchObject({ required: false, explanation: 'No chronic conditions reported' })
+  })
+
+  it('rejects on a failed required rule and reports the failing check', () => {
+    const outcome = evaluateRules(DEFAULT_HEALTHIER_SG_RULES, { ...ELIGIBLE_APPLICANT, citizenshipStatus: 'FOREIGNER' })
+
+    expect(outcome).toMatchObject({ result: 'NOT_ELIGIBLE', summary: 'Does not meet: Citizenship Status' })
+    expect(outcome.rules[1]!.checks[0]).toMatchObject({
+      fact: 'citizenshipStatus',
+      actual: 'FOREIGNER',
+      passed: false,
+      description: 'Citizenship status must be one of CITIZEN, PR (was FOREIGNER)',
+    })
+  })
+
+  it('applies exceptions before conditions', () => {
+    const outcome = evaluateRules(DEFAULT_HEALTHIER_SG_RULES, {
+      ...ELIGIBLE_APPLICANT,
+      age: 35,
+      hasChronicConditions: true,
+    })
+
+    expect(outcome.rules[0]).toMatchObject({
+      outcome: 'PASS',
+      exceptionApplied: 'Under 40 with chronic conditions - eligible for priority enrollment',
+    })
+    expect(outcome).toMatchObject({ result: 'ELIGIBLE', score: 100 })
+  })
+
+  it('sends missing facts to review when the rule asks for it, and can stop early', () => {
+    const rules: EligibilityRuleDefinition[] = [
+      { ...DEFAULT_HEALTHIER_SG_RULES[0]!, exceptions: [], logic: { weight: 25, onMissingFacts: 'REVIEW' } },
+      { ...DEFAULT_HEALTHIER_SG_RULES[1]!, logic: { weight: 30, stopOnFail: true } },
+      DEFAULT_HEALTHIER_SG_RULES[3]!,
+    ]
+
+    const review = evaluateRules(rules, { citizenshipStatus: 'PR', consentToScreening: true })
+    expect(review).toMatchObject({ result: 'REQUIRES_REVIEW', summary: 'Needs review: Age Requirement' })
+    expect(review.rules[0]).toMatchObject({ outcome: 'REVIEW', missingFacts: ['Age'] })
+
+    const stopped = evaluateRules(rules, { age: 45, citizenshipStatus: 'FOREIGNER', consentToScreening: true })
+    expect(stopped.rules[2]).toMatchObject({ outcome: 'SKIPPED', explanation: 'Not evaluated because "Citizenship Status" failed' })
+  })
+
+  it('evaluates nested conditions with three-valued logic', () => {
+    const condition = {
+      any: [
+        { fact: 'age', op: 'between' as const, value: [40, 120] },
+        { all: [{ fact: 'conditions', op: 'contains' as const, value: 'Diabetes' }, { not: { fact: 'smoker', op: 'eq' as const, value: true } }] },
+      ],
+    }
+
+    expect(evaluateCondition(condition, { age: 30, conditions: ['Diabetes'], smoker: false }).passed).toBe(true)
+    expect(evaluateCondition(condition, { age: 30, conditions: ['Diabetes'] }).passed).toBeNull()
+    expect(evaluateCondition(condition, { age: 30, conditions: [] }).passed).toBeNull()
+    expect(evaluateCondition(condition, { age: 30, conditions: ['Asthma'], smoker: true }).passed).toBe(false)
+  })
+
+  it('prefers MyInfo data over questionnaire answers', () => {
+    const facts = buildEligibilityFacts(
+      [
+        { questionId: 'age', value: '60' },
+        { questionId: 'citizenshipStatus', value: 'CITIZEN' },
+      ],
+      { dateOfBirth: '1986-03-15', residentialStatus: 'PR', address: { postalCode: '520123' } },
+      new Date('2026-03-14T00:00:00.000Z')
+    )
+
+    expect(facts).toMatchObject({ age: 39, citizenshipStatus: 'PR', postalCode: '520123', myInfoVerified: true })
+  })
+
+  it('rejects stored rules with malformed logic', () => {
+    expect(() => toRuleDefinition(storedRule({ conditions: [{ fact: 'age', op: 'older', value: 40 }] }))).toThrow(
+      /unknown operator older/
+    )
+  })
+})
+
+describe('Eligibility rule versions', () => {
+  it('evaluates with the version in effect and publishes the next one', async () => {
+    const rows = [storedRule({ ruleKey: 'age', version: 1 })]
+    const service = new EligibilityRuleService(ruleStore(rows))
+
+    await service.publishRuleVersion({
+      ruleKey: 'age',
+      changes: { conditions: [{ fact: 'age', op: 'gte', value: 35 }] },
+      effectiveFrom: new Date('2026-07-01T00:00:00.000Z'),
+      publishedBy: 'admin-1',
+      changeNotes: 'MOH lowers entry age',
+    })
+
+    expect(rows.map(r => [r.version, r.effectiveTo?.toISOString() ?? null])).toEqual([
+      [1, '2026-07-01T00:00:00.000Z'],
+      [2, null],
+    ])
+    expect(rows[1]).toMatchObject({ ruleName: 'Age Requirement', publishedBy: 'admin-1', ruleLogic: { weight: 100 } })
+
+    const before = await service.evaluate({ age: 37 }, { now: new Date('2026-06-30T00:00:00.000Z'), record: false })
+    const after = await service.evaluate({ age: 37 }, { now: new Date('2026-07-02T00:00:00.000Z'), record: false })
+    expect(before).toMatchObject({ result: 'NOT_ELIGIBLE', ruleVersions: { age: 1 }, source: 'DATABASE' })
+    expect(after).toMatchObject({ result: 'ELIGIBLE', ruleVersions: { age: 2 } })
+  })
+
+  it('refuses invalid or out-of-order versions', async () => {
+    const service = new EligibilityRuleService(ruleStore([storedRule({ ruleKey: 'age' })]))
+
+    await expect(
+      service.publishRuleVersion({ ruleKey: 'age', changes: { conditions: [{ fact: 'age', op: 'in', value: 40 }] }, publishedBy: 'a' })
+    ).rejects.toThrow('"in" needs a list value')
+    await expect(
+      service.publishRuleVersion({ ruleKey: 'age', changes: {}, effectiveFrom: new Date('2024-12-01'), publishedBy: 'a' })
+    ).rejects.toBeInstanceOf(EligibilityRuleError)
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Enquiry Routing Tests
+ * Validates rule matching, agent eligibility checks, scoring and decision explanations
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isOnShift,
+  routeEnquiry,
+  type RoutingAgent,
+  type RoutingEnquiry,
+  type RoutingRule,
+} from '@/lib/enquiry-routing/engine'
+
+// Monday 6 Jan 2025, 10:00 in Singapore
+const MONDAY_10AM = new Date('2025-01-06T02:00:00.000Z')
+
+const ENQUIRY: RoutingEnquiry = {
+  id: 'enq-1',
+  categoryId: 'cat-hsg',
+  categoryName: 'healthier_sg',
+  priority: 'NORMAL',
+  clinicId: 'clinic-tampines',
+  language: 'zh',
+  tags: [],
+}
+
+function agent(userId: string, overrides: Partial<RoutingAgent> = {}): RoutingAgent {
+  return {
+    userId,
+    name: userId,
+    teams: ['GENERAL_SUPPORT'],
+    languages: ['en'],
+    clinicIds: [],
+    categoryExpertise: [],
+    skills: [],
+    availability: 'AVAILABLE',
+    maxOpenEnquiries: 10,
+    shifts: [],
+    openEnquiries: 0,
+    lastAssignedAt: null,
+    ...overrides,
+  }
+}
+
+function rule(id: string, overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id,
+    name: id,
+    priority: 0,
+    categoryId: null,
+    criteria: {},
+    targetType: 'POOL',
+    targetId: null,
+    routingMethod: 'SKILL_BASED',
+    skillRequirements: [],
+    checkAvailability: true,
+    maxWorkload: null,
+    businessHoursOnly: false,
+    fallbackEnabled: false,
+    fallbackTarget: null,
+    ...overrides,
+  }
+}
+
+describe('Enquiry routing', () => {
+  it('prefers the agent matching language, clinic and category expertise', () => {
+    const agents = [
+      agent('alice', { openEnquiries: 1 }),
+      agent('bing', { languages: ['en', 'zh'], clinicIds: ['clinic-tampines'], categoryExpertise: ['healthier_sg'], openEnquiries: 4 }),
+    ]
+
+    const decision = routeEnquiry(ENQUIRY, [rule('hsg', { categoryId: 'cat-hsg' })], agents, MONDAY_10AM)
+
+    expect(decision).toMatchObject({ outcome: 'ASSIGNED', agentId: 'bing', ruleId: 'hsg', fallbackUsed: false })
+    expect(decision.factors).toEqual({ language: 1, clinic: 1, load: 0.6, expertise: 1 })
+    expect(decision.summary).toContain('speaks zh')
+  })
+
+  it('records why agents were rejected', () => {
+    const agents = [
+      agent('away', { availability: 'AWAY' }),
+      agent('off-shift', { shifts: [{ day: 'TUE', start: '09:00', end: '18:00' }] }),
+      agent('full', { openEnquiries: 3 }),
+      agent('unskilled'),
+    ]
+    const decision = routeEnquiry(
+      ENQUIRY,
+      [rule('r', { maxWorkload: 3, skillRequirements: ['chas'] })],
+      agents,
+      MONDAY_10AM
+    )
+
+    const rejected = Object.fromEntries(decision.evaluations[0]!.rejected.map(r => [r.agentId, r.reasons]))
+    expect(rejected.away).toEqual(['Agent is away', 'Missing skills: chas'])
+    expect(rejected['off-shift']).toContain('Not on shift')
+    expect(rejected.full).toContain('At capacity (3/3 open)')
+    expect(rejected.unskilled).toEqual(['Missing skills: chas'])
+
+    // Nobody qualifies for the rule, so the default pool picks the least-loaded available agent
+    expect(decision).toMatchObject({ outcome: 'ASSIGNED', agentId: 'unskilled', ruleId: null, ruleName: 'Default pool' })
+  })
+
+  it('skips rules whose criteria do not match and uses the fallback team', () => {
+    const agents = [agent('general'), agent('specialist', { teams: ['HEALTHIER_SG_SPECIALISTS'] })]
+    const rules = [
+      rule('urgent-only', { criteria: { priorities: ['URGENT'] }, targetType: 'AGENT', targetId: 'general' }),
+      rule('missing-agent', {
+        priority: 1,
+        targetType: 'AGENT',
+        targetId: 'on-leave',
+        fallbackEnabled: true,
+        fallbackTarget: 'HEALTHIER_SG_SPECIALISTS',
+      }),
+    ]
+
+    const decision = routeEnquiry(ENQUIRY, rules, agents, MONDAY_10AM)
+
+    expect(decision.evaluations[0]).toMatchObject({ matched: false, reasons: ['Priority NORMAL not routed by this rule'] })
+    expect(decision).toMatchObject({ agentId: 'specialist', ruleName: 'missing-agent (fallback)', fallbackUsed: true })
+  })
+
+  it('rotates round-robin rules to the least recently assigned agent', () => {
+    const agents = [
+      agent('recent', { lastAssignedAt: new Date('2025-01-06T01:00:00.000Z') }),
+      agent('earlier', { lastAssignedAt: new Date('2025-01-05T01:00:00.000Z'), openEnquiries: 5 }),
+    ]
+
+    const decision = routeEnquiry(ENQUIRY, [rule('rr', { routingMethod: 'ROUND_ROBIN' })], agents, MONDAY_10AM)
+    expect(decision.agentId).toBe('earlier')
+  })
+
+  it('reports unrouted enquiries and checks shifts in Singapore time', () => {
+    expect(routeEnquiry(ENQUIRY, [], [], MONDAY_10AM)).toMatchObject({
+      outcome: 'UNROUTED',
+      agentId: null,
+      summary: 'No active agents to route to',
+    })
+
+    const shifts = [{ day: 'MON' as const, start: '09:00', end: '18:00' }]
+    expect(isOnShift({ shifts }, MONDAY_10AM)).toBe(true)
+    expect(isOnShift({ shifts }, new Date('2025-01-06T10:30:00.000Z'))).toBe(false) // 18:30 SGT
+  })
+})
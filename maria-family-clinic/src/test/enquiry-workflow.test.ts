@@ -0,0 +1,153 @@
+/**
+ * Enquiry Workflow Tests
+ * Validates business-hours SLA calculation, timer planning and idempotent timer claiming
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SG_BUSINESS_HOURS, addBusinessMinutes, businessMinutesBetween } from '@/lib/enquiry-workflow/business-hours'
+import {
+  canTransition,
+  isTimerActive,
+  planNextEscalation,
+  planTimers,
+  resolveWorkflow,
+} from '@/lib/enquiry-workflow/definitions'
+import { EnquiryWorkflowService } from '@/lib/enquiry-workflow/service'
+import { asPrismaClient } from './prisma-fake'
+
+const GENERAL = { name: 'general', responseSLAHours: 24, resolutionSLADays: 7 }
+
+// Friday 3 Jan 2025, 17:00 in Singapore
+const FRIDAY_5PM = new Date('2025-01-03T09:00:00.000Z')
+
+describe('Enquiry workflow', () => {
+  it('rolls business hours over evenings, weekends and holidays', () => {
+    // 1h on Friday, 4h on Saturday, then Monday 09:00 + 3h
+    expect(addBusinessMinutes(FRIDAY_5PM, 8 * 60, SG_BUSINESS_HOURS).toISOString()).toBe('2025-01-06T04:00:00.000Z')
+
+    const withHoliday = { ...SG_BUSINESS_HOURS, holidays: ['2025-01-04'] }
+    expect(addBusinessMinutes(FRIDAY_5PM, 2 * 60, withHoliday).toISOString()).toBe('2025-01-06T02:00:00.000Z')
+
+    expect(businessMinutesBetween(FRIDAY_5PM, new Date('2025-01-06T04:00:00.000Z'), SG_BUSINESS_HOURS)).toBe(8 * 60)
+  })
+
+  it('plans timers with dedupe keys that survive re-planning', () => {
+    const workflow = resolveWorkflow(GENERAL)
+    const enquiry = { id: 'enq-1', createdAt: FRIDAY_5PM, stateEnteredAt: FRIDAY_5PM }
+
+    const newTimers = planTimers(workflow, 'NEW', enquiry)
+    expect(newTimers.map(t => t.timerKey)).toEqual(['response-reminder', 'response-sla', 'resolution-sla'])
+    expect(newTimers.find(t => t.timerKey === 'response-sla')?.dueAt.toISOString()).toBe('2025-01-08T02:00:00.000Z') // Wed 10:00
+
+    // Creation-anchored timers keep their key when the status changes
+    const later = new Date('2025-01-06T02:00:00.000Z')
+    const assigned = planTimers(workflow, 'ASSIGNED', { ...enquiry, stateEnteredAt: later })
+    expect(assigned.map(t => t.dedupeKey)).toEqual(newTimers.map(t => t.dedupeKey))
+
+    // Status-anchored timers are keyed by when the status was entered
+    const [reminder] = planTimers(workflow, 'WAITING_CUSTOMER', { ...enquiry, stateEnteredAt: later })
+    expect(reminder?.dedupeKey).toBe('enq-1:WAITING_CUSTOMER@2025-01-06T02:00:00.000Z:customer-reminder')
+  })
+
+  it('only allows transitions and timers defined for the current status', () => {
+    const workflow = resolveWorkflow(GENERAL)
+
+    expect(canTransition(workflow, 'NEW', 'ASSIGNED')).toBe(true)
+    expect(canTransition(workflow, 'CLOSED', 'RESOLVED')).toBe(false)
+    expect(isTimerActive(workflow, 'IN_PROGRESS', 'response-sla')).toBe(false)
+    expect(isTimerActive(workflow, 'IN_PROGRESS', 'resolution-sla')).toBe(true)
+    expect(isTimerActive(workflow, 'ESCALATED', 'escalation-1')).toBe(true)
+    expect(isTimerActive(workflow, 'WAITING_CUSTOMER', 'escalation-1')).toBe(false)
+  })
+
+  it('climbs the category escalation ladder and stops at the top', () => {
+    const urgent = resolveWorkflow({ ...GENERAL, name: 'urgent' })
+
+    const next = planNextEscalation(urgent, 'enq-1', 0, FRIDAY_5PM)
+    expect(next).toMatchObject({ timerKey: 'escalation-1', dedupeKey: 'enq-1:escalation-1' })
+    expect(next?.dueAt.toISOString()).toBe('2025-01-03T10:00:00.000Z') // Always open: 1h later
+    expect(planNextEscalation(urgent, 'enq-1', 1, FRIDAY_5PM)).toBeNull()
+  })
+
+  it('falls back to the built-in workflow when a stored definition is invalid', () => {
+    const workflow = resolveWorkflow({ ...GENERAL, workflowDefinition: { version: 'two', states: {} } })
+    expect(workflow.initialState).toBe('NEW')
+
+    const custom = resolveWorkflow({
+      ...GENERAL,
+      workflowDefinition: {
+        version: 2,
+        initialState: 'NEW',
+        states: { NEW: { transitions: ['CLOSED'] }, CLOSED: { transitions: [] } },
+        escalationLadder: [],
+        calendar: { utcOffsetMinutes: 480, hours: {}, alwaysOpen: true },
+      },
+    })
+    expect(custom.version).toBe(2)
+    expect(canTransition(custom, 'NEW', 'ASSIGNED')).toBe(false)
+  })
+
+  it('skips timers already claimed by another run', async () => {
+    const due = { id: 'timer-1', enquiryId: 'enq-1', timerKey: 'response-sla', action: 'ESCALATE', attempts: 0 }
+    const db = asPrismaClient({
+      enquiry: { findMany: async () => [] },
+      enquiryWorkflowTimer: {
+        findMany: async () => [due],
+        updateMany: async () => ({ count: 0 }),
+      },
+    })
+
+    const result = await new EnquiryWorkflowService(db).runDueTimers({ now: FRIDAY_5PM })
+    expect(result).toMatchObject({ fired: 0, skipped: 1, failed: 0 })
+  })
+
+  it('rolls back a timer\'s escalation when another run took the timer over before it was marked', async () => {
+    const due = { id: 'timer-1', enquiryId: 'enq-1', timerKey: 'response-sla', action: 'ESCALATE', attempts: 0, dueAt: FRIDAY_5PM }
+    const enquiry = {
+      id: 'enq-1',
+      enquiryNumber: 'ENQ-1',
+      title: 'Fever follow-up',
+      status: 'NEW',
+      priority: 'NORMAL',
+      createdAt: FRIDAY_5PM,
+      userId: null,
+      assignedAgentId: null,
+      escalationCount: 0,
+      workflowData: {},
+      workflowStartedAt: FRIDAY_5PM,
+      category: { ...GENERAL, workflowDefinition: null },
+    }
+    const committed: string[] = []
+    let writes: string[] = []
+    const untracked: unknown[] = []
+    const db = {
+      enquiry: {
+        findMany: async ({ where }: { where: unknown }) => {
+          untracked.push(where)
+          return []
+        },
+        findUnique: async () => enquiry,
+        update: async () => writes.push('enquiry'),
+      },
+      contactEscalation: { create: async () => writes.push('escalation') },
+      contactHistory: { create: async () => writes.push('history') },
+      enquiryWorkflowTimer: {
+        findMany: async () => [due],
+        createMany: async () => writes.push('next escalation'),
+        // The claim succeeds; by the time the outcome is marked another run holds the timer
+        updateMany: async ({ data }: { data: { status: string } }) => ({ count: data.status === 'FIRED' ? 0 : 1 }),
+      },
+      $transaction: async <T>(work: (tx: unknown) => Promise<T>) => {
+        writes = []
+        const result = await work(db)
+        committed.push(...writes)
+        return result
+      },
+    }
+
+    const result = await new EnquiryWorkflowService(asPrismaClient(db)).runDueTimers({ now: FRIDAY_5PM })
+    expect(result).toMatchObject({ fired: 0, skipped: 1, failed: 0 })
+    expect(committed).toEqual([])
+    expect(untracked).toEqual([{ status: { notIn: ['CLOSED', 'CANCELLED'] }, workflowStartedAt: null }])
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * Key Management Tests
+ * Validates envelope-encrypted key rotation, decryption across restarts and re-encryption of stored fields
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { HealthcareEncryptionService } from '@/lib/encryption'
+import { KeyManagementError, LocalFileKeyProvider } from '@/lib/key-management/key-provider'
+import { KeyRing } from '@/lib/key-management/key-ring'
+import { ReencryptionJob, type EncryptedFieldSource } from '@/lib/key-management/reencryption'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+interface StoredKey {
+  id: string
+  keyVersion: string
+  wrappedKey: string
+  kekId: string
+  algorithm: string
+  status: 'ACTIVE' | 'DECRYPT_ONLY' | 'RETIRED'
+  activatedAt: Date
+  rotationDue: Date
+  deactivatedAt?: Date
+  createdAt: Date
+}
+
+interface StoredProgress {
+  field: string
+  activeKeyVersion: string
+  afterId: string | null
+  failed: number
+  startedAt: Date
+  completedAt: Date | null
+}
+
+// In-memory stand-in for the EncryptionDataKey and ReencryptionProgress tables
+function keyStore() {
+  const rows: StoredKey[] = []
+  const progress: StoredProgress[] = []
+
+  const encryptionDataKey = {
+    findUnique: async ({ where }: { where: { keyVersion: string } }) => rows.find(r => r.keyVersion === where.keyVersion) ?? null,
+    findFirst: async ({ where }: { where: Where<StoredKey> }) =>
+      rows.filter(r => matches(r, where)).sort((a, b) => b.activatedAt.getTime() - a.activatedAt.getTime())[0] ?? null,
+    findMany: async () => [...rows],
+    updateMany: async ({ where, data }: { where: Where<StoredKey>; data: Partial<StoredKey> }) => {
+      const hit = rows.filter(r => matches(r, where))
+      hit.forEach(r => Object.assign(r, data))
+      return { count: hit.length }
+    },
+    create: async ({ data }: { data: Omit<StoredKey, 'id' | 'algorithm' | 'createdAt'> }) => {
+      const row = { id: `key-${rows.length + 1}`, algorithm: 'aes-256-gcm', createdAt: data.activatedAt, ...data }
+      rows.push(row)
+      return row
+    },
+  }
+
+  const reencryptionProgress = {
+    findUnique: async ({ where }: { where: { field: string } }) => progress.find(p => p.field === where.field) ?? null,
+    upsert: async ({ where, create, update }: { where: { field: string }; create: StoredProgress; update: Omit<StoredProgress, 'field'> }) => {
+      const existing = progress.find(p => p.field === where.field)
+      if (existing) return Object.assign(existing, update)
+      progress.push({ ...create })
+      return progress[progress.length - 1]
+    },
+    update: async ({ where, data }: { where: { field: string }; data: Omit<Partial<StoredProgress>, 'failed'> & { failed: { increment: number } } }) => {
+      const row = progress.find(p => p.field === where.field)!
+      return Object.assign(row, { ...data, failed: row.failed + data.failed.increment })
+    },
+  }
+
+  const db = asPrismaClient({
+    encryptionDataKey,
+    reencryptionProgress,
+    $transaction: (ops: Promise<unknown>[]) => Promise.all(ops),
+  })
+  return { rows, progress, db }
+}
+
+describe('Key management', () => {
+  let store: ReturnType<typeof keyStore>
+  let kmsFile: string
+
+  const service = () =>
+    new HealthcareEncryptionService({
+      keyRing: new KeyRing(store.db, new LocalFileKeyProvider(kmsFile), { rotationDays: 90 }),
+      legacyMasterKey: null,
+    })
+
+  beforeEach(() => {
+    store = keyStore()
+    kmsFile = join(mkdtempSync(join(tmpdir(), 'kms-')), 'local-kms.json')
+  })
+
+  it('encrypts with a persisted, wrapped data key', async () => {
+    const encryption = service()
+    const encrypted = await encryption.encryptField('S1234567D', 'nric', 'RESTRICTED')
+
+    expect(await encryption.decryptField(encrypted)).toBe('S1234567D')
+    expect(store.rows).toHaveLength(1)
+    expect(store.rows[0]).toMatchObject({ status: 'ACTIVE', keyVersion: encryption.getKeyVersion(encrypted) })
+    expect(Buffer.from(store.rows[0]!.wrappedKey, 'base64')).toHaveLength(12 + 16 + 32) // IV, tag, key
+  })
+
+  it('keeps older ciphertexts readable after rotation and restart', async () => {
+    const before = await service().encryptField('S1234567D', 'nric')
+    const rotated = await service().rotateEncryptionKey()
+
+    expect(store.rows.map(r => r.status)).toEqual(['DECRYPT_ONLY', 'ACTIVE'])
+
+    const restarted = service()
+    expect(await restarted.decryptField(before)).toBe('S1234567D')
+    expect(restarted.getKeyVersion(await restarted.encryptField('x', 'note'))).toBe(rotated)
+  })
+
+  it('rotates only when the active key is due', async () => {
+    const ring = new KeyRing(store.db, new LocalFileKeyProvider(kmsFile), { rotationDays: 90 })
+    const start = new Date('2025-01-01T00:00:00.000Z')
+    await ring.rotate(start)
+
+    expect(await ring.rotateIfDue(new Date('2025-03-01T00:00:00.000Z'))).toBeNull()
+    expect(await ring.rotateIfDue(new Date('2025-04-02T00:00:00.000Z'))).toMatch(/^v/)
+  })
+
+  it('re-encrypts stored fields and retires keys with no remaining data', async () => {
+    const encryption = service()
+    const table = new Map<string, string>([
+      ['a', await encryption.encryptField('S1111111D', 'nric')],
+      ['b', await encryption.encryptField('S2222222D', 'nric')],
+      ['c', 'not encrypted'],
+    ])
+    const oldVersion = encryption.getKeyVersion(table.get('a'))!
+    await encryption.rotateEncryptionKey()
+    const rotatedAt = Date.now()
+
+    const job = new ReencryptionJob(store.db, encryption, [tableField(table)])
+    const result = await job.run({ batchSize: 2 })
+
+    expect(result.fields[0]).toMatchObject({ scanned: 3, reencrypted: 2, failed: 0 })
+    expect(encryption.getKeyVersion(table.get('a'))).toBe(result.activeKeyVersion)
+    expect(await encryption.decryptField(table.get('b')!)).toBe('S2222222D')
+    // Other processes may still be encrypting with the old key
+    expect(result).toMatchObject({ complete: true, retiredKeyVersions: [], pendingKeyVersions: [oldVersion] })
+
+    // Once they can no longer be, a fresh pass confirms nothing uses it
+    expect((await job.run({ now: new Date(rotatedAt + 61_000) })).retiredKeyVersions).toEqual([])
+    const final = await job.run({ now: new Date(rotatedAt + 62_000) })
+    expect(final).toMatchObject({ complete: true, retiredKeyVersions: [oldVersion], pendingKeyVersions: [] })
+    expect(final.fields[0]).toMatchObject({ scanned: 3, reencrypted: 0 })
+
+    await expect(encryption.keyRing.getKey(oldVersion)).rejects.toBeInstanceOf(KeyManagementError)
+  })
+
+  it('continues a capped run where it stopped', async () => {
+    const encryption = service()
+    const table = new Map<string, string>()
+    for (const id of ['a', 'b', 'c']) table.set(id, await encryption.encryptField(`S${id}`, 'nric'))
+    await encryption.rotateEncryptionKey()
+
+    const job = new ReencryptionJob(store.db, encryption, [tableField(table)])
+    const first = await job.run({ maxRows: 2 })
+    expect(first.complete).toBe(false)
+    expect(first.fields[0]).toMatchObject({ scanned: 2, reencrypted: 2 })
+    expect(store.progress[0]).toMatchObject({ afterId: 'b', completedAt: null })
+
+    const second = await job.run({ maxRows: 2 })
+    expect(second.complete).toBe(true)
+    expect(second.fields[0]).toMatchObject({ scanned: 1, reencrypted: 1 })
+  })
+
+  it('does not retire a key a stale process wrote with behind the pass', async () => {
+    const encryption = service()
+    const stale = service()
+    const table = new Map<string, string>([['a', await stale.encryptField('S1111111D', 'nric')]])
+    const oldVersion = encryption.getKeyVersion(table.get('a'))!
+    await encryption.rotateEncryptionKey()
+    const rotatedAt = Date.now()
+
+    const job = new ReencryptionJob(store.db, encryption, [tableField(table)])
+    await job.run()
+    // The stale process has not seen the rotation yet
+    table.set('a', await stale.encryptField('S1111112D', 'nric'))
+    expect(stale.getKeyVersion(table.get('a'))).toBe(oldVersion)
+
+    expect((await job.run({ now: new Date(rotatedAt + 61_000) })).retiredKeyVersions).toEqual([])
+    const final = await job.run({ now: new Date(rotatedAt + 62_000) })
+    expect(final.fields[0]).toMatchObject({ reencrypted: 1 })
+    expect(final.retiredKeyVersions).toEqual([oldVersion])
+    expect(await encryption.decryptField(table.get('a')!)).toBe('S1111112D')
+  })
+})
+
+// A field backed by a map, scanned in key order
+function tableField(table: Map<string, string>): EncryptedFieldSource {
+  return {
+    name: 'Test.nric',
+    findBatch: async (_db, afterId, take) =>
+      [...table.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .filter(([id]) => !afterId || id > afterId)
+        .slice(0, take)
+        .map(([id, value]) => ({ id, value })),
+    replace: async (_db, id, from, to) => table.get(id) === from && !!table.set(id, to),
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Live Chat Realtime Tests
+ * Validates live chat across several WebSocket nodes sharing one session store: message
+ * routing between nodes, the global agent queue, resuming after a restart, timers and
+ * the RESP protocol used to reach Redis
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import type { IncomingMessage } from 'http'
+import net from 'net'
+import type { WebSocket } from 'ws'
+import { WebSocketManager } from '@/lib/websocket-manager'
+import { InMemoryPubSub, InMemorySessionStore } from '@/lib/live-chat/realtime'
+import { RespClient, RespError, RespParser, encodeCommand } from '@/lib/live-chat/resp'
+
+// The manager never touches the database unless it is given a live chat queue
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+
+const NOW = new Date('2026-10-19T01:00:00.000Z')
+
+// Stands in for a browser's socket: records what the server sends
+class FakeSocket extends EventEmitter {
+  received: { type: string; data: any }[] = []
+
+  send(payload: string) {
+    this.received.push(JSON.parse(payload))
+  }
+
+  close() {
+    this.emit('close')
+  }
+
+  say(type: string, data: Record<string, unknown>) {
+    this.emit('message', Buffer.from(JSON.stringify({ type, data })))
+  }
+
+  last(type: string) {
+    return [...this.received].reverse().find(message => message.type === type)?.data
+  }
+
+  all(type: string) {
+    return this.received.filter(message => message.type === type).map(message => message.data)
+  }
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve))
+
+const managers: WebSocketManager[] = []
+
+function cluster() {
+  let clock = NOW.getTime()
+  const now = () => new Date(clock)
+  const backend = { store: new InMemorySessionStore<any, any>(() => clock), pubsub: new InMemoryPubSub() }
+
+  const node = async (nodeId: string) => {
+    const manager = new WebSocketManager({ nodeId, backend, now, listen: false })
+    managers.push(manager)
+    await manager.ready
+    return manager
+  }
+  const connect = (manager: WebSocketManager) => {
+    const socket = new FakeSocket()
+    manager.acceptConnection(socket as unknown as WebSocket, {} as IncomingMessage)
+    return socket
+  }
+  // A second passes with every message, so chats never start at the same moment
+  const send = async (socket: FakeSocket, type: string, data: Record<string, unknown>) => {
+    clock += 1000
+    socket.say(type, data)
+    await settle()
+  }
+  const advance = (ms: number) => {
+    clock += ms
+  }
+  return { node, connect, send, advance, store: backend.store }
+}
+
+afterEach(async () => {
+  for (const manager of managers.splice(0)) await manager.shutdown()
+})
+
+describe('Live chat across nodes', () => {
+  it('routes messages and typing between a customer and an agent on different nodes', async () => {
+    const { node, connect, send } = cluster()
+    const [a, b] = [await node('node-a'), await node('node-b')]
+    const agent = connect(b)
+    await send(agent, 'agent_online', { agentId: 'agent-1' })
+
+    const customer = connect(a)
+    await send(customer, 'start_chat', { customerInfo: { name: 'Mei Ling' } })
+    const { sessionId, queuePosition } = customer.last('chat_session_started')
+    expect(queuePosition).toBe(1)
+    expect(agent.last('new_chat_request')).toMatchObject({ sessionId, queuePosition: 1, customerInfo: { name: 'Mei Ling' } })
+
+    await send(agent, 'join_chat', { sessionId, agentId: 'agent-1', agentName: 'Aisha' })
+    expect(customer.last('agent_joined')).toEqual({ sessionId, agentName: 'Aisha', agentId: 'agent-1' })
+
+    await send(customer, 'send_message', { sessionId, content: 'Hello, is the clinic open today?' })
+    expect(customer.last('message_sent')).toMatchObject({ delivered: true })
+    expect(agent.last('new_message')).toMatchObject({ content: 'Hello, is the clinic open today?', senderName: 'Mei Ling', senderType: 'CUSTOMER' })
+
+    await send(agent, 'typing_indicator', { sessionId, isTyping: true })
+    expect(customer.last('typing_indicator')).toEqual({ sessionId, isTyping: true, senderName: 'Aisha' })
+
+    await send(agent, 'end_chat', { sessionId, endedBy: 'agent' })
+    expect(customer.last('chat_session_ended')).toMatchObject({ sessionId, endedBy: 'agent' })
+  })
+
+  it('keeps one queue for every node and lets only one agent claim a chat', async () => {
+    const { node, connect, send } = cluster()
+    const [a, b] = [await node('node-a'), await node('node-b')]
+
+    const first = connect(a)
+    await send(first, 'start_chat', { customerInfo: { name: 'First' } })
+    const urgent = connect(b)
+    await send(urgent, 'start_chat', { customerInfo: { name: 'Urgent' }, priority: 'URGENT' })
+    const third = connect(a)
+    await send(third, 'start_chat', { customerInfo: { name: 'Third' } })
+
+    expect([first, urgent, third].map(socket => socket.last('chat_session_started').queuePosition)).toEqual([1, 1, 3])
+    expect(await b.getConnectionStats()).toMatchObject({ totalConnections: 1, waitingChatSessions: 3 })
+
+    const { sessionId } = urgent.last('chat_session_started')
+    const aisha = connect(a)
+    const ben = connect(b)
+    aisha.say('join_chat', { sessionId, agentId: 'agent-1', agentName: 'Aisha' })
+    ben.say('join_chat', { sessionId, agentId: 'agent-3', agentName: 'Ben' })
+    await settle()
+
+    expect(aisha.last('chat_session_joined')).toMatchObject({ sessionId })
+    expect(ben.last('error')).toMatchObject({ code: 'CLAIM_FAILED' })
+    expect(await a.getConnectionStats()).toMatchObject({ activeChatSessions: 1, waitingChatSessions: 2 })
+
+    const late = connect(b)
+    await send(late, 'start_chat', { customerInfo: { name: 'Late' } })
+    expect(late.last('chat_session_started').queuePosition).toBe(3)
+  })
+
+  it('resumes a chat on another node after a restart with what was missed', async () => {
+    const { node, connect, send } = cluster()
+    const a = await node('node-a')
+    const b = await node('node-b')
+    const customer = connect(a)
+    await send(customer, 'start_chat', { customerInfo: { name: 'Mei Ling' } })
+    const { sessionId } = customer.last('chat_session_started')
+    const agent = connect(b)
+    await send(agent, 'join_chat', { sessionId, agentId: 'agent-1', agentName: 'Aisha' })
+    await send(customer, 'send_message', { sessionId, content: 'My son has a fever' })
+
+    await b.shutdown()
+    expect(customer.last('agent_disconnected')).toEqual({ sessionId })
+
+    await send(customer, 'send_message', { sessionId, content: 'Are you still there?' })
+    expect(customer.last('message_sent')).toMatchObject({ delivered: false })
+    await send(customer, 'typing_indicator', { sessionId, isTyping: true })
+
+    const c = await node('node-c')
+    const impostor = connect(c)
+    await send(impostor, 'resume_chat', { sessionId, role: 'agent', agentId: 'agent-3' })
+    expect(impostor.last('error')).toMatchObject({ code: 'NOT_ASSIGNED' })
+
+    const back = connect(c)
+    await send(back, 'resume_chat', { sessionId, role: 'agent', agentId: 'agent-1' })
+    const resumed = back.last('chat_session_resumed')
+    expect(resumed).toMatchObject({ sessionId, status: 'ACTIVE', agentName: 'Aisha', otherPartyTyping: true })
+    expect(resumed.sessionHistory.map((message: any) => message.content)).toEqual(['My son has a fever', 'Are you still there?'])
+    expect(back.all('new_message').map(message => message.content)).toEqual(['Are you still there?'])
+
+    await send(back, 'send_message', { sessionId, content: 'Yes, sorry about that' })
+    expect(customer.last('new_message')).toMatchObject({ content: 'Yes, sorry about that', senderName: 'Aisha' })
+  })
+
+  it('abandons a waiting chat once the customer has been gone for a minute, on any node', async () => {
+    const { node, connect, send, advance, store } = cluster()
+    const a = await node('node-a')
+    const b = await node('node-b')
+
+    const leaving = connect(a)
+    await send(leaving, 'start_chat', { customerInfo: { name: 'Gone' } })
+    const returning = connect(a)
+    await send(returning, 'start_chat', { customerInfo: { name: 'Back' } })
+    const gone = leaving.last('chat_session_started').sessionId
+    const back = returning.last('chat_session_started').sessionId
+
+    leaving.close()
+    returning.close()
+    await settle()
+    advance(28_000)
+    const reconnected = connect(b)
+    await send(reconnected, 'resume_chat', { sessionId: back, role: 'customer' })
+    expect(reconnected.last('chat_session_resumed')).toMatchObject({ sessionId: back, status: 'WAITING', queuePosition: 2 })
+
+    advance(31_000)
+    await b.sweepDeadlines()
+    expect(await store.getSession(gone)).toMatchObject({ status: 'ABANDONED' })
+    expect(await store.getSession(back)).toMatchObject({ status: 'WAITING' })
+    expect(await store.queuedSessionIds()).toEqual([back])
+
+    advance(30_000)
+    await a.sweepDeadlines()
+    expect(await store.getSession(gone)).toBeNull()
+  })
+
+  it('reports failures in background work to onError', async () => {
+    const store = new InMemorySessionStore<any, any>()
+    const failure = new Error('Store unavailable')
+    vi.spyOn(store, 'saveConnection').mockRejectedValue(failure)
+    const onError = vi.fn()
+    const manager = new WebSocketManager({ backend: { store, pubsub: new InMemoryPubSub() }, listen: false, onError })
+    managers.push(manager)
+    await manager.ready
+
+    manager.acceptConnection(new FakeSocket() as unknown as WebSocket, {} as IncomingMessage)
+    await settle()
+
+    expect(onError).toHaveBeenCalledWith(failure)
+  })
+})
+
+describe('RESP protocol', () => {
+  it('encodes commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['HSET', 'livechat:session:1', 'agentName', '"Aïsha"']).toString()).toBe(
+      '*4\r\n$4\r\nHSET\r\n$18\r\nlivechat:session:1\r\n$9\r\nagentName\r\n$8\r\n"Aïsha"\r\n'
+    )
+  })
+
+  it('parses replies split across chunks', () => {
+    const parser = new RespParser()
+    const wire = '+OK\r\n:3\r\n$-1\r\n*3\r\n$7\r\nmessage\r\n$4\r\nchan\r\n$2\r\nhi\r\n-ERR no such key\r\n*2\r\n*1\r\n:1\r\n$0\r\n\r\n'
+    const replies = [...wire.slice(0, 20), wire.slice(20)].flatMap(chunk => parser.push(Buffer.from(chunk)))
+    expect(replies.slice(0, 4)).toEqual(['OK', 3, null, ['message', 'chan', 'hi']])
+    expect(replies[4]).toBeInstanceOf(RespError)
+    expect(replies[5]).toEqual([[1], ''])
+  })
+
+  it('sends a transaction as one block and drops a connection whose reply is overdue', async () => {
+    const received: string[][] = []
+    const server = net.createServer(socket => {
+      const parser = new RespParser()
+      let queued: number | null = null
+      socket.on('data', chunk => {
+        for (const command of parser.push(chunk) as string[][]) {
+          received.push(command)
+          if (command[0] === 'HANG') continue
+          if (command[0] === 'MULTI') {
+            queued = 0
+            socket.write('+OK\r\n')
+          } else if (command[0] === 'EXEC') {
+            socket.write(`*${queued}\r\n${':1\r\n'.repeat(queued ?? 0)}`)
+            queued = null
+          } else if (queued !== null) {
+            queued++
+            socket.write('+QUEUED\r\n')
+          } else {
+            socket.write('+PONG\r\n')
+          }
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+    const client = RespClient.fromUrl(`redis://127.0.0.1:${port}`, { commandTimeoutMs: 50 })
+
+    try {
+      expect(await client.transaction([['DEL', 'k'], ['SADD', 's', 'k']])).toEqual([1, 1])
+      expect(received.map(command => command[0])).toEqual(['MULTI', 'DEL', 'SADD', 'EXEC'])
+
+      await expect(client.command('HANG')).rejects.toThrow('HANG timed out after 50ms')
+      expect(await client.command('PING')).toBe('PONG')
+    } finally {
+      await client.quit()
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
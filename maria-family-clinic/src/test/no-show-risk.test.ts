@@ -0,0 +1,262 @@
+/**
+ * No-Show Risk Tests
+ * Validates the risk score and its accuracy metrics, escalated reminders, outcome
+ * tracking, and the overbooking offers shown on the daily schedule
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { NoShowRiskScore, UserPreferences } from '@prisma/client'
+import { accuracyMetrics, riskTier, scoreNoShowRisk, type NoShowFeatures } from '@/lib/no-show-risk/scoring'
+import { NoShowRiskService } from '@/lib/no-show-risk/service'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+const NOW = new Date('2026-10-19T02:00:00.000Z') // Monday 10:00 in Singapore
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const baseFeatures: NoShowFeatures = {
+  priorAppointments: 10,
+  priorNoShows: 0,
+  recentCancellations: 0,
+  clinicNoShowRate: 0.08,
+  leadTimeDays: 7,
+  hourOfDay: 11,
+  dayOfWeek: 3,
+  channel: 'EMAIL',
+}
+
+// There is no Appointment model in the generated client yet, so its rows are typed here
+interface AppointmentRow {
+  id: string
+  clinicId: string
+  doctorId: string
+  patientId: string
+  appointmentDate: Date
+  createdAt: Date
+  updatedAt: Date
+  status: string
+}
+
+type PreferencesRow = Pick<UserPreferences, 'userId' | 'smsNotifications' | 'emailNotifications'>
+type ScoreRow = Pick<NoShowRiskScore, 'id' | 'appointmentId' | 'remindersSent' | 'lastReminderAt' | 'outcome' | 'resolvedAt'> & Partial<NoShowRiskScore>
+type NewScore = Omit<ScoreRow, 'id' | 'remindersSent' | 'lastReminderAt' | 'outcome' | 'resolvedAt'>
+type NotificationRow = { userId: string; type: string; channel: string; priority: string }
+
+// Appointments, preferences, stored scores and queued notifications
+function riskDb(appointments: AppointmentRow[], preferences: PreferencesRow[] = [], options: { notificationsDown?: boolean } = {}) {
+  let sequence = 0
+  const scores: ScoreRow[] = []
+  const notifications: NotificationRow[] = []
+
+  const db = asPrismaClient({
+    appointment: {
+      findMany: async ({ where }: { where: Where<AppointmentRow> }) => appointments.filter(row => matches(row, where)),
+      count: async ({ where }: { where: Where<AppointmentRow> }) => appointments.filter(row => matches(row, where)).length,
+    },
+    userPreferences: {
+      findMany: async ({ where }: { where: Where<PreferencesRow> }) => preferences.filter(row => matches(row, where)),
+      findUnique: async ({ where }: { where: { userId: string } }) => preferences.find(row => row.userId === where.userId) ?? null,
+    },
+    noShowRiskScore: {
+      findMany: async ({ where }: { where: Where<ScoreRow> }) => scores.filter(row => matches(row, where)),
+      upsert: async ({ where, create, update }: { where: { appointmentId: string }; create: NewScore; update: Partial<ScoreRow> }) => {
+        const existing = scores.find(row => row.appointmentId === where.appointmentId)
+        if (existing) return Object.assign(existing, update)
+        const row = { id: `score-${++sequence}`, remindersSent: 0, lastReminderAt: null, outcome: null, resolvedAt: null, ...create }
+        scores.push(row)
+        return row
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<ScoreRow> }) => Object.assign(scores.find(row => row.id === where.id)!, data),
+      updateMany: async ({ where, data }: { where: Where<ScoreRow>; data: Partial<ScoreRow> }) => {
+        const hit = scores.filter(row => matches(row, where))
+        hit.forEach(row => Object.assign(row, data))
+        return { count: hit.length }
+      },
+    },
+    contactNotification: {
+      create: async ({ data }: { data: NotificationRow }) => {
+        if (options.notificationsDown) throw new Error('queue unavailable')
+        notifications.push(data)
+        return data
+      },
+    },
+  })
+  return { db, scores, notifications, appointments }
+}
+
+function appointment(id: string, patientId: string, appointmentDate: Date, overrides: Partial<AppointmentRow> = {}): AppointmentRow {
+  return {
+    id,
+    clinicId: 'clinic-1',
+    doctorId: 'doctor-1',
+    patientId,
+    appointmentDate,
+    createdAt: new Date(appointmentDate.getTime() - 7 * DAY),
+    updatedAt: appointmentDate,
+    status: 'CONFIRMED',
+    ...overrides,
+  }
+}
+
+// Past visits: `missed` no-shows out of `visits`
+function pastVisits(patientId: string, visits: number, missed: number) {
+  return Array.from({ length: visits }, (_, i) =>
+    appointment(`${patientId}-past-${i}`, patientId, new Date(NOW.getTime() - (i + 10) * DAY), {
+      status: i < missed ? 'NO_SHOW' : 'COMPLETED',
+    })
+  )
+}
+
+describe('No-show risk score', () => {
+  it('starts from the patient history shrunk towards the clinic rate', () => {
+    const reliable = scoreNoShowRisk(baseFeatures)
+    const unreliable = scoreNoShowRisk({ ...baseFeatures, priorNoShows: 5 })
+    const oneMiss = scoreNoShowRisk({ ...baseFeatures, priorAppointments: 2, priorNoShows: 1 })
+
+    expect(reliable.probability).toBeLessThan(0.08)
+    expect(reliable.tier).toBe('LOW')
+    expect(unreliable.probability).toBeGreaterThan(0.3)
+    expect(unreliable.tier).toBe('HIGH')
+    // (1 + 4 * 0.08) / (2 + 4) = 0.22, not 0.5
+    expect(oneMiss.probability).toBeCloseTo(0.22, 2)
+    expect(oneMiss.modelVersion).toBe('2026.10')
+  })
+
+  it('raises risk for long lead times, late slots, cancellations and no reminder channel', () => {
+    const base = scoreNoShowRisk(baseFeatures).probability
+    for (const change of [
+      { leadTimeDays: 60 },
+      { hourOfDay: 17 },
+      { recentCancellations: 2 },
+      { channel: 'NONE' as const },
+      { priorAppointments: 0 },
+      { dayOfWeek: 1 },
+    ]) {
+      expect(scoreNoShowRisk({ ...baseFeatures, ...change }).probability).toBeGreaterThan(base)
+    }
+    expect(scoreNoShowRisk({ ...baseFeatures, leadTimeDays: 0 }).probability).toBeLessThan(base)
+    expect(scoreNoShowRisk({ ...baseFeatures, channel: 'SMS' }).probability).toBeLessThan(base)
+    expect([riskTier(0.1), riskTier(0.15), riskTier(0.3)]).toEqual(['LOW', 'MEDIUM', 'HIGH'])
+  })
+
+  it('measures Brier score, AUC and calibration of resolved scores', () => {
+    const metrics = accuracyMetrics([
+      { probability: 0.1, tier: 'LOW', noShow: false },
+      { probability: 0.1, tier: 'LOW', noShow: false },
+      { probability: 0.2, tier: 'MEDIUM', noShow: true },
+      { probability: 0.4, tier: 'HIGH', noShow: true },
+      { probability: 0.4, tier: 'HIGH', noShow: false },
+    ])
+
+    expect(metrics).toMatchObject({ count: 5, noShows: 2, observedRate: 0.4 })
+    expect(metrics.brier).toBeCloseTo((0.01 + 0.01 + 0.64 + 0.36 + 0.16) / 5, 10)
+    // Of six (no-show, attended) pairs, four are ranked right and one is tied
+    expect(metrics.auc).toBeCloseTo(4.5 / 6, 10)
+    expect(metrics.calibration.find(bucket => bucket.tier === 'HIGH')).toEqual({
+      tier: 'HIGH',
+      count: 2,
+      meanPredicted: 0.4,
+      observedRate: 0.5,
+    })
+    expect(accuracyMetrics([]).brier).toBeNull()
+  })
+})
+
+describe('No-show risk service', () => {
+  it('escalates reminders for risky bookings on the preferred channel, once per step', async () => {
+    const { db, scores, notifications } = riskDb(
+      [
+        ...pastVisits('risky', 4, 3),
+        ...pastVisits('steady', 6, 0),
+        appointment('appt-risky', 'risky', new Date(NOW.getTime() + 48 * HOUR)),
+        appointment('appt-steady', 'steady', new Date(NOW.getTime() + 20 * HOUR)),
+      ],
+      [{ userId: 'risky', smsNotifications: true, emailNotifications: true }]
+    )
+    let now = NOW
+    const service = new NoShowRiskService(db, { now: () => now })
+
+    const first = await service.runReminderSweep()
+    expect(first).toMatchObject({ scored: 2, remindersQueued: 1, failed: 0 })
+    expect(notifications).toHaveLength(1)
+    expect(notifications[0]).toMatchObject({ userId: 'risky', channel: 'SMS', priority: 'HIGH', type: 'APPOINTMENT_REMINDER' })
+    expect(scores.find(score => score.appointmentId === 'appt-steady')).toMatchObject({ tier: 'LOW', remindersSent: 0 })
+
+    // Nothing new is due an hour later
+    now = new Date(NOW.getTime() + HOUR)
+    expect((await service.runReminderSweep()).remindersQueued).toBe(0)
+
+    // The 24-hour and 3-hour reminders are both due by then; only one is sent
+    now = new Date(NOW.getTime() + 46 * HOUR)
+    expect((await service.runReminderSweep()).remindersQueued).toBe(1)
+    expect(scores.find(score => score.appointmentId === 'appt-risky')).toMatchObject({ tier: 'HIGH', remindersSent: 3 })
+    expect(notifications).toHaveLength(2)
+  })
+
+  it('releases the reminder claim when the notification cannot be queued', async () => {
+    const { db, scores } = riskDb(
+      [...pastVisits('risky', 4, 3), appointment('appt-risky', 'risky', new Date(NOW.getTime() + 48 * HOUR))],
+      [],
+      { notificationsDown: true }
+    )
+    const service = new NoShowRiskService(db, { now: () => NOW })
+    expect(await service.runReminderSweep()).toMatchObject({ remindersQueued: 0, failed: 1 })
+    expect(scores[0]).toMatchObject({ remindersSent: 0, lastReminderAt: null })
+  })
+
+  it('records outcomes of past appointments and reports accuracy by week', async () => {
+    const { db, appointments } = riskDb([
+      ...pastVisits('risky', 4, 3),
+      ...pastVisits('steady', 6, 0),
+      appointment('appt-risky', 'risky', new Date(NOW.getTime() + 2 * HOUR)),
+      appointment('appt-steady', 'steady', new Date(NOW.getTime() + 3 * HOUR)),
+    ])
+    let now = NOW
+    const service = new NoShowRiskService(db, { now: () => now })
+    await service.runReminderSweep()
+
+    appointments.find(row => row.id === 'appt-risky')!.status = 'NO_SHOW'
+    appointments.find(row => row.id === 'appt-steady')!.status = 'COMPLETED'
+    // Outcomes are only recorded once the day is over
+    expect(await service.resolveOutcomes()).toBe(0)
+    now = new Date(NOW.getTime() + DAY)
+    expect(await service.resolveOutcomes()).toBe(2)
+
+    const report = await service.accuracy({ clinicId: 'clinic-1', weeks: 2 })
+    expect(report.from).toBe('2026-10-12')
+    expect(report.weekly.map(week => [week.weekStart, week.count])).toEqual([
+      ['2026-10-12', 0],
+      ['2026-10-19', 2],
+    ])
+    expect(report.overall).toMatchObject({ count: 2, noShows: 1, auc: 1 })
+    expect(report.byModelVersion).toEqual([expect.objectContaining({ modelVersion: '2026.10', count: 2 })])
+  })
+
+  it('offers the riskiest bookings for overbooking up to the expected no-shows', async () => {
+    const risky = ['a', 'b', 'c', 'e'].flatMap(patient => pastVisits(patient, 3, 3))
+    const { db } = riskDb([
+      ...risky,
+      appointment('appt-a', 'a', new Date(NOW.getTime() + 2 * HOUR)),
+      appointment('appt-b', 'b', new Date(NOW.getTime() + 3 * HOUR), { doctorId: 'doctor-2' }),
+      appointment('appt-c', 'c', new Date(NOW.getTime() + 4 * HOUR), { createdAt: new Date(NOW.getTime() - 60 * DAY) }),
+      appointment('appt-d', 'd', new Date(NOW.getTime() + 5 * HOUR), { status: 'CANCELLED' }),
+      appointment('appt-e', 'e', new Date(NOW.getTime() + 6 * HOUR)),
+    ])
+    const service = new NoShowRiskService(db, { now: () => NOW })
+    const ids = ['appt-a', 'appt-b', 'appt-c', 'appt-d', 'appt-e']
+
+    // Reading the schedule's risk never scores
+    expect((await service.riskForAppointments(ids)).size).toBe(0)
+    expect((await service.scoreDay('clinic-1', '2026-10-19')).size).toBe(4)
+    const scores = await service.riskForAppointments(ids)
+    expect([...scores.keys()].sort()).toEqual(['appt-a', 'appt-b', 'appt-c', 'appt-e'])
+
+    const plan = service.overbookingOffers([...scores.values()])
+    expect(plan.expectedNoShows).toBeGreaterThan(2)
+    expect(plan.limit).toBe(2)
+    // appt-c is the riskiest; appt-a and appt-e share its doctor, so appt-b takes the second offer
+    expect(plan.offers.map(offer => offer.appointmentId)).toEqual(['appt-c', 'appt-b'])
+    expect(service.overbookingOffers([...scores.values()], { maxPerDay: 1 }).offers).toHaveLength(1)
+    await expect(service.getScore('appt-d')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * PII Redaction Tests
+ * Validates NRIC/FIN checksums, Singapore phone and postal formats, email and medical
+ * term detection, and the encrypted originals and access log kept by the redaction service
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { EncryptionDataKey, RedactionAccess, RedactionRecord } from '@prisma/client'
+import { HealthcareEncryptionService } from '@/lib/encryption'
+import { LocalFileKeyProvider } from '@/lib/key-management/key-provider'
+import { KeyRing } from '@/lib/key-management/key-ring'
+import { applyRedactions, detectSensitiveData, isValidNric, medicalTermsFrom, redactText } from '@/lib/redaction/detectors'
+import { RedactionService, describeFindings } from '@/lib/redaction/service'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+type KeyRow = Pick<EncryptionDataKey, 'id' | 'keyVersion' | 'status' | 'activatedAt' | 'createdAt'> & Partial<EncryptionDataKey>
+type RecordRow = Pick<RedactionRecord, 'id' | 'createdAt'> & Partial<RedactionRecord>
+type AccessRow = Pick<RedactionAccess, 'id' | 'recordId' | 'createdAt'> & Partial<RedactionAccess>
+
+// Redaction records and access log, plus the data keys the encryption service needs
+function redactionDb() {
+  let sequence = 0
+  let clock = Date.parse('2026-10-19T01:00:00.000Z')
+  const keys: KeyRow[] = []
+  const records: RecordRow[] = []
+  const accesses: AccessRow[] = []
+  const newest = (a: { createdAt: Date }, b: { createdAt: Date }) => b.createdAt.getTime() - a.createdAt.getTime()
+
+  const db = asPrismaClient({
+    encryptionDataKey: {
+      findUnique: async ({ where }: { where: { keyVersion: string } }) => keys.find(key => key.keyVersion === where.keyVersion) ?? null,
+      findFirst: async ({ where }: { where: Where<KeyRow> }) => keys.find(key => matches(key, where)) ?? null,
+      findMany: async () => [...keys],
+      updateMany: async ({ where, data }: { where: Where<KeyRow>; data: Partial<KeyRow> }) => {
+        const hit = keys.filter(key => matches(key, where))
+        hit.forEach(key => Object.assign(key, data))
+        return { count: hit.length }
+      },
+      create: async ({ data }: { data: Omit<KeyRow, 'id' | 'algorithm' | 'createdAt'> }) => {
+        const row = { id: `key-${keys.length + 1}`, algorithm: 'aes-256-gcm', createdAt: data.activatedAt, ...data }
+        keys.push(row)
+        return row
+      },
+    },
+    redactionRecord: {
+      create: async ({ data }: { data: Omit<RecordRow, 'id' | 'createdAt'> }) => {
+        const row = { id: `record-${++sequence}`, ...data, createdAt: new Date((clock += 1000)) }
+        records.push(row)
+        return row
+      },
+      findFirst: async ({ where }: { where: Where<RecordRow> }) => records.filter(row => matches(row, where)).sort(newest)[0] ?? null,
+      findMany: async ({ where }: { where: Where<RecordRow> }) =>
+        records
+          .filter(row => matches(row, where))
+          .sort(newest)
+          .map(row => ({ ...row, accesses: accesses.filter(access => access.recordId === row.id) })),
+    },
+    redactionAccess: {
+      create: async ({ data }: { data: Omit<AccessRow, 'id' | 'createdAt'> }) => {
+        const row = { id: `access-${++sequence}`, ...data, createdAt: new Date(clock) }
+        accesses.push(row)
+        return row
+      },
+    },
+    $transaction: (ops: Promise<unknown>[]) => Promise.all(ops),
+  })
+  return { db, records, accesses }
+}
+
+describe('Sensitive data detectors', () => {
+  it('accepts NRIC and FIN numbers only with the right check letter', () => {
+    expect(['S1234567D', 'T1234567J', 'F1234567N', 'G1234567X', 'M1234567K', 's1234567d'].map(isValidNric)).toEqual([true, true, true, true, true, true])
+    expect(['S1234567A', 'G1234567K', 'A1234567D', 'S123456D'].map(isValidNric)).toEqual([false, false, false, false])
+
+    expect(redactText('NRIC S1234567D, order S1234567A').text).toBe('NRIC [NRIC/FIN], order S1234567A')
+  })
+
+  it('finds Singapore phone numbers, postal codes and emails', () => {
+    const { text, findings } = redactText(
+      'Call +65 9123 4567, (65) 6123-4567 or 81234567, or email tan.mei+clinic@example.com.sg. Blk 123 Singapore 529889.'
+    )
+
+    expect(text).toBe('Call [phone number], [phone number] or [phone number], or email [email]. Blk 123 Singapore [postal code].')
+    expect(findings.map(finding => finding.type)).toEqual(['PHONE', 'PHONE', 'PHONE', 'EMAIL', 'POSTAL_CODE'])
+  })
+
+  it('leaves numbers that are not phone numbers or postal codes alone', () => {
+    const text = 'Paid $123456 for 12345678 items on 1800 123 4567, ref 749999 and 12.345678'
+    expect(detectSensitiveData(text)).toEqual([])
+  })
+
+  it('redacts medical terms from the dictionary, longest first, but not everyday words', () => {
+    const { text } = redactText('My Tension-Headache and migraines got worse, and gestational diabetes. The room was cold and I was in pain.')
+    expect(text).toBe('My [medical detail] and [medical detail] got worse, and [medical detail]. The room was cold and I was in pain.')
+
+    expect(medicalTermsFrom({ acne: { synonyms: ['pimples', 'breakouts'], relatedConditions: ['oily skin'] } })).toEqual(['oily skin', 'pimples', 'acne'])
+  })
+
+  it('keeps only the first of overlapping findings and can be limited to some types', () => {
+    const findings = detectSensitiveData('Reach me on 91234567 about my asthma', ['PHONE'])
+    expect(findings).toEqual([{ type: 'PHONE', start: 12, end: 20 }])
+    expect(applyRedactions('Reach me on 91234567 about my asthma', findings)).toBe('Reach me on [phone number] about my asthma')
+    expect(describeFindings(redactText('S1234567D, 91234567, 81234567').findings)).toBe('NRIC ×1, PHONE ×2')
+  })
+})
+
+describe('Redaction service', () => {
+  let store: ReturnType<typeof redactionDb>
+  let service: RedactionService
+
+  beforeEach(() => {
+    store = redactionDb()
+    const kmsFile = join(mkdtempSync(join(tmpdir(), 'kms-')), 'local-kms.json')
+    const encryption = new HealthcareEncryptionService({
+      keyRing: new KeyRing(store.db, new LocalFileKeyProvider(kmsFile), { rotationDays: 90 }),
+      legacyMasterKey: null,
+    })
+    service = new RedactionService(store.db, { encryption })
+  })
+
+  const source = { sourceType: 'ENQUIRY' as const, sourceId: 'enquiry-1' }
+  const doctor = { id: 'user-dr-tan', role: 'PROVIDER', reason: 'Following up on the enquiry' }
+
+  it('keeps the original encrypted and logs where findings were, not what they were', async () => {
+    const original = 'My NRIC is S1234567D and I have asthma'
+    const prepared = await service.prepare('message', original)
+    const untouched = await service.prepare('subject', 'Question about opening hours')
+    await service.record(store.db, source, [prepared, untouched], 'patient-mei')
+
+    expect(prepared.text).toBe('My NRIC is [NRIC/FIN] and I have [medical detail]')
+    expect(untouched).toEqual({ field: 'subject', text: 'Question about opening hours', findings: [], encryptedOriginal: null })
+    expect(store.records).toHaveLength(1)
+
+    const [record] = store.records
+    expect(record).toMatchObject({ field: 'message', findingTypes: ['NRIC', 'MEDICAL_TERM'], performedBy: 'patient-mei' })
+    expect(record!.findings).toEqual([
+      { type: 'NRIC', start: 11, end: 20 },
+      { type: 'MEDICAL_TERM', start: 32, end: 38 },
+    ])
+    expect(JSON.stringify(record)).not.toMatch(/S1234567D|asthma/)
+  })
+
+  it('shows the original only to clinical staff with a reason, and logs every view', async () => {
+    await service.record(store.db, source, [await service.prepare('message', 'Call me on 9123 4567')], null)
+
+    await expect(service.reveal(source, 'message', { id: 'user-frontdesk', role: 'STAFF', reason: 'Curious' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    await expect(service.reveal(source, 'message', { ...doctor, reason: '  ' })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await expect(service.reveal(source, 'subject', doctor)).rejects.toMatchObject({ code: 'NOT_FOUND' })
+
+    const revealed = await service.reveal(source, 'message', doctor)
+    expect(revealed).toMatchObject({ original: 'Call me on 9123 4567', redactedText: 'Call me on [phone number]' })
+    expect(store.accesses).toEqual([expect.objectContaining({ recordId: revealed.recordId, viewedBy: 'user-dr-tan', viewerRole: 'PROVIDER', reason: 'Following up on the enquiry' })])
+  })
+
+  it('redacts every string in submitted contact form data and records each field', async () => {
+    const formData = {
+      subject: 'Appointment for my asthma',
+      message: 'NRIC S1234567D, call 9123 4567',
+      preferredTime: 'Morning',
+      symptoms: ['wheezing', 'migraines'],
+      visit: { isFollowUp: true, notes: 'Email mei@example.com' },
+    }
+    const { data, prepared } = await service.prepareFormData('formData', formData)
+    const contactForm = { sourceType: 'CONTACT_FORM' as const, sourceId: 'form-1' }
+    await service.record(store.db, contactForm, prepared, null)
+
+    expect(data).toEqual({
+      subject: 'Appointment for my [medical detail]',
+      message: 'NRIC [NRIC/FIN], call [phone number]',
+      preferredTime: 'Morning',
+      symptoms: ['wheezing', '[medical detail]'],
+      visit: { isFollowUp: true, notes: 'Email [email]' },
+    })
+    expect(store.records.map(record => record.field)).toEqual(['formData.subject', 'formData.message', 'formData.symptoms.1', 'formData.visit.notes'])
+    expect(JSON.stringify(store.records)).not.toMatch(/S1234567D|9123 4567|mei@example/)
+    expect((await service.reveal(contactForm, 'formData.message', doctor)).original).toBe('NRIC S1234567D, call 9123 4567')
+  })
+
+  it('keeps earlier versions of edited text readable', async () => {
+    await service.record(store.db, source, [await service.prepare('message', 'Email me at mei@example.com')], 'patient-mei')
+    await service.record(store.db, source, [await service.prepare('message', 'Email me at mei.tan@example.com instead')], 'patient-mei')
+
+    const history = await service.history(source)
+    expect(history.map(record => record.redactedText)).toEqual(['Email me at [email] instead', 'Email me at [email]'])
+    expect(history[0]).not.toHaveProperty('encryptedOriginal')
+
+    expect((await service.reveal(source, 'message', doctor)).original).toBe('Email me at mei.tan@example.com instead')
+    expect((await service.reveal(source, 'message', doctor, history[1]!.id)).original).toBe('Email me at mei@example.com')
+    expect((await service.history(source))[1]!.accesses).toHaveLength(1)
+  })
+})
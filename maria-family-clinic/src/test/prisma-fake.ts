@@ -0,0 +1,67 @@
+/**
+ * In-memory Prisma stand-ins for service tests
+ *
+ * A fake implements only the delegates and methods its service calls, over rows typed with
+ * the fields the service reads. `matches` evaluates the parts of a where clause those
+ * services use: equality, `not`, `in`, `notIn`, ranges and `OR`; undefined conditions are ignored
+ * as Prisma does.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+
+type Comparable = number | string | Date
+
+interface Filter<T> {
+  not?: T | null
+  in?: T[]
+  notIn?: T[]
+  lt?: T
+  lte?: T
+  gt?: T
+  gte?: T
+}
+
+export type Where<Row> = { [Field in keyof Row]?: Row[Field] | Filter<Row[Field]> } & { OR?: Where<Row>[] }
+
+/** Delegate methods each take the one argument object Prisma passes */
+type FakeDelegate = Record<string, (args: never) => unknown>
+
+export interface PrismaFake {
+  [delegate: string]: FakeDelegate | ((work: never) => unknown)
+}
+
+function isFilter(condition: unknown): condition is Filter<unknown> {
+  return typeof condition === 'object' && condition !== null && !(condition instanceof Date) && !Array.isArray(condition)
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b
+}
+
+export function matches<Row extends object>(row: Row, where: Where<Row> = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) return true
+    if (field === 'OR') return (condition as Where<Row>[]).some(branch => matches(row, branch))
+    const value = (row as Record<string, unknown>)[field]
+    if (!isFilter(condition)) return same(value, condition)
+
+    const { not, in: among, notIn, lt, lte, gt, gte } = condition as Filter<Comparable>
+    const actual = value as Comparable
+    const ranged = lt !== undefined || lte !== undefined || gt !== undefined || gte !== undefined
+    return (
+      (not === undefined || !same(actual, not)) &&
+      (among === undefined || among.some(candidate => same(actual, candidate))) &&
+      (notIn === undefined || !notIn.some(candidate => same(actual, candidate))) &&
+      (!ranged || actual != null) &&
+      (lt === undefined || actual < lt) &&
+      (lte === undefined || actual <= lte) &&
+      (gt === undefined || actual > gt) &&
+      (gte === undefined || actual >= gte)
+    )
+  })
+}
+
+/** Hands a fake to the service under test, which only calls what the fake implements */
+export function asPrismaClient(fake: PrismaFake): PrismaClient {
+  return fake as unknown as PrismaClient
+}
@@ -0,0 +1,43 @@
+/**
+ * Reschedule Policy Tests
+ * Validates the clinic notice and reschedule-limit rules applied by appointment.reschedule
+ */
+
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RESCHEDULE_POLICY, checkReschedulePolicy, remainingReschedules } from '@/lib/booking/policy'
+
+const now = new Date(2025, 5, 10, 9, 0)
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000)
+
+describe('Reschedule policy', () => {
+  it('allows a reschedule with enough notice and reschedules left', () => {
+    expect(checkReschedulePolicy(DEFAULT_RESCHEDULE_POLICY, { appointmentDate: hoursFromNow(48), rescheduleCount: 0 }, now)).toEqual([])
+  })
+
+  it('measures notice against the current appointment time', () => {
+    const violations = checkReschedulePolicy(
+      { minRescheduleNoticeHours: 12, maxReschedules: 2 },
+      { appointmentDate: hoursFromNow(6), rescheduleCount: 0 },
+      now
+    )
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toContain('12 hours')
+  })
+
+  it('enforces the maximum number of reschedules', () => {
+    const violations = checkReschedulePolicy(
+      DEFAULT_RESCHEDULE_POLICY,
+      { appointmentDate: hoursFromNow(48), rescheduleCount: 2 },
+      now
+    )
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toContain('maximum')
+  })
+
+  it('never reports negative remaining reschedules', () => {
+    expect(remainingReschedules(DEFAULT_RESCHEDULE_POLICY, 1)).toBe(1)
+    expect(remainingReschedules(DEFAULT_RESCHEDULE_POLICY, 5)).toBe(0)
+  })
+})
@@ -0,0 +1,360 @@
+/**
+ * Review Moderation Tests
+ * Validates verified-visit gating for patient reviews, screening priorities, flagging,
+ * the moderation queue and its audit trail, edit history and doctor replies
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { DecryptionResult, EncryptedData } from '@/lib/encryption'
+import { RedactionService } from '@/lib/redaction/service'
+import { ReviewService } from '@/lib/reviews/service'
+import { screenReview, screeningPriority, summarizeRatings } from '@/lib/reviews/moderation'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+// Monday 19 October 2026, 9am in Singapore
+const NOW = new Date('2026-10-19T01:00:00.000Z')
+
+const DEFAULTS: Record<string, Record<string, unknown>> = {
+  patientReview: { status: 'PENDING_MODERATION', flagCount: 0, editCount: 0, publishedAt: null, isAnonymous: false },
+  reviewFlag: { status: 'OPEN', details: null, resolvedBy: null, resolvedAt: null },
+  reviewEdit: {},
+  reviewResponse: { status: 'PENDING', editHistory: [], publishedAt: null },
+  reviewModerationItem: { status: 'PENDING', priority: 'LOW', assignedTo: null, decision: null, decidedBy: null, decidedAt: null },
+  reviewModerationEvent: {},
+  redactionRecord: {},
+}
+
+// Reversible stand-in; real encryption of redacted originals is covered by the redaction tests
+const encryption = {
+  encryptHealthData: async (data: string | Buffer) => ({ data: Buffer.from(data).toString('base64') }) as EncryptedData,
+  decryptHealthData: async ({ data }: EncryptedData) => ({ data: Buffer.from(data, 'base64').toString() }) as DecryptionResult,
+}
+
+// Every table's rows keep whatever the service writes; only ratings are read by the fake
+type TableRow = { id: string; createdAt: Date; updatedAt: Date; overallRating?: number; [field: string]: unknown }
+type UniqueWhere = Where<TableRow> & { reviewId_reportedBy?: Where<TableRow> }
+type Changes = Record<string, unknown>
+type Profile = { id: string; rating: number; reviewCount: number }
+
+const isIncrement = (value: unknown): value is { increment: number } => typeof value === 'object' && value !== null && 'increment' in value
+
+// Just enough of Prisma for the review service: equality, `in`, increments and aggregates
+function reviewDb(now: () => Date) {
+  let sequence = 0
+  const tables: Record<string, Map<string, TableRow>> = {}
+  const apply = (row: TableRow, data: Changes) => {
+    for (const [key, value] of Object.entries(data)) {
+      row[key] = isIncrement(value) ? Number(row[key]) + value.increment : value
+    }
+    row.updatedAt = now()
+    return row
+  }
+  const unique = (rows: Map<string, TableRow>, where: UniqueWhere) => {
+    const criteria = where.reviewId_reportedBy ?? where
+    return [...rows.values()].find(row => matches(row, criteria)) ?? null
+  }
+
+  const table = (name: string) => {
+    const rows = new Map<string, TableRow>()
+    tables[name] = rows
+    return {
+      create: async ({ data }: { data: Changes }) => {
+        const row: TableRow = { id: `${name}-${++sequence}`, ...DEFAULTS[name], ...data, createdAt: now(), updatedAt: now() }
+        rows.set(row.id, row)
+        return { ...row }
+      },
+      findUnique: async ({ where }: { where: UniqueWhere }) => {
+        const row = unique(rows, where)
+        return row ? { ...row } : null
+      },
+      findUniqueOrThrow: async ({ where }: { where: UniqueWhere }) => ({ ...unique(rows, where)! }),
+      findFirst: async ({ where }: { where: Where<TableRow> }) => [...rows.values()].find(row => matches(row, where)) ?? null,
+      findMany: async ({ where }: { where?: Where<TableRow> } = {}) => [...rows.values()].filter(row => matches(row, where)).map(row => ({ ...row })),
+      count: async ({ where }: { where: Where<TableRow> }) => [...rows.values()].filter(row => matches(row, where)).length,
+      update: async ({ where, data }: { where: UniqueWhere; data: Changes }) => ({ ...apply(unique(rows, where)!, data) }),
+      updateMany: async ({ where, data }: { where: Where<TableRow>; data: Changes }) => {
+        const matched = [...rows.values()].filter(row => matches(row, where))
+        matched.forEach(row => apply(row, data))
+        return { count: matched.length }
+      },
+      aggregate: async ({ where }: { where: Where<TableRow> }) => {
+        const ratings = [...rows.values()].filter(row => matches(row, where)).map(row => row.overallRating!)
+        const average = ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null
+        return { _avg: { overallRating: average }, _count: { _all: ratings.length } }
+      },
+    }
+  }
+
+  const profiles = new Map<string, Profile>([
+    ['doc-tan', { id: 'doc-tan', rating: 0, reviewCount: 0 }],
+    ['clinic-orchard', { id: 'clinic-orchard', rating: 0, reviewCount: 0 }],
+  ])
+  const profile = {
+    update: async ({ where, data }: { where: { id: string }; data: Partial<Profile> }) => Object.assign(profiles.get(where.id)!, data),
+  }
+
+  const appointments = [
+    { id: 'appt-done', patientId: 'patient-mei', doctorId: 'doc-tan', clinicId: 'clinic-orchard', serviceId: 'svc-gp', status: 'COMPLETED', appointmentDate: new Date('2026-10-12T01:00:00.000Z') },
+    { id: 'appt-booked', patientId: 'patient-mei', doctorId: 'doc-tan', clinicId: 'clinic-orchard', serviceId: 'svc-gp', status: 'SCHEDULED', appointmentDate: new Date('2026-10-26T01:00:00.000Z') },
+    { id: 'appt-old', patientId: 'patient-mei', doctorId: 'doc-tan', clinicId: 'clinic-orchard', serviceId: 'svc-gp', status: 'COMPLETED', appointmentDate: new Date('2026-06-01T01:00:00.000Z') },
+    { id: 'appt-raj', patientId: 'patient-raj', doctorId: 'doc-tan', clinicId: 'clinic-orchard', serviceId: 'svc-gp', status: 'COMPLETED', appointmentDate: new Date('2026-10-15T01:00:00.000Z') },
+  ]
+
+  const db = asPrismaClient({
+    patientReview: table('patientReview'),
+    reviewFlag: table('reviewFlag'),
+    reviewEdit: table('reviewEdit'),
+    reviewResponse: table('reviewResponse'),
+    reviewModerationItem: table('reviewModerationItem'),
+    reviewModerationEvent: table('reviewModerationEvent'),
+    redactionRecord: table('redactionRecord'),
+    doctor: profile,
+    clinic: profile,
+    appointment: {
+      findUnique: async ({ where }: { where: { id: string } }) => appointments.find(appointment => appointment.id === where.id) ?? null,
+      findMany: async ({ where }: { where: { patientId: string; status: string; appointmentDate: { gte: Date } } }) =>
+        appointments.filter(
+          appointment =>
+            appointment.patientId === where.patientId && appointment.status === where.status && appointment.appointmentDate >= where.appointmentDate.gte
+        ),
+    },
+    user: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        [
+          { id: 'patient-mei', name: 'Tan Mei Ling' },
+          { id: 'patient-raj', name: 'Raj' },
+        ].filter(user => where.id.in.includes(user.id)),
+    },
+    $transaction: (fn: (tx: unknown) => unknown) => fn(db),
+  })
+
+  return { db, tables, profiles }
+}
+
+function reviews() {
+  let clock = NOW.getTime()
+  const now = () => new Date(clock)
+  const { db, tables, profiles } = reviewDb(now)
+  const service = new ReviewService(db, { now, redaction: new RedactionService(db, { encryption }) })
+  const advance = (hours: number) => {
+    clock += hours * 3_600_000
+  }
+  const events = () => [...tables.reviewModerationEvent!.values()].map(event => event.action)
+  return { service, tables, profiles, advance, events }
+}
+
+const CLEAN = 'Dr Tan listened carefully and explained the treatment options clearly.'
+
+async function publishedReview(context: ReturnType<typeof reviews>, comment = CLEAN) {
+  const review = await context.service.submit('patient-mei', {
+    appointmentId: 'appt-done',
+    ratings: { overallRating: 4, communication: 5, waitTime: 3 },
+    comment,
+  })
+  const [item] = await context.service.listQueue()
+  await context.service.decide(item!.id, 'moderator-1', { decision: 'APPROVED' })
+  return review
+}
+
+describe('Review submission', () => {
+  it('only accepts a review from the patient of a completed appointment, once', async () => {
+    const { service } = reviews()
+    const input = { ratings: { overallRating: 5 }, comment: CLEAN }
+
+    await expect(service.submit('patient-mei', { ...input, appointmentId: 'appt-missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    await expect(service.submit('patient-mei', { ...input, appointmentId: 'appt-raj' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    await expect(service.submit('patient-mei', { ...input, appointmentId: 'appt-booked' })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    await expect(service.submit('patient-mei', { ...input, appointmentId: 'appt-old' })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+
+    const review = await service.submit('patient-mei', { ...input, appointmentId: 'appt-done' })
+    expect(review).toMatchObject({ doctorId: 'doc-tan', clinicId: 'clinic-orchard', status: 'PENDING_MODERATION', overallRating: 5, communication: null })
+    await expect(service.submit('patient-mei', { ...input, appointmentId: 'appt-done' })).rejects.toMatchObject({ code: 'CONFLICT' })
+    expect(await service.reviewableAppointments('patient-mei')).toEqual([])
+  })
+
+  it('publishes on approval and recomputes doctor and clinic ratings from published reviews', async () => {
+    const context = reviews()
+    const { service, profiles } = context
+    await publishedReview(context)
+
+    expect(profiles.get('doc-tan')).toMatchObject({ rating: 4, reviewCount: 1 })
+    expect(profiles.get('clinic-orchard')).toMatchObject({ rating: 4, reviewCount: 1 })
+
+    const { reviews: listed, total } = await service.listPublished({ doctorId: 'doc-tan' })
+    expect(total).toBe(1)
+    expect(listed[0]).toMatchObject({ authorName: 'Tan M.', isVerified: true, edited: false, ratings: { overallRating: 4, communication: 5, waitTime: 3 } })
+    expect((await service.summary({ clinicId: 'clinic-orchard' })).averages).toMatchObject({ overallRating: 4, waitTime: 3, bedsideManner: null })
+  })
+
+  it('needs a reason to reject and keeps the full audit trail in order', async () => {
+    const { service, events } = reviews()
+    const review = await service.submit('patient-mei', { appointmentId: 'appt-done', ratings: { overallRating: 1 }, comment: CLEAN })
+    const [item] = await service.listQueue()
+
+    await service.claim(item!.id, 'moderator-1')
+    await expect(service.claim(item!.id, 'moderator-2')).rejects.toMatchObject({ code: 'CONFLICT' })
+    await expect(service.decide(item!.id, 'moderator-1', { decision: 'REJECTED' })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await service.decide(item!.id, 'moderator-1', { decision: 'REJECTED', reason: 'Describes a different clinic' })
+
+    const history = await service.history(review.id)
+    expect(history.review.status).toBe('REJECTED')
+    expect(history.items[0]).toMatchObject({ status: 'RESOLVED', decision: 'REJECTED', decidedBy: 'moderator-1' })
+    expect(events()).toEqual(['SUBMITTED', 'CLAIMED', 'REJECTED'])
+    expect(history.events[2]).toMatchObject({ fromStatus: 'PENDING_MODERATION', toStatus: 'REJECTED', reason: 'Describes a different clinic' })
+  })
+})
+
+describe('Review screening', () => {
+  it('queues reviews with personal data ahead of clean ones', async () => {
+    expect(screenReview('Nurse said call 9123 4567 or email nurse@clinic.sg')).toEqual(['contact_details', 'link'])
+    expect(screeningPriority(screenReview('My NRIC S1234567D was printed on the receipt'))).toBe('URGENT')
+    expect(screeningPriority(screenReview('THE WAIT WAS TERRIBLE AND NOBODY CARED AT ALL'))).toBe('MEDIUM')
+    expect(screeningPriority(screenReview(CLEAN))).toBe('LOW')
+
+    const { service, advance } = reviews()
+    await service.submit('patient-raj', { appointmentId: 'appt-raj', ratings: { overallRating: 3 }, comment: CLEAN })
+    advance(1)
+    // Fails the NRIC check so it is not redacted, but a moderator should still look first
+    await service.submit('patient-mei', { appointmentId: 'appt-done', ratings: { overallRating: 2 }, comment: 'They read out S1234567A in the waiting room' })
+
+    const queue = await service.listQueue()
+    expect(queue.map(item => [item.review.patientId, item.priority])).toEqual([
+      ['patient-mei', 'URGENT'],
+      ['patient-raj', 'LOW'],
+    ])
+    expect(queue[0]!.dueAt).toEqual(new Date(NOW.getTime() + 5 * 3_600_000))
+  })
+
+  it('averages each dimension over the reviews that rated it', () => {
+    const rated = (overallRating: number, communication: number | null) => ({
+      overallRating,
+      communication,
+      bedsideManner: null,
+      treatmentEffectiveness: null,
+      painManagement: null,
+      followUpCare: null,
+      waitTime: null,
+      facilityEnvironment: null,
+    })
+    const summary = summarizeRatings([rated(5, 4), rated(4, null), rated(4, 5)])
+    expect(summary).toMatchObject({ count: 3, averages: { overallRating: 4.33, communication: 4.5, waitTime: null } })
+  })
+})
+
+describe('Review redaction', () => {
+  it('stores comments and replies with personal and medical details redacted', async () => {
+    const context = reviews()
+    const { service, tables } = context
+    const review = await publishedReview(context, 'Dr Tan sorted out my asthma quickly. My NRIC S1234567D was on the screen though.')
+
+    expect(review.comment).toBe('Dr Tan sorted out my [medical detail] quickly. My NRIC [NRIC/FIN] was on the screen though.')
+    expect(review.screeningFindings).toEqual([])
+    expect((await service.history(review.id)).events[0]).toMatchObject({ notes: 'Redacted: MEDICAL_TERM ×1, NRIC ×1' })
+
+    const response = await service.respond(review.id, 'provider-tan', 'Sorry about that, please call 6123 4567.')
+    expect(response.text).toBe('Sorry about that, please call [phone number].')
+
+    const records = [...tables.redactionRecord!.values()]
+    expect(records.map(record => [record.sourceType, record.sourceId, record.field])).toEqual([
+      ['PATIENT_REVIEW', review.id, 'comment'],
+      ['REVIEW_RESPONSE', response.id, 'text'],
+    ])
+    expect(JSON.stringify(records)).not.toMatch(/S1234567D|asthma|6123 4567/)
+  })
+})
+
+describe('Review flagging', () => {
+  it('hides a review after three minor flags and restores it when the flags are dismissed', async () => {
+    const context = reviews()
+    const { service, profiles } = context
+    const review = await publishedReview(context)
+
+    await expect(service.flag('patient-mei', review.id, { reason: 'SPAM' })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+    await service.flag('user-1', review.id, { reason: 'SPAM' })
+    await expect(service.flag('user-1', review.id, { reason: 'FAKE' })).rejects.toMatchObject({ code: 'CONFLICT' })
+    await service.flag('user-2', review.id, { reason: 'FAKE' })
+    expect((await service.getReview(review.id)).status).toBe('PUBLISHED')
+
+    await service.flag('user-3', review.id, { reason: 'SPAM' })
+    expect((await service.getReview(review.id)).status).toBe('FLAGGED')
+    expect(profiles.get('doc-tan')).toMatchObject({ rating: 0, reviewCount: 0 })
+
+    const queue = await service.listQueue({ type: 'FLAGGED_REVIEW' })
+    expect(queue).toHaveLength(1)
+    expect(queue[0]).toMatchObject({ priority: 'HIGH' })
+    expect(queue[0]!.openFlags).toHaveLength(3)
+
+    await service.decide(queue[0]!.id, 'moderator-1', { decision: 'APPROVED', notes: 'Genuine visit' })
+    expect(await service.getReview(review.id)).toMatchObject({ status: 'PUBLISHED', flagCount: 0 })
+    expect((await service.history(review.id)).flags.map(flag => flag.status)).toEqual(['DISMISSED', 'DISMISSED', 'DISMISSED'])
+    expect(profiles.get('doc-tan')).toMatchObject({ rating: 4, reviewCount: 1 })
+  })
+
+  it('takes a review down at once for a privacy flag and removes it when upheld', async () => {
+    const context = reviews()
+    const { service, events } = context
+    const review = await publishedReview(context)
+
+    await service.flag('user-1', review.id, { reason: 'PRIVACY', details: 'Names another patient' })
+    expect((await service.getReview(review.id)).status).toBe('FLAGGED')
+    const [item] = await service.listQueue({ type: 'FLAGGED_REVIEW' })
+    expect(item).toMatchObject({ priority: 'URGENT' })
+
+    await service.decide(item!.id, 'moderator-1', { decision: 'REJECTED', reason: 'Identifies another patient' })
+    expect((await service.getReview(review.id)).status).toBe('REMOVED')
+    expect((await service.history(review.id)).flags[0]).toMatchObject({ status: 'UPHELD', resolvedBy: 'moderator-1' })
+    expect(events()).toEqual(['SUBMITTED', 'APPROVED', 'FLAGGED', 'REJECTED'])
+    await expect(service.update('patient-mei', review.id, { comment: CLEAN })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+  })
+})
+
+describe('Review edits and replies', () => {
+  it('keeps the previous version and sends an edited review back to moderation', async () => {
+    const context = reviews()
+    const { service, profiles, advance } = context
+    const review = await publishedReview(context)
+
+    advance(24)
+    await expect(service.update('patient-raj', review.id, { comment: CLEAN })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    const edited = await service.update('patient-mei', review.id, {
+      ratings: { overallRating: 2 },
+      comment: 'The follow-up call never came, so I am lowering my rating.',
+      reason: 'Follow-up missed',
+    })
+    expect(edited).toMatchObject({ status: 'PENDING_MODERATION', editCount: 1, overallRating: 2, communication: null })
+    expect(profiles.get('doc-tan')).toMatchObject({ reviewCount: 0 })
+
+    const history = await service.history(review.id)
+    expect(history.edits).toEqual([
+      expect.objectContaining({ previousComment: CLEAN, previousRatings: { overallRating: 4, communication: 5, waitTime: 3 }, reason: 'Follow-up missed' }),
+    ])
+
+    const [item] = await service.listQueue()
+    expect(item).toMatchObject({ type: 'EDITED_REVIEW' })
+    await service.decide(item!.id, 'moderator-1', { decision: 'APPROVED' })
+    expect(profiles.get('doc-tan')).toMatchObject({ rating: 2, reviewCount: 1 })
+    expect((await service.listPublished({ doctorId: 'doc-tan' })).reviews[0]).toMatchObject({ edited: true })
+
+    advance(24 * 30)
+    await expect(service.update('patient-mei', review.id, { comment: CLEAN })).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+  })
+
+  it('publishes a doctor reply after moderation and keeps earlier wording', async () => {
+    const context = reviews()
+    const { service, events } = context
+    const review = await publishedReview(context)
+
+    await service.respond(review.id, 'provider-tan', 'Thank you for the kind words.')
+    let [item] = await service.listQueue({ type: 'DOCTOR_RESPONSE' })
+    expect((await service.listPublished({ doctorId: 'doc-tan' })).reviews[0]!.response).toBeNull()
+    await service.decide(item!.id, 'moderator-1', { decision: 'APPROVED' })
+    expect((await service.listPublished({ doctorId: 'doc-tan' })).reviews[0]!.response).toMatchObject({ text: 'Thank you for the kind words.' })
+
+    const changed = await service.respond(review.id, 'provider-tan', 'Thank you, we hope to see you again.')
+    expect(changed).toMatchObject({ status: 'PENDING', editHistory: [expect.objectContaining({ text: 'Thank you for the kind words.' })] })
+    ;[item] = await service.listQueue({ type: 'DOCTOR_RESPONSE' })
+    await service.decide(item!.id, 'moderator-2', { decision: 'REJECTED', reason: 'Names the patient in the reply' })
+
+    expect(events()).toEqual(['SUBMITTED', 'APPROVED', 'RESPONSE_SUBMITTED', 'RESPONSE_APPROVED', 'RESPONSE_SUBMITTED', 'RESPONSE_REJECTED'])
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Schedule Optimizer Tests
+ * Validates leave, travel and break constraints and the roster diff used by /api/schedule/optimize,
+ * and substitutes found for a doctor's leave
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { DayOfWeek, LeaveStatus } from '@prisma/client'
+import { atSingaporeTime, dayOfWeekForKey, singaporeDateKey } from '@/lib/clinic-hours/calendar'
+import { LeaveCoverageService } from '@/lib/scheduling/coverage'
+import { ScheduleOptimizationService, type RosterDiffEntry } from '@/lib/scheduling/service'
+import {
+  optimizeRoster,
+  resolveWeights,
+  DEFAULT_SHIFTS,
+  type OptimizationProblem,
+  type RosterAssignment,
+} from '@/lib/scheduling/optimizer'
+import { asPrismaClient, matches, type Where } from './prisma-fake'
+
+const DATE = '2025-03-03'
+
+// Clinics A and B are 20 minutes apart, C is an hour from both
+const TRAVEL: Record<string, number> = { 'A|B': 20, 'B|A': 20, 'A|C': 60, 'C|A': 60, 'B|C': 60, 'C|B': 60 }
+
+function problem(overrides: Partial<OptimizationProblem> = {}): OptimizationProblem {
+  const current: RosterAssignment[] = overrides.current ?? [
+    { doctorId: 'doc-1', clinicId: 'A', date: DATE, shiftId: 'AM', scheduleId: 's1' },
+    { doctorId: 'doc-2', clinicId: 'B', date: DATE, shiftId: 'AM', scheduleId: 's2' },
+  ]
+
+  return {
+    dates: [DATE],
+    shifts: DEFAULT_SHIFTS,
+    doctors: [
+      { id: 'doc-1', clinicIds: ['A', 'B'] },
+      { id: 'doc-2', clinicIds: ['B', 'C'] },
+      { id: 'doc-3', clinicIds: ['A', 'B', 'C'] },
+    ],
+    current,
+    demand: current.map(a => ({ clinicId: a.clinicId, date: a.date, shiftId: a.shiftId, doctors: 1 })),
+    unavailable: [],
+    travelMinutes: (from, to) => (from === to ? 0 : TRAVEL[`${from}|${to}`] ?? 30),
+    constraints: {},
+    weights: resolveWeights('efficiency'),
+    ...overrides,
+  }
+}
+
+describe('Schedule optimizer', () => {
+  it('keeps a feasible roster unchanged', () => {
+    const result = optimizeRoster(problem())
+
+    expect(result.changes).toEqual([])
+    expect(result.after.coverageRate).toBe(100)
+  })
+
+  it('covers a shift left open by leave with an affiliated doctor', () => {
+    const result = optimizeRoster(problem({ unavailable: [{ doctorId: 'doc-1', date: DATE, shiftId: 'AM' }] }))
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ action: 'REMOVE', doctorId: 'doc-1', fromClinicId: 'A', scheduleId: 's1' }),
+      expect.objectContaining({ action: 'ADD', doctorId: 'doc-3', toClinicId: 'A', startTime: '09:00', endTime: '13:00' }),
+    ])
+    expect(result.after.uncovered).toBe(0)
+  })
+
+  it('rejects consecutive shifts that leave too little break after travel', () => {
+    const current: RosterAssignment[] = [
+      { doctorId: 'doc-3', clinicId: 'A', date: DATE, shiftId: 'AM', scheduleId: 's1' },
+      { doctorId: 'doc-3', clinicId: 'C', date: DATE, shiftId: 'PM', scheduleId: 's2' },
+    ]
+    const result = optimizeRoster(problem({ current, constraints: { minBreakTime: 30 } }))
+
+    // A -> C takes 60 of the 60 minute gap, so doc-2 takes over the afternoon at C
+    expect(result.assignments.map(a => [a.doctorId, a.shiftId, a.clinicId])).toEqual([
+      ['doc-2', 'PM', 'C'],
+      ['doc-3', 'AM', 'A'],
+    ])
+    expect(result.before.travelMinutes).toBe(60)
+    expect(result.after.travelMinutes).toBe(0)
+  })
+
+  it('moves shifts away from avoided clinics when possible', () => {
+    const result = optimizeRoster(problem({ constraints: { avoidClinics: ['B'] } }))
+
+    expect(result.assignments.some(a => a.clinicId === 'B')).toBe(false)
+  })
+
+  it('is deterministic', () => {
+    const input = problem({ unavailable: [{ doctorId: 'doc-2', date: DATE, shiftId: 'AM' }] })
+
+    expect(optimizeRoster(input)).toEqual(optimizeRoster(input))
+  })
+
+  it('lets objectives override the priority weights', () => {
+    expect(resolveWeights('distance', [{ metric: 'travel', weight: 5 }, { metric: 'unknown', weight: 9 }])).toEqual({
+      coverage: 1,
+      travel: 5,
+      stability: 0.5,
+      balance: 0.5,
+      preference: 1,
+    })
+  })
+})
+
+describe('Leave coverage', () => {
+  const clinic = { id: 'A', postalCode: '609731', latitude: 1.3329, longitude: 103.7436 }
+  const MONDAY = '2025-03-03'
+
+  // doc-1 works 09:00-13:00 and 14:00-18:00 at clinic A every Monday; doc-3 is the only other doctor there
+  const schedules = [['09:00', '13:00'], ['14:00', '18:00']].map(([startTime, endTime]) => ({
+    id: `doc-1-${startTime}`,
+    doctorId: 'doc-1',
+    dayOfWeek: 'MONDAY',
+    specificDate: null,
+    effectiveFrom: atSingaporeTime('2025-01-06'),
+    effectiveTo: null,
+    startTime,
+    endTime,
+    doctorClinic: { clinic },
+  }))
+  const afternoonOff = {
+    doctorId: 'doc-3',
+    startDate: atSingaporeTime(MONDAY),
+    endDate: atSingaporeTime(MONDAY),
+    isHalfDay: true,
+    startTime: '14:00',
+    endTime: '18:00',
+  }
+
+  const db = asPrismaClient({
+    clinic: { findUnique: async () => clinic },
+    doctorClinic: { findMany: async () => [{ doctor: { id: 'doc-3', name: 'Dr Tan' } }] },
+    doctorSchedule: {
+      findMany: async ({ where }: { where: { doctorId: { in: string[] } } }) =>
+        schedules.filter(schedule => where.doctorId.in.includes(schedule.doctorId)),
+    },
+    doctorLeave: {
+      findMany: async ({ where }: { where: { doctorId: { in: string[] } } }) =>
+        [afternoonOff].filter(leave => where.doctorId.in.includes(leave.doctorId)),
+    },
+  })
+  const travel = { getTravelMinutes: async () => 0 }
+
+  it('covers only the sessions inside half-day leave, with substitutes on half-day leave themselves', async () => {
+    const arrangement = await new LeaveCoverageService(db, travel).arrange('doc-1', 'A', {
+      startDate: atSingaporeTime(MONDAY),
+      endDate: atSingaporeTime(MONDAY),
+      isHalfDay: true,
+      startTime: '09:00',
+      endTime: '13:00',
+    })
+
+    expect(arrangement.sessions).toEqual([{ date: MONDAY, startTime: '09:00', endTime: '13:00' }])
+    expect(arrangement.assignments).toEqual([{ date: MONDAY, startTime: '09:00', endTime: '13:00', doctorId: 'doc-3' }])
+    expect(arrangement.uncoveredSessions).toEqual([])
+  })
+
+  it('covers every session of full-day leave, on Singapore dates', async () => {
+    const arrangement = await new LeaveCoverageService(db, travel).arrange('doc-1', 'A', {
+      startDate: atSingaporeTime(MONDAY),
+      endDate: atSingaporeTime(MONDAY),
+      isHalfDay: false,
+      startTime: null,
+      endTime: null,
+    })
+
+    expect(arrangement.sessions.map(session => `${session.date} ${session.startTime}`)).toEqual([`${MONDAY} 09:00`, `${MONDAY} 14:00`])
+    expect(arrangement.substitutes[0]!.unavailableSessions).toEqual([
+      { date: MONDAY, startTime: '14:00', endTime: '18:00', reason: 'ON_LEAVE' },
+    ])
+  })
+})
+
+describe('Roster diff', () => {
+  const clinic = { id: 'A', postalCode: '609731', latitude: 1.3329, longitude: 103.7436 }
+  const LEAVE_MONDAY = '2025-03-03'
+  const NEXT_MONDAY = '2025-03-10'
+
+  interface ScheduleRow {
+    id: string
+    doctorId: string
+    dayOfWeek: DayOfWeek | null
+    specificDate: Date | null
+    startTime: string
+    endTime: string
+    isRecurring: boolean
+    isActive: boolean
+    effectiveFrom: Date
+    effectiveTo: Date | null
+    doctorClinic: { clinicId: string }
+  }
+
+  interface LeaveRow {
+    doctorId: string
+    status: LeaveStatus
+    startDate: Date
+    endDate: Date
+    isHalfDay: boolean
+    startTime: string | null
+    endTime: string | null
+  }
+
+  // doc-1 works the morning shift at clinic A every Monday and takes the first Monday off
+  const schedules: ScheduleRow[] = [
+    {
+      id: 'weekly-am',
+      doctorId: 'doc-1',
+      dayOfWeek: 'MONDAY',
+      specificDate: null,
+      startTime: '09:00',
+      endTime: '13:00',
+      isRecurring: true,
+      isActive: true,
+      effectiveFrom: atSingaporeTime('2025-01-06'),
+      effectiveTo: null,
+      doctorClinic: { clinicId: 'A' },
+    },
+  ]
+  const leaves: LeaveRow[] = [
+    {
+      doctorId: 'doc-1',
+      status: 'APPROVED',
+      startDate: atSingaporeTime(LEAVE_MONDAY),
+      endDate: atSingaporeTime(LEAVE_MONDAY),
+      isHalfDay: false,
+      startTime: null,
+      endTime: null,
+    },
+  ]
+
+  const db = asPrismaClient({
+    doctor: { findMany: async () => ['doc-1', 'doc-2'].map(id => ({ id, clinics: [{ clinicId: 'A', clinic }] })) },
+    doctorSchedule: {
+      findMany: async ({ where }: { where: Where<ScheduleRow> }) => schedules.filter(schedule => matches(schedule, where)),
+    },
+    doctorLeave: {
+      findMany: async ({ where }: { where: Where<LeaveRow> }) => leaves.filter(leave => matches(leave, where)),
+    },
+  })
+  const service = new ScheduleOptimizationService(db, { getTravelMinutes: async () => 0 })
+
+  // What doctorSchedule.upsertSchedule stores for each applicable entry
+  function apply(diff: RosterDiffEntry[]) {
+    for (const { applicable, upsert } of diff) {
+      if (!applicable || !upsert) continue
+      const fields = {
+        startTime: upsert.startTime,
+        endTime: upsert.endTime,
+        isRecurring: upsert.isRecurring,
+        isActive: upsert.isActive,
+        doctorClinic: { clinicId: upsert.clinicId },
+        dayOfWeek: upsert.isRecurring ? dayOfWeekForKey(singaporeDateKey(upsert.date)) : null,
+        specificDate: upsert.isRecurring ? null : upsert.date,
+      }
+      const existing = schedules.find(schedule => schedule.id === upsert.scheduleId)
+      if (existing) Object.assign(existing, fields)
+      else schedules.push({ id: `schedule-${schedules.length}`, doctorId: upsert.doctorId, effectiveFrom: upsert.date, effectiveTo: null, ...fields })
+    }
+  }
+
+  it('keeps a weekly schedule when the doctor is on leave for one week', async () => {
+    const { diff } = await service.optimize({ priority: 'efficiency', weekStart: atSingaporeTime(LEAVE_MONDAY) })
+
+    expect(diff).toContainEqual(
+      expect.objectContaining({ action: 'REMOVE', doctorId: 'doc-1', scheduleId: 'weekly-am', scope: 'RECURRING', applicable: false })
+    )
+    expect(diff).toContainEqual(expect.objectContaining({ action: 'ADD', doctorId: 'doc-2', date: LEAVE_MONDAY, applicable: true }))
+
+    apply(diff)
+    const { assignments } = await service.optimize({ priority: 'efficiency', weekStart: atSingaporeTime(NEXT_MONDAY) })
+
+    expect(assignments).toContainEqual(
+      expect.objectContaining({ doctorId: 'doc-1', clinicId: 'A', date: NEXT_MONDAY, shiftId: 'AM', scheduleId: 'weekly-am' })
+    )
+  })
+})
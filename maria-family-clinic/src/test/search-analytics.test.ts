@@ -0,0 +1,215 @@
+/**
+ * Search Analytics Tests
+ * Validates failed-query mining, clustering, synonym proposals and the staff review queue
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  clusterQueries,
+  detectQueryLanguage,
+  failedQueryReport,
+  proposeSynonyms,
+  type SearchEvent,
+} from '@/lib/search-analytics/mining'
+import { SearchAnalyticsError, SearchAnalyticsService } from '@/lib/search-analytics/service'
+import { asPrismaClient } from './prisma-fake'
+
+const SERVICE_CATEGORIES = new Map([
+  ['svc-diabetes', 'cat-screening'],
+  ['svc-cholesterol', 'cat-screening'],
+  ['svc-flu', 'cat-vaccines'],
+])
+
+let clock = Date.parse('2026-10-01T02:00:00.000Z')
+function search(query: string, sessionId: string, resultsCount: number, clickedIds: string[] = [], language: string | null = null): SearchEvent {
+  clock += 60_000
+  return { query, sessionId, at: new Date(clock), resultsCount, clickedIds, language }
+}
+
+// Patients search "sugar test", find nothing, then search "diabetes screening" and book it
+const SUGAR_TEST_SESSIONS = ['s1', 's2', 's3', 's4'].flatMap(session => [
+  search(session === 's2' ? 'Sugar Tset' : 'sugar test', session, 0),
+  search('diabetes screening', session, 3, ['svc-diabetes']),
+])
+
+describe('Search log mining', () => {
+  it('detects the query language from its script and Malay words', () => {
+    expect(detectQueryLanguage('血糖检查')).toBe('zh')
+    expect(detectQueryLanguage('இரத்த பரிசோதனை')).toBe('ta')
+    expect(detectQueryLanguage('ujian darah')).toBe('ms')
+    expect(detectQueryLanguage('blood test')).toBe('en')
+  })
+
+  it('clusters typo variants of the same query', () => {
+    const clusters = clusterQueries(['sugar test', 'sugar tset', 'suger test', 'flu jab', 'flu jabs'])
+    expect(clusters).toEqual([
+      ['sugar test', 'sugar tset', 'suger test'],
+      ['flu jab', 'flu jabs'],
+    ])
+  })
+
+  it('proposes a service synonym from reformulation clicks', () => {
+    const [proposal, ...rest] = proposeSynonyms(SUGAR_TEST_SESSIONS, { serviceCategories: SERVICE_CATEGORIES })
+
+    expect(rest).toEqual([])
+    expect(proposal).toMatchObject({
+      term: 'sugar test',
+      normalizedTerm: 'sugar test',
+      language: 'en',
+      targetType: 'SERVICE',
+      targetId: 'svc-diabetes',
+      confidence: 0.667,
+      searchCount: 4,
+      zeroResultCount: 4,
+    })
+    expect(proposal!.evidence.queries.map(query => query.query)).toEqual(['sugar test', 'Sugar Tset'])
+  })
+
+  it('proposes a category synonym when clicks are split across its services', () => {
+    const events = ['s1', 's2', 's3', 's4', 's5', 's6'].flatMap((session, i) => [
+      search('darah check', session, 0, [], 'ms'),
+      search('blood test', session, 5, [i % 2 === 0 ? 'svc-diabetes' : 'svc-cholesterol']),
+    ])
+
+    expect(proposeSynonyms(events, { serviceCategories: SERVICE_CATEGORIES })).toEqual([
+      expect.objectContaining({ term: 'darah check', language: 'ms', targetType: 'CATEGORY', targetId: 'cat-screening', confidence: 1 }),
+    ])
+  })
+
+  it('ignores clicks outside the time window and on non-service results', () => {
+    const late = search('sugar test', 'late', 0)
+    clock += 60 * 60 * 1000
+    const events = [late, search('diabetes screening', 'late', 3, ['svc-diabetes']), search('sugar test', 'clinic', 0), search('clinic', 'clinic', 4, ['clinic-1'])]
+
+    expect(proposeSynonyms(events, { serviceCategories: SERVICE_CATEGORIES })).toEqual([])
+  })
+
+  it('reports the top failed queries per language', () => {
+    const events = [
+      ...SUGAR_TEST_SESSIONS,
+      search('流感疫苗', 'z1', 0),
+      search('流感疫苗', 'z2', 0),
+      search('体检', 'z3', 4, ['svc-diabetes']),
+    ]
+
+    expect(failedQueryReport(events)).toEqual([
+      {
+        language: 'en',
+        searches: 8,
+        failedSearches: 4,
+        topFailedQueries: [
+          { query: 'sugar test', searches: 3, zeroResults: 3, clickThroughRate: 0 },
+          { query: 'Sugar Tset', searches: 1, zeroResults: 1, clickThroughRate: 0 },
+        ],
+      },
+      {
+        language: 'zh',
+        searches: 3,
+        failedSearches: 2,
+        topFailedQueries: [{ query: '流感疫苗', searches: 2, zeroResults: 2, clickThroughRate: 0 }],
+      },
+    ])
+  })
+})
+
+describe('Synonym review queue', () => {
+  // In-memory tables for the mining job and review flow
+  function reviewDb() {
+    const suggestions: Record<string, unknown>[] = []
+    const serviceSynonyms: { serviceId: string; term: string; language: string }[] = []
+    const db = asPrismaClient({
+      searchLog: {
+        findMany: async () =>
+          SUGAR_TEST_SESSIONS.map(event => ({
+            searchQuery: event.query,
+            sessionId: event.sessionId,
+            timestamp: event.at,
+            resultsCount: event.resultsCount,
+            clickedResults: event.clickedIds,
+            language: 'en',
+          })),
+      },
+      crossSystemSearchLog: { findMany: async () => [] },
+      service: {
+        findMany: async () => [
+          { id: 'svc-diabetes', name: 'Diabetes Screening', categoryId: 'cat-screening' },
+          { id: 'svc-flu', name: 'Flu Vaccination', categoryId: 'cat-vaccines' },
+        ],
+      },
+      serviceSynonym: {
+        findMany: async () => serviceSynonyms,
+        upsert: async ({ create }: { create: { serviceId: string; term: string; language: string } }) => {
+          serviceSynonyms.push(create)
+          return create
+        },
+      },
+      serviceCategory: { findMany: async () => [] },
+      synonymSuggestion: {
+        findMany: async () => suggestions,
+        findUnique: async ({ where }: { where: { id: string } }) => suggestions.find(s => s.id === where.id) ?? null,
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          const row = { id: `sug-${suggestions.length + 1}`, status: 'PENDING', termType: 'COMMON_NAME', ...data }
+          suggestions.push(row)
+          return row
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+          const row = suggestions.find(s => s.id === where.id)!
+          Object.assign(row, data)
+          return row
+        },
+      },
+      $transaction: (ops: Promise<unknown>[]) => Promise.all(ops),
+    })
+    return { db, suggestions, serviceSynonyms }
+  }
+
+  it('queues suggestions, refreshes pending ones and approves them into the synonyms', async () => {
+    const { db, suggestions, serviceSynonyms } = reviewDb()
+    const analytics = new SearchAnalyticsService(db)
+    const from = new Date('2026-09-01T00:00:00.000Z')
+    const to = new Date('2026-10-31T00:00:00.000Z')
+
+    expect(await analytics.mineSynonymSuggestions(from, to)).toEqual({ searches: 8, proposals: 1, created: 1, updated: 0, skipped: 0 })
+    expect(await analytics.mineSynonymSuggestions(from, to)).toMatchObject({ created: 0, updated: 1 })
+    expect(suggestions).toHaveLength(1)
+
+    const approved = await analytics.approveSuggestion({ suggestionId: 'sug-1', reviewerId: 'staff-1', term: 'Sugar test' })
+    expect(approved).toMatchObject({ status: 'APPROVED', term: 'Sugar test', reviewedBy: 'staff-1' })
+    expect(serviceSynonyms).toEqual([{ serviceId: 'svc-diabetes', term: 'Sugar test', termType: 'COMMON_NAME', language: 'en' }])
+
+    // Reviewed suggestions are final and are not proposed again
+    await expect(analytics.rejectSuggestion('sug-1', 'staff-2')).rejects.toMatchObject({ code: 'CONFLICT' })
+    expect(await analytics.mineSynonymSuggestions(from, to)).toMatchObject({ created: 0, updated: 0, skipped: 1 })
+    await expect(analytics.approveSuggestion({ suggestionId: 'missing', reviewerId: 'staff-1' })).rejects.toBeInstanceOf(
+      SearchAnalyticsError
+    )
+  })
+})
+
+describe('Search logging', () => {
+  it('logs a search once per session, query and window', async () => {
+    const logs: { id: string; sessionId: string; searchQuery: string; timestamp: Date }[] = []
+    const db = asPrismaClient({
+      searchLog: {
+        findFirst: async ({ where }: { where: { sessionId: string; searchQuery: string; timestamp: { gte: Date } } }) =>
+          logs.find(
+            log => log.sessionId === where.sessionId && log.searchQuery === where.searchQuery && log.timestamp >= where.timestamp.gte
+          ) ?? null,
+        create: async ({ data }: { data: { sessionId: string; searchQuery: string; timestamp: Date } }) => {
+          const log = { id: `log-${logs.length + 1}`, ...data }
+          logs.push(log)
+          return log
+        },
+      },
+    })
+    const analytics = new SearchAnalyticsService(db)
+    const input = { sessionId: 's1', query: 'flu jab', filters: {}, resultsCount: 2, responseTimeMs: 40 }
+    const at = (minutes: number) => new Date(Date.parse('2026-10-19T02:00:00.000Z') + minutes * 60_000)
+
+    expect(await analytics.logSearch(input, at(0))).toBe('log-1')
+    expect(await analytics.logSearch(input, at(5))).toBe('log-1')
+    expect(await analytics.logSearch({ ...input, query: 'flu vaccine' }, at(5))).toBe('log-2')
+    expect(await analytics.logSearch({ ...input, sessionId: 's2' }, at(5))).toBe('log-3')
+    expect(await analytics.logSearch(input, at(31))).toBe('log-4')
+  })
+})
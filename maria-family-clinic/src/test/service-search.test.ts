@@ -0,0 +1,211 @@
+/**
+ * Service Search Tests
+ * Validates BM25 ranking, typo tolerance, multilingual synonym expansion and highlighted snippets
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MEDICAL_TERMINOLOGY } from '@/lib/service-taxonomy'
+import { ServiceSearchEngine, type SearchDocument } from '@/lib/service-search/engine'
+import { highlight, snippet } from '@/lib/service-search/snippets'
+import { ServiceSearchService } from '@/lib/service-search/service'
+import { editDistance, terms } from '@/lib/service-search/text'
+import { asPrismaClient } from './prisma-fake'
+
+const DOCUMENTS: SearchDocument[] = [
+  {
+    id: 'diabetes',
+    name: 'Diabetes Screening',
+    fields: {
+      name: [{ text: 'Diabetes Screening' }],
+      synonym: [{ text: '血糖检查' }, { text: 'saringan kencing manis' }, { text: 'blood sugar test' }],
+      keyword: [{ text: 'HbA1c' }, { text: 'glucose' }],
+      category: [{ text: 'Health Screening' }],
+      description: [{ text: 'Fasting glucose and HbA1c tests to detect diabetes early.' }],
+    },
+  },
+  {
+    id: 'glucose',
+    name: 'Blood Glucose Monitoring',
+    fields: {
+      name: [{ text: 'Blood Glucose Monitoring' }],
+      category: [{ text: 'Chronic Care' }],
+      description: [{ text: 'Regular glucose checks for patients with diabetes.' }],
+    },
+  },
+  {
+    id: 'flu',
+    name: 'Influenza Vaccination',
+    fields: {
+      name: [{ text: 'Influenza Vaccination' }],
+      synonym: [{ text: 'flu jab' }, { text: '流感疫苗' }],
+      category: [{ text: 'Immunisations' }, { text: 'vaccines', weight: 1.5 }],
+      description: [{ text: 'Yearly flu vaccine recommended for seniors.' }],
+    },
+  },
+  {
+    id: 'eye',
+    name: 'Diabetic Eye Screening',
+    boost: 1.2,
+    fields: {
+      name: [{ text: 'Diabetic Eye Screening' }],
+      category: [{ text: 'Health Screening' }],
+      description: [{ text: 'Retinal photography for people with diabetes.' }],
+    },
+  },
+]
+
+const engine = new ServiceSearchEngine(DOCUMENTS, {
+  synonyms: [{ terms: ['Diabetes Screening', '血糖检查', 'blood sugar test'] }],
+  vocabulary: Object.values(MEDICAL_TERMINOLOGY).flat(),
+})
+
+describe('Search text processing', () => {
+  it('splits Chinese into bigrams and English into stemmed words', () => {
+    expect(terms('血糖检查')).toEqual(['血糖', '糖检', '检查'])
+    expect(terms('Vaccinations for the Elderly')).toEqual(['vaccination', 'elderly'])
+    expect(terms('Diabetes')).toEqual(['diabete'])
+  })
+
+  it('counts transpositions as one edit and stops past the limit', () => {
+    expect(editDistance('screeing', 'screening', 2)).toBe(1)
+    expect(editDistance('vacicne', 'vaccine', 2)).toBe(1)
+    expect(editDistance('cardiology', 'dermatology', 2)).toBe(3)
+  })
+})
+
+describe('Service search engine', () => {
+  it('ranks the service named by the query first', () => {
+    const { hits } = engine.search('diabetes screening')
+    expect(hits[0]!.id).toBe('diabetes')
+    expect(hits.map(hit => hit.id)).toContain('eye')
+    expect(hits.every((hit, i) => i === 0 || hits[i - 1]!.score >= hit.score)).toBe(true)
+  })
+
+  it('tolerates typos and suggests the corrected query', () => {
+    const outcome = engine.search('diabetis screeing')
+    expect(outcome.hits[0]!.id).toBe('diabetes')
+    expect(outcome.correctedQuery).toBe('diabetes screening')
+    expect(engine.search('influensa vacination').hits[0]!.id).toBe('flu')
+  })
+
+  it('matches Chinese and Malay synonyms', () => {
+    expect(engine.search('血糖检查').hits[0]!.id).toBe('diabetes')
+    expect(engine.search('流感疫苗').hits.map(hit => hit.id)).toEqual(['flu'])
+    expect(engine.search('kencing manis').hits[0]!.id).toBe('diabetes')
+  })
+
+  it('expands a synonym to its other names to find related services', () => {
+    const outcome = engine.search('blood sugar test')
+    expect(outcome.expandedTerms).toEqual(expect.arrayContaining(['diabete', 'screening', '血糖']))
+    expect(outcome.hits.map(hit => hit.id).slice(0, 2)).toEqual(expect.arrayContaining(['diabetes', 'glucose']))
+  })
+
+  it('completes the last word as a prefix', () => {
+    expect(engine.search('flu vacc').hits[0]!.id).toBe('flu')
+    expect(engine.search('immunis').hits.map(hit => hit.id)).toEqual(['flu'])
+  })
+
+  it('returns nothing for unrelated queries', () => {
+    expect(engine.search('orthodontic braces').hits).toEqual([])
+  })
+})
+
+describe('Search highlighting', () => {
+  it('marks matched words, escaping the rest', () => {
+    expect(highlight('Diabetes <Screening> & care', ['diabete', 'screening'])).toBe(
+      '<mark>Diabetes</mark> &lt;<mark>Screening</mark>&gt; &amp; care'
+    )
+    expect(highlight('空腹血糖检查', ['血糖', '糖检'])).toBe('空腹<mark>血糖检</mark>查')
+  })
+
+  it('cuts a snippet around the first match at word boundaries', () => {
+    const text = `${'Routine review of general health. '.repeat(6)}Fasting glucose test for diabetes. ${'Results are explained by the doctor. '.repeat(4)}`
+    const result = snippet(text, ['glucose'], 80)
+    expect(result.startsWith('…')).toBe(true)
+    expect(result.endsWith('…')).toBe(true)
+    expect(result).toContain('Fasting <mark>glucose</mark> test')
+    expect(result.replace(/<\/?mark>/g, '').length).toBeLessThanOrEqual(82)
+  })
+})
+
+describe('Service search service', () => {
+  const services = [
+    {
+      id: 'diabetes',
+      name: 'Diabetes Screening',
+      description: 'Fasting glucose and HbA1c tests.',
+      medicalDescription: null,
+      patientFriendlyDesc: null,
+      synonyms: [],
+      searchTerms: ['glucose'],
+      commonSearchPhrases: [],
+      tags: [],
+      translations: { zh: { name: '糖尿病筛查', description: '空腹血糖和糖化血红蛋白检测' } },
+      categoryId: 'screening',
+      category: { displayName: 'Health Screening', translations: {}, synonyms: [] },
+      synonymsRel: [{ term: '血糖检查', searchBoost: 1 }],
+      searchIndex: [],
+      basePrice: 40,
+    },
+    {
+      id: 'glucose',
+      name: 'Blood Glucose Monitoring',
+      description: 'Regular glucose checks.',
+      medicalDescription: null,
+      patientFriendlyDesc: null,
+      synonyms: [],
+      searchTerms: [],
+      commonSearchPhrases: [],
+      tags: [],
+      translations: {},
+      categoryId: 'chronic',
+      category: { displayName: 'Chronic Care', translations: {}, synonyms: [] },
+      synonymsRel: [],
+      searchIndex: [],
+      basePrice: 15,
+    },
+  ]
+
+  // Service table stand-in that understands the `{ AND: [filters, { id: { in } }] }` queries
+  const db = asPrismaClient({
+    service: {
+      findMany: async (args: {
+        where: { isActive?: boolean; AND?: [{ categoryId?: string }, { id: { in: string[] } }] }
+        orderBy?: { basePrice: 'asc' }
+        take?: number
+      }) => {
+        const [filters, ids] = args.where.AND ?? [{}, { id: { in: services.map(s => s.id) } }]
+        const rows = services.filter(s => ids.id.in.includes(s.id) && (!filters.categoryId || s.categoryId === filters.categoryId))
+        const ordered = args.orderBy ? [...rows].sort((a, b) => a.basePrice - b.basePrice) : rows
+        return ordered.slice(0, args.take)
+      },
+      count: async () => services.length,
+    },
+  })
+
+  it('ranks, filters and highlights in the requested language', async () => {
+    const search = new ServiceSearchService(db)
+
+    const result = await search.search({ query: 'glucose', language: 'zh', orderBy: 'relevance', limit: 10, offset: 0 })
+    expect(result.total).toBe(2)
+    expect(result.matches.map(match => match.serviceId)).toEqual(['glucose', 'diabetes'])
+
+    const chinese = await search.search({ query: '血糖', language: 'zh', orderBy: 'relevance', limit: 10, offset: 0 })
+    expect(chinese.matches[0]).toMatchObject({
+      serviceId: 'diabetes',
+      highlights: { name: '糖尿病筛查', snippet: '空腹<mark>血糖</mark>和糖化血红蛋白检测' },
+    })
+
+    const filtered = await search.search({
+      query: 'glucose',
+      where: { categoryId: 'screening' },
+      orderBy: 'relevance',
+      limit: 10,
+      offset: 0,
+    })
+    expect(filtered.matches.map(match => match.serviceId)).toEqual(['diabetes'])
+
+    const byPrice = await search.search({ query: 'glucose', orderBy: { basePrice: 'asc' }, limit: 1, offset: 0 })
+    expect(byPrice.matches.map(match => match.serviceId)).toEqual(['glucose'])
+  })
+})
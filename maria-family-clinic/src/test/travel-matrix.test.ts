@@ -0,0 +1,105 @@
+/**
+ * Travel Matrix Tests
+ * Validates OSRM matrix parsing, time-of-day bands and the haversine fallback used in schedule checks
+ */
+
+import { describe, it, expect } from 'vitest'
+import { atSingaporeTime } from '@/lib/clinic-hours/calendar'
+import {
+  MatrixTravelTimeProvider,
+  TravelMatrixImportError,
+  parseOsrmTable,
+  parseTravelMatrixCsv,
+} from '@/lib/scheduling/travel-matrix'
+import { estimateTravelMinutes, travelTimeBand } from '@/lib/scheduling/travel-time'
+import { asPrismaClient } from './prisma-fake'
+
+// Jurong East and Tampines, roughly 25 km apart
+const JURONG = { id: 'jurong', postalCode: '609731', latitude: 1.3329, longitude: 103.7436 }
+const TAMPINES = { id: 'tampines', postalCode: '529510', latitude: 1.3526, longitude: 103.9447 }
+
+describe('Travel matrix', () => {
+  it('parses an OSRM table response, dropping self and unroutable pairs', () => {
+    const json = JSON.stringify({
+      code: 'Ok',
+      clinicIds: ['jurong', 'tampines'],
+      durations: [
+        [0, 2460],
+        [null, 0],
+      ],
+      distances: [
+        [0, 27350],
+        [null, 0],
+      ],
+    })
+
+    expect(parseOsrmTable(json, 'EVENING_PEAK')).toEqual([
+      { fromClinicId: 'jurong', toClinicId: 'tampines', timeBand: 'EVENING_PEAK', durationMinutes: 41, distanceKm: 27.4 },
+    ])
+  })
+
+  it('parses CSV rows with a per-row band or a default band', () => {
+    const csv = 'from,to,duration,band\njurong,tampines,1800,morning_peak\ntampines,jurong,1500,MIDDAY\n'
+
+    expect(parseTravelMatrixCsv(csv).map(e => [e.fromClinicId, e.timeBand, e.durationMinutes])).toEqual([
+      ['jurong', 'MORNING_PEAK', 30],
+      ['tampines', 'MIDDAY', 25],
+    ])
+    expect(parseTravelMatrixCsv('from,to,duration\njurong,tampines,600', 'OFF_PEAK')[0]?.timeBand).toBe('OFF_PEAK')
+    expect(() => parseTravelMatrixCsv('from,to,duration\njurong,tampines,600')).toThrow(TravelMatrixImportError)
+    expect(() => parseOsrmTable('{"durations":[[0]]}', 'MIDDAY')).toThrow(TravelMatrixImportError)
+  })
+
+  it('picks the time band from the departure time', () => {
+    expect(travelTimeBand(atSingaporeTime('2025-03-03', '08:30'))).toBe('MORNING_PEAK')
+    expect(travelTimeBand(atSingaporeTime('2025-03-03', '13:00'))).toBe('MIDDAY')
+    expect(travelTimeBand(atSingaporeTime('2025-03-03', '18:15'))).toBe('EVENING_PEAK')
+    expect(travelTimeBand(atSingaporeTime('2025-03-03', '22:00'))).toBe('OFF_PEAK')
+  })
+
+  it('uses the matrix for the departure band and falls back to haversine', async () => {
+    const queries: unknown[] = []
+    const db = asPrismaClient({
+      clinicTravelTime: {
+        findMany: async (args: { where: { fromClinicId: string; timeBand: string } }) => {
+          queries.push(args.where)
+          return args.where.fromClinicId === 'jurong' && args.where.timeBand === 'EVENING_PEAK'
+            ? [{ toClinicId: 'tampines', durationMinutes: 55 }]
+            : []
+        },
+      },
+    })
+    const provider = new MatrixTravelTimeProvider(db)
+
+    expect(await provider.getTravelMinutes(JURONG, TAMPINES, atSingaporeTime('2025-03-03', '18:00'))).toBe(55)
+    expect(await provider.getTravelMinutes(JURONG, TAMPINES, atSingaporeTime('2025-03-03', '18:30'))).toBe(55)
+    expect(await provider.getTravelMinutes(JURONG, TAMPINES, atSingaporeTime('2025-03-03', '13:00'))).toBe(
+      estimateTravelMinutes(JURONG, TAMPINES)
+    )
+    expect(await provider.getTravelMinutes(JURONG, JURONG)).toBe(0)
+    expect(queries).toHaveLength(2) // Cached per origin and band
+  })
+
+  it('retries a matrix lookup that failed instead of caching the failure', async () => {
+    let calls = 0
+    const db = asPrismaClient({
+      clinicTravelTime: {
+        findMany: async () => {
+          if (++calls === 1) throw new Error('connection reset')
+          return [{ toClinicId: 'tampines', durationMinutes: 55 }]
+        },
+      },
+    })
+    const provider = new MatrixTravelTimeProvider(db)
+    const departAt = atSingaporeTime('2025-03-03', '18:00')
+
+    await expect(provider.getTravelMinutes(JURONG, TAMPINES, departAt)).rejects.toThrow('connection reset')
+    expect(await provider.getTravelMinutes(JURONG, TAMPINES, departAt)).toBe(55)
+    expect(calls).toBe(2)
+  })
+
+  it('estimates cross-island trips from coordinates', () => {
+    expect(estimateTravelMinutes(JURONG, TAMPINES)).toBeGreaterThanOrEqual(60)
+    expect(estimateTravelMinutes({ id: 'a', postalCode: '609731' }, { id: 'b', postalCode: '529510' })).toBe(40)
+  })
+})
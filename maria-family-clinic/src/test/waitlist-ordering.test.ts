@@ -0,0 +1,88 @@
+/**
+ * Waitlist Ordering Tests
+ * Validates queue order and freed-slot candidate ranking used by the waitlist service
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { Prisma } from '@prisma/client'
+import { atSingaporeTime } from '@/lib/clinic-hours/calendar'
+import {
+  compareQueueOrder,
+  estimateWaitTime,
+  matchPreferredSlots,
+  parsePreferredSlots,
+  rankCandidatesForSlot,
+} from '@/lib/waitlist/ordering'
+
+const slot = {
+  start: atSingaporeTime('2025-06-10', '09:30'),
+  end: atSingaporeTime('2025-06-10', '10:00'),
+}
+
+function entry(id: string, urgencyLevel: 'ROUTINE' | 'URGENT' | 'EMERGENCY' | 'SAME_DAY', joinedHour: number, preferredSlots: Prisma.JsonArray = []) {
+  return {
+    id,
+    urgencyLevel,
+    joinedAt: new Date(2025, 5, 1, joinedHour),
+    preferredSlots,
+  }
+}
+
+describe('Waitlist ordering', () => {
+  it('orders the queue by urgency, then by join time', () => {
+    const queue = [
+      entry('routine-early', 'ROUTINE', 8),
+      entry('urgent-late', 'URGENT', 12),
+      entry('emergency', 'EMERGENCY', 15),
+      entry('routine-late', 'ROUTINE', 10),
+    ].sort(compareQueueOrder)
+
+    expect(queue.map(e => e.id)).toEqual(['emergency', 'urgent-late', 'routine-early', 'routine-late'])
+  })
+
+  it('drops malformed preferred slots', () => {
+    const slots = parsePreferredSlots([
+      { date: '2025-06-10', startTime: '09:00', endTime: '12:00' },
+      { date: '2025-06-10' },
+      'tomorrow',
+      null,
+    ])
+
+    expect(slots).toEqual([{ date: '2025-06-10', startTime: '09:00', endTime: '12:00' }])
+  })
+
+  it('matches preferred slots by overlapping time on the same day', () => {
+    expect(matchPreferredSlots([], slot)).toBe('flexible')
+    expect(matchPreferredSlots([{ date: '2025-06-10', startTime: '09:00', endTime: '10:00' }], slot)).toBe('preferred')
+    expect(matchPreferredSlots([{ date: '2025-06-10', startTime: '10:00', endTime: '11:00' }], slot)).toBeNull()
+    expect(matchPreferredSlots([{ date: '2025-06-11', startTime: '09:00', endTime: '10:00' }], slot)).toBeNull()
+  })
+
+  it('matches preferred slots in Singapore time', () => {
+    // 23:30-24:00 in Singapore is 15:30-16:00 UTC
+    const lateSlot = { start: atSingaporeTime('2025-06-10', '23:30'), end: atSingaporeTime('2025-06-11') }
+
+    expect(matchPreferredSlots([{ date: '2025-06-10', startTime: '23:00', endTime: '24:00' }], lateSlot)).toBe('preferred')
+    expect(matchPreferredSlots([{ date: '2025-06-10', startTime: '15:00', endTime: '16:00' }], lateSlot)).toBeNull()
+    expect(matchPreferredSlots([{ date: '2025-06-11', startTime: '00:00', endTime: '01:00' }], lateSlot)).toBeNull()
+  })
+
+  it('ranks candidates for a freed slot, preferring matching requests within the same urgency', () => {
+    const ranked = rankCandidatesForSlot(
+      [
+        entry('flexible-early', 'ROUTINE', 8),
+        entry('preferred-late', 'ROUTINE', 11, [{ date: '2025-06-10', startTime: '09:00', endTime: '12:00' }]),
+        entry('other-day', 'URGENT', 7, [{ date: '2025-06-12', startTime: '09:00', endTime: '12:00' }]),
+        entry('urgent-flexible', 'URGENT', 13),
+      ],
+      slot
+    )
+
+    expect(ranked.map(e => e.id)).toEqual(['urgent-flexible', 'preferred-late', 'flexible-early'])
+  })
+
+  it('estimates at least one day of waiting', () => {
+    expect(estimateWaitTime(1)).toBe('1 day')
+    expect(estimateWaitTime(7)).toBe('3 days')
+  })
+})